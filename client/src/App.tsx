@@ -7,6 +7,7 @@ import { useAuth } from "@/hooks/useAuth";
 import NotFound from "./pages/not-found";
 import Landing from "./pages/landing";
 import Home from "./pages/home";
+import VerifyCertificate from "./pages/verify-certificate";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -27,6 +28,7 @@ function Router() {
     return (
       <Switch>
         <Route path="/login" component={Landing} />
+        <Route path="/verify/:verificationId" component={VerifyCertificate} />
         <Route path="/:rest*" component={Landing} />
       </Switch>
     );
@@ -47,6 +49,7 @@ function Router() {
       <Route path="/profile" component={Home} />
       <Route path="/team" component={Home} />
       <Route path="/company-objectives" component={Home} />
+      <Route path="/okr-cycles" component={Home} />
       <Route path="/team-objectives" component={Home} />
       <Route path="/competency-management" component={Home} />
       <Route path="/skill-categories" component={Home} />
@@ -54,10 +57,13 @@ function Router() {
       <Route path="/proficiency-levels" component={Home} />
       <Route path="/skills" component={Home} />
       <Route path="/training-matrix" component={Home} />
+      <Route path="/certificates" component={Home} />
       <Route path="/learning-paths" component={Home} />
       <Route path="/user-management" component={Home} />
       <Route path="/job-roles" component={Home} />
       <Route path="/departments" component={Home} />
+      <Route path="/permission-roles" component={Home} />
+      <Route path="/service-accounts" component={Home} />
       <Route path="/organization" component={Home} />
       <Route path="/automation-engine" component={Home} />
       <Route path="/analytics" component={Home} />
@@ -67,6 +73,8 @@ function Router() {
       <Route path="/reports" component={Home} />
       <Route path="/settings" component={Home} />
       <Route path="/webhooks" component={Home} />
+      <Route path="/notification-templates" component={Home} />
+      <Route path="/verify/:verificationId" component={VerifyCertificate} />
       <Route component={NotFound} />
     </Switch>
   );
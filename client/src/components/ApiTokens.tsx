@@ -0,0 +1,394 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { KeyRound, Plus, Copy, Trash2, History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import type { ApiToken, ApiTokenAccessLogEntry } from "@shared/schema";
+
+// The server never returns the hash; the secret is only present in the response to a create
+export type ApiTokenSummary = Omit<ApiToken, "tokenHash">;
+
+interface ApiTokenScopeCatalogue {
+  scopes: { name: string; description: string }[];
+  maxLifetimeDays: number;
+  maxRateLimitPerMinute: number;
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 180, label: "180 days" },
+  { days: 366, label: "1 year" },
+];
+
+const emptyTokenForm = { name: "", scopes: ["read"] as string[], expiresInDays: 90, rateLimitPerMinute: 60 };
+
+function getTokenStatus(token: ApiTokenSummary): { label: string; variant: "default" | "secondary" | "destructive" | "outline" } {
+  if (token.revokedAt) return { label: "Revoked", variant: "destructive" };
+  if (new Date(token.expiresAt) <= new Date()) return { label: "Expired", variant: "secondary" };
+  return { label: "Active", variant: "default" };
+}
+
+function formatDateTime(value: string | Date | null): string {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
+
+interface CreateApiTokenDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  endpoint: string;
+  invalidateKey: string;
+  title: string;
+}
+
+export function CreateApiTokenDialog({ open, onOpenChange, endpoint, invalidateKey, title }: CreateApiTokenDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyTokenForm);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const { data: catalogue } = useQuery<ApiTokenScopeCatalogue>({ queryKey: ['/api/api-tokens/scopes'], enabled: open });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", endpoint, form);
+      return await response.json();
+    },
+    onSuccess: (created: ApiTokenSummary & { token: string }) => {
+      queryClient.invalidateQueries({ queryKey: [invalidateKey] });
+      setSecret(created.token);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to create token"), variant: "destructive" });
+    },
+  });
+
+  const close = (isOpen: boolean) => {
+    if (!isOpen) {
+      setForm(emptyTokenForm);
+      setSecret(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const copySecret = async () => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Copied", description: "Token copied to the clipboard" });
+  };
+
+  const toggleScope = (name: string, checked: boolean) => {
+    setForm(current => ({
+      ...current,
+      scopes: checked ? [...current.scopes, name] : current.scopes.filter(scope => scope !== name),
+    }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{secret ? "Copy your token" : title}</DialogTitle>
+          <DialogDescription>
+            {secret
+              ? "This is the only time the token is shown. Store it somewhere safe, such as your script's secret store."
+              : "Send it as \"Authorization: Bearer <token>\". It can do what its owner can do, limited to the scopes you pick."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {secret ? (
+          <div className="flex gap-2">
+            <Input readOnly value={secret} className="font-mono text-xs" data-testid="input-api-token-secret" />
+            <Button variant="outline" size="icon" onClick={copySecret} data-testid="button-copy-api-token">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                value={form.name}
+                onChange={(event) => setForm({ ...form, name: event.target.value })}
+                placeholder="e.g. Power BI training matrix refresh"
+                data-testid="input-api-token-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="max-h-64 overflow-y-auto space-y-2 pr-1">
+                {(catalogue?.scopes ?? []).map(scope => (
+                  <div key={scope.name} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`api-token-scope-${scope.name}`}
+                      checked={form.scopes.includes(scope.name)}
+                      onCheckedChange={(checked) => toggleScope(scope.name, checked === true)}
+                      data-testid={`checkbox-api-token-scope-${scope.name}`}
+                    />
+                    <Label htmlFor={`api-token-scope-${scope.name}`} className="font-normal">
+                      <span className="font-mono">{scope.name}</span> — {scope.description}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Expires after</Label>
+                <Select value={String(form.expiresInDays)} onValueChange={(value) => setForm({ ...form, expiresInDays: Number(value) })}>
+                  <SelectTrigger data-testid="select-api-token-expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map(option => (
+                      <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api-token-rate-limit">Requests per minute</Label>
+                <Input
+                  id="api-token-rate-limit"
+                  type="number"
+                  min={1}
+                  max={catalogue?.maxRateLimitPerMinute}
+                  value={form.rateLimitPerMinute}
+                  onChange={(event) => setForm({ ...form, rateLimitPerMinute: Number(event.target.value) })}
+                  data-testid="input-api-token-rate-limit"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {secret ? (
+            <Button onClick={() => close(false)} data-testid="button-api-token-done">Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => close(false)}>Cancel</Button>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!form.name.trim() || form.scopes.length === 0 || createMutation.isPending}
+                data-testid="button-create-api-token"
+              >
+                {createMutation.isPending ? "Creating..." : "Create Token"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AccessLogDialog({ token, onClose }: { token: ApiTokenSummary | null; onClose: () => void }) {
+  const { data: entries = [], isLoading } = useQuery<ApiTokenAccessLogEntry[]>({
+    queryKey: [`/api/api-tokens/${token?.id}/access-log`],
+    enabled: !!token,
+  });
+
+  return (
+    <Dialog open={!!token} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Access log: {token?.name}</DialogTitle>
+          <DialogDescription>The most recent requests made with this token, including rejected ones</DialogDescription>
+        </DialogHeader>
+        <div className="max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Request</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>IP address</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    {isLoading ? "Loading..." : "This token hasn't been used yet"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-sm">{formatDateTime(entry.createdAt)}</TableCell>
+                    <TableCell className="font-mono text-xs">{entry.method} {entry.path}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.statusCode >= 400 ? "destructive" : "outline"}>{entry.statusCode}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{entry.ipAddress ?? "—"}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ApiTokenTableProps {
+  tokens: ApiTokenSummary[];
+  invalidateKey: string;
+}
+
+export function ApiTokenTable({ tokens, invalidateKey }: ApiTokenTableProps) {
+  const { toast } = useToast();
+  const [revokingToken, setRevokingToken] = useState<ApiTokenSummary | null>(null);
+  const [logToken, setLogToken] = useState<ApiTokenSummary | null>(null);
+
+  const revokeMutation = useMutation({
+    mutationFn: (tokenId: string) => apiRequest("DELETE", `/api/api-tokens/${tokenId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [invalidateKey] });
+      setRevokingToken(null);
+      toast({ title: "Success", description: "Token revoked. Requests using it are refused from now on." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to revoke token"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Token</TableHead>
+            <TableHead>Scopes</TableHead>
+            <TableHead>Expires</TableHead>
+            <TableHead>Last used</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {tokens.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center text-muted-foreground">
+                No API tokens yet
+              </TableCell>
+            </TableRow>
+          ) : (
+            tokens.map(token => {
+              const status = getTokenStatus(token);
+              return (
+                <TableRow key={token.id} data-testid={`row-api-token-${token.id}`}>
+                  <TableCell>
+                    <div className="font-medium">{token.name}</div>
+                    <div className="font-mono text-xs text-muted-foreground">{token.tokenPrefix}…</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map(scope => (
+                        <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>
+                      ))}
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">{token.rateLimitPerMinute}/min</div>
+                  </TableCell>
+                  <TableCell className="text-sm">{new Date(token.expiresAt).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-sm">{formatDateTime(token.lastUsedAt)}</TableCell>
+                  <TableCell>
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => setLogToken(token)} data-testid={`button-api-token-log-${token.id}`}>
+                      <History className="h-4 w-4" />
+                    </Button>
+                    {!token.revokedAt && (
+                      <Button variant="ghost" size="icon" onClick={() => setRevokingToken(token)} data-testid={`button-revoke-api-token-${token.id}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+
+      <AccessLogDialog token={logToken} onClose={() => setLogToken(null)} />
+
+      <AlertDialog open={!!revokingToken} onOpenChange={(open) => !open && setRevokingToken(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke {revokingToken?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Scripts and integrations using this token will stop working immediately. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => revokingToken && revokeMutation.mutate(revokingToken.id)}
+              data-testid="button-confirm-revoke-api-token"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+// Personal access tokens, shown on the profile page
+export default function ApiTokens() {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const { data: tokens = [] } = useQuery<ApiTokenSummary[]>({ queryKey: ['/api/api-tokens'] });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            API Tokens
+          </CardTitle>
+          <CardDescription>Personal access tokens let your scripts call the API as you, without signing in.</CardDescription>
+        </div>
+        <Button onClick={() => setIsCreateOpen(true)} data-testid="button-new-api-token">
+          <Plus className="h-4 w-4 mr-2" />
+          New Token
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <ApiTokenTable tokens={tokens} invalidateKey="/api/api-tokens" />
+      </CardContent>
+      <CreateApiTokenDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        endpoint="/api/api-tokens"
+        invalidateKey="/api/api-tokens"
+        title="New personal access token"
+      />
+    </Card>
+  );
+}
@@ -13,7 +13,9 @@ import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, getApiErrorBody, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import CertificateLayoutDesigner from "./CertificateLayoutDesigner";
+import type { CertificateLayout } from "@shared/schema";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -50,7 +52,10 @@ const certificateTemplateSchema = z.object({
   certificateType: z.enum(["course", "learning_path", "competency", "custom"]).default("learning_path"),
   title: z.string().min(1, "Certificate title is required"),
   bodyText: z.string().min(20, "Certificate body text is required"),
-  validityPeriod: z.coerce.number().min(1).max(3650).optional(), // Days
+  validityPeriod: z.preprocess(
+    (value) => value === "" || value === null ? undefined : value,
+    z.coerce.number().int().min(1).max(3650).optional()
+  ), // Days; empty means certificates never expire
   requiresApproval: z.boolean().default(false),
   autoIssue: z.boolean().default(true),
   signatories: z.array(z.string()).default([]),
@@ -63,6 +68,7 @@ const certificateTemplateSchema = z.object({
     }).optional(),
     fontStyle: z.enum(["modern", "classic", "elegant"]).default("modern")
   }).optional(),
+  isDefault: z.boolean().default(false),
   isActive: z.boolean().default(true)
 });
 
@@ -72,11 +78,11 @@ type CertificateTemplateFormType = z.infer<typeof certificateTemplateSchema>;
 interface CertificateTemplate {
   id: string;
   name: string;
-  description: string;
+  description: string | null;
   certificateType: "course" | "learning_path" | "competency" | "custom";
   title: string;
   bodyText: string;
-  validityPeriod?: number;
+  validityPeriod: number | null;
   requiresApproval: boolean;
   autoIssue: boolean;
   signatories: string[];
@@ -88,20 +94,25 @@ interface CertificateTemplate {
       accent: string;
     };
     fontStyle: "modern" | "classic" | "elegant";
-  };
+  } | null;
+  layout: CertificateLayout;
+  isDefault: boolean;
   isActive: boolean;
   createdAt: string;
   usage: {
     totalIssued: number;
     activeCertificates: number;
     expiredCertificates: number;
+    revokedCertificates: number;
   };
+  courseIds: string[];
+  learningPathIds: string[];
 }
 
 interface IssuedCertificate {
   id: string;
   userId: string;
-  templateId?: string;
+  templateId: string | null;
   certificateNumber: string;
   certificateType?: string;
   title?: string;
@@ -111,35 +122,42 @@ interface IssuedCertificate {
   metadata?: any;
   status: "active" | "expired" | "revoked";
   user: {
-    firstName: string;
-    lastName: string;
-    email: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
   };
-  template?: CertificateTemplate;
+  template: { id: string; name: string } | null;
+}
+
+interface IssuanceCounts {
+  issued: number;
+  active: number;
+  expired: number;
+  revoked: number;
 }
 
-interface CertificationStats {
-  totalIssued: number;
-  activeCount: number;
-  expiredCount: number;
-  revokedCount: number;
+interface CertificationStats extends IssuanceCounts {
   issueRate: number; // per month
-  topTemplates: Array<{
-    templateId: string;
-    templateName: string;
-    count: number;
-  }>;
-  recentIssues: Array<{
-    date: string;
-    count: number;
-  }>;
+  byTemplate: Array<IssuanceCounts & { templateId: string | null; templateName: string }>;
+  byCourse: Array<IssuanceCounts & { courseId: string; courseTitle: string }>;
+  byLearningPath: Array<IssuanceCounts & { learningPathId: string; learningPathTitle: string }>;
+  byMonth: Array<{ month: string; issued: number }>;
+}
+
+interface CourseOption {
+  id: string;
+  title: string;
 }
 
 // Certificate Template Management Component
 function CertificateTemplateManager() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<CertificateTemplate | null>(null);
+  const [assigningTemplate, setAssigningTemplate] = useState<CertificateTemplate | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [layout, setLayout] = useState<CertificateLayout | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const { user } = useAuth();
   const { toast } = useToast();
 
@@ -158,50 +176,67 @@ function CertificateTemplateManager() {
         },
         fontStyle: "modern"
       },
+      isDefault: false,
       isActive: true
     }
   });
 
-  // Fetch certificate templates
+  // Fetch certificate templates; search filters the loaded list
   const { data: templates, isLoading } = useQuery({
-    queryKey: ["/api/certificate-templates", { search: searchTerm }]
+    queryKey: ["/api/certificate-templates"]
   }) as { data: CertificateTemplate[] | undefined; isLoading: boolean };
 
+  // Merge variables and the standard layout new templates start from
+  const { data: designerData } = useQuery<{ variables: Record<string, string>; standardLayout: CertificateLayout }>({
+    queryKey: ["/api/certificate-templates/variables"]
+  });
+
+  const closeDialog = () => {
+    setIsCreateDialogOpen(false);
+    setEditingTemplate(null);
+    setLayout(null);
+    setIssues([]);
+    form.reset();
+  };
+
+  // Template validation errors list every problem in issues
+  const showError = (error: Error, fallback: string) => {
+    setIssues(getApiErrorBody(error)?.issues ?? []);
+    toast({ title: "Error", description: getApiErrorMessage(error, fallback), variant: "destructive" });
+  };
+
   // Create template mutation
   const createTemplateMutation = useMutation({
-    mutationFn: (data: CertificateTemplateFormType) => apiRequest("/api/certificate-templates", {
-      method: "POST",
-      body: JSON.stringify(data)
-    }),
+    mutationFn: (data: CertificateTemplateFormType) => apiRequest("POST", "/api/certificate-templates", { ...data, layout }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/certificate-templates"] });
       toast({ title: "Success", description: "Certificate template created successfully" });
-      setIsCreateDialogOpen(false);
-      form.reset();
-    }
+      closeDialog();
+    },
+    onError: (error: Error) => showError(error, "Failed to create certificate template")
   });
 
   // Update template mutation
   const updateTemplateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<CertificateTemplateFormType> }) => 
-      apiRequest(`/api/certificate-templates/${id}`, {
-        method: "PATCH",
-        body: JSON.stringify(data)
-      }),
+    mutationFn: ({ id, data }: { id: string; data: Partial<CertificateTemplateFormType> }) =>
+      apiRequest("PATCH", `/api/certificate-templates/${id}`, { ...data, layout }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/certificate-templates"] });
       toast({ title: "Success", description: "Certificate template updated successfully" });
-      setEditingTemplate(null);
-      form.reset();
-    }
+      closeDialog();
+    },
+    onError: (error: Error) => showError(error, "Failed to update certificate template")
   });
 
-  // Delete template mutation
+  // Delete template mutation; templates that have issued certificates can only be deactivated
   const deleteTemplateMutation = useMutation({
-    mutationFn: (id: string) => apiRequest(`/api/certificate-templates/${id}`, { method: "DELETE" }),
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/certificate-templates/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/certificate-templates"] });
       toast({ title: "Success", description: "Certificate template deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to delete certificate template"), variant: "destructive" });
     }
   });
 
@@ -209,19 +244,29 @@ function CertificateTemplateManager() {
     createTemplateMutation.mutate(data);
   };
 
+  // New templates start from the standard layout once it has loaded
+  useEffect(() => {
+    if (isCreateDialogOpen && !editingTemplate && !layout && designerData) {
+      setLayout(designerData.standardLayout);
+    }
+  }, [isCreateDialogOpen, editingTemplate, layout, designerData]);
+
   const handleEdit = (template: CertificateTemplate) => {
     setEditingTemplate(template);
+    setLayout(template.layout);
+    setIssues([]);
     form.reset({
       name: template.name,
-      description: template.description,
+      description: template.description ?? "",
       certificateType: template.certificateType,
       title: template.title,
       bodyText: template.bodyText,
-      validityPeriod: template.validityPeriod,
+      validityPeriod: template.validityPeriod ?? undefined,
       requiresApproval: template.requiresApproval,
       autoIssue: template.autoIssue,
       signatories: template.signatories,
-      branding: template.branding,
+      branding: template.branding ?? undefined,
+      isDefault: template.isDefault,
       isActive: template.isActive
     });
     setIsCreateDialogOpen(true);
@@ -233,9 +278,25 @@ function CertificateTemplateManager() {
     }
   };
 
+  // Renders the unsaved form and layout with sample holder data and opens the PDF in a new tab
+  const handlePreview = form.handleSubmit(async (data) => {
+    setIsPreviewing(true);
+    try {
+      const response = await apiRequest("POST", "/api/certificate-templates/preview", { ...data, layout });
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, "_blank");
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+      setIssues([]);
+    } catch (error) {
+      showError(error as Error, "Failed to preview certificate template");
+    } finally {
+      setIsPreviewing(false);
+    }
+  });
+
   const filteredTemplates = templates?.filter(template =>
     template.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    template.description.toLowerCase().includes(searchTerm.toLowerCase())
+    (template.description ?? "").toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   return (
@@ -291,6 +352,11 @@ function CertificateTemplateManager() {
                           Auto-Issue
                         </Badge>
                       )}
+                      {template.isDefault && (
+                        <Badge variant="secondary" className="text-xs">
+                          Default
+                        </Badge>
+                      )}
                     </div>
                     <p className="text-sm text-muted-foreground mb-2">{template.description}</p>
                     <div className="flex items-center gap-4 text-xs text-muted-foreground">
@@ -300,9 +366,20 @@ function CertificateTemplateManager() {
                       {template.validityPeriod && (
                         <span>📅 {template.validityPeriod} days validity</span>
                       )}
+                      <span>
+                        🔗 {template.courseIds.length} course{template.courseIds.length === 1 ? "" : "s"}, {template.learningPathIds.length} learning path{template.learningPathIds.length === 1 ? "" : "s"}
+                      </span>
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setAssigningTemplate(template)}
+                      data-testid={`assign-template-${template.id}`}
+                    >
+                      <Link className="w-4 h-4" />
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -314,7 +391,12 @@ function CertificateTemplateManager() {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => deleteTemplateMutation.mutate(template.id)}
+                      onClick={() => {
+                        if (window.confirm(`Delete the template "${template.name}"?`)) {
+                          deleteTemplateMutation.mutate(template.id);
+                        }
+                      }}
+                      disabled={deleteTemplateMutation.isPending}
                       data-testid={`delete-template-${template.id}`}
                     >
                       <Trash2 className="w-4 h-4" />
@@ -336,13 +418,9 @@ function CertificateTemplateManager() {
 
         {/* Create/Edit Template Dialog */}
         <Dialog open={isCreateDialogOpen || !!editingTemplate} onOpenChange={(open) => {
-          if (!open) {
-            setIsCreateDialogOpen(false);
-            setEditingTemplate(null);
-            form.reset();
-          }
+          if (!open) closeDialog();
         }}>
-          <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {editingTemplate ? "Edit Certificate Template" : "Create Certificate Template"}
@@ -431,7 +509,7 @@ function CertificateTemplateManager() {
                         <Textarea 
                           {...field} 
                           rows={4}
-                          placeholder="This is to certify that {firstName} {lastName} has successfully completed..."
+                          placeholder="has successfully completed {{course.title}}"
                           data-testid="textarea-body-text"
                         />
                       </FormControl>
@@ -479,8 +557,66 @@ function CertificateTemplateManager() {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <FormLabel>Layout</FormLabel>
+                  <p className="text-xs text-muted-foreground">
+                    Text fields can use the merge variables below, plus {"{{heading}}"} and {"{{body}}"} for the title and body text above.
+                  </p>
+                  {layout ? (
+                    <CertificateLayoutDesigner
+                      layout={layout}
+                      onChange={setLayout}
+                      variables={Object.keys(designerData?.variables ?? {})}
+                    />
+                  ) : (
+                    <Skeleton className="h-64 w-full" />
+                  )}
+                </div>
+
+                {issues.length > 0 && (
+                  <div className="rounded-md border border-destructive p-3 text-sm text-destructive space-y-1" data-testid="template-issues">
+                    {issues.map(issue => <p key={issue}>{issue}</p>)}
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between pt-4">
                   <div className="flex items-center gap-4">
+                    <FormField
+                      control={form.control}
+                      name="isDefault"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center space-x-2">
+                          <FormControl>
+                            <input
+                              type="checkbox"
+                              checked={field.value}
+                              onChange={field.onChange}
+                              data-testid="checkbox-is-default"
+                            />
+                          </FormControl>
+                          <FormLabel className="text-sm">Default for this type</FormLabel>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="isActive"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center space-x-2">
+                          <FormControl>
+                            <input
+                              type="checkbox"
+                              checked={field.value}
+                              onChange={field.onChange}
+                              data-testid="checkbox-is-active"
+                            />
+                          </FormControl>
+                          <FormLabel className="text-sm">Active</FormLabel>
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={form.control}
                       name="autoIssue"
@@ -519,16 +655,18 @@ function CertificateTemplateManager() {
                   </div>
 
                   <div className="flex gap-2">
+                    <Button type="button" variant="outline" onClick={closeDialog}>
+                      Cancel
+                    </Button>
                     <Button
                       type="button"
                       variant="outline"
-                      onClick={() => {
-                        setIsCreateDialogOpen(false);
-                        setEditingTemplate(null);
-                        form.reset();
-                      }}
+                      onClick={handlePreview}
+                      disabled={isPreviewing}
+                      data-testid="button-preview-template"
                     >
-                      Cancel
+                      <Eye className="w-4 h-4 mr-2" />
+                      {isPreviewing ? "Rendering..." : "Preview PDF"}
                     </Button>
                     <Button
                       type="submit"
@@ -543,41 +681,125 @@ function CertificateTemplateManager() {
             </Form>
           </DialogContent>
         </Dialog>
+
+        {assigningTemplate && (
+          <TemplateAssignmentDialog template={assigningTemplate} onClose={() => setAssigningTemplate(null)} />
+        )}
       </CardContent>
     </Card>
   );
 }
 
+// Chooses the courses and learning paths whose certificates print with a template
+function TemplateAssignmentDialog({ template, onClose }: { template: CertificateTemplate; onClose: () => void }) {
+  const { toast } = useToast();
+  const [courseIds, setCourseIds] = useState<string[]>(template.courseIds);
+  const [learningPathIds, setLearningPathIds] = useState<string[]>(template.learningPathIds);
+  const [filter, setFilter] = useState("");
+
+  const { data: courses } = useQuery<CourseOption[]>({ queryKey: ["/api/courses"] });
+  const { data: learningPaths } = useQuery<CourseOption[]>({ queryKey: ["/api/learning-paths"] });
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", `/api/certificate-templates/${template.id}/assignments`, { courseIds, learningPathIds }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certificate-templates"] });
+      toast({ title: "Success", description: "Template assignments saved" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to save assignments"), variant: "destructive" });
+    }
+  });
+
+  const toggle = (ids: string[], id: string) => ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+  const matches = (item: CourseOption) => item.title.toLowerCase().includes(filter.toLowerCase());
+
+  const renderList = (label: string, items: CourseOption[] | undefined, selected: string[], onToggle: (id: string) => void, testId: string) => (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{label} ({selected.length} selected)</h4>
+      <div className="max-h-64 overflow-y-auto rounded-md border p-2 space-y-1" data-testid={testId}>
+        {!items ? (
+          <Skeleton className="h-24 w-full" />
+        ) : items.filter(matches).length === 0 ? (
+          <p className="text-sm text-muted-foreground p-2">Nothing found</p>
+        ) : (
+          items.filter(matches).map(item => (
+            <label key={item.id} className="flex items-center gap-2 text-sm cursor-pointer">
+              <input type="checkbox" checked={selected.includes(item.id)} onChange={() => onToggle(item.id)} />
+              {item.title}
+            </label>
+          ))
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Assign "{template.name}"</DialogTitle>
+          <DialogDescription>
+            Certificates for these courses and learning paths print with this template. A course or path can have one
+            template, so choosing it here moves it from any other template.
+          </DialogDescription>
+        </DialogHeader>
+        <Input placeholder="Filter..." value={filter} onChange={(event) => setFilter(event.target.value)} data-testid="input-assignment-filter" />
+        <div className="grid grid-cols-2 gap-4">
+          {renderList("Courses", courses, courseIds, (id) => setCourseIds(toggle(courseIds, id)), "assignment-courses")}
+          {renderList("Learning paths", learningPaths, learningPathIds, (id) => setLearningPathIds(toggle(learningPathIds, id)), "assignment-learning-paths")}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-assignments">
+            Save Assignments
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // Issued Certificates Management Component
 function IssuedCertificatesManager() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("");
-  const [typeFilter, setTypeFilter] = useState<string>("");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [typeFilter, setTypeFilter] = useState<string>("all");
+  const [revoking, setRevoking] = useState<IssuedCertificate | null>(null);
+  const [revocationReason, setRevocationReason] = useState("");
+  const { toast } = useToast();
 
-  // Fetch issued certificates
+  // Fetch issued certificates; search, status and type are applied by the server
+  const params = new URLSearchParams();
+  if (searchTerm.trim()) params.set("search", searchTerm.trim());
+  if (statusFilter !== "all") params.set("status", statusFilter);
+  if (typeFilter !== "all") params.set("type", typeFilter);
+  const query = params.toString();
   const { data: certificates, isLoading } = useQuery({
-    queryKey: ["/api/certificates", { search: searchTerm, status: statusFilter, type: typeFilter }]
+    queryKey: [query ? `/api/certificates?${query}` : "/api/certificates"]
   }) as { data: IssuedCertificate[] | undefined; isLoading: boolean };
 
+  const invalidateCertificates = () => queryClient.invalidateQueries({
+    predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/certificates")
+  });
+
   // Revoke certificate mutation
   const revokeCertificateMutation = useMutation({
-    mutationFn: (certificateId: string) => apiRequest(`/api/certificates/${certificateId}/revoke`, {
-      method: "POST"
-    }),
+    mutationFn: ({ certificateId, reason }: { certificateId: string; reason: string }) =>
+      apiRequest("POST", `/api/lms/certificates/${certificateId}/revoke`, { reason }),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/certificates"] });
+      invalidateCertificates();
+      queryClient.invalidateQueries({ queryKey: ["/api/certificate-templates"] });
+      toast({ title: "Certificate revoked", description: "The certificate now shows as revoked when verified" });
+      setRevoking(null);
+      setRevocationReason("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to revoke certificate"), variant: "destructive" });
     }
   });
 
-  const filteredCertificates = certificates?.filter(cert => {
-    const matchesSearch = !searchTerm || 
-      cert.user.firstName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      cert.user.lastName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      cert.certificateNumber.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = !statusFilter || cert.status === statusFilter;
-    const matchesType = !typeFilter || cert.certificateType === typeFilter;
-    return matchesSearch && matchesStatus && matchesType;
-  });
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -615,7 +837,7 @@ function IssuedCertificatesManager() {
               <SelectValue placeholder="Status" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="">All Status</SelectItem>
+              <SelectItem value="all">All Status</SelectItem>
               <SelectItem value="active">Active</SelectItem>
               <SelectItem value="expired">Expired</SelectItem>
               <SelectItem value="revoked">Revoked</SelectItem>
@@ -627,7 +849,7 @@ function IssuedCertificatesManager() {
               <SelectValue placeholder="Type" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="">All Types</SelectItem>
+              <SelectItem value="all">All Types</SelectItem>
               <SelectItem value="course">Course</SelectItem>
               <SelectItem value="learning_path">Learning Path</SelectItem>
               <SelectItem value="competency">Competency</SelectItem>
@@ -636,7 +858,7 @@ function IssuedCertificatesManager() {
 
           <Button
             variant="outline"
-            onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/certificates"] })}
+            onClick={invalidateCertificates}
             data-testid="button-refresh-certificates"
           >
             <RefreshCw className="w-4 h-4 mr-2" />
@@ -651,22 +873,24 @@ function IssuedCertificatesManager() {
               <Skeleton key={i} className="h-16 w-full" />
             ))}
           </div>
-        ) : filteredCertificates && filteredCertificates.length > 0 ? (
+        ) : certificates && certificates.length > 0 ? (
           <div className="space-y-3">
-            {filteredCertificates.map((certificate) => (
+            {certificates.map((certificate) => (
               <Card key={certificate.id} className="p-4">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-4">
                     {getStatusIcon(certificate.status)}
                     <div>
                       <h4 className="font-medium">
-                        {certificate.user.firstName} {certificate.user.lastName}
+                        {[certificate.user.firstName, certificate.user.lastName].filter(Boolean).join(" ") || certificate.user.email || "Unknown holder"}
                       </h4>
                       <p className="text-sm text-muted-foreground">{certificate.user.email}</p>
                     </div>
                     <div>
                       <div className="font-medium text-sm">{certificate.title || "Certificate"}</div>
-                      <div className="text-xs text-muted-foreground">#{certificate.certificateNumber}</div>
+                      <div className="text-xs text-muted-foreground">
+                        #{certificate.certificateNumber} · {certificate.template?.name ?? "Standard design"}
+                      </div>
                     </div>
                   </div>
 
@@ -690,6 +914,8 @@ function IssuedCertificatesManager() {
                       <Button
                         variant="outline"
                         size="sm"
+                        onClick={() => window.open(`/verify/${encodeURIComponent(certificate.verificationHash)}`, "_blank")}
+                        title="Open the public verification page"
                         data-testid={`view-certificate-${certificate.id}`}
                       >
                         <Eye className="w-4 h-4" />
@@ -697,15 +923,18 @@ function IssuedCertificatesManager() {
                       <Button
                         variant="outline"
                         size="sm"
+                        asChild
                         data-testid={`download-certificate-${certificate.id}`}
                       >
-                        <Download className="w-4 h-4" />
+                        <a href={`/api/lms/certificates/${certificate.id}/pdf`} title="Download PDF">
+                          <Download className="w-4 h-4" />
+                        </a>
                       </Button>
-                      {certificate.status === "active" && (
+                      {certificate.status !== "revoked" && (
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => revokeCertificateMutation.mutate(certificate.id)}
+                          onClick={() => setRevoking(certificate)}
                           data-testid={`revoke-certificate-${certificate.id}`}
                         >
                           <XCircle className="w-4 h-4" />
@@ -722,12 +951,41 @@ function IssuedCertificatesManager() {
             <FileText className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="font-medium mb-2">No certificates found</h3>
             <p className="text-sm text-muted-foreground">
-              {searchTerm || statusFilter || typeFilter ? 
+              {searchTerm || statusFilter !== "all" || typeFilter !== "all" ? 
                 "Try adjusting your filters" : 
                 "Certificates will appear here once learners complete training"}
             </p>
           </div>
         )}
+
+        <Dialog open={!!revoking} onOpenChange={(open) => { if (!open) { setRevoking(null); setRevocationReason(""); } }}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Revoke certificate {revoking?.certificateNumber}</DialogTitle>
+              <DialogDescription>
+                The reason is recorded in the certificate's audit log and shown to anyone who verifies it.
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              rows={3}
+              placeholder="Reason for revocation"
+              value={revocationReason}
+              onChange={(event) => setRevocationReason(event.target.value)}
+              data-testid="textarea-revocation-reason"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => { setRevoking(null); setRevocationReason(""); }}>Cancel</Button>
+              <Button
+                variant="destructive"
+                disabled={revocationReason.trim().length < 3 || revokeCertificateMutation.isPending}
+                onClick={() => revoking && revokeCertificateMutation.mutate({ certificateId: revoking.id, reason: revocationReason.trim() })}
+                data-testid="button-confirm-revoke"
+              >
+                Revoke
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
       </CardContent>
     </Card>
   );
@@ -739,6 +997,35 @@ function CertificationAnalytics() {
     queryKey: ["/api/certificates/analytics"]
   }) as { data: CertificationStats | undefined; isLoading: boolean };
 
+  const busiestMonth = Math.max(1, ...(stats?.byMonth ?? []).map(entry => entry.issued));
+
+  const renderBreakdown = (rows: Array<IssuanceCounts & { key: string; label: string }>, emptyText: string, testId: string) =>
+    rows.length > 0 ? (
+      <div className="space-y-3" data-testid={testId}>
+        {rows.map((row, index) => (
+          <div key={row.key} className="flex items-center justify-between p-3 border rounded-lg">
+            <div className="flex items-center gap-3">
+              <div className="flex items-center justify-center w-8 h-8 bg-muted rounded-full">
+                <span className="text-sm font-medium">{index + 1}</span>
+              </div>
+              <div>
+                <h4 className="font-medium">{row.label}</h4>
+                <p className="text-sm text-muted-foreground">
+                  {row.active} active · {row.expired} expired · {row.revoked} revoked
+                </p>
+              </div>
+            </div>
+            <Badge variant="secondary">{row.issued}</Badge>
+          </div>
+        ))}
+      </div>
+    ) : (
+      <div className="text-center py-8">
+        <Star className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-sm text-muted-foreground">{emptyText}</p>
+      </div>
+    );
+
   return (
     <div className="space-y-6">
       {/* Overview Stats */}
@@ -750,7 +1037,7 @@ function CertificationAnalytics() {
               <div className="ml-4">
                 <p className="text-sm font-medium text-muted-foreground">Total Issued</p>
                 <p className="text-2xl font-bold" data-testid="stat-total-issued">
-                  {isLoading ? "-" : stats?.totalIssued || 0}
+                  {isLoading ? "-" : stats?.issued || 0}
                 </p>
               </div>
             </div>
@@ -764,7 +1051,7 @@ function CertificationAnalytics() {
               <div className="ml-4">
                 <p className="text-sm font-medium text-muted-foreground">Active</p>
                 <p className="text-2xl font-bold" data-testid="stat-active">
-                  {isLoading ? "-" : stats?.activeCount || 0}
+                  {isLoading ? "-" : stats?.active || 0}
                 </p>
               </div>
             </div>
@@ -778,7 +1065,7 @@ function CertificationAnalytics() {
               <div className="ml-4">
                 <p className="text-sm font-medium text-muted-foreground">Expired</p>
                 <p className="text-2xl font-bold" data-testid="stat-expired">
-                  {isLoading ? "-" : stats?.expiredCount || 0}
+                  {isLoading ? "-" : stats?.expired || 0}
                 </p>
               </div>
             </div>
@@ -792,7 +1079,7 @@ function CertificationAnalytics() {
               <div className="ml-4">
                 <p className="text-sm font-medium text-muted-foreground">Monthly Rate</p>
                 <p className="text-2xl font-bold" data-testid="stat-monthly-rate">
-                  {isLoading ? "-" : Math.round(stats?.issueRate || 0)}
+                  {isLoading ? "-" : stats?.issueRate ?? 0}
                 </p>
               </div>
             </div>
@@ -800,6 +1087,32 @@ function CertificationAnalytics() {
         </Card>
       </div>
 
+      {/* Issued per month */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Issued per Month</CardTitle>
+          <CardDescription>Certificates issued over the last 12 months</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-40 w-full" />
+          ) : (
+            <div className="flex items-end gap-2 h-40" data-testid="chart-issued-by-month">
+              {stats?.byMonth.map(entry => (
+                <div key={entry.month} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+                  <span className="text-xs text-muted-foreground">{entry.issued}</span>
+                  <div
+                    className="w-full rounded-t bg-primary"
+                    style={{ height: `${(entry.issued / busiestMonth) * 100}%`, minHeight: entry.issued > 0 ? 2 : 0 }}
+                  />
+                  <span className="text-[10px] text-muted-foreground">{entry.month.slice(2)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Top Templates */}
       <Card>
         <CardHeader>
@@ -813,32 +1126,43 @@ function CertificationAnalytics() {
                 <Skeleton key={i} className="h-12 w-full" />
               ))}
             </div>
-          ) : stats?.topTemplates && stats.topTemplates.length > 0 ? (
-            <div className="space-y-4">
-              {stats.topTemplates.map((template, index) => (
-                <div key={template.templateId} className="flex items-center justify-between p-3 border rounded-lg">
-                  <div className="flex items-center gap-3">
-                    <div className="flex items-center justify-center w-8 h-8 bg-muted rounded-full">
-                      <span className="text-sm font-medium">{index + 1}</span>
-                    </div>
-                    <div>
-                      <h4 className="font-medium">{template.templateName}</h4>
-                      <p className="text-sm text-muted-foreground">{template.count} certificates issued</p>
-                    </div>
-                  </div>
-                  <Badge variant="secondary">{template.count}</Badge>
-                </div>
-              ))}
-            </div>
-          ) : (
-            <div className="text-center py-8">
-              <Star className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-              <h3 className="font-medium mb-2">No template data available</h3>
-              <p className="text-sm text-muted-foreground">Create and use templates to see analytics</p>
-            </div>
+          ) : renderBreakdown(
+            (stats?.byTemplate ?? []).map(row => ({ ...row, key: row.templateId ?? "standard", label: row.templateName })),
+            "Create and use templates to see analytics",
+            "analytics-by-template"
           )}
         </CardContent>
       </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>By Course</CardTitle>
+            <CardDescription>Courses with the most certificates issued</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? <Skeleton className="h-32 w-full" /> : renderBreakdown(
+              (stats?.byCourse ?? []).map(row => ({ ...row, key: row.courseId, label: row.courseTitle })),
+              "No course certificates issued yet",
+              "analytics-by-course"
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>By Learning Path</CardTitle>
+            <CardDescription>Learning paths with the most certificates issued</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? <Skeleton className="h-32 w-full" /> : renderBreakdown(
+              (stats?.byLearningPath ?? []).map(row => ({ ...row, key: row.learningPathId, label: row.learningPathTitle })),
+              "No learning path certificates issued yet",
+              "analytics-by-learning-path"
+            )}
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,359 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, Download, FileSpreadsheet, RotateCcw, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+
+type ImportType = "users" | "training_records" | "competency_evidence";
+
+interface ImportReport {
+  importType: ImportType;
+  totalRows: number;
+  validRows: number;
+  errors: Array<{ row: number; column?: string; message: string }>;
+  planned: Record<string, { created: number; updated: number }>;
+}
+
+interface ImportBatch {
+  id: string;
+  importType: ImportType;
+  fileName: string;
+  status: "validated" | "invalid" | "committed" | "rolled_back";
+  totalRows: number;
+  errorCount: number;
+  report: ImportReport | null;
+  createdAt: string;
+  committedAt: string | null;
+  rolledBackAt: string | null;
+  rollbackReason: string | null;
+}
+
+const importTypeOptions: Array<{ value: ImportType; label: string; description: string }> = [
+  { value: "users", label: "Users", description: "Create or update people, their teams, departments and managers. Users are matched by email, then employee ID." },
+  { value: "training_records", label: "Training records", description: "Record course completions from other systems, with optional certificates." },
+  { value: "competency_evidence", label: "Competency evidence", description: "Attach evidence such as external certificates and observations to competencies." },
+];
+
+const entityLabels: Record<string, string> = {
+  department: "Departments",
+  team: "Teams",
+  user: "Users",
+  team_member: "Team memberships",
+  enrollment: "Enrollments",
+  training_record: "Training records",
+  certificate: "Certificates",
+  competency_evidence: "Evidence records",
+};
+
+const statusVariants: Record<ImportBatch["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  validated: "secondary",
+  invalid: "destructive",
+  committed: "default",
+  rolled_back: "outline",
+};
+
+function ImportReportView({ report }: { report: ImportReport }) {
+  const planned = Object.entries(report.planned);
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        {report.errors.length === 0 ? (
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+        ) : (
+          <AlertTriangle className="h-4 w-4 text-destructive" />
+        )}
+        <span data-testid="text-import-summary">
+          {report.validRows} of {report.totalRows} rows valid
+          {report.errors.length > 0 && ` · ${report.errors.length} error${report.errors.length === 1 ? "" : "s"}`}
+        </span>
+      </div>
+
+      {report.errors.length === 0 && planned.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {planned.map(([entityType, counts]) => (
+            <Badge key={entityType} variant="outline">
+              {entityLabels[entityType] ?? entityType}: {counts.created} new{counts.updated > 0 ? `, ${counts.updated} updated` : ""}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {report.errors.length > 0 && (
+        <div className="max-h-64 overflow-y-auto rounded border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Row</TableHead>
+                <TableHead className="w-40">Column</TableHead>
+                <TableHead>Problem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.errors.map((error, index) => (
+                <TableRow key={index} data-testid={`row-import-error-${index}`}>
+                  <TableCell>{error.row}</TableCell>
+                  <TableCell className="font-mono text-xs">{error.column ?? "-"}</TableCell>
+                  <TableCell>{error.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Upload -> dry run report -> commit. Committed batches can be rolled back from the history below.
+export default function BulkImportDialog() {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [importType, setImportType] = useState<ImportType>("users");
+  const [validating, setValidating] = useState(false);
+  const [currentBatch, setCurrentBatch] = useState<ImportBatch | null>(null);
+  const [rollbackBatch, setRollbackBatch] = useState<ImportBatch | null>(null);
+  const [rollbackReason, setRollbackReason] = useState("");
+
+  const { data: batches = [] } = useQuery<ImportBatch[]>({
+    queryKey: ["/api/imports"],
+    enabled: isOpen,
+  });
+
+  const refreshAfterImport = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/imports"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+  };
+
+  const commitMutation = useMutation({
+    mutationFn: async (batchId: string) => {
+      const response = await apiRequest("POST", `/api/imports/${batchId}/commit`);
+      return (await response.json()) as ImportBatch;
+    },
+    onSuccess: (batch) => {
+      setCurrentBatch(batch);
+      refreshAfterImport();
+      toast({ title: "Import committed", description: `${batch.totalRows} rows from ${batch.fileName} were imported` });
+    },
+    onError: (error: Error) => {
+      const report: ImportReport | undefined = getApiErrorBody(error)?.report;
+      if (report && currentBatch) {
+        setCurrentBatch({ ...currentBatch, status: "invalid", errorCount: report.errors.length, report });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/imports"] });
+      toast({ title: "Import not committed", description: getApiErrorMessage(error, "Failed to commit import"), variant: "destructive" });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async ({ batchId, reason }: { batchId: string; reason: string }) => {
+      const response = await apiRequest("POST", `/api/imports/${batchId}/rollback`, { reason });
+      return (await response.json()) as ImportBatch;
+    },
+    onSuccess: (batch) => {
+      setRollbackBatch(null);
+      setRollbackReason("");
+      if (currentBatch?.id === batch.id) setCurrentBatch(batch);
+      refreshAfterImport();
+      toast({ title: "Import rolled back", description: `Changes from ${batch.fileName} were reversed` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Rollback failed", description: getApiErrorMessage(error, "Failed to roll back import"), variant: "destructive" });
+    },
+  });
+
+  const selectedType = importTypeOptions.find(option => option.value === importType)!;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-bulk-import">
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Bulk Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bulk Import</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel (.xlsx) file. It is checked first; nothing changes until you commit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3 items-end">
+            <div className="space-y-2">
+              <Label>What are you importing?</Label>
+              <Select
+                value={importType}
+                onValueChange={(value) => {
+                  setImportType(value as ImportType);
+                  setCurrentBatch(null);
+                }}
+              >
+                <SelectTrigger data-testid="select-import-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {importTypeOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="ghost" asChild>
+              <a href={`/api/imports/templates/${importType}`} data-testid="link-import-template">
+                <Download className="h-4 w-4 mr-2" />
+                Template
+              </a>
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">{selectedType.description}</p>
+
+          <ObjectUploader
+            maxNumberOfFiles={1}
+            maxFileSize={10 * 1024 * 1024}
+            onGetUploadParameters={async () => {
+              const response = await apiRequest("/api/objects/upload", { method: "POST" });
+              const { uploadURL } = await response.json();
+              return { method: "PUT" as const, url: uploadURL };
+            }}
+            onComplete={async (result) => {
+              const uploaded = result.successful?.[0];
+              if (!uploaded?.uploadURL) return;
+              setValidating(true);
+              try {
+                const response = await apiRequest("POST", "/api/imports", {
+                  uploadURL: uploaded.uploadURL,
+                  importType,
+                  fileName: uploaded.name,
+                });
+                setCurrentBatch(await response.json());
+                queryClient.invalidateQueries({ queryKey: ["/api/imports"] });
+              } catch (error: any) {
+                toast({ title: "File could not be checked", description: getApiErrorMessage(error, "Failed to check file"), variant: "destructive" });
+              } finally {
+                setValidating(false);
+              }
+            }}
+            buttonClassName="w-full"
+          >
+            <div className="flex items-center justify-center gap-2">
+              <Upload className={`h-4 w-4 ${validating ? "animate-pulse" : ""}`} />
+              <span>{validating ? "Checking file..." : "Upload file (.csv or .xlsx)"}</span>
+            </div>
+          </ObjectUploader>
+
+          {currentBatch?.report && (
+            <div className="rounded-lg border p-4 space-y-3" data-testid="panel-import-report">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{currentBatch.fileName}</span>
+                <Badge variant={statusVariants[currentBatch.status]}>{currentBatch.status.replace("_", " ")}</Badge>
+              </div>
+              <ImportReportView report={currentBatch.report} />
+              {currentBatch.status === "validated" && (
+                <Button
+                  onClick={() => commitMutation.mutate(currentBatch.id)}
+                  disabled={commitMutation.isPending}
+                  data-testid="button-commit-import"
+                >
+                  {commitMutation.isPending ? "Importing..." : `Import ${currentBatch.totalRows} rows`}
+                </Button>
+              )}
+              {currentBatch.status === "invalid" && (
+                <p className="text-sm text-muted-foreground">Fix these rows and upload the file again. No changes were made.</p>
+              )}
+            </div>
+          )}
+
+          {batches.length > 0 && (
+            <div className="space-y-2">
+              <Label>Recent imports</Label>
+              <div className="rounded border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>File</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Rows</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {batches.map(batch => (
+                      <TableRow key={batch.id} data-testid={`row-import-batch-${batch.id}`}>
+                        <TableCell className="max-w-[200px] truncate" title={batch.fileName}>{batch.fileName}</TableCell>
+                        <TableCell>{importTypeOptions.find(option => option.value === batch.importType)?.label}</TableCell>
+                        <TableCell>{batch.totalRows}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[batch.status]} title={batch.rollbackReason ?? undefined}>
+                            {batch.status.replace("_", " ")}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {batch.status === "committed" && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setRollbackBatch(batch)}
+                              data-testid={`button-rollback-import-${batch.id}`}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Roll back
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <Dialog open={!!rollbackBatch} onOpenChange={(open) => !open && setRollbackBatch(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Roll back {rollbackBatch?.fileName}?</DialogTitle>
+              <DialogDescription>
+                Records this import created are removed and the values it changed are restored.
+                Fields edited by someone since the import are left as they are.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="rollback-reason">Reason</Label>
+              <Textarea
+                id="rollback-reason"
+                value={rollbackReason}
+                onChange={(e) => setRollbackReason(e.target.value)}
+                placeholder="e.g. Wrong export from the HR system"
+                data-testid="input-rollback-reason"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRollbackBatch(null)}>Cancel</Button>
+              <Button
+                variant="destructive"
+                disabled={rollbackReason.trim().length < 3 || rollbackMutation.isPending}
+                onClick={() => rollbackBatch && rollbackMutation.mutate({ batchId: rollbackBatch.id, reason: rollbackReason.trim() })}
+                data-testid="button-confirm-rollback"
+              >
+                {rollbackMutation.isPending ? "Rolling back..." : "Roll back import"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,448 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Image as ImageIcon, Plus, Trash2, Upload, QrCode, PenLine } from "lucide-react";
+import { CERTIFICATE_FONTS, type CertificateLayout, type CertificateLayoutField } from "@shared/schema";
+
+// Page sizes in PDF points, matching what pdfkit draws
+const PAGE_POINTS: Record<CertificateLayout["pageSize"], { long: number; short: number }> = {
+  A4: { long: 841.89, short: 595.28 },
+  LETTER: { long: 792, short: 612 },
+};
+
+const PREVIEW_WIDTH = 560;
+const MAX_FIELDS = 30;
+const MAX_SIGNATURES = 4;
+
+interface CertificateLayoutDesignerProps {
+  layout: CertificateLayout;
+  onChange: (layout: CertificateLayout) => void;
+  variables: string[];
+}
+
+function NumberInput({ label, value, onChange, min = 0, max = 100, step = 0.5, testId }: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+  testId?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        onChange={(event) => {
+          const next = parseFloat(event.target.value);
+          if (!isNaN(next)) onChange(Math.min(Math.max(next, min), max));
+        }}
+        data-testid={testId}
+      />
+    </div>
+  );
+}
+
+// Uploads a PNG or JPEG for the layout and hands back its /objects/... path
+function ImageUploadButton({ label, onUploaded, testId }: { label: string; onUploaded: (path: string) => void; testId: string }) {
+  const { toast } = useToast();
+  const [uploading, setUploading] = useState(false);
+
+  const upload = async (file: File) => {
+    setUploading(true);
+    try {
+      const response = await apiRequest("POST", "/api/certificate-templates/images", { filename: file.name });
+      const { uploadURL, objectPath } = await response.json();
+      const put = await fetch(uploadURL, { method: "PUT", body: file, headers: { "Content-Type": file.type } });
+      if (!put.ok) throw new Error("File upload failed");
+      onUploaded(objectPath);
+    } catch (error) {
+      console.error("Certificate template image upload failed:", error);
+      toast({ title: "Upload failed", description: "Use a PNG or JPEG image and try again.", variant: "destructive" });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Button type="button" variant="outline" size="sm" disabled={uploading} asChild>
+      <label className="cursor-pointer" data-testid={testId}>
+        <Upload className="w-4 h-4 mr-2" />
+        {uploading ? "Uploading..." : label}
+        <input
+          type="file"
+          accept="image/png,image/jpeg"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) upload(file);
+          }}
+        />
+      </label>
+    </Button>
+  );
+}
+
+function fileName(path: string): string {
+  return path.split("/").pop()?.replace(/^[0-9a-f-]{36}_/, "") || path;
+}
+
+export default function CertificateLayoutDesigner({ layout, onChange, variables }: CertificateLayoutDesignerProps) {
+  const [selectedFieldId, setSelectedFieldId] = useState<string | null>(layout.fields[0]?.id ?? null);
+  const selectedField = layout.fields.find(field => field.id === selectedFieldId) ?? null;
+
+  const points = PAGE_POINTS[layout.pageSize];
+  const pageWidth = layout.orientation === "landscape" ? points.long : points.short;
+  const pageHeight = layout.orientation === "landscape" ? points.short : points.long;
+  const scale = PREVIEW_WIDTH / pageWidth;
+
+  const update = (changes: Partial<CertificateLayout>) => onChange({ ...layout, ...changes });
+  const updateField = (id: string, changes: Partial<CertificateLayoutField>) =>
+    update({ fields: layout.fields.map(field => field.id === id ? { ...field, ...changes } : field) });
+
+  const addField = () => {
+    let index = layout.fields.length + 1;
+    while (layout.fields.some(field => field.id === `field-${index}`)) index++;
+    const field: CertificateLayoutField = {
+      id: `field-${index}`,
+      text: "New text",
+      x: 10,
+      y: 50,
+      width: 80,
+      fontSize: 14,
+      font: "Helvetica",
+      color: "#111827",
+      align: "center",
+    };
+    update({ fields: [...layout.fields, field] });
+    setSelectedFieldId(field.id);
+  };
+
+  const removeField = (id: string) => {
+    const fields = layout.fields.filter(field => field.id !== id);
+    update({ fields });
+    setSelectedFieldId(fields[0]?.id ?? null);
+  };
+
+  const updateSignature = (index: number, changes: Partial<CertificateLayout["signatures"][number]>) =>
+    update({ signatures: layout.signatures.map((signature, i) => i === index ? { ...signature, ...changes } : signature) });
+
+  return (
+    <div className="space-y-4" data-testid="certificate-layout-designer">
+      <div className="grid grid-cols-4 gap-3 items-end">
+        <div className="space-y-1">
+          <Label className="text-xs">Page size</Label>
+          <Select value={layout.pageSize} onValueChange={(value) => update({ pageSize: value as CertificateLayout["pageSize"] })}>
+            <SelectTrigger data-testid="select-layout-page-size"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="A4">A4</SelectItem>
+              <SelectItem value="LETTER">Letter</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Orientation</Label>
+          <Select value={layout.orientation} onValueChange={(value) => update({ orientation: value as CertificateLayout["orientation"] })}>
+            <SelectTrigger data-testid="select-layout-orientation"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="landscape">Landscape</SelectItem>
+              <SelectItem value="portrait">Portrait</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Switch checked={layout.border} onCheckedChange={(border) => update({ border })} data-testid="switch-layout-border" />
+          <Label className="text-sm">Border</Label>
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Switch
+            checked={!!layout.qrCode}
+            onCheckedChange={(enabled) => update({ qrCode: enabled ? { x: 80, y: 66, size: 13 } : null })}
+            data-testid="switch-layout-qr"
+          />
+          <Label className="text-sm">Verification QR code</Label>
+        </div>
+      </div>
+
+      {/* Scaled page preview; click a text field to edit it */}
+      <div
+        className="relative mx-auto border bg-white shadow-sm overflow-hidden"
+        style={{ width: PREVIEW_WIDTH, height: pageHeight * scale }}
+        data-testid="layout-preview"
+      >
+        {layout.backgroundImage && (
+          <div className="absolute inset-0 bg-muted/40 flex items-center justify-center text-xs text-muted-foreground">
+            <ImageIcon className="w-4 h-4 mr-1" /> {fileName(layout.backgroundImage)}
+          </div>
+        )}
+        {layout.border && (
+          <>
+            <div className="absolute border-[3px] border-gray-800" style={{ inset: 25 * scale }} />
+            <div className="absolute border border-gray-400" style={{ inset: 35 * scale }} />
+          </>
+        )}
+        {layout.logo && (
+          <div
+            className="absolute border border-dashed border-primary/60 bg-primary/5 text-[10px] flex items-center justify-center"
+            style={{ left: `${layout.logo.x}%`, top: `${layout.logo.y}%`, width: `${layout.logo.width}%`, height: layout.logo.width * 0.4 * (PREVIEW_WIDTH / 100) }}
+          >
+            Logo
+          </div>
+        )}
+        {layout.fields.map(field => (
+          <div
+            key={field.id}
+            className={`absolute cursor-pointer whitespace-pre-wrap leading-tight ${field.id === selectedFieldId ? "outline outline-1 outline-primary" : "hover:outline hover:outline-1 hover:outline-muted-foreground"}`}
+            style={{
+              left: `${field.x}%`,
+              top: `${field.y}%`,
+              width: `${field.width}%`,
+              fontSize: field.fontSize * scale,
+              color: field.color,
+              textAlign: field.align,
+              fontWeight: field.font.endsWith("Bold") ? 700 : 400,
+              fontStyle: field.font.endsWith("Italic") || field.font.endsWith("Oblique") ? "italic" : "normal",
+              fontFamily: field.font.startsWith("Times") ? "serif" : field.font.startsWith("Courier") ? "monospace" : "sans-serif",
+            }}
+            onClick={() => setSelectedFieldId(field.id)}
+            data-testid={`layout-field-${field.id}`}
+          >
+            {field.text}
+          </div>
+        ))}
+        {layout.signatures.map((signature, index) => (
+          <div
+            key={index}
+            className="absolute text-center text-[10px]"
+            style={{ left: `${signature.x}%`, top: `${signature.y}%`, width: `${signature.width}%` }}
+          >
+            <div className="border-t border-gray-700" />
+            <div className="font-semibold">{signature.name || "Signatory"}</div>
+            <div className="text-muted-foreground">{signature.title}</div>
+          </div>
+        ))}
+        {layout.qrCode && (
+          <div
+            className="absolute border border-dashed border-gray-500 flex items-center justify-center"
+            style={{ left: `${layout.qrCode.x}%`, top: `${layout.qrCode.y}%`, width: `${layout.qrCode.size}%`, height: layout.qrCode.size * (PREVIEW_WIDTH / 100) }}
+          >
+            <QrCode className="w-6 h-6 text-gray-500" />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {/* Text fields */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Text fields</Label>
+            <Button type="button" variant="outline" size="sm" onClick={addField} disabled={layout.fields.length >= MAX_FIELDS} data-testid="button-add-layout-field">
+              <Plus className="w-4 h-4 mr-1" /> Add field
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {layout.fields.map(field => (
+              <Badge
+                key={field.id}
+                variant={field.id === selectedFieldId ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setSelectedFieldId(field.id)}
+              >
+                {field.id}
+              </Badge>
+            ))}
+          </div>
+          {selectedField && (
+            <div className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <Input
+                  value={selectedField.id}
+                  onChange={(event) => {
+                    const id = event.target.value.replace(/[^a-zA-Z0-9_-]/g, "").slice(0, 50);
+                    if (!id || layout.fields.some(field => field.id === id && field !== selectedField)) return;
+                    updateField(selectedField.id, { id });
+                    setSelectedFieldId(id);
+                  }}
+                  className="h-8 font-mono text-xs"
+                  data-testid="input-layout-field-id"
+                />
+                <Button type="button" variant="ghost" size="sm" onClick={() => removeField(selectedField.id)} data-testid="button-remove-layout-field">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <Textarea
+                rows={2}
+                value={selectedField.text}
+                onChange={(event) => updateField(selectedField.id, { text: event.target.value })}
+                data-testid="textarea-layout-field-text"
+              />
+              <div className="flex flex-wrap gap-1">
+                {variables.map(name => (
+                  <Badge
+                    key={name}
+                    variant="secondary"
+                    className="cursor-pointer font-mono text-[10px]"
+                    onClick={() => updateField(selectedField.id, { text: `${selectedField.text}{{${name}}}` })}
+                  >
+                    {name}
+                  </Badge>
+                ))}
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                <NumberInput label="X %" value={selectedField.x} onChange={(x) => updateField(selectedField.id, { x })} />
+                <NumberInput label="Y %" value={selectedField.y} onChange={(y) => updateField(selectedField.id, { y })} />
+                <NumberInput label="Width %" value={selectedField.width} min={1} onChange={(width) => updateField(selectedField.id, { width })} />
+                <NumberInput label="Size" value={selectedField.fontSize} min={4} max={96} step={1} onChange={(fontSize) => updateField(selectedField.id, { fontSize })} />
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Font</Label>
+                  <Select value={selectedField.font} onValueChange={(font) => updateField(selectedField.id, { font: font as CertificateLayoutField["font"] })}>
+                    <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {CERTIFICATE_FONTS.map(font => <SelectItem key={font} value={font}>{font}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Align</Label>
+                  <Select value={selectedField.align} onValueChange={(align) => updateField(selectedField.id, { align: align as CertificateLayoutField["align"] })}>
+                    <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="left">Left</SelectItem>
+                      <SelectItem value="center">Center</SelectItem>
+                      <SelectItem value="right">Right</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Colour</Label>
+                  <Input
+                    type="color"
+                    className="h-9 p-1"
+                    value={selectedField.color}
+                    onChange={(event) => updateField(selectedField.id, { color: event.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Images, signatures and QR code */}
+        <div className="space-y-3">
+          <div className="space-y-2 rounded-md border p-3">
+            <Label>Background</Label>
+            <div className="flex items-center gap-2">
+              <ImageUploadButton label={layout.backgroundImage ? "Replace" : "Upload"} onUploaded={(path) => update({ backgroundImage: path })} testId="upload-layout-background" />
+              {layout.backgroundImage && (
+                <>
+                  <span className="text-xs text-muted-foreground truncate">{fileName(layout.backgroundImage)}</span>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => update({ backgroundImage: null })}><Trash2 className="w-4 h-4" /></Button>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2 rounded-md border p-3">
+            <Label>Logo</Label>
+            <div className="flex items-center gap-2">
+              <ImageUploadButton
+                label={layout.logo ? "Replace" : "Upload"}
+                onUploaded={(path) => update({ logo: { x: layout.logo?.x ?? 42, y: layout.logo?.y ?? 5, width: layout.logo?.width ?? 16, path } })}
+                testId="upload-layout-logo"
+              />
+              {layout.logo && (
+                <>
+                  <span className="text-xs text-muted-foreground truncate">{fileName(layout.logo.path)}</span>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => update({ logo: null })}><Trash2 className="w-4 h-4" /></Button>
+                </>
+              )}
+            </div>
+            {layout.logo && (
+              <div className="grid grid-cols-3 gap-2">
+                <NumberInput label="X %" value={layout.logo.x} onChange={(x) => update({ logo: { ...layout.logo!, x } })} />
+                <NumberInput label="Y %" value={layout.logo.y} onChange={(y) => update({ logo: { ...layout.logo!, y } })} />
+                <NumberInput label="Width %" value={layout.logo.width} min={1} onChange={(width) => update({ logo: { ...layout.logo!, width } })} />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center justify-between">
+              <Label className="flex items-center gap-1"><PenLine className="w-4 h-4" /> Signatures</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={layout.signatures.length >= MAX_SIGNATURES}
+                onClick={() => update({
+                  signatures: [...layout.signatures, { imagePath: null, name: "", title: "", x: 10 + layout.signatures.length * 22, y: 85, width: 20 }],
+                })}
+                data-testid="button-add-signature"
+              >
+                <Plus className="w-4 h-4 mr-1" /> Add
+              </Button>
+            </div>
+            {layout.signatures.map((signature, index) => (
+              <div key={index} className="space-y-2 border-t pt-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <Input placeholder="Name" value={signature.name} onChange={(event) => updateSignature(index, { name: event.target.value })} />
+                  <Input placeholder="Title" value={signature.title} onChange={(event) => updateSignature(index, { title: event.target.value })} />
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <NumberInput label="X %" value={signature.x} onChange={(x) => updateSignature(index, { x })} />
+                  <NumberInput label="Line Y %" value={signature.y} onChange={(y) => updateSignature(index, { y })} />
+                  <NumberInput label="Width %" value={signature.width} min={1} onChange={(width) => updateSignature(index, { width })} />
+                </div>
+                <div className="flex items-center gap-2">
+                  <ImageUploadButton
+                    label={signature.imagePath ? "Replace image" : "Signature image"}
+                    onUploaded={(imagePath) => updateSignature(index, { imagePath })}
+                    testId={`upload-signature-${index}`}
+                  />
+                  {signature.imagePath && (
+                    <span className="text-xs text-muted-foreground truncate">{fileName(signature.imagePath)}</span>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => update({ signatures: layout.signatures.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {layout.qrCode && (
+            <div className="space-y-2 rounded-md border p-3">
+              <Label>QR code</Label>
+              <div className="grid grid-cols-3 gap-2">
+                <NumberInput label="X %" value={layout.qrCode.x} onChange={(x) => update({ qrCode: { ...layout.qrCode!, x } })} />
+                <NumberInput label="Y %" value={layout.qrCode.y} onChange={(y) => update({ qrCode: { ...layout.qrCode!, y } })} />
+                <NumberInput label="Size %" value={layout.qrCode.size} min={5} max={40} onChange={(size) => update({ qrCode: { ...layout.qrCode!, size } })} />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
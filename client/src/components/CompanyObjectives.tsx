@@ -14,13 +14,14 @@ import { KeyResultProgressDialog } from "@/components/KeyResultProgressDialog";
 import { AuditHistoryTimeline } from "@/components/AuditHistoryTimeline";
 import { EvidenceManager } from "@/components/EvidenceManager";
 import { ObjectiveResourcePlanner } from "@/components/ObjectiveResourcePlanner";
+import { OkrRollupDetails } from "@/components/OkrRollupDetails";
 import { useState, useMemo } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { insertCompanyObjectiveSchema } from "@shared/schema";
 import { 
@@ -48,6 +49,8 @@ const objectiveSchema = insertCompanyObjectiveSchema.omit({ createdBy: true }).e
   qualityPolicyLinks: z.array(z.string()).optional(),
   resourceRequirements: z.any().optional(),
   evaluationMethod: z.string().optional(),
+  cycleId: z.string().optional(),
+  dependencies: z.array(z.string()).optional(),
 }).refine(
   (data) => new Date(data.endDate) >= new Date(data.startDate),
   {
@@ -58,6 +61,16 @@ const objectiveSchema = insertCompanyObjectiveSchema.omit({ createdBy: true }).e
 
 type ObjectiveForm = z.infer<typeof objectiveSchema>;
 
+interface OkrCycleOption {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  status: "open" | "in_progress" | "closed";
+}
+
+const toDateInput = (value: string) => new Date(value).toISOString().split('T')[0];
+
 export default function CompanyObjectives() {
   const { user } = useAuth();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -66,6 +79,7 @@ export default function CompanyObjectives() {
   const [searchFilter, setSearchFilter] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [dateFilter, setDateFilter] = useState("all");
+  const [cycleFilter, setCycleFilter] = useState("all");
   const [selectedKeyResult, setSelectedKeyResult] = useState<any>(null);
   const [isProgressDialogOpen, setIsProgressDialogOpen] = useState(false);
   const [expandedObjectives, setExpandedObjectives] = useState<Set<string>>(new Set());
@@ -102,6 +116,10 @@ export default function CompanyObjectives() {
     queryKey: ["/api/quality-policies"],
   });
 
+  const { data: cycles } = useQuery<OkrCycleOption[]>({
+    queryKey: ["/api/okr-cycles"],
+  });
+
   // Filter users to only leadership and supervisors for owner selection
   const ownerOptions = useMemo(() => {
     if (!users) return [];
@@ -123,6 +141,8 @@ export default function CompanyObjectives() {
       strategicTheme: undefined,
       riskLevel: undefined,
       riskMitigation: "",
+      cycleId: "",
+      dependencies: [],
     },
   });
 
@@ -141,6 +161,8 @@ export default function CompanyObjectives() {
       strategicTheme: undefined,
       riskLevel: undefined,
       riskMitigation: "",
+      cycleId: "",
+      dependencies: [],
     },
   });
 
@@ -151,6 +173,7 @@ export default function CompanyObjectives() {
         ...data,
         startDate: new Date(data.startDate).toISOString(),
         endDate: new Date(data.endDate).toISOString(),
+        cycleId: data.cycleId || null,
       };
       await apiRequest("POST", "/api/objectives", payload);
     },
@@ -163,10 +186,10 @@ export default function CompanyObjectives() {
         description: "Company objective has been added successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to create objective. Please try again.",
+        description: getApiErrorMessage(error, "Failed to create objective. Please try again."),
         variant: "destructive",
       });
     },
@@ -179,6 +202,7 @@ export default function CompanyObjectives() {
         ...data,
         startDate: new Date(data.startDate).toISOString(),
         endDate: new Date(data.endDate).toISOString(),
+        cycleId: data.cycleId || null,
       };
       await apiRequest("PUT", `/api/objectives/${id}`, payload);
     },
@@ -192,10 +216,10 @@ export default function CompanyObjectives() {
         description: "Company objective has been updated successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update objective. Please try again.",
+        description: getApiErrorMessage(error, "Failed to update objective. Please try again."),
         variant: "destructive",
       });
     },
@@ -229,8 +253,11 @@ export default function CompanyObjectives() {
       metricType: "percentage" as "percentage" | "numeric" | "currency" | "boolean",
       startValue: 0,
       targetValue: 0,
+      direction: "increase" as "increase" | "decrease",
+      rollupWeight: 1,
     },
   });
+  const isHoldTarget = krForm.watch("startValue") === krForm.watch("targetValue");
 
   // Create key result mutation
   const createKeyResultMutation = useMutation({
@@ -245,6 +272,7 @@ export default function CompanyObjectives() {
       if (selectedObjectiveForKR) {
         queryClient.invalidateQueries({ queryKey: ["/api/objectives", selectedObjectiveForKR, "key-results"] });
       }
+      queryClient.invalidateQueries({ queryKey: ["/api/objectives"] });
       setIsKRDialogOpen(false);
       krForm.reset();
       toast({
@@ -295,10 +323,85 @@ export default function CompanyObjectives() {
       strategicTheme: objective.strategicTheme ?? undefined,
       riskLevel: objective.riskLevel ?? undefined,
       riskMitigation: objective.riskMitigation ?? "",
+      cycleId: objective.cycleId ?? "",
+      // Dependencies on objectives since deleted are dropped
+      dependencies: (objective.dependencies ?? []).filter((id: string) => (objectives as any[])?.some(other => other.id === id)),
     });
     setIsEditDialogOpen(true);
   };
 
+  // Closed cycles can't take new objectives, but an objective already in one keeps showing it
+  const renderCycleField = (form: typeof objectiveForm, testId: string) => (
+    <FormField
+      control={form.control}
+      name="cycleId"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>OKR Cycle (Optional)</FormLabel>
+          <Select
+            value={field.value || "none"}
+            onValueChange={(value) => {
+              field.onChange(value === "none" ? "" : value);
+              const cycle = cycles?.find(c => c.id === value);
+              if (cycle && !form.getValues("startDate")) form.setValue("startDate", toDateInput(cycle.startDate));
+              if (cycle && !form.getValues("endDate")) form.setValue("endDate", toDateInput(cycle.endDate));
+            }}
+          >
+            <FormControl>
+              <SelectTrigger data-testid={testId}>
+                <SelectValue placeholder="No cycle" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value="none">No cycle</SelectItem>
+              {cycles?.filter(cycle => cycle.status !== "closed" || cycle.id === field.value).map(cycle => (
+                <SelectItem key={cycle.id} value={cycle.id} disabled={cycle.status === "closed"}>
+                  {cycle.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  // Other objectives this one can't finish without; the server rejects choices that would loop back to it
+  const renderDependenciesField = (form: typeof objectiveForm, objectiveId: string | null, testId: string) => {
+    const candidates = ((objectives as any[]) ?? []).filter(objective => objective.id !== objectiveId);
+    return (
+      <FormField
+        control={form.control}
+        name="dependencies"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Depends On (Optional)</FormLabel>
+            {candidates.length > 0 ? (
+              <div className="max-h-40 overflow-y-auto space-y-2 rounded-md border p-3" data-testid={testId}>
+                {candidates.map(objective => (
+                  <div key={objective.id} className="flex items-center space-x-3">
+                    <Checkbox
+                      checked={field.value?.includes(objective.id)}
+                      onCheckedChange={(checked) => field.onChange(checked
+                        ? [...(field.value || []), objective.id]
+                        : field.value?.filter(id => id !== objective.id))}
+                      data-testid={`${testId}-${objective.id}`}
+                    />
+                    <span className="text-sm">{objective.title}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No other objectives to depend on</p>
+            )}
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    );
+  };
+
   // Objective Key Results Component
   function ObjectiveKeyResults({ objectiveId }: { objectiveId: string }) {
     const { data: keyResults, isLoading } = useQuery<any[]>({
@@ -464,9 +567,14 @@ export default function CompanyObjectives() {
         }
       }
 
+      // OKR cycle filter
+      if (cycleFilter !== "all" && (objective.cycleId ?? "none") !== cycleFilter) {
+        return false;
+      }
+
       return true;
     });
-  }, [objectives, searchFilter, statusFilter, dateFilter]);
+  }, [objectives, searchFilter, statusFilter, dateFilter, cycleFilter]);
 
   // Get status of objective
   const getObjectiveStatus = (objective: any) => {
@@ -497,7 +605,7 @@ export default function CompanyObjectives() {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div className="space-y-2">
               <Label>Search</Label>
               <div className="relative">
@@ -539,6 +647,21 @@ export default function CompanyObjectives() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <Label>OKR Cycle</Label>
+              <Select value={cycleFilter} onValueChange={setCycleFilter}>
+                <SelectTrigger data-testid="select-cycle-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Cycles</SelectItem>
+                  <SelectItem value="none">No Cycle</SelectItem>
+                  {cycles?.map(cycle => (
+                    <SelectItem key={cycle.id} value={cycle.id}>{cycle.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="space-y-2">
               <Label>&nbsp;</Label>
               <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
@@ -622,6 +745,8 @@ export default function CompanyObjectives() {
                           )}
                         />
                       </div>
+                      {renderCycleField(objectiveForm, "select-objective-cycle")}
+                      {renderDependenciesField(objectiveForm, null, "objective-dependencies")}
                       
                       {/* Phase 2: Owner Selection */}
                       <FormField
@@ -965,6 +1090,8 @@ export default function CompanyObjectives() {
                   )}
                 />
               </div>
+              {renderCycleField(editObjectiveForm, "select-edit-objective-cycle")}
+              {renderDependenciesField(editObjectiveForm, editingObjective?.id ?? null, "edit-objective-dependencies")}
 
               {/* Phase 2: Owner Selection */}
               <FormField
@@ -1313,6 +1440,49 @@ export default function CompanyObjectives() {
                   )}
                 />
               </div>
+              {isHoldTarget && (
+                <FormField
+                  control={krForm.control}
+                  name="direction"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hold the Line</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-key-result-direction">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="increase">Stay at or above the target</SelectItem>
+                          <SelectItem value="decrease">Stay at or below the target</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={krForm.control}
+                name="rollupWeight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weight in Objective Progress</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        min={0}
+                        step={0.5}
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        data-testid="input-key-result-weight"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <div className="flex justify-end space-x-2 pt-4">
                 <Button type="button" variant="outline" onClick={() => setIsKRDialogOpen(false)}>
                   Cancel
@@ -1400,6 +1570,33 @@ export default function CompanyObjectives() {
                               {objective.strategicTheme === 'financial_performance' && '💰 Financial'}
                             </Badge>
                           )}
+
+                          {objective.blockedBy?.length > 0 && (
+                            <Badge
+                              variant="destructive"
+                              className="text-xs"
+                              title={`Blocked by ${objective.blockedBy.map((id: string) => (objectives as any[])?.find(other => other.id === id)?.title ?? "an inactive objective").join(", ")}`}
+                              data-testid={`badge-objective-blocked-${objective.id}`}
+                            >
+                              <AlertCircle className="w-3 h-3 mr-1" />
+                              At risk from dependencies
+                            </Badge>
+                          )}
+                          {objective.cycleId && (
+                            <Badge variant="outline" className="text-xs" data-testid={`badge-objective-cycle-${objective.id}`}>
+                              {cycles?.find(cycle => cycle.id === objective.cycleId)?.name ?? "OKR cycle"}
+                            </Badge>
+                          )}
+                          {objective.finalScore != null ? (
+                            <Badge className="text-xs" data-testid={`badge-objective-final-score-${objective.id}`}>
+                              Final grade {objective.finalScore.toFixed(2)}
+                            </Badge>
+                          ) : objective.score != null && (
+                            <Badge variant="secondary" className="text-xs" data-testid={`badge-objective-score-${objective.id}`}>
+                              Score {objective.score.toFixed(2)}
+                            </Badge>
+                          )}
+                          <OkrRollupDetails objective={objective} objectiveType="company" canEdit={user?.role === "leadership"} />
                         </div>
                         <h4 className="font-semibold text-lg" data-testid={`text-objective-title-${objective.id}`}>
                           {objective.title}
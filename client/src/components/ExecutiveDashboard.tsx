@@ -17,6 +17,9 @@ import {
   Plus,
 } from "lucide-react";
 import { format } from "date-fns";
+import { queryClient } from "@/lib/queryClient";
+import { useRealtimeEvent, getRealtimePollInterval } from "@/hooks/useRealtime";
+import { ObjectiveDependencyGraph } from "./ObjectiveDependencyGraph";
 
 interface ExecutiveDashboardData {
   summary: {
@@ -93,8 +96,14 @@ const riskLevelColors: Record<string, string> = {
 export default function ExecutiveDashboard() {
   const [activeTab, setActiveTab] = useState<string>("overview");
 
+  // Key result updates and course completions arrive on the "dashboard" topic; poll every minute if the socket is down
+  const refreshDashboard = () => queryClient.invalidateQueries({ queryKey: ["/api/executive-dashboard"] });
+  useRealtimeEvent("key_result.progress_updated", refreshDashboard, "dashboard");
+  const realtimeStatus = useRealtimeEvent("enrollment.completed", refreshDashboard, "dashboard");
+
   const { data: dashboardData, isLoading } = useQuery<ExecutiveDashboardData>({
     queryKey: ["/api/executive-dashboard"],
+    refetchInterval: getRealtimePollInterval(realtimeStatus, 60000),
   });
 
   if (isLoading) {
@@ -273,6 +282,7 @@ export default function ExecutiveDashboard() {
           <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
           <TabsTrigger value="themes" data-testid="tab-themes">By Theme</TabsTrigger>
           <TabsTrigger value="at-risk" data-testid="tab-at-risk">At Risk</TabsTrigger>
+          <TabsTrigger value="dependencies" data-testid="tab-dependencies">Dependencies</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -432,6 +442,10 @@ export default function ExecutiveDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="dependencies" className="space-y-4">
+          <ObjectiveDependencyGraph />
+        </TabsContent>
       </Tabs>
     </div>
   );
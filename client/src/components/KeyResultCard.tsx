@@ -1,3 +1,6 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -9,9 +12,11 @@ import {
   DollarSign, 
   CheckCircle,
   Activity,
-  User
+  User,
+  AlertTriangle
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { KrForecast, KrForecastMethod } from "@shared/schema";
 
 interface KeyResult {
   id: string;
@@ -24,6 +29,7 @@ interface KeyResult {
   confidenceScore?: number | null;
   lastConfidenceUpdate?: string | null;
   ownerId?: string | null;
+  score?: number | null; // 0.0-1.0, scored on the server against the metric type and start value
   createdAt: string;
   updatedAt: string;
 }
@@ -33,18 +39,76 @@ interface KeyResultCardProps {
   ownerName?: string;
   onUpdateProgress?: (keyResult: KeyResult) => void;
   isCompanyLevel?: boolean;
+  keyResultType?: "company" | "team";
+}
+
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 64;
+const CHART_PADDING = 4;
+
+const forecastMethodLabels: Record<KrForecastMethod, string> = {
+  linear: "Linear",
+  ewma: "Recent",
+};
+
+// Readings so far, the projection to the end of the objective with its 80% range, and the target as a dashed line
+function ForecastChart({ forecast, targetValue }: { forecast: KrForecast; targetValue: number }) {
+  const start = new Date(forecast.points[0]?.at ?? forecast.asOf).getTime();
+  const end = Math.max(new Date(forecast.endDate).getTime(), start + 1);
+  const values = [
+    ...forecast.points.map(point => point.value),
+    targetValue,
+    ...(forecast.band ? [forecast.band.lowValue, forecast.band.highValue] : []),
+  ];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const x = (at: string | number) => CHART_PADDING + ((new Date(at).getTime() - start) / (end - start)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (value: number) => CHART_HEIGHT - CHART_PADDING - (max === min ? 0.5 : (value - min) / (max - min)) * (CHART_HEIGHT - CHART_PADDING * 2);
+  const last = forecast.points[forecast.points.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-16 text-muted-foreground">
+      <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(targetValue)} y2={y(targetValue)} stroke="currentColor" strokeDasharray="2 3" strokeWidth={1} />
+      {last && forecast.band && forecast.projectedValue !== null && (
+        <>
+          <polygon
+            points={`${x(last.at)},${y(last.value)} ${x(end)},${y(forecast.band.highValue)} ${x(end)},${y(forecast.band.lowValue)}`}
+            className="fill-primary/10"
+          />
+          <line x1={x(last.at)} y1={y(last.value)} x2={x(end)} y2={y(forecast.projectedValue)} className="stroke-primary" strokeDasharray="4 3" strokeWidth={1.5} />
+        </>
+      )}
+      <polyline
+        points={forecast.points.map(point => `${x(point.at)},${y(point.value)}`).join(" ")}
+        fill="none"
+        className="stroke-primary"
+        strokeWidth={2}
+      />
+      {forecast.points.map(point => (
+        <circle key={`${point.source}:${point.at}`} cx={x(point.at)} cy={y(point.value)} r={2} className="fill-primary" />
+      ))}
+    </svg>
+  );
 }
 
 export function KeyResultCard({ 
   keyResult, 
   ownerName, 
   onUpdateProgress,
-  isCompanyLevel = false 
+  isCompanyLevel = false,
+  keyResultType = isCompanyLevel ? "company" : "team"
 }: KeyResultCardProps) {
+  const [forecastMethod, setForecastMethod] = useState<KrForecastMethod>("linear");
+
+  const { data: forecast } = useQuery<KrForecast>({
+    queryKey: ["/api/key-results", keyResult.id, `forecast?type=${keyResultType}&method=${forecastMethod}`],
+  });
   
-  // Calculate progress percentage
+  // Calculate progress percentage, preferring the server's score when it sent one
   const range = keyResult.targetValue - keyResult.startValue;
-  const progress = range === 0 
+  const progress = keyResult.score != null
+    ? keyResult.score * 100
+    : range === 0 
     ? 100 
     : Math.min(100, Math.max(0, ((keyResult.currentValue - keyResult.startValue) / range) * 100));
 
@@ -119,6 +183,7 @@ export function KeyResultCard({
           <div className="flex items-center justify-between text-xs text-muted-foreground">
             <span data-testid={`kr-progress-label-${keyResult.id}`}>
               {progress.toFixed(0)}% Complete
+              {keyResult.score != null && ` · Score ${keyResult.score.toFixed(2)}`}
             </span>
             <span className={cn("font-medium", getConfidenceColor(keyResult.confidenceScore))}>
               {keyResult.confidenceScore && (
@@ -136,6 +201,45 @@ export function KeyResultCard({
           />
         </div>
 
+        {/* Forecast */}
+        {forecast && (
+          <div className="space-y-1" data-testid={`kr-forecast-${keyResult.id}`}>
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="text-muted-foreground" title={forecast.explanation} data-testid={`kr-forecast-summary-${keyResult.id}`}>
+                {forecast.projectedScore !== null && forecast.band
+                  ? `Forecast ${forecast.projectedScore.toFixed(2)} (${forecast.band.lowScore.toFixed(2)}-${forecast.band.highScore.toFixed(2)}) by ${format(new Date(forecast.endDate), "MMM d")}`
+                  : "No forecast yet"}
+              </span>
+              <div className="flex gap-1">
+                {(Object.keys(forecastMethodLabels) as KrForecastMethod[]).map(method => (
+                  <Button
+                    key={method}
+                    variant={forecastMethod === method ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setForecastMethod(method)}
+                    data-testid={`button-kr-forecast-${method}-${keyResult.id}`}
+                  >
+                    {forecastMethodLabels[method]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {forecast.points.length > 0 && <ForecastChart forecast={forecast} targetValue={keyResult.targetValue} />}
+            {forecast.confidenceMismatch && (
+              <Badge
+                variant="outline"
+                className="text-xs border-orange-300 text-orange-700 dark:text-orange-300"
+                title={forecast.explanation}
+                data-testid={`kr-forecast-mismatch-${keyResult.id}`}
+              >
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                {forecast.confidenceMismatch === "overconfident" ? "Confidence higher than the trend supports" : "Confidence lower than the trend suggests"}
+              </Badge>
+            )}
+          </div>
+        )}
+
         {/* Values Display */}
         <div className="grid grid-cols-3 gap-2 text-center">
           <div className="bg-muted/50 rounded p-2">
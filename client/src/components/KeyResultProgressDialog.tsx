@@ -91,7 +91,7 @@ export function KeyResultProgressDialog({
 
   // Fetch progress history
   const { data: progressHistory } = useQuery<ProgressUpdate[]>({
-    queryKey: ["/api/key-results", keyResult?.id, "progress-history", { type: keyResultType }],
+    queryKey: ["/api/key-results", keyResult?.id, `progress-history?type=${keyResultType}`],
     enabled: isOpen && !!keyResult,
   });
 
@@ -131,9 +131,9 @@ export function KeyResultProgressDialog({
           });
         }
       }
-      // Refetch progress history
+      // Refetch progress history and the forecasts drawn from it
       await queryClient.refetchQueries({ 
-        queryKey: ["/api/key-results", keyResult?.id, "progress-history"] 
+        queryKey: ["/api/key-results", keyResult?.id] 
       });
       
       toast({
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useIsMobile } from "@/hooks/use-mobile";
 import {
   LayoutDashboard,
@@ -33,6 +34,11 @@ import {
   Sparkles,
   FileText,
   AlertTriangle,
+  ShieldCheck,
+  Bot,
+  MessageSquareText,
+  Award,
+  CalendarRange,
 } from "lucide-react";
 import { NotificationBadge } from "./NotificationCenter";
 import Dashboard from "./Dashboard";
@@ -54,6 +60,8 @@ import Reports from "./Reports";
 import CompanySettings from "./CompanySettings";
 import CompetencyManagement from "./CompetencyManagement";
 import TrainingMatrixDashboard from "./TrainingMatrixDashboard";
+import AutoCertificationSystem from "./AutoCertificationSystem";
+import OkrCycles from "./OkrCycles";
 import LearningPathsManagement from "./LearningPathsManagement";
 import AutomationEngine from "./AutomationEngine";
 import AdvancedAnalyticsDashboard from "./AdvancedAnalyticsDashboard";
@@ -66,12 +74,16 @@ import Skills from "./Skills";
 import ExecutiveDashboard from "./ExecutiveDashboard";
 import ManagementReviews from "./ManagementReviews";
 import CorrectiveActionsBoard from "./CorrectiveActionsBoard";
+import PermissionRoleManagement from "./PermissionRoleManagement";
+import NotificationTemplateManagement from "./NotificationTemplateManagement";
+import ServiceAccountManagement from "./ServiceAccountManagement";
 
-type TabType = "dashboard" | "goals" | "development" | "recognition" | "meetings" | "learning" | "profile" | "user-management" | "job-roles" | "team" | "company-objectives" | "team-objectives" | "analytics" | "reports" | "settings" | "competency-management" | "training-matrix" | "learning-paths" | "automation-engine" | "webhooks" | "organization" | "departments" | "skill-categories" | "skill-category-types" | "proficiency-levels" | "skills" | "executive-dashboard" | "management-reviews" | "corrective-actions";
+type TabType = "dashboard" | "goals" | "development" | "recognition" | "meetings" | "learning" | "profile" | "user-management" | "job-roles" | "team" | "company-objectives" | "okr-cycles" | "team-objectives" | "analytics" | "reports" | "settings" | "competency-management" | "training-matrix" | "certificates" | "learning-paths" | "automation-engine" | "webhooks" | "organization" | "departments" | "skill-categories" | "skill-category-types" | "proficiency-levels" | "skills" | "executive-dashboard" | "management-reviews" | "corrective-actions" | "permission-roles" | "service-accounts" | "notification-templates";
 
 export default function Layout() {
   const [location] = useLocation();
   const { user } = useAuth();
+  const { can } = usePermissions();
   const isMobile = useIsMobile();
   
   // Dropdown state management
@@ -101,19 +113,24 @@ export default function Layout() {
     if (location === "/user-management") return "user-management";
     if (location === "/job-roles") return "job-roles";
     if (location === "/departments") return "departments";
+    if (location === "/permission-roles") return "permission-roles";
+    if (location === "/service-accounts") return "service-accounts";
     if (location === "/team") return "team";
     if (location === "/organization") return "organization";
     if (location === "/company-objectives") return "company-objectives";
+    if (location === "/okr-cycles") return "okr-cycles";
     if (location === "/team-objectives") return "team-objectives";
     if (location === "/reports") return "reports";
     if (location === "/settings") return "settings";
     if (location === "/competency-management") return "competency-management";
     if (location === "/training-matrix") return "training-matrix";
+    if (location === "/certificates") return "certificates";
     if (location === "/skill-categories") return "skill-categories";
     if (location === "/skill-category-types") return "skill-category-types";
     if (location === "/proficiency-levels") return "proficiency-levels";
     if (location === "/skills") return "skills";
     if (location === "/webhooks") return "webhooks";
+    if (location === "/notification-templates") return "notification-templates";
     return "dashboard";
   };
 
@@ -131,17 +148,19 @@ export default function Layout() {
     { id: "profile", label: "Profile", icon: User, component: Profile },
   ];
 
-  // Admin Dropdowns - only for supervisor/leadership
+  // Admin Dropdowns - each item needs the named permission (see server/permissions.ts)
   const adminDropdowns = {
     company: {
       id: "company",
       label: "Company",
       icon: Building2,
       items: [
-        { id: "settings", label: "Company Settings", icon: Settings, component: CompanySettings },
-        { id: "company-objectives", label: "Company Objectives", icon: Target, component: CompanyObjectives },
-        { id: "webhooks", label: "Webhook Configuration", icon: Webhook, component: WebhookConfiguration },
-        { id: "automation-engine", label: "Automation Engine", icon: Zap, component: AutomationEngine },
+        { id: "settings", label: "Company Settings", icon: Settings, component: CompanySettings, permission: "settings.manage" },
+        { id: "company-objectives", label: "Company Objectives", icon: Target, component: CompanyObjectives, permission: "okr.admin" },
+        { id: "okr-cycles", label: "OKR Cycles", icon: CalendarRange, component: OkrCycles, permission: "okr.admin" },
+        { id: "webhooks", label: "Webhook Configuration", icon: Webhook, component: WebhookConfiguration, permission: "webhook.manage" },
+        { id: "notification-templates", label: "Notification Templates", icon: MessageSquareText, component: NotificationTemplateManagement, permission: "settings.manage" },
+        { id: "automation-engine", label: "Automation Engine", icon: Zap, component: AutomationEngine, permission: "settings.manage" },
       ]
     },
     people: {
@@ -149,12 +168,14 @@ export default function Layout() {
       label: "People Management",
       icon: UsersRound,
       items: [
-        { id: "user-management", label: "User Management", icon: UserPlus, component: UserManagement },
-        { id: "job-roles", label: "Job Role Management", icon: Briefcase, component: JobRoleManagement },
-        { id: "departments", label: "Department Management", icon: Building2, component: DepartmentManagement },
-        { id: "team", label: "Team Management", icon: UsersRound, component: TeamManagement },
-        { id: "organization", label: "Organization Chart", icon: GitBranch, component: Organization },
-        { id: "team-objectives", label: "Team Objectives", icon: Target, component: TeamObjectives },
+        { id: "user-management", label: "User Management", icon: UserPlus, component: UserManagement, permission: "people.manage" },
+        { id: "job-roles", label: "Job Role Management", icon: Briefcase, component: JobRoleManagement, permission: "people.manage" },
+        { id: "departments", label: "Department Management", icon: Building2, component: DepartmentManagement, permission: "people.manage" },
+        { id: "team", label: "Team Management", icon: UsersRound, component: TeamManagement, permission: "people.manage" },
+        { id: "organization", label: "Organization Chart", icon: GitBranch, component: Organization, permission: "people.manage" },
+        { id: "team-objectives", label: "Team Objectives", icon: Target, component: TeamObjectives, permission: "people.manage" },
+        { id: "permission-roles", label: "Roles & Permissions", icon: ShieldCheck, component: PermissionRoleManagement, permission: "permission.manage" },
+        { id: "service-accounts", label: "Service Accounts", icon: Bot, component: ServiceAccountManagement, permission: "api.manage" },
       ]
     },
     talent: {
@@ -162,13 +183,14 @@ export default function Layout() {
       label: "Talent Development",
       icon: TrendingUp,
       items: [
-        { id: "competency-management", label: "Competency Management", icon: Layers, component: CompetencyManagement },
-        { id: "skill-categories", label: "Skill Categories", icon: Layers, component: SkillCategories },
-        { id: "skill-category-types", label: "Category Types", icon: Tag, component: SkillCategoryTypes },
-        { id: "proficiency-levels", label: "Proficiency Levels", icon: TrendingUp, component: ProficiencyLevels },
-        { id: "skills", label: "Skills", icon: Sparkles, component: Skills },
-        { id: "learning-paths", label: "Learning Paths", icon: Route, component: LearningPathsManagement },
-        { id: "training-matrix", label: "Training Matrix", icon: BarChart3, component: TrainingMatrixDashboard },
+        { id: "competency-management", label: "Competency Management", icon: Layers, component: CompetencyManagement, permission: "talent.manage" },
+        { id: "skill-categories", label: "Skill Categories", icon: Layers, component: SkillCategories, permission: "talent.manage" },
+        { id: "skill-category-types", label: "Category Types", icon: Tag, component: SkillCategoryTypes, permission: "talent.manage" },
+        { id: "proficiency-levels", label: "Proficiency Levels", icon: TrendingUp, component: ProficiencyLevels, permission: "talent.manage" },
+        { id: "skills", label: "Skills", icon: Sparkles, component: Skills, permission: "talent.manage" },
+        { id: "learning-paths", label: "Learning Paths", icon: Route, component: LearningPathsManagement, permission: "talent.manage" },
+        { id: "training-matrix", label: "Training Matrix", icon: BarChart3, component: TrainingMatrixDashboard, permission: "talent.manage" },
+        { id: "certificates", label: "Certificates", icon: Award, component: AutoCertificationSystem, permission: "talent.manage" },
       ]
     },
     analytics: {
@@ -176,27 +198,26 @@ export default function Layout() {
       label: "Analytics & Reports",
       icon: Brain,
       items: [
-        { id: "executive-dashboard", label: "Executive Dashboard", icon: TrendingUp, component: ExecutiveDashboard },
-        { id: "management-reviews", label: "Management Reviews", icon: FileText, component: ManagementReviews },
-        { id: "corrective-actions", label: "Corrective Actions", icon: AlertTriangle, component: CorrectiveActionsBoard },
-        { id: "reports", label: "Reports", icon: BarChart3, component: Reports },
-        { id: "analytics", label: "Advanced Analytics", icon: Brain, component: AdvancedAnalyticsDashboard },
+        { id: "executive-dashboard", label: "Executive Dashboard", icon: TrendingUp, component: ExecutiveDashboard, permission: "report.view" },
+        { id: "management-reviews", label: "Management Reviews", icon: FileText, component: ManagementReviews, permission: "report.view" },
+        { id: "corrective-actions", label: "Corrective Actions", icon: AlertTriangle, component: CorrectiveActionsBoard, permission: "report.view" },
+        { id: "reports", label: "Reports", icon: BarChart3, component: Reports, permission: "report.view" },
+        { id: "analytics", label: "Advanced Analytics", icon: Brain, component: AdvancedAnalyticsDashboard, permission: "report.view" },
       ]
     }
   };
 
-  // Get available admin dropdowns based on role
+  // Get available admin dropdowns based on permissions, hiding dropdowns with nothing the user can open
   const getAdminDropdowns = () => {
-    if (user?.role === 'leadership') {
-      return adminDropdowns;
-    } else if (user?.role === 'supervisor') {
-      // Supervisors get all except company management
-      const { company, ...supervisorDropdowns } = adminDropdowns;
-      return supervisorDropdowns;
-    }
-    return {};
+    return Object.fromEntries(
+      Object.entries(adminDropdowns)
+        .map(([key, dropdown]) => [key, { ...dropdown, items: dropdown.items.filter(item => can(item.permission)) }] as const)
+        .filter(([, dropdown]) => dropdown.items.length > 0)
+    );
   };
 
+  const availableAdminDropdowns = getAdminDropdowns();
+
   // Get all available components for routing
   const getAllComponents = () => {
     const components = new Map();
@@ -207,7 +228,7 @@ export default function Layout() {
     });
     
     // Add admin dropdown components
-    Object.values(getAdminDropdowns()).forEach((dropdown: any) => {
+    Object.values(availableAdminDropdowns).forEach((dropdown: any) => {
       dropdown.items.forEach((item: any) => {
         components.set(item.id, item.component);
       });
@@ -284,7 +305,7 @@ export default function Layout() {
             })}
             
             {/* Admin Dropdowns */}
-            {(user?.role === 'supervisor' || user?.role === 'leadership') && (
+            {Object.keys(availableAdminDropdowns).length > 0 && (
               <>
                 <div className="mt-6 mb-4">
                   <div className="px-4 py-2">
@@ -292,7 +313,7 @@ export default function Layout() {
                   </div>
                 </div>
                 
-                {Object.values(getAdminDropdowns()).map((dropdown: any) => {
+                {Object.values(availableAdminDropdowns).map((dropdown: any) => {
                   const DropdownIcon = dropdown.icon;
                   const isAnyItemActive = dropdown.items.some((item: any) => item.id === activeTab);
                   const hasExplicitState = openDropdowns.hasOwnProperty(dropdown.id);
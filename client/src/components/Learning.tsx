@@ -14,6 +14,7 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
@@ -60,6 +61,12 @@ import {
   X,
   PenTool
 } from "lucide-react";
+import { ScormPlayer, ScormPackageUpload } from "@/components/ScormPlayer";
+import { QuestionBankManagement, QuizDrawRulesEditor } from "@/components/QuestionBankManagement";
+import { QuizGradingQueue } from "@/components/QuizGradingQueue";
+import { QuizAttemptHistoryDialog } from "@/components/QuizAttemptHistory";
+import { QuizCountdown, describeAttemptClosure, getClosedAttemptMessage, useQuizAutosave } from "@/components/QuizAttemptTiming";
+import { AnswerKeyEditor, QuizAnswerInput, QUESTION_TYPE_LABELS, getDefaultAnswerFields, isChoiceQuestionType, isQuizAnswerComplete } from "@/components/QuizQuestionTypes";
 import { insertLessonSchema, insertLearningPathSchema, insertLearningPathStepSchema } from "@shared/schema";
 import ReactQuill from 'react-quill';
 import 'react-quill/dist/quill.snow.css';
@@ -233,6 +240,7 @@ const quizSchema = z.object({
   passingScore: z.coerce.number().min(50).max(100).default(80),
   maxAttempts: z.coerce.number().min(1).max(10).default(3),
   timeLimit: z.coerce.number().min(5).max(120).optional(),
+  expiryAction: z.enum(["auto_submit", "void"]).default("auto_submit"),
 });
 
 const quizQuestionSchema = z.object({
@@ -1114,6 +1122,8 @@ function VimeoPlayer({ videoId, enrollmentId, lessonId, onProgressUpdate, onComp
 
 export default function Learning() {
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const canAuthorCourses = can("course.author");
   const { toast } = useToast();
   const [location] = useLocation();
   const params = useParams();
@@ -1172,6 +1182,7 @@ export default function Learning() {
   const [userAnswers, setUserAnswers] = useState<{ [key: string]: any }>({});
   const [currentAttempt, setCurrentAttempt] = useState<any>(null);
   const [quizStartTime, setQuizStartTime] = useState<Date | null>(null);
+  const [quizDeadline, setQuizDeadline] = useState<number | null>(null);
   
   // Progressive quiz state
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -1353,6 +1364,7 @@ export default function Learning() {
       passingScore: 80,
       maxAttempts: 3,
       timeLimit: 60,
+      expiryAction: "auto_submit" as z.infer<typeof quizSchema>["expiryAction"],
     },
   });
 
@@ -1364,6 +1376,7 @@ export default function Learning() {
       passingScore: 80,
       maxAttempts: 3,
       timeLimit: 60,
+      expiryAction: "auto_submit" as z.infer<typeof quizSchema>["expiryAction"],
     },
   });
 
@@ -1376,6 +1389,7 @@ export default function Learning() {
         passingScore: editingQuiz.passingScore || 80,
         maxAttempts: editingQuiz.maxAttempts || 3,
         timeLimit: editingQuiz.timeLimit || 60,
+        expiryAction: editingQuiz.expiryAction === "void" ? "void" : "auto_submit",
       });
     }
   }, [editingQuiz, editQuizForm]);
@@ -1981,8 +1995,12 @@ export default function Learning() {
       });
       return await response.json();
     },
-    onSuccess: () => {
-      toast({
+    onSuccess: (attempt) => {
+      // The server hands back an open attempt instead of starting a new one
+      toast(attempt.lastSavedAt ? {
+        title: "Quiz Resumed",
+        description: "Your saved answers have been restored. The timer kept running while you were away.",
+      } : {
         title: "Quiz Started",
         description: "Your quiz attempt has been started. Good luck!",
       });
@@ -1997,17 +2015,19 @@ export default function Learning() {
   });
 
   const submitQuizAttemptMutation = useMutation({
-    mutationFn: async ({ attemptId, answers, timeSpent }: { attemptId: string; answers: any; timeSpent: number }) => {
+    mutationFn: async ({ attemptId, answers }: { attemptId: string; answers: any }) => {
+      // Time spent is measured by the server
       const response = await apiRequest("POST", `/api/lms/quiz-attempts/${attemptId}/submit`, {
-        answers,
-        timeSpent
+        answers
       });
       return await response.json();
     },
     onSuccess: (result) => {
       toast({
         title: "Quiz Submitted",
-        description: `Quiz completed! Score: ${result.score}% ${result.passed ? '✅ Passed' : '❌ Failed'}`,
+        description: result.gradingStatus === "pending_grading"
+          ? "Your written answers have been sent to a supervisor for grading. You'll be notified of your result."
+          : `Quiz completed! Score: ${result.score}% ${result.passed ? '✅ Passed' : '❌ Failed'}`,
       });
       
       // Invalidate the exact cache keys that the lesson page reads from
@@ -2046,6 +2066,8 @@ export default function Learning() {
       }
     },
     onError: (error: any) => {
+      // Attempts closed by the time limit are reported by handleQuizAttemptClosed
+      if (getClosedAttemptMessage(error)) return;
       toast({
         title: "Submit Failed",
         description: error.message || "Failed to submit quiz. Please try again.",
@@ -2358,7 +2380,7 @@ export default function Learning() {
   // Admin data queries
   const { data: adminCourses, isLoading: adminCoursesLoading } = useQuery<any[]>({
     queryKey: ["/api/lms/admin/courses"],
-    enabled: !!(user?.role === 'supervisor' || user?.role === 'leadership'),
+    enabled: canAuthorCourses,
     retry: false,
   });
 
@@ -2403,7 +2425,7 @@ export default function Learning() {
       const response = await apiRequest("GET", `/api/lms/courses/${selectedCourseForContent}/lessons`);
       return await response.json();
     },
-    enabled: !!(selectedCourseForContent && (user?.role === 'supervisor' || user?.role === 'leadership')),
+    enabled: !!(selectedCourseForContent && canAuthorCourses),
     retry: false,
   });
 
@@ -2415,7 +2437,7 @@ export default function Learning() {
       const response = await apiRequest("GET", `/api/lms/courses/${selectedCourseForViewing}/lessons`);
       return await response.json();
     },
-    enabled: !!(selectedCourseForViewing && selectedCourseForViewing !== "all" && (user?.role === 'supervisor' || user?.role === 'leadership')),
+    enabled: !!(selectedCourseForViewing && selectedCourseForViewing !== "all" && canAuthorCourses),
     retry: false,
   });
 
@@ -2427,7 +2449,7 @@ export default function Learning() {
       const response = await apiRequest("GET", `/api/lms/courses/${selectedCourseForViewing}/quizzes`);
       return await response.json();
     },
-    enabled: !!(selectedCourseForViewing && selectedCourseForViewing !== "all" && (user?.role === 'supervisor' || user?.role === 'leadership')),
+    enabled: !!(selectedCourseForViewing && selectedCourseForViewing !== "all" && canAuthorCourses),
     retry: false,
   });
 
@@ -2439,7 +2461,7 @@ export default function Learning() {
       const response = await apiRequest("GET", `/api/lms/lessons/${selectedLessonForViewing}/quizzes`);
       return await response.json();
     },
-    enabled: !!(selectedLessonForViewing && selectedLessonForViewing !== "all" && (user?.role === 'supervisor' || user?.role === 'leadership')),
+    enabled: !!(selectedLessonForViewing && selectedLessonForViewing !== "all" && canAuthorCourses),
     retry: false,
   });
 
@@ -2450,7 +2472,7 @@ export default function Learning() {
       const response = await apiRequest("GET", `/api/lms/admin/quizzes`);
       return await response.json();
     },
-    enabled: !!(selectedCourseForViewing === "all" && (user?.role === 'supervisor' || user?.role === 'leadership')),
+    enabled: !!(selectedCourseForViewing === "all" && canAuthorCourses),
     retry: false,
   });
 
@@ -2462,7 +2484,7 @@ export default function Learning() {
       const response = await apiRequest("GET", `/api/lms/admin/quizzes/${selectedQuizForQuestions}/questions`);
       return await response.json();
     },
-    enabled: !!(selectedQuizForQuestions && (user?.role === 'supervisor' || user?.role === 'leadership')),
+    enabled: !!(selectedQuizForQuestions && canAuthorCourses),
     retry: false,
   });
 
@@ -2622,20 +2644,20 @@ export default function Learning() {
         enrollmentId 
       });
       
-      // Fetch quiz questions
-      const questionsResponse = await apiRequest("GET", `/api/lms/quizzes/${quiz.id}/questions`);
-      const questions = await questionsResponse.json();
+      // The attempt carries the questions drawn for it, so retakes get a fresh set
+      const questions = attemptResult.questionSet ?? [];
       
       // Set up quiz state
       setCurrentQuiz(quiz);
       setQuizQuestionsForTaking(questions);
       setCurrentAttempt(attemptResult);
       
-      // Reset progressive quiz state
+      // Reset progressive quiz state; a resumed attempt restores its autosaved answers and server deadline
       setCurrentQuestionIndex(0);
       setIsQuizComplete(false);
-      setUserAnswers({});
-      setQuizStartTime(new Date());
+      setUserAnswers(attemptResult.answers ?? {});
+      setQuizStartTime(attemptResult.startedAt ? new Date(attemptResult.startedAt) : new Date());
+      setQuizDeadline(attemptResult.secondsRemaining != null ? Date.now() + attemptResult.secondsRemaining * 1000 : null);
       setIsQuizActive(true);
       
     } catch (error) {
@@ -2643,11 +2665,33 @@ export default function Learning() {
     }
   };
 
+  const endQuizSession = () => {
+    setIsQuizActive(false);
+    setCurrentQuiz(null);
+    setQuizQuestionsForTaking([]);
+    setUserAnswers({});
+    setCurrentAttempt(null);
+    setQuizStartTime(null);
+    setQuizDeadline(null);
+  };
+
+  // The server closed the attempt (time ran out, or it was submitted elsewhere); show how and drop the session
+  const handleQuizAttemptClosed = (message: string) => {
+    endQuizSession();
+    toast({
+      title: "Quiz Closed",
+      description: message,
+      variant: "destructive",
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/lms/enrollments/me"] });
+    if (courseId) {
+      queryClient.invalidateQueries({ queryKey: ["/api/lms/courses", courseId] });
+    }
+  };
+
   const submitQuiz = async () => {
     if (!currentAttempt || !quizStartTime) return;
     
-    const timeSpent = Math.floor((new Date().getTime() - quizStartTime.getTime()) / 1000);
-    
     console.log('Submitting quiz with answers:', {
       attemptId: currentAttempt.id,
       userAnswers,
@@ -2659,24 +2703,25 @@ export default function Learning() {
     try {
       const result = await submitQuizAttemptMutation.mutateAsync({
         attemptId: currentAttempt.id,
-        answers: userAnswers,
-        timeSpent
+        answers: userAnswers
       });
       
       // Reset quiz state
-      setIsQuizActive(false);
-      setCurrentQuiz(null);
-      setQuizQuestionsForTaking([]);
-      setUserAnswers({});
-      setCurrentAttempt(null);
-      setQuizStartTime(null);
+      endQuizSession();
       
       return result;
     } catch (error) {
+      const closedMessage = getClosedAttemptMessage(error);
+      if (closedMessage) {
+        handleQuizAttemptClosed(closedMessage);
+        return;
+      }
       console.error("Failed to submit quiz:", error);
     }
   };
 
+  const { lastSavedAt: quizLastSavedAt } = useQuizAutosave(currentAttempt?.id, userAnswers, isQuizActive, handleQuizAttemptClosed);
+
   const updateQuizAnswer = (questionId: string, answer: any) => {
     setUserAnswers(prev => ({
       ...prev,
@@ -2920,7 +2965,12 @@ export default function Learning() {
                             <ClipboardList className="w-3 h-3 mr-1" />
                             Quiz Available
                           </Badge>
-                          {currentLesson.quiz.latestAttempt && (
+                          {currentLesson.quiz.latestAttempt?.gradingStatus === 'pending_grading' ? (
+                            <Badge variant="secondary" data-testid="badge-quiz-pending-grading">
+                              <Clock className="w-3 h-3 mr-1" />
+                              Awaiting Grading
+                            </Badge>
+                          ) : currentLesson.quiz.latestAttempt && (
                             <Badge variant={currentLesson.quiz.latestAttempt.passed ? 'default' : 'destructive'}>
                               {currentLesson.quiz.latestAttempt.passed ? 'Quiz Passed' : 'Quiz Failed'}
                             </Badge>
@@ -3070,6 +3120,25 @@ export default function Learning() {
                           />
                         </div>
                       </div>
+                    ) : currentLesson?.contentType === 'scorm_package' && currentLesson?.scormPackageUrl?.startsWith('/api/lms/scorm/packages/') && courseDetails?.enrollment?.id ? (
+                      <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg min-h-96">
+                        <div className="p-6 border-b">
+                          <div className="flex items-center">
+                            <BookOpen className="w-6 h-6 text-blue-600 mr-2" />
+                            <div>
+                              <h3 className="font-semibold">SCORM Package</h3>
+                              <p className="text-sm text-muted-foreground">Progress, score and bookmarks are saved automatically</p>
+                            </div>
+                          </div>
+                        </div>
+                        <div className="p-6">
+                          <ScormPlayer
+                            enrollmentId={courseDetails.enrollment.id}
+                            lessonId={currentLesson.id}
+                            courseId={courseId ?? undefined}
+                          />
+                        </div>
+                      </div>
                     ) : currentLesson?.contentType === 'scorm_package' && currentLesson?.scormPackageUrl ? (
                       <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg min-h-96">
                         <div className="p-6 border-b">
@@ -3390,7 +3459,15 @@ export default function Learning() {
                           <CardDescription>{currentQuiz.description}</CardDescription>
                         </div>
                         <div className="flex items-center gap-2">
-                          {currentQuiz.timeLimit && (
+                          {quizLastSavedAt && (
+                            <span className="text-xs text-muted-foreground" data-testid="text-quiz-last-saved">
+                              Saved {quizLastSavedAt.toLocaleTimeString()}
+                            </span>
+                          )}
+                          {quizDeadline ? (
+                            // Submits whatever is answered when time runs out, inside the server's grace period
+                            <QuizCountdown deadline={quizDeadline} onExpire={() => { submitQuiz(); }} />
+                          ) : currentQuiz.timeLimit && (
                             <Badge variant="outline">
                               <Clock className="w-3 h-3 mr-1" />
                               {currentQuiz.timeLimit} min limit
@@ -3508,6 +3585,16 @@ export default function Learning() {
                                 </div>
                               )}
 
+                              {/* Short Answer, Numeric, Ordering, Matching and Essay Questions */}
+                              {!isChoiceQuestionType(currentQuestion.type) && (
+                                <QuizAnswerInput
+                                  question={currentQuestion}
+                                  answer={userAnswers[currentQuestion.id]}
+                                  onChange={(answer) => updateQuizAnswer(currentQuestion.id, answer)}
+                                  questionIndex={currentQuestionIndex}
+                                />
+                              )}
+
                               {/* Multi-Select Questions */}
                               {currentQuestion.type === "multi_select" && (
                                 <div className="space-y-3 max-w-2xl mx-auto">
@@ -3587,9 +3674,7 @@ export default function Learning() {
                                     onClick={() => {
                                       setCurrentQuestionIndex(currentQuestionIndex + 1);
                                     }}
-                                    disabled={userAnswers[currentQuestion.id] === undefined || 
-                                             (currentQuestion.type === "multi_select" && 
-                                              (!userAnswers[currentQuestion.id] || userAnswers[currentQuestion.id].length === 0))}
+                                    disabled={!isQuizAnswerComplete(currentQuestion, userAnswers[currentQuestion.id])}
                                     data-testid="button-next-question"
                                   >
                                     Next →
@@ -3597,7 +3682,7 @@ export default function Learning() {
                                 ) : (
                                   <Button 
                                     onClick={submitQuiz}
-                                    disabled={Object.keys(userAnswers).length !== quizQuestionsForTaking.length || submitQuizAttemptMutation.isPending}
+                                    disabled={!quizQuestionsForTaking.every((question: any) => isQuizAnswerComplete(question, userAnswers[question.id])) || submitQuizAttemptMutation.isPending}
                                     data-testid="button-submit-quiz"
                                     className="bg-green-600 hover:bg-green-700"
                                   >
@@ -3734,9 +3819,21 @@ export default function Learning() {
                                   {hasQuiz && lesson.quiz.latestAttempt && (
                                     <div className="text-xs mt-1">
                                       <span className={`inline-flex items-center gap-1 ${
-                                        quizPassed ? 'text-green-600' : 'text-red-600'
+                                        lesson.quiz.latestAttempt.gradingStatus === 'pending_grading' || (!lesson.quiz.latestAttempt.completedAt && !lesson.quiz.latestAttempt.voidedAt)
+                                          ? 'text-muted-foreground'
+                                          : quizPassed ? 'text-green-600' : 'text-red-600'
                                       }`}>
-                                        {quizPassed ? (
+                                        {!lesson.quiz.latestAttempt.completedAt && !lesson.quiz.latestAttempt.voidedAt ? (
+                                          <>
+                                            <Clock className="w-3 h-3" />
+                                            Quiz in progress - resume to continue
+                                          </>
+                                        ) : lesson.quiz.latestAttempt.gradingStatus === 'pending_grading' ? (
+                                          <>
+                                            <Clock className="w-3 h-3" />
+                                            Quiz submitted - awaiting grading
+                                          </>
+                                        ) : quizPassed ? (
                                           <>
                                             <CheckCircle className="w-3 h-3" />
                                             Quiz Passed ({lesson.quiz.latestAttempt.score}%)
@@ -3744,7 +3841,9 @@ export default function Learning() {
                                         ) : (
                                           <>
                                             <AlertCircle className="w-3 h-3" />
-                                            Quiz Failed ({lesson.quiz.latestAttempt.score}%) - Retake Available
+                                            {lesson.quiz.latestAttempt.voidedAt
+                                              ? 'Quiz voided - time ran out'
+                                              : `Quiz Failed (${lesson.quiz.latestAttempt.score}%)`} - Retake Available
                                           </>
                                         )}
                                       </span>
@@ -3845,6 +3944,8 @@ export default function Learning() {
                       const hasQuiz = !!currentLesson.quiz?.quiz;
                       const quizPassed = currentLesson.quiz?.latestAttempt?.passed;
                       const hasQuizAttempts = currentLesson.quiz?.latestAttempt;
+                      const hasOpenQuizAttempt = hasQuizAttempts && !hasQuizAttempts.completedAt && !hasQuizAttempts.voidedAt;
+                      const quizClosureNote = describeAttemptClosure(hasQuizAttempts);
                       
                       // Check if all lessons are completed for course completion
                       const allLessonsCompleted = availableLessons.every((lesson: any) => {
@@ -3947,14 +4048,22 @@ export default function Learning() {
                             <div className="text-center">
                               <ClipboardList className="w-8 h-8 mx-auto mb-2 text-primary" />
                               <p className="font-medium">
-                                {hasQuizAttempts ? 'Retake Quiz to Continue' : 'Take Quiz to Continue'}
+                                {hasOpenQuizAttempt ? 'Quiz in Progress' : hasQuizAttempts ? 'Retake Quiz to Continue' : 'Take Quiz to Continue'}
                               </p>
                               <p className="text-sm text-muted-foreground">
-                                {hasQuizAttempts 
+                                {hasOpenQuizAttempt
+                                  ? 'Resume where you left off - your saved answers will be restored'
+                                  : hasQuizAttempts 
                                   ? `Previous score: ${currentLesson.quiz.latestAttempt.score}% (need 70%+)`
                                   : 'Pass with 70% or higher to unlock next lesson'
                                 }
                               </p>
+                              {!hasOpenQuizAttempt && quizClosureNote && (
+                                <p className="text-xs text-muted-foreground" data-testid="text-quiz-closure-note">
+                                  <Clock className="w-3 h-3 inline mr-1" />
+                                  {quizClosureNote}
+                                </p>
+                              )}
                             </div>
                             <Button 
                               className="w-full"
@@ -3981,9 +4090,9 @@ export default function Learning() {
                               data-testid="button-take-quiz"
                             >
                               <ClipboardList className="w-4 h-4 mr-2" />
-                              {hasQuizAttempts ? 'Retake Quiz' : 'Take Quiz'}
+                              {hasOpenQuizAttempt ? 'Resume Quiz' : hasQuizAttempts ? 'Retake Quiz' : 'Take Quiz'}
                             </Button>
-                            {hasQuizAttempts && (
+                            {hasQuizAttempts && !hasOpenQuizAttempt && (
                               <div className="text-xs p-2 bg-orange-50 border border-orange-200 rounded">
                                 <AlertCircle className="w-3 h-3 inline mr-1" />
                                 Quiz failed - scroll down to retake
@@ -4068,7 +4177,7 @@ export default function Learning() {
           <h1 className="text-3xl font-bold" data-testid="heading-learning">Learning Dashboard</h1>
           <p className="text-muted-foreground">Continue your professional development</p>
         </div>
-        {(user?.role === 'supervisor' || user?.role === 'leadership') && (
+        {canAuthorCourses && (
           <div className="flex items-center gap-2">
             <Button 
               variant={isAdminMode ? "outline" : "default"}
@@ -5412,12 +5521,19 @@ export default function Learning() {
                             {/* Phase 2: SCORM Package Fields */}
                             {createLessonForm.watch("contentType") === "scorm_package" && (
                               <div className="space-y-4">
+                                <ScormPackageUpload
+                                  onImported={({ launchUrl, manifestUrl }) => {
+                                    createLessonForm.setValue("scormPackageUrl", launchUrl, { shouldValidate: true });
+                                    createLessonForm.setValue("scormManifestUrl", manifestUrl);
+                                  }}
+                                />
                                 <FormField
                                   control={createLessonForm.control}
                                   name="scormPackageUrl"
                                   render={({ field }) => (
                                     <FormItem>
                                       <FormLabel>SCORM Package URL</FormLabel>
+                                      <FormDescription>Filled in by the upload above, or link to externally hosted content</FormDescription>
                                       <FormControl>
                                         <Input placeholder="https://example.com/scorm-package.zip" {...field} data-testid="input-lesson-scorm" />
                                       </FormControl>
@@ -6410,6 +6526,30 @@ export default function Learning() {
                                 </FormItem>
                               )}
                             />
+                            <FormField
+                              control={editQuizForm.control}
+                              name="expiryAction"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>When Time Runs Out</FormLabel>
+                                  <Select onValueChange={field.onChange} value={field.value}>
+                                    <FormControl>
+                                      <SelectTrigger data-testid="select-edit-expiry-action">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      <SelectItem value="auto_submit">Submit the learner's saved answers</SelectItem>
+                                      <SelectItem value="void">Void the attempt</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                  <FormDescription>
+                                    Applies to attempts still open at the deadline. Answers sent after the deadline are never graded.
+                                  </FormDescription>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
                             <div className="flex justify-end space-x-2">
                               <Button type="button" variant="outline" onClick={() => setIsEditQuizOpen(false)}>
                                 Cancel
@@ -6510,15 +6650,19 @@ export default function Learning() {
                                           <Badge variant="outline">Q{index + 1}</Badge>
                                           <Select 
                                             value={question.type} 
-                                            onValueChange={(value) => updateQuestion(index, { type: value })}
+                                            onValueChange={(value) => updateQuestion(index, {
+                                              type: value,
+                                              // Choice types share options; other types start from a blank answer key
+                                              ...(isChoiceQuestionType(value) && isChoiceQuestionType(question.type) ? {} : getDefaultAnswerFields(value)),
+                                            })}
                                           >
-                                            <SelectTrigger className="w-40" data-testid={`select-question-type-${index}`}>
+                                            <SelectTrigger className="w-48" data-testid={`select-question-type-${index}`}>
                                               <SelectValue />
                                             </SelectTrigger>
                                             <SelectContent>
-                                              <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
-                                              <SelectItem value="true_false">True/False</SelectItem>
-                                              <SelectItem value="multi_select">Multi-Select</SelectItem>
+                                              {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                                              ))}
                                             </SelectContent>
                                           </Select>
                                         </div>
@@ -6545,8 +6689,18 @@ export default function Learning() {
                                         />
                                       </div>
 
+                                      {/* Answer Key for short answer, numeric, ordering, matching and essay questions */}
+                                      {!isChoiceQuestionType(question.type) && (
+                                        <AnswerKeyEditor
+                                          type={question.type}
+                                          options={question.options}
+                                          correctAnswers={question.correctAnswers}
+                                          onChange={(updates) => updateQuestion(index, updates)}
+                                        />
+                                      )}
+
                                       {/* Answer Options */}
-                                      {question.type !== "true_false" && (
+                                      {(question.type === "multiple_choice" || question.type === "multi_select") && (
                                         <div className="space-y-2">
                                           <div className="flex items-center justify-between">
                                             <label className="text-sm font-medium">Answer Options</label>
@@ -6677,6 +6831,8 @@ export default function Learning() {
                                   )}
                                 </Button>
                               </div>
+
+                              <QuizDrawRulesEditor quizId={selectedQuizForQuestions} />
                             </div>
                           )}
                         </div>
@@ -6725,6 +6881,16 @@ export default function Learning() {
                 </Card>
               </div>
 
+              {/* Essay Grading Queue */}
+              <div className="mt-6">
+                <QuizGradingQueue />
+              </div>
+
+              {/* Question Banks */}
+              <div className="mt-6">
+                <QuestionBankManagement />
+              </div>
+
               {/* Assessment Viewing Interface */}
               <Card data-testid="card-assessment-viewing" className="mt-6">
                 <CardHeader>
@@ -6941,6 +7107,7 @@ export default function Learning() {
                                         <Plus className="w-3 h-3 mr-1" />
                                         Questions
                                       </Button>
+                                      <QuizAttemptHistoryDialog quizId={quiz.id} quizTitle={quiz.title} />
                                       <Button
                                         size="sm"
                                         variant="outline"
@@ -8594,6 +8761,11 @@ export default function Learning() {
                                 #{cert.certificateNumber}
                               </span>
                             )}
+                            {cert.revokedAt && (
+                              <Badge variant="destructive" data-testid={`badge-revoked-${cert.id}`} title={cert.revocationReason || undefined}>
+                                Revoked
+                              </Badge>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -8603,46 +8775,7 @@ export default function Learning() {
                           size="sm"
                           data-testid={`button-download-${cert.id}`}
                           onClick={() => {
-                            // Enhanced certificate download with PDF generation
-                            const certificateData = {
-                              id: cert.id,
-                              name: cert.name || cert.title || 'Certificate',
-                              recipient: user?.firstName + ' ' + user?.lastName || 'Employee',
-                              issuedDate: cert.earnedDate || cert.issuedAt || cert.createdAt,
-                              certificateNumber: cert.certificateNumber || `CERT-${cert.id}`,
-                              course: cert.courseName || 'Professional Development Course'
-                            };
-                            
-                            // Create and download certificate PDF (simulation)
-                            const element = document.createElement('a');
-                            const certificateContent = `
-Certificate of Completion
-
-This is to certify that
-
-${certificateData.recipient}
-
-has successfully completed the course
-
-${certificateData.course}
-
-Certificate Number: ${certificateData.certificateNumber}
-Issue Date: ${new Date(certificateData.issuedDate).toLocaleDateString()}
-
-Authorized by Apex Learning Management System
-                            `.trim();
-                            
-                            const file = new Blob([certificateContent], { type: 'text/plain' });
-                            element.href = URL.createObjectURL(file);
-                            element.download = `${certificateData.name.replace(/\s+/g, '_')}_Certificate.txt`;
-                            document.body.appendChild(element);
-                            element.click();
-                            document.body.removeChild(element);
-                            
-                            toast({
-                              title: "Certificate Downloaded",
-                              description: `${certificateData.name} certificate has been downloaded successfully.`,
-                            });
+                            window.open(`/api/lms/certificates/${cert.id}/pdf`, '_blank');
                           }}
                         >
                           <Download className="w-4 h-4 mr-2" />
@@ -8654,7 +8787,7 @@ Authorized by Apex Learning Management System
                           data-testid={`button-verify-${cert.id}`}
                           onClick={() => {
                             // Enhanced certificate verification
-                            const verificationUrl = `${window.location.origin}/verify/${cert.id}`;
+                            const verificationUrl = `${window.location.origin}/verify/${encodeURIComponent(cert.verificationHash)}`;
                             navigator.clipboard.writeText(verificationUrl).then(() => {
                               toast({
                                 title: "Verification Link Copied",
@@ -8662,7 +8795,7 @@ Authorized by Apex Learning Management System
                               });
                             }).catch(() => {
                               // Fallback: show verification info
-                              alert(`Certificate Verification:\nID: ${cert.id}\nNumber: ${cert.certificateNumber || `CERT-${cert.id}`}\nHash: ${cert.verificationHash || 'abc123def456'}\nVerify at: ${verificationUrl}`);
+                              alert(`Certificate Verification:\nID: ${cert.id}\nNumber: ${cert.certificateNumber}\nVerify at: ${verificationUrl}`);
                             });
                           }}
                         >
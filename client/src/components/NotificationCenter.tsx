@@ -23,6 +23,7 @@ import {
   Star
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtimeEvent, getRealtimePollInterval } from "@/hooks/useRealtime";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { formatDistanceToNow } from "date-fns";
 import NotificationPreferences from "./NotificationPreferences";
@@ -31,7 +32,8 @@ type NotificationType =
   | "course_completion" | "learning_path_completion" | "quiz_passed" | "quiz_failed"
   | "certification_issued" | "certificate_expiring" | "training_due" | "training_overdue"
   | "competency_achieved" | "badge_awarded" | "enrollment_reminder" | "meeting_reminder"
-  | "goal_deadline" | "development_plan_update" | "recognition_received" | "system_alert";
+  | "goal_deadline" | "development_plan_update" | "recognition_received" | "system_alert"
+  | "certificate_revoked" | "objective_at_risk";
 
 type NotificationPriority = "low" | "medium" | "high" | "urgent";
 
@@ -72,6 +74,8 @@ const getNotificationIcon = (type: NotificationType) => {
     case "training_overdue":
       return <Clock className="w-4 h-4 text-orange-500" />;
     case "system_alert":
+    case "certificate_revoked":
+    case "objective_at_risk":
       return <AlertTriangle className="w-4 h-4 text-red-500" />;
     default:
       return <Info className="w-4 h-4 text-blue-500" />;
@@ -189,11 +193,19 @@ interface NotificationCenterProps {
   onClose?: () => void;
 }
 
+function invalidateNotifications() {
+  queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/notifications/count/unread'] });
+}
+
 export default function NotificationCenter({ onClose }: NotificationCenterProps) {
   const [activeTab, setActiveTab] = useState<"unread" | "all" | "archived">("unread");
   const [showPreferences, setShowPreferences] = useState(false);
   const { toast } = useToast();
 
+  // New notifications are pushed over the socket; polling only runs while it is down
+  const realtimeStatus = useRealtimeEvent("notification.created", invalidateNotifications);
+
   // Fetch notifications based on active tab
   const { data: notifications = [], isLoading, refetch } = useQuery<Notification[]>({
     queryKey: ['/api/notifications', { 
@@ -208,7 +220,7 @@ export default function NotificationCenter({ onClose }: NotificationCenterProps)
   const { data: unreadCount = 0 } = useQuery<{count: number}, Error, number>({
     queryKey: ['/api/notifications/count/unread'],
     retry: false,
-    refetchInterval: 30000, // Refresh every 30 seconds
+    refetchInterval: getRealtimePollInterval(realtimeStatus, 30000),
     select: (data) => data.count
   });
 
@@ -386,10 +398,11 @@ export default function NotificationCenter({ onClose }: NotificationCenterProps)
 
 // Export notification badge component
 export function NotificationBadge() {
+  const realtimeStatus = useRealtimeEvent("notification.created", invalidateNotifications);
   const { data: unreadCount = 0 } = useQuery<{count: number}, Error, number>({
     queryKey: ['/api/notifications/count/unread'],
     retry: false,
-    refetchInterval: 30000, // Refresh every 30 seconds
+    refetchInterval: getRealtimePollInterval(realtimeStatus, 30000),
     select: (data) => data.count
   });
 
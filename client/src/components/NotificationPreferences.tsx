@@ -1,12 +1,21 @@
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { 
   Bell, 
   Webhook,
+  Mail,
+  MessageSquare,
+  Moon,
+  Eye,
   CheckCircle,
   AlertTriangle,
   Star,
@@ -18,13 +27,15 @@ import {
   Settings
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { DEFAULT_EMAIL_NOTIFICATION_TYPES, DIGEST_NOTIFICATION_TYPES } from "@shared/schema";
 
 type NotificationType = 
   | "course_completion" | "learning_path_completion" | "quiz_passed" | "quiz_failed"
   | "certification_issued" | "certificate_expiring" | "training_due" | "training_overdue"
   | "competency_achieved" | "badge_awarded" | "enrollment_reminder" | "meeting_reminder"
-  | "goal_deadline" | "development_plan_update" | "recognition_received" | "system_alert";
+  | "goal_deadline" | "development_plan_update" | "recognition_received" | "system_alert"
+  | "certificate_revoked" | "objective_at_risk";
 
 interface NotificationPreference {
   id: string;
@@ -32,10 +43,44 @@ interface NotificationPreference {
   notificationType: NotificationType;
   inAppEnabled: boolean;
   webhookEnabled: boolean;
+  emailEnabled: boolean | null;
+  smsEnabled: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+interface ChannelSettings {
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timezone: string;
+  locale: string;
+  digestFrequency: "off" | "daily" | "weekly";
+  digestHour: number;
+  digestDayOfWeek: number;
+  includeReportsInDigest: boolean;
+  lastDigestSentAt: string | null;
+}
+
+interface NotificationPreview {
+  rendered: { title: string; message: string; actionLabel: string | null } | null;
+  event: { label: string } | null;
+  sampleVariables: string[];
+}
+
+interface NotificationChannels {
+  available: { email: boolean; sms: boolean };
+  email: string | null;
+  mobilePhone: string | null;
+  settings: ChannelSettings;
+}
+
+const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Email falls back to the server's default list until the user sets it
+function isEmailEnabled(preference: Pick<NotificationPreference, "notificationType" | "emailEnabled">): boolean {
+  return preference.emailEnabled ?? DEFAULT_EMAIL_NOTIFICATION_TYPES.includes(preference.notificationType);
+}
+
 const notificationTypeLabels: Record<NotificationType, { 
   label: string; 
   description: string; 
@@ -78,6 +123,12 @@ const notificationTypeLabels: Record<NotificationType, {
     icon: Clock,
     category: "Reminders"
   },
+  "certificate_revoked": {
+    label: "Certificate Revoked",
+    description: "When one of your certificates is revoked and retraining is needed",
+    icon: AlertTriangle,
+    category: "Reminders"
+  },
   "training_due": {
     label: "Training Due",
     description: "When training assignments are approaching their due date",
@@ -120,6 +171,12 @@ const notificationTypeLabels: Record<NotificationType, {
     icon: Target,
     category: "Goals"
   },
+  "objective_at_risk": {
+    label: "Objective at Risk",
+    description: "When an objective you own depends on one that has gone off track",
+    icon: AlertTriangle,
+    category: "Goals"
+  },
   "development_plan_update": {
     label: "Development Plan Updates",
     description: "Updates and reminders about your development plans",
@@ -151,27 +208,253 @@ const categoryIcons: Record<string, any> = {
   "System": Settings
 };
 
+function ChannelSettingsCard({ channels }: { channels: NotificationChannels }) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ChannelSettings>(channels.settings);
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(!!channels.settings.quietHoursStart);
+
+  useEffect(() => {
+    setForm(channels.settings);
+    setQuietHoursEnabled(!!channels.settings.quietHoursStart);
+  }, [channels.settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", "/api/notifications/channels", {
+      quietHoursStart: quietHoursEnabled ? form.quietHoursStart || "22:00" : null,
+      quietHoursEnd: quietHoursEnabled ? form.quietHoursEnd || "07:00" : null,
+      timezone: form.timezone,
+      locale: form.locale,
+      digestFrequency: form.digestFrequency,
+      digestHour: form.digestHour,
+      digestDayOfWeek: form.digestDayOfWeek,
+      includeReportsInDigest: form.includeReportsInDigest,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/channels'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/preferences'] });
+      toast({ title: "Settings saved", description: "Your delivery settings have been saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to save delivery settings"), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (channel: "email" | "sms") => apiRequest("POST", `/api/notifications/channels/${channel}/test`, {}),
+    onSuccess: (_response, channel) => {
+      toast({ title: "Test queued", description: `A test ${channel === "email" ? "email" : "text message"} is on its way` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to send test message"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Moon className="w-5 h-5" />
+          Quiet Hours & Digest
+        </CardTitle>
+        <p className="text-muted-foreground text-sm">
+          Emails and texts that arrive during quiet hours wait until they end. Urgent alerts still go straight out.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label htmlFor="channel-locale">Language</Label>
+            <Input
+              id="channel-locale"
+              value={form.locale}
+              onChange={(event) => setForm({ ...form, locale: event.target.value })}
+              placeholder="e.g. en or fr-CA"
+              data-testid="input-channel-locale"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="channel-timezone">Timezone</Label>
+            <Input
+              id="channel-timezone"
+              value={form.timezone}
+              onChange={(event) => setForm({ ...form, timezone: event.target.value })}
+              placeholder="e.g. Europe/London"
+              data-testid="input-channel-timezone"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quiet-hours-start">Quiet from</Label>
+            <Input
+              id="quiet-hours-start"
+              type="time"
+              value={form.quietHoursStart ?? "22:00"}
+              onChange={(event) => setForm({ ...form, quietHoursStart: event.target.value })}
+              disabled={!quietHoursEnabled}
+              data-testid="input-quiet-hours-start"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quiet-hours-end">Until</Label>
+            <Input
+              id="quiet-hours-end"
+              type="time"
+              value={form.quietHoursEnd ?? "07:00"}
+              onChange={(event) => setForm({ ...form, quietHoursEnd: event.target.value })}
+              disabled={!quietHoursEnabled}
+              data-testid="input-quiet-hours-end"
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="quiet-hours-enabled"
+            checked={quietHoursEnabled}
+            onCheckedChange={setQuietHoursEnabled}
+            data-testid="switch-quiet-hours"
+          />
+          <Label htmlFor="quiet-hours-enabled" className="text-sm">Hold emails and texts during quiet hours</Label>
+        </div>
+
+        <Separator />
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Digest email</Label>
+            <Select
+              value={form.digestFrequency}
+              onValueChange={(digestFrequency) => setForm({ ...form, digestFrequency: digestFrequency as ChannelSettings["digestFrequency"] })}
+            >
+              <SelectTrigger data-testid="select-digest-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Off</SelectItem>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {form.digestFrequency === "weekly" && (
+            <div className="space-y-2">
+              <Label>Day</Label>
+              <Select
+                value={String(form.digestDayOfWeek)}
+                onValueChange={(day) => setForm({ ...form, digestDayOfWeek: parseInt(day, 10) })}
+              >
+                <SelectTrigger data-testid="select-digest-day">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <SelectItem key={day} value={String(day)}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {form.digestFrequency !== "off" && (
+            <div className="space-y-2">
+              <Label>Time</Label>
+              <Select
+                value={String(form.digestHour)}
+                onValueChange={(hour) => setForm({ ...form, digestHour: parseInt(hour, 10) })}
+              >
+                <SelectTrigger data-testid="select-digest-hour">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <SelectItem key={hour} value={String(hour)}>{`${String(hour).padStart(2, "0")}:00`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        {form.digestFrequency !== "off" && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Training due, overdue training and goal deadlines are collected into the digest instead of being emailed one by one.
+            </p>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="digest-include-reports"
+                checked={form.includeReportsInDigest}
+                onCheckedChange={(includeReportsInDigest) => setForm({ ...form, includeReportsInDigest })}
+                data-testid="switch-digest-include-reports"
+              />
+              <Label htmlFor="digest-include-reports" className="text-sm">Include my direct reports</Label>
+            </div>
+          </>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => testMutation.mutate("email")}
+              disabled={!channels.available.email || !channels.email || testMutation.isPending}
+              data-testid="button-test-email"
+            >
+              <Mail className="w-4 h-4 mr-2" />
+              Send test email
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => testMutation.mutate("sms")}
+              disabled={!channels.available.sms || !channels.mobilePhone || testMutation.isPending}
+              data-testid="button-test-sms"
+            >
+              <MessageSquare className="w-4 h-4 mr-2" />
+              Send test text
+            </Button>
+          </div>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-channel-settings">
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function NotificationPreferences() {
   const { toast } = useToast();
+  const [previewType, setPreviewType] = useState<NotificationType | null>(null);
 
   const { data: preferences = [], isLoading } = useQuery({
     queryKey: ['/api/notifications/preferences'],
     retry: false,
   });
 
+  const { data: channels } = useQuery<NotificationChannels>({
+    queryKey: ['/api/notifications/channels'],
+    retry: false,
+  });
+
+  const emailAvailable = !!channels?.available.email && !!channels.email;
+  const smsAvailable = !!channels?.available.sms && !!channels.mobilePhone;
+  const digestTypes: readonly string[] = channels && channels.settings.digestFrequency !== "off" ? DIGEST_NOTIFICATION_TYPES : [];
+
   const updatePreferenceMutation = useMutation({
     mutationFn: ({ 
       notificationType, 
       inAppEnabled, 
-      webhookEnabled 
+      webhookEnabled,
+      emailEnabled,
+      smsEnabled
     }: { 
       notificationType: NotificationType; 
       inAppEnabled?: boolean; 
       webhookEnabled?: boolean; 
+      emailEnabled?: boolean;
+      smsEnabled?: boolean;
     }) => 
       apiRequest(`/api/notifications/preferences/${notificationType}`, { 
         method: 'PATCH',
-        body: JSON.stringify({ inAppEnabled, webhookEnabled })
+        body: JSON.stringify({ inAppEnabled, webhookEnabled, emailEnabled, smsEnabled })
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/notifications/preferences'] });
@@ -189,14 +472,33 @@ export default function NotificationPreferences() {
     },
   });
 
+  // Renders the admin's template for the type against the user's own latest matching record
+  const previewMutation = useMutation({
+    mutationFn: async (notificationType: NotificationType) => {
+      const response = await apiRequest("POST", "/api/notifications/templates/preview", { type: notificationType });
+      return await response.json() as NotificationPreview;
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to load preview"), variant: "destructive" });
+    },
+  });
+
+  const openPreview = (notificationType: NotificationType) => {
+    setPreviewType(notificationType);
+    previewMutation.mutate(notificationType);
+  };
+
   const handleToggle = (
     notificationType: NotificationType, 
-    type: 'inApp' | 'webhook', 
+    type: 'inApp' | 'webhook' | 'email' | 'sms', 
     enabled: boolean
   ) => {
-    const updates = type === 'inApp' 
-      ? { inAppEnabled: enabled }
-      : { webhookEnabled: enabled };
+    const updates = {
+      inApp: { inAppEnabled: enabled },
+      webhook: { webhookEnabled: enabled },
+      email: { emailEnabled: enabled },
+      sms: { smsEnabled: enabled },
+    }[type];
     
     updatePreferenceMutation.mutate({
       notificationType,
@@ -218,7 +520,9 @@ export default function NotificationPreferences() {
       preference: preference || {
         notificationType: type,
         inAppEnabled: true,
-        webhookEnabled: false
+        webhookEnabled: false,
+        emailEnabled: null,
+        smsEnabled: false
       }
     });
     
@@ -302,6 +606,16 @@ export default function NotificationPreferences() {
                           </div>
                           
                           <div className="flex items-center gap-6">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openPreview(type)}
+                              title="Preview"
+                              data-testid={`button-preview-${type}`}
+                            >
+                              <Eye className="w-4 h-4" />
+                            </Button>
+
                             <div className="flex items-center gap-2">
                               <Bell className="w-4 h-4 text-muted-foreground" />
                               <Label htmlFor={`${type}-in-app`} className="text-sm">
@@ -316,6 +630,34 @@ export default function NotificationPreferences() {
                               />
                             </div>
                             
+                            <div className="flex items-center gap-2">
+                              <Mail className="w-4 h-4 text-muted-foreground" />
+                              <Label htmlFor={`${type}-email`} className="text-sm">
+                                {digestTypes.includes(type) ? "Digest" : "Email"}
+                              </Label>
+                              <Switch
+                                id={`${type}-email`}
+                                checked={emailAvailable && isEmailEnabled(preference)}
+                                onCheckedChange={(checked) => handleToggle(type, 'email', checked)}
+                                disabled={!emailAvailable || updatePreferenceMutation.isPending}
+                                data-testid={`switch-${type}-email`}
+                              />
+                            </div>
+
+                            <div className="flex items-center gap-2">
+                              <MessageSquare className="w-4 h-4 text-muted-foreground" />
+                              <Label htmlFor={`${type}-sms`} className="text-sm">
+                                SMS
+                              </Label>
+                              <Switch
+                                id={`${type}-sms`}
+                                checked={smsAvailable && preference.smsEnabled}
+                                onCheckedChange={(checked) => handleToggle(type, 'sms', checked)}
+                                disabled={!smsAvailable || updatePreferenceMutation.isPending}
+                                data-testid={`switch-${type}-sms`}
+                              />
+                            </div>
+
                             <div className="flex items-center gap-2">
                               <Webhook className="w-4 h-4 text-muted-foreground" />
                               <Label htmlFor={`${type}-webhook`} className="text-sm">
@@ -342,6 +684,34 @@ export default function NotificationPreferences() {
           </div>
         </CardContent>
       </Card>
+
+      {channels && <ChannelSettingsCard channels={channels} />}
+
+      <Dialog open={!!previewType} onOpenChange={(open) => !open && setPreviewType(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{previewType ? notificationTypeLabels[previewType].label : "Preview"}</DialogTitle>
+            <DialogDescription>
+              {previewMutation.data?.event
+                ? `How this notification would read for ${previewMutation.data.event.label}`
+                : "How this notification would read for you"}
+            </DialogDescription>
+          </DialogHeader>
+          {previewMutation.isPending ? (
+            <div className="h-24 bg-muted rounded animate-pulse" />
+          ) : previewMutation.data?.rendered ? (
+            <div className="space-y-2" data-testid="notification-preview">
+              <p className="font-medium">{previewMutation.data.rendered.title}</p>
+              <p className="text-sm text-muted-foreground whitespace-pre-line">{previewMutation.data.rendered.message}</p>
+              {previewMutation.data.sampleVariables.length > 0 && (
+                <p className="text-xs text-muted-foreground">Some details are placeholders because you have nothing of this kind yet.</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">This notification uses the standard wording.</p>
+          )}
+        </DialogContent>
+      </Dialog>
       
       <Card>
         <CardHeader>
@@ -354,10 +724,25 @@ export default function NotificationPreferences() {
               <strong>In-App:</strong> Notifications appear in your notification center and show badges on the bell icon.
             </p>
           </div>
+          <div className="flex items-start gap-2">
+            <Mail className="w-4 h-4 mt-0.5" />
+            <p>
+              <strong>Email:</strong> Sent to {channels?.email || "the address on your profile"}.
+              {channels && !channels.available.email && " Email isn't set up on this server yet."}
+            </p>
+          </div>
+          <div className="flex items-start gap-2">
+            <MessageSquare className="w-4 h-4 mt-0.5" />
+            <p>
+              <strong>SMS:</strong> Text messages to {channels?.mobilePhone || "the mobile number on your profile"}.
+              {channels && !channels.available.sms && " SMS isn't set up on this server yet."}
+              {channels?.available.sms && !channels.mobilePhone && " Add a mobile number to your profile to turn it on."}
+            </p>
+          </div>
           <div className="flex items-start gap-2">
             <Webhook className="w-4 h-4 mt-0.5" />
             <p>
-              <strong>Webhook:</strong> External notifications sent to configured workflows (SMS, email, etc.) via n8n automation.
+              <strong>Webhook:</strong> External notifications sent to configured workflows via n8n automation.
             </p>
           </div>
         </CardContent>
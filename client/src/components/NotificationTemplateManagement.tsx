@@ -0,0 +1,509 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { MessageSquareText, Plus, Edit, Trash2, Eye, Languages } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorBody, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { notificationTypeEnum, type NotificationTemplate, type NotificationTemplateLocale, type User } from "@shared/schema";
+
+const NOTIFICATION_TYPES = notificationTypeEnum.enumValues;
+const PRIORITIES = ["low", "medium", "high", "urgent"] as const;
+const DEFAULT_VARIANT = "default";
+
+interface TemplatePreview {
+  templateId: string | null;
+  type: string;
+  rendered: { locale: string; title: string; message: string; actionLabel: string | null } | null;
+  event: PreviewEvent | null;
+  events: PreviewEvent[];
+  sampleVariables: string[];
+}
+
+interface PreviewEvent {
+  entityType: string;
+  entityId: string;
+  label: string;
+  occurredAt: string | null;
+}
+
+const emptyForm = {
+  type: "training_overdue" as string,
+  name: "",
+  titleTemplate: "",
+  messageTemplate: "",
+  actionLabel: "",
+  priority: "medium" as string,
+  isActive: true,
+};
+
+function typeLabel(type: string): string {
+  return type.replace(/_/g, " ").replace(/^\w/, (char) => char.toUpperCase());
+}
+
+function TemplateEditor({
+  template,
+  open,
+  onOpenChange,
+}: {
+  template: NotificationTemplate | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+  const [variant, setVariant] = useState(DEFAULT_VARIANT);
+  const [newLocale, setNewLocale] = useState("");
+  const [issues, setIssues] = useState<string[]>([]);
+  const [previewUserId, setPreviewUserId] = useState("");
+  const [previewEntityId, setPreviewEntityId] = useState("");
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+
+  const { data: locales = [] } = useQuery<NotificationTemplateLocale[]>({
+    queryKey: ['/api/notifications/templates', template?.id, 'locales'],
+    enabled: open && !!template,
+  });
+  const { data: variables = {} } = useQuery<Record<string, string>>({
+    queryKey: [`/api/notifications/templates/variables?type=${form.type}`],
+    enabled: open,
+  });
+  const { data: users = [] } = useQuery<User[]>({ queryKey: ['/api/users'], enabled: open });
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(template ? {
+      type: template.type,
+      name: template.name,
+      titleTemplate: template.titleTemplate,
+      messageTemplate: template.messageTemplate,
+      actionLabel: template.actionLabel ?? "",
+      priority: template.priority ?? "medium",
+      isActive: template.isActive ?? true,
+    } : emptyForm);
+    setVariant(DEFAULT_VARIANT);
+    setIssues([]);
+    setPreview(null);
+    setPreviewEntityId("");
+  }, [open, template]);
+
+  // Switching to a locale loads its text into the editor; a new locale starts from the default text
+  const selectVariant = (locale: string) => {
+    setVariant(locale);
+    setIssues([]);
+    if (locale === DEFAULT_VARIANT && template) {
+      setForm(current => ({ ...current, titleTemplate: template.titleTemplate, messageTemplate: template.messageTemplate, actionLabel: template.actionLabel ?? "" }));
+      return;
+    }
+    const existing = locales.find(entry => entry.locale === locale);
+    if (existing) {
+      setForm(current => ({ ...current, titleTemplate: existing.titleTemplate, messageTemplate: existing.messageTemplate, actionLabel: existing.actionLabel ?? "" }));
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const text = { titleTemplate: form.titleTemplate, messageTemplate: form.messageTemplate, actionLabel: form.actionLabel || null };
+      if (variant !== DEFAULT_VARIANT && template) {
+        return apiRequest("PUT", `/api/notifications/templates/${template.id}/locales/${variant}`, text);
+      }
+      const body = { ...text, name: form.name, priority: form.priority, isActive: form.isActive };
+      return template
+        ? apiRequest("PATCH", `/api/notifications/templates/${template.id}`, body)
+        : apiRequest("POST", "/api/notifications/templates", { ...body, type: form.type });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/templates'] });
+      setIssues([]);
+      toast({ title: "Success", description: variant === DEFAULT_VARIANT ? "Template saved" : `${variant} variant saved` });
+      if (!template) onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      // Template validation errors list every problem in issues
+      setIssues(getApiErrorBody(error)?.issues ?? []);
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to save template"), variant: "destructive" });
+    },
+  });
+
+  const deleteVariantMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/notifications/templates/${template!.id}/locales/${variant}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/templates'] });
+      toast({ title: "Success", description: `${variant} variant deleted` });
+      selectVariant(DEFAULT_VARIANT);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to delete variant"), variant: "destructive" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/notifications/templates/preview", {
+        templateId: template?.id,
+        type: form.type,
+        userId: previewUserId || undefined,
+        entityId: previewEntityId || undefined,
+        locale: variant === DEFAULT_VARIANT ? undefined : variant,
+        draft: { titleTemplate: form.titleTemplate, messageTemplate: form.messageTemplate, actionLabel: form.actionLabel || null },
+      });
+      return await response.json() as TemplatePreview;
+    },
+    onSuccess: (result) => {
+      setIssues([]);
+      setPreview(result);
+    },
+    onError: (error: Error) => {
+      const issues: string[] = getApiErrorBody(error)?.issues ?? [];
+      setIssues(issues);
+      setPreview(null);
+      if (issues.length === 0) {
+        toast({ title: "Error", description: getApiErrorMessage(error, "Failed to render preview"), variant: "destructive" });
+      }
+    },
+  });
+
+  const addLocale = () => {
+    const locale = newLocale.trim();
+    if (!locale) return;
+    setVariant(locale);
+    setNewLocale("");
+  };
+
+  const variantOptions = Array.from(new Set([...locales.map(entry => entry.locale), ...(variant !== DEFAULT_VARIANT ? [variant] : [])]));
+  const canSave = form.titleTemplate.trim() && form.messageTemplate.trim() && (variant !== DEFAULT_VARIANT || form.name.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? `Edit ${template.name}` : "New Notification Template"}</DialogTitle>
+          <DialogDescription>
+            Use {"{{variables}}"}, {"{{#if}}"}/{"{{#each}}"} blocks and filters such as {"{{dueDate | date:\"long\"}}"}. Unknown variables are rejected when you save.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Notification type</Label>
+                <Select value={form.type} onValueChange={(type) => setForm({ ...form, type })} disabled={!!template}>
+                  <SelectTrigger data-testid="select-template-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NOTIFICATION_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{typeLabel(type)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={form.name}
+                  onChange={(event) => setForm({ ...form, name: event.target.value })}
+                  disabled={variant !== DEFAULT_VARIANT}
+                  data-testid="input-template-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={form.priority} onValueChange={(priority) => setForm({ ...form, priority })} disabled={variant !== DEFAULT_VARIANT}>
+                  <SelectTrigger data-testid="select-template-priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRIORITIES.map(priority => (
+                      <SelectItem key={priority} value={priority}>{typeLabel(priority)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <Switch
+                  id="template-active"
+                  checked={form.isActive}
+                  onCheckedChange={(isActive) => setForm({ ...form, isActive })}
+                  disabled={variant !== DEFAULT_VARIANT}
+                  data-testid="switch-template-active"
+                />
+                <Label htmlFor="template-active">Active</Label>
+              </div>
+            </div>
+
+            {template && (
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-1"><Languages className="h-4 w-4" /> Language</Label>
+                  <Select value={variant} onValueChange={selectVariant}>
+                    <SelectTrigger className="w-40" data-testid="select-template-locale">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_VARIANT}>Default</SelectItem>
+                      {variantOptions.map(locale => (
+                        <SelectItem key={locale} value={locale}>{locale}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Input
+                  className="w-32"
+                  value={newLocale}
+                  onChange={(event) => setNewLocale(event.target.value)}
+                  placeholder="e.g. fr-CA"
+                  data-testid="input-new-locale"
+                />
+                <Button variant="outline" onClick={addLocale} disabled={!newLocale.trim()} data-testid="button-add-locale">
+                  Add language
+                </Button>
+                {variant !== DEFAULT_VARIANT && locales.some(entry => entry.locale === variant) && (
+                  <Button variant="ghost" size="icon" onClick={() => deleteVariantMutation.mutate()} data-testid="button-delete-locale">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="template-title">Title</Label>
+              <Input
+                id="template-title"
+                value={form.titleTemplate}
+                onChange={(event) => setForm({ ...form, titleTemplate: event.target.value })}
+                data-testid="input-template-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-message">Message</Label>
+              <Textarea
+                id="template-message"
+                rows={10}
+                className="font-mono text-sm"
+                value={form.messageTemplate}
+                onChange={(event) => setForm({ ...form, messageTemplate: event.target.value })}
+                data-testid="textarea-template-message"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-action-label">Action label</Label>
+              <Input
+                id="template-action-label"
+                value={form.actionLabel}
+                onChange={(event) => setForm({ ...form, actionLabel: event.target.value })}
+                data-testid="input-template-action-label"
+              />
+            </div>
+
+            {issues.length > 0 && (
+              <div className="rounded-md border border-destructive p-3 text-sm text-destructive space-y-1" data-testid="template-issues">
+                {issues.map(issue => <p key={issue}>{issue}</p>)}
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label>Available variables</Label>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(variables).map(([name, type]) => (
+                  <Badge key={name} variant="outline" className="font-mono text-xs" title={type}>{name}</Badge>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Preview as</Label>
+                <Select value={previewUserId || "me"} onValueChange={(userId) => { setPreviewUserId(userId === "me" ? "" : userId); setPreviewEntityId(""); }}>
+                  <SelectTrigger data-testid="select-preview-user">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="me">Me</SelectItem>
+                    {users.map(user => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {[user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Event</Label>
+                <Select value={previewEntityId || preview?.event?.entityId || "latest"} onValueChange={(entityId) => setPreviewEntityId(entityId === "latest" ? "" : entityId)}>
+                  <SelectTrigger data-testid="select-preview-event">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="latest">Most recent</SelectItem>
+                    {(preview?.events ?? []).map(event => (
+                      <SelectItem key={event.entityId} value={event.entityId}>{event.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={!form.titleTemplate.trim() || !form.messageTemplate.trim() || previewMutation.isPending}
+              data-testid="button-preview-template"
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              {previewMutation.isPending ? "Rendering..." : "Preview"}
+            </Button>
+
+            {preview?.rendered && (
+              <Card data-testid="template-preview">
+                <CardHeader>
+                  <CardTitle className="text-base">{preview.rendered.title}</CardTitle>
+                  <CardDescription>
+                    {preview.event ? `About: ${preview.event.label}` : "No matching record for this user; placeholders are shown"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm whitespace-pre-line">{preview.rendered.message}</p>
+                  {preview.rendered.actionLabel && <Button size="sm" variant="secondary" disabled>{preview.rendered.actionLabel}</Button>}
+                  {preview.sampleVariables.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Placeholder values for: {preview.sampleVariables.join(", ")}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending} data-testid="button-save-template">
+            {saveMutation.isPending ? "Saving..." : variant === DEFAULT_VARIANT ? "Save" : `Save ${variant}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function NotificationTemplateManagement() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<NotificationTemplate | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  const { data: templates = [], isLoading } = useQuery<NotificationTemplate[]>({ queryKey: ['/api/notifications/templates'] });
+
+  const setActiveMutation = useMutation({
+    mutationFn: ({ templateId, isActive }: { templateId: string; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/notifications/templates/${templateId}`, { isActive }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/templates'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to update template"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (templateId: string) => apiRequest("DELETE", `/api/notifications/templates/${templateId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/templates'] });
+      toast({ title: "Success", description: "Template deleted. Notifications of this type go back to the built-in wording." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to delete template"), variant: "destructive" });
+    },
+  });
+
+  const openEditor = (template: NotificationTemplate | null) => {
+    setEditing(template);
+    setIsEditorOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center space-y-4">
+          <div className="w-8 h-8 bg-primary rounded-lg animate-pulse mx-auto"></div>
+          <p className="text-muted-foreground">Loading notification templates...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Notification Templates</h1>
+          <p className="text-muted-foreground">
+            The active template for a type replaces the built-in wording, in-app and in email and SMS.
+          </p>
+        </div>
+        <Button onClick={() => openEditor(null)} data-testid="button-create-template">
+          <Plus className="h-4 w-4 mr-2" />
+          New Template
+        </Button>
+      </div>
+
+      {templates.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center text-muted-foreground">
+            <MessageSquareText className="h-10 w-10 mx-auto mb-4" />
+            No notification templates yet. Every notification uses its built-in wording.
+          </CardContent>
+        </Card>
+      ) : (
+        templates.map(template => (
+          <Card key={template.id} data-testid={`card-template-${template.id}`}>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  {template.name}
+                  <Badge variant="outline">{typeLabel(template.type)}</Badge>
+                  {!template.isActive && <Badge variant="secondary">Inactive</Badge>}
+                </CardTitle>
+                <CardDescription>{template.titleTemplate}</CardDescription>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={!!template.isActive}
+                    onCheckedChange={(isActive) => setActiveMutation.mutate({ templateId: template.id, isActive })}
+                    data-testid={`switch-template-active-${template.id}`}
+                  />
+                  <span className="text-sm text-muted-foreground">Active</span>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => openEditor(template)} data-testid={`button-edit-template-${template.id}`}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(template.id)} data-testid={`button-delete-template-${template.id}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            {template.variables && template.variables.length > 0 && (
+              <CardContent className="flex flex-wrap gap-1">
+                {template.variables.map(name => (
+                  <Badge key={name} variant="secondary" className="font-mono text-xs">{name}</Badge>
+                ))}
+              </CardContent>
+            )}
+          </Card>
+        ))
+      )}
+
+      <TemplateEditor template={editing} open={isEditorOpen} onOpenChange={setIsEditorOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle2, GitBranch, Route } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient } from "@/lib/queryClient";
+import { useRealtimeEvent, getRealtimePollInterval } from "@/hooks/useRealtime";
+import type { ObjectiveDependencyGraph as DependencyGraph, ObjectiveDependencyNode, ObjectiveHealth } from "@shared/schema";
+
+interface OkrCycleOption {
+  id: string;
+  name: string;
+  endDate: string;
+  status: "open" | "in_progress" | "closed";
+}
+
+const NODE_WIDTH = 190;
+const NODE_HEIGHT = 56;
+const COLUMN_GAP = 70;
+const ROW_GAP = 18;
+const PADDING = 12;
+
+const healthLabels: Record<ObjectiveHealth, string> = {
+  green: "On track",
+  amber: "Behind",
+  red: "Off track",
+};
+
+const healthNodeColors: Record<ObjectiveHealth, string> = {
+  green: "fill-green-50 stroke-green-500 dark:fill-green-950",
+  amber: "fill-yellow-50 stroke-yellow-500 dark:fill-yellow-950",
+  red: "fill-red-50 stroke-red-500 dark:fill-red-950",
+};
+
+const healthBadgeColors: Record<ObjectiveHealth, string> = {
+  green: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  amber: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  red: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+};
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// Objectives laid out left to right by how many dependencies sit beneath them, so upstream work reads first
+function layoutGraph(nodes: ObjectiveDependencyNode[]) {
+  const columns = new Map<number, ObjectiveDependencyNode[]>();
+  for (const node of nodes) {
+    columns.set(node.depth, [...(columns.get(node.depth) ?? []), node]);
+  }
+  const positions = new Map<string, { x: number; y: number }>();
+  let rows = 0;
+  Array.from(columns.entries()).forEach(([depth, column]) => {
+    rows = Math.max(rows, column.length);
+    column.forEach((node, row) => {
+      positions.set(node.id, { x: PADDING + depth * (NODE_WIDTH + COLUMN_GAP), y: PADDING + row * (NODE_HEIGHT + ROW_GAP) });
+    });
+  });
+  const depths = Array.from(columns.keys());
+  return {
+    positions,
+    width: PADDING * 2 + (depths.length > 0 ? Math.max(...depths) + 1 : 0) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP,
+    height: PADDING * 2 + rows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP,
+  };
+}
+
+// Company objectives and what they depend on, with the red ones, what they put at risk and the critical path
+export function ObjectiveDependencyGraph() {
+  const [cycleFilter, setCycleFilter] = useState<string | null>(null);
+
+  const { data: cycles } = useQuery<OkrCycleOption[]>({
+    queryKey: ["/api/okr-cycles"],
+  });
+  const currentCycle = cycles?.find(cycle => cycle.status === "in_progress");
+
+  // Start on the cycle under way, since that's the quarter at stake
+  useEffect(() => {
+    if (cycleFilter === null && cycles) setCycleFilter(currentCycle?.id ?? "all");
+  }, [cycles, currentCycle, cycleFilter]);
+
+  const graphUrl = `/api/okr-dependencies${cycleFilter && cycleFilter !== "all" ? `?cycleId=${cycleFilter}` : ""}`;
+  const refreshGraph = () => queryClient.invalidateQueries({ queryKey: [graphUrl] });
+  const realtimeStatus = useRealtimeEvent("key_result.progress_updated", refreshGraph, "dashboard");
+
+  const { data: graph, isLoading } = useQuery<DependencyGraph>({
+    queryKey: [graphUrl],
+    enabled: cycleFilter !== null,
+    refetchInterval: getRealtimePollInterval(realtimeStatus, 60000),
+  });
+
+  const nodeById = useMemo(() => new Map((graph?.nodes ?? []).map(node => [node.id, node])), [graph]);
+  const layout = useMemo(() => layoutGraph(graph?.nodes ?? []), [graph]);
+  const criticalEdges = useMemo(() => {
+    const path = graph?.criticalPath ?? [];
+    return new Set(path.slice(1).map((id, index) => `${path[index]}:${id}`));
+  }, [graph]);
+
+  const selectedCycle = cycles?.find(cycle => cycle.id === cycleFilter);
+  const blocked = (graph?.nodes ?? [])
+    .filter(node => node.blockedBy.length > 0)
+    .sort((a, b) => new Date(a.endDate).getTime() - new Date(b.endDate).getTime());
+  const titleOf = (id: string) => nodeById.get(id)?.title ?? "Unknown objective";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Red objectives put everything that depends on them at risk, however far down the chain.
+        </p>
+        <Select value={cycleFilter ?? "all"} onValueChange={setCycleFilter}>
+          <SelectTrigger className="w-56" data-testid="select-dependency-cycle">
+            <SelectValue placeholder="All objectives" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All objectives</SelectItem>
+            {cycles?.map(cycle => (
+              <SelectItem key={cycle.id} value={cycle.id}>
+                {cycle.name}{cycle.id === currentCycle?.id ? " (current)" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-red-500" />
+            Blocked Objectives
+          </CardTitle>
+          <CardDescription>
+            {selectedCycle
+              ? `Objectives in ${selectedCycle.name} waiting on work that is off track`
+              : "Objectives waiting on work that is off track"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !graph ? (
+            <div className="h-16 bg-muted animate-pulse rounded" />
+          ) : blocked.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              <CheckCircle2 className="h-10 w-10 mx-auto mb-2 text-green-500" />
+              <p>No objectives are blocked by their dependencies</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {blocked.map(node => (
+                <div
+                  key={node.id}
+                  className="flex items-start justify-between gap-4 p-3 border border-red-200 dark:border-red-900 rounded-lg bg-red-50 dark:bg-red-950"
+                  data-testid={`blocked-objective-${node.id}`}
+                >
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium truncate">{node.title}</h4>
+                      <Badge className={`text-xs ${healthBadgeColors[node.health]}`}>{healthLabels[node.health]}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Blocked by {node.blockedBy.map(titleOf).join(", ")}
+                    </p>
+                  </div>
+                  <span className="text-sm text-muted-foreground shrink-0">
+                    Due {format(new Date(node.endDate), "MMM d, yyyy")}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Route className="h-5 w-5" />
+            Critical Path
+          </CardTitle>
+          <CardDescription>The chain of dependent objectives with the most work left to do</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {graph && graph.criticalPath.length > 0 ? (
+            <div className="flex flex-wrap items-center gap-2" data-testid="critical-path">
+              {graph.criticalPath.map((id, index) => {
+                const node = nodeById.get(id);
+                return (
+                  <div key={id} className="flex items-center gap-2">
+                    {index > 0 && <span className="text-muted-foreground">→</span>}
+                    <Badge className={`text-xs ${node ? healthBadgeColors[node.health] : ""}`}>
+                      {titleOf(id)}
+                      {node?.progress != null && ` · ${Math.round(node.progress * 100)}%`}
+                    </Badge>
+                  </div>
+                );
+              })}
+              <span className="text-sm text-muted-foreground">
+                ({graph.criticalPathRemaining.toFixed(2)} objectives' worth of work left)
+              </span>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No objectives depend on each other yet</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitBranch className="h-5 w-5" />
+            Dependency Graph
+          </CardTitle>
+          <CardDescription>
+            Arrows run from an objective to the ones that depend on it. Dashed outlines are at risk from upstream.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!graph || graph.nodes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No company objectives to show</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <svg width={layout.width} height={layout.height} className="text-muted-foreground" data-testid="dependency-graph">
+                <defs>
+                  <marker id="dependency-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+                  </marker>
+                </defs>
+                {graph.edges.map(edge => {
+                  const from = layout.positions.get(edge.from);
+                  const to = layout.positions.get(edge.to);
+                  if (!from || !to) return null;
+                  const critical = criticalEdges.has(`${edge.from}:${edge.to}`);
+                  const x1 = from.x + NODE_WIDTH;
+                  const y1 = from.y + NODE_HEIGHT / 2;
+                  const x2 = to.x;
+                  const y2 = to.y + NODE_HEIGHT / 2;
+                  const bend = Math.max(COLUMN_GAP / 2, (x2 - x1) / 2);
+                  return (
+                    <path
+                      key={`${edge.from}:${edge.to}`}
+                      d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth={critical ? 2.5 : 1.25}
+                      className={critical ? "text-primary" : undefined}
+                      markerEnd="url(#dependency-arrow)"
+                    />
+                  );
+                })}
+                {graph.nodes.map(node => {
+                  const position = layout.positions.get(node.id)!;
+                  return (
+                    <g key={node.id} transform={`translate(${position.x}, ${position.y})`} data-testid={`dependency-node-${node.id}`}>
+                      <title>{`${node.title}\n${healthLabels[node.health]}: ${node.healthReason}${node.blockedBy.length > 0 ? `\nBlocked by ${node.blockedBy.map(titleOf).join(", ")}` : ""}`}</title>
+                      <rect
+                        width={NODE_WIDTH}
+                        height={NODE_HEIGHT}
+                        rx={6}
+                        strokeWidth={1.5}
+                        strokeDasharray={node.blockedBy.length > 0 ? "5 3" : undefined}
+                        className={healthNodeColors[node.health]}
+                      />
+                      <text x={10} y={22} className="fill-foreground text-xs font-medium">{truncate(node.title, 26)}</text>
+                      <text x={10} y={40} className="fill-muted-foreground text-[11px]">
+                        {node.progress != null ? `${Math.round(node.progress * 100)}%` : "Not scored"} · due {format(new Date(node.endDate), "MMM d")}
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-3 mt-4 text-xs text-muted-foreground">
+            {(Object.keys(healthLabels) as ObjectiveHealth[]).map(health => (
+              <Badge key={health} className={`text-xs ${healthBadgeColors[health]}`}>{healthLabels[health]}</Badge>
+            ))}
+            <span>Bold arrows mark the critical path</span>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
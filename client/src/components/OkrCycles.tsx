@@ -0,0 +1,512 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarRange, Plus, Edit, Play, Lock, ListChecks } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import type { OkrCycle, OkrObjectiveKind } from "@shared/schema";
+
+interface OkrCycleSummary extends OkrCycle {
+  companyObjectiveCount: number;
+  teamObjectiveCount: number;
+  goalCount: number;
+}
+
+interface OkrScorecardEntry {
+  objectiveType: OkrObjectiveKind;
+  objectiveId: string;
+  title: string;
+  score: number | null;
+  finalScore: number | null;
+  retrospective: string | null;
+  keyResults: Array<{ id: string; title: string; score: number }>;
+}
+
+interface OkrCycleScorecard {
+  cycle: OkrCycle;
+  averageScore: number | null;
+  objectives: OkrScorecardEntry[];
+}
+
+interface OkrCycleCloseResult {
+  snapshotCount: number;
+  averageScore: number | null;
+  rolledForward: Array<{ objectiveType: OkrObjectiveKind; fromId: string; toId: string }>;
+}
+
+interface GradeDraft {
+  finalScore: string; // Blank keeps the score worked out from the key results
+  retrospective: string;
+}
+
+const STATUS_LABELS: Record<OkrCycle["status"], string> = { open: "Open", in_progress: "In progress", closed: "Closed" };
+const KIND_LABELS: Record<OkrObjectiveKind, string> = { company: "Company", team: "Team", goal: "Goal" };
+const NO_ROLL_FORWARD = "none";
+
+const emptyForm = { name: "", startDate: "", endDate: "" };
+
+function formatScore(score: number | null): string {
+  return score === null ? "-" : score.toFixed(2);
+}
+
+function scoreColor(score: number | null): string {
+  if (score === null) return "text-muted-foreground";
+  if (score >= 0.7) return "text-green-600 dark:text-green-400";
+  if (score >= 0.4) return "text-yellow-600 dark:text-yellow-400";
+  return "text-red-600 dark:text-red-400";
+}
+
+function CycleEditor({
+  cycle,
+  open,
+  onOpenChange,
+}: {
+  cycle: OkrCycle | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(cycle ? {
+      name: cycle.name,
+      startDate: format(new Date(cycle.startDate), "yyyy-MM-dd"),
+      endDate: format(new Date(cycle.endDate), "yyyy-MM-dd"),
+    } : emptyForm);
+  }, [open, cycle]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const body = { name: form.name, startDate: form.startDate, endDate: form.endDate };
+      return cycle
+        ? apiRequest("PATCH", `/api/okr-cycles/${cycle.id}`, body)
+        : apiRequest("POST", "/api/okr-cycles", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/okr-cycles'] });
+      toast({ title: "Success", description: cycle ? "OKR cycle updated" : "OKR cycle created" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to save OKR cycle"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{cycle ? "Edit OKR Cycle" : "New OKR Cycle"}</DialogTitle>
+          <DialogDescription>Objectives and goals planned in this cycle are scored and graded together when it closes.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cycle-name">Name</Label>
+            <Input
+              id="cycle-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="2026 Q4"
+              data-testid="input-cycle-name"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="cycle-start">Start date</Label>
+              <Input
+                id="cycle-start"
+                type="date"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                data-testid="input-cycle-start"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cycle-end">End date</Label>
+              <Input
+                id="cycle-end"
+                type="date"
+                value={form.endDate}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                data-testid="input-cycle-end"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !form.name.trim() || !form.startDate || !form.endDate}
+            data-testid="button-save-cycle"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CloseOutDialog({
+  cycle,
+  cycles,
+  onOpenChange,
+}: {
+  cycle: OkrCycleSummary | null;
+  cycles: OkrCycleSummary[];
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [grades, setGrades] = useState<Record<string, GradeDraft>>({});
+  const [rollForwardIds, setRollForwardIds] = useState<Set<string>>(new Set());
+  const [targetCycleId, setTargetCycleId] = useState(NO_ROLL_FORWARD);
+
+  const { data: scorecard, isLoading } = useQuery<OkrCycleScorecard>({
+    queryKey: ['/api/okr-cycles', cycle?.id, 'scorecard'],
+    enabled: !!cycle,
+  });
+
+  const targetCycles = cycles.filter(other => other.id !== cycle?.id && other.status !== "closed");
+
+  // Unfinished objectives are proposed for roll-forward; the grader can change the selection
+  useEffect(() => {
+    if (!scorecard) return;
+    setGrades({});
+    setRollForwardIds(new Set(scorecard.objectives.filter(entry => entry.score === null || entry.score < 1).map(entry => entry.objectiveId)));
+  }, [scorecard]);
+
+  useEffect(() => {
+    if (cycle) setTargetCycleId(NO_ROLL_FORWARD);
+  }, [cycle]);
+
+  const setGrade = (objectiveId: string, changes: Partial<GradeDraft>) => {
+    setGrades(current => ({
+      ...current,
+      [objectiveId]: { ...(current[objectiveId] ?? { finalScore: "", retrospective: "" }), ...changes },
+    }));
+  };
+
+  const toggleRollForward = (objectiveId: string, checked: boolean) => {
+    setRollForwardIds(current => {
+      const next = new Set(current);
+      if (checked) next.add(objectiveId); else next.delete(objectiveId);
+      return next;
+    });
+  };
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        grades: (scorecard?.objectives ?? [])
+          .filter(entry => grades[entry.objectiveId])
+          .map(entry => {
+            const draft = grades[entry.objectiveId];
+            return {
+              objectiveType: entry.objectiveType,
+              objectiveId: entry.objectiveId,
+              finalScore: draft.finalScore.trim() === "" ? undefined : Number(draft.finalScore),
+              retrospective: draft.retrospective.trim() || undefined,
+            };
+          }),
+        rollForward: targetCycleId === NO_ROLL_FORWARD
+          ? null
+          : { targetCycleId, objectiveIds: Array.from(rollForwardIds) },
+      };
+      const response = await apiRequest("POST", `/api/okr-cycles/${cycle!.id}/close`, body);
+      return response.json() as Promise<OkrCycleCloseResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/okr-cycles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/objectives'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/team-objectives'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+      toast({
+        title: "Cycle closed",
+        description: `${result.snapshotCount} objective(s) graded, average ${formatScore(result.averageScore)}; ${result.rolledForward.length} rolled forward`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to close OKR cycle"), variant: "destructive" });
+    },
+  });
+
+  const invalidGrade = Object.values(grades).some(draft => {
+    if (draft.finalScore.trim() === "") return false;
+    const value = Number(draft.finalScore);
+    return Number.isNaN(value) || value < 0 || value > 1;
+  });
+
+  return (
+    <Dialog open={!!cycle} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Close {cycle?.name}</DialogTitle>
+          <DialogDescription>
+            Closing locks progress on everything in the cycle, records the final grades and retrospectives, and takes a snapshot of each objective.
+            Leave a grade blank to keep the score from its key results.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading scorecard...</p>
+        ) : !scorecard || scorecard.objectives.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing has been planned in this cycle.</p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Current average score: <span className={`font-semibold ${scoreColor(scorecard.averageScore)}`}>{formatScore(scorecard.averageScore)}</span>
+            </p>
+            {scorecard.objectives.map(entry => (
+              <div key={entry.objectiveId} className="rounded-lg border p-3 space-y-2" data-testid={`scorecard-entry-${entry.objectiveId}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{KIND_LABELS[entry.objectiveType]}</Badge>
+                      <span className="font-medium truncate">{entry.title}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {entry.keyResults.length > 0
+                        ? entry.keyResults.map(kr => `${kr.title} (${kr.score.toFixed(2)})`).join(" · ")
+                        : "No key results"}
+                    </p>
+                  </div>
+                  <span className={`text-sm font-semibold shrink-0 ${scoreColor(entry.score)}`}>
+                    Score {formatScore(entry.score)}
+                  </span>
+                </div>
+                <div className="grid grid-cols-[8rem_1fr] gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Final grade (0-1)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={grades[entry.objectiveId]?.finalScore ?? ""}
+                      onChange={(e) => setGrade(entry.objectiveId, { finalScore: e.target.value })}
+                      placeholder={formatScore(entry.score)}
+                      data-testid={`input-final-grade-${entry.objectiveId}`}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Retrospective</Label>
+                    <Textarea
+                      rows={2}
+                      value={grades[entry.objectiveId]?.retrospective ?? ""}
+                      onChange={(e) => setGrade(entry.objectiveId, { retrospective: e.target.value })}
+                      placeholder="What worked, what didn't, what to carry forward"
+                      data-testid={`input-retrospective-${entry.objectiveId}`}
+                    />
+                  </div>
+                </div>
+                {targetCycleId !== NO_ROLL_FORWARD && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={rollForwardIds.has(entry.objectiveId)}
+                      onCheckedChange={(checked) => toggleRollForward(entry.objectiveId, checked === true)}
+                      data-testid={`checkbox-roll-forward-${entry.objectiveId}`}
+                    />
+                    Roll forward into the next cycle
+                  </label>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 rounded-lg border p-3">
+          <Label>Roll unfinished objectives forward into</Label>
+          <Select value={targetCycleId} onValueChange={setTargetCycleId}>
+            <SelectTrigger data-testid="select-roll-forward-cycle">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ROLL_FORWARD}>Don't roll anything forward</SelectItem>
+              {targetCycles.map(target => (
+                <SelectItem key={target.id} value={target.id}>{target.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Copies keep their key results, starting from where this cycle left off.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            variant="destructive"
+            onClick={() => closeMutation.mutate()}
+            disabled={closeMutation.isPending || isLoading || invalidGrade}
+            data-testid="button-confirm-close-cycle"
+          >
+            <Lock className="w-4 h-4 mr-2" />
+            {closeMutation.isPending ? "Closing..." : "Close cycle"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ScorecardDialog({ cycle, onOpenChange }: { cycle: OkrCycleSummary | null; onOpenChange: (open: boolean) => void }) {
+  const { data: scorecard, isLoading } = useQuery<OkrCycleScorecard>({
+    queryKey: ['/api/okr-cycles', cycle?.id, 'scorecard'],
+    enabled: !!cycle,
+  });
+
+  return (
+    <Dialog open={!!cycle} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scorecard: {cycle?.name}</DialogTitle>
+          <DialogDescription>
+            Average {formatScore(scorecard?.averageScore ?? null)} across {scorecard?.objectives.length ?? 0} objective(s)
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading scorecard...</p>
+        ) : (
+          <div className="space-y-2">
+            {scorecard?.objectives.map(entry => (
+              <div key={entry.objectiveId} className="rounded-lg border p-3 space-y-1 text-sm">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline">{KIND_LABELS[entry.objectiveType]}</Badge>
+                    <span className="font-medium truncate">{entry.title}</span>
+                  </div>
+                  <span className={`font-semibold shrink-0 ${scoreColor(entry.finalScore ?? entry.score)}`}>
+                    {entry.finalScore !== null ? `Final ${formatScore(entry.finalScore)}` : `Score ${formatScore(entry.score)}`}
+                  </span>
+                </div>
+                {entry.retrospective && <p className="text-muted-foreground whitespace-pre-line">{entry.retrospective}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Named OKR cycles: planning, in-flight scoring, graded close-out and roll-forward of unfinished objectives
+export default function OkrCycles() {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [editing, setEditing] = useState<OkrCycleSummary | null>(null);
+  const [closing, setClosing] = useState<OkrCycleSummary | null>(null);
+  const [viewing, setViewing] = useState<OkrCycleSummary | null>(null);
+
+  const { data: cycles = [], isLoading } = useQuery<OkrCycleSummary[]>({ queryKey: ['/api/okr-cycles'] });
+
+  const startMutation = useMutation({
+    mutationFn: (cycleId: string) => apiRequest("PATCH", `/api/okr-cycles/${cycleId}`, { status: "in_progress" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/okr-cycles'] });
+      toast({ title: "Success", description: "OKR cycle started" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to start OKR cycle"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarRange className="w-5 h-5" />
+            OKR Cycles
+          </CardTitle>
+          <CardDescription>Plan objectives into a cycle, score them as it runs and grade them when it closes</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setCreateOpen(true)} data-testid="button-new-cycle">
+          <Plus className="w-4 h-4 mr-2" />
+          New cycle
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading OKR cycles...</p>
+        ) : cycles.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No OKR cycles have been created yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {cycles.map(cycle => (
+              <div key={cycle.id} className="flex items-center justify-between gap-4 rounded-lg border p-3" data-testid={`okr-cycle-${cycle.id}`}>
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{cycle.name}</span>
+                    <Badge variant={cycle.status === "closed" ? "secondary" : cycle.status === "in_progress" ? "default" : "outline"}>
+                      {STATUS_LABELS[cycle.status]}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(cycle.startDate), "PP")} - {format(new Date(cycle.endDate), "PP")} · {cycle.companyObjectiveCount} company,{" "}
+                    {cycle.teamObjectiveCount} team, {cycle.goalCount} goal(s)
+                    {cycle.closedAt && <> · Closed {format(new Date(cycle.closedAt), "PP")}</>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {cycle.status === "open" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => startMutation.mutate(cycle.id)}
+                      disabled={startMutation.isPending}
+                      data-testid={`button-start-cycle-${cycle.id}`}
+                    >
+                      <Play className="w-4 h-4 mr-1" />
+                      Start
+                    </Button>
+                  )}
+                  {cycle.status !== "closed" && (
+                    <Button variant="outline" size="sm" onClick={() => setClosing(cycle)} data-testid={`button-close-cycle-${cycle.id}`}>
+                      <Lock className="w-4 h-4 mr-1" />
+                      Close out
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => setViewing(cycle)} data-testid={`button-cycle-scorecard-${cycle.id}`}>
+                    <ListChecks className="w-4 h-4" />
+                  </Button>
+                  {cycle.status !== "closed" && (
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(cycle)} data-testid={`button-edit-cycle-${cycle.id}`}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <CycleEditor
+        cycle={editing}
+        open={createOpen || !!editing}
+        onOpenChange={(open) => {
+          if (open) return;
+          setEditing(null);
+          setCreateOpen(false);
+        }}
+      />
+      <CloseOutDialog cycle={closing} cycles={cycles} onOpenChange={(open) => { if (!open) setClosing(null); }} />
+      <ScorecardDialog cycle={viewing} onOpenChange={(open) => { if (!open) setViewing(null); }} />
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { GitMerge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import type { OkrRollupBreakdown, OkrRollupInput, OkrRollupMethod } from "@shared/schema";
+
+interface RollupObjective {
+  id: string;
+  title: string;
+  rollupMethod: OkrRollupMethod;
+  rollupOverride: number | null;
+  rollupOverrideReason: string | null;
+  rollupProgress: number | null;
+  rollupBreakdown: OkrRollupBreakdown | null;
+  rollupCalculatedAt: string | null;
+  finalScore?: number | null;
+}
+
+interface OkrRollupDetailsProps {
+  objective: RollupObjective;
+  objectiveType: "company" | "team";
+  canEdit?: boolean;
+}
+
+const METHOD_LABELS: Record<OkrRollupMethod, string> = {
+  weighted_average: "Weighted average",
+  min: "Lowest input",
+  max: "Highest input",
+  manual: "Manual override",
+};
+
+const INPUT_LABELS: Record<OkrRollupInput["kind"], string> = {
+  key_result: "Key result",
+  team_key_result: "Key result",
+  team_objective: "Team objective",
+  goal: "Goal",
+};
+
+// Rolled-up progress for an objective, opening into how the number was worked out and the rule that produced it
+export function OkrRollupDetails({ objective, objectiveType, canEdit = false }: OkrRollupDetailsProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [method, setMethod] = useState<OkrRollupMethod>(objective.rollupMethod);
+  const [overrideValue, setOverrideValue] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
+
+  const breakdown = objective.rollupBreakdown;
+  const progress = objective.rollupProgress;
+  // Objectives graded at the close of their cycle keep the progress they were graded on
+  const locked = objective.finalScore != null;
+
+  useEffect(() => {
+    if (!open) return;
+    setMethod(objective.rollupMethod);
+    setOverrideValue(objective.rollupOverride != null ? String(objective.rollupOverride) : "");
+    setOverrideReason(objective.rollupOverrideReason ?? "");
+  }, [open, objective]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const path = objectiveType === "company" ? "objectives" : "team-objectives";
+      return apiRequest("PUT", `/api/${path}/${objective.id}/rollup`, {
+        method,
+        overrideValue: method === "manual" ? Number(overrideValue) : null,
+        overrideReason: method === "manual" ? overrideReason : null,
+      });
+    },
+    onSuccess: () => {
+      // A team objective's progress feeds its company objective, so both lists change
+      queryClient.invalidateQueries({ queryKey: ["/api/objectives"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/team-objectives"] });
+      toast({ title: "Success", description: "Roll-up rule updated" });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to update roll-up rule"), variant: "destructive" });
+    },
+  });
+
+  const overrideNumber = Number(overrideValue);
+  const invalidOverride = method === "manual"
+    && (overrideValue.trim() === "" || Number.isNaN(overrideNumber) || overrideNumber < 0 || overrideNumber > 1 || !overrideReason.trim());
+
+  return (
+    <>
+      <Badge
+        variant="outline"
+        className="text-xs cursor-pointer"
+        onClick={() => setOpen(true)}
+        data-testid={`badge-${objectiveType}-objective-rollup-${objective.id}`}
+      >
+        <GitMerge className="w-3 h-3 mr-1" />
+        {progress != null ? `Rolled up ${(progress * 100).toFixed(0)}%` : "No roll-up yet"}
+        {objective.rollupMethod === "manual" && " (override)"}
+      </Badge>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Progress roll-up: {objective.title}</DialogTitle>
+            <DialogDescription>
+              Worked out from the key results, {objectiveType === "company" ? "team objectives and goals" : "and goals"} beneath this objective
+              whenever their progress changes.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{METHOD_LABELS[objective.rollupMethod]}</span>
+                <span className="font-semibold" data-testid={`text-rollup-progress-${objective.id}`}>
+                  {progress != null ? progress.toFixed(2) : "-"}
+                </span>
+              </div>
+              <Progress value={(progress ?? 0) * 100} className="h-2" />
+              <p className="text-sm text-muted-foreground" data-testid={`text-rollup-explanation-${objective.id}`}>
+                {breakdown?.explanation ?? "Nothing beneath this objective has been scored yet."}
+              </p>
+              {objective.rollupCalculatedAt && (
+                <p className="text-xs text-muted-foreground">Last recalculated {format(new Date(objective.rollupCalculatedAt), "PPp")}</p>
+              )}
+            </div>
+
+            {breakdown && breakdown.inputs.length > 0 && (
+              <div className="rounded-lg border divide-y">
+                {breakdown.inputs.map(input => (
+                  <div key={`${input.kind}:${input.id}`} className="flex items-center justify-between gap-4 p-2 text-sm" data-testid={`rollup-input-${input.id}`}>
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant="secondary" className="text-xs shrink-0">{INPUT_LABELS[input.kind]}</Badge>
+                      <span className="truncate">{input.title}</span>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0 text-xs text-muted-foreground">
+                      {breakdown.method !== "min" && breakdown.method !== "max" && <span>weight {input.weight}</span>}
+                      <span className="font-medium text-foreground w-10 text-right">
+                        {input.score != null ? input.score.toFixed(2) : "n/a"}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canEdit && !locked && (
+              <div className="space-y-3 rounded-lg border p-3">
+                <div className="space-y-2">
+                  <Label>Roll-up rule</Label>
+                  <Select value={method} onValueChange={(value) => setMethod(value as OkrRollupMethod)}>
+                    <SelectTrigger data-testid={`select-rollup-method-${objective.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(METHOD_LABELS) as OkrRollupMethod[]).map(value => (
+                        <SelectItem key={value} value={value}>{METHOD_LABELS[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {method === "manual" && (
+                  <div className="grid grid-cols-[8rem_1fr] gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Progress (0-1)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={overrideValue}
+                        onChange={(e) => setOverrideValue(e.target.value)}
+                        data-testid={`input-rollup-override-${objective.id}`}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Reason</Label>
+                      <Textarea
+                        rows={2}
+                        value={overrideReason}
+                        onChange={(e) => setOverrideReason(e.target.value)}
+                        placeholder="Why the inputs don't reflect real progress"
+                        data-testid={`input-rollup-reason-${objective.id}`}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Close</Button>
+            {canEdit && !locked && (
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || invalidOverride}
+                data-testid={`button-save-rollup-${objective.id}`}
+              >
+                {saveMutation.isPending ? "Saving..." : "Save rule"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
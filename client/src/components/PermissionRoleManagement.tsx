@@ -0,0 +1,455 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ShieldCheck, Plus, Edit, Trash2, UserPlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import type { Department, PermissionRole, PermissionRoleAssignment, Team, User } from "@shared/schema";
+
+interface PermissionDefinition {
+  name: string;
+  description: string;
+  baseRoles: string[];
+}
+
+interface AssignmentWithDetails extends PermissionRoleAssignment {
+  roleName: string;
+  userName: string;
+  userEmail: string | null;
+}
+
+type ScopeType = "organization" | "department" | "team";
+
+const emptyRoleForm = { name: "", description: "", permissions: [] as string[] };
+const emptyGrantForm = { userId: "", roleId: "", scopeType: "organization" as ScopeType, scopeId: "" };
+
+export default function PermissionRoleManagement() {
+  const { toast } = useToast();
+  const [editingRole, setEditingRole] = useState<PermissionRole | null>(null);
+  const [isRoleDialogOpen, setIsRoleDialogOpen] = useState(false);
+  const [roleForm, setRoleForm] = useState(emptyRoleForm);
+  const [deletingRole, setDeletingRole] = useState<PermissionRole | null>(null);
+  const [isGrantDialogOpen, setIsGrantDialogOpen] = useState(false);
+  const [grantForm, setGrantForm] = useState(emptyGrantForm);
+
+  const { data: permissions = [] } = useQuery<PermissionDefinition[]>({ queryKey: ['/api/permissions'] });
+  const { data: roles = [], isLoading } = useQuery<PermissionRole[]>({ queryKey: ['/api/permission-roles'] });
+  const { data: assignments = [] } = useQuery<AssignmentWithDetails[]>({ queryKey: ['/api/permission-role-assignments'] });
+  const { data: users = [] } = useQuery<User[]>({ queryKey: ['/api/users'] });
+  const { data: teams = [] } = useQuery<Team[]>({ queryKey: ['/api/teams'] });
+  const { data: departments = [] } = useQuery<Department[]>({ queryKey: ['/api/departments'] });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/permission-roles'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/permission-role-assignments'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/permissions'] });
+  };
+
+  const saveRoleMutation = useMutation({
+    mutationFn: () =>
+      editingRole
+        ? apiRequest("PUT", `/api/permission-roles/${editingRole.id}`, roleForm)
+        : apiRequest("POST", "/api/permission-roles", roleForm),
+    onSuccess: () => {
+      refresh();
+      setIsRoleDialogOpen(false);
+      toast({ title: "Success", description: `Role ${editingRole ? "updated" : "created"} successfully` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to save role"), variant: "destructive" });
+    },
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: (roleId: string) => apiRequest("DELETE", `/api/permission-roles/${roleId}`),
+    onSuccess: () => {
+      refresh();
+      setDeletingRole(null);
+      toast({ title: "Success", description: "Role deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to delete role"), variant: "destructive" });
+    },
+  });
+
+  const grantMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/permission-role-assignments", {
+        userId: grantForm.userId,
+        roleId: grantForm.roleId,
+        scopeType: grantForm.scopeType,
+        scopeId: grantForm.scopeType === "organization" ? null : grantForm.scopeId,
+      }),
+    onSuccess: () => {
+      refresh();
+      setIsGrantDialogOpen(false);
+      toast({ title: "Success", description: "Role granted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to grant role"), variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (assignmentId: string) => apiRequest("DELETE", `/api/permission-role-assignments/${assignmentId}`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: "Role revoked" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to revoke role"), variant: "destructive" });
+    },
+  });
+
+  const openRoleDialog = (role: PermissionRole | null) => {
+    setEditingRole(role);
+    setRoleForm(role ? { name: role.name, description: role.description ?? "", permissions: role.permissions } : emptyRoleForm);
+    setIsRoleDialogOpen(true);
+  };
+
+  const togglePermission = (name: string, checked: boolean) => {
+    setRoleForm(form => ({
+      ...form,
+      permissions: checked ? [...form.permissions, name] : form.permissions.filter(permission => permission !== name),
+    }));
+  };
+
+  const describeScope = (assignment: AssignmentWithDetails) => {
+    if (assignment.scopeType === "team") {
+      return `Team: ${teams.find(team => team.id === assignment.scopeId)?.name ?? "Unknown team"}`;
+    }
+    if (assignment.scopeType === "department") {
+      return `Department: ${departments.find(department => department.id === assignment.scopeId)?.name ?? "Unknown department"}`;
+    }
+    return "Whole organization";
+  };
+
+  const scopeOptions = grantForm.scopeType === "team" ? teams : grantForm.scopeType === "department" ? departments : [];
+  const canGrant = grantForm.userId && grantForm.roleId && (grantForm.scopeType === "organization" || grantForm.scopeId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center space-y-4">
+          <div className="w-8 h-8 bg-primary rounded-lg animate-pulse mx-auto"></div>
+          <p className="text-muted-foreground">Loading roles...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Roles & Permissions</h1>
+          <p className="text-muted-foreground">
+            Grant specific permissions without making people leadership, for the whole organization or one department or team
+          </p>
+        </div>
+        <ShieldCheck className="h-6 w-6 text-muted-foreground" />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Permission Roles</CardTitle>
+            <CardDescription>
+              Supervisors and leadership keep the permissions of their base role; these roles add to them.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openRoleDialog(null)} data-testid="button-create-permission-role">
+            <Plus className="h-4 w-4 mr-2" />
+            New Role
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                <TableHead>Permissions</TableHead>
+                <TableHead>Holders</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {roles.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No permission roles yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                roles.map(role => (
+                  <TableRow key={role.id} data-testid={`row-permission-role-${role.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{role.name}</div>
+                      {role.description && <div className="text-sm text-muted-foreground">{role.description}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {role.permissions.map(permission => (
+                          <Badge key={permission} variant="outline" className="font-mono text-xs">{permission}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{assignments.filter(assignment => assignment.roleId === role.id).length}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => openRoleDialog(role)} data-testid={`button-edit-permission-role-${role.id}`}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setDeletingRole(role)} data-testid={`button-delete-permission-role-${role.id}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Granted Roles</CardTitle>
+            <CardDescription>A department grant also covers the teams in that department; a team grant covers its sub-teams.</CardDescription>
+          </div>
+          <Button
+            onClick={() => {
+              setGrantForm(emptyGrantForm);
+              setIsGrantDialogOpen(true);
+            }}
+            disabled={roles.length === 0}
+            data-testid="button-grant-permission-role"
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            Grant Role
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Person</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assignments.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No roles granted yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                assignments.map(assignment => (
+                  <TableRow key={assignment.id} data-testid={`row-permission-assignment-${assignment.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{assignment.userName}</div>
+                      {assignment.userEmail && <div className="text-sm text-muted-foreground">{assignment.userEmail}</div>}
+                    </TableCell>
+                    <TableCell>{assignment.roleName}</TableCell>
+                    <TableCell>{describeScope(assignment)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate(assignment.id)}
+                        disabled={revokeMutation.isPending}
+                        data-testid={`button-revoke-permission-assignment-${assignment.id}`}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isRoleDialogOpen} onOpenChange={setIsRoleDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRole ? "Edit Role" : "New Role"}</DialogTitle>
+            <DialogDescription>Choose what holders of this role can do.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="role-name">Name</Label>
+              <Input
+                id="role-name"
+                value={roleForm.name}
+                onChange={(e) => setRoleForm(form => ({ ...form, name: e.target.value }))}
+                placeholder="e.g. Course Author"
+                data-testid="input-permission-role-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="role-description">Description</Label>
+              <Textarea
+                id="role-description"
+                value={roleForm.description}
+                onChange={(e) => setRoleForm(form => ({ ...form, description: e.target.value }))}
+                data-testid="input-permission-role-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              <div className="space-y-3 rounded border p-3">
+                {permissions.map(permission => (
+                  <label key={permission.name} className="flex items-start gap-3 cursor-pointer">
+                    <Checkbox
+                      checked={roleForm.permissions.includes(permission.name)}
+                      onCheckedChange={(checked) => togglePermission(permission.name, checked === true)}
+                      data-testid={`checkbox-permission-${permission.name}`}
+                    />
+                    <div className="space-y-0.5">
+                      <div className="font-mono text-sm">{permission.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {permission.description}
+                        {permission.baseRoles.length > 0 && ` · included for ${permission.baseRoles.join(" and ")}`}
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRoleDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveRoleMutation.mutate()}
+              disabled={!roleForm.name.trim() || roleForm.permissions.length === 0 || saveRoleMutation.isPending}
+              data-testid="button-save-permission-role"
+            >
+              {saveRoleMutation.isPending ? "Saving..." : "Save Role"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isGrantDialogOpen} onOpenChange={setIsGrantDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Grant Role</DialogTitle>
+            <DialogDescription>Limit the grant to a department or team to keep access to the people it concerns.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Person</Label>
+              <Select value={grantForm.userId} onValueChange={(userId) => setGrantForm(form => ({ ...form, userId }))}>
+                <SelectTrigger data-testid="select-grant-user">
+                  <SelectValue placeholder="Select a person" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {[user.firstName, user.lastName].filter(Boolean).join(" ") || user.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={grantForm.roleId} onValueChange={(roleId) => setGrantForm(form => ({ ...form, roleId }))}>
+                <SelectTrigger data-testid="select-grant-role">
+                  <SelectValue placeholder="Select a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map(role => (
+                    <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Scope</Label>
+              <Select
+                value={grantForm.scopeType}
+                onValueChange={(scopeType) => setGrantForm(form => ({ ...form, scopeType: scopeType as ScopeType, scopeId: "" }))}
+              >
+                <SelectTrigger data-testid="select-grant-scope-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="organization">Whole organization</SelectItem>
+                  <SelectItem value="department">One department</SelectItem>
+                  <SelectItem value="team">One team</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {grantForm.scopeType !== "organization" && (
+              <div className="space-y-2">
+                <Label>{grantForm.scopeType === "team" ? "Team" : "Department"}</Label>
+                <Select value={grantForm.scopeId} onValueChange={(scopeId) => setGrantForm(form => ({ ...form, scopeId }))}>
+                  <SelectTrigger data-testid="select-grant-scope">
+                    <SelectValue placeholder={`Select a ${grantForm.scopeType}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scopeOptions.map(option => (
+                      <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsGrantDialogOpen(false)}>Cancel</Button>
+            <Button onClick={() => grantMutation.mutate()} disabled={!canGrant || grantMutation.isPending} data-testid="button-confirm-grant">
+              {grantMutation.isPending ? "Granting..." : "Grant Role"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingRole} onOpenChange={(open) => !open && setDeletingRole(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingRole?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everyone holding this role loses its permissions immediately. Their base role is not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingRole && deleteRoleMutation.mutate(deletingRole.id)}
+              data-testid="button-confirm-delete-permission-role"
+            >
+              Delete Role
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import { updateUserProfileSchema, type User as UserType } from "@shared/schema";
 import type { Goal, DevelopmentPlan } from "@shared/schema";
 import type { z } from "zod";
 import { ObjectUploader } from "@/components/ObjectUploader";
+import ApiTokens from "@/components/ApiTokens";
 // import ProgressRing from "./ProgressRing"; // TODO: Create or fix ProgressRing component
 
 type UpdateProfileData = z.infer<typeof updateUserProfileSchema>;
@@ -492,6 +493,8 @@ export default function Profile() {
         </CardContent>
       </Card>
 
+      <ApiTokens />
+
       {/* Settings */}
       <Card>
         <CardContent className="p-6">
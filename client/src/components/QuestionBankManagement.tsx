@@ -0,0 +1,646 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { QuestionBankQuestion, Skill } from "@shared/schema";
+import { AnswerKeyEditor, QUESTION_TYPE_LABELS, getDefaultAnswerFields, isChoiceQuestionType } from "@/components/QuizQuestionTypes";
+import { AlertCircle, CheckCircle, Circle, Database, Plus, RefreshCw, Shuffle, Trash2 } from "lucide-react";
+
+interface QuestionBankSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  isActive: boolean | null;
+  questionCount: number;
+}
+
+interface DrawRuleWithAvailability {
+  id: string;
+  bankId: string;
+  questionCount: number;
+  skillId: string | null;
+  difficulty: string | null;
+  stratifyBy: string;
+  availableCount: number;
+}
+
+type DrawRuleDraft = Omit<DrawRuleWithAvailability, "id" | "availableCount"> & { availableCount?: number };
+
+interface QuestionDraft {
+  type: string;
+  questionText: string;
+  options: any; // string[] for choice and ordering questions; see QuizQuestionTypes for the other shapes
+  correctAnswers: any;
+  explanation: string;
+  difficulty: string;
+  skillId: string | null;
+}
+
+const DIFFICULTIES = ["easy", "medium", "hard"];
+// Radix Select can't hold an empty value, so "any" stands in for no filter
+const ANY = "any";
+
+const emptyQuestion = (): QuestionDraft => ({
+  type: "multiple_choice",
+  questionText: "",
+  options: ["", ""],
+  correctAnswers: [],
+  explanation: "",
+  difficulty: "medium",
+  skillId: null,
+});
+
+const banksQueryKey = ["/api/lms/admin/question-banks"];
+
+// Reusable question pools that quizzes draw from on every attempt
+export function QuestionBankManagement() {
+  const { toast } = useToast();
+  const [selectedBankId, setSelectedBankId] = useState<string>("");
+  const [newBankName, setNewBankName] = useState("");
+  const [newBankDescription, setNewBankDescription] = useState("");
+  const [draft, setDraft] = useState<QuestionDraft>(emptyQuestion);
+
+  const { data: banks, isLoading: banksLoading } = useQuery<QuestionBankSummary[]>({ queryKey: banksQueryKey });
+  const { data: skills } = useQuery<Skill[]>({ queryKey: ["/api/skills"] });
+  const questionsUrl = `/api/lms/admin/question-banks/${selectedBankId}/questions`;
+  const { data: questions, isLoading: questionsLoading } = useQuery<QuestionBankQuestion[]>({
+    queryKey: [questionsUrl],
+    enabled: !!selectedBankId,
+  });
+
+  const selectedBank = banks?.find(bank => bank.id === selectedBankId);
+  const skillName = (skillId: string | null) => skills?.find(skill => skill.id === skillId)?.name;
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message || "Please try again.", variant: "destructive" });
+  };
+
+  const createBankMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/lms/admin/question-banks", {
+        name: newBankName.trim(),
+        description: newBankDescription.trim() || null,
+      });
+      return await response.json();
+    },
+    onSuccess: (bank) => {
+      queryClient.invalidateQueries({ queryKey: banksQueryKey });
+      setSelectedBankId(bank.id);
+      setNewBankName("");
+      setNewBankDescription("");
+      toast({ title: "Question bank created", description: bank.name });
+    },
+    onError: onError("Failed to create question bank"),
+  });
+
+  const updateBankMutation = useMutation({
+    mutationFn: async ({ bankId, isActive }: { bankId: string; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/lms/admin/question-banks/${bankId}`, { isActive });
+      return await response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: banksQueryKey }),
+    onError: onError("Failed to update question bank"),
+  });
+
+  const deleteBankMutation = useMutation({
+    mutationFn: async (bankId: string) => {
+      await apiRequest("DELETE", `/api/lms/admin/question-banks/${bankId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: banksQueryKey });
+      setSelectedBankId("");
+      toast({ title: "Question bank deleted" });
+    },
+    onError: onError("Failed to delete question bank"),
+  });
+
+  const invalidateQuestions = () => {
+    queryClient.invalidateQueries({ queryKey: [questionsUrl] });
+    queryClient.invalidateQueries({ queryKey: banksQueryKey });
+  };
+
+  const addQuestionMutation = useMutation({
+    mutationFn: async () => {
+      const options = draft.type === "true_false"
+        ? ["True", "False"]
+        : isChoiceQuestionType(draft.type) ? draft.options.map((option: string) => option.trim()) : draft.options;
+      const response = await apiRequest("POST", questionsUrl, { ...draft, options });
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateQuestions();
+      setDraft(current => ({
+        ...emptyQuestion(),
+        ...(isChoiceQuestionType(current.type) ? {} : getDefaultAnswerFields(current.type)),
+        type: current.type,
+        difficulty: current.difficulty,
+        skillId: current.skillId,
+      }));
+      toast({ title: "Question added" });
+    },
+    onError: onError("Failed to add question"),
+  });
+
+  const updateQuestionMutation = useMutation({
+    mutationFn: async ({ questionId, isActive }: { questionId: string; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/lms/admin/question-bank-questions/${questionId}`, { isActive });
+      return await response.json();
+    },
+    onSuccess: invalidateQuestions,
+    onError: onError("Failed to update question"),
+  });
+
+  const deleteQuestionMutation = useMutation({
+    mutationFn: async (questionId: string) => {
+      await apiRequest("DELETE", `/api/lms/admin/question-bank-questions/${questionId}`);
+    },
+    onSuccess: invalidateQuestions,
+    onError: onError("Failed to delete question"),
+  });
+
+  const toggleCorrect = (optionIndex: number) => {
+    setDraft(current => {
+      if (current.type !== "multi_select") {
+        return { ...current, correctAnswers: [optionIndex] };
+      }
+      const correctAnswers = current.correctAnswers.includes(optionIndex)
+        ? current.correctAnswers.filter((index: number) => index !== optionIndex)
+        : [...current.correctAnswers, optionIndex].sort((a: number, b: number) => a - b);
+      return { ...current, correctAnswers };
+    });
+  };
+
+  // Non-choice answer keys are checked by the server, which explains what's missing
+  const canAddQuestion = draft.questionText.trim().length > 0 && (
+    !isChoiceQuestionType(draft.type) || (
+      draft.correctAnswers.length > 0 &&
+      (draft.type === "true_false" || draft.options.every((option: string) => option.trim().length > 0))
+    )
+  );
+
+  return (
+    <Card data-testid="card-question-banks">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Database className="w-5 h-5 mr-2" />
+          Question Banks
+        </CardTitle>
+        <CardDescription>
+          Reusable question pools tagged by skill and difficulty. Quizzes draw a fresh set from them on every attempt.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Bank list */}
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Input
+                value={newBankName}
+                onChange={(e) => setNewBankName(e.target.value)}
+                placeholder="New bank name, e.g. Chemical Safety"
+                data-testid="input-question-bank-name"
+              />
+              <Textarea
+                value={newBankDescription}
+                onChange={(e) => setNewBankDescription(e.target.value)}
+                placeholder="Description (optional)"
+                rows={2}
+              />
+              <Button
+                className="w-full"
+                disabled={!newBankName.trim() || createBankMutation.isPending}
+                onClick={() => createBankMutation.mutate()}
+                data-testid="button-create-question-bank"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Create Bank
+              </Button>
+            </div>
+
+            {banksLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : banks?.length ? (
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {banks.map(bank => (
+                  <button
+                    key={bank.id}
+                    type="button"
+                    onClick={() => setSelectedBankId(bank.id)}
+                    className={`w-full text-left p-3 rounded border transition-colors ${
+                      bank.id === selectedBankId ? "border-primary bg-primary/5" : "hover:bg-muted"
+                    }`}
+                    data-testid={`button-question-bank-${bank.id}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{bank.name}</span>
+                      <Badge variant={bank.isActive ? "secondary" : "outline"}>
+                        {bank.questionCount} question{bank.questionCount === 1 ? "" : "s"}
+                      </Badge>
+                    </div>
+                    {bank.description && (
+                      <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{bank.description}</p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No question banks yet.</p>
+            )}
+          </div>
+
+          {/* Selected bank */}
+          <div className="lg:col-span-2 space-y-4">
+            {!selectedBank ? (
+              <div className="text-sm text-muted-foreground p-6 border rounded text-center">
+                Select a question bank to manage its questions
+              </div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h3 className="text-lg font-semibold">{selectedBank.name}</h3>
+                  <div className="flex items-center gap-3">
+                    <div className="flex items-center gap-2 text-sm">
+                      <Switch
+                        checked={!!selectedBank.isActive}
+                        onCheckedChange={(isActive) => updateBankMutation.mutate({ bankId: selectedBank.id, isActive })}
+                        data-testid="switch-question-bank-active"
+                      />
+                      Active
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={deleteBankMutation.isPending}
+                      onClick={() => {
+                        if (confirm(`Delete "${selectedBank.name}" and all of its questions?`)) {
+                          deleteBankMutation.mutate(selectedBank.id);
+                        }
+                      }}
+                      data-testid="button-delete-question-bank"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {/* New question */}
+                <div className="border rounded p-4 space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    <Select
+                      value={draft.type}
+                      onValueChange={(type) => setDraft(current => ({
+                        ...current,
+                        type,
+                        ...(type === "true_false"
+                          ? { options: ["True", "False"], correctAnswers: [] }
+                          : isChoiceQuestionType(type) && isChoiceQuestionType(current.type) && current.type !== "true_false"
+                            ? { correctAnswers: [] }
+                            : getDefaultAnswerFields(type)),
+                      }))}
+                    >
+                      <SelectTrigger data-testid="select-bank-question-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={draft.difficulty} onValueChange={(difficulty) => setDraft(current => ({ ...current, difficulty }))}>
+                      <SelectTrigger data-testid="select-bank-question-difficulty">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DIFFICULTIES.map(difficulty => (
+                          <SelectItem key={difficulty} value={difficulty} className="capitalize">{difficulty}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={draft.skillId ?? ANY}
+                      onValueChange={(skillId) => setDraft(current => ({ ...current, skillId: skillId === ANY ? null : skillId }))}
+                    >
+                      <SelectTrigger data-testid="select-bank-question-skill">
+                        <SelectValue placeholder="Skill" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>No skill tag</SelectItem>
+                        {skills?.map(skill => (
+                          <SelectItem key={skill.id} value={skill.id}>{skill.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Textarea
+                    value={draft.questionText}
+                    onChange={(e) => setDraft(current => ({ ...current, questionText: e.target.value }))}
+                    placeholder="Enter your question here..."
+                    data-testid="textarea-bank-question"
+                  />
+                  {!isChoiceQuestionType(draft.type) && (
+                    <AnswerKeyEditor
+                      type={draft.type}
+                      options={draft.options}
+                      correctAnswers={draft.correctAnswers}
+                      onChange={(updates) => setDraft(current => ({ ...current, ...updates }))}
+                    />
+                  )}
+                  {isChoiceQuestionType(draft.type) && (
+                    <div className="space-y-2">
+                      {draft.options.map((option: string, optionIndex: number) => (
+                        <div key={optionIndex} className="flex items-center space-x-2">
+                          <Input
+                            value={option}
+                            disabled={draft.type === "true_false"}
+                            onChange={(e) => setDraft(current => ({
+                              ...current,
+                              options: current.options.map((value: string, index: number) => index === optionIndex ? e.target.value : value),
+                            }))}
+                            placeholder={`Option ${optionIndex + 1}`}
+                            className="flex-1"
+                            data-testid={`input-bank-option-${optionIndex}`}
+                          />
+                          <Button
+                            size="sm"
+                            variant={draft.correctAnswers.includes(optionIndex) ? "default" : "outline"}
+                            onClick={() => toggleCorrect(optionIndex)}
+                            data-testid={`button-bank-correct-${optionIndex}`}
+                          >
+                            {draft.correctAnswers.includes(optionIndex) ? <CheckCircle className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+                          </Button>
+                          {draft.type !== "true_false" && draft.options.length > 2 && (
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => setDraft(current => ({
+                                ...current,
+                                options: current.options.filter((_: string, index: number) => index !== optionIndex),
+                                correctAnswers: current.correctAnswers
+                                  .filter((index: number) => index !== optionIndex)
+                                  .map((index: number) => index > optionIndex ? index - 1 : index),
+                              }))}
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                      {draft.type !== "true_false" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setDraft(current => ({ ...current, options: [...current.options, ""] }))}
+                        >
+                          <Plus className="w-3 h-3 mr-1" />
+                          Add Option
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  <Textarea
+                    value={draft.explanation}
+                    onChange={(e) => setDraft(current => ({ ...current, explanation: e.target.value }))}
+                    placeholder="Explanation shown after submission (optional)"
+                    rows={2}
+                  />
+                  <div className="flex justify-end">
+                    <Button
+                      disabled={!canAddQuestion || addQuestionMutation.isPending}
+                      onClick={() => addQuestionMutation.mutate()}
+                      data-testid="button-add-bank-question"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add to Bank
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Bank questions */}
+                {questionsLoading ? (
+                  <Skeleton className="h-32 w-full" />
+                ) : (
+                  <div className="space-y-2 max-h-96 overflow-y-auto">
+                    {questions?.map(question => (
+                      <div
+                        key={question.id}
+                        className={`flex items-start justify-between gap-3 p-3 border rounded ${question.isActive ? "" : "opacity-60"}`}
+                        data-testid={`bank-question-${question.id}`}
+                      >
+                        <div className="space-y-1">
+                          <p className="text-sm font-medium">{question.questionText}</p>
+                          <div className="flex flex-wrap gap-1">
+                            <Badge variant="outline" className="capitalize">{question.difficulty}</Badge>
+                            <Badge variant="outline">{QUESTION_TYPE_LABELS[question.type] ?? question.type}</Badge>
+                            {question.skillId && <Badge variant="secondary">{skillName(question.skillId) ?? "Skill"}</Badge>}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Switch
+                            checked={!!question.isActive}
+                            onCheckedChange={(isActive) => updateQuestionMutation.mutate({ questionId: question.id, isActive })}
+                          />
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => deleteQuestionMutation.mutate(question.id)}
+                            data-testid={`button-delete-bank-question-${question.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                    {questions?.length === 0 && (
+                      <p className="text-sm text-muted-foreground">This bank has no questions yet.</p>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface QuizDrawRulesEditorProps {
+  quizId: string;
+}
+
+// Draw rules for one quiz: each attempt takes questionCount questions from a bank, optionally stratified
+export function QuizDrawRulesEditor({ quizId }: QuizDrawRulesEditorProps) {
+  const { toast } = useToast();
+  const rulesUrl = `/api/lms/admin/quizzes/${quizId}/draw-rules`;
+  const { data: savedRules, isLoading } = useQuery<DrawRuleWithAvailability[]>({ queryKey: [rulesUrl] });
+  const { data: banks } = useQuery<QuestionBankSummary[]>({ queryKey: banksQueryKey });
+  const { data: skills } = useQuery<Skill[]>({ queryKey: ["/api/skills"] });
+  const [rules, setRules] = useState<DrawRuleDraft[]>([]);
+
+  useEffect(() => {
+    if (savedRules) {
+      setRules(savedRules.map(({ id, ...rule }) => rule));
+    }
+  }, [savedRules]);
+
+  const saveRulesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", rulesUrl, {
+        rules: rules.map(({ availableCount, ...rule }) => rule),
+      });
+      return await response.json();
+    },
+    onSuccess: (updated: DrawRuleWithAvailability[]) => {
+      queryClient.setQueryData([rulesUrl], updated);
+      toast({ title: "Draw rules saved", description: `${updated.length} rule${updated.length === 1 ? "" : "s"} active for this quiz.` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save draw rules", description: error.message || "Please try again.", variant: "destructive" });
+    },
+  });
+
+  const updateRule = (index: number, updates: Partial<DrawRuleDraft>) => {
+    // Availability is recomputed by the server on save
+    setRules(current => current.map((rule, i) => i === index ? { ...rule, ...updates, availableCount: undefined } : rule));
+  };
+
+  const totalDrawn = rules.reduce((sum, rule) => sum + (rule.questionCount || 0), 0);
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-4" data-testid="section-quiz-draw-rules">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center">
+            <Shuffle className="w-4 h-4 mr-2" />
+            Question Bank Draws
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Each attempt draws {totalDrawn} question{totalDrawn === 1 ? "" : "s"} from question banks in addition to the questions above.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          disabled={!banks?.length}
+          onClick={() => setRules(current => [
+            ...current,
+            { bankId: banks?.[0]?.id ?? "", questionCount: 5, skillId: null, difficulty: null, stratifyBy: "none" },
+          ])}
+          data-testid="button-add-draw-rule"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Draw Rule
+        </Button>
+      </div>
+
+      {rules.map((rule, index) => (
+        <div key={index} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center p-3 border rounded" data-testid={`draw-rule-${index}`}>
+          <Select value={rule.bankId} onValueChange={(bankId) => updateRule(index, { bankId })}>
+            <SelectTrigger className="md:col-span-2">
+              <SelectValue placeholder="Question bank" />
+            </SelectTrigger>
+            <SelectContent>
+              {banks?.map(bank => (
+                <SelectItem key={bank.id} value={bank.id}>{bank.name} ({bank.questionCount})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={1}
+            value={rule.questionCount}
+            onChange={(e) => updateRule(index, { questionCount: parseInt(e.target.value) || 0 })}
+            data-testid={`input-draw-rule-count-${index}`}
+          />
+          <Select
+            value={rule.skillId ?? ANY}
+            onValueChange={(skillId) => updateRule(index, { skillId: skillId === ANY ? null : skillId })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any skill</SelectItem>
+              {skills?.map(skill => (
+                <SelectItem key={skill.id} value={skill.id}>{skill.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={rule.difficulty ?? ANY}
+            onValueChange={(difficulty) => updateRule(index, { difficulty: difficulty === ANY ? null : difficulty })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any difficulty</SelectItem>
+              {DIFFICULTIES.map(difficulty => (
+                <SelectItem key={difficulty} value={difficulty} className="capitalize">{difficulty}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Select value={rule.stratifyBy} onValueChange={(stratifyBy) => updateRule(index, { stratifyBy })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No stratification</SelectItem>
+                <SelectItem value="skill">Balance by skill</SelectItem>
+                <SelectItem value="difficulty">Balance by difficulty</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant="ghost" onClick={() => setRules(current => current.filter((_, i) => i !== index))}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          {rule.availableCount !== undefined && rule.availableCount < rule.questionCount && (
+            <div className="col-span-2 md:col-span-6 flex items-center text-xs text-red-600">
+              <AlertCircle className="w-3 h-3 mr-1" />
+              Only {rule.availableCount} matching question{rule.availableCount === 1 ? "" : "s"} in this bank; learners can't start the quiz until more are added.
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => {
+            if (rules.some(rule => !rule.bankId || rule.questionCount < 1)) {
+              toast({ title: "Error", description: "Each draw rule needs a bank and at least one question.", variant: "destructive" });
+              return;
+            }
+            saveRulesMutation.mutate();
+          }}
+          disabled={saveRulesMutation.isPending}
+          data-testid="button-save-draw-rules"
+        >
+          {saveRulesMutation.isPending ? (
+            <>
+              <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Save Draw Rules
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatDuration } from "@/components/QuizAttemptTiming";
+import type { QuizAttempt } from "@shared/schema";
+import { History } from "lucide-react";
+
+interface QuizAttemptHistoryItem {
+  attempt: QuizAttempt;
+  learnerName: string;
+  learnerEmail: string | null;
+}
+
+function formatTimestamp(value: Date | string | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function AttemptStatusBadge({ attempt }: { attempt: QuizAttempt }) {
+  if (attempt.closeReason === "voided") return <Badge variant="destructive">Voided</Badge>;
+  if (!attempt.completedAt) return <Badge variant="secondary">In progress</Badge>;
+  if (attempt.gradingStatus === "pending_grading") return <Badge variant="secondary">Awaiting grading</Badge>;
+  return (
+    <Badge variant={attempt.passed ? "default" : "outline"}>
+      {attempt.score ?? 0}% {attempt.passed ? "Passed" : "Failed"}
+    </Badge>
+  );
+}
+
+// Every attempt on a quiz with its deadline and how it closed, so auditors can see time overruns
+export function QuizAttemptHistoryDialog({ quizId, quizTitle }: { quizId: string; quizTitle: string }) {
+  const [open, setOpen] = useState(false);
+  const { data: history, isLoading } = useQuery<QuizAttemptHistoryItem[]>({
+    queryKey: ["/api/lms/admin/quizzes", quizId, "attempts"],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" data-testid={`button-quiz-attempt-history-${quizId}`}>
+          <History className="w-3 h-3 mr-1" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Attempt History - {quizTitle}</DialogTitle>
+          <DialogDescription>Deadlines, autosaves and time overruns for every attempt on this quiz</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : history?.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Learner</TableHead>
+                <TableHead>Attempt</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Deadline</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead>Time spent</TableHead>
+                <TableHead>Overrun</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map(({ attempt, learnerName, learnerEmail }) => (
+                <TableRow key={attempt.id} data-testid={`row-quiz-attempt-${attempt.id}`}>
+                  <TableCell>
+                    <p className="font-medium">{learnerName}</p>
+                    {learnerEmail && <p className="text-xs text-muted-foreground">{learnerEmail}</p>}
+                  </TableCell>
+                  <TableCell>{attempt.attemptNumber}</TableCell>
+                  <TableCell className="text-xs">
+                    {formatTimestamp(attempt.startedAt)}
+                    {attempt.lastSavedAt && <p className="text-muted-foreground">Last saved {formatTimestamp(attempt.lastSavedAt)}</p>}
+                  </TableCell>
+                  <TableCell className="text-xs">{attempt.deadlineAt ? formatTimestamp(attempt.deadlineAt) : "Untimed"}</TableCell>
+                  <TableCell className="text-xs">
+                    {formatTimestamp(attempt.voidedAt ?? attempt.completedAt)}
+                    {attempt.closeReason === "auto_submitted" && <p className="text-muted-foreground">Auto-submitted</p>}
+                    {attempt.lateSubmissionAt && (
+                      <p className="text-muted-foreground">Late submission refused {formatTimestamp(attempt.lateSubmissionAt)}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">{attempt.timeSpent != null ? formatDuration(attempt.timeSpent) : "—"}</TableCell>
+                  <TableCell className="text-xs">
+                    {attempt.overrunSeconds ? (
+                      <span className="text-red-600">+{formatDuration(attempt.overrunSeconds)}</span>
+                    ) : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <AttemptStatusBadge attempt={attempt} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No attempts yet.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
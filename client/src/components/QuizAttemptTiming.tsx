@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Clock } from "lucide-react";
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+// A 409 means the server closed the attempt; returns its explanation
+export function getClosedAttemptMessage(error: unknown): string | null {
+  if (!(error instanceof Error) || !error.message.startsWith("409")) return null;
+  return getApiErrorMessage(error, "This quiz attempt has already been closed");
+}
+
+// Learner-facing note for attempts the deadline closed, for attempt history and retake prompts
+export function describeAttemptClosure(attempt: { closeReason?: string | null; overrunSeconds?: number | null } | null | undefined): string | null {
+  if (!attempt?.closeReason) return null;
+  const overrun = attempt.overrunSeconds ? ` (${formatDuration(attempt.overrunSeconds)} over)` : "";
+  return attempt.closeReason === "voided"
+    ? `Time ran out - attempt voided${overrun}`
+    : `Time ran out - saved answers auto-submitted${overrun}`;
+}
+
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes.toString().padStart(hours ? 2 : 1, "0")}:${seconds.toString().padStart(2, "0")}`;
+  return hours ? `${hours}:${mmss}` : mmss;
+}
+
+// Counts down to a deadline taken from the server's secondsRemaining, so a wrong device clock doesn't matter
+export function QuizCountdown({ deadline, onExpire }: { deadline: number; onExpire: () => void }) {
+  const [now, setNow] = useState(() => Date.now());
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+  const expiredRef = useRef(false);
+
+  useEffect(() => {
+    expiredRef.current = false;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  const secondsLeft = Math.max(0, Math.ceil((deadline - now) / 1000));
+  useEffect(() => {
+    if (secondsLeft === 0 && !expiredRef.current) {
+      expiredRef.current = true;
+      onExpireRef.current();
+    }
+  }, [secondsLeft]);
+
+  return (
+    <Badge variant={secondsLeft <= 60 ? "destructive" : "outline"} data-testid="badge-quiz-countdown">
+      <Clock className="w-3 h-3 mr-1" />
+      {formatDuration(secondsLeft)} left
+    </Badge>
+  );
+}
+
+// Debounced autosave of in-progress answers. onClosed fires when the server reports the attempt closed.
+export function useQuizAutosave(
+  attemptId: string | null | undefined,
+  answers: Record<string, unknown>,
+  enabled: boolean,
+  onClosed: (message: string) => void,
+) {
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const onClosedRef = useRef(onClosed);
+  onClosedRef.current = onClosed;
+  const skipNextRef = useRef(true);
+
+  // Answers restored on resume are already saved
+  useEffect(() => {
+    skipNextRef.current = true;
+    setLastSavedAt(null);
+  }, [attemptId]);
+
+  useEffect(() => {
+    if (!enabled || !attemptId) return;
+    if (skipNextRef.current) {
+      skipNextRef.current = false;
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        await apiRequest("PUT", `/api/lms/quiz-attempts/${attemptId}/answers`, { answers });
+        setLastSavedAt(new Date());
+      } catch (error) {
+        const closedMessage = getClosedAttemptMessage(error);
+        if (closedMessage) {
+          onClosedRef.current(closedMessage);
+        } else {
+          console.error("Failed to autosave quiz answers:", error);
+        }
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [attemptId, answers, enabled]);
+
+  return { lastSavedAt };
+}
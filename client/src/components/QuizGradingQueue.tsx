@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AttemptQuestion, AttemptQuestionResult, EssayOptions, QuizAttempt } from "@shared/schema";
+import { CheckCircle, ClipboardCheck, RefreshCw } from "lucide-react";
+
+interface GradingQueueItem {
+  attempt: QuizAttempt;
+  quizTitle: string;
+  lessonId: string;
+  learnerName: string;
+  learnerEmail: string | null;
+}
+
+type EssayGrades = Record<string, { score: string; feedback: string }>;
+
+const queueQueryKey = ["/api/lms/grading-queue"];
+
+// Submitted attempts with essay answers; finalizing a grade settles the score and notifies the learner
+export function QuizGradingQueue() {
+  const { data: queue, isLoading } = useQuery<GradingQueueItem[]>({ queryKey: queueQueryKey });
+
+  return (
+    <Card data-testid="card-grading-queue">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ClipboardCheck className="w-5 h-5 mr-2" />
+          Grading Queue
+          {!!queue?.length && <Badge className="ml-2">{queue.length}</Badge>}
+        </CardTitle>
+        <CardDescription>Quiz attempts with written answers waiting for a grade</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : queue?.length ? (
+          queue.map(item => <GradingQueueEntry key={item.attempt.id} item={item} />)
+        ) : (
+          <p className="text-sm text-muted-foreground" data-testid="text-grading-queue-empty">
+            Nothing to grade right now.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function GradingQueueEntry({ item }: { item: GradingQueueItem }) {
+  const { toast } = useToast();
+  const { attempt } = item;
+  const questionSet = (attempt.questionSet ?? []) as AttemptQuestion[];
+  const results = (attempt.questionResults ?? []) as AttemptQuestionResult[];
+  const answers = (attempt.answers ?? {}) as Record<string, unknown>;
+  const essays = questionSet.filter(question =>
+    results.find(result => result.questionId === question.id)?.needsManualGrading
+  );
+  const autoGraded = results.filter(result => !result.needsManualGrading);
+  const autoCorrect = autoGraded.filter(result => result.isCorrect).length;
+
+  const [grades, setGrades] = useState<EssayGrades>({});
+  const updateGrade = (questionId: string, updates: Partial<EssayGrades[string]>) => {
+    setGrades(current => ({
+      ...current,
+      [questionId]: { ...(current[questionId] ?? { score: "", feedback: "" }), ...updates },
+    }));
+  };
+
+  const isComplete = essays.every(question => {
+    const score = Number(grades[question.id]?.score);
+    return grades[question.id]?.score !== "" && grades[question.id]?.score !== undefined && score >= 0 && score <= 100;
+  });
+
+  const gradeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/lms/grading-queue/${attempt.id}/grade`, {
+        grades: essays.map(question => ({
+          questionId: question.id,
+          score: Number(grades[question.id].score),
+          feedback: grades[question.id].feedback.trim() || null,
+        })),
+      });
+      return await response.json();
+    },
+    onSuccess: (graded: QuizAttempt) => {
+      queryClient.invalidateQueries({ queryKey: queueQueryKey });
+      toast({
+        title: "Attempt graded",
+        description: `${item.learnerName} scored ${graded.score}% ${graded.passed ? "✅ Passed" : "❌ Failed"}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Grading failed", description: error.message || "Please try again.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4" data-testid={`grading-queue-item-${attempt.id}`}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="font-semibold">{item.learnerName}</p>
+          <p className="text-sm text-muted-foreground">
+            {item.quizTitle} · Attempt {attempt.attemptNumber}
+            {attempt.completedAt && ` · Submitted ${new Date(attempt.completedAt).toLocaleString()}`}
+          </p>
+        </div>
+        <Badge variant="outline">
+          Auto-graded: {autoCorrect}/{autoGraded.length} correct
+        </Badge>
+      </div>
+
+      {essays.map((question, index) => {
+        const rubric = (question.options as EssayOptions | null)?.rubric;
+        return (
+          <div key={question.id} className="space-y-2 border-t pt-3">
+            <p className="text-sm font-medium">
+              Essay {index + 1}: {question.questionText}
+            </p>
+            {rubric && <p className="text-xs text-muted-foreground">Rubric: {rubric}</p>}
+            <div className="p-3 rounded bg-muted/50 text-sm whitespace-pre-wrap" data-testid={`text-essay-answer-${question.id}`}>
+              {String(answers[question.id] ?? "") || <span className="text-muted-foreground">No answer given</span>}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+              <div>
+                <label className="text-xs font-medium">Score (0-100)</label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={grades[question.id]?.score ?? ""}
+                  onChange={(e) => updateGrade(question.id, { score: e.target.value })}
+                  data-testid={`input-essay-score-${question.id}`}
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label className="text-xs font-medium">Feedback for the learner</label>
+                <Textarea
+                  rows={2}
+                  value={grades[question.id]?.feedback ?? ""}
+                  onChange={(e) => updateGrade(question.id, { feedback: e.target.value })}
+                  data-testid={`textarea-essay-feedback-${question.id}`}
+                />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => gradeMutation.mutate()}
+          disabled={!isComplete || gradeMutation.isPending}
+          data-testid={`button-finalize-grade-${attempt.id}`}
+        >
+          {gradeMutation.isPending ? (
+            <>
+              <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Finalize Grade
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,409 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { EssayOptions, MatchingOptions, NumericAnswerKey, ShortAnswerKey } from "@shared/schema";
+import { ArrowDown, ArrowUp, GripVertical, Plus, Trash2 } from "lucide-react";
+
+// Shared by the quiz builder, question banks and the quiz player
+
+export const QUESTION_TYPE_LABELS: Record<string, string> = {
+  multiple_choice: "Multiple Choice",
+  true_false: "True/False",
+  multi_select: "Multi-Select",
+  short_answer: "Short Answer",
+  numeric: "Numeric",
+  ordering: "Ordering",
+  matching: "Matching",
+  essay: "Essay (graded manually)",
+};
+
+export const CHOICE_QUESTION_TYPES = ["multiple_choice", "true_false", "multi_select"];
+
+export function isChoiceQuestionType(type: string): boolean {
+  return CHOICE_QUESTION_TYPES.includes(type);
+}
+
+// Blank options and answer key for a newly selected question type
+export function getDefaultAnswerFields(type: string): { options: any; correctAnswers: any } {
+  switch (type) {
+    case "true_false":
+      return { options: [], correctAnswers: [] };
+    case "short_answer":
+      return { options: [], correctAnswers: { acceptedAnswers: [""], caseSensitive: false } };
+    case "numeric":
+      return { options: [], correctAnswers: { value: 0, tolerance: 0, toleranceType: "absolute" } };
+    case "ordering":
+      return { options: ["", ""], correctAnswers: [0, 1] };
+    case "matching":
+      return { options: { left: ["", ""], right: ["", ""] }, correctAnswers: [0, 1] };
+    case "essay":
+      return { options: { rubric: "" }, correctAnswers: null };
+    default:
+      return { options: ["", ""], correctAnswers: [] };
+  }
+}
+
+// Whether the learner has given an answer the quiz player can move on from
+export function isQuizAnswerComplete(question: { type: string; options?: any }, answer: any): boolean {
+  if (answer === undefined || answer === null) return false;
+  switch (question.type) {
+    case "multi_select":
+      return Array.isArray(answer) && answer.length > 0;
+    case "short_answer":
+    case "numeric":
+    case "essay":
+      return String(answer).trim().length > 0;
+    case "matching":
+      return Array.isArray(answer) &&
+        answer.length === (question.options as MatchingOptions)?.left?.length &&
+        answer.every((index: number) => index >= 0);
+    default:
+      return true;
+  }
+}
+
+interface QuizAnswerInputProps {
+  question: { id: string; type: string; options?: any };
+  answer: any;
+  onChange: (answer: any) => void;
+  questionIndex: number;
+}
+
+// Answer controls for the non-choice question types
+export function QuizAnswerInput({ question, answer, onChange, questionIndex }: QuizAnswerInputProps) {
+  switch (question.type) {
+    case "short_answer":
+      return (
+        <div className="max-w-2xl mx-auto">
+          <Input
+            value={answer ?? ""}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Type your answer"
+            className="text-base"
+            data-testid={`input-question-${questionIndex}-short-answer`}
+          />
+        </div>
+      );
+    case "numeric":
+      return (
+        <div className="max-w-xs mx-auto">
+          <Input
+            type="number"
+            step="any"
+            value={answer ?? ""}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Enter a number"
+            className="text-base text-center"
+            data-testid={`input-question-${questionIndex}-numeric`}
+          />
+        </div>
+      );
+    case "ordering":
+      return <OrderingInput items={question.options ?? []} answer={answer} onChange={onChange} questionIndex={questionIndex} />;
+    case "matching":
+      return <MatchingInput options={question.options} answer={answer} onChange={onChange} questionIndex={questionIndex} />;
+    case "essay": {
+      const essayOptions = (question.options ?? {}) as EssayOptions;
+      const wordCount = String(answer ?? "").trim().split(/\s+/).filter(Boolean).length;
+      return (
+        <div className="max-w-2xl mx-auto space-y-2">
+          <Textarea
+            value={answer ?? ""}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Write your answer"
+            rows={8}
+            data-testid={`textarea-question-${questionIndex}-essay`}
+          />
+          <p className="text-xs text-muted-foreground">
+            {wordCount} word{wordCount === 1 ? "" : "s"}
+            {essayOptions.minWords ? ` (at least ${essayOptions.minWords} expected)` : ""}. This answer is graded by a supervisor.
+          </p>
+        </div>
+      );
+    }
+    default:
+      return null;
+  }
+}
+
+function OrderingInput({ items, answer, onChange, questionIndex }: {
+  items: string[];
+  answer: number[] | undefined;
+  onChange: (answer: number[]) => void;
+  questionIndex: number;
+}) {
+  const order: number[] = Array.isArray(answer) ? answer : items.map((_, i) => i);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // The displayed order is itself an answer, so record it as soon as the question is shown
+  useEffect(() => {
+    if (!Array.isArray(answer)) onChange(order);
+  }, [answer]);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= order.length || from === to) return;
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2 max-w-2xl mx-auto">
+      <p className="text-sm text-muted-foreground text-center mb-4">Drag the items into the correct order</p>
+      {order.map((itemIndex, position) => (
+        <div
+          key={itemIndex}
+          draggable
+          onDragStart={() => setDragIndex(position)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => {
+            if (dragIndex !== null) move(dragIndex, position);
+            setDragIndex(null);
+          }}
+          className={`flex items-center gap-3 p-3 border-2 rounded-lg bg-background cursor-move ${
+            dragIndex === position ? "border-primary opacity-60" : "border-border"
+          }`}
+          data-testid={`ordering-item-${questionIndex}-${position}`}
+        >
+          <GripVertical className="w-4 h-4 text-muted-foreground" />
+          <span className="w-6 text-sm font-semibold text-muted-foreground">{position + 1}.</span>
+          <span className="flex-1">{items[itemIndex]}</span>
+          <Button size="sm" variant="ghost" onClick={() => move(position, position - 1)} disabled={position === 0}>
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => move(position, position + 1)} disabled={position === order.length - 1}>
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function MatchingInput({ options, answer, onChange, questionIndex }: {
+  options: MatchingOptions | undefined;
+  answer: number[] | undefined;
+  onChange: (answer: number[]) => void;
+  questionIndex: number;
+}) {
+  const left = options?.left ?? [];
+  const right = options?.right ?? [];
+  const selected: number[] = Array.isArray(answer) ? answer : left.map(() => -1);
+
+  return (
+    <div className="space-y-3 max-w-2xl mx-auto">
+      {left.map((prompt, promptIndex) => (
+        <div key={promptIndex} className="grid grid-cols-2 gap-3 items-center">
+          <div className="p-3 border rounded-lg bg-muted/40">{prompt}</div>
+          <Select
+            value={selected[promptIndex] >= 0 ? String(selected[promptIndex]) : undefined}
+            onValueChange={(value) => onChange(selected.map((current, i) => i === promptIndex ? Number(value) : current))}
+          >
+            <SelectTrigger data-testid={`select-matching-${questionIndex}-${promptIndex}`}>
+              <SelectValue placeholder="Choose a match" />
+            </SelectTrigger>
+            <SelectContent>
+              {right.map((choice, choiceIndex) => (
+                <SelectItem key={choiceIndex} value={String(choiceIndex)}>{choice}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface AnswerKeyEditorProps {
+  type: string;
+  options: any;
+  correctAnswers: any;
+  onChange: (updates: { options?: any; correctAnswers?: any }) => void;
+}
+
+// Authoring controls for the non-choice question types
+export function AnswerKeyEditor({ type, options, correctAnswers, onChange }: AnswerKeyEditorProps) {
+  switch (type) {
+    case "short_answer": {
+      const key: ShortAnswerKey = correctAnswers?.acceptedAnswers ? correctAnswers : { acceptedAnswers: [""] };
+      const setAccepted = (acceptedAnswers: string[]) => onChange({ correctAnswers: { ...key, acceptedAnswers } });
+      return (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Accepted Answers</label>
+          <p className="text-xs text-muted-foreground">
+            Use * as a wildcard (e.g. "lock*out*"), or /pattern/ for a regular expression. Spacing is ignored.
+          </p>
+          {key.acceptedAnswers.map((pattern, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <Input
+                value={pattern}
+                onChange={(e) => setAccepted(key.acceptedAnswers.map((value, i) => i === index ? e.target.value : value))}
+                placeholder={`Accepted answer ${index + 1}`}
+                className="flex-1"
+              />
+              {key.acceptedAnswers.length > 1 && (
+                <Button size="sm" variant="destructive" onClick={() => setAccepted(key.acceptedAnswers.filter((_, i) => i !== index))}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <Button size="sm" variant="outline" onClick={() => setAccepted([...key.acceptedAnswers, ""])}>
+              <Plus className="w-3 h-3 mr-1" />
+              Add Accepted Answer
+            </Button>
+            <label className="flex items-center gap-2 text-sm">
+              <Switch
+                checked={!!key.caseSensitive}
+                onCheckedChange={(caseSensitive) => onChange({ correctAnswers: { ...key, caseSensitive } })}
+              />
+              Case sensitive
+            </label>
+          </div>
+        </div>
+      );
+    }
+    case "numeric": {
+      const key: NumericAnswerKey = correctAnswers ?? { value: 0, tolerance: 0, toleranceType: "absolute" };
+      return (
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className="text-sm font-medium">Correct Value</label>
+            <Input
+              type="number"
+              step="any"
+              value={key.value}
+              onChange={(e) => onChange({ correctAnswers: { ...key, value: parseFloat(e.target.value) || 0 } })}
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium">Tolerance (±)</label>
+            <Input
+              type="number"
+              step="any"
+              min={0}
+              value={key.tolerance}
+              onChange={(e) => onChange({ correctAnswers: { ...key, tolerance: Math.max(0, parseFloat(e.target.value) || 0) } })}
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium">Tolerance Type</label>
+            <Select
+              value={key.toleranceType ?? "absolute"}
+              onValueChange={(toleranceType) => onChange({ correctAnswers: { ...key, toleranceType } })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="absolute">Absolute</SelectItem>
+                <SelectItem value="percent">Percent</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      );
+    }
+    case "ordering": {
+      // Items are authored in the correct order and shuffled for each attempt
+      const items: string[] = Array.isArray(options) ? options : [];
+      const setItems = (next: string[]) => onChange({ options: next, correctAnswers: next.map((_, i) => i) });
+      return (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Items in the Correct Order</label>
+          {items.map((item, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+              <Input
+                value={item}
+                onChange={(e) => setItems(items.map((value, i) => i === index ? e.target.value : value))}
+                placeholder={`Step ${index + 1}`}
+                className="flex-1"
+              />
+              {items.length > 2 && (
+                <Button size="sm" variant="destructive" onClick={() => setItems(items.filter((_, i) => i !== index))}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+          <Button size="sm" variant="outline" onClick={() => setItems([...items, ""])}>
+            <Plus className="w-3 h-3 mr-1" />
+            Add Item
+          </Button>
+        </div>
+      );
+    }
+    case "matching": {
+      // Pairs are authored side by side; the right-hand column is shuffled for each attempt
+      const pairs: MatchingOptions = options?.left ? options : { left: ["", ""], right: ["", ""] };
+      const setPairs = (next: MatchingOptions) => onChange({ options: next, correctAnswers: next.left.map((_, i) => i) });
+      return (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Matching Pairs</label>
+          {pairs.left.map((prompt, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <Input
+                value={prompt}
+                onChange={(e) => setPairs({ ...pairs, left: pairs.left.map((value, i) => i === index ? e.target.value : value) })}
+                placeholder={`Prompt ${index + 1}`}
+              />
+              <span className="text-muted-foreground">→</span>
+              <Input
+                value={pairs.right[index] ?? ""}
+                onChange={(e) => setPairs({ ...pairs, right: pairs.right.map((value, i) => i === index ? e.target.value : value) })}
+                placeholder={`Match ${index + 1}`}
+              />
+              {pairs.left.length > 2 && (
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => setPairs({
+                    left: pairs.left.filter((_, i) => i !== index),
+                    right: pairs.right.filter((_, i) => i !== index),
+                  })}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+          <Button size="sm" variant="outline" onClick={() => setPairs({ left: [...pairs.left, ""], right: [...pairs.right, ""] })}>
+            <Plus className="w-3 h-3 mr-1" />
+            Add Pair
+          </Button>
+        </div>
+      );
+    }
+    case "essay": {
+      const essayOptions: EssayOptions = options && !Array.isArray(options) ? options : {};
+      return (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Grading Rubric</label>
+          <Textarea
+            value={essayOptions.rubric ?? ""}
+            onChange={(e) => onChange({ options: { ...essayOptions, rubric: e.target.value } })}
+            placeholder="What a supervisor should look for when grading this answer"
+          />
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium">Minimum Words</label>
+            <Input
+              type="number"
+              min={0}
+              className="w-28"
+              value={essayOptions.minWords ?? ""}
+              onChange={(e) => onChange({ options: { ...essayOptions, minWords: parseInt(e.target.value) || undefined } })}
+            />
+          </div>
+        </div>
+      );
+    }
+    default:
+      return null;
+  }
+}
@@ -18,6 +18,7 @@ import {
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtimeEvent, getRealtimePollInterval } from "@/hooks/useRealtime";
 
 interface RealTimeOptimizationProps {
   enrollmentId: string;
@@ -28,11 +29,18 @@ export default function RealTimeOptimization({ enrollmentId, onOptimizationUpdat
   const { toast } = useToast();
   const [isOptimizing, setIsOptimizing] = useState(false);
 
+  // Completing the enrollment is pushed over the socket
+  const realtimeStatus = useRealtimeEvent<{ enrollmentId: string }>("enrollment.completed", (data) => {
+    if (data?.enrollmentId === enrollmentId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/learning-paths/optimization-status/${enrollmentId}`] });
+    }
+  });
+
   // Query for current optimization status
   const { data: optimizationStatus, isLoading } = useQuery({
     queryKey: [`/api/learning-paths/optimization-status/${enrollmentId}`],
     enabled: !!enrollmentId,
-    refetchInterval: 30000, // Refresh every 30 seconds for real-time updates
+    refetchInterval: getRealtimePollInterval(realtimeStatus, 30000), // Every 30 seconds while the socket is down
   });
 
   // Mutation for triggering optimization
@@ -1,4 +1,6 @@
+import { useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -13,9 +15,14 @@ import {
   Calendar,
   AlertCircle
 } from "lucide-react";
+import ScheduledReports from "./ScheduledReports";
 
 export default function Reports() {
   const { user } = useAuth();
+  const { can } = usePermissions();
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
+  // Report emails link here with ?run=<id> so the file can be fetched after signing in
+  const emailedRunId = new URLSearchParams(window.location.search).get("run");
 
   // Fetch real company metrics
   const { data: companyMetrics, isLoading: metricsLoading } = useQuery({
@@ -77,13 +84,33 @@ export default function Reports() {
             <Download className="w-4 h-4 mr-2" />
             Export Report
           </Button>
-          <Button variant="outline" size="sm" data-testid="button-schedule-report">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setScheduleDialogOpen(true)}
+            disabled={!can("report.export")}
+            data-testid="button-schedule-report"
+          >
             <Calendar className="w-4 h-4 mr-2" />
             Schedule Report
           </Button>
         </div>
       </div>
 
+      {emailedRunId && can("report.export") && (
+        <Card>
+          <CardContent className="p-4 flex items-center justify-between">
+            <p className="text-sm">The report from your email is ready to download.</p>
+            <Button size="sm" asChild>
+              <a href={`/api/reports/runs/${encodeURIComponent(emailedRunId)}/download`} data-testid="button-download-emailed-report">
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </a>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Company Overview Metrics */}
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
         <Card>
@@ -171,6 +198,10 @@ export default function Reports() {
         </Card>
       </div>
 
+      {can("report.export") && (
+        <ScheduledReports createOpen={scheduleDialogOpen} onCreateOpenChange={setScheduleDialogOpen} />
+      )}
+
       {/* Department Breakdown - Future Enhancement */}
       <Card>
         <CardHeader>
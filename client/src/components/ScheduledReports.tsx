@@ -0,0 +1,530 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarClock, Plus, Edit, Trash2, Play, History, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import type { AnalyticsReport, AnalyticsReportRun, ReportFormat, ReportSchedule, ScheduledReportFilters } from "@shared/schema";
+
+interface ScheduledReport extends AnalyticsReport {
+  lastRun: AnalyticsReportRun | null;
+}
+
+interface ReportDatasets {
+  datasets: Array<{ id: string; label: string; filters: string[] }>;
+  emailAvailable: boolean;
+}
+
+const CRON_PRESETS = [
+  { label: "Every weekday at 08:00", cron: "0 8 * * 1-5" },
+  { label: "Every Monday at 08:00", cron: "0 8 * * 1" },
+  { label: "Daily at 07:00", cron: "0 7 * * *" },
+  { label: "1st of the month at 08:00", cron: "0 8 1 * *" },
+];
+
+const FORMAT_LABELS: Record<ReportFormat, string> = { csv: "CSV", xlsx: "Excel (XLSX)", pdf: "PDF" };
+const COMPLIANCE_STATUSES = ["not_started", "in_progress", "competent", "expired", "non_compliant"];
+const BASE_ROLES = ["operative", "supervisor", "leadership"];
+const ALL = "all";
+
+const emptyForm = {
+  title: "",
+  description: "",
+  reportType: "team_performance",
+  filters: {} as ScheduledReportFilters,
+  isScheduled: true,
+  cron: "0 8 * * 1",
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+  format: "xlsx" as ReportFormat,
+  recipients: "",
+  retentionDays: 90,
+};
+
+function label(value: string): string {
+  return value.replace(/_/g, " ").replace(/^\w/, (char) => char.toUpperCase());
+}
+
+function formatBytes(bytes: number | null): string {
+  if (!bytes) return "-";
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function RunStatusBadge({ run }: { run: AnalyticsReportRun }) {
+  if (run.status === "succeeded") {
+    return <Badge variant={run.error ? "secondary" : "default"}>{run.error ? "Generated, not all emailed" : "Succeeded"}</Badge>;
+  }
+  return <Badge variant={run.status === "failed" ? "destructive" : "outline"}>{label(run.status)}</Badge>;
+}
+
+function ReportEditor({
+  report,
+  open,
+  onOpenChange,
+}: {
+  report: ScheduledReport | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: datasets } = useQuery<ReportDatasets>({ queryKey: ['/api/reports/datasets'], enabled: open });
+  const { data: teams = [] } = useQuery<Array<{ id: string; name: string }>>({ queryKey: ['/api/teams'], enabled: open });
+  const datasetFilters = datasets?.datasets.find(dataset => dataset.id === form.reportType)?.filters ?? [];
+
+  useEffect(() => {
+    if (!open) return;
+    const schedule = report?.schedule as ReportSchedule | null;
+    setForm(report && schedule ? {
+      title: report.title,
+      description: report.description ?? "",
+      reportType: report.reportType,
+      filters: (report.filters ?? {}) as ScheduledReportFilters,
+      isScheduled: report.isScheduled ?? true,
+      cron: schedule.cron,
+      timezone: schedule.timezone,
+      format: schedule.format,
+      recipients: schedule.recipients.join("\n"),
+      retentionDays: schedule.retentionDays,
+    } : emptyForm);
+  }, [open, report]);
+
+  const setFilter = (key: keyof ScheduledReportFilters, value: string) => {
+    setForm(current => ({ ...current, filters: { ...current.filters, [key]: value === ALL ? undefined : value } }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      // Filters the chosen dataset doesn't use are dropped so they aren't snapshotted into every run
+      const filters = Object.fromEntries(Object.entries(form.filters).filter(([key, value]) => value && datasetFilters.includes(key)));
+      const body = {
+        title: form.title,
+        description: form.description || null,
+        reportType: form.reportType,
+        filters,
+        isScheduled: form.isScheduled,
+        schedule: {
+          cron: form.cron,
+          timezone: form.timezone,
+          format: form.format,
+          recipients: form.recipients.split(/[\s,;]+/).filter(Boolean),
+          retentionDays: form.retentionDays,
+        },
+      };
+      return report
+        ? apiRequest("PATCH", `/api/reports/scheduled/${report.id}`, body)
+        : apiRequest("POST", "/api/reports/scheduled", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/scheduled'] });
+      toast({ title: "Success", description: report ? "Scheduled report updated" : "Scheduled report created" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to save scheduled report"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{report ? "Edit Scheduled Report" : "Schedule Report"}</DialogTitle>
+          <DialogDescription>
+            The report is generated on the schedule below, kept for download under Run history and emailed to the recipients.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="report-title">Title</Label>
+              <Input
+                id="report-title"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                placeholder="Weekly team performance"
+                data-testid="input-report-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Report</Label>
+              <Select value={form.reportType} onValueChange={(value) => setForm({ ...form, reportType: value })}>
+                <SelectTrigger data-testid="select-report-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(datasets?.datasets ?? []).map(dataset => (
+                    <SelectItem key={dataset.id} value={dataset.id}>{dataset.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-description">Description</Label>
+            <Input
+              id="report-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Optional"
+            />
+          </div>
+
+          {datasetFilters.length > 0 && (
+            <div className="grid grid-cols-3 gap-4">
+              {datasetFilters.includes("teamId") && (
+                <div className="space-y-2">
+                  <Label>Team</Label>
+                  <Select value={form.filters.teamId ?? ALL} onValueChange={(value) => setFilter("teamId", value)}>
+                    <SelectTrigger data-testid="select-report-team">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All teams</SelectItem>
+                      {teams.map(team => (
+                        <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {datasetFilters.includes("role") && (
+                <div className="space-y-2">
+                  <Label>Role</Label>
+                  <Select value={form.filters.role ?? ALL} onValueChange={(value) => setFilter("role", value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All roles</SelectItem>
+                      {BASE_ROLES.map(role => (
+                        <SelectItem key={role} value={role}>{label(role)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {datasetFilters.includes("status") && (
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select value={form.filters.status ?? ALL} onValueChange={(value) => setFilter("status", value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All statuses</SelectItem>
+                      {COMPLIANCE_STATUSES.map(status => (
+                        <SelectItem key={status} value={status}>{label(status)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="report-cron">Schedule (cron)</Label>
+              <Input
+                id="report-cron"
+                value={form.cron}
+                onChange={(e) => setForm({ ...form, cron: e.target.value })}
+                className="font-mono"
+                data-testid="input-report-cron"
+              />
+              <div className="flex flex-wrap gap-1">
+                {CRON_PRESETS.map(preset => (
+                  <Button
+                    key={preset.cron}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-6 text-xs"
+                    onClick={() => setForm({ ...form, cron: preset.cron })}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Minute, hour, day of month, month, day of week.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-timezone">Timezone</Label>
+              <Input
+                id="report-timezone"
+                value={form.timezone}
+                onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                placeholder="Europe/London"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={form.format} onValueChange={(value) => setForm({ ...form, format: value as ReportFormat })}>
+                <SelectTrigger data-testid="select-report-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FORMAT_LABELS) as ReportFormat[]).map(value => (
+                    <SelectItem key={value} value={value}>{FORMAT_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-retention">Keep files for (days)</Label>
+              <Input
+                id="report-retention"
+                type="number"
+                min={1}
+                max={3650}
+                value={form.retentionDays}
+                onChange={(e) => setForm({ ...form, retentionDays: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-recipients">Recipients</Label>
+            <Textarea
+              id="report-recipients"
+              value={form.recipients}
+              onChange={(e) => setForm({ ...form, recipients: e.target.value })}
+              placeholder="One email address per line"
+              rows={3}
+              data-testid="input-report-recipients"
+            />
+            {datasets && !datasets.emailAvailable && (
+              <p className="text-xs text-amber-600">Email is not configured on this server; runs will be stored but not sent.</p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label>Schedule active</Label>
+              <p className="text-xs text-muted-foreground">When paused the report only runs when you click Run now.</p>
+            </div>
+            <Switch checked={form.isScheduled} onCheckedChange={(checked) => setForm({ ...form, isScheduled: checked })} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !form.title.trim()}
+            data-testid="button-save-scheduled-report"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RunHistory({ report, onOpenChange }: { report: ScheduledReport | null; onOpenChange: (open: boolean) => void }) {
+  const { data: runs = [], isLoading } = useQuery<AnalyticsReportRun[]>({
+    queryKey: ['/api/reports/scheduled', report?.id, 'runs'],
+    enabled: !!report,
+  });
+
+  return (
+    <Dialog open={!!report} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Run history: {report?.title}</DialogTitle>
+          <DialogDescription>
+            Each run keeps the filters it was generated with. Files are deleted after the retention period.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading runs...</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This report hasn't run yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {runs.map(run => (
+              <div key={run.id} className="flex items-start justify-between gap-4 rounded-lg border p-3" data-testid={`report-run-${run.id}`}>
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{format(new Date(run.startedAt), "PPp")}</span>
+                    <RunStatusBadge run={run} />
+                    <Badge variant="outline">{run.trigger === "manual" ? "Run by hand" : "Scheduled"}</Badge>
+                  </div>
+                  <p className="text-muted-foreground">
+                    {run.format.toUpperCase()} · {run.rowCount ?? 0} rows · {formatBytes(run.sizeBytes)} · emailed to {run.emailedCount} of {(run.recipients as string[]).length}
+                  </p>
+                  {Object.keys(run.filters as ScheduledReportFilters).length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Filters: {Object.entries(run.filters as ScheduledReportFilters).map(([key, value]) => `${key} = ${value}`).join(", ")}
+                    </p>
+                  )}
+                  {run.error && <p className="text-xs text-red-600">{run.error}</p>}
+                </div>
+                {run.artifactPath ? (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/reports/runs/${run.id}/download`} data-testid={`button-download-run-${run.id}`}>
+                      <Download className="w-4 h-4 mr-1" />
+                      Download
+                    </a>
+                  </Button>
+                ) : run.artifactDeletedAt ? (
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">File deleted</span>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Reports that are generated on a cron schedule and emailed as CSV, XLSX or PDF, with their run history
+export default function ScheduledReports({
+  createOpen,
+  onCreateOpenChange,
+}: {
+  createOpen: boolean;
+  onCreateOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<ScheduledReport | null>(null);
+  const [historyFor, setHistoryFor] = useState<ScheduledReport | null>(null);
+
+  const { data: reports = [], isLoading } = useQuery<ScheduledReport[]>({ queryKey: ['/api/reports/scheduled'] });
+
+  const runMutation = useMutation({
+    mutationFn: async (report: ScheduledReport) => {
+      const response = await apiRequest("POST", `/api/reports/scheduled/${report.id}/run`);
+      return response.json() as Promise<AnalyticsReportRun>;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/scheduled'] });
+      if (run.status === "failed") {
+        toast({ title: "Report failed", description: run.error || "The report could not be generated", variant: "destructive" });
+      } else {
+        toast({ title: "Report generated", description: `${run.rowCount ?? 0} rows; it's ready under Run history` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to run report"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (reportId: string) => apiRequest("DELETE", `/api/reports/scheduled/${reportId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/scheduled'] });
+      toast({ title: "Success", description: "Scheduled report deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to delete scheduled report"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Scheduled Reports
+          </CardTitle>
+          <CardDescription>Generated automatically and emailed to the recipients you choose</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => onCreateOpenChange(true)} data-testid="button-new-scheduled-report">
+          <Plus className="w-4 h-4 mr-2" />
+          New schedule
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading scheduled reports...</p>
+        ) : reports.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No reports are scheduled yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {reports.map(report => {
+              const schedule = report.schedule as ReportSchedule;
+              return (
+                <div key={report.id} className="flex items-center justify-between gap-4 rounded-lg border p-3" data-testid={`scheduled-report-${report.id}`}>
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{report.title}</span>
+                      <Badge variant="outline">{schedule.format.toUpperCase()}</Badge>
+                      {!report.isScheduled && <Badge variant="secondary">Paused</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      <span className="font-mono">{schedule.cron}</span> ({schedule.timezone}) · {schedule.recipients.length} recipient(s) · files kept {schedule.retentionDays} days
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {report.isScheduled && report.nextRunAt ? `Next run ${format(new Date(report.nextRunAt), "PPp")}` : "Not scheduled"}
+                      {report.lastRun && (
+                        <> · Last run {format(new Date(report.lastRun.startedAt), "PPp")} ({label(report.lastRun.status)})</>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runMutation.mutate(report)}
+                      disabled={runMutation.isPending}
+                      data-testid={`button-run-report-${report.id}`}
+                    >
+                      <Play className="w-4 h-4 mr-1" />
+                      Run now
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setHistoryFor(report)} data-testid={`button-report-history-${report.id}`}>
+                      <History className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(report)} data-testid={`button-edit-report-${report.id}`}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        if (confirm(`Delete "${report.title}" and all of its stored files?`)) deleteMutation.mutate(report.id);
+                      }}
+                      data-testid={`button-delete-report-${report.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <ReportEditor
+        report={editing}
+        open={createOpen || !!editing}
+        onOpenChange={(open) => {
+          if (open) return;
+          setEditing(null);
+          onCreateOpenChange(false);
+        }}
+      />
+      <RunHistory report={historyFor} onOpenChange={(open) => { if (!open) setHistoryFor(null); }} />
+    </Card>
+  );
+}
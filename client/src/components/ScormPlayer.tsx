@@ -0,0 +1,242 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { createScormRuntime, getScormApiName, type ScormVersion } from "@/lib/scormRuntime";
+import { AlertCircle, CheckCircle, Maximize2, Package, Upload } from "lucide-react";
+
+interface ScormRuntimeState {
+  packageId: string;
+  title: string;
+  scormVersion: ScormVersion;
+  learner: { id: string; name: string };
+  lessonStatus: string;
+  scos: Array<{
+    identifier: string;
+    title: string;
+    href: string;
+    masteryScore: number | null;
+    launchUrl: string;
+    entry: string;
+    cmi: Record<string, string>;
+  }>;
+}
+
+interface ScormPlayerProps {
+  enrollmentId: string;
+  lessonId: string;
+  courseId?: string;
+}
+
+// Hosts an imported SCORM package in a same-origin iframe and exposes the runtime API on window
+export function ScormPlayer({ enrollmentId, lessonId, courseId }: ScormPlayerProps) {
+  const { toast } = useToast();
+  const [selectedScoId, setSelectedScoId] = useState<string>();
+  const [lessonStatus, setLessonStatus] = useState<string>();
+  // Bumped when a SCO is relaunched so the iframe reloads against a fresh runtime
+  const [launchKey, setLaunchKey] = useState(0);
+
+  const runtimeUrl = `/api/lms/enrollments/${enrollmentId}/lessons/${lessonId}/scorm`;
+  const { data: runtimeState, isLoading, error } = useQuery<ScormRuntimeState>({
+    queryKey: [runtimeUrl],
+    staleTime: Infinity,
+  });
+
+  const sco = runtimeState?.scos.find(candidate => candidate.identifier === selectedScoId) ?? runtimeState?.scos[0];
+  const status = lessonStatus ?? runtimeState?.lessonStatus;
+
+  useEffect(() => {
+    if (!runtimeState || !sco) return;
+
+    const apiName = getScormApiName(runtimeState.scormVersion);
+    const runtime = createScormRuntime({
+      version: runtimeState.scormVersion,
+      learner: runtimeState.learner,
+      entry: sco.entry,
+      masteryScore: sco.masteryScore,
+      cmi: sco.cmi,
+      onCommit: async (values, finish) => {
+        // keepalive lets the final commit complete when the learner navigates away
+        const response = await fetch(runtimeUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          keepalive: finish,
+          body: JSON.stringify({ scoId: sco.identifier, values, finish }),
+        });
+        if (!response.ok) {
+          throw new Error(`${response.status}: ${await response.text()}`);
+        }
+        const progress = await response.json();
+        setLessonStatus(progress.status);
+        if (finish) {
+          queryClient.invalidateQueries({ queryKey: [runtimeUrl] });
+        }
+        if (progress.status === "completed") {
+          queryClient.invalidateQueries({ queryKey: ["/api/lms/enrollments/me"] });
+          if (courseId) {
+            queryClient.invalidateQueries({ queryKey: ["/api/lms/courses", courseId] });
+          }
+        }
+      },
+    });
+
+    const target = window as unknown as Record<string, unknown>;
+    target[apiName] = runtime.api;
+
+    // SCOs that never call LMSFinish/Terminate still get their data saved
+    const finishOnUnload = () => {
+      if (!runtime.isTerminated()) {
+        const finish = runtime.api.LMSFinish ?? runtime.api.Terminate;
+        finish("");
+      }
+    };
+    window.addEventListener("pagehide", finishOnUnload);
+
+    return () => {
+      window.removeEventListener("pagehide", finishOnUnload);
+      finishOnUnload();
+      if (target[apiName] === runtime.api) {
+        delete target[apiName];
+      }
+    };
+  }, [runtimeState, sco?.identifier, launchKey]);
+
+  useEffect(() => {
+    if (lessonStatus === "completed" && runtimeState?.lessonStatus !== "completed") {
+      toast({ title: "Lesson Completed! ✅", description: "Your SCORM progress has been recorded." });
+    }
+  }, [lessonStatus]);
+
+  if (isLoading) {
+    return <Skeleton className="w-full h-96" />;
+  }
+
+  if (error || !runtimeState || !sco) {
+    return (
+      <div className="flex items-center gap-2 p-6 text-sm text-muted-foreground" data-testid="text-scorm-error">
+        <AlertCircle className="w-4 h-4 text-red-500" />
+        This SCORM package could not be loaded.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">SCORM {runtimeState.scormVersion}</Badge>
+          {status === "completed" ? (
+            <Badge className="bg-green-600" data-testid="badge-scorm-status">
+              <CheckCircle className="w-3 h-3 mr-1" />
+              Completed
+            </Badge>
+          ) : (
+            <Badge variant="secondary" data-testid="badge-scorm-status">
+              {status === "in_progress" ? "In progress" : "Not started"}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {runtimeState.scos.length > 1 && (
+            <Select
+              value={sco.identifier}
+              onValueChange={(value) => {
+                setSelectedScoId(value);
+                setLaunchKey(key => key + 1);
+              }}
+            >
+              <SelectTrigger className="w-64" data-testid="select-scorm-sco">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {runtimeState.scos.map(candidate => (
+                  <SelectItem key={candidate.identifier} value={candidate.identifier}>
+                    {candidate.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => document.getElementById(`scorm-frame-${lessonId}`)?.requestFullscreen?.()}
+            data-testid="button-scorm-fullscreen"
+          >
+            <Maximize2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <iframe
+        key={`${sco.identifier}-${launchKey}`}
+        id={`scorm-frame-${lessonId}`}
+        src={sco.launchUrl}
+        title={sco.title}
+        className="w-full h-[600px] border rounded bg-white"
+        allow="fullscreen; autoplay"
+        data-testid="iframe-scorm-player"
+      />
+    </div>
+  );
+}
+
+interface ScormPackageUploadProps {
+  onImported: (result: { launchUrl: string; manifestUrl: string; title: string }) => void;
+}
+
+// Uploads a SCORM zip to object storage, then asks the server to unpack and parse it
+export function ScormPackageUpload({ onImported }: ScormPackageUploadProps) {
+  const { toast } = useToast();
+  const [importing, setImporting] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      <ObjectUploader
+        maxNumberOfFiles={1}
+        maxFileSize={200 * 1024 * 1024}
+        onGetUploadParameters={async () => {
+          const response = await apiRequest("/api/objects/upload", { method: "POST" });
+          const { uploadURL } = await response.json();
+          return { method: "PUT" as const, url: uploadURL };
+        }}
+        onComplete={async (result) => {
+          const uploaded = result.successful?.[0];
+          if (!uploaded?.uploadURL) return;
+          setImporting(true);
+          try {
+            const response = await apiRequest("/api/lms/scorm/packages", {
+              method: "POST",
+              body: JSON.stringify({ uploadURL: uploaded.uploadURL }),
+            });
+            const { scormPackage, launchUrl, manifestUrl } = await response.json();
+            onImported({ launchUrl, manifestUrl, title: scormPackage.title });
+            toast({
+              title: "SCORM package imported",
+              description: `${scormPackage.title} (SCORM ${scormPackage.scormVersion}, ${scormPackage.scos.length} SCO${scormPackage.scos.length === 1 ? "" : "s"})`,
+            });
+          } catch (error: any) {
+            toast({
+              title: "SCORM import failed",
+              description: error?.message || "The package could not be imported",
+              variant: "destructive",
+            });
+          } finally {
+            setImporting(false);
+          }
+        }}
+        buttonClassName="w-full"
+      >
+        <div className="flex items-center justify-center gap-2">
+          {importing ? <Package className="h-4 w-4 animate-pulse" /> : <Upload className="h-4 w-4" />}
+          <span>{importing ? "Importing package..." : "Upload SCORM package (.zip)"}</span>
+        </div>
+      </ObjectUploader>
+    </div>
+  );
+}
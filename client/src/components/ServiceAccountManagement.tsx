@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Bot, Plus, KeyRound, Edit } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { ApiTokenTable, CreateApiTokenDialog, type ApiTokenSummary } from "@/components/ApiTokens";
+import type { User } from "@shared/schema";
+
+interface ServiceAccount extends User {
+  tokens: ApiTokenSummary[];
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  operative: "Operative",
+  supervisor: "Supervisor",
+  leadership: "Leadership",
+};
+
+const emptyAccountForm = { name: "", description: "", role: "operative" };
+
+export default function ServiceAccountManagement() {
+  const { toast } = useToast();
+  const [editingAccount, setEditingAccount] = useState<ServiceAccount | null>(null);
+  const [isAccountDialogOpen, setIsAccountDialogOpen] = useState(false);
+  const [accountForm, setAccountForm] = useState(emptyAccountForm);
+  const [tokenAccount, setTokenAccount] = useState<ServiceAccount | null>(null);
+
+  const { data: accounts = [], isLoading } = useQuery<ServiceAccount[]>({ queryKey: ['/api/service-accounts'] });
+
+  const saveAccountMutation = useMutation({
+    mutationFn: () => {
+      const body = { name: accountForm.name, description: accountForm.description || null, role: accountForm.role };
+      return editingAccount
+        ? apiRequest("PATCH", `/api/service-accounts/${editingAccount.id}`, body)
+        : apiRequest("POST", "/api/service-accounts", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/service-accounts'] });
+      setIsAccountDialogOpen(false);
+      toast({ title: "Success", description: `Service account ${editingAccount ? "updated" : "created"} successfully` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to save service account"), variant: "destructive" });
+    },
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: ({ accountId, isActive }: { accountId: string; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/service-accounts/${accountId}`, { isActive }),
+    onSuccess: (_response, { isActive }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/service-accounts'] });
+      toast({
+        title: "Success",
+        description: isActive ? "Service account reactivated" : "Service account deactivated. Its tokens are refused until it is reactivated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to update service account"), variant: "destructive" });
+    },
+  });
+
+  const openAccountDialog = (account: ServiceAccount | null) => {
+    setEditingAccount(account);
+    setAccountForm(account
+      ? { name: account.firstName ?? "", description: account.jobTitle ?? "", role: account.role }
+      : emptyAccountForm);
+    setIsAccountDialogOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center space-y-4">
+          <div className="w-8 h-8 bg-primary rounded-lg animate-pulse mx-auto"></div>
+          <p className="text-muted-foreground">Loading service accounts...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Service Accounts</h1>
+          <p className="text-muted-foreground">
+            Non-human accounts for BI tools and automation flows. They can't sign in; they call the API with tokens.
+          </p>
+        </div>
+        <Button onClick={() => openAccountDialog(null)} data-testid="button-create-service-account">
+          <Plus className="h-4 w-4 mr-2" />
+          New Service Account
+        </Button>
+      </div>
+
+      {accounts.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center text-muted-foreground">
+            <Bot className="h-10 w-10 mx-auto mb-4" />
+            No service accounts yet
+          </CardContent>
+        </Card>
+      ) : (
+        accounts.map(account => (
+          <Card key={account.id} data-testid={`card-service-account-${account.id}`}>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Bot className="h-5 w-5" />
+                  {account.firstName}
+                  <Badge variant="outline">{ROLE_LABELS[account.role] ?? account.role}</Badge>
+                  {!account.isActive && <Badge variant="secondary">Deactivated</Badge>}
+                </CardTitle>
+                <CardDescription>
+                  {account.jobTitle || "Permission roles granted to this account apply to its tokens too."}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={account.isActive}
+                    onCheckedChange={(isActive) => setActiveMutation.mutate({ accountId: account.id, isActive })}
+                    data-testid={`switch-service-account-active-${account.id}`}
+                  />
+                  <span className="text-sm text-muted-foreground">Active</span>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => openAccountDialog(account)} data-testid={`button-edit-service-account-${account.id}`}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setTokenAccount(account)}
+                  disabled={!account.isActive}
+                  data-testid={`button-new-service-account-token-${account.id}`}
+                >
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  New Token
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <ApiTokenTable tokens={account.tokens} invalidateKey="/api/service-accounts" />
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={isAccountDialogOpen} onOpenChange={setIsAccountDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? "Edit Service Account" : "New Service Account"}</DialogTitle>
+            <DialogDescription>
+              The base role works as it does for people. You can't pick a role above your own.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="service-account-name">Name</Label>
+              <Input
+                id="service-account-name"
+                value={accountForm.name}
+                onChange={(event) => setAccountForm({ ...accountForm, name: event.target.value })}
+                placeholder="e.g. n8n compliance flows"
+                data-testid="input-service-account-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="service-account-description">Description</Label>
+              <Input
+                id="service-account-description"
+                value={accountForm.description}
+                onChange={(event) => setAccountForm({ ...accountForm, description: event.target.value })}
+                placeholder="What uses this account and who looks after it"
+                data-testid="input-service-account-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Base role</Label>
+              <Select value={accountForm.role} onValueChange={(role) => setAccountForm({ ...accountForm, role })}>
+                <SelectTrigger data-testid="select-service-account-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                    <SelectItem key={role} value={role}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAccountDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveAccountMutation.mutate()}
+              disabled={!accountForm.name.trim() || saveAccountMutation.isPending}
+              data-testid="button-save-service-account"
+            >
+              {saveAccountMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <CreateApiTokenDialog
+        open={!!tokenAccount}
+        onOpenChange={(open) => !open && setTokenAccount(null)}
+        endpoint={`/api/service-accounts/${tokenAccount?.id}/tokens`}
+        invalidateKey="/api/service-accounts"
+        title={`New token for ${tokenAccount?.firstName ?? "service account"}`}
+      />
+    </div>
+  );
+}
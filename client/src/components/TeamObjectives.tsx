@@ -14,6 +14,7 @@ import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { OkrRollupDetails } from "@/components/OkrRollupDetails";
 import { insertTeamObjectiveSchema } from "@shared/schema";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
@@ -36,6 +37,7 @@ const teamObjectiveSchema = insertTeamObjectiveSchema.omit({ supervisorId: true
   ownerId: z.string().optional(),
   objectiveType: z.enum(["committed", "aspirational"]).optional(),
   evaluationMethod: z.string().optional(),
+  cycleId: z.string().optional(),
 }).refine(
   (data) => new Date(data.endDate) >= new Date(data.startDate),
   {
@@ -46,6 +48,16 @@ const teamObjectiveSchema = insertTeamObjectiveSchema.omit({ supervisorId: true
 
 type TeamObjectiveForm = z.infer<typeof teamObjectiveSchema>;
 
+interface OkrCycleOption {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  status: "open" | "in_progress" | "closed";
+}
+
+const toDateInput = (value: string) => new Date(value).toISOString().split('T')[0];
+
 export default function TeamObjectives() {
   const { user } = useAuth();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -87,6 +99,10 @@ export default function TeamObjectives() {
     queryKey: ["/api/users"],
   });
 
+  const { data: cycles } = useQuery<OkrCycleOption[]>({
+    queryKey: ["/api/okr-cycles"],
+  });
+
   // Filter users to only leadership and supervisors for owner selection
   const ownerOptions = (users || []).filter(u => u.role === 'leadership' || u.role === 'supervisor');
 
@@ -106,6 +122,7 @@ export default function TeamObjectives() {
       strategicTheme: undefined,
       riskLevel: undefined,
       riskMitigation: "",
+      cycleId: "",
     },
   });
 
@@ -125,6 +142,7 @@ export default function TeamObjectives() {
       strategicTheme: undefined,
       riskLevel: undefined,
       riskMitigation: "",
+      cycleId: "",
     },
   });
 
@@ -135,6 +153,7 @@ export default function TeamObjectives() {
         ...data,
         startDate: new Date(data.startDate).toISOString(),
         endDate: new Date(data.endDate).toISOString(),
+        cycleId: data.cycleId || null,
       };
       await apiRequest("POST", "/api/team-objectives", payload);
     },
@@ -164,6 +183,7 @@ export default function TeamObjectives() {
         ...data,
         startDate: new Date(data.startDate).toISOString(),
         endDate: new Date(data.endDate).toISOString(),
+        cycleId: data.cycleId || null,
       };
       await apiRequest("PUT", `/api/team-objectives/${editingObjective.id}`, payload);
     },
@@ -224,11 +244,49 @@ export default function TeamObjectives() {
       strategicTheme: objective.strategicTheme ?? undefined,
       riskLevel: objective.riskLevel ?? undefined,
       riskMitigation: objective.riskMitigation ?? "",
+      cycleId: objective.cycleId ?? "",
     });
     
     setIsEditDialogOpen(true);
   };
 
+  // Closed cycles can't take new objectives, but an objective already in one keeps showing it
+  const renderCycleField = (form: typeof teamObjectiveForm, testId: string) => (
+    <FormField
+      control={form.control}
+      name="cycleId"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>OKR Cycle (Optional)</FormLabel>
+          <Select
+            value={field.value || "none"}
+            onValueChange={(value) => {
+              field.onChange(value === "none" ? "" : value);
+              const cycle = cycles?.find(c => c.id === value);
+              if (cycle && !form.getValues("startDate")) form.setValue("startDate", toDateInput(cycle.startDate));
+              if (cycle && !form.getValues("endDate")) form.setValue("endDate", toDateInput(cycle.endDate));
+            }}
+          >
+            <FormControl>
+              <SelectTrigger data-testid={testId}>
+                <SelectValue placeholder="No cycle" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value="none">No cycle</SelectItem>
+              {cycles?.filter(cycle => cycle.status !== "closed" || cycle.id === field.value).map(cycle => (
+                <SelectItem key={cycle.id} value={cycle.id} disabled={cycle.status === "closed"}>
+                  {cycle.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -365,6 +423,7 @@ export default function TeamObjectives() {
                     )}
                   />
                 </div>
+                {renderCycleField(teamObjectiveForm, "select-team-objective-cycle")}
                 
                 {/* Phase 2: Owner Selection */}
                 <FormField
@@ -656,6 +715,7 @@ export default function TeamObjectives() {
                   )}
                 />
               </div>
+              {renderCycleField(editTeamObjectiveForm, "select-edit-team-objective-cycle")}
               
               {/* Phase 2: Owner Selection */}
               <FormField
@@ -896,6 +956,22 @@ export default function TeamObjectives() {
                             {objective.strategicTheme === 'financial_performance' && '💰 Financial'}
                           </Badge>
                         )}
+
+                        {objective.cycleId && (
+                          <Badge variant="outline" className="text-xs" data-testid={`badge-team-objective-cycle-${objective.id}`}>
+                            {cycles?.find(cycle => cycle.id === objective.cycleId)?.name ?? "OKR cycle"}
+                          </Badge>
+                        )}
+                        {objective.finalScore != null ? (
+                          <Badge className="text-xs" data-testid={`badge-team-objective-final-score-${objective.id}`}>
+                            Final grade {objective.finalScore.toFixed(2)}
+                          </Badge>
+                        ) : objective.score != null && (
+                          <Badge variant="secondary" className="text-xs" data-testid={`badge-team-objective-score-${objective.id}`}>
+                            Score {objective.score.toFixed(2)}
+                          </Badge>
+                        )}
+                        <OkrRollupDetails objective={objective} objectiveType="team" canEdit={user?.role === 'leadership' || objective.supervisorId === user?.id} />
                         
                         {/* Phase 2: Owner Badge */}
                         {objective.ownerId && (
@@ -108,6 +108,28 @@ interface RecurringAssignment {
   description?: string;
 }
 
+interface SchedulerJobStatus {
+  name: string;
+  description: string;
+  intervalMs: number;
+  isRunning: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  lastResult: {
+    status: "completed" | "failed" | "skipped";
+    entitiesProcessed: number;
+    assignmentsCreated: number;
+    notificationsSent: number;
+    errors: string[];
+  } | null;
+  lock: {
+    lockedBy: string | null;
+    lockedUntil: string;
+    lastCompletedAt: string | null;
+    lastStatus: string | null;
+  } | null;
+}
+
 interface TimeBasedStats {
   totalActivePaths: number;
   totalRecurringAssignments: number;
@@ -819,6 +841,92 @@ function RecurringAssignmentsManager() {
   );
 }
 
+// Scheduler job status with manual "run now" controls
+function SchedulerJobsPanel() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["/api/scheduler/jobs"],
+    refetchInterval: 30000,
+  }) as { data: { instanceId: string; jobs: SchedulerJobStatus[] } | undefined; isLoading: boolean };
+
+  const runJobMutation = useMutation({
+    mutationFn: (jobName: string) => apiRequest("POST", `/api/scheduler/jobs/${jobName}/run`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduler/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/automation-logs"] });
+      toast({ title: "Job Completed", description: "The scheduler job ran successfully." });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduler/jobs"] });
+      toast({ title: "Job Not Run", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formatDate = (value: string | null) => value ? new Date(value).toLocaleString() : "Never";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="w-5 h-5" />
+          Scheduler Jobs
+        </CardTitle>
+        <CardDescription>Background jobs that run recurring assignments and due-date reminders</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(2)].map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {data?.jobs.map((job) => {
+              const lockHeld = !!job.lock?.lockedBy && new Date(job.lock.lockedUntil).getTime() > Date.now();
+              return (
+                <div key={job.name} className="flex items-center justify-between border rounded-lg p-4" data-testid={`scheduler-job-${job.name}`}>
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{job.name.replace(/_/g, " ")}</span>
+                      {job.isRunning || lockHeld ? (
+                        <Badge variant="secondary">Running</Badge>
+                      ) : job.lastResult ? (
+                        <Badge variant={job.lastResult.status === "failed" ? "destructive" : "outline"}>
+                          {job.lastResult.status}
+                        </Badge>
+                      ) : null}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{job.description}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Last run: {formatDate(job.lock?.lastCompletedAt ?? job.lastRunAt)} · Next run: {formatDate(job.nextRunAt)}
+                      {job.lastResult && ` · ${job.lastResult.entitiesProcessed} processed, ${job.lastResult.assignmentsCreated} assigned, ${job.lastResult.notificationsSent} notified`}
+                    </p>
+                  </div>
+                  {user?.role === "leadership" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={runJobMutation.isPending || job.isRunning || lockHeld}
+                      onClick={() => runJobMutation.mutate(job.name)}
+                      data-testid={`button-run-job-${job.name}`}
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      Run Now
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 // Time-Based Automation Analytics
 function TimeBasedAnalytics() {
   const { data: stats, isLoading } = useQuery({
@@ -968,6 +1076,7 @@ export default function TimeBasedAutomation() {
 
         <TabsContent value="analytics" className="space-y-6">
           <TimeBasedAnalytics />
+          <SchedulerJobsPanel />
         </TabsContent>
       </Tabs>
     </div>
@@ -11,6 +11,8 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import BulkImportDialog from "@/components/BulkImportDialog";
+import { usePermissions } from "@/hooks/usePermissions";
 
 interface User {
   id: string;
@@ -43,6 +45,7 @@ const roleOptions = [
 
 export default function UserManagement() {
   const { toast } = useToast();
+  const { can } = usePermissions();
   const [searchTerm, setSearchTerm] = useState("");
   const [filterRole, setFilterRole] = useState<string>("all");
   const [filterJobRole, setFilterJobRole] = useState<string>("all");
@@ -185,11 +188,14 @@ export default function UserManagement() {
             Manage user roles, job assignments, and employee information
           </p>
         </div>
-        <div className="flex items-center space-x-2">
-          <Users className="h-6 w-6 text-muted-foreground" />
-          <span className="text-sm text-muted-foreground">
-            {filteredUsers.length} of {users.length} users
-          </span>
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <Users className="h-6 w-6 text-muted-foreground" />
+            <span className="text-sm text-muted-foreground">
+              {filteredUsers.length} of {users.length} users
+            </span>
+          </div>
+          {can("user.import") && <BulkImportDialog />}
         </div>
       </div>
 
@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+
+export interface PermissionGrant {
+  assignmentId: string | null;
+  roleId: string | null;
+  roleName: string;
+  permissions: string[];
+  scopeType: "organization" | "department" | "team";
+  scopeId: string | null;
+}
+
+interface PermissionSummary {
+  permissions: string[];
+  grants: PermissionGrant[];
+}
+
+// Permissions the signed-in user holds anywhere. The server still checks the scope of each request.
+export function usePermissions() {
+  const { user } = useAuth();
+  const { data, isLoading } = useQuery<PermissionSummary>({
+    queryKey: ["/api/auth/permissions"],
+    enabled: !!user,
+  });
+
+  const permissions = data?.permissions ?? [];
+
+  return {
+    permissions,
+    grants: data?.grants ?? [],
+    isLoading,
+    can: (permission: string) => permissions.includes(permission),
+  };
+}
@@ -0,0 +1,46 @@
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { realtime, type RealtimeEventType, type RealtimeStatus, type RealtimeTopic } from "@/lib/realtime";
+
+// While the socket is open pushes do the work; this poll only catches messages published on another server instance
+const CONNECTED_POLL_MS = 5 * 60 * 1000;
+
+// Holds the shared socket open while mounted and reports whether it is connected
+export function useRealtimeStatus(): RealtimeStatus {
+  const { isAuthenticated } = useAuth();
+  const [status, setStatus] = useState<RealtimeStatus>(realtime.getStatus());
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const stopListening = realtime.onStatus(setStatus);
+    const release = realtime.acquire();
+    setStatus(realtime.getStatus());
+    return () => {
+      stopListening();
+      release();
+    };
+  }, [isAuthenticated]);
+
+  return status;
+}
+
+// Calls handler for every pushed message of this type; pass a topic for organization-wide messages (dashboards)
+export function useRealtimeEvent<T = any>(type: RealtimeEventType, handler: (data: T) => void, topic?: RealtimeTopic): RealtimeStatus {
+  const status = useRealtimeStatus();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => realtime.on(type, (data) => handlerRef.current(data)), [type]);
+
+  useEffect(() => {
+    if (!topic) return;
+    return realtime.subscribe(topic);
+  }, [topic]);
+
+  return status;
+}
+
+// refetchInterval for a query that realtime events keep fresh: slow while connected, fallbackMs otherwise
+export function getRealtimePollInterval(status: RealtimeStatus, fallbackMs: number): number {
+  return status === "open" ? Math.max(CONNECTED_POLL_MS, fallbackMs) : fallbackMs;
+}
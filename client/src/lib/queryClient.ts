@@ -7,6 +7,24 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// apiRequest errors read "<status>: <body>"; returns the body when the server sent a JSON object
+export function getApiErrorBody(error: unknown): Record<string, any> | null {
+  if (!(error instanceof Error)) return null;
+  try {
+    const body = JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+    return body && typeof body === "object" ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// The server's explanation of a failed request, for toasts and inline errors
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  const body = getApiErrorBody(error);
+  if (body) return typeof body.message === "string" && body.message ? body.message : fallback;
+  return (error instanceof Error && error.message) || fallback;
+}
+
 // Overloaded signatures for apiRequest
 export async function apiRequest(
   methodOrUrl: string,
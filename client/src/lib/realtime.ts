@@ -0,0 +1,149 @@
+// Single shared WebSocket to /ws; pushes can be missed while it reconnects, so callers keep a slow poll running.
+
+export type RealtimeEventType = "notification.created" | "key_result.progress_updated" | "enrollment.completed";
+export type RealtimeTopic = "dashboard";
+export type RealtimeStatus = "idle" | "connecting" | "open" | "closed";
+
+type EventListener = (data: any) => void;
+type StatusListener = (status: RealtimeStatus) => void;
+
+const MIN_RECONNECT_MS = 1000;
+const MAX_RECONNECT_MS = 60 * 1000;
+
+class RealtimeConnection {
+  private socket: WebSocket | null = null;
+  private status: RealtimeStatus = "idle";
+  private users = 0;
+  private reconnectDelay = MIN_RECONNECT_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private topics = new Map<RealtimeTopic, number>();
+  private listeners = new Map<RealtimeEventType, Set<EventListener>>();
+  private statusListeners = new Set<StatusListener>();
+
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  // Returns a release function; the socket stays open while anything holds it
+  acquire(): () => void {
+    this.users++;
+    if (this.users === 1) this.connect();
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.users--;
+      if (this.users === 0) this.disconnect();
+    };
+  }
+
+  on(type: RealtimeEventType, listener: EventListener): () => void {
+    const set = this.listeners.get(type) ?? new Set<EventListener>();
+    set.add(listener);
+    this.listeners.set(type, set);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  onStatus(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  subscribe(topic: RealtimeTopic): () => void {
+    const count = this.topics.get(topic) ?? 0;
+    this.topics.set(topic, count + 1);
+    if (count === 0) this.send({ type: "subscribe", topics: [topic] });
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const remaining = (this.topics.get(topic) ?? 1) - 1;
+      if (remaining > 0) {
+        this.topics.set(topic, remaining);
+      } else {
+        this.topics.delete(topic);
+        this.send({ type: "unsubscribe", topics: [topic] });
+      }
+    };
+  }
+
+  private setStatus(status: RealtimeStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private send(message: Record<string, unknown>) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private connect() {
+    if (typeof window === "undefined" || typeof WebSocket === "undefined") {
+      this.setStatus("closed");
+      return;
+    }
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    this.setStatus("connecting");
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    } catch {
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = MIN_RECONNECT_MS;
+      this.setStatus("open");
+      const topics = Array.from(this.topics.keys());
+      if (topics.length > 0) this.send({ type: "subscribe", topics });
+    };
+    socket.onmessage = (event) => {
+      let message: any;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      this.listeners.get(message?.type)?.forEach(listener => listener(message.data));
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.setStatus("closed");
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.users === 0 || this.reconnectTimer) return;
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_MS);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.users > 0) this.connect();
+    }, delay);
+  }
+
+  private disconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.reconnectDelay = MIN_RECONNECT_MS;
+    this.setStatus("idle");
+  }
+}
+
+export const realtime = new RealtimeConnection();
@@ -0,0 +1,310 @@
+// Browser-side SCORM 1.2 / 2004 runtime; SCOs call it synchronously, so values are held here until Commit / Finish.
+
+export type ScormVersion = "1.2" | "2004";
+
+export interface ScormRuntimeOptions {
+  version: ScormVersion;
+  learner: { id: string; name: string };
+  entry: string; // "ab-initio", "resume" or ""
+  masteryScore: number | null;
+  cmi: Record<string, string>; // Previously stored data model for this SCO
+  onCommit: (values: Record<string, string>, finish: boolean) => Promise<void>;
+}
+
+type ElementAccess = "ro" | "wo" | "rw";
+
+interface ElementDefinition {
+  pattern: RegExp;
+  access: ElementAccess;
+  vocabulary?: string[];
+}
+
+const SCORM_12_ELEMENTS: ElementDefinition[] = [
+  { pattern: /^cmi\.core\.(student_id|student_name|credit|entry|total_time|lesson_mode)$/, access: "ro" },
+  { pattern: /^cmi\.core\.lesson_location$/, access: "rw" },
+  { pattern: /^cmi\.core\.lesson_status$/, access: "rw", vocabulary: ["passed", "completed", "failed", "incomplete", "browsed", "not attempted"] },
+  { pattern: /^cmi\.core\.score\.(raw|min|max)$/, access: "rw" },
+  { pattern: /^cmi\.core\.exit$/, access: "wo", vocabulary: ["time-out", "suspend", "logout", ""] },
+  { pattern: /^cmi\.core\.session_time$/, access: "wo" },
+  { pattern: /^cmi\.(suspend_data|comments)$/, access: "rw" },
+  { pattern: /^cmi\.(launch_data|comments_from_lms)$/, access: "ro" },
+  { pattern: /^cmi\.student_data\.(mastery_score|max_time_allowed|time_limit_action)$/, access: "ro" },
+  { pattern: /^cmi\.student_preference\.(audio|language|speed|text)$/, access: "rw" },
+  { pattern: /^cmi\.objectives\.\d+\.(id|status)$/, access: "rw" },
+  { pattern: /^cmi\.objectives\.\d+\.score\.(raw|min|max)$/, access: "rw" },
+  { pattern: /^cmi\.interactions\.\d+\.(id|time|type|weighting|student_response|result|latency)$/, access: "wo" },
+  { pattern: /^cmi\.interactions\.\d+\.(objectives|correct_responses)\.\d+\.(id|pattern)$/, access: "wo" },
+];
+
+const SCORM_2004_ELEMENTS: ElementDefinition[] = [
+  { pattern: /^cmi\._version$/, access: "ro" },
+  { pattern: /^cmi\.(learner_id|learner_name|credit|entry|mode|total_time|launch_data|max_time_allowed|time_limit_action|completion_threshold|scaled_passing_score)$/, access: "ro" },
+  { pattern: /^cmi\.(location|suspend_data|progress_measure)$/, access: "rw" },
+  { pattern: /^cmi\.completion_status$/, access: "rw", vocabulary: ["completed", "incomplete", "not attempted", "unknown"] },
+  { pattern: /^cmi\.success_status$/, access: "rw", vocabulary: ["passed", "failed", "unknown"] },
+  { pattern: /^cmi\.score\.(scaled|raw|min|max)$/, access: "rw" },
+  { pattern: /^cmi\.exit$/, access: "wo", vocabulary: ["time-out", "suspend", "logout", "normal", ""] },
+  { pattern: /^cmi\.session_time$/, access: "wo" },
+  { pattern: /^cmi\.learner_preference\.(audio_level|language|delivery_speed|audio_captioning)$/, access: "rw" },
+  { pattern: /^cmi\.comments_from_learner\.\d+\.(comment|location|timestamp)$/, access: "rw" },
+  { pattern: /^cmi\.comments_from_lms\.\d+\.(comment|location|timestamp)$/, access: "ro" },
+  { pattern: /^cmi\.objectives\.\d+\.(id|success_status|completion_status|progress_measure|description)$/, access: "rw" },
+  { pattern: /^cmi\.objectives\.\d+\.score\.(scaled|raw|min|max)$/, access: "rw" },
+  { pattern: /^cmi\.interactions\.\d+\.(id|type|timestamp|weighting|learner_response|result|latency|description)$/, access: "rw" },
+  { pattern: /^cmi\.interactions\.\d+\.(objectives\.\d+\.id|correct_responses\.\d+\.pattern)$/, access: "rw" },
+  { pattern: /^adl\.nav\.request$/, access: "rw" },
+];
+
+const CHILDREN: Record<ScormVersion, Record<string, string>> = {
+  "1.2": {
+    "cmi.core": "student_id,student_name,lesson_location,credit,lesson_status,entry,score,total_time,lesson_mode,exit,session_time",
+    "cmi.core.score": "raw,min,max",
+    "cmi.objectives": "id,score,status",
+    "cmi.student_data": "mastery_score,max_time_allowed,time_limit_action",
+    "cmi.student_preference": "audio,language,speed,text",
+    "cmi.interactions": "id,objectives,time,type,correct_responses,weighting,student_response,result,latency",
+  },
+  "2004": {
+    "cmi.score": "scaled,raw,min,max",
+    "cmi.objectives": "id,score,success_status,completion_status,progress_measure,description",
+    "cmi.learner_preference": "audio_level,language,delivery_speed,audio_captioning",
+    "cmi.comments_from_learner": "comment,location,timestamp",
+    "cmi.comments_from_lms": "comment,location,timestamp",
+    "cmi.interactions": "id,type,objectives,timestamp,correct_responses,weighting,learner_response,result,latency,description",
+  },
+};
+
+const ERROR_STRINGS: Record<ScormVersion, Record<string, string>> = {
+  "1.2": {
+    "0": "No error",
+    "101": "General exception",
+    "201": "Invalid argument error",
+    "202": "Element cannot have children",
+    "203": "Element not an array - cannot have count",
+    "301": "Not initialized",
+    "401": "Not implemented error",
+    "402": "Invalid set value, element is a keyword",
+    "403": "Element is read only",
+    "404": "Element is write only",
+    "405": "Incorrect data type",
+  },
+  "2004": {
+    "0": "No error",
+    "101": "General exception",
+    "102": "General initialization failure",
+    "103": "Already initialized",
+    "104": "Content instance terminated",
+    "111": "General termination failure",
+    "112": "Termination before initialization",
+    "113": "Termination after termination",
+    "122": "Retrieve data before initialization",
+    "123": "Retrieve data after termination",
+    "132": "Store data before initialization",
+    "133": "Store data after termination",
+    "142": "Commit before initialization",
+    "143": "Commit after termination",
+    "201": "General argument error",
+    "301": "General get failure",
+    "351": "General set failure",
+    "391": "General commit failure",
+    "401": "Undefined data model element",
+    "402": "Unimplemented data model element",
+    "403": "Data model element value not initialized",
+    "404": "Data model element is read only",
+    "405": "Data model element is write only",
+    "406": "Data model element type mismatch",
+    "407": "Data model element value out of range",
+  },
+};
+
+// Error codes differ between the two versions for the same condition
+const CODES = {
+  "1.2": { notInitialized: "301", alreadyInitialized: "101", terminated: "101", undefinedElement: "201", noChildren: "202", notArray: "203", keyword: "402", readOnly: "403", writeOnly: "404", typeMismatch: "405", notInitializedValue: "0" },
+  "2004": { notInitialized: "122", alreadyInitialized: "103", terminated: "123", undefinedElement: "401", noChildren: "301", notArray: "301", keyword: "404", readOnly: "404", writeOnly: "405", typeMismatch: "406", notInitializedValue: "403" },
+};
+
+function findDefinition(version: ScormVersion, element: string): ElementDefinition | undefined {
+  const definitions = version === "1.2" ? SCORM_12_ELEMENTS : SCORM_2004_ELEMENTS;
+  return definitions.find(definition => definition.pattern.test(element));
+}
+
+function initialValues(options: ScormRuntimeOptions): Record<string, string> {
+  const { version, learner, entry, masteryScore } = options;
+  if (version === "1.2") {
+    return {
+      "cmi.core.lesson_status": "not attempted",
+      ...options.cmi,
+      "cmi.core.student_id": learner.id,
+      "cmi.core.student_name": learner.name,
+      "cmi.core.credit": "credit",
+      "cmi.core.entry": entry,
+      "cmi.core.lesson_mode": "normal",
+      "cmi.core.total_time": options.cmi["cmi.core.total_time"] ?? "0000:00:00.00",
+      "cmi.student_data.mastery_score": masteryScore !== null ? String(masteryScore) : "",
+    };
+  }
+  return {
+    "cmi.completion_status": "unknown",
+    "cmi.success_status": "unknown",
+    ...options.cmi,
+    "cmi._version": "1.0",
+    "cmi.learner_id": learner.id,
+    "cmi.learner_name": learner.name,
+    "cmi.credit": "credit",
+    "cmi.entry": entry,
+    "cmi.mode": "normal",
+    "cmi.total_time": options.cmi["cmi.total_time"] ?? "PT0S",
+    ...(masteryScore !== null ? { "cmi.scaled_passing_score": String(masteryScore / 100) } : {}),
+  };
+}
+
+export interface ScormRuntime {
+  api: Record<string, (...args: string[]) => string>;
+  isTerminated: () => boolean;
+}
+
+export function createScormRuntime(options: ScormRuntimeOptions): ScormRuntime {
+  const { version } = options;
+  const codes = CODES[version];
+  const values = initialValues(options);
+  let state: "not_initialized" | "running" | "terminated" = "not_initialized";
+  let lastError = "0";
+  let dirty = false;
+  let commitFailed = false;
+
+  const fail = (code: string, result = "false") => {
+    lastError = code;
+    return result;
+  };
+
+  const commit = (finish: boolean) => {
+    dirty = false;
+    options.onCommit({ ...values }, finish).catch(() => {
+      commitFailed = true;
+      dirty = true;
+    });
+  };
+
+  const initialize = (parameter: string) => {
+    if (parameter !== "") return fail("201");
+    if (state === "running") return fail(codes.alreadyInitialized);
+    if (state === "terminated") return fail(version === "1.2" ? "101" : "104");
+    state = "running";
+    lastError = "0";
+    return "true";
+  };
+
+  const terminate = (parameter: string) => {
+    if (parameter !== "") return fail("201");
+    if (state === "not_initialized") return fail(version === "1.2" ? "301" : "112");
+    if (state === "terminated") return fail(version === "1.2" ? "101" : "113");
+    commit(true);
+    state = "terminated";
+    lastError = "0";
+    return "true";
+  };
+
+  const getValue = (element: string) => {
+    if (state === "not_initialized") return fail(codes.notInitialized, "");
+    if (state === "terminated") return fail(codes.terminated, "");
+    if (!element) return fail(version === "1.2" ? "201" : "301", "");
+
+    if (element.endsWith("._children")) {
+      const children = CHILDREN[version][element.slice(0, -"._children".length)];
+      return children !== undefined ? (lastError = "0", children) : fail(codes.noChildren, "");
+    }
+    if (element.endsWith("._count")) {
+      const prefix = element.slice(0, -"._count".length);
+      if (!CHILDREN[version][prefix]) return fail(codes.notArray, "");
+      const indices = new Set(
+        Object.keys(values)
+          .filter(key => key.startsWith(`${prefix}.`))
+          .map(key => key.slice(prefix.length + 1).split(".")[0])
+          .filter(index => /^\d+$/.test(index)),
+      );
+      lastError = "0";
+      return String(indices.size);
+    }
+
+    const definition = findDefinition(version, element);
+    if (!definition) return fail(codes.undefinedElement, "");
+    if (definition.access === "wo") return fail(codes.writeOnly, "");
+    if (values[element] === undefined) {
+      lastError = codes.notInitializedValue;
+      return "";
+    }
+    lastError = "0";
+    return values[element];
+  };
+
+  const setValue = (element: string, value: string) => {
+    if (state === "not_initialized") return fail(version === "1.2" ? "301" : "132");
+    if (state === "terminated") return fail(version === "1.2" ? "101" : "133");
+    if (element.endsWith("._children") || element.endsWith("._count") || element.endsWith("._version")) {
+      return fail(codes.keyword);
+    }
+
+    const definition = findDefinition(version, element);
+    if (!definition) return fail(codes.undefinedElement);
+    if (definition.access === "ro") return fail(codes.readOnly);
+
+    const stringValue = String(value);
+    if (definition.vocabulary && !definition.vocabulary.includes(stringValue)) {
+      return fail(codes.typeMismatch);
+    }
+    if (/score\.(raw|min|max|scaled)$/.test(element) && stringValue !== "" && isNaN(Number(stringValue))) {
+      return fail(codes.typeMismatch);
+    }
+    if (version === "2004" && element === "cmi.score.scaled" && (Number(stringValue) < -1 || Number(stringValue) > 1)) {
+      return fail("407");
+    }
+
+    values[element] = stringValue;
+    dirty = true;
+    lastError = "0";
+    return "true";
+  };
+
+  const commitValues = (parameter: string) => {
+    if (parameter !== "") return fail("201");
+    if (state === "not_initialized") return fail(version === "1.2" ? "301" : "142");
+    if (state === "terminated") return fail(version === "1.2" ? "101" : "143");
+    if (dirty) commit(false);
+    lastError = commitFailed ? (version === "1.2" ? "101" : "391") : "0";
+    commitFailed = false;
+    return lastError === "0" ? "true" : "false";
+  };
+
+  const getLastError = () => lastError;
+  const getErrorString = (code: string) => ERROR_STRINGS[version][code] ?? "";
+  const getDiagnostic = (code: string) => ERROR_STRINGS[version][code || lastError] ?? "";
+
+  const api: Record<string, (...args: string[]) => string> = version === "1.2"
+    ? {
+        LMSInitialize: initialize,
+        LMSFinish: terminate,
+        LMSGetValue: getValue,
+        LMSSetValue: setValue,
+        LMSCommit: commitValues,
+        LMSGetLastError: getLastError,
+        LMSGetErrorString: getErrorString,
+        LMSGetDiagnostic: getDiagnostic,
+      }
+    : {
+        Initialize: initialize,
+        Terminate: terminate,
+        GetValue: getValue,
+        SetValue: setValue,
+        Commit: commitValues,
+        GetLastError: getLastError,
+        GetErrorString: getErrorString,
+        GetDiagnostic: getDiagnostic,
+      };
+
+  return { api, isTerminated: () => state === "terminated" };
+}
+
+// Name of the global the SCO searches for
+export function getScormApiName(version: ScormVersion): "API" | "API_1484_11" {
+  return version === "1.2" ? "API" : "API_1484_11";
+}
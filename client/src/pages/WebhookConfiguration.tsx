@@ -1,12 +1,13 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useForm } from "react-hook-form";
+import { useForm, type UseFormReturn } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, Settings, Trash2, Power, PowerOff, TestTube, ExternalLink } from "lucide-react";
+import { Plus, Settings, Trash2, Power, PowerOff, TestTube, ExternalLink, RotateCcw, AlertTriangle, KeyRound, Copy, ShieldCheck } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { N8nWebhookConfig, InsertN8nWebhookConfig } from "@shared/schema";
+import { DOMAIN_EVENT_TYPES, type DomainEvent, type N8nWebhookConfig, type InsertN8nWebhookConfig, type WebhookDelivery } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -16,22 +17,26 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 
 // Using shared types from schema
 
+// Values of webhookEventTypeEnum; notifications are routed to these by notificationWebhookEventMap
 const eventTypes = [
-  { value: "enrollment", label: "Course Enrollment" },
-  { value: "completion", label: "Course Completion" },
-  { value: "quiz_passed", label: "Quiz Passed" },
-  { value: "quiz_failed", label: "Quiz Failed" },
-  { value: "certificate_issued", label: "Certificate Issued" },
-  { value: "badge_awarded", label: "Badge Awarded" },
-  { value: "training_due", label: "Training Due" },
-  { value: "training_overdue", label: "Training Overdue" }
+  { value: "course_enrollment", label: "Course Enrollment" },
+  { value: "training_completed", label: "Training Completed (completions, quizzes, certificates)" },
+  { value: "deadline_approaching", label: "Deadline Approaching (training due and overdue)" },
+  { value: "compliance_alert", label: "Compliance Alert" },
+  { value: "user_milestone", label: "User Milestone (badges, achievements)" },
+  { value: "system_notification", label: "System Notification" },
+  { value: "custom_event", label: "Custom Event" },
+  { value: "domain_event", label: "Domain Events (choose below)" }
 ];
 
+const domainEventOptions = Object.entries(DOMAIN_EVENT_TYPES).map(([value, description]) => ({ value, description }));
+
 const webhookConfigSchema = z.object({
   name: z.string().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
   eventType: z.string().min(1, "Event type is required"),
@@ -51,18 +56,351 @@ const webhookConfigSchema = z.object({
       }
     },
     { message: "Headers must be valid JSON" }
-  )
-});
+  ),
+  domainEventTypes: z.array(z.string()).default([])
+}).refine(
+  (value) => value.eventType !== "domain_event" || value.domainEventTypes.length > 0,
+  { message: "Choose at least one domain event", path: ["domainEventTypes"] }
+);
 
 type WebhookConfigForm = z.infer<typeof webhookConfigSchema>;
 
+// Configs come back from the API with their signing secrets redacted
+type WebhookConfigView = Omit<N8nWebhookConfig, "signingSecret" | "previousSigningSecret"> & {
+  hasSigningSecret: boolean;
+  signingSecretPreview: string | null;
+  previousSecretActive: boolean;
+};
+
+interface WebhookTestResult {
+  success: boolean;
+  error?: string;
+  executionLog?: { httpStatusCode: number | null; executionTimeMs: number | null };
+  request?: { deliveryId: string; body: string; signatureHeaders: Record<string, string> };
+  signature?: {
+    signed: boolean;
+    timestampHeader: string;
+    signatureHeader: string;
+    verification: { valid: boolean; reason?: string };
+  };
+}
+
+const rotationGraceOptions = [
+  { value: "0", label: "Immediately (no grace window)" },
+  { value: "1", label: "1 hour" },
+  { value: "24", label: "24 hours" },
+  { value: "72", label: "3 days" },
+  { value: "168", label: "7 days" }
+];
+
+const deliveryStatusFilters = [
+  { value: "dead_lettered", label: "Dead-lettered" },
+  { value: "retrying", label: "Retrying" },
+  { value: "pending", label: "Pending" },
+  { value: "delivered", label: "Delivered" },
+  { value: "all", label: "All" }
+];
+
+function deliveryStatusVariant(status: string): "default" | "secondary" | "destructive" | "outline" {
+  if (status === "delivered") return "default";
+  if (status === "dead_lettered") return "destructive";
+  if (status === "retrying") return "outline";
+  return "secondary";
+}
+
+// Which outbox events a "domain_event" webhook receives; "*" also covers event types added later
+function DomainEventTypesField({ form }: { form: UseFormReturn<WebhookConfigForm> }) {
+  return (
+    <FormField
+      control={form.control}
+      name="domainEventTypes"
+      render={({ field }) => {
+        const selected = field.value ?? [];
+        const all = selected.includes("*");
+        const toggle = (value: string, checked: boolean) =>
+          field.onChange(checked ? [...selected.filter(item => item !== value), value] : selected.filter(item => item !== value));
+        return (
+          <FormItem>
+            <FormLabel>Domain Events</FormLabel>
+            <div className="rounded-lg border p-3 space-y-2">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <Checkbox
+                  checked={all}
+                  onCheckedChange={(checked) => field.onChange(checked ? ["*"] : [])}
+                  data-testid="checkbox-domain-event-all"
+                />
+                All events, including ones added later
+              </label>
+              {domainEventOptions.map(option => (
+                <label key={option.value} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    checked={all || selected.includes(option.value)}
+                    disabled={all}
+                    onCheckedChange={(checked) => toggle(option.value, checked === true)}
+                    data-testid={`checkbox-domain-event-${option.value}`}
+                  />
+                  <span>
+                    <span className="font-mono">{option.value}</span>
+                    <span className="block text-muted-foreground">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <FormDescription>Each delivery carries the event name, its id and the event data</FormDescription>
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+}
+
+// Outbound delivery queue with replay for failed deliveries
+function WebhookDeliveries({ configs }: { configs: WebhookConfigView[] }) {
+  const [statusFilter, setStatusFilter] = useState("dead_lettered");
+  const { toast } = useToast();
+  const deliveriesUrl = statusFilter === "all"
+    ? "/api/notifications/webhooks/deliveries"
+    : `/api/notifications/webhooks/deliveries?status=${statusFilter}`;
+
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [deliveriesUrl],
+    refetchInterval: 30000
+  });
+
+  const invalidateDeliveries = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/notifications/webhooks")
+    });
+  };
+
+  const replayMutation = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      const res = await apiRequest(`/api/notifications/webhooks/deliveries/${deliveryId}/replay`, {
+        method: "POST",
+      });
+      return await res.json() as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      invalidateDeliveries();
+      toast({
+        variant: delivery.status === "delivered" ? "default" : "destructive",
+        description: delivery.status === "delivered"
+          ? "Delivery replayed successfully"
+          : `Replay failed: ${delivery.lastError || "unknown error"}`
+      });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", description: `Failed to replay delivery: ${error.message}` });
+    }
+  });
+
+  const replayAllMutation = useMutation({
+    mutationFn: async (configId: string) => {
+      const res = await apiRequest(`/api/notifications/webhooks/${configId}/deliveries/replay-failed`, {
+        method: "POST",
+      });
+      return await res.json() as { replayed: number; delivered: number };
+    },
+    onSuccess: (result) => {
+      invalidateDeliveries();
+      toast({ description: `Replayed ${result.replayed} deliveries, ${result.delivered} delivered` });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", description: `Failed to replay deliveries: ${error.message}` });
+    }
+  });
+
+  const configName = (configId: string) => configs.find(c => c.id === configId)?.name || configId;
+  const configsWithFailures = Array.from(new Set(
+    deliveries.filter(d => d.status === "dead_lettered").map(d => d.webhookConfigId)
+  ));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Delivery Queue</CardTitle>
+            <CardDescription>Outbound webhook deliveries, retried with exponential backoff</CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-44" data-testid="select-delivery-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {deliveryStatusFilters.map(filter => (
+                <SelectItem key={filter.value} value={filter.value}>{filter.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {configsWithFailures.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {configsWithFailures.map(configId => (
+              <Button
+                key={configId}
+                variant="outline"
+                size="sm"
+                onClick={() => replayAllMutation.mutate(configId)}
+                disabled={replayAllMutation.isPending}
+                data-testid={`button-replay-all-${configId}`}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Replay all failed for {configName(configId)}
+              </Button>
+            ))}
+          </div>
+        )}
+        {isLoading ? (
+          <div className="h-4 bg-muted rounded animate-pulse" />
+        ) : deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-deliveries">No deliveries match this filter</p>
+        ) : (
+          deliveries.map(delivery => (
+            <div key={delivery.id} className="flex justify-between items-start border rounded-lg p-3" data-testid={`row-delivery-${delivery.id}`}>
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{configName(delivery.webhookConfigId)}</span>
+                  <Badge variant={deliveryStatusVariant(delivery.status)}>{delivery.status.replace(/_/g, " ")}</Badge>
+                  <span className="text-muted-foreground">{delivery.eventType}</span>
+                </div>
+                <div className="text-muted-foreground">
+                  Attempts: {delivery.attemptCount}/{delivery.maxAttempts}
+                  {delivery.lastHttpStatus && ` · HTTP ${delivery.lastHttpStatus}`}
+                  {delivery.createdAt && ` · Queued ${new Date(delivery.createdAt).toLocaleString()}`}
+                  {delivery.status === "retrying" && delivery.nextAttemptAt && ` · Next attempt ${new Date(delivery.nextAttemptAt).toLocaleString()}`}
+                </div>
+                {delivery.lastError && delivery.status !== "delivered" && (
+                  <p className="text-destructive break-all">{delivery.lastError}</p>
+                )}
+              </div>
+              {(delivery.status === "dead_lettered" || delivery.status === "retrying") && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => replayMutation.mutate(delivery.id)}
+                  disabled={replayMutation.isPending}
+                  data-testid={`button-replay-${delivery.id}`}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Replay
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const domainEventStatusFilters = [
+  { value: "failed", label: "Failed" },
+  { value: "pending", label: "Pending" },
+  { value: "processed", label: "Processed" },
+  { value: "all", label: "All" }
+];
+
+// The domain event outbox that feeds webhooks, notifications and automation rules
+function DomainEventOutbox() {
+  const [statusFilter, setStatusFilter] = useState("failed");
+  const { toast } = useToast();
+  const eventsUrl = statusFilter === "all" ? "/api/domain-events?limit=50" : `/api/domain-events?status=${statusFilter}&limit=50`;
+
+  const { data: events = [], isLoading } = useQuery<DomainEvent[]>({
+    queryKey: [eventsUrl],
+    refetchInterval: 30000
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (eventId: string) => {
+      const res = await apiRequest(`/api/domain-events/${eventId}/retry`, { method: "POST" });
+      return await res.json() as DomainEvent;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/domain-events") });
+      toast({ description: "Event queued for another attempt" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", description: `Failed to retry event: ${error.message}` });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Domain Events</CardTitle>
+            <CardDescription>Events handed to webhooks, notifications and automation rules</CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-44" data-testid="select-domain-event-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {domainEventStatusFilters.map(filter => (
+                <SelectItem key={filter.value} value={filter.value}>{filter.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="h-4 bg-muted rounded animate-pulse" />
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-domain-events">No events match this filter</p>
+        ) : (
+          events.map(event => (
+            <div key={event.id} className="flex justify-between items-start border rounded-lg p-3" data-testid={`row-domain-event-${event.id}`}>
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono font-medium">{event.eventType}</span>
+                  <Badge variant={event.status === "failed" ? "destructive" : event.status === "processed" ? "default" : "secondary"}>{event.status}</Badge>
+                </div>
+                <div className="text-muted-foreground">
+                  {event.aggregateType} {event.aggregateId} · Attempts: {event.attempts}
+                  {` · ${new Date(event.occurredAt).toLocaleString()}`}
+                </div>
+                {event.lastError && event.status !== "processed" && (
+                  <p className="text-destructive break-all">{event.lastError}</p>
+                )}
+              </div>
+              {event.status === "failed" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => retryMutation.mutate(event.id)}
+                  disabled={retryMutation.isPending}
+                  data-testid={`button-retry-domain-event-${event.id}`}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Retry
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function WebhookConfiguration() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
-  const [selectedConfig, setSelectedConfig] = useState<N8nWebhookConfig | null>(null);
+  const [selectedConfig, setSelectedConfig] = useState<WebhookConfigView | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [testResult, setTestResult] = useState<WebhookTestResult | null>(null);
+  const [rotationGraceHours, setRotationGraceHours] = useState("24");
   const { toast } = useToast();
+  const { can } = usePermissions();
 
-  const { data: webhookConfigs = [], isLoading, error } = useQuery<N8nWebhookConfig[]>({
+  const { data: webhookConfigs = [], isLoading, error } = useQuery<WebhookConfigView[]>({
     queryKey: ["/api/notifications/webhooks"],
     refetchInterval: 30000 // Refresh every 30 seconds
   });
@@ -79,16 +417,19 @@ export default function WebhookConfiguration() {
       }
       const payload = {
         ...data,
-        headers: Object.keys(headers).length > 0 ? headers : undefined
+        headers: Object.keys(headers).length > 0 ? headers : undefined,
+        domainEventTypes: data.eventType === "domain_event" ? data.domainEventTypes : null
       };
-      return await apiRequest("/api/notifications/webhooks", {
+      const res = await apiRequest("/api/notifications/webhooks", {
         method: "POST",
         body: JSON.stringify(payload),
       });
+      return await res.json() as WebhookConfigView & { signingSecret: string };
     },
-    onSuccess: () => {
+    onSuccess: (config) => {
       queryClient.invalidateQueries({ queryKey: ["/api/notifications/webhooks"] });
       setIsCreateDialogOpen(false);
+      setRevealedSecret({ name: config.name, secret: config.signingSecret });
       toast({ description: "Webhook configuration created successfully" });
     },
     onError: (error) => {
@@ -108,7 +449,8 @@ export default function WebhookConfiguration() {
       }
       const payload = {
         ...data,
-        headers: Object.keys(headers).length > 0 ? headers : undefined
+        headers: Object.keys(headers).length > 0 ? headers : undefined,
+        domainEventTypes: data.eventType === "domain_event" ? data.domainEventTypes : null
       };
       return await apiRequest(`/api/notifications/webhooks/${id}`, {
         method: "PATCH",
@@ -159,19 +501,46 @@ export default function WebhookConfiguration() {
 
   const testMutation = useMutation({
     mutationFn: async (eventType: string) => {
-      return await apiRequest(`/api/notifications/webhooks/test/${eventType}`, {
+      const res = await apiRequest(`/api/notifications/webhooks/test/${eventType}`, {
         method: "POST",
         body: JSON.stringify({}),
       });
+      return await res.json() as WebhookTestResult;
     },
-    onSuccess: () => {
-      toast({ description: "Test webhook triggered successfully" });
+    onSuccess: (result) => {
+      setTestResult(result);
     },
     onError: (error) => {
       toast({ variant: "destructive", description: `Failed to test webhook: ${error.message}` });
     }
   });
 
+  const rotateSecretMutation = useMutation({
+    mutationFn: async ({ id, graceHours }: { id: string; graceHours: number }) => {
+      const res = await apiRequest(`/api/notifications/webhooks/${id}/rotate-secret`, {
+        method: "POST",
+        body: JSON.stringify({ graceHours }),
+      });
+      return await res.json() as WebhookConfigView & { signingSecret: string };
+    },
+    onSuccess: (config) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/webhooks"] });
+      setRevealedSecret({ name: config.name, secret: config.signingSecret });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", description: `Failed to rotate signing secret: ${error.message}` });
+    }
+  });
+
+  const copySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast({ description: "Signing secret copied to clipboard" });
+    } catch {
+      toast({ variant: "destructive", description: "Could not copy to clipboard" });
+    }
+  };
+
   const form = useForm<WebhookConfigForm>({
     resolver: zodResolver(webhookConfigSchema),
     defaultValues: {
@@ -182,7 +551,8 @@ export default function WebhookConfiguration() {
       isActive: true,
       retryCount: 3,
       timeoutSeconds: 30,
-      headers: ""
+      headers: "",
+      domainEventTypes: []
     }
   });
 
@@ -199,7 +569,7 @@ export default function WebhookConfiguration() {
     updateMutation.mutate({ id: selectedConfig.id, data });
   };
 
-  const openEditDialog = (config: N8nWebhookConfig) => {
+  const openEditDialog = (config: WebhookConfigView) => {
     setSelectedConfig(config);
     editForm.reset({
       name: config.name,
@@ -209,7 +579,8 @@ export default function WebhookConfiguration() {
       isActive: config.isActive ?? true,
       retryCount: config.retryCount ?? 3,
       timeoutSeconds: config.timeoutSeconds ?? 30,
-      headers: config.headers ? JSON.stringify(config.headers, null, 2) : ""
+      headers: config.headers ? JSON.stringify(config.headers, null, 2) : "",
+      domainEventTypes: config.domainEventTypes ?? []
     });
     setIsEditDialogOpen(true);
   };
@@ -325,6 +696,7 @@ export default function WebhookConfiguration() {
                         </FormItem>
                       )}
                     />
+                    {form.watch("eventType") === "domain_event" && <DomainEventTypesField form={form} />}
                     <FormField
                       control={form.control}
                       name="webhookUrl"
@@ -460,7 +832,7 @@ export default function WebhookConfiguration() {
             </CardContent>
           </Card>
         ) : (
-          webhookConfigs.map((config: N8nWebhookConfig) => (
+          webhookConfigs.map((config: WebhookConfigView) => (
             <Card key={config.id} data-testid={`card-webhook-${config.id}`}>
               <CardHeader>
                 <div className="flex justify-between items-start">
@@ -473,6 +845,11 @@ export default function WebhookConfiguration() {
                     </CardTitle>
                     <CardDescription>
                       Event: {eventTypes.find(t => t.value === config.eventType)?.label || config.eventType}
+                      {config.eventType === "domain_event" && (
+                        <span className="block" data-testid={`text-domain-events-${config.id}`}>
+                          {config.domainEventTypes?.includes("*") ? "All domain events" : config.domainEventTypes?.join(", ")}
+                        </span>
+                      )}
                     </CardDescription>
                   </div>
                   <div className="flex items-center gap-2">
@@ -558,6 +935,73 @@ export default function WebhookConfiguration() {
                       <p className="text-sm text-muted-foreground" data-testid={`text-description-${config.id}`}>{config.description}</p>
                     </div>
                   )}
+                  {config.autoDeactivatedAt && (
+                    <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm" data-testid={`text-auto-deactivated-${config.id}`}>
+                      <AlertTriangle className="w-4 h-4 mt-0.5 text-destructive" />
+                      <span>
+                        {config.deactivationReason || "Automatically deactivated after repeated failures"} on {new Date(config.autoDeactivatedAt).toLocaleString()}.
+                        Enable the webhook once the endpoint is fixed, then replay failed deliveries.
+                      </span>
+                    </div>
+                  )}
+                  <div>
+                    <p className="text-sm font-medium">Signing secret:</p>
+                    <div className="flex items-center gap-2">
+                      {config.hasSigningSecret ? (
+                        <code className="bg-muted px-2 py-1 rounded text-sm flex-1" data-testid={`text-signing-secret-${config.id}`}>
+                          {config.signingSecretPreview}
+                        </code>
+                      ) : (
+                        <span className="text-sm text-muted-foreground flex-1" data-testid={`text-signing-secret-${config.id}`}>
+                          Not signed - generate a secret so receivers can verify requests
+                        </span>
+                      )}
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" data-testid={`button-rotate-secret-${config.id}`}>
+                            <KeyRound className="w-4 h-4 mr-2" />
+                            {config.hasSigningSecret ? "Rotate" : "Generate"}
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>{config.hasSigningSecret ? "Rotate Signing Secret" : "Generate Signing Secret"}</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {config.hasSigningSecret
+                                ? "A new secret is generated immediately. During the grace window requests are signed with both the old and the new secret, so the receiver can be updated without downtime."
+                                : "Requests to this webhook will carry an HMAC-SHA256 signature that the receiver can verify."}
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          {config.hasSigningSecret && (
+                            <Select value={rotationGraceHours} onValueChange={setRotationGraceHours}>
+                              <SelectTrigger data-testid={`select-rotation-grace-${config.id}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {rotationGraceOptions.map(option => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => rotateSecretMutation.mutate({ id: config.id, graceHours: parseInt(rotationGraceHours, 10) })}
+                              data-testid={`button-confirm-rotate-${config.id}`}
+                            >
+                              {config.hasSigningSecret ? "Rotate" : "Generate"}
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                    {config.previousSecretActive && config.previousSecretExpiresAt && (
+                      <p className="text-xs text-muted-foreground mt-1" data-testid={`text-previous-secret-${config.id}`}>
+                        Previous secret still signing until {new Date(config.previousSecretExpiresAt).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
                   <div className="flex gap-4 text-sm text-muted-foreground">
                     <span>Retry: {config.retryCount}x</span>
                     <span>Timeout: {config.timeoutSeconds}s</span>
@@ -572,6 +1016,80 @@ export default function WebhookConfiguration() {
         )}
       </div>
 
+      {webhookConfigs.length > 0 && <WebhookDeliveries configs={webhookConfigs} />}
+
+      {can("settings.manage") && <DomainEventOutbox />}
+
+      {/* Signing secret is only ever shown here, right after creation or rotation */}
+      <Dialog open={!!revealedSecret} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing Secret for {revealedSecret?.name}</DialogTitle>
+            <DialogDescription>
+              Copy this secret into the receiving workflow now - it will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <code className="bg-muted px-2 py-1 rounded text-sm flex-1 break-all" data-testid="text-revealed-secret">
+                {revealedSecret?.secret}
+              </code>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => revealedSecret && copySecret(revealedSecret.secret)}
+                data-testid="button-copy-secret"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Each request carries <code>X-WeGrow-Timestamp</code> and <code>X-WeGrow-Signature</code> headers.
+              Compute HMAC-SHA256 of <code>{"{timestamp}.{raw body}"}</code> with this secret and compare it to any
+              <code> v1=</code> value in the signature header. Reject timestamps more than 5 minutes old and
+              de-duplicate on <code>X-WeGrow-Delivery-Id</code>.
+            </p>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!testResult} onOpenChange={(open) => !open && setTestResult(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Test Delivery</DialogTitle>
+            <DialogDescription>
+              {testResult?.success
+                ? `Delivered with HTTP ${testResult.executionLog?.httpStatusCode ?? "-"} in ${testResult.executionLog?.executionTimeMs ?? "-"}ms`
+                : `Delivery failed: ${testResult?.error || "unknown error"}`}
+            </DialogDescription>
+          </DialogHeader>
+          {testResult?.signature && (
+            <div className="flex items-center gap-2 text-sm" data-testid="text-test-signature-status">
+              <ShieldCheck className={`w-4 h-4 ${testResult.signature.verification.valid ? "text-green-600" : "text-destructive"}`} />
+              {testResult.signature.verification.valid
+                ? "Signature verified against the active signing secret(s)"
+                : `Signature not verifiable: ${testResult.signature.verification.reason}`}
+            </div>
+          )}
+          {testResult?.request && (
+            <div className="space-y-3">
+              <div>
+                <p className="text-sm font-medium">Signed headers sent:</p>
+                <pre className="bg-muted p-2 rounded text-xs overflow-x-auto" data-testid="text-test-signature-headers">
+                  {Object.entries(testResult.request.signatureHeaders).map(([name, value]) => `${name}: ${value}`).join("\n")}
+                </pre>
+              </div>
+              <div>
+                <p className="text-sm font-medium">Raw body:</p>
+                <pre className="bg-muted p-2 rounded text-xs overflow-x-auto max-h-48" data-testid="text-test-body">
+                  {testResult.request.body}
+                </pre>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Edit Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="max-w-2xl">
@@ -628,6 +1146,7 @@ export default function WebhookConfiguration() {
                       </FormItem>
                     )}
                   />
+                  {editForm.watch("eventType") === "domain_event" && <DomainEventTypesField form={editForm} />}
                   <FormField
                     control={editForm.control}
                     name="webhookUrl"
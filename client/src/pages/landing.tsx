@@ -1,7 +1,80 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+
+interface AuthConfig {
+  provider: "oidc" | "saml" | "local";
+}
+
+function LocalSignInForm() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const signInMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/local/login", { username, password });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+    onError: () => {
+      setPassword("");
+    },
+  });
+
+  return (
+    <form
+      className="space-y-4 pt-4 text-left"
+      onSubmit={(e) => {
+        e.preventDefault();
+        signInMutation.mutate();
+      }}
+    >
+      <div className="space-y-2">
+        <Label htmlFor="username">Username</Label>
+        <Input
+          id="username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          data-testid="input-username"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          data-testid="input-password"
+        />
+      </div>
+      {signInMutation.error && (
+        <p className="text-sm text-destructive" data-testid="text-login-error">
+          {getApiErrorMessage(signInMutation.error, "Sign in failed. Please try again.")}
+        </p>
+      )}
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={!username || !password || signInMutation.isPending}
+        data-testid="button-login"
+      >
+        {signInMutation.isPending ? "Signing In..." : "Sign In"}
+      </Button>
+    </form>
+  );
+}
 
 export default function Landing() {
+  const { data: authConfig } = useQuery<AuthConfig>({ queryKey: ["/api/auth/config"] });
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/10 via-background to-secondary/10 flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -13,7 +86,7 @@ export default function Landing() {
               </div>
               <span className="text-3xl font-bold">Apex</span>
             </div>
-            
+
             <div className="space-y-2">
               <h1 className="text-2xl font-bold text-foreground">
                 Performance & Development Platform
@@ -23,19 +96,23 @@ export default function Landing() {
               </p>
             </div>
 
-            <div className="space-y-4 pt-4">
-              <Button 
-                onClick={() => window.location.href = '/api/login'} 
-                className="w-full"
-                data-testid="button-login"
-              >
-                Sign In to Get Started
-              </Button>
-              
-              <div className="text-xs text-muted-foreground">
-                For cleaning operatives, supervisors, and leadership teams
+            {authConfig?.provider === "local" ? (
+              <LocalSignInForm />
+            ) : (
+              <div className="space-y-4 pt-4">
+                <Button
+                  onClick={() => window.location.href = '/api/login'}
+                  className="w-full"
+                  data-testid="button-login"
+                >
+                  Sign In to Get Started
+                </Button>
+
+                <div className="text-xs text-muted-foreground">
+                  For cleaning operatives, supervisors, and leadership teams
+                </div>
               </div>
-            </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,124 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, CheckCircle, ShieldAlert, ShieldCheck } from "lucide-react";
+
+interface CertificateVerification {
+  status: "valid" | "expired" | "revoked";
+  claims: {
+    certificateNumber: string;
+    holderName: string;
+    title: string;
+    certificateType: string;
+    courseVersion: string | null;
+    issuedAt: string | null;
+    expiresAt: string | null;
+    revoked: boolean;
+    revokedAt: string | null;
+  };
+  signature: { algorithm: string; keyId: string; value: string };
+  verifiedAt: string;
+}
+
+const statusDisplay = {
+  valid: { label: "Valid", variant: "default" as const, icon: ShieldCheck, className: "text-green-600" },
+  expired: { label: "Expired", variant: "secondary" as const, icon: ShieldAlert, className: "text-amber-600" },
+  revoked: { label: "Revoked", variant: "destructive" as const, icon: ShieldAlert, className: "text-red-600" },
+};
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString(undefined, { day: "numeric", month: "long", year: "numeric" }) : "—";
+}
+
+// Public page reached from the QR code on printed certificates; works without signing in
+export default function VerifyCertificate() {
+  const { verificationId } = useParams<{ verificationId: string }>();
+
+  const { data: verification, isLoading, error } = useQuery<CertificateVerification>({
+    queryKey: ["/api/verify", verificationId],
+    retry: false,
+  });
+
+  const notFound = error instanceof Error && error.message.startsWith("404");
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/10 via-background to-secondary/10 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle>Certificate Verification</CardTitle>
+          <CardDescription>
+            {verification ? `Certificate number ${verification.claims.certificateNumber}` : "Checking the certificate's signature"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <div className="h-4 bg-muted rounded animate-pulse" />
+              <div className="h-3 bg-muted rounded animate-pulse w-2/3" />
+            </div>
+          ) : error || !verification ? (
+            <div className="flex items-start gap-2" data-testid="text-verification-error">
+              <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+              <p className="text-sm text-muted-foreground">
+                {notFound
+                  ? "No certificate matches this verification link. It may have been mistyped, or it was not issued by this organisation."
+                  : "The certificate could not be verified right now. Please try again later."}
+              </p>
+            </div>
+          ) : (
+            <VerificationDetails verification={verification} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function VerificationDetails({ verification }: { verification: CertificateVerification }) {
+  const display = statusDisplay[verification.status];
+  const StatusIcon = display.icon;
+  const { claims } = verification;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <StatusIcon className={`h-6 w-6 ${display.className}`} />
+        <Badge variant={display.variant} data-testid="badge-certificate-status">{display.label}</Badge>
+      </div>
+
+      <dl className="grid grid-cols-3 gap-y-2 text-sm">
+        <dt className="text-muted-foreground">Holder</dt>
+        <dd className="col-span-2 font-medium" data-testid="text-holder-name">{claims.holderName}</dd>
+        <dt className="text-muted-foreground">{claims.certificateType === "learning_path" ? "Learning path" : "Course"}</dt>
+        <dd className="col-span-2" data-testid="text-certificate-title">
+          {claims.title}
+          {claims.courseVersion && <span className="text-muted-foreground"> (v{claims.courseVersion})</span>}
+        </dd>
+        <dt className="text-muted-foreground">Issued</dt>
+        <dd className="col-span-2">{formatDate(claims.issuedAt)}</dd>
+        <dt className="text-muted-foreground">Expires</dt>
+        <dd className="col-span-2">{claims.expiresAt ? formatDate(claims.expiresAt) : "Does not expire"}</dd>
+        {claims.revoked && (
+          <>
+            <dt className="text-muted-foreground">Revoked</dt>
+            <dd className="col-span-2 text-red-600">{formatDate(claims.revokedAt)}</dd>
+          </>
+        )}
+      </dl>
+
+      <div className="border-t pt-4 space-y-1">
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <CheckCircle className="h-3 w-3" />
+          Signed with {verification.signature.algorithm} key {verification.signature.keyId} at {new Date(verification.verifiedAt).toLocaleString()}
+        </p>
+        <p className="text-xs text-muted-foreground break-all" data-testid="text-certificate-signature">
+          {verification.signature.value}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          The public key is available at <a className="underline" href="/api/verify/signing-key">/api/verify/signing-key</a>.
+        </p>
+      </div>
+    </div>
+  );
+}
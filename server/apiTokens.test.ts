@@ -0,0 +1,66 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { ApiToken, User } from "@shared/schema";
+
+// storage.ts connects lazily, so any URL lets it load; the storage calls are replaced below
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+
+const { storage } = await import("./storage");
+const { authenticateApiToken } = await import("./apiTokens");
+
+const token = {
+  id: "token-1",
+  userId: "user-1",
+  scopes: ["okr:read"],
+  rateLimitPerMinute: 2,
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  revokedAt: null,
+} as unknown as ApiToken;
+
+async function send(method: string, url: string) {
+  const response = {
+    statusCode: 200,
+    body: undefined as any,
+    headers: {} as Record<string, string>,
+    set(name: string, value: string) { this.headers[name] = value; return this; },
+    status(code: number) { this.statusCode = code; return this; },
+    json(body: unknown) { this.body = body; return this; },
+    on() { return this; },
+  };
+  const req = { method, originalUrl: url, headers: { authorization: "Bearer wg_pat_secret" }, get: () => undefined };
+  let passed = false;
+  await authenticateApiToken(req as any, response as any, () => { passed = true; });
+  return { passed, response };
+}
+
+describe("authenticateApiToken", () => {
+  mock.method(storage, "getApiTokenByHash", async () => token);
+  mock.method(storage, "getUser", async () => ({ id: "user-1", isActive: true }) as User);
+  mock.method(storage, "recordApiTokenUse", async () => undefined);
+
+  it("allows a resource scope only on that resource's paths", async () => {
+    mock.method(storage, "countApiTokenRequest", async () => ({ windowStartedAt: new Date(), requestCount: 1 }));
+
+    assert.equal((await send("GET", "/api/key-results/kr-1?include=checkins")).passed, true);
+
+    const write = await send("POST", "/api/key-results");
+    assert.equal(write.passed, false);
+    assert.equal(write.response.statusCode, 403);
+    assert.match(write.response.body.message, /okr:write/);
+
+    const otherResource = await send("GET", "/api/users");
+    assert.equal(otherResource.passed, false);
+    assert.match(otherResource.response.body.message, /people:read/);
+  });
+
+  it("rejects requests over the limit counted in the shared window", async () => {
+    const windowStartedAt = new Date();
+    mock.method(storage, "countApiTokenRequest", async () => ({ windowStartedAt, requestCount: 3 }));
+
+    const limited = await send("GET", "/api/objectives");
+    assert.equal(limited.passed, false);
+    assert.equal(limited.response.statusCode, 429);
+    assert.equal(limited.response.headers["X-RateLimit-Remaining"], "0");
+    assert.equal(limited.response.headers["X-RateLimit-Reset"], String(Math.ceil((windowStartedAt.getTime() + 60 * 1000) / 1000)));
+  });
+});
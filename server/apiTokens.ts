@@ -0,0 +1,240 @@
+import { createHash, randomBytes } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { ApiToken, User } from "@shared/schema";
+import { storage } from "./storage";
+
+// Personal access and service-account tokens for calling /api/* from scripts.
+
+// Resource scopes limit a token to part of the API, picked out by the first path segment after /api/. Paths outside
+// every resource are only reachable with the API-wide read and write scopes.
+const API_TOKEN_RESOURCES = {
+  people: {
+    label: "people, teams, departments and job roles",
+    segments: ["users", "teams", "team", "departments", "job-roles", "org-chart"],
+  },
+  learning: {
+    label: "courses, enrollments, learning paths and certificates",
+    segments: ["lms", "courses", "lessons", "learning-paths", "learning-path-enrollments", "learning-resources", "certificates", "certificate-templates", "auto-assignments", "recurring-assignments", "adaptive-learning"],
+  },
+  competencies: {
+    label: "competencies, skills, evidence and the training matrix",
+    segments: ["competencies", "competency-library", "competency-evidence", "competency-status", "competency-status-history", "competency-gap-analysis", "user-competencies", "team-competency-overview", "role-competency-mappings", "evidence", "skills", "skill-categories", "skill-category-types", "proficiency-levels", "training-matrix"],
+  },
+  okr: {
+    label: "objectives, key results and check-ins",
+    segments: ["objectives", "team-objectives", "key-results", "team-key-results", "kr-check-ins", "check-ins", "okr-cycles", "okr-snapshots", "okr-dependencies", "goals"],
+  },
+  quality: {
+    label: "quality policies, nonconformities, corrective actions and management reviews",
+    segments: ["quality-policies", "nonconformities", "corrective-actions", "management-reviews"],
+  },
+  reports: {
+    label: "reports, analytics and dashboards",
+    segments: ["reports", "analytics", "compliance-report", "executive-dashboard"],
+  },
+} as const;
+
+type ApiTokenResource = keyof typeof API_TOKEN_RESOURCES;
+type ApiTokenAccess = "read" | "write";
+export type ApiTokenScope = ApiTokenAccess | `${ApiTokenResource}:${ApiTokenAccess}`;
+
+export const API_TOKEN_SCOPES: Record<ApiTokenScope, string> = {
+  read: "Read data (GET requests)",
+  write: "Create, change and delete data",
+  ...resourceScopes(),
+};
+export const API_TOKEN_SCOPE_NAMES = Object.keys(API_TOKEN_SCOPES) as [ApiTokenScope, ...ApiTokenScope[]];
+
+function resourceScopes() {
+  const scopes = {} as Record<`${ApiTokenResource}:${ApiTokenAccess}`, string>;
+  (Object.keys(API_TOKEN_RESOURCES) as ApiTokenResource[]).forEach(resource => {
+    scopes[`${resource}:read`] = `Read ${API_TOKEN_RESOURCES[resource].label}`;
+    scopes[`${resource}:write`] = `Create, change and delete ${API_TOKEN_RESOURCES[resource].label}`;
+  });
+  return scopes;
+}
+
+const RESOURCE_BY_SEGMENT = new Map<string, ApiTokenResource>();
+(Object.keys(API_TOKEN_RESOURCES) as ApiTokenResource[]).forEach(resource => {
+  API_TOKEN_RESOURCES[resource].segments.forEach(segment => RESOURCE_BY_SEGMENT.set(segment, resource));
+});
+
+export const MAX_API_TOKEN_LIFETIME_DAYS = 366;
+export const DEFAULT_API_TOKEN_RATE_LIMIT = 60;
+export const MAX_API_TOKEN_RATE_LIMIT = 1200;
+
+const TOKEN_MARKER = "wg_";
+const TOKEN_KINDS = { personal: "wg_pat_", service: "wg_sat_" } as const;
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const MAX_LOGGED_PATH_LENGTH = 500;
+
+export class ApiTokenError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "ApiTokenError";
+    Object.setPrototypeOf(this, ApiTokenError.prototype);
+  }
+}
+
+export interface IssueApiTokenOptions {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays: number;
+  rateLimitPerMinute?: number;
+}
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function isApiTokenRequest(req: Request): boolean {
+  return req.headers.authorization?.startsWith(`Bearer ${TOKEN_MARKER}`) ?? false;
+}
+
+// The hash never leaves the server
+export function redactApiToken(token: ApiToken) {
+  const { tokenHash: _tokenHash, ...rest } = token;
+  return rest;
+}
+
+// Returns the stored token and the secret, which the caller shows once; only its hash is kept
+export async function issueApiToken(owner: User, options: IssueApiTokenOptions, createdBy: string): Promise<{ token: ApiToken; secret: string }> {
+  if (!owner.isActive) {
+    throw new ApiTokenError("Tokens can't be issued for a deactivated account", 409);
+  }
+  const secret = `${owner.isServiceAccount ? TOKEN_KINDS.service : TOKEN_KINDS.personal}${randomBytes(32).toString("base64url")}`;
+  const token = await storage.createApiToken({
+    userId: owner.id,
+    name: options.name,
+    tokenPrefix: secret.slice(0, 12),
+    tokenHash: hashApiToken(secret),
+    scopes: Array.from(new Set(options.scopes)),
+    rateLimitPerMinute: options.rateLimitPerMinute ?? DEFAULT_API_TOKEN_RATE_LIMIT,
+    expiresAt: new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000),
+    createdBy,
+  });
+  return { token, secret };
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+// Fixed one-minute windows, counted in the database so the limit holds across server instances
+async function consumeRateLimit(token: ApiToken): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
+  const window = await storage.countApiTokenRequest(token.id, RATE_LIMIT_WINDOW_MS);
+  return {
+    allowed: window.requestCount <= token.rateLimitPerMinute,
+    remaining: Math.max(0, token.rateLimitPerMinute - window.requestCount),
+    resetAt: window.windowStartedAt.getTime() + RATE_LIMIT_WINDOW_MS,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Scopes
+// ---------------------------------------------------------------------------
+
+export function getApiTokenResource(path: string): ApiTokenResource | undefined {
+  const [, api, segment] = path.split("?")[0].split("/");
+  return api === "api" ? RESOURCE_BY_SEGMENT.get(segment) : undefined;
+}
+
+// Returns the scope a request needs when the token doesn't have it
+function findMissingScope(token: ApiToken, req: Request): string | undefined {
+  const access: ApiTokenAccess = READ_METHODS.includes(req.method) ? "read" : "write";
+  if (token.scopes.includes(access)) return undefined;
+  const resource = getApiTokenResource(req.originalUrl);
+  if (resource && token.scopes.includes(`${resource}:${access}`)) return undefined;
+  return resource ? `${resource}:${access}` : access;
+}
+
+// ---------------------------------------------------------------------------
+// Authentication
+// ---------------------------------------------------------------------------
+
+function rejectToken(res: Response, status: number, message: string) {
+  if (status === 401) res.set("WWW-Authenticate", 'Bearer realm="api"');
+  return res.status(status).json({ message });
+}
+
+// Query strings are left out of the access log because they can carry personal data
+function recordUse(req: Request, res: Response, token: ApiToken, startedAt: number) {
+  res.on("finish", () => {
+    storage.recordApiTokenUse({
+      tokenId: token.id,
+      userId: token.userId,
+      method: req.method,
+      path: (req.originalUrl.split("?")[0] ?? "").slice(0, MAX_LOGGED_PATH_LENGTH),
+      statusCode: res.statusCode,
+      ipAddress: req.ip ?? null,
+      userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+      durationMs: Date.now() - startedAt,
+    }).catch(error => console.error("Failed to record API token use:", error));
+  });
+}
+
+// Sets req.user like a session would, so routes and permission checks treat the request as the token's owner
+export async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const startedAt = Date.now();
+  const secret = req.headers.authorization!.slice("Bearer ".length).trim();
+  const token = await storage.getApiTokenByHash(hashApiToken(secret));
+  if (!token) {
+    return rejectToken(res, 401, "Invalid API token");
+  }
+
+  // Every request with a known token is logged, including the ones rejected below
+  recordUse(req, res, token, startedAt);
+  if (token.revokedAt) {
+    return rejectToken(res, 401, "This API token has been revoked");
+  }
+  if (token.expiresAt.getTime() <= startedAt) {
+    return rejectToken(res, 401, "This API token has expired");
+  }
+  const user = await storage.getUser(token.userId);
+  if (!user?.isActive) {
+    return rejectToken(res, 401, "The account this API token belongs to is deactivated");
+  }
+
+  const rate = await consumeRateLimit(token);
+  res.set("X-RateLimit-Limit", String(token.rateLimitPerMinute));
+  res.set("X-RateLimit-Remaining", String(rate.remaining));
+  res.set("X-RateLimit-Reset", String(Math.ceil(rate.resetAt / 1000)));
+  if (!rate.allowed) {
+    res.set("Retry-After", String(Math.max(1, Math.ceil((rate.resetAt - startedAt) / 1000))));
+    return rejectToken(res, 429, `Rate limit of ${token.rateLimitPerMinute} requests per minute exceeded`);
+  }
+
+  const missingScope = findMissingScope(token, req);
+  if (missingScope) {
+    return rejectToken(res, 403, `This API token does not have the ${missingScope} scope`);
+  }
+
+  (req as any).user = {
+    claims: {
+      sub: user.id,
+      email: user.email,
+      first_name: user.firstName,
+      last_name: user.lastName,
+    },
+    expires_at: Math.floor(token.expiresAt.getTime() / 1000),
+  };
+  (req as any).apiToken = token;
+  next();
+}
+
+// Managing tokens, sign-in credentials and roles needs a signed-in browser session, so a leaked token can't be used
+// to mint more tokens or widen its own access
+export function requireInteractiveSession(req: any, res: any, next: any) {
+  if (req.apiToken) {
+    return res.status(403).json({ message: "API tokens can't be used to manage API tokens, sign-in credentials or roles" });
+  }
+  next();
+}
+
+// Access log entries older than API_TOKEN_ACCESS_LOG_RETENTION_DAYS (default 90) are deleted by the scheduler
+export async function pruneApiTokenAccessLog(now: Date): Promise<number> {
+  const retentionDays = parseInt(process.env.API_TOKEN_ACCESS_LOG_RETENTION_DAYS || "", 10);
+  const days = Number.isFinite(retentionDays) && retentionDays > 0 ? retentionDays : 90;
+  return await storage.deleteApiTokenAccessLogBefore(new Date(now.getTime() - days * 24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,146 @@
+import passport from "passport";
+import session from "express-session";
+import type { Express, RequestHandler } from "express";
+import connectPg from "connect-pg-simple";
+import { AUTH_PROVIDERS, AuthConfigError, SESSION_TTL_MS, type AuthProvider, type AuthProviderName, type SessionUser } from "./authProvider";
+import { createOidcAuthProvider } from "./oidcAuth";
+import { createSamlAuthProvider } from "./samlAuth";
+import { createLocalAuthProvider } from "./localAuth";
+import { authenticateApiToken, isApiTokenRequest } from "./apiTokens";
+
+// Sign-in via the provider AUTH_PROVIDER names (oidc by default, saml or local) behind one isAuthenticated.
+
+export function getAuthProviderName(): AuthProviderName {
+  const configured = (process.env.AUTH_PROVIDER ?? "oidc").toLowerCase();
+  if (!(AUTH_PROVIDERS as readonly string[]).includes(configured)) {
+    throw new AuthConfigError(`AUTH_PROVIDER must be one of ${AUTH_PROVIDERS.join(", ")}`);
+  }
+  return configured as AuthProviderName;
+}
+
+let activeProvider: AuthProvider | null = null;
+
+function createAuthProvider(name: AuthProviderName): AuthProvider {
+  switch (name) {
+    case "saml":
+      return createSamlAuthProvider();
+    case "local":
+      return createLocalAuthProvider();
+    default:
+      return createOidcAuthProvider();
+  }
+}
+
+let sessionMiddleware: RequestHandler | null = null;
+
+// One store for HTTP requests and the realtime WebSocket upgrade (realtimeServer.ts)
+export function getSession(): RequestHandler {
+  if (sessionMiddleware) return sessionMiddleware;
+  const pgStore = connectPg(session);
+  const sessionStore = new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: false,
+    ttl: SESSION_TTL_MS,
+    tableName: "sessions",
+  });
+  sessionMiddleware = session({
+    secret: process.env.SESSION_SECRET!,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      // Offline installs served over plain http have to opt out
+      secure: process.env.SESSION_COOKIE_SECURE !== "false",
+      maxAge: SESSION_TTL_MS,
+    },
+  });
+  return sessionMiddleware;
+}
+
+export async function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  activeProvider = createAuthProvider(getAuthProviderName());
+  await activeProvider.setup(app);
+
+  // Lets the sign-in page show a password form or a single sign-on button
+  app.get("/api/auth/config", (_req, res) => {
+    res.json({ provider: activeProvider?.name });
+  });
+}
+
+async function refreshSession(user: SessionUser): Promise<boolean> {
+  // Sessions from before provider tracking all came from OIDC
+  if (!activeProvider?.refreshSession || (user.provider ?? "oidc") !== activeProvider.name) {
+    return false;
+  }
+  return await activeProvider.refreshSession(user);
+}
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  // A request carrying an API token is authenticated by the token instead of the session cookie
+  if (isApiTokenRequest(req)) {
+    try {
+      return await authenticateApiToken(req, res, next);
+    } catch (error) {
+      console.error("Error checking API token:", error);
+      return res.status(500).json({ message: "Authorization check failed" });
+    }
+  }
+
+  // Development bypass for testing - allows unauthenticated access
+  if (process.env.NODE_ENV === 'development') {
+    const user = req.user as any;
+
+    if (!req.isAuthenticated() || !user?.expires_at) {
+      // Create a mock user for development testing
+      req.user = {
+        claims: {
+          sub: 'dev-test-user',
+          email: 'test@apex.com',
+          first_name: 'Test',
+          last_name: 'User',
+          role: 'supervisor'
+        },
+        access_token: 'dev-token',
+        expires_at: Math.floor(Date.now() / 1000) + 3600 // 1 hour from now
+      };
+      console.log("[DEBUG] Development mode: Created mock user for testing");
+      return next();
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (now <= user.expires_at) {
+      return next();
+    }
+
+    // In development, allow access even if the session can't be refreshed
+    if (!(await refreshSession(user))) {
+      console.log("[DEBUG] Development mode: Allowing access despite session refresh failure");
+    }
+    return next();
+  }
+
+  const user = req.user as SessionUser | undefined;
+
+  if (!req.isAuthenticated() || !user?.expires_at) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now <= user.expires_at) {
+    return next();
+  }
+
+  if (await refreshSession(user)) {
+    return next();
+  }
+  res.status(401).json({ message: "Unauthorized" });
+};
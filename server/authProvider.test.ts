@@ -0,0 +1,64 @@
+import { before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { UpsertUser, User } from "@shared/schema";
+
+// storage.ts connects lazily, so any URL lets it load; the storage calls are replaced below
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+
+const { storage } = await import("./storage");
+const { AccountLinkRefusedError, upsertAuthUser } = await import("./authProvider");
+
+const existing = {
+  id: "local-user-1",
+  email: "alex@example.com",
+  firstName: "Alex",
+  lastName: "Smith",
+  profileImageUrl: null,
+  role: "leadership",
+  isActive: true,
+} as User;
+
+describe("upsertAuthUser", () => {
+  let upserted: UpsertUser[];
+
+  before(() => {
+    mock.method(storage, "getUser", async () => undefined);
+    mock.method(storage, "getUserByEmail", async (email: string) => email === existing.email ? existing : undefined);
+  });
+
+  const stubUpsert = () => {
+    upserted = [];
+    mock.method(storage, "upsertUser", async (user: UpsertUser) => {
+      upserted.push(user);
+      return { ...existing, ...user } as User;
+    });
+  };
+
+  it("refuses to link an existing account when the provider doesn't verify the email", async () => {
+    stubUpsert();
+    await assert.rejects(
+      upsertAuthUser({ sub: "idp-subject", email: "alex@example.com" }),
+      AccountLinkRefusedError,
+    );
+    await assert.rejects(
+      upsertAuthUser({ sub: "idp-subject", email: "alex@example.com", email_verified: false }),
+      AccountLinkRefusedError,
+    );
+    assert.equal(upserted.length, 0);
+  });
+
+  it("links an existing account when the provider verifies the email", async () => {
+    stubUpsert();
+    const user = await upsertAuthUser({ sub: "idp-subject", email: "alex@example.com", email_verified: true });
+    assert.equal(user.id, existing.id);
+    assert.equal(upserted[0].id, existing.id);
+    assert.equal(upserted[0].role, "leadership");
+  });
+
+  it("creates a new user for an unverified email nobody has used", async () => {
+    stubUpsert();
+    const user = await upsertAuthUser({ sub: "idp-subject", email: "new@example.com" });
+    assert.equal(user.id, "idp-subject");
+    assert.equal(upserted[0].role, "operative");
+  });
+});
@@ -0,0 +1,146 @@
+import type { Express } from "express";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+// Shared pieces for the sign-in providers in oidcAuth.ts, samlAuth.ts and localAuth.ts. auth.ts picks one.
+
+export const AUTH_PROVIDERS = ["oidc", "saml", "local"] as const;
+export type AuthProviderName = typeof AUTH_PROVIDERS[number];
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+const USER_ROLES = ["operative", "supervisor", "leadership"];
+
+// Every provider produces the claim names the routes read from req.user.claims
+export interface AuthClaims {
+  sub: string;
+  email?: string | null;
+  email_verified?: boolean | null; // Only true when the provider vouches that the user controls the address
+  first_name?: string | null;
+  last_name?: string | null;
+  profile_image_url?: string | null;
+  role?: string | null;
+  [claim: string]: unknown;
+}
+
+export interface SessionUser {
+  provider: AuthProviderName;
+  claims: AuthClaims;
+  access_token?: string;
+  refresh_token?: string;
+  expires_at: number; // epoch seconds
+}
+
+export interface AuthProvider {
+  name: AuthProviderName;
+  // Registers the passport strategy and the /api/login, /api/callback and /api/logout routes
+  setup(app: Express): Promise<void>;
+  // Extends an expired session (OIDC refresh tokens); false sends the user back to sign in
+  refreshSession?(user: SessionUser): Promise<boolean>;
+}
+
+export class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthConfigError";
+    Object.setPrototypeOf(this, AuthConfigError.prototype);
+  }
+}
+
+// Raised for users deactivated through SCIM provisioning; providers treat it as a failed sign-in
+export class AccountDeactivatedError extends Error {
+  constructor(message: string = "This account has been deactivated") {
+    super(message);
+    this.name = "AccountDeactivatedError";
+    Object.setPrototypeOf(this, AccountDeactivatedError.prototype);
+  }
+}
+
+// Raised when a sign-in's email matches an existing account but the provider doesn't vouch for the address, so
+// linking it would let anyone who can set that email at their IdP take the account over
+export class AccountLinkRefusedError extends Error {
+  constructor(message: string = "An account with this email already exists; sign in with the method it was created with") {
+    super(message);
+    this.name = "AccountLinkRefusedError";
+    Object.setPrototypeOf(this, AccountLinkRefusedError.prototype);
+  }
+}
+
+export function requireAuthEnv(name: string, provider: AuthProviderName): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new AuthConfigError(`Environment variable ${name} is required when AUTH_PROVIDER=${provider}`);
+  }
+  return value;
+}
+
+// Creates or refreshes the user row for a sign-in from any provider. Existing users always keep their role;
+// someone who first signed in through a different provider is matched by email so their account carries over,
+// but only when the provider says the email is verified. Claims the provider didn't send leave the stored profile alone.
+export async function upsertAuthUser(claims: AuthClaims): Promise<User> {
+  let existingUser = await storage.getUser(claims.sub);
+  if (!existingUser && claims.email) {
+    existingUser = await storage.getUserByEmail(claims.email);
+    if (existingUser && claims.email_verified !== true) {
+      throw new AccountLinkRefusedError();
+    }
+  }
+  if (existingUser && !existingUser.isActive) {
+    throw new AccountDeactivatedError();
+  }
+
+  let userRole: "operative" | "supervisor" | "leadership";
+  if (existingUser) {
+    // Preserve existing user's role
+    userRole = existingUser.role;
+  } else {
+    // For new users: use the provider's role claim in development/testing, default to operative in production
+    const isDevelopment = process.env.NODE_ENV === 'development';
+    const hasValidClaimsRole = !!claims.role && USER_ROLES.includes(claims.role);
+
+    if (isDevelopment && hasValidClaimsRole) {
+      userRole = claims.role as typeof userRole;
+      console.log("[DEBUG] upsertAuthUser - Using role from identity provider claims in development:", claims.role);
+    } else {
+      userRole = "operative"; // Security default for production
+    }
+  }
+
+  return await storage.upsertUser({
+    id: existingUser?.id ?? claims.sub,
+    email: claims.email ?? existingUser?.email,
+    firstName: claims.first_name ?? existingUser?.firstName,
+    lastName: claims.last_name ?? existingUser?.lastName,
+    profileImageUrl: claims.profile_image_url ?? existingUser?.profileImageUrl,
+    role: userRole,
+  });
+}
+
+// The session's sub is always our user id, which differs from the provider's subject for linked accounts,
+// and its role is the stored role rather than whatever the provider asserted
+export function buildSessionUser(
+  provider: AuthProviderName,
+  user: User,
+  expiresAt: number,
+  extra: Partial<Pick<SessionUser, "access_token" | "refresh_token">> & { claims?: Record<string, unknown> } = {},
+): SessionUser {
+  const { claims, ...tokens } = extra;
+  return {
+    provider,
+    claims: {
+      ...claims,
+      sub: user.id,
+      email: user.email,
+      first_name: user.firstName,
+      last_name: user.lastName,
+      profile_image_url: user.profileImageUrl,
+      role: user.role,
+    },
+    expires_at: expiresAt,
+    ...tokens,
+  };
+}
+
+export function sessionExpiry(): number {
+  return Math.floor((Date.now() + SESSION_TTL_MS) / 1000);
+}
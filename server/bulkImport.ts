@@ -0,0 +1,768 @@
+import { randomUUID } from "crypto";
+import { userRoleEnum, type Course, type CourseVersion, type Department, type Enrollment, type ImportBatch, type JobRole, type TeamMember, type User } from "@shared/schema";
+import { ObjectStorageService } from "./objectStorage";
+import { storage } from "./storage";
+import { parseSpreadsheet, type SpreadsheetRows } from "./spreadsheet";
+import {
+  MAX_IMPORT_ROWS,
+  ImportBatchError,
+  summarizeOperations,
+  type ImportOperation,
+  type ImportReport,
+  type ImportRowError,
+  type ImportType,
+} from "./importPlan";
+
+// Bulk import of users, training records and competency evidence from spreadsheets: validation and commit.
+
+// Spreadsheets larger than this are rejected before parsing
+const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024;
+
+export const EVIDENCE_TYPES = ["certificate", "assessment", "practical_observation", "training_record", "external_course"] as const;
+
+// Columns offered in the downloadable templates. Blank cells leave the existing value unchanged.
+export const IMPORT_TEMPLATES: Record<ImportType, { columns: string[]; required: string[] }> = {
+  users: {
+    columns: ["email", "first_name", "last_name", "employee_id", "job_title", "role", "job_role", "department", "team", "team_lead", "manager_email", "manager_employee_id", "mobile_phone", "start_date"],
+    required: ["email"],
+  },
+  training_records: {
+    columns: ["email", "employee_id", "course", "course_version", "completed_at", "score", "certificate_number", "certificate_expires_at", "signed_off_by_email", "notes"],
+    required: ["course", "completed_at"],
+  },
+  competency_evidence: {
+    columns: ["email", "employee_id", "competency", "evidence_type", "title", "description", "issued_by", "issued_date", "expiry_date", "evidence_url", "verified_by_email", "verified_at"],
+    required: ["competency", "evidence_type", "title"],
+  },
+};
+
+export function getImportTemplateCsv(importType: ImportType): string {
+  return `${IMPORT_TEMPLATES[importType].columns.join(",")}\r\n`;
+}
+
+interface ImportPlan {
+  operations: ImportOperation[];
+  report: ImportReport;
+}
+
+type Row = SpreadsheetRows["rows"][number];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+// Accepts ISO dates, dd/mm/yyyy as exported by UK HR systems, and Excel date serials from .xlsx cells
+export function parseImportDate(value: string): Date | null {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const serial = parseFloat(trimmed);
+    return serial >= 1 && serial < 100000 ? new Date(EXCEL_EPOCH + Math.round(serial * 86400000)) : null;
+  }
+  const ukDate = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(trimmed);
+  if (ukDate) {
+    const [, day, month, year] = ukDate.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+  }
+  if (!/^\d{4}-\d{2}-\d{2}/.test(trimmed)) return null;
+  const date = new Date(trimmed);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isYes(value: string): boolean {
+  return ["yes", "y", "true", "1"].includes(value.trim().toLowerCase());
+}
+
+function key(value: string | null | undefined): string {
+  return (value ?? "").trim().toLowerCase();
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Collects row errors and keeps track of whether the current row is still valid
+class RowErrors {
+  readonly errors: ImportRowError[] = [];
+  private invalidRows = new Set<number>();
+
+  add(row: number, column: string | undefined, message: string) {
+    this.errors.push({ row, column, message });
+    this.invalidRows.add(row);
+  }
+
+  isValid(row: number): boolean {
+    return !this.invalidRows.has(row);
+  }
+
+  get invalidRowCount(): number {
+    return this.invalidRows.size;
+  }
+}
+
+// Reads a date column, recording an error if it can't be parsed
+function readDate(errors: RowErrors, row: Row, column: string): Date | undefined {
+  const value = row.values[column];
+  if (!value) return undefined;
+  const date = parseImportDate(value);
+  if (!date) {
+    errors.add(row.rowNumber, column, `"${value}" is not a date; use YYYY-MM-DD or DD/MM/YYYY`);
+    return undefined;
+  }
+  return date;
+}
+
+class UserDirectory {
+  private byEmail = new Map<string, User>();
+  private byEmployeeId = new Map<string, User>();
+
+  constructor(users: User[]) {
+    users.forEach(user => this.add(user));
+  }
+
+  add(user: User) {
+    if (user.email) this.byEmail.set(key(user.email), user);
+    if (user.employeeId) this.byEmployeeId.set(key(user.employeeId), user);
+  }
+
+  findByEmail(email: string): User | undefined {
+    return this.byEmail.get(key(email));
+  }
+
+  findByEmployeeId(employeeId: string): User | undefined {
+    return this.byEmployeeId.get(key(employeeId));
+  }
+
+  // The person a training or evidence row is about, by email or employee ID
+  resolveRowUser(errors: RowErrors, row: Row): User | undefined {
+    const { email, employee_id: employeeId } = row.values;
+    if (!email && !employeeId) {
+      errors.add(row.rowNumber, "email", "Either email or employee_id is required");
+      return undefined;
+    }
+    const user = email ? this.findByEmail(email) : this.findByEmployeeId(employeeId);
+    if (!user) {
+      errors.add(row.rowNumber, email ? "email" : "employee_id", `No user found with ${email ? `email ${email}` : `employee ID ${employeeId}`}`);
+      return undefined;
+    }
+    if (email && employeeId && key(user.employeeId) !== key(employeeId)) {
+      errors.add(row.rowNumber, "employee_id", `Employee ID ${employeeId} does not match ${email}`);
+      return undefined;
+    }
+    return user;
+  }
+}
+
+function checkHeaders(importType: ImportType, sheet: SpreadsheetRows) {
+  const missing = IMPORT_TEMPLATES[importType].required.filter(column => !sheet.headers.includes(column));
+  if (importType !== "users" && !sheet.headers.includes("email") && !sheet.headers.includes("employee_id")) {
+    missing.unshift("email or employee_id");
+  }
+  if (missing.length > 0) {
+    throw new ImportBatchError(`The file is missing required column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`);
+  }
+  if (sheet.rows.length === 0) {
+    throw new ImportBatchError("The file has no data rows");
+  }
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportBatchError(`Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file and import each part`);
+  }
+}
+
+function uniqueDepartmentCode(name: string, takenCodes: Set<string>): string {
+  const base = name.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 40) || "DEPARTMENT";
+  let code = base;
+  for (let suffix = 2; takenCodes.has(code.toLowerCase()); suffix++) {
+    code = `${base}_${suffix}`;
+  }
+  takenCodes.add(code.toLowerCase());
+  return code;
+}
+
+interface PlannedUser {
+  row: Row;
+  id: string;
+  existing?: User;
+  values: Record<string, unknown>;
+}
+
+// Users are matched by email, then employee ID. Departments and teams named in the file are created if they don't exist;
+// managers may be other rows in the same file.
+async function planUserImport(sheet: SpreadsheetRows): Promise<ImportPlan> {
+  const errors = new RowErrors();
+  const allUsers = await storage.getAllUsers();
+  const directory = new UserDirectory(allUsers);
+  const departments = await storage.getAllDepartments();
+  const teams = await storage.getAllTeams();
+  const jobRoles = await storage.getAllJobRoles();
+
+  const departmentsByKey = new Map<string, Department>();
+  departments.forEach(department => {
+    departmentsByKey.set(key(department.name), department);
+    departmentsByKey.set(key(department.code), department);
+  });
+  const jobRolesByKey = new Map<string, JobRole>();
+  jobRoles.forEach(jobRole => {
+    jobRolesByKey.set(key(jobRole.name), jobRole);
+    jobRolesByKey.set(key(jobRole.code), jobRole);
+  });
+  const teamsByName = new Map<string, { id: string; teamLeadId: string }>();
+  teams.forEach(team => teamsByName.set(key(team.name), team));
+  const takenDepartmentCodes = new Set(departments.map(department => key(department.code)));
+  const roles: readonly string[] = userRoleEnum.enumValues;
+
+  const departmentOperations: ImportOperation[] = [];
+  const newDepartments = new Map<string, string>(); // name -> planned id
+  const plannedUsers: PlannedUser[] = [];
+  const rowsByEmail = new Map<string, PlannedUser>();
+  const rowsByEmployeeId = new Map<string, PlannedUser>();
+
+  for (const row of sheet.rows) {
+    const values = row.values;
+    const email = key(values.email);
+    if (!email) {
+      errors.add(row.rowNumber, "email", "Email is required");
+      continue;
+    }
+    if (!EMAIL_PATTERN.test(email)) {
+      errors.add(row.rowNumber, "email", `"${values.email}" is not a valid email address`);
+      continue;
+    }
+    const duplicate = rowsByEmail.get(email);
+    if (duplicate) {
+      errors.add(row.rowNumber, "email", `${values.email} also appears on row ${duplicate.row.rowNumber}`);
+      continue;
+    }
+
+    let existing = directory.findByEmail(email);
+    const employeeId = values.employee_id;
+    if (employeeId) {
+      const holder = directory.findByEmployeeId(employeeId);
+      if (!existing && holder) {
+        // Email changed in the HR system; the employee ID identifies the person
+        existing = holder;
+      } else if (holder && holder.id !== existing?.id) {
+        errors.add(row.rowNumber, "employee_id", `Employee ID ${employeeId} already belongs to ${holder.email ?? holder.id}`);
+      }
+      const duplicateEmployee = rowsByEmployeeId.get(key(employeeId));
+      if (duplicateEmployee) {
+        errors.add(row.rowNumber, "employee_id", `Employee ID ${employeeId} also appears on row ${duplicateEmployee.row.rowNumber}`);
+      }
+    }
+
+    const updates: Record<string, unknown> = {};
+    if (existing && key(existing.email) !== email) updates.email = email;
+    if (values.first_name) updates.firstName = values.first_name;
+    if (values.last_name) updates.lastName = values.last_name;
+    if (employeeId) updates.employeeId = employeeId;
+    if (values.job_title) updates.jobTitle = values.job_title;
+    if (values.mobile_phone) updates.mobilePhone = values.mobile_phone;
+    if (values.role) {
+      const role = key(values.role);
+      if (roles.includes(role)) updates.role = role;
+      else errors.add(row.rowNumber, "role", `Role must be one of ${roles.join(", ")}`);
+    }
+    if (values.job_role) {
+      const jobRole = jobRolesByKey.get(key(values.job_role));
+      if (jobRole) updates.jobRoleId = jobRole.id;
+      else errors.add(row.rowNumber, "job_role", `Job role "${values.job_role}" does not exist`);
+    }
+    if (values.department) {
+      const department = departmentsByKey.get(key(values.department));
+      let departmentId = department?.id ?? newDepartments.get(key(values.department));
+      if (!departmentId) {
+        departmentId = randomUUID();
+        newDepartments.set(key(values.department), departmentId);
+        departmentOperations.push({
+          entityType: "department",
+          action: "create",
+          id: departmentId,
+          rowNumber: row.rowNumber,
+          values: { name: values.department, code: uniqueDepartmentCode(values.department, takenDepartmentCodes), isActive: true },
+        });
+      }
+      updates.departmentId = departmentId;
+    }
+    const startDate = readDate(errors, row, "start_date");
+    if (startDate) updates.startDate = startDate;
+
+    const planned: PlannedUser = { row, id: existing?.id ?? randomUUID(), existing, values: updates };
+    plannedUsers.push(planned);
+    rowsByEmail.set(email, planned);
+    if (employeeId) rowsByEmployeeId.set(key(employeeId), planned);
+  }
+
+  // Teams: new teams need one row marked as the lead
+  const teamOperations: ImportOperation[] = [];
+  const teamIds = new Map<string, string>();
+  const leads = new Map<string, PlannedUser>();
+  for (const planned of plannedUsers) {
+    const teamName = planned.row.values.team;
+    if (!teamName) {
+      if (planned.row.values.team_lead && isYes(planned.row.values.team_lead)) {
+        errors.add(planned.row.rowNumber, "team_lead", "team_lead needs a team");
+      }
+      continue;
+    }
+    if (!isYes(planned.row.values.team_lead ?? "")) continue;
+    const otherLead = leads.get(key(teamName));
+    if (otherLead) {
+      errors.add(planned.row.rowNumber, "team_lead", `Row ${otherLead.row.rowNumber} is already the lead of ${teamName}`);
+    } else {
+      leads.set(key(teamName), planned);
+    }
+  }
+  for (const planned of plannedUsers) {
+    const teamName = planned.row.values.team;
+    if (!teamName || teamIds.has(key(teamName))) continue;
+    const team = teamsByName.get(key(teamName));
+    const lead = leads.get(key(teamName));
+    if (team) {
+      teamIds.set(key(teamName), team.id);
+      if (lead && team.teamLeadId !== lead.id) {
+        teamOperations.push({ entityType: "team", action: "update", id: team.id, rowNumber: lead.row.rowNumber, values: { teamLeadId: lead.id, updatedAt: new Date() } });
+      }
+    } else if (!lead) {
+      errors.add(planned.row.rowNumber, "team", `Team "${teamName}" is new; mark one of its members with team_lead = yes`);
+    } else {
+      const teamId = randomUUID();
+      teamIds.set(key(teamName), teamId);
+      teamOperations.push({
+        entityType: "team",
+        action: "create",
+        id: teamId,
+        rowNumber: lead.row.rowNumber,
+        values: { name: teamName, teamLeadId: lead.id, departmentId: lead.values.departmentId ?? null, isActive: true },
+      });
+    }
+  }
+
+  // Managers: resolved against the file first, so a manager and their reports can be imported together
+  const managerIds = new Map<string, string>(); // planned user id -> manager id
+  for (const planned of plannedUsers) {
+    const { manager_email: managerEmail, manager_employee_id: managerEmployeeId } = planned.row.values;
+    if (!managerEmail && !managerEmployeeId) continue;
+    const column = managerEmail ? "manager_email" : "manager_employee_id";
+    const manager = managerEmail
+      ? rowsByEmail.get(key(managerEmail)) ?? directory.findByEmail(managerEmail)
+      : rowsByEmployeeId.get(key(managerEmployeeId)) ?? directory.findByEmployeeId(managerEmployeeId);
+    if (!manager) {
+      errors.add(planned.row.rowNumber, column, `No user or row found for manager ${managerEmail || managerEmployeeId}`);
+    } else if (manager.id === planned.id) {
+      errors.add(planned.row.rowNumber, column, "A user cannot be their own manager");
+    } else {
+      managerIds.set(planned.id, manager.id);
+    }
+  }
+  const finalManagers = new Map<string, string | null>(allUsers.map(user => [user.id, user.managerId]));
+  managerIds.forEach((managerId, userId) => finalManagers.set(userId, managerId));
+  managerIds.forEach((_managerId, userId) => {
+    const seen = new Set<string>([userId]);
+    let current = finalManagers.get(userId);
+    while (current) {
+      if (seen.has(current)) {
+        const planned = plannedUsers.find(candidate => candidate.id === userId)!;
+        errors.add(planned.row.rowNumber, planned.row.values.manager_email ? "manager_email" : "manager_employee_id", "This manager would create a reporting loop");
+        return;
+      }
+      seen.add(current);
+      current = finalManagers.get(current);
+    }
+  });
+
+  const plannedIds = new Set(plannedUsers.map(planned => planned.id));
+  const memberships = await storage.getTeamMembershipsForUsers(plannedUsers.filter(planned => planned.existing).map(planned => planned.id));
+  const membershipsByUser = new Map<string, TeamMember[]>();
+  memberships.forEach(membership => {
+    membershipsByUser.set(membership.userId, [...(membershipsByUser.get(membership.userId) ?? []), membership]);
+  });
+
+  const createOperations: ImportOperation[] = [];
+  const updateOperations: ImportOperation[] = [];
+  const managerOperations: ImportOperation[] = [];
+  const membershipOperations: ImportOperation[] = [];
+  for (const planned of plannedUsers) {
+    const { row, existing } = planned;
+    const teamId = row.values.team ? teamIds.get(key(row.values.team)) : undefined;
+    if (teamId) planned.values.teamId = teamId;
+    const managerId = managerIds.get(planned.id);
+    // Managers created by this batch are linked once every user exists
+    const managerIsNew = managerId !== undefined && plannedIds.has(managerId) && !plannedUsers.find(candidate => candidate.id === managerId)?.existing;
+    if (managerId && !managerIsNew) planned.values.managerId = managerId;
+
+    if (!existing) {
+      createOperations.push({
+        entityType: "user",
+        action: "create",
+        id: planned.id,
+        rowNumber: row.rowNumber,
+        values: { email: key(row.values.email), ...planned.values, isActive: true },
+      });
+    } else {
+      const changed: Record<string, unknown> = {};
+      for (const [column, value] of Object.entries(planned.values)) {
+        if (!sameValue((existing as Record<string, unknown>)[column], value)) changed[column] = value;
+      }
+      if (Object.keys(changed).length > 0) {
+        updateOperations.push({ entityType: "user", action: "update", id: planned.id, rowNumber: row.rowNumber, values: { ...changed, updatedAt: new Date() } });
+      }
+    }
+    if (managerId && managerIsNew) {
+      managerOperations.push({ entityType: "user", action: "update", id: planned.id, rowNumber: row.rowNumber, values: { managerId } });
+    }
+
+    // Keep team_members in step with users.teamId, as SCIM provisioning does
+    if (teamId) {
+      const isLead = leads.get(key(row.values.team))?.id === planned.id;
+      const current = membershipsByUser.get(planned.id) ?? [];
+      for (const membership of current) {
+        if (membership.isPrimary && membership.teamId !== teamId) {
+          membershipOperations.push({ entityType: "team_member", action: "update", id: membership.id, rowNumber: row.rowNumber, values: { isPrimary: false, updatedAt: new Date() } });
+        }
+      }
+      const membership = current.find(candidate => candidate.teamId === teamId);
+      if (!membership) {
+        membershipOperations.push({
+          entityType: "team_member",
+          action: "create",
+          id: randomUUID(),
+          rowNumber: row.rowNumber,
+          values: { userId: planned.id, teamId, role: isLead ? "Lead" : "Member", isPrimary: true },
+        });
+      } else if (!membership.isPrimary || (isLead && membership.role !== "Lead")) {
+        membershipOperations.push({
+          entityType: "team_member",
+          action: "update",
+          id: membership.id,
+          rowNumber: row.rowNumber,
+          values: { isPrimary: true, ...(isLead ? { role: "Lead" } : {}), updatedAt: new Date() },
+        });
+      }
+    }
+  }
+
+  // Order matters: users reference teams and departments, memberships reference users
+  const operations = [...departmentOperations, ...teamOperations, ...createOperations, ...updateOperations, ...managerOperations, ...membershipOperations];
+  return buildPlan("users", sheet, errors, operations);
+}
+
+// Imports completions from other systems: an enrollment (if the user has none for that course version),
+// a training record and, when a certificate number is given, a certificate
+async function planTrainingRecordImport(sheet: SpreadsheetRows): Promise<ImportPlan> {
+  const errors = new RowErrors();
+  const directory = new UserDirectory(await storage.getAllUsers());
+  const courses = await storage.getCourses();
+  const coursesById = new Map(courses.map(course => [course.id, course]));
+  const coursesByTitle = new Map<string, Course[]>();
+  courses.forEach(course => coursesByTitle.set(key(course.title), [...(coursesByTitle.get(key(course.title)) ?? []), course]));
+
+  const versionsByCourse = new Map<string, CourseVersion[]>();
+  const enrollmentsByUser = new Map<string, Enrollment[]>();
+  const recordedCompletions = new Set<string>(); // userId:courseVersionId:yyyy-mm-dd
+  const loadedRecordUsers = new Set<string>();
+  const plannedEnrollments = new Map<string, string>(); // userId:courseVersionId -> enrollment id
+  const certificateRows = new Map<string, number>();
+  const operations: ImportOperation[] = [];
+  const now = new Date();
+
+  for (const row of sheet.rows) {
+    const values = row.values;
+    const user = directory.resolveRowUser(errors, row);
+
+    let course: Course | undefined = coursesById.get(values.course);
+    if (!course) {
+      const matches = coursesByTitle.get(key(values.course)) ?? [];
+      if (matches.length > 1) {
+        errors.add(row.rowNumber, "course", `"${values.course}" matches ${matches.length} courses; use the course ID`);
+      } else if (matches.length === 0) {
+        errors.add(row.rowNumber, "course", values.course ? `Course "${values.course}" does not exist` : "Course is required");
+      }
+      course = matches.length === 1 ? matches[0] : undefined;
+    }
+
+    let courseVersion: CourseVersion | undefined;
+    if (course) {
+      if (!versionsByCourse.has(course.id)) versionsByCourse.set(course.id, await storage.getCourseVersions(course.id));
+      const versions = versionsByCourse.get(course.id)!;
+      if (values.course_version) {
+        courseVersion = versions.find(version => key(version.version) === key(values.course_version));
+        if (!courseVersion) errors.add(row.rowNumber, "course_version", `${course.title} has no version ${values.course_version}`);
+      } else {
+        // Latest published version, as a learner enrolling today would get
+        courseVersion = [...versions]
+          .filter(version => version.isActive !== false)
+          .sort((a, b) => (b.publishedAt ?? b.createdAt ?? new Date(0)).getTime() - (a.publishedAt ?? a.createdAt ?? new Date(0)).getTime())[0];
+        if (!courseVersion) errors.add(row.rowNumber, "course", `${course.title} has no published version`);
+      }
+    }
+
+    const completedAt = readDate(errors, row, "completed_at");
+    if (!values.completed_at) errors.add(row.rowNumber, "completed_at", "Completion date is required");
+    if (completedAt && completedAt > now) errors.add(row.rowNumber, "completed_at", "Completion date is in the future");
+
+    let finalScore: number | null = null;
+    if (values.score) {
+      finalScore = Number(values.score.replace(/%$/, ""));
+      if (!Number.isFinite(finalScore) || finalScore < 0 || finalScore > 100) {
+        errors.add(row.rowNumber, "score", "Score must be a percentage between 0 and 100");
+      }
+      finalScore = Math.round(finalScore);
+    }
+
+    const certificateNumber = values.certificate_number;
+    const certificateExpiresAt = readDate(errors, row, "certificate_expires_at");
+    if (certificateExpiresAt && !certificateNumber) {
+      errors.add(row.rowNumber, "certificate_expires_at", "A certificate expiry needs a certificate_number");
+    }
+    if (certificateNumber) {
+      const otherRow = certificateRows.get(key(certificateNumber));
+      if (otherRow) {
+        errors.add(row.rowNumber, "certificate_number", `Certificate ${certificateNumber} also appears on row ${otherRow}`);
+      } else if (await storage.getCertificateByNumber(certificateNumber)) {
+        errors.add(row.rowNumber, "certificate_number", `Certificate ${certificateNumber} already exists`);
+      }
+      certificateRows.set(key(certificateNumber), row.rowNumber);
+    }
+
+    let signedOffBy: string | null = null;
+    if (values.signed_off_by_email) {
+      signedOffBy = directory.findByEmail(values.signed_off_by_email)?.id ?? null;
+      if (!signedOffBy) errors.add(row.rowNumber, "signed_off_by_email", `No user found with email ${values.signed_off_by_email}`);
+    }
+
+    if (!user || !course || !courseVersion || !completedAt || !errors.isValid(row.rowNumber)) continue;
+
+    if (!loadedRecordUsers.has(user.id)) {
+      loadedRecordUsers.add(user.id);
+      for (const record of await storage.getUserTrainingRecords(user.id)) {
+        recordedCompletions.add(`${user.id}:${record.courseVersionId}:${record.completedAt.toISOString().slice(0, 10)}`);
+      }
+    }
+    const completionKey = `${user.id}:${courseVersion.id}:${completedAt.toISOString().slice(0, 10)}`;
+    if (recordedCompletions.has(completionKey)) {
+      errors.add(row.rowNumber, "completed_at", `${user.email ?? user.id} already has a ${course.title} completion recorded on that date`);
+      continue;
+    }
+    recordedCompletions.add(completionKey);
+
+    const enrollmentKey = `${user.id}:${courseVersion.id}`;
+    let enrollmentId = plannedEnrollments.get(enrollmentKey);
+    if (!enrollmentId) {
+      if (!enrollmentsByUser.has(user.id)) enrollmentsByUser.set(user.id, await storage.getUserEnrollments(user.id));
+      const enrollment = enrollmentsByUser.get(user.id)!.find(candidate => candidate.courseVersionId === courseVersion!.id);
+      if (!enrollment) {
+        enrollmentId = randomUUID();
+        operations.push({
+          entityType: "enrollment",
+          action: "create",
+          id: enrollmentId,
+          rowNumber: row.rowNumber,
+          values: { userId: user.id, courseVersionId: courseVersion.id, status: "completed", enrolledAt: completedAt, startedAt: completedAt, completedAt, progress: 100 },
+        });
+      } else {
+        enrollmentId = enrollment.id;
+        if (enrollment.status !== "completed") {
+          operations.push({ entityType: "enrollment", action: "update", id: enrollment.id, rowNumber: row.rowNumber, values: { status: "completed", completedAt, progress: 100 } });
+        }
+      }
+      plannedEnrollments.set(enrollmentKey, enrollmentId);
+    }
+
+    const trainingRecordId = randomUUID();
+    const certificateId = certificateNumber ? randomUUID() : null;
+    operations.push({
+      entityType: "training_record",
+      action: "create",
+      id: trainingRecordId,
+      rowNumber: row.rowNumber,
+      values: {
+        userId: user.id,
+        courseVersionId: courseVersion.id,
+        enrollmentId,
+        completedAt,
+        finalScore,
+        certificateId,
+        signedOffBy,
+        effectivenessCheck: values.notes || null,
+      },
+    });
+    if (certificateId) {
+      operations.push({
+        entityType: "certificate",
+        action: "create",
+        id: certificateId,
+        rowNumber: row.rowNumber,
+        values: {
+          userId: user.id,
+          courseVersionId: courseVersion.id,
+          trainingRecordId,
+          certificateNumber,
+          certificateType: "course",
+          title: course.title,
+          issuedAt: completedAt,
+          expiresAt: certificateExpiresAt ?? null,
+          verificationHash: randomUUID(),
+          metadata: { source: "bulk_import" },
+        },
+      });
+    }
+  }
+
+  return buildPlan("training_records", sheet, errors, operations);
+}
+
+async function planCompetencyEvidenceImport(sheet: SpreadsheetRows, importedBy: string): Promise<ImportPlan> {
+  const errors = new RowErrors();
+  const directory = new UserDirectory(await storage.getAllUsers());
+  const library = await storage.getCompetencyLibrary();
+  const libraryById = new Map(library.map(item => [item.id, item]));
+  const libraryByTitle = new Map<string, typeof library>();
+  library.forEach(item => libraryByTitle.set(key(item.title), [...(libraryByTitle.get(key(item.title)) ?? []), item]));
+  const evidenceTypes: readonly string[] = EVIDENCE_TYPES;
+
+  const existingEvidence = new Map<string, Set<string>>(); // userId:libraryId -> title:issued date
+  const operations: ImportOperation[] = [];
+
+  for (const row of sheet.rows) {
+    const values = row.values;
+    const user = directory.resolveRowUser(errors, row);
+
+    let competency = libraryById.get(values.competency);
+    if (!competency) {
+      const matches = libraryByTitle.get(key(values.competency)) ?? [];
+      if (matches.length > 1) {
+        errors.add(row.rowNumber, "competency", `"${values.competency}" matches ${matches.length} competencies; use the competency library ID`);
+      } else if (matches.length === 0) {
+        errors.add(row.rowNumber, "competency", values.competency ? `Competency "${values.competency}" is not in the competency library` : "Competency is required");
+      }
+      competency = matches.length === 1 ? matches[0] : undefined;
+    }
+
+    const evidenceType = key(values.evidence_type);
+    if (!evidenceTypes.includes(evidenceType)) {
+      errors.add(row.rowNumber, "evidence_type", `Evidence type must be one of ${evidenceTypes.join(", ")}`);
+    }
+    if (!values.title) errors.add(row.rowNumber, "title", "Title is required");
+
+    const issuedDate = readDate(errors, row, "issued_date");
+    const expiryDate = readDate(errors, row, "expiry_date");
+    if (issuedDate && expiryDate && expiryDate < issuedDate) {
+      errors.add(row.rowNumber, "expiry_date", "Expiry date is before the issued date");
+    }
+    if (values.evidence_url && !/^(https?:\/\/|\/objects\/)/i.test(values.evidence_url)) {
+      errors.add(row.rowNumber, "evidence_url", "Evidence URL must be an http(s) link or an uploaded /objects/ path");
+    }
+
+    let verifiedBy: string | null = null;
+    let verifiedAt = readDate(errors, row, "verified_at") ?? null;
+    if (values.verified_by_email) {
+      verifiedBy = directory.findByEmail(values.verified_by_email)?.id ?? null;
+      if (!verifiedBy) errors.add(row.rowNumber, "verified_by_email", `No user found with email ${values.verified_by_email}`);
+      verifiedAt ??= new Date();
+    } else if (verifiedAt) {
+      errors.add(row.rowNumber, "verified_at", "A verification date needs verified_by_email");
+    }
+
+    if (!user || !competency || !errors.isValid(row.rowNumber)) continue;
+
+    const evidenceKey = `${user.id}:${competency.id}`;
+    if (!existingEvidence.has(evidenceKey)) {
+      const records = await storage.getCompetencyEvidenceRecords(user.id, competency.id);
+      existingEvidence.set(evidenceKey, new Set(records.map(record => `${key(record.evidenceTitle)}:${record.issuedDate?.toISOString().slice(0, 10) ?? ""}`)));
+    }
+    const titleKey = `${key(values.title)}:${issuedDate?.toISOString().slice(0, 10) ?? ""}`;
+    if (existingEvidence.get(evidenceKey)!.has(titleKey)) {
+      errors.add(row.rowNumber, "title", `${user.email ?? user.id} already has "${values.title}" recorded for ${competency.title}`);
+      continue;
+    }
+    existingEvidence.get(evidenceKey)!.add(titleKey);
+
+    operations.push({
+      entityType: "competency_evidence",
+      action: "create",
+      id: randomUUID(),
+      rowNumber: row.rowNumber,
+      values: {
+        userId: user.id,
+        competencyLibraryId: competency.id,
+        evidenceType,
+        evidenceTitle: values.title,
+        evidenceDescription: values.description || null,
+        evidenceUrl: values.evidence_url || null,
+        evidenceMetadata: { source: "bulk_import", rowNumber: row.rowNumber },
+        issuedBy: values.issued_by || null,
+        issuedDate: issuedDate ?? null,
+        expiryDate: expiryDate ?? null,
+        verifiedBy,
+        verifiedAt,
+        isValid: true,
+        uploadedBy: importedBy,
+      },
+    });
+  }
+
+  return buildPlan("competency_evidence", sheet, errors, operations);
+}
+
+function buildPlan(importType: ImportType, sheet: SpreadsheetRows, errors: RowErrors, operations: ImportOperation[]): ImportPlan {
+  errors.errors.sort((a, b) => a.row - b.row);
+  return {
+    operations,
+    report: {
+      importType,
+      totalRows: sheet.rows.length,
+      validRows: sheet.rows.length - errors.invalidRowCount,
+      errors: errors.errors,
+      planned: summarizeOperations(operations),
+    },
+  };
+}
+
+async function planImport(importType: ImportType, sourceObjectPath: string, fileName: string, importedBy: string): Promise<ImportPlan> {
+  const objectStorageService = new ObjectStorageService();
+  const data = await objectStorageService.readObjectEntity(sourceObjectPath, MAX_IMPORT_FILE_BYTES);
+  const sheet = await parseSpreadsheet(data, fileName);
+  checkHeaders(importType, sheet);
+  switch (importType) {
+    case "users":
+      return planUserImport(sheet);
+    case "training_records":
+      return planTrainingRecordImport(sheet);
+    case "competency_evidence":
+      return planCompetencyEvidenceImport(sheet, importedBy);
+  }
+}
+
+// Dry run: validates the uploaded file and stores the report without changing any data
+export async function validateImport(uploadURL: string, importType: ImportType, fileName: string, userId: string): Promise<ImportBatch> {
+  const sourceObjectPath = new ObjectStorageService().normalizeObjectEntityPath(uploadURL);
+  const { report } = await planImport(importType, sourceObjectPath, fileName, userId);
+  return await storage.createImportBatch({
+    importType,
+    fileName,
+    sourceObjectPath,
+    status: report.errors.length > 0 ? "invalid" : "validated",
+    totalRows: report.totalRows,
+    errorCount: report.errors.length,
+    report,
+    createdBy: userId,
+  });
+}
+
+// Re-validates against current data (it may have changed since the dry run) and applies every row or none
+export async function commitImport(batchId: string, userId: string): Promise<ImportBatch> {
+  const batch = await storage.getImportBatch(batchId);
+  if (!batch) {
+    throw new ImportBatchError("Import batch not found", 404);
+  }
+  if (batch.status !== "validated") {
+    throw new ImportBatchError(`Import batch is ${batch.status.replace("_", " ")} and cannot be committed`, 409);
+  }
+
+  const { operations, report } = await planImport(batch.importType, batch.sourceObjectPath, batch.fileName, userId);
+  if (report.errors.length > 0) {
+    await storage.updateImportBatch(batch.id, { status: "invalid", errorCount: report.errors.length, report });
+    throw new ImportBatchError("The file no longer validates against current data; review the errors and upload a corrected file", 422, report);
+  }
+
+  return await storage.commitImportBatch(batch.id, operations, report, userId);
+}
@@ -0,0 +1,182 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import type { CertificateTemplate } from "@shared/schema";
+import type { CertificateDetails } from "./storage";
+import { buildCertificateClaims, getCertificateStatus, signCertificateClaims } from "./certificateVerification";
+import { loadCertificateTemplateImages, mergeCertificateTemplate } from "./certificateTemplates";
+
+// Printable PDF certificates.
+
+function formatDate(date: Date | null): string {
+  return date
+    ? date.toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" })
+    : "-";
+}
+
+// Renders a printable certificate with a QR code pointing at the public verify page. Without a template it is the
+// built-in A4 landscape design.
+export async function renderCertificatePdf(details: CertificateDetails, verifyUrl: string, template?: CertificateTemplate | null): Promise<Buffer> {
+  if (template) {
+    return renderTemplatedCertificatePdf(details, verifyUrl, template);
+  }
+
+  const { certificate } = details;
+  const claims = buildCertificateClaims(details);
+  const signature = signCertificateClaims(claims);
+  const status = getCertificateStatus(details);
+  const qrCode = await QRCode.toBuffer(verifyUrl, { margin: 1, width: 240, errorCorrectionLevel: "M" });
+
+  const doc = new PDFDocument({
+    size: "A4",
+    layout: "landscape",
+    margin: 50,
+    info: {
+      Title: `${claims.title} - ${claims.holderName}`,
+      Subject: `Certificate ${certificate.certificateNumber}`,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const { width, height } = doc.page;
+  const contentWidth = width - 100;
+
+  doc.lineWidth(3).strokeColor("#1f2937").rect(25, 25, width - 50, height - 50).stroke();
+  doc.lineWidth(1).strokeColor("#9ca3af").rect(35, 35, width - 70, height - 70).stroke();
+
+  doc.font("Helvetica-Bold").fontSize(34).fillColor("#111827")
+    .text("Certificate of Completion", 50, 90, { width: contentWidth, align: "center" });
+  doc.font("Helvetica").fontSize(14).fillColor("#4b5563")
+    .text("This is to certify that", 50, 160, { width: contentWidth, align: "center" });
+  doc.font("Helvetica-Bold").fontSize(28).fillColor("#111827")
+    .text(claims.holderName, 50, 190, { width: contentWidth, align: "center" });
+  doc.font("Helvetica").fontSize(14).fillColor("#4b5563")
+    .text(claims.certificateType === "learning_path" ? "has completed the learning path" : "has successfully completed", 50, 240, { width: contentWidth, align: "center" });
+  doc.font("Helvetica-Bold").fontSize(20).fillColor("#111827")
+    .text(claims.title, 50, 265, { width: contentWidth, align: "center" });
+  if (claims.courseVersion) {
+    doc.font("Helvetica").fontSize(11).fillColor("#6b7280")
+      .text(`Version ${claims.courseVersion}`, 50, 295, { width: contentWidth, align: "center" });
+  }
+
+  const detailsTop = height - 190;
+  doc.font("Helvetica").fontSize(11).fillColor("#374151");
+  doc.text(`Certificate number: ${certificate.certificateNumber}`, 70, detailsTop);
+  doc.text(`Issued: ${formatDate(certificate.issuedAt)}`, 70, detailsTop + 18);
+  doc.text(`Expires: ${certificate.expiresAt ? formatDate(certificate.expiresAt) : "Does not expire"}`, 70, detailsTop + 36);
+  if (status !== "valid") {
+    doc.font("Helvetica-Bold").fillColor("#b91c1c")
+      .text(status === "revoked" ? "REVOKED" : "EXPIRED", 70, detailsTop + 54);
+  }
+  doc.font("Helvetica").fontSize(7).fillColor("#9ca3af")
+    .text(`Signature (${signature.algorithm}, key ${signature.keyId}): ${signature.value}`, 70, detailsTop + 80, { width: contentWidth - 180 });
+
+  const qrSize = 110;
+  const qrLeft = width - 70 - qrSize;
+  doc.image(qrCode, qrLeft, detailsTop - 10, { width: qrSize, height: qrSize });
+  doc.font("Helvetica").fontSize(8).fillColor("#6b7280")
+    .text("Scan to verify", qrLeft, detailsTop + qrSize - 4, { width: qrSize, align: "center" });
+
+  doc.end();
+  return finished;
+}
+
+// Draws a certificate template's layout. The signature line and any REVOKED / EXPIRED stamp are always added, whatever
+// the layout says, so a printout can't hide them.
+async function renderTemplatedCertificatePdf(details: CertificateDetails, verifyUrl: string, template: CertificateTemplate): Promise<Buffer> {
+  const { certificate } = details;
+  const claims = buildCertificateClaims(details);
+  const signature = signCertificateClaims(claims);
+  const status = getCertificateStatus(details);
+  const { layout, heading, fields } = mergeCertificateTemplate(template, details);
+  const images = await loadCertificateTemplateImages(layout);
+
+  const doc = new PDFDocument({
+    size: layout.pageSize,
+    layout: layout.orientation,
+    margin: 0,
+    info: {
+      Title: `${heading || claims.title} - ${claims.holderName}`,
+      Subject: `Certificate ${certificate.certificateNumber}`,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const { width, height } = doc.page;
+  const x = (percent: number) => (percent / 100) * width;
+  const y = (percent: number) => (percent / 100) * height;
+  const drawImage = (path: string | null | undefined, left: number, top: number, options: PDFKit.Mixins.ImageOption) => {
+    const image = path ? images.get(path) : undefined;
+    if (!image) return;
+    try {
+      doc.image(image, left, top, options);
+    } catch (error: any) {
+      console.warn(`[CERTIFICATES] Template ${template.id} image ${path} is not a PNG or JPEG: ${error.message || error}`);
+    }
+  };
+
+  drawImage(layout.backgroundImage, 0, 0, { width, height });
+
+  if (layout.border) {
+    doc.lineWidth(3).strokeColor("#1f2937").rect(25, 25, width - 50, height - 50).stroke();
+    doc.lineWidth(1).strokeColor("#9ca3af").rect(35, 35, width - 70, height - 70).stroke();
+  }
+
+  if (layout.logo) {
+    drawImage(layout.logo.path, x(layout.logo.x), y(layout.logo.y), { width: x(layout.logo.width) });
+  }
+
+  for (const field of fields) {
+    doc.font(field.font).fontSize(field.fontSize).fillColor(field.color)
+      .text(field.text, x(field.x), y(field.y), { width: x(field.width), align: field.align });
+  }
+
+  // A signature's y is its line; the image sits on the line and the name and title go underneath
+  for (const signatory of layout.signatures) {
+    const left = x(signatory.x);
+    const lineY = y(signatory.y);
+    const lineWidth = x(signatory.width);
+    const imageHeight = lineWidth * 0.4;
+    drawImage(signatory.imagePath, left, lineY - imageHeight - 2, { fit: [lineWidth, imageHeight], align: "center", valign: "bottom" });
+    doc.lineWidth(0.75).strokeColor("#374151").moveTo(left, lineY).lineTo(left + lineWidth, lineY).stroke();
+    doc.font("Helvetica-Bold").fontSize(10).fillColor("#111827")
+      .text(signatory.name, left, lineY + 4, { width: lineWidth, align: "center" });
+    if (signatory.title) {
+      doc.font("Helvetica").fontSize(9).fillColor("#6b7280")
+        .text(signatory.title, left, lineY + 18, { width: lineWidth, align: "center" });
+    }
+  }
+
+  if (layout.qrCode) {
+    const qrSize = x(layout.qrCode.size);
+    const qrLeft = x(layout.qrCode.x);
+    const qrTop = y(layout.qrCode.y);
+    const qrCode = await QRCode.toBuffer(verifyUrl, { margin: 1, width: 240, errorCorrectionLevel: "M" });
+    doc.image(qrCode, qrLeft, qrTop, { width: qrSize, height: qrSize });
+    doc.font("Helvetica").fontSize(8).fillColor("#6b7280")
+      .text("Scan to verify", qrLeft, qrTop + qrSize + 2, { width: qrSize, align: "center" });
+  }
+
+  if (status !== "valid") {
+    doc.font("Helvetica-Bold").fontSize(28).fillColor("#b91c1c")
+      .text(status === "revoked" ? "REVOKED" : "EXPIRED", 0, 45, { width, align: "center" });
+  }
+  doc.font("Helvetica").fontSize(7).fillColor("#9ca3af")
+    .text(`${certificate.certificateNumber} - signature (${signature.algorithm}, key ${signature.keyId}): ${signature.value}`, 45, height - 55, {
+      width: width - 90,
+    });
+
+  doc.end();
+  return finished;
+}
@@ -0,0 +1,177 @@
+import {
+  CERTIFICATE_MERGE_VARIABLES,
+  CERTIFICATE_LAYOUT_VARIABLES,
+  certificateLayoutSchema,
+  type CertificateLayout,
+  type CertificateLayoutField,
+  type CertificateTemplate,
+} from "@shared/schema";
+import type { CertificateDetails } from "./storage";
+import { getCertificateTitle } from "./certificateVerification";
+import { checkTemplate, renderTemplate, type RenderOptions } from "./notificationTemplates";
+import { ObjectStorageService } from "./objectStorage";
+
+// Certificate templates: notification-template text placed at percentage positions on a page certificatePdf.ts draws.
+
+export class CertificateTemplateError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400, public readonly issues: string[] = []) {
+    super(message);
+    this.name = "CertificateTemplateError";
+    Object.setPrototypeOf(this, CertificateTemplateError.prototype);
+  }
+}
+
+const MAX_TEMPLATE_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Certificates are printed documents, so dates don't follow the viewer's timezone
+const CERTIFICATE_RENDER_OPTIONS: RenderOptions = { locale: "en-GB", timezone: "UTC" };
+
+// The built-in certificate as a layout, so a new template starts out printing what certificates always looked like
+export function getStandardCertificateLayout(): CertificateLayout {
+  const centred = { x: 6, width: 88, align: "center" as const };
+  return {
+    pageSize: "A4",
+    orientation: "landscape",
+    backgroundImage: null,
+    border: true,
+    logo: null,
+    fields: [
+      { id: "heading", text: "{{heading}}", y: 15, fontSize: 34, font: "Helvetica-Bold", color: "#111827", ...centred },
+      { id: "intro", text: "This is to certify that", y: 27, fontSize: 14, font: "Helvetica", color: "#4b5563", ...centred },
+      { id: "holder", text: "{{holder.name}}", y: 32, fontSize: 28, font: "Helvetica-Bold", color: "#111827", ...centred },
+      { id: "body", text: "{{body}}", y: 40, fontSize: 14, font: "Helvetica", color: "#4b5563", ...centred },
+      { id: "title", text: "{{title}}", y: 44.5, fontSize: 20, font: "Helvetica-Bold", color: "#111827", ...centred },
+      { id: "version", text: "{{#if course.version}}Version {{course.version}}{{/if}}", y: 49.5, fontSize: 11, font: "Helvetica", color: "#6b7280", ...centred },
+      { id: "number", text: "Certificate number: {{certificateNumber}}", x: 8.3, y: 68, width: 60, fontSize: 11, font: "Helvetica", color: "#374151", align: "left" },
+      { id: "issued", text: "Issued: {{issueDate | date:\"long\"}}", x: 8.3, y: 71, width: 60, fontSize: 11, font: "Helvetica", color: "#374151", align: "left" },
+      { id: "expires", text: "Expires: {{#if expiryDate}}{{expiryDate | date:\"long\"}}{{else}}Does not expire{{/if}}", x: 8.3, y: 74, width: 60, fontSize: 11, font: "Helvetica", color: "#374151", align: "left" },
+    ],
+    signatures: [],
+    qrCode: { x: 78.6, y: 66.4, size: 13 },
+  };
+}
+
+// Throws with every problem found in the title, body and layout text
+export function validateCertificateTemplate(template: { title: string; bodyText: string; layout: CertificateLayout }): void {
+  const issues: string[] = [];
+  const check = (label: string, source: string, variables: typeof CERTIFICATE_MERGE_VARIABLES) => {
+    issues.push(...checkTemplate(source, variables).issues.map(issue => `${label}: ${issue}`));
+  };
+
+  check("Title", template.title, CERTIFICATE_MERGE_VARIABLES);
+  check("Body text", template.bodyText, CERTIFICATE_MERGE_VARIABLES);
+
+  const fieldIds = new Set<string>();
+  template.layout.fields.forEach((field, index) => {
+    if (fieldIds.has(field.id)) issues.push(`Layout field ${index + 1}: the id "${field.id}" is used twice`);
+    fieldIds.add(field.id);
+    check(`Layout field "${field.id}"`, field.text, CERTIFICATE_LAYOUT_VARIABLES);
+  });
+
+  if (issues.length > 0) {
+    throw new CertificateTemplateError("Template is not valid", 400, Array.from(new Set(issues)));
+  }
+}
+
+export function buildCertificateMergeContext(details: CertificateDetails): Record<string, unknown> {
+  const { certificate } = details;
+  return {
+    holder: {
+      name: details.holderName,
+      firstName: details.holderFirstName ?? "",
+      lastName: details.holderLastName ?? "",
+    },
+    title: getCertificateTitle(details),
+    course: { title: details.courseTitle ?? "", version: details.courseVersion ?? "" },
+    learningPath: { title: details.learningPathTitle ?? "" },
+    issueDate: certificate.issuedAt,
+    expiryDate: certificate.expiresAt,
+    certificateNumber: certificate.certificateNumber,
+  };
+}
+
+export interface MergedCertificateTemplate {
+  layout: CertificateLayout;
+  heading: string;
+  fields: CertificateLayoutField[]; // Text merged; fields that came out empty are left out
+}
+
+export function mergeCertificateTemplate(template: CertificateTemplate, details: CertificateDetails): MergedCertificateTemplate {
+  const layout = parseCertificateLayout(template);
+  const context = buildCertificateMergeContext(details);
+  const heading = renderTemplate(template.title, context, CERTIFICATE_RENDER_OPTIONS);
+  const body = renderTemplate(template.bodyText, context, CERTIFICATE_RENDER_OPTIONS);
+  const layoutContext = { ...context, heading, body };
+
+  const fields = layout.fields
+    .map(field => ({ ...field, text: renderTemplate(field.text, layoutContext, CERTIFICATE_RENDER_OPTIONS).trim() }))
+    .filter(field => field.text.length > 0);
+  return { layout, heading, fields };
+}
+
+// Stored layouts were validated on save; one that no longer parses falls back to the standard layout rather than
+// leaving the holder without a certificate
+export function parseCertificateLayout(template: CertificateTemplate): CertificateLayout {
+  const parsed = certificateLayoutSchema.safeParse(template.layout);
+  if (!parsed.success) {
+    console.warn(`[CERTIFICATES] Template ${template.id} has an invalid layout - using the standard layout`);
+    return getStandardCertificateLayout();
+  }
+  return parsed.data;
+}
+
+// Background, logo and signature images by object path. An image that can't be read is left off the page.
+export async function loadCertificateTemplateImages(layout: CertificateLayout): Promise<Map<string, Buffer>> {
+  const paths = Array.from(new Set([
+    layout.backgroundImage,
+    layout.logo?.path,
+    ...layout.signatures.map(signature => signature.imagePath),
+  ].filter((path): path is string => !!path)));
+
+  const images = new Map<string, Buffer>();
+  if (paths.length === 0) return images;
+
+  const objectStorageService = new ObjectStorageService();
+  await Promise.all(paths.map(async (path) => {
+    try {
+      images.set(path, await objectStorageService.readObjectEntity(path, MAX_TEMPLATE_IMAGE_BYTES));
+    } catch (error: any) {
+      console.warn(`[CERTIFICATES] Could not load template image ${path}: ${error.message || error}`);
+    }
+  }));
+  return images;
+}
+
+// Placeholder data for designer previews, shaped like the certificates the template will print
+export function getSampleCertificateDetails(template: Pick<CertificateTemplate, "certificateType" | "validityPeriod">, now: Date = new Date()): CertificateDetails {
+  const isPath = template.certificateType === "learning_path";
+  const title = isPath ? "Quality Management Essentials" : "ISO 9001:2015 Internal Auditor";
+  return {
+    certificate: {
+      id: "preview",
+      userId: "preview",
+      courseVersionId: null,
+      trainingRecordId: null,
+      learningPathId: null,
+      learningPathEnrollmentId: null,
+      certificateNumber: `${isPath ? "LP" : "CERT"}-PREVIEW-0001`,
+      certificateType: template.certificateType,
+      title,
+      issuedAt: now,
+      expiresAt: template.validityPeriod ? new Date(now.getTime() + template.validityPeriod * 24 * 60 * 60 * 1000) : null,
+      verificationHash: "preview",
+      metadata: null,
+      revokedAt: null,
+      revocationReason: null,
+      revokedBy: null,
+      reissuedFromCertificateId: null,
+      templateId: null,
+    },
+    holderName: "Alex Morgan",
+    holderFirstName: "Alex",
+    holderLastName: "Morgan",
+    courseTitle: isPath ? null : title,
+    courseVersion: isPath ? null : "2.1",
+    learningPathTitle: isPath ? title : null,
+  };
+}
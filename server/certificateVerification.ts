@@ -0,0 +1,148 @@
+import { createHash, createPrivateKey, createPublicKey, sign, verify, type KeyObject } from "crypto";
+import { storage, type CertificateDetails } from "./storage";
+
+// Signed certificate claims and the public verification lookup.
+
+// PKCS#8 DER prefix for a raw 32-byte Ed25519 seed
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+export type CertificateStatus = "valid" | "expired" | "revoked";
+
+// The fields covered by the signature. Keep this stable: external verifiers canonicalise the same shape.
+export interface CertificateClaims {
+  certificateNumber: string;
+  holderName: string;
+  title: string;
+  certificateType: string;
+  courseVersion: string | null;
+  issuedAt: string | null;
+  expiresAt: string | null;
+  revoked: boolean;
+  revokedAt: string | null;
+}
+
+export interface CertificateSignature {
+  algorithm: "Ed25519";
+  keyId: string;
+  value: string; // base64url over the canonical JSON of the claims
+}
+
+export interface CertificateVerification {
+  status: CertificateStatus;
+  claims: CertificateClaims;
+  signature: CertificateSignature;
+  verifiedAt: string;
+}
+
+let signingKeys: { privateKey: KeyObject; publicKey: KeyObject; keyId: string } | undefined;
+
+export class CertificateSigningConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CertificateSigningConfigError";
+    Object.setPrototypeOf(this, CertificateSigningConfigError.prototype);
+  }
+}
+
+// CERTIFICATE_SIGNING_PRIVATE_KEY holds an Ed25519 PKCS#8 PEM and is required outside development. In development
+// the key is derived from SESSION_SECRET so signatures stay stable across restarts.
+function getSigningKeys() {
+  if (signingKeys) return signingKeys;
+
+  let privateKey: KeyObject;
+  if (process.env.CERTIFICATE_SIGNING_PRIVATE_KEY) {
+    privateKey = createPrivateKey(process.env.CERTIFICATE_SIGNING_PRIVATE_KEY.replace(/\\n/g, "\n"));
+  } else if (process.env.NODE_ENV === "development") {
+    console.warn("[CERTIFICATES] CERTIFICATE_SIGNING_PRIVATE_KEY not set - deriving the signing key from SESSION_SECRET");
+    const seed = createHash("sha256").update(`certificate-signing:${process.env.SESSION_SECRET ?? ""}`).digest();
+    privateKey = createPrivateKey({ key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]), format: "der", type: "pkcs8" });
+  } else {
+    throw new CertificateSigningConfigError("CERTIFICATE_SIGNING_PRIVATE_KEY must be set outside development");
+  }
+
+  const publicKey = createPublicKey(privateKey);
+  const keyId = createHash("sha256")
+    .update(publicKey.export({ format: "der", type: "spki" }))
+    .digest("hex")
+    .slice(0, 16);
+
+  signingKeys = { privateKey, publicKey, keyId };
+  return signingKeys;
+}
+
+// Called at startup so a missing or unreadable signing key stops the server rather than the first certificate
+export function loadCertificateSigningKeys(): void {
+  getSigningKeys();
+}
+
+// JSON with sorted keys, so the signed bytes don't depend on property order
+export function canonicalizeCertificateClaims(claims: CertificateClaims): string {
+  const sorted = Object.keys(claims)
+    .sort()
+    .reduce<Record<string, unknown>>((acc, key) => {
+      acc[key] = claims[key as keyof CertificateClaims];
+      return acc;
+    }, {});
+  return JSON.stringify(sorted);
+}
+
+export function signCertificateClaims(claims: CertificateClaims): CertificateSignature {
+  const { privateKey, keyId } = getSigningKeys();
+  const value = sign(null, Buffer.from(canonicalizeCertificateClaims(claims)), privateKey).toString("base64url");
+  return { algorithm: "Ed25519", keyId, value };
+}
+
+export function verifyCertificateSignature(claims: CertificateClaims, signature: CertificateSignature): boolean {
+  const { publicKey, keyId } = getSigningKeys();
+  if (signature.algorithm !== "Ed25519" || signature.keyId !== keyId) return false;
+  return verify(null, Buffer.from(canonicalizeCertificateClaims(claims)), publicKey, Buffer.from(signature.value, "base64url"));
+}
+
+export function getCertificateSigningPublicKey(): { algorithm: "Ed25519"; keyId: string; publicKeyPem: string } {
+  const { publicKey, keyId } = getSigningKeys();
+  return {
+    algorithm: "Ed25519",
+    keyId,
+    publicKeyPem: publicKey.export({ format: "pem", type: "spki" }).toString(),
+  };
+}
+
+export function getCertificateTitle(details: CertificateDetails): string {
+  return details.certificate.title || details.courseTitle || details.learningPathTitle || "Certificate of Completion";
+}
+
+export function getCertificateStatus(details: CertificateDetails, now: Date = new Date()): CertificateStatus {
+  if (details.certificate.revokedAt) return "revoked";
+  if (details.certificate.expiresAt && details.certificate.expiresAt <= now) return "expired";
+  return "valid";
+}
+
+export function buildCertificateClaims(details: CertificateDetails): CertificateClaims {
+  const { certificate } = details;
+  return {
+    certificateNumber: certificate.certificateNumber,
+    holderName: details.holderName,
+    title: getCertificateTitle(details),
+    certificateType: certificate.certificateType || (certificate.learningPathId ? "learning_path" : "course"),
+    courseVersion: details.courseVersion,
+    issuedAt: certificate.issuedAt ? certificate.issuedAt.toISOString() : null,
+    expiresAt: certificate.expiresAt ? certificate.expiresAt.toISOString() : null,
+    revoked: !!certificate.revokedAt,
+    revokedAt: certificate.revokedAt ? certificate.revokedAt.toISOString() : null,
+  };
+}
+
+// Public lookup used by /verify/:verificationId. The ID is the certificate's random verification hash, not its
+// sequential number, so holders can't be enumerated. Returns undefined for unknown IDs.
+export async function getCertificateVerification(verificationId: string): Promise<CertificateVerification | undefined> {
+  const details = await storage.getCertificateDetails({ verificationHash: verificationId });
+  if (!details) return undefined;
+
+  const claims = buildCertificateClaims(details);
+  return {
+    status: getCertificateStatus(details),
+    claims,
+    signature: signCertificateClaims(claims),
+    verifiedAt: new Date().toISOString(),
+  };
+}
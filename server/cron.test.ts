@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CronError, getNextCronRun, parseCron } from "./cron";
+
+const next = (expression: string, timezone: string, after: string) =>
+  getNextCronRun(expression, timezone, new Date(after)).toISOString();
+
+describe("parseCron", () => {
+  it("reads ranges, steps, names and macros", () => {
+    const schedule = parseCron("*/15 8-18/5 * jan,Jul MON-FRI");
+    assert.deepEqual(Array.from(schedule.minutes), [0, 15, 30, 45]);
+    assert.deepEqual(Array.from(schedule.hours), [8, 13, 18]);
+    assert.deepEqual(Array.from(schedule.months), [1, 7]);
+    assert.deepEqual(Array.from(schedule.daysOfWeek), [1, 2, 3, 4, 5]);
+    assert.deepEqual(Array.from(parseCron("@weekly").daysOfWeek), [0]);
+    assert.deepEqual(Array.from(parseCron("0 0 * * 7").daysOfWeek), [0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    for (const expression of ["0 9 * *", "60 * * * *", "0 9 * * MON-SUN", "*/0 * * * *", "0 9 * * weekday"]) {
+      assert.throws(() => parseCron(expression), CronError, expression);
+    }
+  });
+});
+
+describe("getNextCronRun", () => {
+  it("runs strictly after the given time, in the schedule's timezone", () => {
+    assert.equal(next("0 9 * * 1-5", "America/New_York", "2026-01-09T14:00:00Z"), "2026-01-12T14:00:00.000Z");
+    assert.equal(next("0 9 * * *", "UTC", "2026-01-09T09:00:00Z"), "2026-01-10T09:00:00.000Z");
+  });
+
+  it("runs on a day matching either day field when both are restricted", () => {
+    // 13 February 2026 is a Friday
+    assert.equal(next("0 9 13 * FRI", "UTC", "2026-02-13T10:00:00Z"), "2026-02-20T09:00:00.000Z");
+    assert.equal(next("0 9 13 * *", "UTC", "2026-02-13T10:00:00Z"), "2026-03-13T09:00:00.000Z");
+  });
+
+  it("skips a local time that daylight saving jumps over and keeps the wall-clock hour after it", () => {
+    // Clocks in London go from 01:00 to 02:00 on 29 March 2026
+    assert.equal(next("30 1 * * *", "Europe/London", "2026-03-28T12:00:00Z"), "2026-03-30T00:30:00.000Z");
+    assert.equal(next("0 9 * * *", "Europe/London", "2026-03-28T12:00:00Z"), "2026-03-29T08:00:00.000Z");
+  });
+
+  it("finds a leap day and gives up on dates that never come", () => {
+    assert.equal(next("0 0 29 2 *", "UTC", "2026-01-01T00:00:00Z"), "2028-02-29T00:00:00.000Z");
+    assert.throws(() => getNextCronRun("0 0 31 2 *", "UTC", new Date("2026-01-01T00:00:00Z")), CronError);
+  });
+});
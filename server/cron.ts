@@ -0,0 +1,190 @@
+// Five-field cron expressions ("minute hour day-of-month month day-of-week") read in an IANA timezone.
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+    Object.setPrototypeOf(this, CronError.prototype);
+  }
+}
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+// Shorthands people paste from crontab(5)
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+// Far enough to reach 29 February from any date, with room for leap-year gaps around 2100
+const MAX_SEARCH_DAYS = 8 * 366;
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesStartAt?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesStartAt: 1 },
+  { name: "day of week", min: 0, max: 7, names: WEEKDAY_NAMES, namesStartAt: 0 },
+];
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const upper = value.toUpperCase();
+  const named = spec.names?.indexOf(upper) ?? -1;
+  if (named >= 0) return named + (spec.namesStartAt ?? 0);
+  if (!/^\d+$/.test(value)) {
+    throw new CronError(`Invalid ${spec.name} value "${value}"`);
+  }
+  const number = parseInt(value, 10);
+  if (number < spec.min || number > spec.max) {
+    throw new CronError(`${spec.name} must be between ${spec.min} and ${spec.max}, got ${number}`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new CronError(`Invalid step "${stepText}" in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new CronError(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+// Fields take *, numbers, ranges (1-5), lists (1,15), steps (*/15, 8-18/2) and JAN-DEC / SUN-SAT names; 7 is also Sunday
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError("Use five fields: minute hour day-of-month month day-of-week");
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !fields[2].startsWith("*"),
+    dayOfWeekRestricted: !fields[4].startsWith("*"),
+  };
+}
+
+interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+function localTime(at: Date, timezone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    weekday: "short",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+  return {
+    year: parseInt(part("year"), 10),
+    month: parseInt(part("month"), 10),
+    day: parseInt(part("day"), 10),
+    hour: parseInt(part("hour"), 10),
+    minute: parseInt(part("minute"), 10),
+    weekday: WEEKDAY_NAMES.indexOf(part("weekday").toUpperCase()),
+  };
+}
+
+// As in Vixie cron, when both day fields are restricted a day matching either one runs
+function matchesDay(schedule: CronSchedule, local: LocalTime): boolean {
+  if (!schedule.months.has(local.month)) return false;
+  const dayOfMonth = schedule.daysOfMonth.has(local.day);
+  const dayOfWeek = schedule.daysOfWeek.has(local.weekday);
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// The first matching minute strictly after `after`. Steps a day, hour or minute at a time in local time, re-reading
+// the wall clock after each step so DST changes are handled; a time skipped by spring-forward doesn't run that day.
+export function getNextCronRun(expression: string | CronSchedule, timezone: string, after: Date): Date {
+  const schedule = typeof expression === "string" ? parseCron(expression) : expression;
+  let candidate = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * MINUTE_MS;
+
+  while (candidate.getTime() <= limit) {
+    const local = localTime(candidate, timezone);
+    if (!matchesDay(schedule, local)) {
+      candidate = new Date(candidate.getTime() + ((23 - local.hour) * 60 + (60 - local.minute)) * MINUTE_MS);
+      continue;
+    }
+    if (!schedule.hours.has(local.hour)) {
+      candidate = new Date(candidate.getTime() + (60 - local.minute) * MINUTE_MS);
+      continue;
+    }
+    if (!schedule.minutes.has(local.minute)) {
+      candidate = new Date(candidate.getTime() + MINUTE_MS);
+      continue;
+    }
+    return candidate;
+  }
+  throw new CronError("The schedule never runs");
+}
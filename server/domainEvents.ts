@@ -0,0 +1,265 @@
+import type { DomainEvent, DomainEventPayloads, DomainEventType } from "@shared/schema";
+import { storage } from "./storage";
+import { calculateWebhookBackoffMs } from "./webhookDelivery";
+import { getCertificateTitle } from "./certificateVerification";
+
+// Hands domain_events rows to the subscribers registered below, at least once and retrying only the ones that failed.
+
+export interface DomainEventSubscriber {
+  name: string;
+  eventTypes: DomainEventType[] | "*";
+  handle(event: DomainEvent): Promise<void>;
+}
+
+const LEASE_MS = 5 * 60 * 1000;
+
+function maxAttempts(): number {
+  const value = parseInt(process.env.DOMAIN_EVENT_MAX_ATTEMPTS || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : 8;
+}
+
+export class DomainEventError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "DomainEventError";
+    Object.setPrototypeOf(this, DomainEventError.prototype);
+  }
+}
+
+const subscribers: DomainEventSubscriber[] = [];
+
+export function registerDomainEventSubscriber(subscriber: DomainEventSubscriber) {
+  if (subscribers.some(existing => existing.name === subscriber.name)) {
+    throw new Error(`Domain event subscriber "${subscriber.name}" is already registered`);
+  }
+  subscribers.push(subscriber);
+}
+
+export function getDomainEventSubscribers(): Array<{ name: string; eventTypes: DomainEventType[] | "*" }> {
+  return subscribers.map(({ name, eventTypes }) => ({ name, eventTypes }));
+}
+
+function payloadOf<T extends DomainEventType>(event: DomainEvent, _eventType: T): DomainEventPayloads[T] {
+  return event.payload as DomainEventPayloads[T];
+}
+
+// ---------------------------------------------------------------------------
+// Built-in subscribers
+// ---------------------------------------------------------------------------
+
+// Webhooks configured for "domain_event" receive every event type they list, or all of them with "*".
+// event_id is stable across retries so receivers can drop duplicates.
+registerDomainEventSubscriber({
+  name: "webhooks",
+  eventTypes: "*",
+  async handle(event) {
+    const configs = await storage.getWebhookConfigsForDomainEvent(event.eventType);
+    for (const config of configs) {
+      await storage.enqueueWebhookDelivery({
+        webhookConfigId: config.id,
+        eventType: "domain_event",
+        payload: {
+          event: event.eventType,
+          event_id: event.id,
+          occurred_at: event.occurredAt.toISOString(),
+          aggregate_type: event.aggregateType,
+          aggregate_id: event.aggregateId,
+          user_id: event.userId,
+          actor_id: event.actorId,
+          data: event.payload,
+        },
+        triggeredBy: event.actorId ?? "system",
+      });
+    }
+  },
+});
+
+// In-app notifications for the learner; triggerLMSNotification applies their preferences
+registerDomainEventSubscriber({
+  name: "notifications",
+  eventTypes: [
+    "enrollment.created",
+    "enrollment.completed",
+    "quiz.passed",
+    "quiz.failed",
+    "certificate.issued",
+    "certificate.revoked",
+    "badge.awarded",
+    "objective.at_risk",
+  ],
+  async handle(event) {
+    switch (event.eventType) {
+      case "enrollment.created": {
+        const { enrollmentId, userId, courseVersionId } = payloadOf(event, "enrollment.created");
+        const courseTitle = await storage.getCourseTitleForVersion(courseVersionId);
+        await storage.notifyEnrollment(userId, courseTitle || "Course", enrollmentId);
+        break;
+      }
+      case "enrollment.completed": {
+        const { enrollmentId, userId, courseVersionId } = payloadOf(event, "enrollment.completed");
+        const courseTitle = await storage.getCourseTitleForVersion(courseVersionId);
+        await storage.notifyCourseCompletion(userId, courseTitle || "Course", enrollmentId);
+        break;
+      }
+      case "quiz.passed":
+      case "quiz.failed": {
+        const { quizId, userId, score } = payloadOf(event, "quiz.passed");
+        const quiz = await storage.getQuizById(quizId);
+        const lesson = quiz ? await storage.getLesson(quiz.lessonId) : undefined;
+        const lessonTitle = lesson?.title || "Lesson";
+        if (event.eventType === "quiz.passed") {
+          await storage.notifyQuizPassed(userId, lessonTitle, score, quizId);
+        } else {
+          await storage.notifyQuizFailed(userId, lessonTitle, score, quizId);
+        }
+        break;
+      }
+      case "certificate.issued": {
+        const { certificateId, userId, title } = payloadOf(event, "certificate.issued");
+        const details = await storage.getCertificateDetails({ certificateId });
+        await storage.notifyCertificateIssued(userId, details ? getCertificateTitle(details) : title || "your course", certificateId);
+        break;
+      }
+      case "certificate.revoked": {
+        // A reissue revokes the original; the holder hears about the replacement instead
+        const { certificateId, userId, title, reason, replacedByCertificateId } = payloadOf(event, "certificate.revoked");
+        if (replacedByCertificateId) break;
+        const details = await storage.getCertificateDetails({ certificateId });
+        await storage.notifyCertificateRevoked(userId, details ? getCertificateTitle(details) : title || "your course", certificateId, reason);
+        break;
+      }
+      case "badge.awarded": {
+        const { badgeId, userId } = payloadOf(event, "badge.awarded");
+        const badge = await storage.getBadge(badgeId);
+        if (badge) await storage.notifyBadgeAwarded(userId, badge.name, badgeId);
+        break;
+      }
+      case "objective.at_risk": {
+        // Only the objectives that newly went red are named; the owner already heard about the others
+        const { objectiveId, ownerId, newlyBlockedBy } = payloadOf(event, "objective.at_risk");
+        const [objective] = await storage.getCompanyObjectivesByIds([objectiveId]);
+        if (!objective?.isActive || !objective.blockedBy?.length) break;
+        const blockers = await storage.getCompanyObjectivesByIds(newlyBlockedBy);
+        await storage.notifyObjectiveAtRisk(ownerId, objectiveId, objective.title, blockers.map(blocker => blocker.title), objective.endDate);
+        break;
+      }
+    }
+  },
+});
+
+// Automation rules still name their trigger with the older automationTriggerEventEnum strings
+function getAutomationTrigger(event: DomainEvent): string | undefined {
+  switch (event.eventType) {
+    case "enrollment.completed": return "course_completed";
+    case "quiz.passed": return "quiz_passed";
+    case "quiz.failed": return "quiz_failed";
+    case "badge.awarded": return "badge_earned";
+    case "user.created": return "user_created";
+    case "user.role_changed": return "role_changed";
+    case "user.team_changed": return "team_changed";
+    case "competency.status_changed": {
+      const { newStatus } = payloadOf(event, "competency.status_changed");
+      return newStatus === "non_compliant" || newStatus === "expired" ? "competency_gap_identified" : undefined;
+    }
+    default: return undefined;
+  }
+}
+
+registerDomainEventSubscriber({
+  name: "automation",
+  eventTypes: [
+    "enrollment.completed",
+    "quiz.passed",
+    "quiz.failed",
+    "badge.awarded",
+    "user.created",
+    "user.role_changed",
+    "user.team_changed",
+    "competency.status_changed",
+  ],
+  async handle(event) {
+    const trigger = getAutomationTrigger(event);
+    if (!trigger || !event.userId) return;
+    const result = await storage.executeAutomationRulesForUser(event.userId, trigger);
+    if (result.totalRules > 0) {
+      console.log(`[AUDIT] ${event.eventType} ran ${trigger} automation for user ${event.userId} - Rules: ${result.totalRules}, Executed: ${result.executed}, Enrollments: ${result.enrollments}`);
+    }
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Dispatch
+// ---------------------------------------------------------------------------
+
+async function dispatchDomainEvent(event: DomainEvent): Promise<string[]> {
+  const runs = await storage.getDomainEventSubscriberRuns(event.id);
+  const succeeded = new Set(runs.filter(run => run.status === "succeeded").map(run => run.subscriber));
+  const errors: string[] = [];
+
+  for (const subscriber of subscribers) {
+    const wanted = subscriber.eventTypes === "*" || subscriber.eventTypes.includes(event.eventType as DomainEventType);
+    if (!wanted || succeeded.has(subscriber.name)) continue;
+    try {
+      await subscriber.handle(event);
+      await storage.recordDomainEventSubscriberRun(event.id, subscriber.name, null);
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      errors.push(`${subscriber.name}: ${message}`);
+      await storage.recordDomainEventSubscriberRun(event.id, subscriber.name, message);
+    }
+  }
+  return errors;
+}
+
+// Processes every event that is due, oldest first. Called by the "domain_events" scheduler job.
+export async function processDomainEvents(limit: number = 100): Promise<{
+  processed: number;
+  retrying: number;
+  failed: number;
+}> {
+  const summary = { processed: 0, retrying: 0, failed: 0 };
+  const due = await storage.getDueDomainEvents(limit);
+
+  for (const candidate of due) {
+    const claimed = await storage.claimDomainEvent(candidate.id, LEASE_MS);
+    if (!claimed) continue;
+
+    const errors = await dispatchDomainEvent(claimed);
+    if (errors.length === 0) {
+      await storage.updateDomainEvent(claimed.id, { status: "processed", processedAt: new Date(), lastError: null });
+      summary.processed++;
+    } else if (claimed.attempts >= maxAttempts()) {
+      await storage.updateDomainEvent(claimed.id, { status: "failed", lastError: errors.join("; ") });
+      console.error(`[DOMAIN EVENTS] ${claimed.eventType} ${claimed.id} failed after ${claimed.attempts} attempts: ${errors.join("; ")}`);
+      summary.failed++;
+    } else {
+      await storage.updateDomainEvent(claimed.id, {
+        status: "pending",
+        lastError: errors.join("; "),
+        nextAttemptAt: new Date(Date.now() + calculateWebhookBackoffMs(claimed.attempts)),
+      });
+      summary.retrying++;
+    }
+  }
+
+  return summary;
+}
+
+export async function retryDomainEvent(eventId: string): Promise<DomainEvent> {
+  const event = await storage.getDomainEvent(eventId);
+  if (!event) {
+    throw new DomainEventError("Domain event not found", 404);
+  }
+  const retried = await storage.retryDomainEvent(eventId);
+  if (!retried) {
+    throw new DomainEventError("Only failed events can be retried", 409);
+  }
+  return retried;
+}
+
+// Processed events older than DOMAIN_EVENT_RETENTION_DAYS (default 30) are deleted; failed ones are kept for review
+export async function pruneDomainEvents(now: Date): Promise<number> {
+  const retentionDays = parseInt(process.env.DOMAIN_EVENT_RETENTION_DAYS || "", 10);
+  const days = Number.isFinite(retentionDays) && retentionDays > 0 ? retentionDays : 30;
+  return await storage.deleteProcessedDomainEventsBefore(new Date(now.getTime() - days * 24 * 60 * 60 * 1000));
+}
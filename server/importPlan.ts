@@ -0,0 +1,61 @@
+// Types shared by the bulk import service (bulkImport.ts) and the storage methods that apply and reverse batches
+
+export const IMPORT_TYPES = ["users", "training_records", "competency_evidence"] as const;
+export type ImportType = typeof IMPORT_TYPES[number];
+
+export const IMPORT_ENTITY_TYPES = [
+  "department",
+  "team",
+  "user",
+  "team_member",
+  "enrollment",
+  "training_record",
+  "certificate",
+  "competency_evidence",
+] as const;
+export type ImportEntityType = typeof IMPORT_ENTITY_TYPES[number];
+
+// Most rows a single spreadsheet may contain
+export const MAX_IMPORT_ROWS = 5000;
+
+// One write in a batch. Ids for created rows are assigned while planning so later operations can refer to them.
+export interface ImportOperation {
+  entityType: ImportEntityType;
+  action: "create" | "update";
+  id: string;
+  rowNumber: number | null;
+  values: Record<string, unknown>;
+}
+
+export interface ImportRowError {
+  row: number; // Spreadsheet row, counting the header as row 1
+  column?: string;
+  message: string;
+}
+
+export interface ImportReport {
+  importType: ImportType;
+  totalRows: number;
+  validRows: number;
+  errors: ImportRowError[];
+  // Creates and updates per entity type that a commit would apply
+  planned: Partial<Record<ImportEntityType, { created: number; updated: number }>>;
+}
+
+export class ImportBatchError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400, public readonly report?: ImportReport) {
+    super(message);
+    this.name = "ImportBatchError";
+    Object.setPrototypeOf(this, ImportBatchError.prototype);
+  }
+}
+
+export function summarizeOperations(operations: ImportOperation[]): ImportReport["planned"] {
+  const planned: ImportReport["planned"] = {};
+  for (const operation of operations) {
+    const counts = planned[operation.entityType] ??= { created: 0, updated: 0 };
+    if (operation.action === "create") counts.created++;
+    else counts.updated++;
+  }
+  return planned;
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { jobScheduler } from "./scheduler";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +68,10 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Set SCHEDULER_ENABLED=false on instances that should only serve HTTP traffic
+    if (process.env.SCHEDULER_ENABLED !== "false") {
+      jobScheduler.start();
+    }
   });
 })();
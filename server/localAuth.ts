@@ -0,0 +1,185 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express } from "express";
+import type { User, UserCredential } from "@shared/schema";
+import { storage } from "./storage";
+import { buildSessionUser, sessionExpiry, type AuthProvider } from "./authProvider";
+
+// Username/password sign-in for installs without an identity provider, e.g. offline training rooms.
+
+const STRATEGY_NAME = "local";
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+export const PASSWORD_MIN_LENGTH = envNumber("AUTH_PASSWORD_MIN_LENGTH", 10);
+const LOCKOUT_THRESHOLD = envNumber("AUTH_LOCKOUT_THRESHOLD", 5);
+const LOCKOUT_MINUTES = envNumber("AUTH_LOCKOUT_MINUTES", 15);
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export class LocalAuthError extends Error {
+  constructor(message: string, public reason: "invalid_credentials" | "locked" | "deactivated" | "invalid_password") {
+    super(message);
+    this.name = "LocalAuthError";
+    Object.setPrototypeOf(this, LocalAuthError.prototype);
+  }
+}
+
+function deriveKey(password: string, salt: Buffer, params: ScryptOptions, keyLength: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, keyLength, { ...params, maxmem: 64 * 1024 * 1024 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+// Stored as scrypt$N$r$p$salt$hash so the cost can be raised later without invalidating existing hashes
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS, KEY_LENGTH);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return ["scrypt", N, r, p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = storedHash.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const key = await deriveKey(password, Buffer.from(salt, "base64"), { N: Number(N), r: Number(r), p: Number(p) }, expected.length);
+  return timingSafeEqual(key, expected);
+}
+
+// Returns a message for the user, or null when the password is acceptable
+export function validatePasswordStrength(password: string, username?: string): string | null {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  if (username && password.toLowerCase().includes(username.toLowerCase())) {
+    return "Password must not contain the username";
+  }
+  return null;
+}
+
+// Compared against when the username doesn't exist, so response time doesn't reveal which usernames are real
+let dummyHash: Promise<string> | null = null;
+
+function isLocked(credential: UserCredential, now: Date): boolean {
+  return !!credential.lockedUntil && credential.lockedUntil > now;
+}
+
+export async function authenticateLocalUser(username: string, password: string): Promise<User> {
+  const now = new Date();
+  const credential = await storage.getUserCredentialByUsername(username);
+  if (!credential) {
+    dummyHash ??= hashPassword(randomBytes(16).toString("hex"));
+    await verifyPassword(password, await dummyHash);
+    throw new LocalAuthError("Invalid username or password", "invalid_credentials");
+  }
+
+  if (isLocked(credential, now)) {
+    throw new LocalAuthError("This account is temporarily locked after too many failed sign-in attempts. Try again later.", "locked");
+  }
+
+  if (!(await verifyPassword(password, credential.passwordHash))) {
+    const lockedUntil = new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000);
+    const updated = await storage.recordFailedLogin(credential.userId, LOCKOUT_THRESHOLD, lockedUntil, now);
+    if (updated && isLocked(updated, now)) {
+      console.log(`[AUDIT] Local account ${credential.username} locked until ${updated.lockedUntil?.toISOString()} after ${updated.failedLoginAttempts} failed sign-ins`);
+      throw new LocalAuthError("This account is temporarily locked after too many failed sign-in attempts. Try again later.", "locked");
+    }
+    throw new LocalAuthError("Invalid username or password", "invalid_credentials");
+  }
+
+  const user = await storage.getUser(credential.userId);
+  if (!user) {
+    throw new LocalAuthError("Invalid username or password", "invalid_credentials");
+  }
+  if (!user.isActive) {
+    throw new LocalAuthError("This account has been deactivated", "deactivated");
+  }
+  await storage.recordSuccessfulLogin(credential.userId);
+  return user;
+}
+
+export async function setLocalPassword(userId: string, username: string, password: string): Promise<UserCredential> {
+  const strengthIssue = validatePasswordStrength(password, username);
+  if (strengthIssue) {
+    throw new LocalAuthError(strengthIssue, "invalid_password");
+  }
+  return await storage.upsertUserCredential({
+    userId,
+    username,
+    passwordHash: await hashPassword(password),
+    passwordChangedAt: new Date(),
+  });
+}
+
+// Lets an offline install create its first leadership account from LOCAL_AUTH_BOOTSTRAP_USERNAME/PASSWORD
+async function bootstrapLocalAdmin() {
+  const username = process.env.LOCAL_AUTH_BOOTSTRAP_USERNAME;
+  const password = process.env.LOCAL_AUTH_BOOTSTRAP_PASSWORD;
+  if (!username || !password) return;
+  if (await storage.getUserCredentialByUsername(username)) return;
+
+  const email = process.env.LOCAL_AUTH_BOOTSTRAP_EMAIL ?? `${username.toLowerCase()}@wegrow.local`;
+  const user = await storage.getUserByEmail(email) ?? await storage.upsertUser({
+    id: `local-${username.toLowerCase()}`,
+    email,
+    firstName: username,
+    lastName: null,
+    role: "leadership",
+  });
+  await setLocalPassword(user.id, username, password);
+  console.log(`[AUDIT] Bootstrap local account ${username} created for user ${user.id}`);
+}
+
+export function createLocalAuthProvider(): AuthProvider {
+  return {
+    name: "local",
+
+    async setup(app: Express) {
+      passport.use(STRATEGY_NAME, new LocalStrategy(async (username, password, done) => {
+        try {
+          const user = await authenticateLocalUser(username, password);
+          done(null, buildSessionUser("local", user, sessionExpiry()));
+        } catch (error) {
+          if (error instanceof LocalAuthError) {
+            return done(null, false, { message: error.message });
+          }
+          done(error);
+        }
+      }));
+
+      await bootstrapLocalAdmin();
+
+      // The sign-in form lives in the client
+      app.get("/api/login", (_req, res) => {
+        res.redirect("/login");
+      });
+
+      app.post("/api/auth/local/login", (req, res, next) => {
+        passport.authenticate(STRATEGY_NAME, (error: any, user: Express.User | false, info?: { message?: string }) => {
+          if (error) return next(error);
+          if (!user) {
+            return res.status(401).json({ message: info?.message || "Invalid username or password" });
+          }
+          req.login(user, (loginError) => {
+            if (loginError) return next(loginError);
+            res.json({ message: "Signed in" });
+          });
+        })(req, res, next);
+      });
+
+      app.get("/api/logout", (req, res) => {
+        req.logout(() => {
+          res.redirect("/");
+        });
+      });
+    },
+  };
+}
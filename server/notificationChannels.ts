@@ -0,0 +1,429 @@
+import nodemailer from "nodemailer";
+import type { NotificationChannelSettings, NotificationDelivery } from "@shared/schema";
+import { storage, type DigestItem } from "./storage";
+import { calculateWebhookBackoffMs } from "./webhookDelivery";
+
+// Email and SMS copies of notifications, held until quiet hours end unless urgent, plus digest emails.
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: Array<{ filename: string; content: Buffer; contentType: string }>;
+}
+
+export interface OutgoingSms {
+  to: string;
+  body: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: OutgoingEmail): Promise<{ messageId?: string }>;
+}
+
+export interface SmsProvider {
+  name: string;
+  send(message: OutgoingSms): Promise<{ messageId?: string }>;
+}
+
+export class NotificationChannelError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "NotificationChannelError";
+    Object.setPrototypeOf(this, NotificationChannelError.prototype);
+  }
+}
+
+const LEASE_MS = 2 * 60 * 1000;
+const DIGEST_HORIZON_DAYS = 7;
+const DIGEST_MIN_GAP_MS = 20 * 60 * 60 * 1000;
+const SMS_MAX_LENGTH = 480;
+
+function maxAttempts(): number {
+  const value = parseInt(process.env.NOTIFICATION_DELIVERY_MAX_ATTEMPTS || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : 5;
+}
+
+// ---------------------------------------------------------------------------
+// Transports
+// ---------------------------------------------------------------------------
+
+// NOTIFICATION_EMAIL_TRANSPORT=fake and SMS_PROVIDER=fake record messages here instead of sending them
+export const fakeOutbox = {
+  emails: [] as OutgoingEmail[],
+  sms: [] as OutgoingSms[],
+  clear() {
+    this.emails.length = 0;
+    this.sms.length = 0;
+  },
+};
+
+// Configured by SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD and SMTP_FROM
+function createSmtpTransport(): EmailTransport | null {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM;
+  if (!host || !from) return null;
+  const port = parseInt(process.env.SMTP_PORT || "", 10) || 587;
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+  });
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail({ from, ...message });
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+let emailTransport: EmailTransport | null | undefined;
+let smsProvider: SmsProvider | null | undefined;
+
+const smsProviderFactories = new Map<string, () => SmsProvider | null>();
+
+export function registerSmsProvider(name: string, factory: () => SmsProvider | null) {
+  smsProviderFactories.set(name, factory);
+  smsProvider = undefined;
+}
+
+registerSmsProvider("fake", () => ({
+  name: "fake",
+  async send(message) {
+    fakeOutbox.sms.push(message);
+    return { messageId: `fake-sms-${fakeOutbox.sms.length}` };
+  },
+}));
+
+registerSmsProvider("twilio", () => {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const from = process.env.TWILIO_FROM_NUMBER;
+  if (!accountSid || !authToken || !from) return null;
+  return {
+    name: "twilio",
+    async send(message) {
+      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ To: message.to, From: from, Body: message.body }).toString(),
+        signal: AbortSignal.timeout(15000),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(`Twilio returned ${response.status}: ${result.message || response.statusText}`);
+      }
+      return { messageId: result.sid };
+    },
+  };
+});
+
+export function getEmailTransport(): EmailTransport | null {
+  if (emailTransport === undefined) {
+    const mode = process.env.NOTIFICATION_EMAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "");
+    emailTransport = mode === "fake"
+      ? {
+          name: "fake",
+          async send(message) {
+            fakeOutbox.emails.push(message);
+            return { messageId: `fake-email-${fakeOutbox.emails.length}` };
+          },
+        }
+      : mode === "smtp" ? createSmtpTransport() : null;
+  }
+  return emailTransport;
+}
+
+// The provider named by SMS_PROVIDER; "twilio" is built in and others can be added with registerSmsProvider
+export function getSmsProvider(): SmsProvider | null {
+  if (smsProvider === undefined) {
+    const factory = smsProviderFactories.get(process.env.SMS_PROVIDER || "");
+    smsProvider = factory ? factory() : null;
+  }
+  return smsProvider;
+}
+
+export function getChannelAvailability() {
+  return { email: !!getEmailTransport(), sms: !!getSmsProvider() };
+}
+
+// ---------------------------------------------------------------------------
+// Quiet hours and local time
+// ---------------------------------------------------------------------------
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock time for the user; an unknown timezone falls back to UTC
+function localClock(timezone: string, at: Date): { hour: number; minutes: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: isValidTimezone(timezone) ? timezone : "UTC",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+  const hour = parseInt(part("hour"), 10);
+  return { hour, minutes: hour * 60 + parseInt(part("minute"), 10), weekday: WEEKDAYS.indexOf(part("weekday")) };
+}
+
+function clockMinutes(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// When the user's quiet hours end, or null if `at` is outside them. "22:00"-"07:00" spans midnight.
+export function getQuietHoursEnd(settings: Pick<NotificationChannelSettings, "quietHoursStart" | "quietHoursEnd" | "timezone">, at: Date): Date | null {
+  if (!settings.quietHoursStart || !settings.quietHoursEnd) return null;
+  const start = clockMinutes(settings.quietHoursStart);
+  const end = clockMinutes(settings.quietHoursEnd);
+  if (start === end) return null;
+  const now = localClock(settings.timezone, at).minutes;
+  const quiet = start < end ? now >= start && now < end : now >= start || now < end;
+  if (!quiet) return null;
+  return new Date(at.getTime() + ((end - now + 1440) % 1440) * 60 * 1000);
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+function appBaseUrl(): string {
+  const configured = process.env.APP_BASE_URL;
+  if (configured) return configured.replace(/\/+$/, "");
+  const domain = process.env.REPLIT_DOMAINS?.split(",")[0];
+  return domain ? `https://${domain}` : "http://localhost:5000";
+}
+
+export function absoluteUrl(path: string): string {
+  return /^https?:\/\//.test(path) ? path : `${appBaseUrl()}${path.startsWith("/") ? "" : "/"}${path}`;
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const EMAIL_FOOTER = "You can choose which emails you get, and set quiet hours, under Notification Preferences.";
+
+function renderEmail(delivery: NotificationDelivery): OutgoingEmail {
+  const link = delivery.actionUrl ? absoluteUrl(delivery.actionUrl) : null;
+  const text = [delivery.body, link, EMAIL_FOOTER].filter(Boolean).join("\n\n");
+  const paragraphs = delivery.body.split(/\n{2,}/).map(block => `<p>${escapeHtml(block).replace(/\n/g, "<br>")}</p>`);
+  const html = [
+    ...paragraphs,
+    link ? `<p><a href="${escapeHtml(link)}">Open in WeGrow</a></p>` : "",
+    `<p style="color:#6b7280;font-size:12px">${escapeHtml(EMAIL_FOOTER)}</p>`,
+  ].join("\n");
+  return { to: delivery.recipient, subject: delivery.subject || "WeGrow notification", text, html };
+}
+
+function renderSms(delivery: NotificationDelivery): OutgoingSms {
+  const link = delivery.actionUrl ? ` ${absoluteUrl(delivery.actionUrl)}` : "";
+  const room = SMS_MAX_LENGTH - link.length;
+  const body = delivery.body.length > room ? `${delivery.body.slice(0, room - 1)}…` : delivery.body;
+  return { to: delivery.recipient, body: `${body}${link}` };
+}
+
+// ---------------------------------------------------------------------------
+// Sending
+// ---------------------------------------------------------------------------
+
+async function sendDelivery(delivery: NotificationDelivery): Promise<{ messageId?: string }> {
+  if (delivery.channel === "email") {
+    const transport = getEmailTransport();
+    if (!transport) throw new NotificationChannelError("Email is not configured; set SMTP_HOST and SMTP_FROM");
+    return await transport.send(renderEmail(delivery));
+  }
+  if (delivery.channel === "sms") {
+    const provider = getSmsProvider();
+    if (!provider) throw new NotificationChannelError("SMS is not configured; set SMS_PROVIDER");
+    return await provider.send(renderSms(delivery));
+  }
+  throw new NotificationChannelError(`Channel ${delivery.channel} is not delivered by this queue`);
+}
+
+// Sends every delivery that is due. Called by the "notification_deliveries" scheduler job.
+export async function processDueNotificationDeliveries(limit: number = 50): Promise<{
+  sent: number;
+  deferred: number;
+  retrying: number;
+  failed: number;
+}> {
+  const summary = { sent: 0, deferred: 0, retrying: 0, failed: 0 };
+  const due = await storage.getDueNotificationDeliveries(limit);
+
+  for (const candidate of due) {
+    const claimed = await storage.claimNotificationDelivery(candidate.id, LEASE_MS);
+    if (!claimed) continue;
+
+    const settings = claimed.priority === "urgent" ? undefined : await storage.getNotificationChannelSettings(claimed.userId);
+    const quietUntil = settings ? getQuietHoursEnd(settings, new Date()) : null;
+    if (quietUntil) {
+      await storage.updateNotificationDelivery(claimed.id, { status: "pending", nextAttemptAt: quietUntil });
+      summary.deferred++;
+      continue;
+    }
+
+    const attempts = claimed.attempts + 1;
+    try {
+      const result = await sendDelivery(claimed);
+      await storage.updateNotificationDelivery(claimed.id, {
+        status: "sent",
+        attempts,
+        sentAt: new Date(),
+        providerMessageId: result.messageId ?? null,
+        lastError: null,
+      });
+      summary.sent++;
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      // A channel that isn't configured won't fix itself between retries
+      if (error instanceof NotificationChannelError || attempts >= maxAttempts()) {
+        await storage.updateNotificationDelivery(claimed.id, { status: "failed", attempts, lastError: message });
+        summary.failed++;
+      } else {
+        await storage.updateNotificationDelivery(claimed.id, {
+          status: "pending",
+          attempts,
+          lastError: message,
+          nextAttemptAt: new Date(Date.now() + calculateWebhookBackoffMs(attempts)),
+        });
+        summary.retrying++;
+      }
+    }
+  }
+
+  return summary;
+}
+
+// Queues a test message to the user on one channel; urgent, so quiet hours don't hold it back
+export async function queueTestDelivery(userId: string, channel: "email" | "sms"): Promise<NotificationDelivery> {
+  const availability = getChannelAvailability();
+  if (!availability[channel]) {
+    throw new NotificationChannelError(`${channel === "email" ? "Email" : "SMS"} is not set up on this server`, 409);
+  }
+  const user = await storage.getUser(userId);
+  const recipient = channel === "email" ? user?.email : user?.mobilePhone;
+  if (!recipient) {
+    throw new NotificationChannelError(channel === "email" ? "Your profile has no email address" : "Add a mobile number to your profile first");
+  }
+  const [delivery] = await storage.createNotificationDeliveries([{
+    userId,
+    channel,
+    kind: "notification",
+    priority: "urgent",
+    recipient,
+    subject: "WeGrow test message",
+    body: "This is a test message. If you can read it, WeGrow can reach you here.",
+  }]);
+  return delivery;
+}
+
+// ---------------------------------------------------------------------------
+// Digests
+// ---------------------------------------------------------------------------
+
+// Due in the user's digest hour (and weekday, for weekly digests), at most once in that hour
+export function isDigestDue(settings: NotificationChannelSettings, now: Date): boolean {
+  if (settings.digestFrequency === "off") return false;
+  const clock = localClock(settings.timezone, now);
+  if (clock.hour !== settings.digestHour) return false;
+  if (settings.digestFrequency === "weekly" && clock.weekday !== settings.digestDayOfWeek) return false;
+  return !settings.lastDigestSentAt || now.getTime() - settings.lastDigestSentAt.getTime() >= DIGEST_MIN_GAP_MS;
+}
+
+const DIGEST_ITEM_LABELS: Record<DigestItem["type"], string> = {
+  training_overdue: "Overdue",
+  training_due: "Due",
+  goal_deadline: "Goal due",
+};
+
+function formatDigestItems(items: DigestItem[], timezone: string): string[] {
+  const formatter = new Intl.DateTimeFormat("en-GB", {
+    timeZone: isValidTimezone(timezone) ? timezone : "UTC",
+    day: "numeric",
+    month: "short",
+  });
+  return items.map(item => `- ${DIGEST_ITEM_LABELS[item.type]} ${formatter.format(item.dueDate)}: ${item.title}`);
+}
+
+export function buildDigestBody(
+  ownItems: DigestItem[],
+  reportItems: Array<{ name: string; items: DigestItem[] }>,
+  timezone: string
+): string {
+  const sections: string[] = [];
+  if (ownItems.length > 0) {
+    sections.push(["Your training and goals:", ...formatDigestItems(ownItems, timezone)].join("\n"));
+  }
+  if (reportItems.length > 0) {
+    sections.push(["Your team:", ...reportItems.map(report => {
+      const overdue = report.items.filter(item => item.type === "training_overdue").length;
+      const summary = overdue > 0 ? ` (${overdue} overdue)` : "";
+      return [`${report.name}${summary}`, ...formatDigestItems(report.items, timezone).map(line => `  ${line}`)].join("\n");
+    })].join("\n"));
+  }
+  return sections.join("\n\n");
+}
+
+// Queues digest emails for users whose digest is due. Called by the "notification_digests" scheduler job.
+export async function sendNotificationDigests(now: Date): Promise<{ checked: number; queued: number; errors: string[] }> {
+  const summary = { checked: 0, queued: 0, errors: [] as string[] };
+  const horizon = new Date(now.getTime() + DIGEST_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+  const subscribers = await storage.getDigestSubscribers();
+
+  for (const { user, settings } of subscribers) {
+    if (!isDigestDue(settings, now)) continue;
+    summary.checked++;
+    try {
+      const reports = settings.includeReportsInDigest
+        ? (await storage.getUserDirectReports(user.id)).filter(report => report.isActive)
+        : [];
+      const items = await storage.getDigestItems([user.id, ...reports.map(report => report.id)], horizon, now);
+      const ownItems = items.filter(item => item.userId === user.id);
+      const reportItems = reports
+        .map(report => ({
+          name: [report.firstName, report.lastName].filter(Boolean).join(" ") || report.email || report.id,
+          items: items.filter(item => item.userId === report.id),
+        }))
+        .filter(report => report.items.length > 0);
+
+      // Nothing outstanding: no email, but the digest still counts as sent for this period
+      if (ownItems.length > 0 || reportItems.length > 0) {
+        const overdue = items.filter(item => item.type === "training_overdue").length;
+        await storage.createNotificationDeliveries([{
+          userId: user.id,
+          channel: "email",
+          kind: "digest",
+          priority: "low",
+          recipient: user.email!,
+          subject: `Your ${settings.digestFrequency} WeGrow digest${overdue > 0 ? `: ${overdue} overdue` : ""}`,
+          body: buildDigestBody(ownItems, reportItems, settings.timezone),
+          actionUrl: "/learning",
+        }]);
+        summary.queued++;
+      }
+      await storage.markDigestSent(user.id, now);
+    } catch (error: any) {
+      summary.errors.push(`[user ${user.id}] ${error?.message || error}`);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,74 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  NotificationTemplateError,
+  renderNotificationTemplate,
+  renderTemplate,
+  validateNotificationTemplate,
+} from "./notificationTemplates";
+
+const options = { locale: "en-US", timezone: "UTC", now: new Date("2026-03-01T12:00:00Z") };
+
+const context = {
+  user: { firstName: "Jo" },
+  courseTitle: "Fire safety",
+  daysPastDue: 9,
+  overdueCourses: [{ title: "Fire safety" }, { title: "First aid" }],
+};
+
+describe("renderTemplate", () => {
+  it("fills variables through filters, conditions and loops", () => {
+    const source = [
+      "Hi {{user.firstName | upper}},",
+      "{{#if daysPastDue > 7}}",
+      "{{courseTitle}} is {{daysPastDue}} {{daysPastDue | plural:\"day\":\"days\"}} overdue.",
+      "{{else}}",
+      "{{courseTitle}} is nearly due.",
+      "{{/if}}",
+      "{{#each overdueCourses}}{{@index}}. {{title}}{{#unless @last}}; {{/unless}}{{/each}}",
+    ].join("\n");
+    assert.equal(renderTemplate(source, context, options), "Hi JO,\nFire safety is 9 days overdue.\n0. Fire safety; 1. First aid");
+  });
+
+  it("formats dates in the recipient's locale and timezone", () => {
+    const dueDate = new Date("2026-03-01T23:30:00Z");
+    assert.equal(renderTemplate("{{dueDate | date:\"long\"}}", { dueDate }, { ...options, timezone: "Asia/Tokyo" }), "March 2, 2026");
+    const tomorrow = new Date("2026-03-02T12:00:00Z");
+    assert.equal(renderTemplate("{{tomorrow | date:\"relative\"}}", { tomorrow }, { ...options, locale: "fr" }), "demain");
+  });
+
+  it("refuses prototype paths and only reads the context's own properties", () => {
+    assert.throws(() => renderTemplate("{{user.constructor}}", context, options), NotificationTemplateError);
+    assert.equal(renderTemplate("[{{courseTitle.length}}][{{user.toString}}]", context, options), "[][]");
+  });
+});
+
+describe("renderNotificationTemplate", () => {
+  const template = { titleTemplate: "{{courseTitle}} is overdue", messageTemplate: "Please finish it", actionLabel: "Open" };
+  const locales = [{ locale: "fr", titleTemplate: "{{courseTitle}} est en retard", messageTemplate: "Merci de le terminer", actionLabel: null }];
+
+  it("falls back from a regional locale to its language, then to the template's own text", () => {
+    const french = renderNotificationTemplate(template, locales, context, { ...options, locale: "fr-CA" });
+    assert.deepEqual(french, { locale: "fr", title: "Fire safety est en retard", message: "Merci de le terminer", actionLabel: "Open" });
+    assert.equal(renderNotificationTemplate(template, locales, context, { ...options, locale: "de" }).locale, "default");
+  });
+});
+
+describe("validateNotificationTemplate", () => {
+  it("returns the variables a valid template uses", () => {
+    const used = validateNotificationTemplate("training_overdue", {
+      titleTemplate: "{{courseTitle}} is overdue",
+      messageTemplate: "{{#if daysPastDue > 7}}{{user.firstName}}{{/if}}",
+    });
+    assert.deepEqual(used, ["courseTitle", "daysPastDue", "user"]);
+  });
+
+  it("reports every problem, labelled by field", () => {
+    const invalid = { titleTemplate: "{{#if courseTitle}}unclosed", messageTemplate: "{{score}} {{courseTitle | shout}}" };
+    assert.throws(() => validateNotificationTemplate("training_overdue", invalid), (error: NotificationTemplateError) => {
+      assert.equal(error.issues.filter(issue => issue.startsWith("Title: ")).length, 1);
+      assert.equal(error.issues.filter(issue => issue.startsWith("Message: ")).length, 2);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,636 @@
+import {
+  COMMON_NOTIFICATION_TEMPLATE_VARIABLES,
+  NOTIFICATION_TEMPLATE_VARIABLES,
+  type NotificationTemplate,
+  type NotificationTemplateLocale,
+  type NotificationTemplateVariableType,
+} from "@shared/schema";
+
+// Template language for notification_templates: it only reads the context it is given, so admins can't run code.
+
+export class NotificationTemplateError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400, public readonly issues: string[] = []) {
+    super(message);
+    this.name = "NotificationTemplateError";
+    Object.setPrototypeOf(this, NotificationTemplateError.prototype);
+  }
+}
+
+type Literal = string | number | boolean;
+type Operand = { path: string } | { value: Literal };
+type Operator = "==" | "!=" | ">" | ">=" | "<" | "<=";
+
+interface Condition {
+  left: Operand;
+  operator?: Operator;
+  right?: Operand;
+}
+
+interface Filter {
+  name: string;
+  args: Literal[];
+}
+
+export type TemplateNode =
+  | { kind: "text"; value: string }
+  | { kind: "output"; path: string; filters: Filter[] }
+  | { kind: "if"; condition: Condition; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: "each"; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface RenderOptions {
+  locale: string;
+  timezone: string;
+  now?: Date;
+}
+
+const MAX_DEPTH = 8;
+const MAX_LOOP_ITEMS = 50;
+const MAX_OUTPUT_LENGTH = 10000;
+const FORBIDDEN_SEGMENTS = new Set(["__proto__", "prototype", "constructor"]);
+const LOOP_VARIABLES = new Set(["@index", "@first", "@last"]);
+
+const FILTER_ARITY: Record<string, [number, number]> = {
+  date: [0, 1],
+  time: [0, 0],
+  number: [0, 1],
+  plural: [2, 2],
+  upper: [0, 0],
+  lower: [0, 0],
+  capitalize: [0, 0],
+  truncate: [1, 1],
+  count: [0, 0],
+  default: [1, 1],
+};
+
+const DATE_STYLES = ["short", "medium", "long", "full", "relative"];
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+// {{path | filter:arg}}, {{#if a > 1}}...{{else}}...{{/if}}, {{#unless a}}, {{#each list}}...{{/each}} with this,
+// @index, @first and @last inside, and {{! comments }}. Block tags alone on a line take the line with them.
+
+type ExpressionToken =
+  | { type: "path"; value: string }
+  | { type: "literal"; value: Literal }
+  | { type: "operator"; value: Operator }
+  | { type: "pipe" | "colon" };
+
+function lexExpression(source: string): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "|") {
+      tokens.push({ type: "pipe" });
+      i++;
+    } else if (char === ":") {
+      tokens.push({ type: "colon" });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw new NotificationTemplateError(`Unterminated string in "${source}"`);
+      tokens.push({ type: "literal", value: source.slice(i + 1, end) });
+      i = end + 1;
+    } else {
+      const operator = source.slice(i).match(/^(==|!=|>=|<=|>|<)/);
+      const number = source.slice(i).match(/^-?\d+(\.\d+)?/);
+      const path = source.slice(i).match(/^@?[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)*/);
+      if (operator) {
+        tokens.push({ type: "operator", value: operator[0] as Operator });
+        i += operator[0].length;
+      } else if (number) {
+        tokens.push({ type: "literal", value: Number(number[0]) });
+        i += number[0].length;
+      } else if (path) {
+        const value = path[0];
+        if (value === "true" || value === "false") {
+          tokens.push({ type: "literal", value: value === "true" });
+        } else {
+          if (value.split(".").some(segment => FORBIDDEN_SEGMENTS.has(segment))) {
+            throw new NotificationTemplateError(`"${value}" is not allowed in templates`);
+          }
+          tokens.push({ type: "path", value });
+        }
+        i += value.length;
+      } else {
+        throw new NotificationTemplateError(`Unexpected "${char}" in "${source}"`);
+      }
+    }
+  }
+  return tokens;
+}
+
+function toOperand(token: ExpressionToken | undefined, source: string): Operand {
+  if (token?.type === "path") return { path: token.value };
+  if (token?.type === "literal") return { value: token.value };
+  throw new NotificationTemplateError(`Expected a variable or value in "${source}"`);
+}
+
+function parseCondition(source: string): Condition {
+  const tokens = lexExpression(source);
+  if (tokens.length === 1) return { left: toOperand(tokens[0], source) };
+  const operator = tokens[1];
+  if (tokens.length !== 3 || operator.type !== "operator") {
+    throw new NotificationTemplateError(`Conditions compare two values, e.g. {{#if score >= 80}}; got "${source}"`);
+  }
+  return { left: toOperand(tokens[0], source), operator: operator.value, right: toOperand(tokens[2], source) };
+}
+
+function parseOutput(source: string): { path: string; filters: Filter[] } {
+  const tokens = lexExpression(source);
+  const first = tokens[0];
+  if (!first || first.type !== "path") {
+    throw new NotificationTemplateError(`Expected a variable name in {{${source}}}`);
+  }
+  const filters: Filter[] = [];
+  let i = 1;
+  while (i < tokens.length) {
+    const pipe = tokens[i];
+    const name = tokens[i + 1];
+    if (pipe.type !== "pipe" || !name || name.type !== "path") {
+      throw new NotificationTemplateError(`Expected "| filter" in {{${source}}}`);
+    }
+    const filter: Filter = { name: name.value, args: [] };
+    i += 2;
+    while (tokens[i]?.type === "colon") {
+      const arg = tokens[i + 1];
+      if (!arg || arg.type !== "literal") {
+        throw new NotificationTemplateError(`Filter arguments must be quoted strings or numbers in {{${source}}}`);
+      }
+      filter.args.push(arg.value);
+      i += 2;
+    }
+    filters.push(filter);
+  }
+  return { path: first.value, filters };
+}
+
+type Tag =
+  | { kind: "text"; value: string }
+  | { kind: "output"; source: string }
+  | { kind: "open"; block: "if" | "unless" | "each"; source: string }
+  | { kind: "else" }
+  | { kind: "close"; block: "if" | "unless" | "each" }
+  | { kind: "comment" };
+
+function isStandalone(tag: Tag): boolean {
+  return tag.kind === "open" || tag.kind === "else" || tag.kind === "close" || tag.kind === "comment";
+}
+
+// Splits the source into text and tags, dropping the line around block tags that stand alone on it
+function tokenize(source: string): Tag[] {
+  const tags: Tag[] = [];
+  const pattern = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    if (match.index > last) tags.push({ kind: "text", value: source.slice(last, match.index) });
+    last = pattern.lastIndex;
+    const body = match[1];
+    const block = body.match(/^([#/])(if|unless|each)\b\s*([\s\S]*)$/);
+    if (body.startsWith("!")) {
+      tags.push({ kind: "comment" });
+    } else if (body === "else") {
+      tags.push({ kind: "else" });
+    } else if (block && block[1] === "#") {
+      if (!block[3]) throw new NotificationTemplateError(`{{#${block[2]}}} needs a variable`);
+      tags.push({ kind: "open", block: block[2] as "if" | "unless" | "each", source: block[3] });
+    } else if (block) {
+      tags.push({ kind: "close", block: block[2] as "if" | "unless" | "each" });
+    } else if (body.startsWith("#") || body.startsWith("/")) {
+      throw new NotificationTemplateError(`Unknown block {{${body}}}; use #if, #unless or #each`);
+    } else {
+      tags.push({ kind: "output", source: body });
+    }
+  }
+  if (last < source.length) tags.push({ kind: "text", value: source.slice(last) });
+
+  for (let i = 0; i < tags.length; i++) {
+    if (!isStandalone(tags[i])) continue;
+    const before = tags[i - 1];
+    const after = tags[i + 1];
+    const beforeOk = !before || (before.kind === "text" && /(^|\n)[ \t]*$/.test(before.value));
+    const afterOk = !after || (after.kind === "text" && /^[ \t]*(\r?\n|$)/.test(after.value));
+    if (!beforeOk || !afterOk) continue;
+    if (before && before.kind === "text") before.value = before.value.replace(/[ \t]*$/, "");
+    if (after && after.kind === "text") after.value = after.value.replace(/^[ \t]*(\r?\n)?/, "");
+  }
+  return tags;
+}
+
+function buildTree(tags: Tag[]): TemplateNode[] {
+  let position = 0;
+
+  function parseBlock(depth: number, closing?: "if" | "unless" | "each"): { nodes: TemplateNode[]; otherwise: TemplateNode[] } {
+    if (depth > MAX_DEPTH) throw new NotificationTemplateError(`Blocks can be nested at most ${MAX_DEPTH} deep`);
+    const nodes: TemplateNode[] = [];
+    const otherwise: TemplateNode[] = [];
+    let current = nodes;
+    let sawElse = false;
+
+    while (position < tags.length) {
+      const tag = tags[position++];
+      switch (tag.kind) {
+        case "text":
+          if (tag.value) current.push({ kind: "text", value: tag.value });
+          break;
+        case "comment":
+          break;
+        case "output":
+          current.push({ kind: "output", ...parseOutput(tag.source) });
+          break;
+        case "else":
+          if (!closing || sawElse) throw new NotificationTemplateError("{{else}} must be inside one #if, #unless or #each");
+          sawElse = true;
+          current = otherwise;
+          break;
+        case "close":
+          if (tag.block !== closing) {
+            throw new NotificationTemplateError(closing ? `Expected {{/${closing}}} but found {{/${tag.block}}}` : `{{/${tag.block}}} has no matching {{#${tag.block}}}`);
+          }
+          return { nodes, otherwise };
+        case "open": {
+          const inner = parseBlock(depth + 1, tag.block);
+          if (tag.block === "each") {
+            const tokens = lexExpression(tag.source);
+            if (tokens.length !== 1 || tokens[0].type !== "path") {
+              throw new NotificationTemplateError(`{{#each}} takes one list variable; got "${tag.source}"`);
+            }
+            current.push({ kind: "each", path: tokens[0].value, body: inner.nodes, otherwise: inner.otherwise });
+          } else {
+            current.push({ kind: "if", condition: parseCondition(tag.source), negate: tag.block === "unless", then: inner.nodes, otherwise: inner.otherwise });
+          }
+          break;
+        }
+      }
+    }
+    if (closing) throw new NotificationTemplateError(`{{#${closing}}} is never closed with {{/${closing}}}`);
+    return { nodes, otherwise };
+  }
+
+  return parseBlock(0).nodes;
+}
+
+const parsedTemplates = new Map<string, TemplateNode[]>();
+
+export function parseTemplate(source: string): TemplateNode[] {
+  const cached = parsedTemplates.get(source);
+  if (cached) return cached;
+  const nodes = buildTree(tokenize(source));
+  if (parsedTemplates.size >= 500) parsedTemplates.clear();
+  parsedTemplates.set(source, nodes);
+  return nodes;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export function getNotificationTemplateVariables(type: string): Record<string, NotificationTemplateVariableType> {
+  return {
+    ...COMMON_NOTIFICATION_TEMPLATE_VARIABLES,
+    ...(NOTIFICATION_TEMPLATE_VARIABLES[type as keyof typeof NOTIFICATION_TEMPLATE_VARIABLES] ?? {}),
+  };
+}
+
+// Problems with the template as written: syntax errors, unknown variables or filters, #each over a non-list.
+// Also returns the top-level variables it uses.
+export function checkTemplate(source: string, variables: Record<string, NotificationTemplateVariableType>): { issues: string[]; used: string[] } {
+  const issues: string[] = [];
+  const used = new Set<string>();
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(source);
+  } catch (error: any) {
+    return { issues: [error.message], used: [] };
+  }
+
+  const resolve = (path: string, lists: string[]): string | null => {
+    if (LOOP_VARIABLES.has(path)) {
+      if (lists.length === 0) issues.push(`{{${path}}} only works inside {{#each}}`);
+      return null;
+    }
+    if (path === "this" || path.startsWith("this.")) {
+      const list = lists[lists.length - 1];
+      if (!list) {
+        issues.push(`{{${path}}} only works inside {{#each}}`);
+        return null;
+      }
+      const field = path === "this" ? list : `${list}.${path.slice(5)}`;
+      if (path !== "this" && !(field in variables)) issues.push(`Unknown variable {{${path}}}`);
+      return path === "this" ? null : field;
+    }
+    for (let i = lists.length - 1; i >= 0; i--) {
+      if (`${lists[i]}.${path}` in variables) return `${lists[i]}.${path}`;
+    }
+    if (path in variables) {
+      used.add(path.split(".")[0]);
+      return path;
+    }
+    issues.push(`Unknown variable {{${path}}}`);
+    return null;
+  };
+
+  const checkOperand = (operand: Operand | undefined, lists: string[]) => {
+    if (operand && "path" in operand) resolve(operand.path, lists);
+  };
+
+  const walk = (list: TemplateNode[], lists: string[]) => {
+    for (const node of list) {
+      if (node.kind === "output") {
+        resolve(node.path, lists);
+        for (const filter of node.filters) {
+          const arity = FILTER_ARITY[filter.name];
+          if (!arity) {
+            issues.push(`Unknown filter "${filter.name}"`);
+          } else if (filter.args.length < arity[0] || filter.args.length > arity[1]) {
+            issues.push(`Filter "${filter.name}" takes ${arity[0] === arity[1] ? arity[0] : `${arity[0]}-${arity[1]}`} argument(s)`);
+          } else if (filter.name === "date" && filter.args[0] !== undefined && !DATE_STYLES.includes(String(filter.args[0]))) {
+            issues.push(`Date style must be one of ${DATE_STYLES.join(", ")}`);
+          }
+        }
+      } else if (node.kind === "if") {
+        checkOperand(node.condition.left, lists);
+        checkOperand(node.condition.right, lists);
+        walk(node.then, lists);
+        walk(node.otherwise, lists);
+      } else if (node.kind === "each") {
+        const resolved = resolve(node.path, lists);
+        if (resolved && variables[resolved] !== "list") issues.push(`{{#each ${node.path}}} needs a list variable`);
+        walk(node.body, resolved ? [...lists, resolved] : lists);
+        walk(node.otherwise, lists);
+      }
+    }
+  };
+
+  walk(nodes, []);
+  return { issues: Array.from(new Set(issues)), used: Array.from(used) };
+}
+
+// Throws with every problem found; returns the variables the template uses, for notification_templates.variables
+export function validateNotificationTemplate(type: string, parts: { titleTemplate: string; messageTemplate: string; actionLabel?: string | null }): string[] {
+  const variables = getNotificationTemplateVariables(type);
+  const issues: string[] = [];
+  const used = new Set<string>();
+  const fields: Array<[string, string | null | undefined]> = [
+    ["Title", parts.titleTemplate],
+    ["Message", parts.messageTemplate],
+    ["Action label", parts.actionLabel],
+  ];
+  for (const [label, source] of fields) {
+    if (!source) continue;
+    const result = checkTemplate(source, variables);
+    issues.push(...result.issues.map(issue => `${label}: ${issue}`));
+    result.used.forEach(name => used.add(name));
+  }
+  if (issues.length > 0) {
+    throw new NotificationTemplateError("Template is not valid", 400, issues);
+  }
+  return Array.from(used).sort();
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+interface Scope {
+  item: unknown;
+  index: number;
+  length: number;
+}
+
+function lookup(target: unknown, segments: string[]): unknown {
+  let value = target;
+  for (const segment of segments) {
+    if (value === null || typeof value !== "object" || !Object.prototype.hasOwnProperty.call(value, segment)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+function resolvePath(path: string, context: Record<string, unknown>, scopes: Scope[]): unknown {
+  const scope = scopes[scopes.length - 1];
+  if (path === "@index") return scope?.index;
+  if (path === "@first") return scope ? scope.index === 0 : undefined;
+  if (path === "@last") return scope ? scope.index === scope.length - 1 : undefined;
+  const segments = path.split(".");
+  if (segments[0] === "this") return lookup(scope?.item, segments.slice(1));
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const item = scopes[i].item;
+    if (item !== null && typeof item === "object" && Object.prototype.hasOwnProperty.call(item, segments[0])) {
+      return lookup(item, segments);
+    }
+  }
+  return lookup(context, segments);
+}
+
+function asDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function safeLocale(locale: string): string {
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? "en";
+  } catch {
+    return "en";
+  }
+}
+
+function formatDate(date: Date, style: string, options: RenderOptions): string {
+  const locale = safeLocale(options.locale);
+  if (style === "relative") {
+    const days = Math.round((date.getTime() - (options.now ?? new Date()).getTime()) / (24 * 60 * 60 * 1000));
+    return new Intl.RelativeTimeFormat(locale, { numeric: "auto" }).format(days, "day");
+  }
+  return new Intl.DateTimeFormat(locale, {
+    dateStyle: style as "short" | "medium" | "long" | "full",
+    timeZone: options.timezone,
+  }).format(date);
+}
+
+function stringify(value: unknown, options: RenderOptions): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return formatDate(value, "medium", options);
+  if (typeof value === "number") return new Intl.NumberFormat(safeLocale(options.locale)).format(value);
+  if (Array.isArray(value)) return value.map(item => stringify(item, options)).filter(Boolean).join(", ");
+  if (typeof value === "object") return "";
+  return String(value);
+}
+
+function applyFilter(value: unknown, filter: Filter, options: RenderOptions): unknown {
+  const locale = safeLocale(options.locale);
+  switch (filter.name) {
+    case "date": {
+      const date = asDate(value);
+      return date ? formatDate(date, String(filter.args[0] ?? "medium"), options) : "";
+    }
+    case "time": {
+      const date = asDate(value);
+      return date ? new Intl.DateTimeFormat(locale, { timeStyle: "short", timeZone: options.timezone }).format(date) : "";
+    }
+    case "number": {
+      const number = Number(value);
+      if (value === null || value === undefined || !Number.isFinite(number)) return "";
+      const decimals = filter.args[0] === undefined ? undefined : Math.max(0, Math.min(6, Number(filter.args[0])));
+      return new Intl.NumberFormat(locale, decimals === undefined ? {} : { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(number);
+    }
+    case "plural":
+      return new Intl.PluralRules(locale).select(Number(value)) === "one" ? String(filter.args[0]) : String(filter.args[1]);
+    case "upper":
+      return stringify(value, options).toLocaleUpperCase(locale);
+    case "lower":
+      return stringify(value, options).toLocaleLowerCase(locale);
+    case "capitalize": {
+      const text = stringify(value, options);
+      return text.charAt(0).toLocaleUpperCase(locale) + text.slice(1);
+    }
+    case "truncate": {
+      const text = stringify(value, options);
+      const length = Math.max(1, Number(filter.args[0]));
+      return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+    }
+    case "count":
+      return Array.isArray(value) ? value.length : 0;
+    case "default":
+      return value === null || value === undefined || value === "" ? filter.args[0] : value;
+    default:
+      throw new NotificationTemplateError(`Unknown filter "${filter.name}"`);
+  }
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function compare(left: unknown, operator: Operator, right: unknown): boolean {
+  const leftDate = left instanceof Date ? left.getTime() : left;
+  const rightDate = right instanceof Date ? right.getTime() : right;
+  switch (operator) {
+    case "==": return leftDate == rightDate;
+    case "!=": return leftDate != rightDate;
+    case ">": return Number(leftDate) > Number(rightDate);
+    case ">=": return Number(leftDate) >= Number(rightDate);
+    case "<": return Number(leftDate) < Number(rightDate);
+    case "<=": return Number(leftDate) <= Number(rightDate);
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], context: Record<string, unknown>, scopes: Scope[], options: RenderOptions, out: string[]) {
+  const operand = (value: Operand | undefined) =>
+    value === undefined ? undefined : "path" in value ? resolvePath(value.path, context, scopes) : value.value;
+
+  for (const node of nodes) {
+    switch (node.kind) {
+      case "text":
+        out.push(node.value);
+        break;
+      case "output": {
+        let value = resolvePath(node.path, context, scopes);
+        for (const filter of node.filters) value = applyFilter(value, filter, options);
+        out.push(stringify(value, options));
+        break;
+      }
+      case "if": {
+        const { left, operator, right } = node.condition;
+        const result = operator ? compare(operand(left), operator, operand(right)) : isTruthy(operand(left));
+        renderNodes(result !== node.negate ? node.then : node.otherwise, context, scopes, options, out);
+        break;
+      }
+      case "each": {
+        const value = resolvePath(node.path, context, scopes);
+        const items = Array.isArray(value) ? value.slice(0, MAX_LOOP_ITEMS) : [];
+        if (items.length === 0) {
+          renderNodes(node.otherwise, context, scopes, options, out);
+          break;
+        }
+        items.forEach((item, index) => {
+          renderNodes(node.body, context, [...scopes, { item, index, length: items.length }], options, out);
+        });
+        break;
+      }
+    }
+  }
+}
+
+export function renderTemplate(source: string, context: Record<string, unknown>, options: RenderOptions): string {
+  const out: string[] = [];
+  renderNodes(parseTemplate(source), context, [], options, out);
+  const rendered = out.join("");
+  return rendered.length > MAX_OUTPUT_LENGTH ? rendered.slice(0, MAX_OUTPUT_LENGTH) : rendered;
+}
+
+// ---------------------------------------------------------------------------
+// Notification templates
+// ---------------------------------------------------------------------------
+
+export interface RenderedNotification {
+  locale: string;
+  title: string;
+  message: string;
+  actionLabel: string | null;
+}
+
+// "fr-CA" falls back to "fr", then to the template's own text
+export function selectTemplateVariant(
+  template: Pick<NotificationTemplate, "titleTemplate" | "messageTemplate" | "actionLabel">,
+  locales: Pick<NotificationTemplateLocale, "locale" | "titleTemplate" | "messageTemplate" | "actionLabel">[],
+  locale: string
+): { locale: string | null; titleTemplate: string; messageTemplate: string; actionLabel: string | null } {
+  const wanted = locale.toLowerCase();
+  const language = wanted.split("-")[0];
+  const variant = locales.find(entry => entry.locale.toLowerCase() === wanted)
+    ?? locales.find(entry => entry.locale.toLowerCase() === language);
+  if (variant) {
+    return {
+      locale: variant.locale,
+      titleTemplate: variant.titleTemplate,
+      messageTemplate: variant.messageTemplate,
+      actionLabel: variant.actionLabel ?? template.actionLabel,
+    };
+  }
+  return { locale: null, titleTemplate: template.titleTemplate, messageTemplate: template.messageTemplate, actionLabel: template.actionLabel };
+}
+
+export function renderNotificationTemplate(
+  template: Pick<NotificationTemplate, "titleTemplate" | "messageTemplate" | "actionLabel">,
+  locales: Pick<NotificationTemplateLocale, "locale" | "titleTemplate" | "messageTemplate" | "actionLabel">[],
+  context: Record<string, unknown>,
+  options: RenderOptions
+): RenderedNotification {
+  const variant = selectTemplateVariant(template, locales, options.locale);
+  const title = renderTemplate(variant.titleTemplate, context, options).replace(/\s+/g, " ").trim().slice(0, 255);
+  const message = renderTemplate(variant.messageTemplate, context, options).replace(/\n{3,}/g, "\n\n").trim();
+  const actionLabel = variant.actionLabel ? renderTemplate(variant.actionLabel, context, options).trim() || null : null;
+  return { locale: variant.locale ?? "default", title, message, actionLabel };
+}
+
+const SAMPLE_VALUES: Record<NotificationTemplateVariableType, (name: string, now: Date) => unknown> = {
+  string: (name) => `[${name}]`,
+  number: () => 3,
+  date: (_name, now) => now,
+  boolean: () => true,
+  list: () => [],
+};
+
+// Previews: gives the type's variables that the chosen event didn't supply a placeholder value, and names them
+export function fillSampleVariables(type: string, context: Record<string, unknown>, now: Date = new Date()): string[] {
+  const filled: string[] = [];
+  const variables = NOTIFICATION_TEMPLATE_VARIABLES[type as keyof typeof NOTIFICATION_TEMPLATE_VARIABLES] ?? {};
+  Object.entries(variables).forEach(([name, variableType]) => {
+    if (context[name] !== undefined && context[name] !== null) return;
+    context[name] = SAMPLE_VALUES[variableType](name, now);
+    filled.push(name);
+  });
+  return filled;
+}
@@ -166,7 +166,7 @@ export class ObjectStorageService {
   }
 
   // Validate file type and size
-  private validateFileUpload(filename: string, fileType: 'pdf' | 'certificate' | 'badge_icon', maxSizeBytes: number = 10 * 1024 * 1024): void {
+  private validateFileUpload(filename: string, fileType: 'pdf' | 'certificate' | 'badge_icon' | 'template_image', maxSizeBytes: number = 10 * 1024 * 1024): void {
     const extension = filename.toLowerCase().split('.').pop();
     
     if (fileType === 'pdf' && extension !== 'pdf') {
@@ -180,6 +180,10 @@ export class ObjectStorageService {
     if (fileType === 'badge_icon' && !['jpg', 'jpeg', 'png', 'webp'].includes(extension || '')) {
       throw new Error('Only JPG, JPEG, PNG, or WebP files are allowed for badge icons');
     }
+    
+    if (fileType === 'template_image' && !['jpg', 'jpeg', 'png'].includes(extension || '')) {
+      throw new Error('Only JPG, JPEG or PNG files can be used in certificate templates');
+    }
   }
 
   // Get upload URL for completion certificates (private storage)
@@ -263,6 +267,31 @@ export class ObjectStorageService {
     };
   }
 
+  // Get upload URL for certificate template backgrounds, logos and signatures (private storage, read when rendering)
+  async getCertificateTemplateImageUploadURL(originalFilename: string): Promise<{ uploadURL: string, objectPath: string }> {
+    this.validateFileUpload(originalFilename, 'template_image');
+    
+    const sanitizedFilename = this.sanitizeFilename(originalFilename);
+    const uniqueFilename = `${randomUUID()}_${sanitizedFilename}`;
+    
+    const privateObjectDir = this.getPrivateObjectDir();
+    const fullPath = `${privateObjectDir}/certificate-templates/${uniqueFilename}`;
+    
+    const { bucketName, objectName } = parseObjectPath(fullPath);
+    
+    const uploadURL = await signObjectURL({
+      bucketName,
+      objectName,
+      method: "PUT",
+      ttlSec: 900,
+    });
+    
+    return {
+      uploadURL,
+      objectPath: `/objects/certificate-templates/${uniqueFilename}`
+    };
+  }
+
   // Get file download URL with appropriate permissions
   async getFileDownloadURL(objectPath: string, userId?: string): Promise<string> {
     // For public files, generate a direct access URL
@@ -311,6 +340,41 @@ export class ObjectStorageService {
     throw new Error('Invalid object path format');
   }
 
+  // Reads a private object entity into memory (used to unpack uploaded archives)
+  async readObjectEntity(objectPath: string, maxSizeBytes: number): Promise<Buffer> {
+    const objectFile = await this.getObjectEntityFile(objectPath);
+    const [metadata] = await objectFile.getMetadata();
+    if (Number(metadata.size || 0) > maxSizeBytes) {
+      throw new Error(`File exceeds the ${Math.round(maxSizeBytes / (1024 * 1024))}MB limit`);
+    }
+    const [contents] = await objectFile.download();
+    return contents;
+  }
+
+  // Writes a private object entity and returns its /objects/... path
+  async writeObjectEntity(entityId: string, data: Buffer, contentType: string): Promise<string> {
+    let entityDir = this.getPrivateObjectDir();
+    if (!entityDir.endsWith("/")) {
+      entityDir = `${entityDir}/`;
+    }
+    const { bucketName, objectName } = parseObjectPath(`${entityDir}${entityId}`);
+    await objectStorageClient.bucket(bucketName).file(objectName).save(data, {
+      contentType,
+      resumable: false,
+    });
+    return `/objects/${entityId}`;
+  }
+
+  // Deletes a private object entity; one that is already gone is not an error
+  async deleteObjectEntity(objectPath: string): Promise<void> {
+    try {
+      const objectFile = await this.getObjectEntityFile(objectPath);
+      await objectFile.delete({ ignoreNotFound: true });
+    } catch (error) {
+      if (!(error instanceof ObjectNotFoundError)) throw error;
+    }
+  }
+
   // Gets the object entity file from the object path.
   async getObjectEntityFile(objectPath: string): Promise<File> {
     if (!objectPath.startsWith("/objects/")) {
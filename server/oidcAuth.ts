@@ -0,0 +1,197 @@
+import * as client from "openid-client";
+import { Strategy, type VerifyFunction } from "openid-client/passport";
+import passport from "passport";
+import type { Express, Request } from "express";
+import memoize from "memoizee";
+import {
+  AccountDeactivatedError,
+  AccountLinkRefusedError,
+  AuthConfigError,
+  buildSessionUser,
+  requireAuthEnv,
+  upsertAuthUser,
+  type AuthClaims,
+  type AuthProvider,
+  type SessionUser,
+} from "./authProvider";
+
+// Sign-in through any OpenID Connect issuer: Azure AD, Keycloak, Okta, Replit.
+
+// ISSUER_URL, REPL_ID and REPLIT_DOMAINS from the original Replit-only setup are still honoured as fallbacks
+const REPLIT_ISSUER_URL = "https://replit.com/oidc";
+
+type OidcTokens = client.TokenEndpointResponse & client.TokenEndpointResponseHelpers;
+
+function getIssuerUrl(): string {
+  return process.env.OIDC_ISSUER_URL ?? process.env.ISSUER_URL ?? REPLIT_ISSUER_URL;
+}
+
+function getClientId(): string {
+  return process.env.OIDC_CLIENT_ID ?? requireAuthEnv("REPL_ID", "oidc");
+}
+
+function getScopes(): string {
+  return process.env.OIDC_SCOPES ?? "openid email profile offline_access";
+}
+
+// Hosts users sign in on, each with its own https://<host>/api/callback
+function getAllowedDomains(): string[] | null {
+  const domains = process.env.AUTH_DOMAINS ?? process.env.REPLIT_DOMAINS;
+  return domains ? domains.split(",").map(domain => domain.trim()).filter(Boolean) : null;
+}
+
+const getOidcConfig = memoize(
+  async () => {
+    return await client.discovery(
+      new URL(getIssuerUrl()),
+      getClientId(),
+      process.env.OIDC_CLIENT_SECRET
+    );
+  },
+  { maxAge: 3600 * 1000 }
+);
+
+// Standard OIDC claim names, with Replit's first_name/last_name/profile_image_url taking precedence
+function toAuthClaims(raw: Record<string, unknown>): AuthClaims {
+  const text = (value: unknown) => typeof value === "string" && value ? value : undefined;
+  const preferredUsername = text(raw.preferred_username);
+  const roleClaim = process.env.OIDC_ROLE_CLAIM ?? "role";
+  const email = text(raw.email);
+  return {
+    ...raw,
+    sub: String(raw.sub),
+    email: email ?? (preferredUsername?.includes("@") ? preferredUsername : undefined),
+    // A preferred_username that looks like an email is never vouched for
+    email_verified: !!email && raw.email_verified === true,
+    first_name: text(raw.first_name) ?? text(raw.given_name),
+    last_name: text(raw.last_name) ?? text(raw.family_name),
+    profile_image_url: text(raw.profile_image_url) ?? text(raw.picture),
+    role: text(raw[roleClaim]),
+  };
+}
+
+function applyTokens(user: SessionUser, tokens: OidcTokens) {
+  user.access_token = tokens.access_token;
+  user.refresh_token = tokens.refresh_token ?? user.refresh_token;
+  user.expires_at = tokens.claims()?.exp ?? Math.floor(Date.now() / 1000) + (tokens.expires_in ?? 3600);
+}
+
+export function createOidcAuthProvider(): AuthProvider {
+  const registeredStrategies = new Set<string>();
+  const allowedDomains = getAllowedDomains();
+  const fixedCallbackUrl = process.env.OIDC_CALLBACK_URL;
+
+  const verify: VerifyFunction = async (tokens: OidcTokens, verified: passport.AuthenticateCallback) => {
+    try {
+      const claims = toAuthClaims(tokens.claims() ?? {});
+      const user = await upsertAuthUser(claims);
+      const sessionUser = buildSessionUser("oidc", user, 0, { claims });
+      applyTokens(sessionUser, tokens); // Sets expires_at from the token
+      verified(null, sessionUser);
+    } catch (error) {
+      if (error instanceof AccountDeactivatedError || error instanceof AccountLinkRefusedError) {
+        return verified(null, false);
+      }
+      verified(error as Error);
+    }
+  };
+
+  // A fixed OIDC_CALLBACK_URL needs one strategy; otherwise one per allowed host so the callback matches it
+  const getStrategyName = async (req: Request): Promise<string | null> => {
+    if (!fixedCallbackUrl && !allowedDomains?.includes(req.hostname)) {
+      return null;
+    }
+    const name = fixedCallbackUrl ? "oidc" : `oidc:${req.hostname}`;
+    if (!registeredStrategies.has(name)) {
+      const config = await getOidcConfig();
+      passport.use(new Strategy(
+        {
+          name,
+          config,
+          scope: getScopes(),
+          callbackURL: fixedCallbackUrl ?? `https://${req.hostname}/api/callback`,
+        },
+        verify,
+      ));
+      registeredStrategies.add(name);
+    }
+    return name;
+  };
+
+  return {
+    name: "oidc",
+
+    async setup(app: Express) {
+      if (!fixedCallbackUrl && !allowedDomains) {
+        throw new AuthConfigError("Set OIDC_CALLBACK_URL, or AUTH_DOMAINS with the hosts users sign in on");
+      }
+      // Fail at startup rather than on the first sign-in if the issuer is unreachable or misconfigured
+      await getOidcConfig();
+
+      app.get("/api/login", async (req, res, next) => {
+        try {
+          const strategyName = await getStrategyName(req);
+          if (!strategyName) {
+            return res.status(400).json({ message: "Sign-in is not configured for this host" });
+          }
+          const prompt = process.env.OIDC_PROMPT ?? (getIssuerUrl() === REPLIT_ISSUER_URL ? "login consent" : undefined);
+          passport.authenticate(strategyName, {
+            ...(prompt ? { prompt } : {}),
+            scope: getScopes().split(" "),
+          })(req, res, next);
+        } catch (error) {
+          next(error);
+        }
+      });
+
+      app.get("/api/callback", async (req, res, next) => {
+        try {
+          const strategyName = await getStrategyName(req);
+          if (!strategyName) {
+            return res.status(400).json({ message: "Sign-in is not configured for this host" });
+          }
+          passport.authenticate(strategyName, {
+            successReturnToOrRedirect: "/",
+            failureRedirect: "/api/login",
+          })(req, res, next);
+        } catch (error) {
+          next(error);
+        }
+      });
+
+      app.get("/api/logout", async (req, res, next) => {
+        let config: client.Configuration;
+        try {
+          config = await getOidcConfig();
+        } catch (error) {
+          return next(error);
+        }
+        req.logout(() => {
+          const postLogoutRedirect = `${req.protocol}://${req.get("host")}`;
+          // Issuers without an end-session endpoint only get a local sign-out
+          if (!config.serverMetadata().end_session_endpoint) {
+            return res.redirect(postLogoutRedirect);
+          }
+          res.redirect(
+            client.buildEndSessionUrl(config, {
+              client_id: getClientId(),
+              post_logout_redirect_uri: postLogoutRedirect,
+            }).href
+          );
+        });
+      });
+    },
+
+    async refreshSession(user: SessionUser) {
+      if (!user.refresh_token) return false;
+      try {
+        const config = await getOidcConfig();
+        const tokenResponse = await client.refreshTokenGrant(config, user.refresh_token);
+        applyTokens(user, tokenResponse);
+        return true;
+      } catch (error) {
+        return false;
+      }
+    },
+  };
+}
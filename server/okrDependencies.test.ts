@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildDependencyGraph,
+  getObjectiveHealth,
+  OkrDependencyError,
+  validateObjectiveDependencies,
+  type DependencyObjective,
+} from "./okrDependencies";
+
+const now = new Date("2026-02-15T00:00:00Z");
+
+function objective(id: string, progress: number | null, dependencies: string[] = []): DependencyObjective {
+  return {
+    id,
+    title: `Objective ${id}`,
+    ownerId: "owner",
+    cycleId: "cycle-1",
+    startDate: new Date("2026-01-01T00:00:00Z"),
+    endDate: new Date("2026-03-31T00:00:00Z"),
+    riskLevel: "low",
+    finalScore: null,
+    rollupProgress: progress,
+    dependencies,
+  } as DependencyObjective;
+}
+
+describe("getObjectiveHealth", () => {
+  it("compares progress with the share of the objective's window that has gone", () => {
+    // Half the window has gone by mid-February
+    assert.equal(getObjectiveHealth(objective("a", 0.45), now).health, "green");
+    assert.equal(getObjectiveHealth(objective("a", 0.3), now).health, "amber");
+    assert.equal(getObjectiveHealth(objective("a", 0.1), now).health, "red");
+    assert.equal(getObjectiveHealth({ ...objective("a", 0.9), riskLevel: "critical" }, now).health, "red");
+    assert.equal(getObjectiveHealth(objective("a", 0.5), new Date("2026-04-01T00:00:00Z")).health, "red");
+  });
+});
+
+describe("validateObjectiveDependencies", () => {
+  const objectives = [objective("a", null), objective("b", null, ["a"]), objective("c", null, ["b"])];
+
+  it("refuses a dependency that would close a loop and names it", () => {
+    assert.throws(() => validateObjectiveDependencies("a", ["c"], objectives), (error: OkrDependencyError) => {
+      assert.equal(error.statusCode, 409);
+      assert.deepEqual(error.cycle, ["a", "c", "b", "a"]);
+      return true;
+    });
+  });
+
+  it("refuses self and unknown dependencies but allows new upstream links", () => {
+    assert.throws(() => validateObjectiveDependencies("a", ["a"], objectives), OkrDependencyError);
+    assert.throws(() => validateObjectiveDependencies(null, ["missing"], objectives), OkrDependencyError);
+    assert.doesNotThrow(() => validateObjectiveDependencies("c", ["a", "b"], objectives));
+  });
+});
+
+describe("buildDependencyGraph", () => {
+  it("passes a red objective's risk to everything downstream and finds the heaviest chain", () => {
+    const graph = buildDependencyGraph([
+      objective("a", 0.1),
+      objective("b", 0.5, ["a"]),
+      objective("c", 0.9, ["b"]),
+      objective("d", 0.5),
+      objective("e", 0.5, ["d"]),
+    ], now);
+    const node = (id: string) => graph.nodes.find(candidate => candidate.id === id)!;
+
+    assert.deepEqual(node("c").blockedBy, ["a"]);
+    assert.deepEqual(node("b").dependents, ["c"]);
+    assert.deepEqual(node("e").blockedBy, []);
+    assert.equal(node("c").depth, 2);
+    assert.deepEqual(graph.criticalPath, ["a", "b", "c"]);
+    assert.equal(graph.criticalPathRemaining, 1.5);
+  });
+});
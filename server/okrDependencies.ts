@@ -0,0 +1,185 @@
+import type { CompanyObjective, ObjectiveDependencyGraph, ObjectiveDependencyNode, ObjectiveHealth } from "@shared/schema";
+import { roundScore } from "./okrScoring";
+
+// Dependencies between company objectives: loop checks and the risk red objectives pass down the chain.
+
+export class OkrDependencyError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400, public readonly cycle: string[] = []) {
+    super(message);
+    this.name = "OkrDependencyError";
+    Object.setPrototypeOf(this, OkrDependencyError.prototype);
+  }
+}
+
+export type DependencyObjective = Pick<
+  CompanyObjective,
+  "id" | "title" | "ownerId" | "cycleId" | "startDate" | "endDate" | "riskLevel" | "finalScore" | "rollupProgress" | "dependencies"
+>;
+
+// How far progress may trail the time elapsed in the objective's window before it turns amber, then red
+const AMBER_GAP = 0.15;
+const RED_GAP = 0.3;
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+// Red, amber or green by pace: progress against how much of the objective's window has gone
+export function getObjectiveHealth(objective: DependencyObjective, now: Date): { health: ObjectiveHealth; reason: string } {
+  if (objective.riskLevel === "critical") {
+    return { health: "red", reason: "Marked as critical risk" };
+  }
+  const progress = objective.finalScore ?? objective.rollupProgress;
+  if (progress !== null && progress >= 1) {
+    return { health: "green", reason: "Delivered" };
+  }
+
+  const start = objective.startDate.getTime();
+  const end = objective.endDate.getTime();
+  if (now.getTime() > end) {
+    return { health: "red", reason: `Past its end date at ${percent(progress ?? 0)}` };
+  }
+  const expected = end > start ? Math.min(1, Math.max(0, (now.getTime() - start) / (end - start))) : 0;
+  if (progress === null && expected < AMBER_GAP) {
+    return { health: "green", reason: "Not scored yet" };
+  }
+
+  const gap = roundScore(expected - (progress ?? 0));
+  const pace = `${percent(progress ?? 0)} done with ${percent(expected)} of the time gone`;
+  if (gap >= RED_GAP) return { health: "red", reason: pace };
+  if (gap >= AMBER_GAP) return { health: "amber", reason: pace };
+  return { health: "green", reason: progress === null ? "Not scored yet" : pace };
+}
+
+// Upstream-first path from `from` to `to` following dependencies, or null when `to` can't be reached
+function findDependencyPath(from: string, to: string, dependsOn: Map<string, string[]>): string[] | null {
+  const visited = new Set<string>();
+  const walk = (id: string): string[] | null => {
+    if (id === to) return [id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    for (const next of dependsOn.get(id) ?? []) {
+      const path = walk(next);
+      if (path) return [id, ...path];
+    }
+    return null;
+  };
+  return walk(from);
+}
+
+// Throws when the objective would depend on itself, on an objective that doesn't exist, or on something that
+// already depends on it. `objectiveId` is null for an objective that hasn't been created yet.
+export function validateObjectiveDependencies(
+  objectiveId: string | null,
+  dependencies: string[],
+  objectives: Array<Pick<CompanyObjective, "id" | "title" | "dependencies">>,
+): void {
+  const byId = new Map(objectives.map(objective => [objective.id, objective]));
+  if (objectiveId && dependencies.includes(objectiveId)) {
+    throw new OkrDependencyError("An objective can't depend on itself");
+  }
+  const unknown = dependencies.filter(id => !byId.has(id));
+  if (unknown.length > 0) {
+    throw new OkrDependencyError(`Unknown or inactive objective(s) in dependencies: ${unknown.join(", ")}`);
+  }
+  if (!objectiveId) return;
+
+  const dependsOn = new Map(objectives.map(objective => [objective.id, objective.dependencies ?? []]));
+  dependsOn.set(objectiveId, dependencies);
+  for (const dependency of dependencies) {
+    const path = findDependencyPath(dependency, objectiveId, dependsOn);
+    if (path) {
+      const cycle = [objectiveId, ...path];
+      const titles = cycle.map(id => byId.get(id)?.title ?? id);
+      throw new OkrDependencyError(`These dependencies would form a loop: ${titles.join(" → ")}`, 409, cycle);
+    }
+  }
+}
+
+export function buildDependencyGraph(objectives: DependencyObjective[], now: Date): ObjectiveDependencyGraph {
+  const ids = new Set(objectives.map(objective => objective.id));
+  // Dependencies on objectives outside the set (inactive, or in another cycle) are left out of the graph
+  const dependsOn = new Map(objectives.map(objective => [
+    objective.id,
+    Array.from(new Set(objective.dependencies ?? [])).filter(id => id !== objective.id && ids.has(id)),
+  ]));
+  const dependents = new Map<string, string[]>(objectives.map(objective => [objective.id, []]));
+  const edges: ObjectiveDependencyGraph["edges"] = [];
+  for (const objective of objectives) {
+    for (const upstream of dependsOn.get(objective.id)!) {
+      dependents.get(upstream)!.push(objective.id);
+      edges.push({ from: upstream, to: objective.id });
+    }
+  }
+
+  const health = new Map(objectives.map(objective => [objective.id, getObjectiveHealth(objective, now)]));
+  const progress = (objective: DependencyObjective) => objective.finalScore ?? objective.rollupProgress;
+
+  // Every objective further up the chain; the guard keeps loops saved before validation existed from recursing
+  const upstreamOf = (id: string): string[] => {
+    const seen = new Set<string>();
+    const stack = [...dependsOn.get(id)!];
+    while (stack.length > 0) {
+      const next = stack.pop()!;
+      if (next === id || seen.has(next)) continue;
+      seen.add(next);
+      stack.push(...dependsOn.get(next)!);
+    }
+    return Array.from(seen);
+  };
+
+  // Heaviest chain beneath each objective, weighted by the work left (1 - progress) on every unfinished step, and
+  // the number of steps in its longest chain for laying the graph out
+  const byId = new Map(objectives.map(objective => [objective.id, objective]));
+  const chains = new Map<string, { remaining: number; depth: number; path: string[] }>();
+  const visiting = new Set<string>();
+  const chainTo = (id: string): { remaining: number; depth: number; path: string[] } => {
+    const known = chains.get(id);
+    if (known) return known;
+    visiting.add(id);
+    let best = { remaining: 0, path: [] as string[] };
+    let depth = 0;
+    for (const upstream of dependsOn.get(id)!) {
+      if (visiting.has(upstream)) continue;
+      const chain = chainTo(upstream);
+      depth = Math.max(depth, chain.depth + 1);
+      if (chain.remaining > best.remaining || (chain.remaining === best.remaining && chain.path.length > best.path.length)) best = chain;
+    }
+    visiting.delete(id);
+    const own = Math.max(0, 1 - (progress(byId.get(id)!) ?? 0));
+    const chain = { remaining: roundScore(best.remaining + own), depth, path: [...best.path, id] };
+    chains.set(id, chain);
+    return chain;
+  };
+
+  const nodes = objectives.map((objective): ObjectiveDependencyNode => {
+    const { health: objectiveHealth, reason } = health.get(objective.id)!;
+    return {
+      id: objective.id,
+      title: objective.title,
+      ownerId: objective.ownerId,
+      cycleId: objective.cycleId,
+      endDate: objective.endDate.toISOString(),
+      riskLevel: objective.riskLevel,
+      progress: progress(objective),
+      health: objectiveHealth,
+      healthReason: reason,
+      dependsOn: dependsOn.get(objective.id)!,
+      dependents: dependents.get(objective.id)!,
+      blockedBy: upstreamOf(objective.id).filter(id => health.get(id)!.health === "red"),
+      depth: chainTo(objective.id).depth,
+    };
+  });
+
+  // Only chains of at least two objectives count as a critical path
+  const critical = Array.from(chains.values())
+    .filter(chain => chain.path.length > 1)
+    .reduce<{ remaining: number; path: string[] } | null>((best, chain) => !best || chain.remaining > best.remaining ? chain : best, null);
+
+  return {
+    nodes,
+    edges,
+    criticalPath: critical?.path ?? [],
+    criticalPathRemaining: critical?.remaining ?? 0,
+  };
+}
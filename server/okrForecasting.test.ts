@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { KrForecastPoint, KrProgressUpdate, KrWeeklyCheckIn } from "@shared/schema";
+import { buildForecastSeries, forecastKeyResult, type ForecastableKeyResult } from "./okrForecasting";
+
+const startDate = new Date("2026-01-01T00:00:00Z");
+const window = { startDate, endDate: new Date("2026-04-11T00:00:00Z") }; // Day 100
+
+function keyResult(overrides: Partial<ForecastableKeyResult> = {}): ForecastableKeyResult {
+  return {
+    metricType: "numeric",
+    startValue: 0,
+    targetValue: 100,
+    currentValue: 0,
+    direction: "increase",
+    confidenceScore: null,
+    createdAt: startDate,
+    ...overrides,
+  };
+}
+
+const day = (n: number) => new Date(startDate.getTime() + n * 24 * 60 * 60 * 1000);
+
+function points(...readings: Array<[number, number]>): KrForecastPoint[] {
+  return readings.map(([n, value]) => ({ at: day(n).toISOString(), value, source: "progress_update" }));
+}
+
+describe("buildForecastSeries", () => {
+  it("starts from the baseline and drops a check-in that repeats its progress update", () => {
+    const updates = [{ timestamp: day(7), newValue: 10 }] as KrProgressUpdate[];
+    const checkIns = [
+      { submittedAt: new Date(day(7).getTime() + 5000), newValue: 10 },
+      { submittedAt: day(14), newValue: 25 },
+    ] as KrWeeklyCheckIn[];
+    const series = buildForecastSeries(keyResult(), startDate, updates, checkIns);
+    assert.deepEqual(series.map(point => [point.source, point.value]), [
+      ["baseline", 0],
+      ["progress_update", 10],
+      ["check_in", 25],
+    ]);
+  });
+});
+
+describe("forecastKeyResult", () => {
+  it("projects a steady trend to the end date with no spread around it", () => {
+    const forecast = forecastKeyResult(keyResult(), window, points([0, 0], [10, 10], [20, 20]), "linear", day(20));
+    assert.equal(forecast.projectedValue, 100);
+    assert.equal(forecast.projectedScore, 1);
+    assert.deepEqual(forecast.impliedConfidence, { low: 10, high: 10 });
+  });
+
+  it("projects on the recent pace with the weighted trend", () => {
+    const readings = points([0, 0], [10, 10], [20, 40]);
+    const linear = forecastKeyResult(keyResult(), window, readings, "linear", day(20));
+    const weighted = forecastKeyResult(keyResult(), window, readings, "ewma", day(20));
+    assert.equal(weighted.projectedValue, 200);
+    assert.ok(weighted.projectedValue! > linear.projectedValue!);
+  });
+
+  it("flags an owner whose confidence is well outside the projected range", () => {
+    const readings = points([0, 0], [10, 10], [20, 20]);
+    assert.equal(forecastKeyResult(keyResult({ confidenceScore: 3 }), window, readings, "linear", day(20)).confidenceMismatch, "underconfident");
+    assert.equal(forecastKeyResult(keyResult({ confidenceScore: 9 }), window, readings, "linear", day(20)).confidenceMismatch, null);
+
+    const stalled = points([0, 0], [10, 5], [20, 5]);
+    assert.equal(forecastKeyResult(keyResult({ confidenceScore: 9 }), window, stalled, "ewma", day(20)).confidenceMismatch, "overconfident");
+  });
+
+  it("doesn't project yes/no key results or a single reading", () => {
+    assert.equal(forecastKeyResult(keyResult({ metricType: "boolean" }), window, points([0, 0], [10, 1]), "linear", day(10)).projectedValue, null);
+    assert.equal(forecastKeyResult(keyResult(), window, points([0, 0]), "linear", day(10)).projectedValue, null);
+  });
+});
@@ -0,0 +1,186 @@
+import type { KrForecast, KrForecastMethod, KrForecastPoint, KrProgressUpdate, KrWeeklyCheckIn } from "@shared/schema";
+import { roundScore, scoreKeyResult, type ScorableKeyResult } from "./okrScoring";
+
+// Projects where a key result will finish from its readings so far and checks it against the owner's confidence.
+
+export type ForecastableKeyResult = ScorableKeyResult & { confidenceScore: number | null; createdAt: Date | null };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// z-score for the 80% range either side of the projection
+const BAND_Z = 1.28;
+// Weight of the newest rate of change against everything before it
+const EWMA_ALPHA = 0.5;
+// How many points on the 1-10 scale the owner's confidence may sit outside the projected range before it's flagged
+const CONFIDENCE_TOLERANCE = 2;
+// A check-in also writes a progress update; the two land within moments of each other
+const DUPLICATE_WINDOW_MS = 60 * 1000;
+
+const METHOD_LABELS: Record<KrForecastMethod, string> = {
+  linear: "Linear trend",
+  ewma: "Recent-weighted trend",
+};
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+// Readings oldest first, starting from the key result's baseline when nothing was recorded before it
+export function buildForecastSeries(
+  keyResult: ForecastableKeyResult,
+  startDate: Date,
+  updates: KrProgressUpdate[],
+  checkIns: KrWeeklyCheckIn[],
+): KrForecastPoint[] {
+  const readings: Array<{ at: Date; value: number; source: KrForecastPoint["source"] }> =
+    updates.map(update => ({ at: update.timestamp, value: update.newValue, source: "progress_update" }));
+  for (const checkIn of checkIns) {
+    const duplicate = readings.some(reading =>
+      reading.value === checkIn.newValue && Math.abs(reading.at.getTime() - checkIn.submittedAt.getTime()) <= DUPLICATE_WINDOW_MS);
+    if (!duplicate) readings.push({ at: checkIn.submittedAt, value: checkIn.newValue, source: "check_in" });
+  }
+  readings.sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const baselineAt = keyResult.createdAt && keyResult.createdAt > startDate ? keyResult.createdAt : startDate;
+  const points: KrForecastPoint[] = readings.map(reading => ({ at: reading.at.toISOString(), value: reading.value, source: reading.source }));
+  if (readings.length === 0 || readings[0].at.getTime() > baselineAt.getTime()) {
+    points.unshift({ at: baselineAt.toISOString(), value: keyResult.startValue ?? 0, source: "baseline" });
+  }
+  return points;
+}
+
+interface Projection {
+  value: number;
+  spread: number | null; // Half the width of the 80% range; null when there's too little history to estimate it
+}
+
+// Least-squares line through every reading, read off at the end date
+function projectLinear(days: number[], values: number[], endDay: number): Projection {
+  const n = days.length;
+  const meanDay = days.reduce((sum, day) => sum + day, 0) / n;
+  const meanValue = values.reduce((sum, value) => sum + value, 0) / n;
+  const sxx = days.reduce((sum, day) => sum + (day - meanDay) ** 2, 0);
+  const slope = days.reduce((sum, day, i) => sum + (day - meanDay) * (values[i] - meanValue), 0) / sxx;
+  const intercept = meanValue - slope * meanDay;
+  const value = intercept + slope * endDay;
+  if (n < 3) return { value, spread: null };
+
+  const residuals = days.reduce((sum, day, i) => sum + (values[i] - (intercept + slope * day)) ** 2, 0);
+  const standardError = Math.sqrt(residuals / (n - 2)) * Math.sqrt(1 + 1 / n + (endDay - meanDay) ** 2 / sxx);
+  return { value, spread: BAND_Z * standardError };
+}
+
+// Carries the latest reading forward at an exponentially-weighted average of the recent rates of change, so a
+// key result that has sped up or stalled lately is projected on its current pace rather than its overall one
+function projectEwma(days: number[], values: number[], endDay: number): Projection {
+  let rate: number | null = null;
+  let variance = 0;
+  let rates = 0;
+  for (let i = 1; i < days.length; i++) {
+    const elapsed = days[i] - days[i - 1];
+    if (elapsed <= 0) continue;
+    const next = (values[i] - values[i - 1]) / elapsed;
+    rates++;
+    if (rate === null) {
+      rate = next;
+      continue;
+    }
+    const difference = next - rate;
+    rate += EWMA_ALPHA * difference;
+    variance = (1 - EWMA_ALPHA) * (variance + EWMA_ALPHA * difference ** 2);
+  }
+  const remaining = endDay - days[days.length - 1];
+  const value = values[values.length - 1] + (rate ?? 0) * remaining;
+  return { value, spread: rates < 2 ? null : BAND_Z * Math.sqrt(variance) * remaining };
+}
+
+function toConfidence(score: number): number {
+  return Math.round(1 + score * 9);
+}
+
+export function forecastKeyResult(
+  keyResult: ForecastableKeyResult,
+  window: { startDate: Date; endDate: Date },
+  points: KrForecastPoint[],
+  method: KrForecastMethod,
+  now: Date,
+): KrForecast {
+  const base = {
+    method,
+    asOf: now.toISOString(),
+    endDate: window.endDate.toISOString(),
+    points,
+    confidenceScore: keyResult.confidenceScore,
+  };
+  const unprojected = (explanation: string): KrForecast => ({
+    ...base,
+    projectedValue: null,
+    projectedScore: null,
+    band: null,
+    impliedConfidence: null,
+    confidenceMismatch: null,
+    explanation,
+  });
+
+  if (keyResult.metricType === "boolean") {
+    return unprojected("Yes/no key results are either met or not, so there's no trend to project.");
+  }
+
+  const latest = points[points.length - 1];
+  const clamp = (value: number) => keyResult.metricType === "percentage" ? Math.min(100, Math.max(0, value)) : value;
+  const score = (value: number) => scoreKeyResult({ ...keyResult, currentValue: value });
+
+  let projection: Projection;
+  let working: string;
+  if (now.getTime() >= window.endDate.getTime()) {
+    // Nothing left to project; the last reading is where it finished
+    projection = { value: latest?.value ?? keyResult.currentValue ?? 0, spread: 0 };
+    working = `The objective ended on ${formatDay(window.endDate)}, so the last reading stands`;
+  } else {
+    const origin = new Date(points[0]?.at ?? now).getTime();
+    const days = points.map(point => (new Date(point.at).getTime() - origin) / DAY_MS);
+    const values = points.map(point => point.value);
+    if (points.length < 2 || days[days.length - 1] - days[0] < 1) {
+      return unprojected("Needs at least two readings a day or more apart before a trend can be projected.");
+    }
+    const endDay = (window.endDate.getTime() - origin) / DAY_MS;
+    projection = method === "ewma" ? projectEwma(days, values, endDay) : projectLinear(days, values, endDay);
+    working = `${METHOD_LABELS[method]} over ${points.length} readings projects ${formatValue(clamp(projection.value))} by ${formatDay(window.endDate)}`;
+  }
+
+  // With too few readings to measure the scatter, allow half the change still expected either way
+  const spread = projection.spread ?? Math.abs(projection.value - (latest?.value ?? projection.value)) / 2;
+  const projectedValue = clamp(projection.value);
+  const lowValue = clamp(projection.value - spread);
+  const highValue = clamp(projection.value + spread);
+  const projectedScore = score(projectedValue);
+  // A key result counting down scores its low value highest
+  const lowScore = Math.min(score(lowValue), score(highValue));
+  const highScore = Math.max(score(lowValue), score(highValue));
+  const impliedConfidence = { low: toConfidence(lowScore), high: toConfidence(highScore) };
+
+  let confidenceMismatch: KrForecast["confidenceMismatch"] = null;
+  if (keyResult.confidenceScore !== null) {
+    if (keyResult.confidenceScore > impliedConfidence.high + CONFIDENCE_TOLERANCE) confidenceMismatch = "overconfident";
+    if (keyResult.confidenceScore < impliedConfidence.low - CONFIDENCE_TOLERANCE) confidenceMismatch = "underconfident";
+  }
+
+  const range = spread > 0 ? ` (80% range ${formatValue(lowValue)}-${formatValue(highValue)})` : "";
+  const scored = lowScore === highScore ? projectedScore.toFixed(2) : `${projectedScore.toFixed(2)}, between ${lowScore.toFixed(2)} and ${highScore.toFixed(2)}`;
+  const mismatch = confidenceMismatch
+    ? ` The owner's confidence of ${keyResult.confidenceScore}/10 is ${confidenceMismatch === "overconfident" ? "higher" : "lower"} than the projection supports (${impliedConfidence.low === impliedConfidence.high ? impliedConfidence.low : `${impliedConfidence.low}-${impliedConfidence.high}`}/10).`
+    : "";
+
+  return {
+    ...base,
+    projectedValue: roundScore(projectedValue),
+    projectedScore,
+    band: { lowValue: roundScore(lowValue), highValue: roundScore(highValue), lowScore, highScore },
+    impliedConfidence,
+    confidenceMismatch,
+    explanation: `${working}${range}, scoring ${scored}.${mismatch}`,
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { OkrRollupInput } from "@shared/schema";
+import { computeOkrRollup } from "./okrRollup";
+
+function input(id: string, score: number | null, weight = 1): OkrRollupInput {
+  return { kind: "key_result", id, title: `KR ${id}`, score, weight };
+}
+
+const inputs = [input("a", 0.9, 3), input("b", 0.3, 1), input("c", null, 5)];
+
+describe("computeOkrRollup", () => {
+  it("weights scored inputs and leaves out the ones not scored yet", () => {
+    const rollup = computeOkrRollup("weighted_average", inputs, null);
+    assert.equal(rollup.progress, 0.75);
+    assert.match(rollup.explanation, /\(0\.90 × 3 \+ 0\.30 × 1\) ÷ 4 = 0\.75/);
+    assert.match(rollup.explanation, /1 input\(s\) not scored yet/);
+  });
+
+  it("picks the lowest or highest scored input", () => {
+    assert.equal(computeOkrRollup("min", inputs, null).progress, 0.3);
+    assert.equal(computeOkrRollup("max", inputs, null).progress, 0.9);
+  });
+
+  it("has no progress until something is scored or when every weight is zero", () => {
+    assert.equal(computeOkrRollup("weighted_average", [input("c", null)], null).progress, null);
+    assert.equal(computeOkrRollup("weighted_average", [input("a", 0.5, 0)], null).progress, null);
+  });
+
+  it("shows a manual override while keeping the calculated value alongside", () => {
+    const at = new Date("2026-03-01T12:00:00Z");
+    const rollup = computeOkrRollup("manual", inputs, { value: 0.456, reason: "Launch slipped", by: "lead", at });
+    assert.equal(rollup.progress, 0.46);
+    assert.equal(rollup.calculatedProgress, 0.75);
+    assert.deepEqual(rollup.override, { value: 0.46, reason: "Launch slipped", by: "lead", at: at.toISOString() });
+
+    // Without an override a manual rollup falls back to the calculated value
+    assert.equal(computeOkrRollup("manual", inputs, null).progress, 0.75);
+  });
+});
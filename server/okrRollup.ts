@@ -0,0 +1,71 @@
+import type { OkrRollupBreakdown, OkrRollupInput, OkrRollupMethod } from "@shared/schema";
+import { roundScore } from "./okrScoring";
+
+// Objective progress rolled up from the children beneath it; free of storage imports so storage.ts can use it.
+
+export interface OkrRollupOverride {
+  value: number;
+  reason: string;
+  by: string | null;
+  at: Date | null;
+}
+
+const METHOD_LABELS: Record<Exclude<OkrRollupMethod, "manual">, string> = {
+  weighted_average: "Weighted average",
+  min: "Lowest",
+  max: "Highest",
+};
+
+function formatScore(score: number): string {
+  return score.toFixed(2);
+}
+
+function weightedAverage(inputs: OkrRollupInput[]): { progress: number | null; working: string } {
+  const weighted = inputs.filter(input => input.weight > 0);
+  const totalWeight = weighted.reduce((sum, input) => sum + input.weight, 0);
+  if (totalWeight === 0) return { progress: null, working: "" };
+  const progress = roundScore(weighted.reduce((sum, input) => sum + input.score! * input.weight, 0) / totalWeight);
+  const terms = weighted.map(input => `${formatScore(input.score!)} × ${input.weight}`).join(" + ");
+  return { progress, working: `(${terms}) ÷ ${totalWeight} = ${formatScore(progress)}` };
+}
+
+function extreme(inputs: OkrRollupInput[], method: "min" | "max"): OkrRollupInput {
+  return inputs.reduce((best, input) => (method === "min" ? input.score! < best.score! : input.score! > best.score!) ? input : best);
+}
+
+export function computeOkrRollup(method: OkrRollupMethod, inputs: OkrRollupInput[], override: OkrRollupOverride | null): OkrRollupBreakdown {
+  const scored = inputs.filter(input => input.score !== null);
+  const unscored = inputs.length - scored.length;
+  const leftOut = unscored > 0 ? ` ${unscored} input(s) not scored yet were left out.` : "";
+
+  let calculatedProgress: number | null = null;
+  let explanation = "Nothing beneath this objective has been scored yet.";
+  if (scored.length > 0) {
+    if (method === "min" || method === "max") {
+      const picked = extreme(scored, method);
+      calculatedProgress = picked.score;
+      explanation = `${METHOD_LABELS[method]} of ${scored.length} input(s): "${picked.title}" at ${formatScore(picked.score!)}.${leftOut}`;
+    } else {
+      const average = weightedAverage(scored);
+      calculatedProgress = average.progress;
+      explanation = average.progress === null
+        ? `Every scored input has a weight of 0.${leftOut}`
+        : `${METHOD_LABELS.weighted_average} of ${scored.length} input(s): ${average.working}.${leftOut}`;
+    }
+  }
+
+  // A manual override replaces the result; the weighted average is kept alongside so the gap stays visible
+  if (method === "manual" && override) {
+    const value = roundScore(override.value);
+    return {
+      method,
+      inputs,
+      calculatedProgress,
+      progress: value,
+      override: { value, reason: override.reason, by: override.by, at: override.at ? override.at.toISOString() : null },
+      explanation: `Set by hand to ${formatScore(value)}: ${override.reason}. ${calculatedProgress === null ? "Nothing beneath it has been scored yet." : `The inputs work out to ${formatScore(calculatedProgress)}.`}`,
+    };
+  }
+
+  return { method, inputs, calculatedProgress, progress: calculatedProgress, override: null, explanation };
+}
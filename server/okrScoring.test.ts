@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { scoreKeyResult, type ScorableKeyResult } from "./okrScoring";
+
+function keyResult(overrides: Partial<ScorableKeyResult>): ScorableKeyResult {
+  return { metricType: "numeric", startValue: 0, targetValue: 100, currentValue: 0, direction: "increase", ...overrides };
+}
+
+describe("scoreKeyResult", () => {
+  it("scores progress from the start value towards the target either way", () => {
+    assert.equal(scoreKeyResult(keyResult({ startValue: 10, targetValue: 40, currentValue: 25 })), 0.5);
+    assert.equal(scoreKeyResult(keyResult({ startValue: 40, targetValue: 10, currentValue: 25 })), 0.5);
+  });
+
+  it("scores an increasing hold-the-line key result as met at or above its target", () => {
+    const hold = { startValue: 95, targetValue: 95, direction: "increase" as const };
+    assert.equal(scoreKeyResult(keyResult({ ...hold, currentValue: 97 })), 1);
+    assert.equal(scoreKeyResult(keyResult({ ...hold, currentValue: 93 })), 0);
+  });
+
+  it("scores a decreasing hold-the-line key result as met at or below its target", () => {
+    const hold = { startValue: 5, targetValue: 5, direction: "decrease" as const };
+    assert.equal(scoreKeyResult(keyResult({ ...hold, currentValue: 3 })), 1);
+    assert.equal(scoreKeyResult(keyResult({ ...hold, currentValue: 5 })), 1);
+    assert.equal(scoreKeyResult(keyResult({ ...hold, currentValue: 8 })), 0);
+  });
+});
@@ -0,0 +1,88 @@
+import type { Goal, KeyResult, OkrCycle } from "@shared/schema";
+
+// OKR scoring and cycle rules; key results, objectives and goals all score 0.0-1.0 whatever they measure.
+
+export class OkrCycleError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "OkrCycleError";
+    Object.setPrototypeOf(this, OkrCycleError.prototype);
+  }
+}
+
+export type ScorableKeyResult = Pick<KeyResult, "metricType" | "startValue" | "targetValue" | "currentValue" | "direction">;
+export type ScoreBand = "green" | "amber" | "red";
+
+// Scores at or above these read as delivered / progressing; below amber the objective needs attention
+const GREEN_SCORE = 0.7;
+const AMBER_SCORE = 0.4;
+
+const CYCLE_STATUS_CHANGES: Record<OkrCycle["status"], OkrCycle["status"][]> = {
+  open: ["in_progress"],
+  in_progress: [],
+  closed: [],
+};
+
+export function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+// How far the key result has moved from its start value towards its target, so "cut defects from 40 to 10" scores
+// the same way as "grow sign-ups from 10 to 40". Yes/no results are met or not, and percentages stay within 0-100.
+export function scoreKeyResult(keyResult: ScorableKeyResult): number {
+  const start = keyResult.startValue ?? 0;
+  const target = keyResult.targetValue;
+  let current = keyResult.currentValue ?? start;
+
+  if (keyResult.metricType === "boolean") {
+    return current > 0 && current >= target ? 1 : 0;
+  }
+  if (keyResult.metricType === "percentage") {
+    current = Math.min(100, Math.max(0, current));
+  }
+  // A target equal to the baseline means "hold the line": stay at or above it, or at or below it when decreasing
+  if (target === start) {
+    const held = keyResult.direction === "decrease" ? current <= target : current >= target;
+    return held ? 1 : 0;
+  }
+  return roundScore(Math.min(1, Math.max(0, (current - start) / (target - start))));
+}
+
+// Goals have no baseline; they count up from zero
+export function scoreGoal(goal: Pick<Goal, "targetValue" | "currentValue">): number {
+  return scoreKeyResult({ metricType: "numeric", startValue: 0, targetValue: goal.targetValue, currentValue: goal.currentValue, direction: "increase" });
+}
+
+// Mean of the scores that exist; null when nothing has been scored
+export function averageScore(scores: Array<number | null>): number | null {
+  const scored = scores.filter((score): score is number => score !== null);
+  if (scored.length === 0) return null;
+  return roundScore(scored.reduce((sum, score) => sum + score, 0) / scored.length);
+}
+
+export function getScoreBand(score: number): ScoreBand {
+  if (score >= GREEN_SCORE) return "green";
+  if (score >= AMBER_SCORE) return "amber";
+  return "red";
+}
+
+// Anything short of fully delivered, including objectives that were never scored, can roll into the next cycle
+export function isUnfinished(score: number | null): boolean {
+  return score === null || score < 1;
+}
+
+export function assertOkrCycleDates(startDate: Date, endDate: Date): void {
+  if (endDate.getTime() <= startDate.getTime()) {
+    throw new OkrCycleError("The cycle must end after it starts");
+  }
+}
+
+export function assertOkrCycleStatusChange(from: OkrCycle["status"], to: OkrCycle["status"]): void {
+  if (from === to) return;
+  if (from === "closed") {
+    throw new OkrCycleError("This cycle is closed and can no longer be changed", 409);
+  }
+  if (!CYCLE_STATUS_CHANGES[from].includes(to)) {
+    throw new OkrCycleError(`A cycle that is ${from.replace("_", " ")} can't be moved back to ${to.replace("_", " ")}`, 409);
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { Team } from "@shared/schema";
+import type { UserPermissionGrant } from "./storage";
+
+// storage.ts connects lazily, so any URL lets it load; the storage calls are replaced below
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+
+const { storage } = await import("./storage");
+const { hasPermission } = await import("./permissions");
+
+function grant(scopeType: UserPermissionGrant["scopeType"], scopeId: string | null): UserPermissionGrant {
+  return { assignmentId: "assignment-1", roleId: "role-1", roleName: "Course authors", permissions: ["course.author"], scopeType, scopeId };
+}
+
+describe("hasPermission", () => {
+  mock.method(storage, "getTeam", async (id: string) => ({ id, departmentId: "dept-1", parentTeamId: null }) as Team);
+
+  it("denies a team grant on a check with no target", async () => {
+    assert.equal(await hasPermission([grant("team", "team-1")], "course.author"), false);
+    assert.equal(await hasPermission([grant("department", "dept-1")], "course.author", null), false);
+  });
+
+  it("allows an organization-wide grant on a check with no target", async () => {
+    assert.equal(await hasPermission([grant("organization", null)], "course.author"), true);
+  });
+
+  it("allows a scoped grant on a target it covers", async () => {
+    assert.equal(await hasPermission([grant("team", "team-1")], "course.author", { teamId: "team-1" }), true);
+    assert.equal(await hasPermission([grant("department", "dept-1")], "course.author", { teamId: "team-1" }), true);
+    assert.equal(await hasPermission([grant("team", "team-2")], "course.author", { teamId: "team-1" }), false);
+  });
+});
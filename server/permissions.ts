@@ -0,0 +1,106 @@
+import type { User } from "@shared/schema";
+import { storage, type UserPermissionGrant } from "./storage";
+
+// Named permissions, checked by requirePermission() in routes.ts and by the client navigation.
+
+export const PERMISSIONS = {
+  "course.author": "Create and edit courses, lessons, quizzes and question banks, and grade quiz answers",
+  "evidence.verify": "Verify competency evidence",
+  "okr.admin": "Create and edit company objectives",
+  "webhook.manage": "Configure outgoing webhooks",
+  "report.view": "View analytics, dashboards and reports",
+  "report.export": "Run and export compliance reports",
+  "people.manage": "Manage people, teams, departments and job roles",
+  "talent.manage": "Manage competencies, skills, learning paths and certificates",
+  "user.import": "Bulk import users, training records and evidence",
+  "settings.manage": "Manage company settings and automation",
+  "permission.manage": "Manage permission roles and who holds them",
+  "api.manage": "Manage service accounts and revoke anyone's API tokens",
+  "credential.manage": "Set local sign-in passwords and unlock locked accounts",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+export const PERMISSION_NAMES = Object.keys(PERMISSIONS) as [Permission, ...Permission[]];
+
+const SUPERVISOR_PERMISSIONS: Permission[] = ["course.author", "evidence.verify", "report.view", "report.export", "people.manage", "talent.manage"];
+
+export const BASE_ROLE_PERMISSIONS: Record<User["role"], Permission[]> = {
+  operative: [],
+  supervisor: SUPERVISOR_PERMISSIONS,
+  leadership: PERMISSION_NAMES,
+};
+
+// What a permission is being exercised on. Omitted or null: the whole organization, so only organization-wide grants count.
+export interface PermissionTarget {
+  userId?: string;
+  teamId?: string;
+  departmentId?: string;
+}
+
+interface ResolvedTarget {
+  teamIds: Set<string>;
+  departmentIds: Set<string>;
+}
+
+// The base role keeps the access it always had; permission roles add to it, optionally for one department or team
+export async function getPermissionGrants(user: User): Promise<UserPermissionGrant[]> {
+  const baseGrant: UserPermissionGrant = {
+    assignmentId: null,
+    roleId: null,
+    roleName: `${user.role} (base role)`,
+    permissions: BASE_ROLE_PERMISSIONS[user.role] ?? [],
+    scopeType: "organization",
+    scopeId: null,
+  };
+  return [baseGrant, ...(await storage.getUserPermissionGrants(user.id))];
+}
+
+// A team grant covers its sub-teams; a department grant covers the department's teams and the people in them
+async function resolveTarget(target: PermissionTarget): Promise<ResolvedTarget> {
+  const resolved: ResolvedTarget = { teamIds: new Set(), departmentIds: new Set() };
+  const teamIds: string[] = [];
+  if (target.departmentId) resolved.departmentIds.add(target.departmentId);
+  if (target.teamId) teamIds.push(target.teamId);
+  if (target.userId) {
+    const user = await storage.getUser(target.userId);
+    if (user?.departmentId) resolved.departmentIds.add(user.departmentId);
+    if (user?.teamId) teamIds.push(user.teamId);
+    const memberships = await storage.getTeamMembershipsForUsers([target.userId]);
+    teamIds.push(...memberships.map(membership => membership.teamId));
+  }
+
+  for (const teamId of teamIds) {
+    let current: string | null = teamId;
+    // Parent chains are short; the cap only guards against a cycle in bad data
+    for (let depth = 0; current && depth < 20 && !resolved.teamIds.has(current); depth++) {
+      resolved.teamIds.add(current);
+      const team = await storage.getTeam(current);
+      if (team?.departmentId) resolved.departmentIds.add(team.departmentId);
+      current = team?.parentTeamId ?? null;
+    }
+  }
+  return resolved;
+}
+
+export async function hasPermission(grants: UserPermissionGrant[], permission: Permission, target?: PermissionTarget | null): Promise<boolean> {
+  const matching = grants.filter(grant => grant.permissions.includes(permission));
+  if (matching.length === 0) return false;
+  if (matching.some(grant => grant.scopeType === "organization")) return true;
+  if (!target) return false;
+
+  const resolved = await resolveTarget(target);
+  return matching.some(grant =>
+    (grant.scopeType === "team" && resolved.teamIds.has(grant.scopeId ?? "")) ||
+    (grant.scopeType === "department" && resolved.departmentIds.has(grant.scopeId ?? ""))
+  );
+}
+
+// Every permission the user holds anywhere, for navigation; scoped grants are listed so the client can explain them
+export function summarizePermissions(grants: UserPermissionGrant[]) {
+  const permissions = new Set<string>();
+  grants.forEach(grant => grant.permissions.forEach(permission => permissions.add(permission)));
+  return {
+    permissions: PERMISSION_NAMES.filter(permission => permissions.has(permission)),
+    grants,
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { QuizAttempt } from "@shared/schema";
+import { drawQuestionsForRule, QuizDrawError, toLearnerQuizAttempt, type DrawCandidate } from "./questionDraw";
+
+function candidate(id: string, skillId: string, difficulty = "medium"): DrawCandidate {
+  return {
+    id,
+    bankId: "bank-1",
+    skillIds: [skillId],
+    difficulty,
+    type: "multiple_choice",
+    questionText: `Question ${id}`,
+    options: ["a", "b"],
+    correctAnswers: [0],
+    explanation: "Because",
+  };
+}
+
+const bank = [
+  ...["a1", "a2", "a3", "a4", "a5", "a6"].map(id => candidate(id, "skill-a")),
+  candidate("b1", "skill-b", "hard"),
+  candidate("b2", "skill-b", "easy"),
+  candidate("c1", "skill-c"),
+  candidate("c2", "skill-c"),
+];
+
+function rule(overrides: Partial<Parameters<typeof drawQuestionsForRule>[0]>) {
+  return { id: "rule-1", questionCount: 5, skillId: null, difficulty: null, stratifyBy: "none", ...overrides };
+}
+
+describe("drawQuestionsForRule", () => {
+  it("covers every skill and splits the rest in proportion when stratifying", () => {
+    const drawn = drawQuestionsForRule(rule({ stratifyBy: "skill" }), bank);
+    const perSkill = (skill: string) => drawn.filter(question => question.skillIds[0] === skill).length;
+    assert.equal(drawn.length, 5);
+    assert.deepEqual([perSkill("skill-a"), perSkill("skill-b"), perSkill("skill-c")], [3, 1, 1]);
+    assert.ok(drawn.every(question => question.source === "bank" && question.drawRuleId === "rule-1"));
+  });
+
+  it("draws distinct questions matching the filters and skips excluded ones", () => {
+    const drawn = drawQuestionsForRule(rule({ questionCount: 4, skillId: "skill-a" }), bank, new Set(["a1", "a2"]));
+    assert.deepEqual(drawn.map(question => question.id).sort(), ["a3", "a4", "a5", "a6"]);
+  });
+
+  it("refuses a rule the bank can't fill", () => {
+    assert.throws(() => drawQuestionsForRule(rule({ questionCount: 2, skillId: "skill-b", difficulty: "hard" }), bank), QuizDrawError);
+  });
+});
+
+describe("toLearnerQuizAttempt", () => {
+  it("hides answer keys, and explanations until the attempt is submitted", () => {
+    const questionSet = drawQuestionsForRule(rule({ questionCount: 1, skillId: "skill-c" }), bank);
+    const open = toLearnerQuizAttempt({ questionSet, completedAt: null } as Pick<QuizAttempt, "questionSet" | "completedAt">);
+    const [question] = open.questionSet as Record<string, unknown>[];
+    assert.equal("correctAnswers" in question, false);
+    assert.equal("explanation" in question, false);
+
+    const submitted = toLearnerQuizAttempt({ questionSet, completedAt: new Date() } as Pick<QuizAttempt, "questionSet" | "completedAt">);
+    assert.equal((submitted.questionSet as Record<string, unknown>[])[0].explanation, "Because");
+  });
+});
@@ -0,0 +1,144 @@
+import type { AttemptQuestion, MatchingOptions, QuizAttempt, QuizDrawRule } from "@shared/schema";
+
+// Per-attempt question selection.
+
+export const QUESTION_DIFFICULTIES = ["easy", "medium", "hard"] as const;
+export const DRAW_STRATIFICATIONS = ["none", "skill", "difficulty"] as const;
+
+export class QuizDrawError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuizDrawError";
+    Object.setPrototypeOf(this, QuizDrawError.prototype);
+  }
+}
+
+// A bank question eligible for drawing, with the skills it is tagged with directly or through its lesson
+export type DrawCandidate = Omit<AttemptQuestion, "source" | "drawRuleId">;
+
+type DrawRule = Pick<QuizDrawRule, "id" | "questionCount" | "skillId" | "difficulty" | "stratifyBy">;
+
+// Fisher-Yates; returns a new array
+export function shuffleQuestions<T>(items: T[], random: () => number = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export function filterDrawCandidates(rule: Pick<DrawRule, "skillId" | "difficulty">, candidates: DrawCandidate[]): DrawCandidate[] {
+  return candidates.filter(candidate =>
+    (!rule.skillId || candidate.skillIds.includes(rule.skillId)) &&
+    (!rule.difficulty || candidate.difficulty === rule.difficulty)
+  );
+}
+
+// Questions tagged with several skills are stratified under their first skill so each lands in one stratum
+function getStratumKey(stratifyBy: string, candidate: DrawCandidate): string {
+  if (stratifyBy === "skill") return candidate.skillIds[0] ?? "untagged";
+  if (stratifyBy === "difficulty") return candidate.difficulty ?? "unrated";
+  return "all";
+}
+
+// Splits count across strata in proportion to their size (largest remainder), never exceeding a stratum.
+// Every stratum gets at least one question when count allows, so small skills are still covered.
+function allocateAcrossStrata(count: number, sizes: number[]): number[] {
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  const allocation = sizes.map(() => 0);
+  let remaining = count;
+
+  if (count >= sizes.length) {
+    sizes.forEach((size, i) => {
+      if (size > 0) {
+        allocation[i] = 1;
+        remaining--;
+      }
+    });
+  }
+
+  const spare = sizes.map((size, i) => size - allocation[i]);
+  const spareTotal = total - (count - remaining);
+  if (remaining <= 0 || spareTotal <= 0) return allocation;
+
+  const quotas = spare.map(size => (size / spareTotal) * remaining);
+  const floors = quotas.map((quota, i) => Math.min(spare[i], Math.floor(quota)));
+  floors.forEach((value, i) => { allocation[i] += value; });
+  remaining -= floors.reduce((sum, value) => sum + value, 0);
+
+  const byRemainder = quotas
+    .map((quota, i) => ({ i, remainder: quota - Math.floor(quota) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  while (remaining > 0) {
+    const next = byRemainder.find(({ i }) => allocation[i] < sizes[i]);
+    if (!next) break;
+    allocation[next.i]++;
+    remaining--;
+    next.remainder = -1;
+    byRemainder.sort((a, b) => b.remainder - a.remainder);
+  }
+  return allocation;
+}
+
+export function drawQuestionsForRule(
+  rule: DrawRule,
+  candidates: DrawCandidate[],
+  excludeIds: Set<string> = new Set(),
+  random: () => number = Math.random,
+): AttemptQuestion[] {
+  const eligible = filterDrawCandidates(rule, candidates).filter(candidate => !excludeIds.has(candidate.id));
+  if (eligible.length < rule.questionCount) {
+    throw new QuizDrawError(
+      `Draw rule needs ${rule.questionCount} questions but only ${eligible.length} are available in the question bank`
+    );
+  }
+
+  const strata = new Map<string, DrawCandidate[]>();
+  for (const candidate of eligible) {
+    const key = getStratumKey(rule.stratifyBy, candidate);
+    strata.set(key, [...(strata.get(key) ?? []), candidate]);
+  }
+
+  const groups = Array.from(strata.values());
+  const allocation = allocateAcrossStrata(rule.questionCount, groups.map(group => group.length));
+  const drawn = groups.flatMap((group, i) => shuffleQuestions(group, random).slice(0, allocation[i]));
+
+  return drawn.map(candidate => ({ ...candidate, source: "bank" as const, drawRuleId: rule.id }));
+}
+
+// Ordering items and matching choices are shuffled once per attempt, with the answer key remapped to match.
+// Authors enter them in the correct order, so showing them as stored would give the answer away.
+export function shuffleQuestionChoices<T extends Pick<AttemptQuestion, "type" | "options" | "correctAnswers">>(
+  question: T,
+  random: () => number = Math.random,
+): T {
+  if (question.type === "ordering" && Array.isArray(question.options) && Array.isArray(question.correctAnswers)) {
+    const order = shuffleQuestions(question.options.map((_, i) => i), random);
+    return {
+      ...question,
+      options: order.map(i => (question.options as unknown[])[i]),
+      correctAnswers: (question.correctAnswers as number[]).map(index => order.indexOf(index)),
+    };
+  }
+  if (question.type === "matching" && question.options && Array.isArray((question.options as MatchingOptions).right) && Array.isArray(question.correctAnswers)) {
+    const options = question.options as MatchingOptions;
+    const order = shuffleQuestions(options.right.map((_, i) => i), random);
+    return {
+      ...question,
+      options: { ...options, right: order.map(i => options.right[i]) },
+      correctAnswers: (question.correctAnswers as number[]).map(index => order.indexOf(index)),
+    };
+  }
+  return question;
+}
+
+// Hides answer keys from learners. Explanations are only shown once the attempt is submitted.
+export function toLearnerQuizAttempt<T extends Pick<QuizAttempt, "questionSet" | "completedAt">>(attempt: T): T {
+  if (!Array.isArray(attempt.questionSet)) return attempt;
+  const questionSet = (attempt.questionSet as AttemptQuestion[]).map(({ correctAnswers, explanation, ...question }) => ({
+    ...question,
+    ...(attempt.completedAt ? { explanation } : {}),
+  }));
+  return { ...attempt, questionSet };
+}
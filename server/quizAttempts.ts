@@ -0,0 +1,76 @@
+import type { QuizAnswers, QuizAttempt } from "@shared/schema";
+import { storage } from "./storage";
+import {
+  getAttemptTimeSpent,
+  getOverrunSeconds,
+  isQuizAttemptOpen,
+  QUIZ_SUBMISSION_GRACE_MS,
+  QuizAttemptClosedError,
+} from "./quizTiming";
+
+// Closing quiz attempts that ran out of time, and crediting the lesson once an attempt has a final score.
+
+const OVERDUE_BATCH_SIZE = 100;
+
+// Once an attempt has a final score: credit the lesson on a pass. The learner is told how they did by the
+// quiz.passed/quiz.failed domain event that storage records with the score.
+export async function applyQuizAttemptOutcome(attempt: QuizAttempt) {
+  if (attempt.passed && attempt.enrollmentId) {
+    await storage.updateLessonProgressFromQuiz(attempt.enrollmentId, attempt.quizId, attempt.userId);
+  }
+}
+
+// Closes an attempt whose deadline has passed, using the quiz's expiry action. Auto-submission grades the
+// last autosaved answers; anything sent after the deadline is never graded. lateSubmissionAt is set when
+// the close was triggered by a refused learner submission rather than the sweep.
+export async function closeExpiredQuizAttempt(attempt: QuizAttempt, lateSubmissionAt?: Date): Promise<QuizAttempt> {
+  const closedAt = lateSubmissionAt ?? new Date();
+  const quiz = await storage.getQuizById(attempt.quizId);
+  const timeSpent = getAttemptTimeSpent(attempt, closedAt);
+  const closure = {
+    overrunSeconds: getOverrunSeconds(attempt, closedAt),
+    lateSubmissionAt: lateSubmissionAt ?? null,
+  };
+
+  if (quiz?.expiryAction === "void") {
+    const voided = await storage.voidQuizAttempt(attempt.id, timeSpent, closure);
+    console.log(`[AUDIT] Quiz attempt ${attempt.id} voided ${closure.overrunSeconds}s past its deadline`);
+    return voided;
+  }
+
+  const submitted = await storage.submitQuizAttempt(
+    attempt.id,
+    (attempt.answers ?? {}) as QuizAnswers,
+    timeSpent,
+    { closeReason: "auto_submitted", ...closure },
+  );
+  console.log(`[AUDIT] Quiz attempt ${attempt.id} auto-submitted ${closure.overrunSeconds}s past its deadline`);
+  if (submitted.gradingStatus !== "pending_grading") {
+    await applyQuizAttemptOutcome(submitted);
+  }
+  return submitted;
+}
+
+// Attempts abandoned past their deadline are closed by the scheduler so they don't stay open indefinitely
+export async function closeOverdueQuizAttempts(): Promise<{ processed: number; autoSubmitted: number; voided: number; errors: string[] }> {
+  const summary = { processed: 0, autoSubmitted: 0, voided: 0, errors: [] as string[] };
+  const overdue = await storage.getOverdueQuizAttempts(new Date(Date.now() - QUIZ_SUBMISSION_GRACE_MS), OVERDUE_BATCH_SIZE);
+
+  for (const attempt of overdue) {
+    if (!isQuizAttemptOpen(attempt)) continue;
+    summary.processed++;
+    try {
+      const closed = await closeExpiredQuizAttempt(attempt);
+      if (closed.closeReason === "voided") {
+        summary.voided++;
+      } else {
+        summary.autoSubmitted++;
+      }
+    } catch (error: any) {
+      // The learner submitted between the query and the close
+      if (error instanceof QuizAttemptClosedError) continue;
+      summary.errors.push(`Failed to close quiz attempt ${attempt.id}: ${error?.message || error}`);
+    }
+  }
+  return summary;
+}
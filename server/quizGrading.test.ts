@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  applyManualGrades,
+  calculateAttemptScore,
+  gradeQuestion,
+  hasPendingManualGrading,
+  QuizGradingError,
+} from "./quizGrading";
+import { shuffleQuestionChoices } from "./questionDraw";
+
+function question(type: string, correctAnswers: unknown, options: unknown = null) {
+  return { id: `${type}-1`, type, options, correctAnswers };
+}
+
+const isCorrect = (q: ReturnType<typeof question>, answer: unknown) => gradeQuestion(q, answer).isCorrect;
+
+describe("gradeQuestion", () => {
+  it("matches short answers by wildcard or regex, ignoring case and extra spaces by default", () => {
+    const wildcard = question("short_answer", { acceptedAnswers: ["photo*sis"] });
+    assert.equal(isCorrect(wildcard, "  PhotoSynthesis "), true);
+    assert.equal(isCorrect(wildcard, "respiration"), false);
+
+    const regex = question("short_answer", { acceptedAnswers: ["/^h2o$/"], caseSensitive: true });
+    assert.equal(isCorrect(regex, "h2o"), true);
+    assert.equal(isCorrect(regex, "H2O"), false);
+  });
+
+  it("accepts numeric answers within an absolute or percentage tolerance", () => {
+    assert.equal(isCorrect(question("numeric", { value: 0.3, tolerance: 0 }), 0.1 + 0.2), true);
+    assert.equal(isCorrect(question("numeric", { value: 1000, tolerance: 5, toleranceType: "percent" }), "1,040"), true);
+    assert.equal(isCorrect(question("numeric", { value: 200, tolerance: 5, toleranceType: "percent" }), "209"), true);
+    assert.equal(isCorrect(question("numeric", { value: 200, tolerance: 5, toleranceType: "percent" }), "211"), false);
+  });
+
+  it("ignores selection order for multi-select but not for ordering", () => {
+    assert.equal(isCorrect(question("multi_select", [0, 2]), [2, 0]), true);
+    assert.equal(isCorrect(question("ordering", [0, 1, 2]), [1, 0, 2]), false);
+  });
+
+  it("grades ordering answers against the key remapped by the per-attempt shuffle", () => {
+    const ordering = question("ordering", [0, 1, 2], ["first", "second", "third"]);
+    const shuffled = shuffleQuestionChoices(ordering, () => 0);
+    const options = shuffled.options as string[];
+    const answer = ["first", "second", "third"].map(item => options.indexOf(item));
+    assert.equal(isCorrect(shuffled, answer), true);
+    assert.equal(isCorrect(shuffled, [0, 1, 2]), false);
+  });
+});
+
+describe("manual grading", () => {
+  const results = [gradeQuestion(question("essay", null), "An essay"), gradeQuestion(question("multi_select", [1]), [1])];
+
+  it("holds the attempt for grading until every essay has a grade", () => {
+    assert.equal(hasPendingManualGrading(results), true);
+    assert.throws(() => applyManualGrades(results, [], "grader"), QuizGradingError);
+    assert.throws(() => applyManualGrades(results, [{ questionId: "multi_select-1", score: 0 }], "grader"), QuizGradingError);
+
+    const graded = applyManualGrades(results, [{ questionId: "essay-1", score: 40, feedback: "Cite sources" }], "grader");
+    assert.equal(hasPendingManualGrading(graded), false);
+    assert.equal(graded[0].isCorrect, false);
+    assert.equal(graded[0].feedback, "Cite sources");
+    assert.equal(calculateAttemptScore(graded), 70);
+  });
+});
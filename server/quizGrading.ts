@@ -0,0 +1,227 @@
+import type {
+  AttemptQuestion,
+  AttemptQuestionResult,
+  MatchingOptions,
+  NumericAnswerKey,
+  QuizAttempt,
+  ShortAnswerKey,
+} from "@shared/schema";
+
+// Answer checking for every question type.
+
+export const CHOICE_QUESTION_TYPES = ["multiple_choice", "true_false", "multi_select"];
+export const MANUALLY_GRADED_QUESTION_TYPES = ["essay"];
+
+type GradableQuestion = Pick<AttemptQuestion, "id" | "type" | "options" | "correctAnswers">;
+
+export interface ManualGrade {
+  questionId: string;
+  score: number; // 0-100
+  feedback?: string | null;
+}
+
+export class QuizGradingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuizGradingError";
+    Object.setPrototypeOf(this, QuizGradingError.prototype);
+  }
+}
+
+function toIndexArray(value: unknown): number[] | null {
+  if (!Array.isArray(value)) return null;
+  const indices = value.map(item => typeof item === "number" ? item : Number(item));
+  return indices.every(Number.isInteger) ? indices : null;
+}
+
+function sameSequence(a: number[] | null, b: number[] | null): boolean {
+  return !!a && !!b && a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+function normalizeText(value: string): string {
+  return value.trim().replace(/\s+/g, " ");
+}
+
+// "/pattern/flags" is a regular expression; anything else is literal text where * matches any run of characters
+function parsePattern(pattern: string, caseSensitive: boolean): RegExp {
+  const regexLiteral = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexLiteral) {
+    const flags = regexLiteral[2].replace(/[gy]/g, "");
+    return new RegExp(regexLiteral[1], caseSensitive || flags.includes("i") ? flags : `${flags}i`);
+  }
+  const escaped = normalizeText(pattern)
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`, caseSensitive ? "" : "i");
+}
+
+export function matchesAcceptedAnswer(key: ShortAnswerKey, answer: string): boolean {
+  const normalized = normalizeText(answer);
+  if (!normalized) return false;
+  return key.acceptedAnswers.some(pattern => {
+    try {
+      return parsePattern(pattern, !!key.caseSensitive).test(normalized);
+    } catch {
+      return false;
+    }
+  });
+}
+
+export function isWithinTolerance(key: NumericAnswerKey, answer: unknown): boolean {
+  const value = typeof answer === "number" ? answer : parseFloat(String(answer ?? "").replace(/[\s,]/g, ""));
+  if (!Number.isFinite(value)) return false;
+  const allowed = key.toleranceType === "percent"
+    ? Math.abs(key.value) * (key.tolerance / 100)
+    : key.tolerance;
+  // Small epsilon so 0.1 + 0.2 style floating point error doesn't fail an exact answer
+  return Math.abs(value - key.value) <= allowed + 1e-9;
+}
+
+function isAnswerCorrect(question: GradableQuestion, answer: unknown): boolean {
+  if (answer === undefined || answer === null) return false;
+
+  switch (question.type) {
+    case "multiple_choice":
+    case "true_false":
+    case "ordering":
+    case "matching":
+      return sameSequence(toIndexArray(answer), toIndexArray(question.correctAnswers));
+    case "multi_select": {
+      // Selection order doesn't matter
+      const selected = toIndexArray(answer);
+      const correct = toIndexArray(question.correctAnswers);
+      return sameSequence(selected && [...selected].sort((a, b) => a - b), correct && [...correct].sort((a, b) => a - b));
+    }
+    case "short_answer":
+      return typeof answer === "string" && matchesAcceptedAnswer(question.correctAnswers as ShortAnswerKey, answer);
+    case "numeric":
+      return isWithinTolerance(question.correctAnswers as NumericAnswerKey, answer);
+    default:
+      return JSON.stringify(answer) === JSON.stringify(question.correctAnswers);
+  }
+}
+
+export function gradeQuestion(question: GradableQuestion, answer: unknown): AttemptQuestionResult {
+  if (MANUALLY_GRADED_QUESTION_TYPES.includes(question.type)) {
+    return { questionId: question.id, earned: 0, isCorrect: null, needsManualGrading: true };
+  }
+  const isCorrect = isAnswerCorrect(question, answer);
+  return { questionId: question.id, earned: isCorrect ? 1 : 0, isCorrect, needsManualGrading: false };
+}
+
+// Every question carries equal weight; essays count as whatever share the grader awarded
+export function calculateAttemptScore(results: AttemptQuestionResult[]): number {
+  if (results.length === 0) return 0;
+  const earned = results.reduce((sum, result) => sum + result.earned, 0);
+  return Math.round((earned / results.length) * 100);
+}
+
+export function hasPendingManualGrading(results: AttemptQuestionResult[]): boolean {
+  return results.some(result => result.needsManualGrading);
+}
+
+// Essays need a grade each; grades for auto-graded questions are rejected rather than silently overriding them
+export function applyManualGrades(
+  results: AttemptQuestionResult[],
+  grades: ManualGrade[],
+  gradedBy: string,
+  gradedAt: Date = new Date(),
+): AttemptQuestionResult[] {
+  const gradesByQuestion = new Map(grades.map(grade => [grade.questionId, grade]));
+  for (const questionId of Array.from(gradesByQuestion.keys())) {
+    const result = results.find(candidate => candidate.questionId === questionId);
+    if (!result || !result.needsManualGrading) {
+      throw new QuizGradingError(`Question ${questionId} is not awaiting manual grading on this attempt`);
+    }
+  }
+
+  return results.map(result => {
+    if (!result.needsManualGrading) return result;
+    const grade = gradesByQuestion.get(result.questionId);
+    if (!grade) {
+      throw new QuizGradingError("Every essay question on the attempt must be graded");
+    }
+    const score = Math.max(0, Math.min(100, grade.score));
+    return {
+      ...result,
+      earned: score / 100,
+      isCorrect: score >= 50,
+      needsManualGrading: false,
+      feedback: grade.feedback ?? null,
+      gradedBy,
+      gradedAt: gradedAt.toISOString(),
+    };
+  });
+}
+
+// Per-question outcome for reviewing a submitted attempt. Attempts from before stored results are re-graded.
+export function getAttemptQuestionResults(attempt: Pick<QuizAttempt, "questionSet" | "answers" | "questionResults">) {
+  const answers = (attempt.answers ?? {}) as Record<string, unknown>;
+  const questionSet = Array.isArray(attempt.questionSet) ? attempt.questionSet as AttemptQuestion[] : [];
+  const stored = Array.isArray(attempt.questionResults) ? attempt.questionResults as AttemptQuestionResult[] : null;
+  return questionSet.map(question => ({
+    ...(stored?.find(result => result.questionId === question.id) ?? gradeQuestion(question, answers[question.id])),
+    answer: answers[question.id] ?? null,
+  }));
+}
+
+function isStringArray(value: unknown, minLength: number): value is string[] {
+  return Array.isArray(value) && value.length >= minLength && value.every(item => typeof item === "string" && item.trim().length > 0);
+}
+
+// Checks an authored question's options and answer key fit its type; returns a message for the author or null
+export function validateAnswerKey(type: string, options: unknown, correctAnswers: unknown): string | null {
+  switch (type) {
+    case "multiple_choice":
+    case "true_false":
+    case "multi_select": {
+      const indices = toIndexArray(correctAnswers);
+      if (!Array.isArray(options) || !indices) return "Choice questions need options and correct option indices";
+      // True/false questions are saved without options; index 0 is True and 1 is False
+      const optionCount = type === "true_false" ? 2 : options.length;
+      if (indices.some(index => index < 0 || index >= optionCount)) return "Correct answers must refer to existing options";
+      return null;
+    }
+    case "short_answer": {
+      const key = correctAnswers as ShortAnswerKey | null;
+      if (!key || !isStringArray(key.acceptedAnswers, 1)) return "Short answer questions need at least one accepted answer";
+      for (const pattern of key.acceptedAnswers) {
+        try {
+          parsePattern(pattern, !!key.caseSensitive);
+        } catch {
+          return `Accepted answer ${pattern} is not a valid pattern`;
+        }
+      }
+      return null;
+    }
+    case "numeric": {
+      const key = correctAnswers as NumericAnswerKey | null;
+      if (!key || !Number.isFinite(key.value)) return "Numeric questions need a correct value";
+      if (!Number.isFinite(key.tolerance) || key.tolerance < 0) return "Tolerance must be zero or more";
+      return null;
+    }
+    case "ordering": {
+      const sequence = toIndexArray(correctAnswers);
+      if (!isStringArray(options, 2)) return "Ordering questions need at least two items";
+      const isPermutation = !!sequence && sequence.length === options.length &&
+        [...sequence].sort((a, b) => a - b).every((value, i) => value === i);
+      return isPermutation ? null : "The correct order must include every item exactly once";
+    }
+    case "matching": {
+      const matching = options as MatchingOptions | null;
+      const pairs = toIndexArray(correctAnswers);
+      if (!matching || !isStringArray(matching.left, 2) || !isStringArray(matching.right, 2)) {
+        return "Matching questions need at least two prompts and two matches";
+      }
+      if (!pairs || pairs.length !== matching.left.length || pairs.some(index => index < 0 || index >= matching.right.length)) {
+        return "Every prompt needs a correct match";
+      }
+      return null;
+    }
+    case "essay":
+      return null;
+    default:
+      return `Unsupported question type ${type}`;
+  }
+}
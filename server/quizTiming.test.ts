@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  getAttemptDeadline,
+  getAttemptTimeSpent,
+  getOverrunSeconds,
+  getSecondsRemaining,
+  isPastSubmissionDeadline,
+  QUIZ_SUBMISSION_GRACE_MS,
+} from "./quizTiming";
+
+const startedAt = new Date("2026-03-01T09:00:00Z");
+const deadlineAt = getAttemptDeadline(startedAt, 20)!;
+const attempt = { startedAt, deadlineAt, completedAt: null, voidedAt: null };
+const at = (msAfterDeadline: number) => new Date(deadlineAt.getTime() + msAfterDeadline);
+
+describe("quiz deadlines", () => {
+  it("only sets a deadline for a positive time limit", () => {
+    assert.equal(deadlineAt.toISOString(), "2026-03-01T09:20:00.000Z");
+    assert.equal(getAttemptDeadline(startedAt, null), null);
+    assert.equal(getAttemptDeadline(startedAt, 0), null);
+  });
+
+  it("still takes a submission within the grace period after the deadline", () => {
+    assert.equal(isPastSubmissionDeadline(attempt, at(QUIZ_SUBMISSION_GRACE_MS)), false);
+    assert.equal(isPastSubmissionDeadline(attempt, at(QUIZ_SUBMISSION_GRACE_MS + 1)), true);
+    assert.equal(isPastSubmissionDeadline({ ...attempt, deadlineAt: null }, at(24 * 60 * 60 * 1000)), false);
+  });
+
+  it("counts time spent up to the deadline and reports the overrun separately", () => {
+    assert.equal(getSecondsRemaining(attempt, at(-90_500)), 90);
+    assert.equal(getSecondsRemaining(attempt, at(5_000)), 0);
+    assert.equal(getAttemptTimeSpent(attempt, at(-60_000)), 19 * 60);
+    assert.equal(getAttemptTimeSpent(attempt, at(12_000)), 20 * 60);
+    assert.equal(getOverrunSeconds(attempt, at(12_000)), 12);
+  });
+});
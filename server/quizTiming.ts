@@ -0,0 +1,52 @@
+import type { QuizAttempt } from "@shared/schema";
+
+// Quiz time limits are enforced against the server clock.
+
+export const QUIZ_EXPIRY_ACTIONS = ["auto_submit", "void"] as const;
+
+// A submission sent as the countdown hits zero still has to cross the network
+export const QUIZ_SUBMISSION_GRACE_MS = (() => {
+  const seconds = parseInt(process.env.QUIZ_SUBMISSION_GRACE_SECONDS || "", 10);
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : 30) * 1000;
+})();
+
+type TimedAttempt = Pick<QuizAttempt, "startedAt" | "deadlineAt" | "completedAt" | "voidedAt">;
+
+export class QuizAttemptClosedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuizAttemptClosedError";
+    Object.setPrototypeOf(this, QuizAttemptClosedError.prototype);
+  }
+}
+
+export function getAttemptDeadline(startedAt: Date, timeLimitMinutes: number | null | undefined): Date | null {
+  return timeLimitMinutes && timeLimitMinutes > 0 ? new Date(startedAt.getTime() + timeLimitMinutes * 60 * 1000) : null;
+}
+
+export function isQuizAttemptOpen(attempt: TimedAttempt): boolean {
+  return !attempt.completedAt && !attempt.voidedAt;
+}
+
+// Past the deadline and the grace period; the attempt can no longer take answers from the learner
+export function isPastSubmissionDeadline(attempt: TimedAttempt, at: Date = new Date()): boolean {
+  return !!attempt.deadlineAt && at.getTime() > attempt.deadlineAt.getTime() + QUIZ_SUBMISSION_GRACE_MS;
+}
+
+export function getOverrunSeconds(attempt: TimedAttempt, at: Date): number {
+  if (!attempt.deadlineAt) return 0;
+  return Math.max(0, Math.round((at.getTime() - attempt.deadlineAt.getTime()) / 1000));
+}
+
+// Null for untimed attempts. The client counts down from this rather than comparing against its own clock.
+export function getSecondsRemaining(attempt: TimedAttempt, at: Date = new Date()): number | null {
+  if (!attempt.deadlineAt) return null;
+  return Math.max(0, Math.floor((attempt.deadlineAt.getTime() - at.getTime()) / 1000));
+}
+
+// Elapsed time by the server clock, capped at the deadline so late arrivals don't count as time spent answering
+export function getAttemptTimeSpent(attempt: TimedAttempt, at: Date): number | null {
+  if (!attempt.startedAt) return null;
+  const end = attempt.deadlineAt && at > attempt.deadlineAt ? attempt.deadlineAt : at;
+  return Math.max(0, Math.round((end.getTime() - attempt.startedAt.getTime()) / 1000));
+}
@@ -0,0 +1,34 @@
+import { EventEmitter } from "events";
+
+// In-process hub for messages pushed to signed-in browsers by realtimeServer.ts.
+
+export const REALTIME_TOPICS = ["dashboard"] as const;
+export type RealtimeTopic = typeof REALTIME_TOPICS[number];
+
+export type RealtimeMessageType = "notification.created" | "key_result.progress_updated" | "enrollment.completed";
+
+export interface RealtimeMessage {
+  type: RealtimeMessageType;
+  data: unknown;
+  userIds?: string[]; // Sent to every connection these users have open
+  topics?: RealtimeTopic[]; // And to every connection subscribed to one of these topics
+}
+
+const hub = new EventEmitter();
+hub.setMaxListeners(0);
+
+// Never throws or waits; with nobody connected the message is simply dropped
+export function publishRealtime(message: RealtimeMessage) {
+  try {
+    hub.emit("message", message);
+  } catch (error) {
+    console.error(`Failed to publish ${message.type} to realtime clients:`, error);
+  }
+}
+
+export function onRealtimeMessage(listener: (message: RealtimeMessage) => void): () => void {
+  hub.on("message", listener);
+  return () => {
+    hub.off("message", listener);
+  };
+}
@@ -0,0 +1,247 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { getSession } from "./auth";
+import type { SessionUser } from "./authProvider";
+import type { DomainEvent, Notification } from "@shared/schema";
+import { storage, type RealtimeRelayCursor } from "./storage";
+import { getPermissionGrants, hasPermission, type Permission } from "./permissions";
+import { onRealtimeMessage, publishRealtime, REALTIME_TOPICS, type RealtimeMessage, type RealtimeTopic } from "./realtime";
+
+// WebSocket endpoint that pushes realtime.ts messages to signed-in browsers.
+
+export const REALTIME_PATH = "/ws";
+
+const HEARTBEAT_MS = 30 * 1000;
+const MAX_MESSAGE_BYTES = 4096;
+const RELAY_INTERVAL_MS = 2 * 1000;
+const RELAY_BATCH = 1000;
+
+type RelayedEventType = "key_result.progress_updated" | "enrollment.completed";
+const RELAYED_EVENT_TYPES: RelayedEventType[] = ["key_result.progress_updated", "enrollment.completed"];
+
+const TOPIC_PERMISSIONS: Record<RealtimeTopic, Permission> = {
+  dashboard: "report.view",
+};
+
+interface Connection {
+  userId: string;
+  topics: Set<RealtimeTopic>;
+  alive: boolean;
+}
+
+const connections = new Map<WebSocket, Connection>();
+
+function reject(socket: Duplex, status: number, reason: string) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+  socket.destroy();
+}
+
+// Browsers always send Origin on WebSocket requests; refusing other sites stops them riding on the session cookie
+function isAllowedOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  const allowed = (process.env.REALTIME_ALLOWED_ORIGINS || "").split(",").map(value => value.trim()).filter(Boolean);
+  if (allowed.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+// Same session cookie and store as HTTP requests; API tokens aren't accepted here
+async function authenticateUpgrade(req: IncomingMessage): Promise<string | null> {
+  const sessionMiddleware = getSession();
+  await new Promise<void>((resolve, reject) => {
+    sessionMiddleware(req as any, {} as any, (error?: unknown) => (error ? reject(error) : resolve()));
+  });
+  const user = (req as any).session?.passport?.user as SessionUser | undefined;
+  const now = Math.floor(Date.now() / 1000);
+  let userId: string | null = user?.claims?.sub && user.expires_at >= now ? user.claims.sub : null;
+  // Same development bypass as isAuthenticated
+  if (!userId && process.env.NODE_ENV === "development") {
+    userId = user?.claims?.sub ?? "dev-test-user";
+  }
+  if (!userId) return null;
+  const account = await storage.getUser(userId);
+  return account && account.isActive === false ? null : userId;
+}
+
+function send(socket: WebSocket, message: Record<string, unknown>) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+// Every connection gets its own user's messages; topics subscribed here add organization-wide ones and need a permission
+async function handleClientMessage(socket: WebSocket, connection: Connection, raw: RawData) {
+  let message: any;
+  try {
+    message = JSON.parse(raw.toString());
+  } catch {
+    return send(socket, { type: "error", message: "Messages must be JSON" });
+  }
+
+  if (message?.type === "ping") {
+    return send(socket, { type: "pong" });
+  }
+  if (message?.type !== "subscribe" && message?.type !== "unsubscribe") {
+    return send(socket, { type: "error", message: `Unknown message type: ${message?.type}` });
+  }
+
+  const requested: unknown[] = Array.isArray(message.topics) ? message.topics : [];
+  const topics = requested.filter((topic): topic is RealtimeTopic => (REALTIME_TOPICS as readonly unknown[]).includes(topic));
+  if (message.type === "unsubscribe") {
+    topics.forEach(topic => connection.topics.delete(topic));
+    return send(socket, { type: "subscribed", topics: Array.from(connection.topics) });
+  }
+
+  const user = await storage.getUser(connection.userId);
+  const grants = user ? await getPermissionGrants(user) : [];
+  const denied: string[] = [];
+  for (const topic of topics) {
+    if (await hasPermission(grants, TOPIC_PERMISSIONS[topic])) {
+      connection.topics.add(topic);
+    } else {
+      denied.push(topic);
+    }
+  }
+  if (denied.length > 0) {
+    send(socket, { type: "error", message: `Not allowed to subscribe to: ${denied.join(", ")}` });
+  }
+  send(socket, { type: "subscribed", topics: Array.from(connection.topics) });
+}
+
+function dispatch(message: RealtimeMessage) {
+  const payload = JSON.stringify({ type: message.type, data: message.data });
+  connections.forEach((connection, socket) => {
+    const forUser = message.userIds?.includes(connection.userId);
+    const forTopic = message.topics?.some(topic => connection.topics.has(topic));
+    if ((forUser || forTopic) && socket.readyState === WebSocket.OPEN) {
+      socket.send(payload);
+    }
+  });
+}
+
+// Every instance reads new notifications and events from the database and publishes them to its own connections,
+// so pushes don't depend on which process wrote the row or holds the domain_events job lease. Each kind of row is
+// read oldest first from a cursor on (transaction id, sequence) that only covers finished transactions, so a row is
+// relayed once it commits whatever the clocks say; a long-running write transaction holds pushes back until it ends.
+function createRelay() {
+  let eventCursor: RealtimeRelayCursor | null = null;
+  let notificationCursor: RealtimeRelayCursor | null = null;
+  let running = false;
+
+  async function relayEvents(cursor: RealtimeRelayCursor): Promise<RealtimeRelayCursor> {
+    let events: DomainEvent[];
+    do {
+      events = await storage.getDomainEventsAfter(RELAYED_EVENT_TYPES, cursor, RELAY_BATCH);
+      for (const event of events) {
+        publishRealtime({
+          type: event.eventType as RelayedEventType,
+          data: { ...(event.payload as Record<string, unknown>), eventId: event.id, occurredAt: event.occurredAt },
+          userIds: event.userId ? [event.userId] : [],
+          topics: ["dashboard"],
+        });
+        cursor = { txId: event.txId, seq: event.seq };
+      }
+    } while (events.length === RELAY_BATCH);
+    return cursor;
+  }
+
+  async function relayNotifications(cursor: RealtimeRelayCursor): Promise<RealtimeRelayCursor> {
+    let notifications: Notification[];
+    do {
+      notifications = await storage.getNotificationsAfter(cursor, RELAY_BATCH);
+      for (const notification of notifications) {
+        const { txId, seq, ...data } = notification;
+        publishRealtime({ type: "notification.created", data, userIds: [notification.userId] });
+        cursor = { txId, seq };
+      }
+    } while (notifications.length === RELAY_BATCH);
+    return cursor;
+  }
+
+  return async () => {
+    if (running) return;
+    running = true;
+    try {
+      // Rows committed before this instance started were pushed, if at all, by whichever instance was up then
+      if (!eventCursor || !notificationCursor) {
+        const start = await storage.getRealtimeRelayStart();
+        eventCursor = start;
+        notificationCursor = start;
+      }
+      eventCursor = await relayEvents(eventCursor);
+      notificationCursor = await relayNotifications(notificationCursor);
+    } catch (error) {
+      console.error("Error relaying realtime messages:", error);
+    } finally {
+      running = false;
+    }
+  };
+}
+
+export function setupRealtime(server: Server) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  // Other upgrade requests (Vite's HMR socket in development) are left to their own handlers
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== REALTIME_PATH) return;
+
+    if (!isAllowedOrigin(req)) {
+      return reject(socket, 403, "Forbidden");
+    }
+    authenticateUpgrade(req)
+      .then(userId => {
+        if (!userId) return reject(socket, 401, "Unauthorized");
+        wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, userId));
+      })
+      .catch(error => {
+        console.error("Error authenticating realtime connection:", error);
+        reject(socket, 500, "Internal Server Error");
+      });
+  });
+
+  wss.on("connection", (socket: WebSocket, userId: string) => {
+    const connection: Connection = { userId, topics: new Set(), alive: true };
+    connections.set(socket, connection);
+    socket.on("pong", () => { connection.alive = true; });
+    socket.on("message", (raw) => {
+      handleClientMessage(socket, connection, raw).catch(error => {
+        console.error("Error handling realtime message:", error);
+        send(socket, { type: "error", message: "Failed to handle message" });
+      });
+    });
+    socket.on("close", () => connections.delete(socket));
+    socket.on("error", () => connections.delete(socket));
+    send(socket, { type: "ready", userId });
+  });
+
+  // Drops connections that stopped answering pings (sleeping laptops, dropped mobile networks)
+  const heartbeat = setInterval(() => {
+    connections.forEach((connection, socket) => {
+      if (!connection.alive) {
+        connections.delete(socket);
+        socket.terminate();
+        return;
+      }
+      connection.alive = false;
+      socket.ping();
+    });
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  const relay = setInterval(createRelay(), RELAY_INTERVAL_MS);
+  relay.unref();
+
+  const unsubscribe = onRealtimeMessage(dispatch);
+  server.on("close", () => {
+    clearInterval(heartbeat);
+    clearInterval(relay);
+    unsubscribe();
+    wss.close();
+  });
+}
@@ -0,0 +1,196 @@
+import JSZip from "jszip";
+import PDFDocument from "pdfkit";
+import type { ReportFormat } from "@shared/schema";
+
+// Writes a report table as a CSV, XLSX or PDF file.
+
+export type ReportCell = string | number | null;
+
+export interface ReportTable {
+  title: string;
+  subtitle?: string; // Filters and generation time, printed under the title in PDFs
+  columns: Array<{ key: string; label: string }>;
+  rows: Array<Record<string, ReportCell>>;
+}
+
+export interface ReportFile {
+  data: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+};
+
+export async function renderReportFile(table: ReportTable, format: ReportFormat): Promise<ReportFile> {
+  const data = format === "csv" ? renderCsv(table) : format === "xlsx" ? await renderXlsx(table) : await renderPdf(table);
+  return { data, contentType: CONTENT_TYPES[format], extension: format };
+}
+
+function cellText(value: ReportCell): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+// Text starting with = + - @ is prefixed with ' so spreadsheets don't run it as a formula
+function escapeCsv(value: ReportCell): string {
+  let text = cellText(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(table: ReportTable): Buffer {
+  const lines = [
+    table.columns.map(column => escapeCsv(column.label)).join(","),
+    ...table.rows.map(row => table.columns.map(column => escapeCsv(row[column.key] ?? null)).join(",")),
+  ];
+  // The byte order mark makes Excel read the file as UTF-8
+  return Buffer.from(`\uFEFF${lines.join("\r\n")}\r\n`, "utf8");
+}
+
+// ---------------------------------------------------------------------------
+// XLSX
+// ---------------------------------------------------------------------------
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function xlsxCell(value: ReportCell, reference: string): string {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${reference}"><v>${value}</v></c>`;
+  }
+  const text = cellText(value);
+  if (!text) return "";
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+function sheetName(title: string): string {
+  return title.replace(/[\[\]:*?\/\\]/g, " ").trim().slice(0, 31) || "Report";
+}
+
+// A single sheet of inline strings and numbers, which every spreadsheet reads without a shared-strings table or styles
+async function renderXlsx(table: ReportTable): Promise<Buffer> {
+  const header = table.columns.map(column => column.label);
+  const grid: ReportCell[][] = [header, ...table.rows.map(row => table.columns.map(column => row[column.key] ?? null))];
+  const rows = grid.map((cells, rowIndex) => {
+    const content = cells.map((value, columnIndex) => xlsxCell(value, `${columnName(columnIndex)}${rowIndex + 1}`)).join("");
+    return `<row r="${rowIndex + 1}">${content}</row>`;
+  });
+
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+</Types>`);
+  zip.file("_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`);
+  zip.file("xl/workbook.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName(table.title))}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`);
+  zip.file("xl/_rels/workbook.xml.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+</Relationships>`);
+  zip.file("xl/worksheets/sheet1.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetData>${rows.join("")}</sheetData>
+</worksheet>`);
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+const PDF_MARGIN = 40;
+const PDF_ROW_HEIGHT = 18;
+const PDF_FONT_SIZE = 8;
+
+async function renderPdf(table: ReportTable): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", layout: "landscape", margin: PDF_MARGIN, info: { Title: table.title } });
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const { width, height } = doc.page;
+  const contentWidth = width - PDF_MARGIN * 2;
+  const columnWidth = contentWidth / Math.max(table.columns.length, 1);
+  const bottom = height - PDF_MARGIN - PDF_ROW_HEIGHT;
+
+  const drawRow = (cells: string[], y: number, bold: boolean) => {
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(PDF_FONT_SIZE).fillColor("#111827");
+    cells.forEach((text, index) => {
+      doc.text(text, PDF_MARGIN + index * columnWidth + 2, y + 5, {
+        width: columnWidth - 4,
+        height: PDF_ROW_HEIGHT - 4,
+        lineBreak: false,
+        ellipsis: true,
+      });
+    });
+    doc.lineWidth(0.5).strokeColor("#d1d5db")
+      .moveTo(PDF_MARGIN, y + PDF_ROW_HEIGHT).lineTo(width - PDF_MARGIN, y + PDF_ROW_HEIGHT).stroke();
+  };
+
+  doc.font("Helvetica-Bold").fontSize(16).fillColor("#111827").text(table.title, PDF_MARGIN, PDF_MARGIN, { width: contentWidth });
+  if (table.subtitle) {
+    doc.font("Helvetica").fontSize(9).fillColor("#6b7280").text(table.subtitle, { width: contentWidth });
+  }
+
+  const header = table.columns.map(column => column.label);
+  let y = doc.y + 12;
+  drawRow(header, y, true);
+  y += PDF_ROW_HEIGHT;
+
+  if (table.rows.length === 0) {
+    doc.font("Helvetica").fontSize(PDF_FONT_SIZE).fillColor("#6b7280").text("No rows matched this report's filters.", PDF_MARGIN, y + 5);
+  }
+  for (const row of table.rows) {
+    if (y > bottom) {
+      doc.addPage();
+      y = PDF_MARGIN;
+      drawRow(header, y, true);
+      y += PDF_ROW_HEIGHT;
+    }
+    drawRow(table.columns.map(column => cellText(row[column.key] ?? null)), y, false);
+    y += PDF_ROW_HEIGHT;
+  }
+
+  doc.end();
+  return finished;
+}
@@ -1,8 +1,61 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { setupAuth, isAuthenticated } from "./auth";
+import { authenticateLocalUser, setLocalPassword, LocalAuthError } from "./localAuth";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { jobScheduler, SchedulerJobNotFoundError } from "./scheduler";
+import { replayWebhookDelivery, replayDeadLetteredDeliveries, WebhookDeliveryNotFoundError } from "./webhookDelivery";
+import { getDomainEventSubscribers, retryDomainEvent, DomainEventError } from "./domainEvents";
+import {
+  getNotificationTemplateVariables,
+  validateNotificationTemplate,
+  renderNotificationTemplate,
+  fillSampleVariables,
+  NotificationTemplateError,
+} from "./notificationTemplates";
+import { setupRealtime } from "./realtimeServer";
+import { getChannelAvailability, isValidTimezone, queueTestDelivery, NotificationChannelError } from "./notificationChannels";
+import { getCertificateVerification, getCertificateSigningPublicKey, loadCertificateSigningKeys } from "./certificateVerification";
+import { renderCertificatePdf } from "./certificatePdf";
+import { getStandardCertificateLayout, parseCertificateLayout, validateCertificateTemplate, getSampleCertificateDetails, CertificateTemplateError } from "./certificateTemplates";
+import { OkrCycleError, scoreKeyResult } from "./okrScoring";
+import { OkrDependencyError } from "./okrDependencies";
+import { getReportDatasets, validateReportSchedule, getNextReportRun, runScheduledReport, deleteScheduledReport, ScheduledReportError } from "./scheduledReports";
+import { importScormPackage, getScormPackageIdFromUrl, getScormRuntimeState, commitScormRuntimeData, getScormContentSecurityPolicy, ScormPackageError } from "./scorm";
+import { requireXapiClient, storeClientStatements, queryStatements, XapiRequestError } from "./xapi";
+import { XAPI_VERSION } from "./xapiStatements";
+import { validateImport, commitImport, getImportTemplateCsv } from "./bulkImport";
+import { IMPORT_TYPES, ImportBatchError } from "./importPlan";
+import { SpreadsheetError } from "./spreadsheet";
+import { API_TOKEN_SCOPES, API_TOKEN_SCOPE_NAMES, MAX_API_TOKEN_LIFETIME_DAYS, MAX_API_TOKEN_RATE_LIMIT, issueApiToken, redactApiToken, requireInteractiveSession, ApiTokenError } from "./apiTokens";
+import { PERMISSIONS, PERMISSION_NAMES, BASE_ROLE_PERMISSIONS, getPermissionGrants, hasPermission, summarizePermissions, type Permission, type PermissionTarget } from "./permissions";
+import {
+  parseScimJson,
+  requireScimToken,
+  getScimBaseUrl,
+  sendScim,
+  handleScimError,
+  getServiceProviderConfig,
+  getResourceTypes,
+  listScimUsers,
+  getScimUser,
+  createScimUser,
+  replaceScimUser,
+  patchScimUser,
+  deactivateScimUser,
+  listScimGroups,
+  getScimGroup,
+  createScimGroup,
+  replaceScimGroup,
+  patchScimGroup,
+  deleteScimGroup,
+} from "./scim";
+import { toLearnerQuizAttempt, QuizDrawError, QUESTION_DIFFICULTIES, DRAW_STRATIFICATIONS } from "./questionDraw";
+import { getAttemptQuestionResults, validateAnswerKey, QuizGradingError } from "./quizGrading";
+import { getAttemptTimeSpent, getOverrunSeconds, getSecondsRemaining, isPastSubmissionDeadline, isQuizAttemptOpen, QUIZ_EXPIRY_ACTIONS, QuizAttemptClosedError } from "./quizTiming";
+import { applyQuizAttemptOutcome, closeExpiredQuizAttempt } from "./quizAttempts";
+import { redactWebhookConfig, getActiveSigningSecrets, verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from "./webhookClient";
 import {
   insertGoalSchema,
   insertCompanyObjectiveSchema,
@@ -46,6 +99,8 @@ import {
   analyticsEngagementQuerySchema,
   analyticsPerformanceMetricsQuerySchema,
   insertQuizQuestionSchema,
+  insertQuestionBankSchema,
+  insertQuestionBankQuestionSchema,
   insertEnrollmentSchema,
   insertLessonProgressSchema,
   insertQuizAttemptSchema,
@@ -80,9 +135,26 @@ import {
   // Notification System schemas
   insertNotificationSchema,
   insertN8nWebhookConfigSchema,
+  webhookDomainEventTypesSchema,
+  DOMAIN_EVENT_TYPES,
   insertWebhookExecutionLogSchema,
   insertNotificationPreferenceSchema,
+  notificationChannelSettingsSchema,
+  notificationTemplateLocaleSchema,
   insertNotificationTemplateSchema,
+  scheduledReportSchema,
+  type ReportSchedule,
+  certificateTemplateSchema,
+  certificateTemplateAssignmentsSchema,
+  CERTIFICATE_LAYOUT_VARIABLES,
+  okrCycleSchema,
+  okrCycleUpdateSchema,
+  okrCycleCloseSchema,
+  okrRollupRuleSchema,
+  KR_FORECAST_METHODS,
+  quizAnswerSchema,
+  type QuizAttempt,
+  type InsertQuestionBankQuestion,
 } from "@shared/schema";
 import { z } from "zod";
 
@@ -96,6 +168,152 @@ const assignExternalCourseCompletionSchema = z.object({
   proofOfCompletionUrl: z.string().url().optional(), // For future file upload support
 });
 
+// Certificate revocation and reissue schemas
+const certificateRevocationSchema = z.object({
+  reason: z.string().trim().min(3, "A revocation reason is required").max(1000),
+});
+
+const certificateReissueSchema = certificateRevocationSchema.extend({
+  expiresAt: z.string().refine((dateStr) => !isNaN(new Date(dateStr).getTime()), "Invalid date format").nullable().optional(),
+});
+
+const issuedCertificatesQuerySchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  status: z.enum(["active", "expired", "revoked"]).optional(),
+  type: z.string().max(50).optional(),
+  templateId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(200),
+});
+
+function sendCertificateTemplateError(error: CertificateTemplateError, res: any) {
+  return res.status(error.statusCode).json({ message: error.message, issues: error.issues });
+}
+
+// Objectives and goals can only be planned into a cycle that hasn't been closed. Returns the problem, if any.
+async function checkOkrCycleForPlanning(cycleId: string | null | undefined): Promise<string | null> {
+  if (!cycleId) return null;
+  const cycle = await storage.getOkrCycle(cycleId);
+  if (!cycle) return "OKR cycle not found";
+  if (cycle.status === "closed") return `${cycle.name} is closed; plan new work into an open cycle`;
+  return null;
+}
+
+const scormPackageImportSchema = z.object({
+  uploadURL: z.string().min(1, "Upload URL is required"),
+});
+
+const importUploadSchema = z.object({
+  uploadURL: z.string().min(1, "Upload URL is required"),
+  importType: z.enum(IMPORT_TYPES),
+  fileName: z.string().trim().min(1, "File name is required").max(255),
+});
+
+const permissionRoleSchema = z.object({
+  name: z.string().trim().min(2, "Role name is required").max(100),
+  description: z.string().trim().max(1000).nullable().optional(),
+  permissions: z.array(z.enum(PERMISSION_NAMES)).min(1, "Select at least one permission"),
+});
+
+const permissionRoleAssignmentSchema = z.object({
+  userId: z.string().min(1),
+  roleId: z.string().min(1),
+  scopeType: z.enum(["organization", "department", "team"]).default("organization"),
+  scopeId: z.string().min(1).nullable().optional(),
+}).refine(
+  (assignment) => (assignment.scopeType === "organization") === !assignment.scopeId,
+  { message: "Department and team grants need a scopeId; organization grants must not have one", path: ["scopeId"] }
+);
+
+const apiTokenSchema = z.object({
+  name: z.string().trim().min(2, "Token name is required").max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPE_NAMES)).min(1, "Select at least one scope"),
+  expiresInDays: z.number().int().min(1).max(MAX_API_TOKEN_LIFETIME_DAYS, `Tokens can last at most ${MAX_API_TOKEN_LIFETIME_DAYS} days`),
+  rateLimitPerMinute: z.number().int().min(1).max(MAX_API_TOKEN_RATE_LIMIT).optional(),
+});
+
+const serviceAccountSchema = z.object({
+  name: z.string().trim().min(2, "Service account name is required").max(100),
+  description: z.string().trim().max(255).nullable().optional(),
+  role: z.enum(["operative", "supervisor", "leadership"]).default("operative"),
+});
+
+const serviceAccountUpdateSchema = serviceAccountSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+const notificationTemplateUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  titleTemplate: z.string().min(1).max(255),
+  messageTemplate: z.string().min(1).max(5000),
+  actionLabel: z.string().max(100).nullable(),
+  priority: z.enum(["low", "medium", "high", "urgent"]),
+  isActive: z.boolean(),
+}).partial();
+
+const notificationTemplatePreviewSchema = z.object({
+  templateId: z.string().min(1).optional(),
+  type: z.string().min(1).optional(), // Without templateId: the type's active template
+  userId: z.string().min(1).optional(),
+  entityId: z.string().min(1).optional(),
+  locale: z.string().max(16).optional(),
+  draft: notificationTemplateLocaleSchema.optional(), // Unsaved text to render instead of the stored template
+  variables: z.record(z.unknown()).optional(),
+}).refine((preview) => !!preview.templateId || !!preview.type, { message: "templateId or type is required", path: ["type"] });
+
+function sendTemplateError(error: NotificationTemplateError, res: any) {
+  return res.status(error.statusCode).json({ message: error.message, issues: error.issues });
+}
+
+const importRollbackSchema = z.object({
+  reason: z.string().trim().min(3, "A rollback reason is required").max(1000),
+});
+
+const scormCommitSchema = z.object({
+  scoId: z.string().min(1),
+  values: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]).transform(String)),
+  finish: z.boolean().default(false),
+});
+
+// Question bank and draw rule schemas
+const questionBankBodySchema = insertQuestionBankSchema.omit({ createdBy: true });
+
+const questionBankQuestionBodySchema = insertQuestionBankQuestionSchema.omit({ bankId: true }).extend({
+  questionText: z.string().trim().min(1, "Question text is required"),
+  difficulty: z.enum(QUESTION_DIFFICULTIES).default("medium"),
+});
+
+const quizDrawRulesSchema = z.object({
+  rules: z.array(z.object({
+    bankId: z.string().min(1, "Question bank is required"),
+    questionCount: z.number().int().min(1).max(200),
+    skillId: z.string().min(1).nullable().optional(),
+    difficulty: z.enum(QUESTION_DIFFICULTIES).nullable().optional(),
+    stratifyBy: z.enum(DRAW_STRATIFICATIONS).default("none"),
+  })).max(50),
+});
+
+const quizGradeSchema = z.object({
+  grades: z.array(z.object({
+    questionId: z.string().min(1),
+    score: z.number().min(0).max(100),
+    feedback: z.string().max(5000).nullable().optional(),
+  })).min(1, "At least one grade is required"),
+});
+
+const quizAttemptAnswersSchema = z.object({
+  answers: quizAnswerSchema,
+});
+
+const localCredentialSchema = z.object({
+  username: z.string().trim().min(3).max(64).regex(/^[A-Za-z0-9._@-]+$/, "Usernames may only contain letters, numbers and . _ @ -"),
+  password: z.string().max(256),
+});
+
+const localPasswordChangeSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().max(256),
+});
+
 // Enhanced lesson content schemas - extending shared schema as per project guidelines
 // Include necessary fields for validation
 const createLessonSchema = insertLessonSchema.omit({
@@ -176,6 +394,46 @@ function requireSupervisorOrLeadership() {
   return requireRole(['supervisor', 'leadership']);
 }
 
+// Passes when the user's base role or one of their permission roles grants the permission. With resolveTarget a team or
+// department grant passes when it covers the resource's team or department; without it, or resolving to null, only an
+// organization-wide grant does.
+function requirePermission(permission: Permission, resolveTarget?: (req: any) => Promise<PermissionTarget | null>) {
+  return async (req: any, res: any, next: any) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(403).json({ message: `Access denied. Required permission: ${permission}` });
+      }
+      const grants = await getPermissionGrants(user);
+      const target = resolveTarget ? await resolveTarget(req) : undefined;
+      if (!(await hasPermission(grants, permission, target))) {
+        return res.status(403).json({ message: `Access denied. Required permission: ${permission}` });
+      }
+      req.currentUser = user;
+      next();
+    } catch (error) {
+      console.error("Error checking user permission:", error);
+      return res.status(500).json({ message: "Authorization check failed" });
+    }
+  };
+}
+
+const organizationWide = async (): Promise<PermissionTarget | null> => null;
+
+const BASE_ROLE_ORDER = ["operative", "supervisor", "leadership"];
+
+// Nobody can act on, or hand out, a base role above their own
+function outranks(role: string, than: string): boolean {
+  return BASE_ROLE_ORDER.indexOf(role) > BASE_ROLE_ORDER.indexOf(than);
+}
+
+// Owners manage their own tokens; api.manage covers everyone's
+async function canManageApiToken(userId: string, tokenOwnerId: string): Promise<boolean> {
+  if (userId === tokenOwnerId) return true;
+  const user = await storage.getUser(userId);
+  return !!user && await hasPermission(await getPermissionGrants(user), 'api.manage', null);
+}
+
 async function verifyEnrollmentOwnership(enrollmentId: string, userId: string): Promise<boolean> {
   try {
     const enrollment = await storage.getEnrollment(enrollmentId);
@@ -186,14 +444,15 @@ async function verifyEnrollmentOwnership(enrollmentId: string, userId: string):
   }
 }
 
-async function verifyQuizAttemptOwnership(attemptId: string, userId: string): Promise<boolean> {
-  try {
-    const attempt = await storage.getQuizAttempt(attemptId);
-    return attempt?.userId === userId;
-  } catch (error) {
-    console.error("Error verifying quiz attempt ownership:", error);
-    return false;
-  }
+// Learner view of an in-progress attempt plus the time left by the server clock
+function toTimedLearnerAttempt(attempt: QuizAttempt) {
+  return { ...toLearnerQuizAttempt(attempt), secondsRemaining: getSecondsRemaining(attempt) };
+}
+
+function describeExpiredAttempt(attempt: QuizAttempt): string {
+  return attempt.closeReason === "voided"
+    ? "Time ran out on this attempt, so it was voided."
+    : "Time ran out on this attempt, so your last saved answers were submitted.";
 }
 
 function handleValidationError(error: any, res: any, action: string) {
@@ -208,6 +467,8 @@ function handleValidationError(error: any, res: any, action: string) {
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  loadCertificateSigningKeys();
+
   // Auth middleware
   await setupAuth(app);
 
@@ -251,6 +512,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // What the signed-in user may do, used to build the navigation
+  app.get('/api/auth/permissions', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(summarizePermissions(await getPermissionGrants(user)));
+    } catch (error: any) {
+      return handleValidationError(error, res, "get permissions");
+    }
+  });
+
   // Users
   app.get('/api/users', isAuthenticated, async (req, res) => {
     try {
@@ -288,7 +562,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Company objectives
   app.get('/api/objectives', isAuthenticated, async (req, res) => {
     try {
-      const objectives = await storage.getActiveCompanyObjectives();
+      const cycleId = typeof req.query.cycleId === 'string' ? req.query.cycleId : undefined;
+      const objectives = await storage.getActiveCompanyObjectives(cycleId);
       res.json(objectives);
     } catch (error) {
       console.error("Error fetching objectives:", error);
@@ -296,18 +571,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/objectives', isAuthenticated, async (req: any, res) => {
+  app.post('/api/objectives', isAuthenticated, requirePermission('okr.admin', organizationWide), async (req: any, res) => {
     try {
-      // Check if user is leadership
-      const user = await storage.getUser(req.user.claims.sub);
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
-      }
-
       const objectiveData = insertCompanyObjectiveSchema.parse({ 
         ...req.body, 
         createdBy: req.user.claims.sub 
       });
+      const cycleProblem = await checkOkrCycleForPlanning(objectiveData.cycleId);
+      if (cycleProblem) {
+        return res.status(400).json({ message: cycleProblem });
+      }
       const objective = await storage.createCompanyObjective(objectiveData);
       
       // Phase 4: Create audit log entry for creation
@@ -322,27 +595,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(objective);
     } catch (error) {
+      if (error instanceof OkrDependencyError) {
+        return res.status(error.statusCode).json({ message: error.message, cycle: error.cycle });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
       console.error("Error creating company objective:", error);
       res.status(500).json({ message: "Failed to create company objective" });
     }
   });
 
-  app.put('/api/objectives/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/objectives/:id', isAuthenticated, requirePermission('okr.admin', organizationWide), async (req: any, res) => {
     try {
-      // Check if user is leadership
-      const user = await storage.getUser(req.user.claims.sub);
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
-      }
-
       const { id } = req.params;
       
       // Phase 4: Get current state for audit log
       const currentObjectives = await storage.getActiveCompanyObjectives();
       const oldObjective = currentObjectives.find(obj => obj.id === id);
       
+      // Close-out fields are set by closing the cycle, roll-up fields through the roll-up rule and risk flags by
+      // dependency risk propagation
+      const {
+        finalScore, retrospective, rolledForwardFromId,
+        rollupMethod, rollupOverride, rollupOverrideReason, rollupOverriddenBy, rollupOverriddenAt,
+        rollupProgress, rollupBreakdown, rollupCalculatedAt, blockedBy, atRiskSince,
+        ...changes
+      } = req.body;
+      if (changes.dependencies !== undefined) {
+        changes.dependencies = insertCompanyObjectiveSchema.shape.dependencies.parse(changes.dependencies);
+      }
+      const cycleProblem = changes.cycleId !== undefined && changes.cycleId !== oldObjective?.cycleId
+        ? await checkOkrCycleForPlanning(changes.cycleId)
+        : null;
+      if (cycleProblem) {
+        return res.status(400).json({ message: cycleProblem });
+      }
+
       const updateData = {
-        ...req.body,
+        ...changes,
         // Convert ISO string dates to Date objects for Drizzle
         startDate: req.body.startDate ? new Date(req.body.startDate) : undefined,
         endDate: req.body.endDate ? new Date(req.body.endDate) : undefined,
@@ -363,19 +654,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(objective);
     } catch (error) {
+      if (error instanceof OkrDependencyError) {
+        return res.status(error.statusCode).json({ message: error.message, cycle: error.cycle });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
       console.error("Error updating company objective:", error);
       res.status(500).json({ message: "Failed to update company objective" });
     }
   });
 
-  app.delete('/api/objectives/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/objectives/:id', isAuthenticated, requirePermission('okr.admin', organizationWide), async (req: any, res) => {
     try {
-      // Check if user is leadership
-      const user = await storage.getUser(req.user.claims.sub);
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
-      }
-
       const { id } = req.params;
       
       // Phase 4: Get current state for audit log before deletion
@@ -403,24 +694,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Dependencies between company objectives, with the red ones, what they put at risk and the critical path
+  app.get('/api/okr-dependencies', isAuthenticated, async (req: any, res) => {
+    try {
+      const cycleId = typeof req.query.cycleId === 'string' ? req.query.cycleId : undefined;
+      const graph = await storage.getObjectiveDependencyGraph(cycleId);
+      res.json(graph);
+    } catch (error) {
+      console.error("Error fetching objective dependencies:", error);
+      res.status(500).json({ message: "Failed to fetch objective dependencies" });
+    }
+  });
+
   // Team objectives
   app.get('/api/team-objectives', isAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.claims.sub);
       
+      const cycleId = typeof req.query.cycleId === 'string' ? req.query.cycleId : undefined;
+      
       // Different access patterns based on role
       let teamObjectives;
       if (user?.role === 'leadership') {
         // Leadership can see all team objectives
-        teamObjectives = await storage.getTeamObjectives();
+        teamObjectives = await storage.getTeamObjectives(undefined, undefined, cycleId);
       } else if (user?.role === 'supervisor') {
         // Supervisors can see objectives for their teams
-        teamObjectives = await storage.getTeamObjectives(undefined, req.user.claims.sub);
+        teamObjectives = await storage.getTeamObjectives(undefined, req.user.claims.sub, cycleId);
       } else {
         // Operatives can see objectives for their primary team
         const userTeams = await storage.getUserTeamMemberships(user!.id);
         const primaryTeam = userTeams.find(t => t.isPrimary);
-        teamObjectives = await storage.getTeamObjectives(primaryTeam?.teamId || undefined);
+        teamObjectives = await storage.getTeamObjectives(primaryTeam?.teamId || undefined, undefined, cycleId);
       }
       
       res.json(teamObjectives);
@@ -442,6 +747,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body, 
         supervisorId: req.user.claims.sub 
       });
+      const cycleProblem = await checkOkrCycleForPlanning(objectiveData.cycleId);
+      if (cycleProblem) {
+        return res.status(400).json({ message: cycleProblem });
+      }
       const objective = await storage.createTeamObjective(objectiveData);
       
       // Phase 4: Create audit log entry for creation
@@ -485,6 +794,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate the update data
       const updateSchema = insertTeamObjectiveSchema.partial().omit({ supervisorId: true });
       const validatedData = updateSchema.parse(req.body);
+      const cycleProblem = validatedData.cycleId !== undefined && validatedData.cycleId !== existingObjective.cycleId
+        ? await checkOkrCycleForPlanning(validatedData.cycleId)
+        : null;
+      if (cycleProblem) {
+        return res.status(400).json({ message: cycleProblem });
+      }
       
       // Convert ISO string dates to Date objects for Drizzle
       const updateData = {
@@ -554,7 +869,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { objectiveId } = req.params;
       const keyResults = await storage.getKeyResults(objectiveId);
-      res.json(keyResults);
+      res.json(keyResults.map(kr => ({ ...kr, score: scoreKeyResult(kr) })));
     } catch (error) {
       console.error("Error fetching company key results:", error);
       res.status(500).json({ message: "Failed to fetch company key results" });
@@ -633,6 +948,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(updated);
     } catch (error) {
+      if (error instanceof OkrCycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
@@ -663,7 +981,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { teamObjectiveId } = req.params;
       const keyResults = await storage.getTeamKeyResults(teamObjectiveId);
-      res.json(keyResults);
+      res.json(keyResults.map(kr => ({ ...kr, score: scoreKeyResult(kr) })));
     } catch (error) {
       console.error("Error fetching team key results:", error);
       res.status(500).json({ message: "Failed to fetch team key results" });
@@ -739,6 +1057,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(updated);
     } catch (error) {
+      if (error instanceof OkrCycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
@@ -797,14 +1118,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       const progress = await storage.createKrProgressUpdate(progressData);
       
-      // Update the key result's current value and confidence
+      // The progress update moved the key result to its new value; record the confidence that came with it
       await storage.updateKeyResult(id, {
-        currentValue: newValue,
         confidenceScore: parsedConfidence,
       });
       
       res.json(progress);
     } catch (error) {
+      if (error instanceof OkrCycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
@@ -830,6 +1153,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/key-results/:id/forecast', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { type } = req.query;
+
+      if (type !== 'company' && type !== 'team') {
+        return res.status(400).json({ message: "Invalid key result type. Must be 'company' or 'team'." });
+      }
+
+      const method = req.query.method ?? 'linear';
+      if (!KR_FORECAST_METHODS.includes(method)) {
+        return res.status(400).json({ message: `Invalid forecast method. Must be one of: ${KR_FORECAST_METHODS.join(", ")}.` });
+      }
+
+      const forecast = await storage.getKrProgressForecast(id, type as 'company' | 'team', method);
+      if (!forecast) {
+        return res.status(404).json({ message: "Key result not found" });
+      }
+      res.json(forecast);
+    } catch (error) {
+      console.error("Error forecasting key result:", error);
+      res.status(500).json({ message: "Failed to forecast key result" });
+    }
+  });
+
   // Phase 3: Quality Policies (ISO 9001:2015 Compliance)
   app.get('/api/quality-policies', isAuthenticated, async (req: any, res) => {
     try {
@@ -1205,6 +1553,130 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // OKR cycles: planning periods objectives and goals are graded in
+  app.get('/api/okr-cycles', isAuthenticated, async (req: any, res) => {
+    try {
+      const cycles = await storage.getOkrCycles();
+      res.json(cycles);
+    } catch (error) {
+      console.error("Error fetching OKR cycles:", error);
+      res.status(500).json({ message: "Failed to fetch OKR cycles" });
+    }
+  });
+
+  app.post('/api/okr-cycles', isAuthenticated, requirePermission('okr.admin', organizationWide), async (req: any, res) => {
+    try {
+      const cycleData = okrCycleSchema.parse(req.body);
+      const cycle = await storage.createOkrCycle(cycleData, req.user.claims.sub);
+      console.log(`[AUDIT] OKR cycle ${cycle.id} (${cycle.name}) created by ${req.user.claims.sub}`);
+      res.status(201).json(cycle);
+    } catch (error: any) {
+      if (error instanceof OkrCycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      if (error?.code === '23505') {
+        return res.status(409).json({ message: "An OKR cycle with this name already exists" });
+      }
+      return handleValidationError(error, res, "create OKR cycle");
+    }
+  });
+
+  app.patch('/api/okr-cycles/:id', isAuthenticated, requirePermission('okr.admin', organizationWide), async (req: any, res) => {
+    try {
+      const updates = okrCycleUpdateSchema.parse(req.body);
+      const cycle = await storage.updateOkrCycle(req.params.id, updates);
+      if (!cycle) {
+        return res.status(404).json({ message: "OKR cycle not found" });
+      }
+      res.json(cycle);
+    } catch (error: any) {
+      if (error instanceof OkrCycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      if (error?.code === '23505') {
+        return res.status(409).json({ message: "An OKR cycle with this name already exists" });
+      }
+      return handleValidationError(error, res, "update OKR cycle");
+    }
+  });
+
+  app.get('/api/okr-cycles/:id/scorecard', isAuthenticated, requirePermission('okr.admin', organizationWide), async (req: any, res) => {
+    try {
+      const scorecard = await storage.getOkrCycleScorecard(req.params.id);
+      if (!scorecard) {
+        return res.status(404).json({ message: "OKR cycle not found" });
+      }
+      res.json(scorecard);
+    } catch (error) {
+      console.error("Error fetching OKR cycle scorecard:", error);
+      res.status(500).json({ message: "Failed to fetch OKR cycle scorecard" });
+    }
+  });
+
+  // Close-out: records final grades and retrospectives, snapshots every objective, locks progress and
+  // optionally rolls unfinished objectives into the next cycle
+  app.post('/api/okr-cycles/:id/close', isAuthenticated, requirePermission('okr.admin', organizationWide), async (req: any, res) => {
+    try {
+      const closeOut = okrCycleCloseSchema.parse(req.body);
+      const result = await storage.closeOkrCycle(req.params.id, closeOut, req.user.claims.sub);
+      console.log(`[AUDIT] OKR cycle ${result.cycle.id} (${result.cycle.name}) closed by ${req.user.claims.sub} - ${result.snapshotCount} objective(s) graded, ${result.rolledForward.length} rolled forward`);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof OkrCycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      return handleValidationError(error, res, "close OKR cycle");
+    }
+  });
+
+  // OKR progress roll-up rules: how an objective's progress is derived from the key results, objectives and goals
+  // beneath it. A manual override needs a reason, which is kept in the objective audit log.
+  app.put('/api/objectives/:id/rollup', isAuthenticated, requirePermission('okr.admin', organizationWide), async (req: any, res) => {
+    try {
+      const rule = okrRollupRuleSchema.parse(req.body);
+      const breakdown = await storage.updateOkrRollupRule("company", req.params.id, rule, req.user.claims.sub);
+      if (!breakdown) {
+        return res.status(404).json({ message: "Company objective not found" });
+      }
+      console.log(`[AUDIT] Roll-up of company objective ${req.params.id} set to ${rule.method} by ${req.user.claims.sub}`);
+      res.json(breakdown);
+    } catch (error) {
+      if (error instanceof OkrCycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      return handleValidationError(error, res, "update objective roll-up");
+    }
+  });
+
+  app.put('/api/team-objectives/:id/rollup', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (user?.role !== 'supervisor' && user?.role !== 'leadership') {
+        return res.status(403).json({ message: "Access denied. Supervisor or leadership role required." });
+      }
+      const existingObjective = await storage.getTeamObjectiveById(req.params.id);
+      if (!existingObjective) {
+        return res.status(404).json({ message: "Team objective not found" });
+      }
+      if (user.role === 'supervisor' && existingObjective.supervisorId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Access denied. You can only edit your own team's objectives." });
+      }
+
+      const rule = okrRollupRuleSchema.parse(req.body);
+      const breakdown = await storage.updateOkrRollupRule("team", req.params.id, rule, req.user.claims.sub);
+      if (!breakdown) {
+        return res.status(404).json({ message: "Team objective not found" });
+      }
+      console.log(`[AUDIT] Roll-up of team objective ${req.params.id} set to ${rule.method} by ${req.user.claims.sub}`);
+      res.json(breakdown);
+    } catch (error) {
+      if (error instanceof OkrCycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      return handleValidationError(error, res, "update team objective roll-up");
+    }
+  });
+
   // Phase 5: Corrective Actions (ISO 9001:2015 Clause 10.2)
   app.get('/api/corrective-actions', isAuthenticated, async (req: any, res) => {
     try {
@@ -2622,7 +3094,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/users/:id/role', isAuthenticated, async (req: any, res) => {
+  app.put('/api/users/:id/role', isAuthenticated, requireInteractiveSession, async (req: any, res) => {
     try {
       const { id } = req.params;
       const { role } = req.body;
@@ -2654,69 +3126,488 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // DEPRECATED: Legacy route for backward compatibility - delegates to team_members junction table
-  app.put('/api/users/:id/team', isAuthenticated, async (req: any, res) => {
-    try {
-      const { id } = req.params;
-      const { teamId } = req.body;
-      const currentUserId = req.user.claims.sub;
-      const currentUser = await storage.getUser(currentUserId);
-
-      // Only supervisors and leadership can assign teams
-      if (currentUser?.role !== 'supervisor' && currentUser?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Supervisor or leadership role required." });
-      }
-
-      // Get current memberships
-      const memberships = await storage.getUserTeamMemberships(id);
-      const isAlreadyMember = memberships.some(m => m.teamId === teamId);
+  // Local sign-in credentials (AUTH_PROVIDER=local). They can be prepared before switching providers.
+  // The password hash never leaves the server.
+  const credentialHolder = async (req: any): Promise<PermissionTarget> => ({ userId: req.params.id });
 
-      if (!isAlreadyMember) {
-        // Add as new membership and set as primary
-        await storage.addTeamMember({
-          userId: id,
-          teamId,
-          role: 'Member',
-          isPrimary: true
-        });
-      } else {
-        // Already a member, just set as primary
-        await storage.setPrimaryTeam(id, teamId);
+  app.get('/api/users/:id/credentials', isAuthenticated, requireInteractiveSession, requirePermission('credential.manage', credentialHolder), async (req: any, res) => {
+    try {
+      const credential = await storage.getUserCredential(req.params.id);
+      if (!credential) {
+        return res.json(null);
       }
-
-      // Also update legacy users.teamId field for backward compatibility
-      const updatedUser = await storage.assignUserToTeam(id, teamId);
-      res.json(updatedUser);
+      const { passwordHash, ...details } = credential;
+      res.json(details);
     } catch (error: any) {
-      console.error("Error assigning user to team:", error);
-      if (error.message?.includes('VALIDATION_ERROR:')) {
-        return res.status(422).json({ message: error.message.replace('VALIDATION_ERROR: ', '') });
-      }
-      res.status(500).json({ message: "Failed to assign user to team" });
+      return handleValidationError(error, res, "get sign-in credentials");
     }
   });
 
-  // Team Membership Management (many-to-many)
-  app.get('/api/users/:userId/teams', isAuthenticated, async (req: any, res) => {
+  app.put('/api/users/:id/credentials', isAuthenticated, requireInteractiveSession, requirePermission('credential.manage', credentialHolder), async (req: any, res) => {
     try {
-      const { userId } = req.params;
+      const { id } = req.params;
       const currentUserId = req.user.claims.sub;
-      const currentUser = await storage.getUser(currentUserId);
+      const { username, password } = localCredentialSchema.parse(req.body);
 
-      // Users can view their own teams, supervisors and leadership can view any
-      if (userId !== currentUserId && currentUser?.role !== 'supervisor' && currentUser?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied" });
+      const targetUser = await storage.getUser(id);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (outranks(targetUser.role, req.currentUser.role)) {
+        return res.status(403).json({ message: "You can't set sign-in credentials for someone with a higher role than yours" });
+      }
+      const existing = await storage.getUserCredentialByUsername(username);
+      if (existing && existing.userId !== id) {
+        return res.status(409).json({ message: "That username is already taken" });
       }
 
-      const memberships = await storage.getUserTeamMemberships(userId);
-      res.json(memberships);
-    } catch (error) {
-      console.error("Error fetching user team memberships:", error);
-      res.status(500).json({ message: "Failed to fetch team memberships" });
+      const credential = await setLocalPassword(id, username, password);
+      console.log(`[AUDIT] Local credentials for user ${id} set (username ${credential.username}) by ${currentUserId}`);
+      const { passwordHash, ...details } = credential;
+      res.json(details);
+    } catch (error: any) {
+      if (error instanceof LocalAuthError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return handleValidationError(error, res, "set sign-in credentials");
     }
   });
 
-  app.post('/api/users/:userId/teams', isAuthenticated, async (req: any, res) => {
+  app.post('/api/users/:id/credentials/unlock', isAuthenticated, requireInteractiveSession, requirePermission('credential.manage', credentialHolder), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const targetUser = await storage.getUser(id);
+      if (targetUser && outranks(targetUser.role, req.currentUser.role)) {
+        return res.status(403).json({ message: "You can't unlock the sign-in of someone with a higher role than yours" });
+      }
+      const credential = await storage.unlockUserCredential(id);
+      if (!credential) {
+        return res.status(404).json({ message: "This user has no local sign-in credentials" });
+      }
+      console.log(`[AUDIT] Local account ${credential.username} unlocked by ${req.user.claims.sub}`);
+      const { passwordHash, ...details } = credential;
+      res.json(details);
+    } catch (error: any) {
+      return handleValidationError(error, res, "unlock sign-in credentials");
+    }
+  });
+
+  // Wrong current passwords count towards the lockout like any other failed sign-in
+  app.post('/api/auth/local/password', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { currentPassword, newPassword } = localPasswordChangeSchema.parse(req.body);
+
+      const credential = await storage.getUserCredential(userId);
+      if (!credential) {
+        return res.status(404).json({ message: "Your account does not use a local password" });
+      }
+      await authenticateLocalUser(credential.username, currentPassword);
+      await setLocalPassword(userId, credential.username, newPassword);
+      console.log(`[AUDIT] Local password changed by ${userId}`);
+      res.json({ message: "Password changed" });
+    } catch (error: any) {
+      if (error instanceof LocalAuthError) {
+        const status = error.reason === "invalid_password" ? 400 : error.reason === "locked" ? 423 : 403;
+        return res.status(status).json({ message: error.reason === "invalid_credentials" ? "Current password is incorrect" : error.message });
+      }
+      return handleValidationError(error, res, "change password");
+    }
+  });
+
+  // Bulk imports. Uploading validates the file (dry run); nothing changes until the batch is committed.
+  app.get('/api/imports', isAuthenticated, requirePermission('user.import', organizationWide), async (req: any, res) => {
+    try {
+      res.json(await storage.getImportBatches());
+    } catch (error: any) {
+      return handleValidationError(error, res, "list import batches");
+    }
+  });
+
+  app.get('/api/imports/templates/:importType', isAuthenticated, requirePermission('user.import', organizationWide), async (req: any, res) => {
+    const importType = z.enum(IMPORT_TYPES).safeParse(req.params.importType);
+    if (!importType.success) {
+      return res.status(404).json({ message: "Unknown import type" });
+    }
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${importType.data}-template.csv"`);
+    res.send(getImportTemplateCsv(importType.data));
+  });
+
+  app.get('/api/imports/:id', isAuthenticated, requirePermission('user.import', organizationWide), async (req: any, res) => {
+    try {
+      const batch = await storage.getImportBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Import batch not found" });
+      }
+      res.json(batch);
+    } catch (error: any) {
+      return handleValidationError(error, res, "get import batch");
+    }
+  });
+
+  app.post('/api/imports', isAuthenticated, requirePermission('user.import', organizationWide), async (req: any, res) => {
+    try {
+      const { uploadURL, importType, fileName } = importUploadSchema.parse(req.body);
+      const userId = req.user.claims.sub;
+      const batch = await validateImport(uploadURL, importType, fileName, userId);
+      console.log(`[AUDIT] ${importType} import ${batch.id} (${fileName}) validated with ${batch.errorCount} errors by ${userId}`);
+      res.status(201).json(batch);
+    } catch (error: any) {
+      if (error instanceof SpreadsheetError || error instanceof ImportBatchError) {
+        return res.status(error instanceof ImportBatchError ? error.statusCode : 400).json({ message: error.message });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Uploaded file not found" });
+      }
+      return handleValidationError(error, res, "validate import");
+    }
+  });
+
+  app.post('/api/imports/:id/commit', isAuthenticated, requirePermission('user.import', organizationWide), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const batch = await commitImport(req.params.id, userId);
+      console.log(`[AUDIT] ${batch.importType} import ${batch.id} (${batch.fileName}) committed by ${userId}`);
+      res.json(batch);
+    } catch (error: any) {
+      if (error instanceof SpreadsheetError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ImportBatchError) {
+        return res.status(error.statusCode).json({ message: error.message, report: error.report });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Uploaded file not found" });
+      }
+      return handleValidationError(error, res, "commit import");
+    }
+  });
+
+  app.post('/api/imports/:id/rollback', isAuthenticated, requirePermission('user.import', organizationWide), async (req: any, res) => {
+    try {
+      const { reason } = importRollbackSchema.parse(req.body);
+      const userId = req.user.claims.sub;
+      const batch = await storage.rollbackImportBatch(req.params.id, userId, reason);
+      console.log(`[AUDIT] ${batch.importType} import ${batch.id} (${batch.fileName}) rolled back by ${userId}: ${reason}`);
+      res.json(batch);
+    } catch (error: any) {
+      if (error instanceof ImportBatchError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      return handleValidationError(error, res, "roll back import");
+    }
+  });
+
+  // Permission roles. Granting permissions is organization-wide only, so a scoped grant can't be used to widen itself.
+  app.get('/api/permissions', isAuthenticated, requirePermission('permission.manage', organizationWide), async (req: any, res) => {
+    res.json(PERMISSION_NAMES.map(name => ({
+      name,
+      description: PERMISSIONS[name],
+      baseRoles: (Object.keys(BASE_ROLE_PERMISSIONS) as Array<keyof typeof BASE_ROLE_PERMISSIONS>)
+        .filter(role => BASE_ROLE_PERMISSIONS[role].includes(name)),
+    })));
+  });
+
+  app.get('/api/permission-roles', isAuthenticated, requireInteractiveSession, requirePermission('permission.manage', organizationWide), async (req: any, res) => {
+    try {
+      res.json(await storage.getPermissionRoles());
+    } catch (error: any) {
+      return handleValidationError(error, res, "list permission roles");
+    }
+  });
+
+  app.post('/api/permission-roles', isAuthenticated, requireInteractiveSession, requirePermission('permission.manage', organizationWide), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const role = await storage.createPermissionRole({ ...permissionRoleSchema.parse(req.body), createdBy: userId });
+      console.log(`[AUDIT] Permission role ${role.name} (${role.permissions.join(", ")}) created by ${userId}`);
+      res.status(201).json(role);
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return res.status(409).json({ message: "A role with that name already exists" });
+      }
+      return handleValidationError(error, res, "create permission role");
+    }
+  });
+
+  app.put('/api/permission-roles/:id', isAuthenticated, requireInteractiveSession, requirePermission('permission.manage', organizationWide), async (req: any, res) => {
+    try {
+      const role = await storage.updatePermissionRole(req.params.id, permissionRoleSchema.parse(req.body));
+      if (!role) {
+        return res.status(404).json({ message: "Permission role not found" });
+      }
+      console.log(`[AUDIT] Permission role ${role.name} updated to ${role.permissions.join(", ")} by ${req.user.claims.sub}`);
+      res.json(role);
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return res.status(409).json({ message: "A role with that name already exists" });
+      }
+      return handleValidationError(error, res, "update permission role");
+    }
+  });
+
+  app.delete('/api/permission-roles/:id', isAuthenticated, requireInteractiveSession, requirePermission('permission.manage', organizationWide), async (req: any, res) => {
+    try {
+      const deleted = await storage.deletePermissionRole(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Permission role not found" });
+      }
+      console.log(`[AUDIT] Permission role ${req.params.id} deleted by ${req.user.claims.sub}`);
+      res.status(204).send();
+    } catch (error: any) {
+      return handleValidationError(error, res, "delete permission role");
+    }
+  });
+
+  app.get('/api/permission-role-assignments', isAuthenticated, requireInteractiveSession, requirePermission('permission.manage', organizationWide), async (req: any, res) => {
+    try {
+      res.json(await storage.getPermissionRoleAssignments({
+        roleId: req.query.roleId as string | undefined,
+        userId: req.query.userId as string | undefined,
+      }));
+    } catch (error: any) {
+      return handleValidationError(error, res, "list permission role assignments");
+    }
+  });
+
+  app.post('/api/permission-role-assignments', isAuthenticated, requireInteractiveSession, requirePermission('permission.manage', organizationWide), async (req: any, res) => {
+    try {
+      const grantedBy = req.user.claims.sub;
+      const { userId, roleId, scopeType, scopeId } = permissionRoleAssignmentSchema.parse(req.body);
+
+      const [user, role] = await Promise.all([storage.getUser(userId), storage.getPermissionRole(roleId)]);
+      if (!user || !role) {
+        return res.status(404).json({ message: user ? "Permission role not found" : "User not found" });
+      }
+      if (scopeType === "team" && !(await storage.getTeam(scopeId!))) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      if (scopeType === "department" && !(await storage.getDepartment(scopeId!))) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      const existing = await storage.getPermissionRoleAssignments({ userId, roleId });
+      if (existing.some(assignment => assignment.scopeType === scopeType && (assignment.scopeId ?? null) === (scopeId ?? null))) {
+        return res.status(409).json({ message: `${role.name} is already granted to this user for that scope` });
+      }
+
+      const assignment = await storage.createPermissionRoleAssignment({ userId, roleId, scopeType, scopeId: scopeId ?? null, grantedBy });
+      console.log(`[AUDIT] Permission role ${role.name} granted to user ${userId} (${scopeType}${scopeId ? ` ${scopeId}` : ""}) by ${grantedBy}`);
+      res.status(201).json(assignment);
+    } catch (error: any) {
+      return handleValidationError(error, res, "grant permission role");
+    }
+  });
+
+  app.delete('/api/permission-role-assignments/:id', isAuthenticated, requireInteractiveSession, requirePermission('permission.manage', organizationWide), async (req: any, res) => {
+    try {
+      const assignment = await storage.deletePermissionRoleAssignment(req.params.id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Permission role assignment not found" });
+      }
+      console.log(`[AUDIT] Permission role ${assignment.roleId} revoked from user ${assignment.userId} by ${req.user.claims.sub}`);
+      res.status(204).send();
+    } catch (error: any) {
+      return handleValidationError(error, res, "revoke permission role");
+    }
+  });
+
+  // API tokens. Tokens act as their owner; the secret is returned once, on creation.
+  app.get('/api/api-tokens/scopes', isAuthenticated, async (req: any, res) => {
+    res.json({
+      scopes: API_TOKEN_SCOPE_NAMES.map(name => ({ name, description: API_TOKEN_SCOPES[name] })),
+      maxLifetimeDays: MAX_API_TOKEN_LIFETIME_DAYS,
+      maxRateLimitPerMinute: MAX_API_TOKEN_RATE_LIMIT,
+    });
+  });
+
+  app.get('/api/api-tokens', isAuthenticated, requireInteractiveSession, async (req: any, res) => {
+    try {
+      const tokens = await storage.getApiTokens(req.user.claims.sub);
+      res.json(tokens.map(redactApiToken));
+    } catch (error: any) {
+      return handleValidationError(error, res, "list API tokens");
+    }
+  });
+
+  app.post('/api/api-tokens', isAuthenticated, requireInteractiveSession, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const owner = await storage.getUser(userId);
+      if (!owner) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const { token, secret } = await issueApiToken(owner, apiTokenSchema.parse(req.body), userId);
+      console.log(`[AUDIT] API token ${token.id} (${token.name}, ${token.scopes.join("/")}) created by ${userId}`);
+      res.status(201).json({ ...redactApiToken(token), token: secret });
+    } catch (error: any) {
+      if (error instanceof ApiTokenError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      return handleValidationError(error, res, "create API token");
+    }
+  });
+
+  app.delete('/api/api-tokens/:id', isAuthenticated, requireInteractiveSession, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const token = await storage.getApiToken(req.params.id);
+      if (!token || !(await canManageApiToken(userId, token.userId))) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      const revoked = await storage.revokeApiToken(token.id, userId);
+      console.log(`[AUDIT] API token ${token.id} (${token.name}) of user ${token.userId} revoked by ${userId}`);
+      res.json(revoked && redactApiToken(revoked));
+    } catch (error: any) {
+      return handleValidationError(error, res, "revoke API token");
+    }
+  });
+
+  app.get('/api/api-tokens/:id/access-log', isAuthenticated, requireInteractiveSession, async (req: any, res) => {
+    try {
+      const token = await storage.getApiToken(req.params.id);
+      if (!token || !(await canManageApiToken(req.user.claims.sub, token.userId))) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 100, 1), 1000);
+      res.json(await storage.getApiTokenAccessLog({ tokenId: token.id, limit }));
+    } catch (error: any) {
+      return handleValidationError(error, res, "get API token access log");
+    }
+  });
+
+  // Service accounts: non-human users that only authenticate with API tokens. Their base role and any permission
+  // roles granted to them decide what their tokens can reach.
+  app.get('/api/service-accounts', isAuthenticated, requireInteractiveSession, requirePermission('api.manage', organizationWide), async (req: any, res) => {
+    try {
+      const accounts = await storage.getServiceAccounts();
+      const tokens = await Promise.all(accounts.map(account => storage.getApiTokens(account.id)));
+      res.json(accounts.map((account, index) => ({ ...account, tokens: tokens[index].map(redactApiToken) })));
+    } catch (error: any) {
+      return handleValidationError(error, res, "list service accounts");
+    }
+  });
+
+  app.post('/api/service-accounts', isAuthenticated, requireInteractiveSession, requirePermission('api.manage', organizationWide), async (req: any, res) => {
+    try {
+      const { name, description, role } = serviceAccountSchema.parse(req.body);
+      if (outranks(role, req.currentUser.role)) {
+        return res.status(403).json({ message: "You can't create a service account with a higher role than your own" });
+      }
+      const account = await storage.createServiceAccount({ firstName: name, jobTitle: description ?? null, role });
+      console.log(`[AUDIT] Service account ${account.id} (${name}, ${role}) created by ${req.user.claims.sub}`);
+      res.status(201).json({ ...account, tokens: [] });
+    } catch (error: any) {
+      return handleValidationError(error, res, "create service account");
+    }
+  });
+
+  app.patch('/api/service-accounts/:id', isAuthenticated, requireInteractiveSession, requirePermission('api.manage', organizationWide), async (req: any, res) => {
+    try {
+      const { name, description, role, isActive } = serviceAccountUpdateSchema.parse(req.body);
+      if (role && outranks(role, req.currentUser.role)) {
+        return res.status(403).json({ message: "You can't give a service account a higher role than your own" });
+      }
+      const account = await storage.updateServiceAccount(req.params.id, {
+        ...(name !== undefined && { firstName: name }),
+        ...(description !== undefined && { jobTitle: description }),
+        ...(role !== undefined && { role }),
+        ...(isActive !== undefined && { isActive, deactivatedAt: isActive ? null : new Date() }),
+      });
+      if (!account) {
+        return res.status(404).json({ message: "Service account not found" });
+      }
+      console.log(`[AUDIT] Service account ${account.id} (${account.firstName}) updated by ${req.user.claims.sub}`);
+      res.json(account);
+    } catch (error: any) {
+      return handleValidationError(error, res, "update service account");
+    }
+  });
+
+  app.post('/api/service-accounts/:id/tokens', isAuthenticated, requireInteractiveSession, requirePermission('api.manage', organizationWide), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const account = await storage.getUser(req.params.id);
+      if (!account?.isServiceAccount) {
+        return res.status(404).json({ message: "Service account not found" });
+      }
+      if (outranks(account.role, req.currentUser.role)) {
+        return res.status(403).json({ message: "You can't issue tokens for a service account with a higher role than your own" });
+      }
+      const { token, secret } = await issueApiToken(account, apiTokenSchema.parse(req.body), userId);
+      console.log(`[AUDIT] API token ${token.id} (${token.name}, ${token.scopes.join("/")}) for service account ${account.id} created by ${userId}`);
+      res.status(201).json({ ...redactApiToken(token), token: secret });
+    } catch (error: any) {
+      if (error instanceof ApiTokenError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      return handleValidationError(error, res, "create service account token");
+    }
+  });
+
+  // DEPRECATED: Legacy route for backward compatibility - delegates to team_members junction table
+  app.put('/api/users/:id/team', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { teamId } = req.body;
+      const currentUserId = req.user.claims.sub;
+      const currentUser = await storage.getUser(currentUserId);
+
+      // Only supervisors and leadership can assign teams
+      if (currentUser?.role !== 'supervisor' && currentUser?.role !== 'leadership') {
+        return res.status(403).json({ message: "Access denied. Supervisor or leadership role required." });
+      }
+
+      // Get current memberships
+      const memberships = await storage.getUserTeamMemberships(id);
+      const isAlreadyMember = memberships.some(m => m.teamId === teamId);
+
+      if (!isAlreadyMember) {
+        // Add as new membership and set as primary
+        await storage.addTeamMember({
+          userId: id,
+          teamId,
+          role: 'Member',
+          isPrimary: true
+        });
+      } else {
+        // Already a member, just set as primary
+        await storage.setPrimaryTeam(id, teamId);
+      }
+
+      // Also update legacy users.teamId field for backward compatibility
+      const updatedUser = await storage.assignUserToTeam(id, teamId);
+      res.json(updatedUser);
+    } catch (error: any) {
+      console.error("Error assigning user to team:", error);
+      if (error.message?.includes('VALIDATION_ERROR:')) {
+        return res.status(422).json({ message: error.message.replace('VALIDATION_ERROR: ', '') });
+      }
+      res.status(500).json({ message: "Failed to assign user to team" });
+    }
+  });
+
+  // Team Membership Management (many-to-many)
+  app.get('/api/users/:userId/teams', isAuthenticated, async (req: any, res) => {
+    try {
+      const { userId } = req.params;
+      const currentUserId = req.user.claims.sub;
+      const currentUser = await storage.getUser(currentUserId);
+
+      // Users can view their own teams, supervisors and leadership can view any
+      if (userId !== currentUserId && currentUser?.role !== 'supervisor' && currentUser?.role !== 'leadership') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const memberships = await storage.getUserTeamMemberships(userId);
+      res.json(memberships);
+    } catch (error) {
+      console.error("Error fetching user team memberships:", error);
+      res.status(500).json({ message: "Failed to fetch team memberships" });
+    }
+  });
+
+  app.post('/api/users/:userId/teams', isAuthenticated, async (req: any, res) => {
     try {
       const { userId } = req.params;
       const { teamId, role, isPrimary } = req.body;
@@ -3108,7 +3999,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Upload PDF document for lesson content
-  app.post('/api/lms/upload/lesson-pdf', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/lms/upload/lesson-pdf', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
     try {
       const { filename, lessonId } = req.body;
       
@@ -3363,6 +4254,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const goalData = insertGoalSchema.parse({ ...req.body, userId });
+      const cycleProblem = await checkOkrCycleForPlanning(goalData.cycleId);
+      if (cycleProblem) {
+        return res.status(400).json({ message: cycleProblem });
+      }
       const goal = await storage.createGoal(goalData);
       res.json(goal);
     } catch (error) {
@@ -3395,6 +4290,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(goal);
     } catch (error) {
+      if (error instanceof OkrCycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error updating goal progress:", error);
       res.status(500).json({ message: "Failed to update goal progress" });
     }
@@ -3447,6 +4345,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.status(201).json(checkIn);
     } catch (error: any) {
+      if (error instanceof OkrCycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating check-in:", error);
       
       // Handle validation errors specifically
@@ -3478,6 +4379,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.status(201).json(checkIn);
     } catch (error: any) {
+      if (error instanceof OkrCycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating KR check-in:", error);
       if (error.name === 'ZodError') {
         return res.status(400).json({ message: "Invalid data provided", errors: error.errors });
@@ -3509,6 +4413,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const created = await storage.createBulkKRCheckIns(validatedCheckIns);
       res.status(201).json(created);
     } catch (error: any) {
+      if (error instanceof OkrCycleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating bulk KR check-ins:", error);
       if (error.name === 'ZodError') {
         return res.status(400).json({ message: "Invalid data provided", errors: error.errors });
@@ -3668,7 +4575,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/competency-library', isAuthenticated, requireLeadership(), async (req: any, res) => {
+  app.post('/api/competency-library', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       // Extract data for base competency creation and role mappings
       const { title, description, categoryId, proficiencyLevelId, requiredForRoles, ...libraryData } = req.body;
@@ -3744,7 +4651,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/competency-library/:id', isAuthenticated, requireLeadership(), async (req, res) => {
+  app.put('/api/competency-library/:id', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req, res) => {
     try {
       const updates = insertCompetencyLibrarySchema.partial().parse(req.body);
       const competency = await storage.updateCompetencyLibraryItem(req.params.id, updates);
@@ -3763,7 +4670,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/competency-library/:id', isAuthenticated, requireLeadership(), async (req: any, res) => {
+  app.patch('/api/competency-library/:id', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const { requiredForRoles, ...updates } = req.body;
       const competencyId = req.params.id;
@@ -3823,7 +4730,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/competency-library/:id', isAuthenticated, requireLeadership(), async (req, res) => {
+  app.delete('/api/competency-library/:id', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req, res) => {
     try {
       await storage.deleteCompetencyLibraryItem(req.params.id);
       res.json({ message: "Competency deleted successfully" });
@@ -3859,7 +4766,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/role-competency-mappings', isAuthenticated, requireLeadership(), async (req: any, res) => {
+  app.post('/api/role-competency-mappings', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const mappingData = insertRoleCompetencyMappingSchema.parse({
         ...req.body,
@@ -3881,7 +4788,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/role-competency-mappings/:id', isAuthenticated, requireLeadership(), async (req, res) => {
+  app.put('/api/role-competency-mappings/:id', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req, res) => {
     try {
       const updates = insertRoleCompetencyMappingSchema.partial().parse(req.body);
       const mapping = await storage.updateRoleCompetencyMapping(req.params.id, updates);
@@ -3900,7 +4807,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/role-competency-mappings/:id', isAuthenticated, requireLeadership(), async (req, res) => {
+  app.delete('/api/role-competency-mappings/:id', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req, res) => {
     try {
       await storage.deleteRoleCompetencyMapping(req.params.id);
       res.json({ message: "Role competency mapping deleted successfully" });
@@ -4030,10 +4937,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/competency-evidence/:id/verify', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  // Verifiers with a team or department grant can verify evidence of people in that team or department
+  app.post('/api/competency-evidence/:id/verify', isAuthenticated, requirePermission('evidence.verify', async (req) => {
+    const evidence = await storage.getCompetencyEvidenceRecord(req.params.id);
+    return evidence ? { userId: evidence.userId } : null;
+  }), async (req: any, res) => {
     try {
       const verifierId = req.user.claims.sub;
       const { notes } = req.body;
+      const existing = await storage.getCompetencyEvidenceRecord(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Competency evidence not found" });
+      }
+      if (existing.userId === verifierId) {
+        return res.status(403).json({ message: "You cannot verify your own evidence" });
+      }
       const evidence = await storage.verifyCompetencyEvidence(req.params.id, verifierId, notes);
       res.json(evidence);
     } catch (error) {
@@ -4236,7 +5154,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/compliance-report', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  // Without a team filter the report covers everyone, which needs an organization-wide grant
+  app.get('/api/compliance-report', isAuthenticated, requirePermission('report.export', async (req) => (
+    req.query.teamId ? { teamId: String(req.query.teamId) } : null
+  )), async (req, res) => {
     try {
       const filters = {
         role: req.query.role as string | undefined,
@@ -4252,25 +5173,160 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/competency-gap-analysis', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  // Scheduled reports run without anyone's request to scope them, so managing them needs an organization-wide grant
+  app.get('/api/reports/datasets', isAuthenticated, requirePermission('report.export', organizationWide), async (_req, res) => {
+    res.json({ datasets: getReportDatasets(), emailAvailable: getChannelAvailability().email });
+  });
+
+  app.get('/api/reports/scheduled', isAuthenticated, requirePermission('report.export', organizationWide), async (_req, res) => {
     try {
-      const userId = req.query.userId as string | undefined;
-      const analysis = await storage.getCompetencyGapAnalysis(userId);
-      res.json(analysis);
+      res.json(await storage.getScheduledReports());
     } catch (error) {
-      console.error("Error performing competency gap analysis:", error);
-      res.status(500).json({ message: "Failed to perform competency gap analysis" });
+      console.error("Error fetching scheduled reports:", error);
+      res.status(500).json({ message: "Failed to fetch scheduled reports" });
     }
   });
 
-  // ========================================
-  // ADAPTIVE LEARNING ENGINE ROUTES
-  // ========================================
-
-  // Get adaptive learning profile
-  app.get('/api/adaptive-learning/profile/:userId', isAuthenticated, async (req: any, res) => {
+  app.post('/api/reports/scheduled', isAuthenticated, requirePermission('report.export', organizationWide), async (req: any, res) => {
     try {
-      const { userId } = req.params;
+      const currentUserId = req.user.claims.sub;
+      const data = scheduledReportSchema.parse(req.body);
+      await validateReportSchedule(data.schedule);
+      const report = await storage.generateAnalyticsReport({
+        title: data.title,
+        description: data.description ?? null,
+        reportType: data.reportType,
+        generatedBy: currentUserId,
+        filters: data.filters,
+        data: {},
+        isScheduled: data.isScheduled,
+        schedule: data.schedule,
+        nextRunAt: data.isScheduled ? getNextReportRun(data.schedule, new Date()) : null,
+      });
+      console.log(`[AUDIT] Scheduled report ${report.id} (${report.title}) created by ${currentUserId} - ${data.schedule.cron} ${data.schedule.timezone}, ${data.schedule.recipients.length} recipient(s)`);
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof ScheduledReportError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      return handleValidationError(error, res, "create scheduled report");
+    }
+  });
+
+  app.patch('/api/reports/scheduled/:id', isAuthenticated, requirePermission('report.export', organizationWide), async (req: any, res) => {
+    try {
+      const currentUserId = req.user.claims.sub;
+      const existing = await storage.getAnalyticsReport(req.params.id);
+      if (!existing?.schedule) {
+        return res.status(404).json({ message: "Scheduled report not found" });
+      }
+      const updates = scheduledReportSchema.partial().parse(req.body);
+      const schedule = updates.schedule ?? (existing.schedule as ReportSchedule);
+      if (updates.schedule) {
+        await validateReportSchedule(updates.schedule);
+      }
+      const isScheduled = updates.isScheduled ?? existing.isScheduled === true;
+      const rescheduled = updates.schedule !== undefined || updates.isScheduled !== undefined;
+      const report = await storage.updateAnalyticsReport(existing.id, {
+        ...updates,
+        ...(rescheduled ? { nextRunAt: isScheduled ? getNextReportRun(schedule, new Date()) : null } : {}),
+      });
+      console.log(`[AUDIT] Scheduled report ${existing.id} (${existing.title}) updated by ${currentUserId}${rescheduled ? ` - ${isScheduled ? schedule.cron : "paused"}` : ""}`);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof ScheduledReportError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      return handleValidationError(error, res, "update scheduled report");
+    }
+  });
+
+  app.delete('/api/reports/scheduled/:id', isAuthenticated, requirePermission('report.export', organizationWide), async (req: any, res) => {
+    try {
+      const currentUserId = req.user.claims.sub;
+      const existing = await storage.getAnalyticsReport(req.params.id);
+      if (!existing?.schedule) {
+        return res.status(404).json({ message: "Scheduled report not found" });
+      }
+      await deleteScheduledReport(existing.id);
+      console.log(`[AUDIT] Scheduled report ${existing.id} (${existing.title}) deleted by ${currentUserId}`);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting scheduled report:", error);
+      res.status(500).json({ message: "Failed to delete scheduled report" });
+    }
+  });
+
+  // Runs the report now without moving its schedule
+  app.post('/api/reports/scheduled/:id/run', isAuthenticated, requirePermission('report.export', organizationWide), async (req: any, res) => {
+    try {
+      const currentUserId = req.user.claims.sub;
+      const report = await storage.getAnalyticsReport(req.params.id);
+      if (!report?.schedule) {
+        return res.status(404).json({ message: "Scheduled report not found" });
+      }
+      const run = await runScheduledReport(report, "manual", currentUserId);
+      res.status(201).json(run);
+    } catch (error) {
+      if (error instanceof ScheduledReportError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error running scheduled report:", error);
+      res.status(500).json({ message: "Failed to run report" });
+    }
+  });
+
+  app.get('/api/reports/scheduled/:id/runs', isAuthenticated, requirePermission('report.export', organizationWide), async (req: any, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), 200);
+      res.json(await storage.getAnalyticsReportRuns(req.params.id, limit));
+    } catch (error) {
+      console.error("Error fetching report runs:", error);
+      res.status(500).json({ message: "Failed to fetch report runs" });
+    }
+  });
+
+  app.get('/api/reports/runs/:runId/download', isAuthenticated, requirePermission('report.export', organizationWide), async (req: any, res) => {
+    try {
+      const run = await storage.getAnalyticsReportRun(req.params.runId);
+      if (!run) {
+        return res.status(404).json({ message: "Report run not found" });
+      }
+      if (!run.artifactPath) {
+        return res.status(410).json({ message: run.artifactDeletedAt ? "This file was deleted under the report's retention policy" : "This run did not produce a file" });
+      }
+      const objectStorageService = new ObjectStorageService();
+      const file = await objectStorageService.getObjectEntityFile(run.artifactPath);
+      res.set("Content-Disposition", `attachment; filename="${(run.fileName || `report.${run.format}`).replace(/"/g, "")}"`);
+      await objectStorageService.downloadObject(file, res, 0);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(410).json({ message: "The report file is no longer available" });
+      }
+      console.error("Error downloading report run:", error);
+      res.status(500).json({ message: "Failed to download report" });
+    }
+  });
+
+  app.get('/api/competency-gap-analysis', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+    try {
+      const userId = req.query.userId as string | undefined;
+      const analysis = await storage.getCompetencyGapAnalysis(userId);
+      res.json(analysis);
+    } catch (error) {
+      console.error("Error performing competency gap analysis:", error);
+      res.status(500).json({ message: "Failed to perform competency gap analysis" });
+    }
+  });
+
+  // ========================================
+  // ADAPTIVE LEARNING ENGINE ROUTES
+  // ========================================
+
+  // Get adaptive learning profile
+  app.get('/api/adaptive-learning/profile/:userId', isAuthenticated, async (req: any, res) => {
+    try {
+      const { userId } = req.params;
       const currentUserId = req.user.claims.sub;
       
       // Check permission - users can only access their own profile or supervisors can access their team's
@@ -5085,7 +6141,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/lms/courses', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/lms/courses', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const courseData = insertCourseSchema.parse({ ...req.body, createdBy: userId });
@@ -5173,21 +6229,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const enrollment = await storage.enrollUser(enrollmentData);
       console.log("[DEBUG] Enrollment created successfully:", enrollment);
       
-      // Trigger enrollment notification
-      try {
-        // Fetch course title from database via enrollment's courseVersionId
-        const enrollmentDetail = await storage.getEnrollment(enrollment.id);
-        if (enrollmentDetail?.courseTitle) {
-          // Use the title from the enrollment (joins should provide this)
-          await storage.notifyEnrollment(userId, enrollmentDetail.courseTitle, enrollment.id);
-        } else {
-          // Fallback: fetch course data directly
-          await storage.notifyEnrollment(userId, "Course", enrollment.id);
-        }
-      } catch (notifyError) {
-        console.error("Failed to send enrollment notification:", notifyError);
-      }
-      
       res.json(enrollment);
     } catch (error: any) {
       console.error("[ERROR] Enrollment failed:", error);
@@ -5292,32 +6333,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         finalScore: 100 // Default score, should be calculated based on quiz results
       });
       
+      const courseTitle = (await storage.getCourseTitleForVersion(enrollment.courseVersionId)) || "Course";
+      
       // Issue certificate if applicable
       const certificate = await storage.issueCertificate({
         userId,
         courseVersionId: enrollment.courseVersionId,
         trainingRecordId: trainingRecord.id,
         certificateNumber: `CERT-${Date.now()}-${userId.slice(-4)}`,
+        certificateType: "course",
+        title: courseTitle,
         // expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year
-        verificationHash: `hash-${trainingRecord.id}`,
         metadata: {
-          courseTitle: 'Course Title', // Should get from course data
+          courseTitle,
           completionDate: new Date().toISOString()
         }
       });
       
-      // Trigger completion and certificate notifications
-      try {
-        // Fetch course title from the enrollment (which includes course details)
-        const enrollmentDetail = await storage.getEnrollment(enrollmentId);
-        const courseTitle = enrollmentDetail?.courseTitle || "Course";
-        
-        await storage.notifyCourseCompletion(userId, courseTitle, enrollmentId);
-        await storage.notifyCertificateIssued(userId, courseTitle, certificate.id);
-      } catch (notifyError) {
-        console.error("Failed to send completion notifications:", notifyError);
-      }
-      
       res.json({ enrollment, trainingRecord, certificate });
     } catch (error: any) {
       return handleValidationError(error, res, "complete enrollment");
@@ -5466,16 +6498,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Get all badges and check eligibility for each
           const badges = await storage.getBadges();
           for (const badge of badges) {
-            const awardedBadge = await storage.awardBadgeIfEligible(userId, badge.id, enrollmentId);
-            
-            // Trigger badge notification if awarded
-            if (awardedBadge) {
-              try {
-                await storage.notifyBadgeAwarded(userId, badge.name, badge.id);
-              } catch (notifyError) {
-                console.error("Failed to send badge notification:", notifyError);
-              }
-            }
+            await storage.awardBadgeIfEligible(userId, badge.id, enrollmentId);
           }
         } catch (error) {
           console.error("Error checking badge eligibility:", error);
@@ -5516,6 +6539,266 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // SCORM packages
+  app.post('/api/lms/scorm/packages', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
+    try {
+      const { uploadURL } = scormPackageImportSchema.parse(req.body);
+      const userId = req.user.claims.sub;
+      const result = await importScormPackage(uploadURL, userId);
+      console.log(`[AUDIT] SCORM package ${result.scormPackage.id} (${result.scormPackage.scormVersion}) imported by ${userId}`);
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error instanceof ScormPackageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Uploaded package not found" });
+      }
+      return handleValidationError(error, res, "import SCORM package");
+    }
+  });
+
+  // Serves unpacked package files from the app origin so SCOs can reach window.parent.API
+  app.get('/api/lms/scorm/packages/:packageId/content/*', isAuthenticated, async (req: any, res) => {
+    try {
+      const { packageId } = req.params;
+      const filePath = req.params[0] as string;
+      if (!filePath || filePath.split("/").includes("..")) {
+        return res.status(400).json({ message: "Invalid file path" });
+      }
+
+      const scormPackage = await storage.getScormPackage(packageId);
+      if (!scormPackage) {
+        return res.status(404).json({ message: "SCORM package not found" });
+      }
+
+      const objectStorageService = new ObjectStorageService();
+      const file = await objectStorageService.getObjectEntityFile(`${scormPackage.contentPath}/${filePath}`);
+      res.setHeader('Content-Security-Policy', getScormContentSecurityPolicy(`${req.protocol}://${req.get('host')}`, scormPackage.id));
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      await objectStorageService.downloadObject(file, res);
+    } catch (error: any) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "File not found in SCORM package" });
+      }
+      console.error("Error serving SCORM content:", error);
+      res.status(500).json({ message: "Failed to serve SCORM content" });
+    }
+  });
+
+  // SCORM runtime state for a lesson: package, SCOs and the stored CMI data used to resume
+  app.get('/api/lms/enrollments/:enrollmentId/lessons/:lessonId/scorm', isAuthenticated, async (req: any, res) => {
+    try {
+      const { enrollmentId, lessonId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const isOwner = await verifyEnrollmentOwnership(enrollmentId, userId);
+      if (!isOwner) {
+        return res.status(403).json({ message: "You can only launch lessons for your own enrollments" });
+      }
+
+      const lesson = await storage.getLesson(lessonId);
+      const packageId = getScormPackageIdFromUrl(lesson?.scormPackageUrl);
+      const scormPackage = packageId ? await storage.getScormPackage(packageId) : undefined;
+      if (!lesson || !scormPackage) {
+        return res.status(404).json({ message: "This lesson has no imported SCORM package" });
+      }
+
+      res.json(await getScormRuntimeState(enrollmentId, lessonId, scormPackage, userId));
+    } catch (error) {
+      console.error("Error fetching SCORM runtime state:", error);
+      res.status(500).json({ message: "Failed to fetch SCORM runtime state" });
+    }
+  });
+
+  // LMSCommit / Commit and LMSFinish / Terminate from the runtime adapter
+  app.post('/api/lms/enrollments/:enrollmentId/lessons/:lessonId/scorm', isAuthenticated, async (req: any, res) => {
+    try {
+      const { enrollmentId, lessonId } = req.params;
+      const userId = req.user.claims.sub;
+      const commit = scormCommitSchema.parse(req.body);
+
+      const isOwner = await verifyEnrollmentOwnership(enrollmentId, userId);
+      if (!isOwner) {
+        return res.status(403).json({ message: "You can only update progress for your own enrollments" });
+      }
+
+      const lesson = await storage.getLesson(lessonId);
+      const packageId = getScormPackageIdFromUrl(lesson?.scormPackageUrl);
+      const scormPackage = packageId ? await storage.getScormPackage(packageId) : undefined;
+      if (!lesson || !scormPackage) {
+        return res.status(404).json({ message: "This lesson has no imported SCORM package" });
+      }
+
+      const progress = await commitScormRuntimeData(enrollmentId, lessonId, scormPackage, commit);
+      res.json(progress);
+    } catch (error: any) {
+      if (error instanceof ScormPackageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      return handleValidationError(error, res, "save SCORM progress");
+    }
+  });
+
+  // xAPI Learning Record Store - authenticated with HTTP Basic (XAPI_LRS_KEY / XAPI_LRS_SECRET), not the session
+  app.get('/xapi/about', (req, res) => {
+    res.set("X-Experience-API-Version", XAPI_VERSION);
+    res.json({ version: [XAPI_VERSION] });
+  });
+
+  app.get('/xapi/statements', requireXapiClient, async (req: any, res) => {
+    try {
+      const outcome = await queryStatements(req.query, req.path);
+      res.set("X-Experience-API-Consistent-Through", new Date().toISOString());
+      res.json(outcome.kind === "single" ? outcome.statement : outcome.result);
+    } catch (error: any) {
+      if (error instanceof XapiRequestError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error querying xAPI statements:", error);
+      res.status(500).json({ message: "Failed to query statements" });
+    }
+  });
+
+  app.post('/xapi/statements', requireXapiClient, async (req: any, res) => {
+    try {
+      const ids = await storeClientStatements(req.body, req.xapiClientKey);
+      res.json(ids);
+    } catch (error: any) {
+      if (error instanceof XapiRequestError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error storing xAPI statements:", error);
+      res.status(500).json({ message: "Failed to store statements" });
+    }
+  });
+
+  app.put('/xapi/statements', requireXapiClient, async (req: any, res) => {
+    try {
+      const { statementId } = req.query;
+      if (typeof statementId !== "string" || !statementId) {
+        return res.status(400).json({ message: "statementId is required" });
+      }
+      await storeClientStatements(req.body, req.xapiClientKey, statementId);
+      res.status(204).end();
+    } catch (error: any) {
+      if (error instanceof XapiRequestError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error storing xAPI statement:", error);
+      res.status(500).json({ message: "Failed to store statement" });
+    }
+  });
+
+  // SCIM 2.0 provisioning - authenticated with a bearer token (SCIM_BEARER_TOKEN), not the session
+  app.use('/scim/v2', parseScimJson, requireScimToken);
+
+  app.get('/scim/v2/ServiceProviderConfig', (req, res) => {
+    sendScim(res, 200, getServiceProviderConfig(getScimBaseUrl(req)));
+  });
+
+  app.get('/scim/v2/ResourceTypes', (req, res) => {
+    sendScim(res, 200, getResourceTypes(getScimBaseUrl(req)));
+  });
+
+  app.get('/scim/v2/Users', async (req, res) => {
+    try {
+      sendScim(res, 200, await listScimUsers(getScimBaseUrl(req), req.query));
+    } catch (error) {
+      handleScimError(error, res, "list users");
+    }
+  });
+
+  app.get('/scim/v2/Users/:id', async (req, res) => {
+    try {
+      sendScim(res, 200, await getScimUser(getScimBaseUrl(req), req.params.id));
+    } catch (error) {
+      handleScimError(error, res, "fetch user");
+    }
+  });
+
+  app.post('/scim/v2/Users', async (req, res) => {
+    try {
+      sendScim(res, 201, await createScimUser(getScimBaseUrl(req), req.body));
+    } catch (error) {
+      handleScimError(error, res, "create user");
+    }
+  });
+
+  app.put('/scim/v2/Users/:id', async (req, res) => {
+    try {
+      sendScim(res, 200, await replaceScimUser(getScimBaseUrl(req), req.params.id, req.body));
+    } catch (error) {
+      handleScimError(error, res, "replace user");
+    }
+  });
+
+  app.patch('/scim/v2/Users/:id', async (req, res) => {
+    try {
+      sendScim(res, 200, await patchScimUser(getScimBaseUrl(req), req.params.id, req.body));
+    } catch (error) {
+      handleScimError(error, res, "update user");
+    }
+  });
+
+  app.delete('/scim/v2/Users/:id', async (req, res) => {
+    try {
+      await deactivateScimUser(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      handleScimError(error, res, "deactivate user");
+    }
+  });
+
+  app.get('/scim/v2/Groups', async (req, res) => {
+    try {
+      sendScim(res, 200, await listScimGroups(getScimBaseUrl(req), req.query));
+    } catch (error) {
+      handleScimError(error, res, "list groups");
+    }
+  });
+
+  app.get('/scim/v2/Groups/:id', async (req, res) => {
+    try {
+      sendScim(res, 200, await getScimGroup(getScimBaseUrl(req), req.params.id, req.query));
+    } catch (error) {
+      handleScimError(error, res, "fetch group");
+    }
+  });
+
+  app.post('/scim/v2/Groups', async (req, res) => {
+    try {
+      sendScim(res, 201, await createScimGroup(getScimBaseUrl(req), req.body));
+    } catch (error) {
+      handleScimError(error, res, "create group");
+    }
+  });
+
+  app.put('/scim/v2/Groups/:id', async (req, res) => {
+    try {
+      sendScim(res, 200, await replaceScimGroup(getScimBaseUrl(req), req.params.id, req.body));
+    } catch (error) {
+      handleScimError(error, res, "replace group");
+    }
+  });
+
+  app.patch('/scim/v2/Groups/:id', async (req, res) => {
+    try {
+      sendScim(res, 200, await patchScimGroup(getScimBaseUrl(req), req.params.id, req.body));
+    } catch (error) {
+      handleScimError(error, res, "update group");
+    }
+  });
+
+  app.delete('/scim/v2/Groups/:id', async (req, res) => {
+    try {
+      await deleteScimGroup(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      handleScimError(error, res, "delete group");
+    }
+  });
+
   // Quizzes and Assessments
   app.get('/api/lms/lessons/:lessonId/quiz', isAuthenticated, async (req, res) => {
     try {
@@ -5534,7 +6817,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all quizzes for a specific lesson (for assessment viewing)
-  app.get('/api/lms/lessons/:lessonId/quizzes', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.get('/api/lms/lessons/:lessonId/quizzes', isAuthenticated, requirePermission('course.author'), async (req, res) => {
     try {
       const { lessonId } = req.params;
       const quizzes = await storage.getQuizzesByLesson(lessonId);
@@ -5551,14 +6834,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { quizId } = req.params;
       const { enrollmentId, attemptNumber } = req.body;
       
-      // Prevent starting quizzes with no questions
-      const questions = await storage.getQuizQuestions(quizId);
-      if (questions.length === 0) {
-        return res.status(400).json({ 
-          message: "This quiz has no questions and cannot be started. Please contact your instructor to add questions first." 
-        });
-      }
-      
       // Verify enrollment ownership before allowing quiz attempt
       if (enrollmentId) {
         const isOwner = await verifyEnrollmentOwnership(enrollmentId, userId);
@@ -5567,6 +6842,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      // Reconnecting resumes the open attempt with its saved answers; one left past its deadline is closed first
+      const openAttempt = await storage.getOpenQuizAttempt(userId, quizId);
+      if (openAttempt) {
+        if (!isPastSubmissionDeadline(openAttempt)) {
+          return res.json(toTimedLearnerAttempt(openAttempt));
+        }
+        await closeExpiredQuizAttempt(openAttempt).catch(error => {
+          if (!(error instanceof QuizAttemptClosedError)) throw error;
+        });
+      }
+      
       const attemptData = insertQuizAttemptSchema.parse({
         quizId,
         userId,
@@ -5574,9 +6860,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         attemptNumber,
       });
       
+      // The drawn questions come back on the attempt, without their answer keys
       const attempt = await storage.startQuizAttempt(attemptData);
-      res.json(attempt);
+      res.json(toTimedLearnerAttempt(attempt));
     } catch (error: any) {
+      // Quizzes with no questions, or draw rules their banks can't satisfy
+      if (error instanceof QuizDrawError) {
+        return res.status(400).json({ message: error.message });
+      }
       return handleValidationError(error, res, "start quiz attempt");
     }
   });
@@ -5584,63 +6875,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/lms/quiz-attempts/:attemptId/submit', isAuthenticated, async (req: any, res) => {
     try {
       const { attemptId } = req.params;
-      const { answers, timeSpent } = req.body;
+      const { answers } = req.body;
       const userId = req.user.claims.sub;
+      const submittedAt = new Date();
       
       // Verify quiz attempt ownership
-      const isOwner = await verifyQuizAttemptOwnership(attemptId, userId);
-      if (!isOwner) {
+      const existingAttempt = await storage.getQuizAttempt(attemptId);
+      if (!existingAttempt || existingAttempt.userId !== userId) {
         return res.status(403).json({ message: "You can only submit your own quiz attempts" });
       }
+      if (!isQuizAttemptOpen(existingAttempt)) {
+        return res.status(409).json({ message: "This quiz attempt has already been closed", attempt: toLearnerQuizAttempt(existingAttempt) });
+      }
       
-      const attempt = await storage.submitQuizAttempt(attemptId, answers, timeSpent);
-      
-      // If quiz passed, update lesson progress
-      if (attempt.passed && attempt.enrollmentId) {
-        await storage.updateLessonProgressFromQuiz(attempt.enrollmentId, attempt.quizId, userId);
+      // Answers sent after the deadline are refused; the attempt closes on what was autosaved in time
+      if (isPastSubmissionDeadline(existingAttempt, submittedAt)) {
+        const closed = await closeExpiredQuizAttempt(existingAttempt, submittedAt);
+        console.log(`[AUDIT] Late submission for quiz attempt ${attemptId} refused ${closed.overrunSeconds}s past the deadline by ${userId}`);
+        return res.status(409).json({ message: describeExpiredAttempt(closed), attempt: toLearnerQuizAttempt(closed) });
       }
       
-      // Trigger quiz result notification
-      try {
-        // Fetch real lesson title from database
-        const quiz = await storage.getQuizById(attempt.quizId);
-        const lesson = quiz ? await storage.getLesson(quiz.lessonId) : null;
-        const lessonTitle = lesson?.title || "Lesson";
-        const score = attempt.score || 0;
-        
-        if (attempt.passed) {
-          await storage.notifyQuizPassed(userId, lessonTitle, score, attempt.quizId);
-        } else {
-          await storage.notifyQuizFailed(userId, lessonTitle, score, attempt.quizId);
-        }
-      } catch (notifyError) {
-        console.error("Failed to send quiz result notification:", notifyError);
+      // Time spent is measured on the server; submissions inside the grace period record how far over they ran
+      const overrunSeconds = getOverrunSeconds(existingAttempt, submittedAt);
+      const attempt = await storage.submitQuizAttempt(
+        attemptId,
+        quizAnswerSchema.parse(answers ?? {}),
+        getAttemptTimeSpent(existingAttempt, submittedAt),
+        { overrunSeconds: overrunSeconds > 0 ? overrunSeconds : null },
+      );
+      
+      // Attempts with essays wait in the grading queue; the outcome is applied when a supervisor grades them
+      if (attempt.gradingStatus !== "pending_grading") {
+        await applyQuizAttemptOutcome(attempt);
       }
       
-      res.json(attempt);
+      res.json(toLearnerQuizAttempt(attempt));
     } catch (error: any) {
+      if (error instanceof QuizAttemptClosedError) {
+        return res.status(409).json({ message: error.message });
+      }
       return handleValidationError(error, res, "submit quiz attempt");
     }
   });
 
-  // Certificates and Badges
-  app.get('/api/lms/certificates/me', isAuthenticated, async (req: any, res) => {
+  // Autosave for in-progress answers so a refresh or dropped connection doesn't lose them
+  app.put('/api/lms/quiz-attempts/:attemptId/answers', isAuthenticated, async (req: any, res) => {
     try {
+      const { attemptId } = req.params;
       const userId = req.user.claims.sub;
-      const certificates = await storage.getUserCertificates(userId);
-      res.json(certificates);
-    } catch (error) {
-      console.error("Error fetching certificates:", error);
-      res.status(500).json({ message: "Failed to fetch certificates" });
-    }
-  });
+      const { answers } = quizAttemptAnswersSchema.parse(req.body);
 
-  // Get specific certificate by ID
-  app.get('/api/lms/certificates/:certificateId', isAuthenticated, async (req: any, res) => {
-    try {
-      const { certificateId } = req.params;
-      const certificate = await storage.getCertificate(certificateId);
-      
+      const existingAttempt = await storage.getQuizAttempt(attemptId);
+      if (!existingAttempt || existingAttempt.userId !== userId) {
+        return res.status(403).json({ message: "You can only save your own quiz attempts" });
+      }
+      if (!isQuizAttemptOpen(existingAttempt)) {
+        return res.status(409).json({ message: "This quiz attempt has already been closed", attempt: toLearnerQuizAttempt(existingAttempt) });
+      }
+      if (isPastSubmissionDeadline(existingAttempt)) {
+        const closed = await closeExpiredQuizAttempt(existingAttempt);
+        return res.status(409).json({ message: describeExpiredAttempt(closed), attempt: toLearnerQuizAttempt(closed) });
+      }
+
+      const saved = await storage.saveQuizAttemptAnswers(attemptId, answers);
+      if (!saved) {
+        return res.status(409).json({ message: "This quiz attempt has already been closed" });
+      }
+      res.json({ lastSavedAt: saved.lastSavedAt, secondsRemaining: getSecondsRemaining(saved) });
+    } catch (error: any) {
+      if (error instanceof QuizAttemptClosedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      return handleValidationError(error, res, "save quiz answers");
+    }
+  });
+
+  // Review a submitted attempt against the questions it was actually given.
+  // Learners see which answers were right; answer keys are only shown to supervisors and leadership.
+  app.get('/api/lms/quiz-attempts/:attemptId/review', isAuthenticated, async (req: any, res) => {
+    try {
+      const { attemptId } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const canSeeAnswerKey = user?.role === 'supervisor' || user?.role === 'leadership';
+
+      const attempt = await storage.getQuizAttempt(attemptId);
+      if (!attempt) {
+        return res.status(404).json({ message: "Quiz attempt not found" });
+      }
+      if (attempt.userId !== userId && !canSeeAnswerKey) {
+        return res.status(403).json({ message: "You can only review your own quiz attempts" });
+      }
+      if (!attempt.completedAt) {
+        return res.status(400).json({ message: "This attempt has not been submitted yet" });
+      }
+
+      res.json({
+        attempt: canSeeAnswerKey ? attempt : toLearnerQuizAttempt(attempt),
+        results: getAttemptQuestionResults(attempt),
+      });
+    } catch (error: any) {
+      return handleValidationError(error, res, "review quiz attempt");
+    }
+  });
+
+  // Public certificate verification (no authentication - used by auditors and the QR code on printed certificates)
+  app.get('/api/verify/signing-key', async (req, res) => {
+    try {
+      res.json(getCertificateSigningPublicKey());
+    } catch (error) {
+      console.error("Error fetching certificate signing key:", error);
+      res.status(500).json({ message: "Failed to fetch certificate signing key" });
+    }
+  });
+
+  app.get('/api/verify/:verificationId', async (req, res) => {
+    try {
+      const verification = await getCertificateVerification(req.params.verificationId);
+      
+      if (!verification) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+      
+      res.set('Cache-Control', 'no-store');
+      res.json(verification);
+    } catch (error) {
+      console.error("Error verifying certificate:", error);
+      res.status(500).json({ message: "Failed to verify certificate" });
+    }
+  });
+
+  // Certificates and Badges
+  app.get('/api/lms/certificates/me', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const certificates = await storage.getUserCertificates(userId);
+      res.json(certificates);
+    } catch (error) {
+      console.error("Error fetching certificates:", error);
+      res.status(500).json({ message: "Failed to fetch certificates" });
+    }
+  });
+
+  // Get specific certificate by ID
+  app.get('/api/lms/certificates/:certificateId', isAuthenticated, async (req: any, res) => {
+    try {
+      const { certificateId } = req.params;
+      const certificate = await storage.getCertificate(certificateId);
+      
       if (!certificate) {
         return res.status(404).json({ message: "Certificate not found" });
       }
@@ -5660,6 +7042,289 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Printable certificate PDF with a QR code linking to the public verify page
+  app.get('/api/lms/certificates/:certificateId/pdf', isAuthenticated, async (req: any, res) => {
+    try {
+      const { certificateId } = req.params;
+      const details = await storage.getCertificateDetails({ certificateId });
+      
+      if (!details) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+
+      const requestingUserId = req.user.claims.sub;
+      const currentUser = await storage.getUser(requestingUserId);
+      
+      if (details.certificate.userId !== requestingUserId && currentUser?.role !== 'supervisor' && currentUser?.role !== 'leadership') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const verifyUrl = `${req.protocol}://${req.get('host')}/verify/${encodeURIComponent(details.certificate.verificationHash ?? '')}`;
+      const template = details.certificate.templateId ? await storage.getCertificateTemplate(details.certificate.templateId) : undefined;
+      const pdf = await renderCertificatePdf(details, verifyUrl, template);
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="certificate-${details.certificate.certificateNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating certificate PDF:", error);
+      res.status(500).json({ message: "Failed to generate certificate PDF" });
+    }
+  });
+
+  // Certificate revocation and reissue. A team or department grant covers the certificates of people in it.
+  const certificateHolder = async (req: any): Promise<PermissionTarget | null> => {
+    const certificate = await storage.getCertificate(req.params.certificateId);
+    return certificate ? { userId: certificate.userId } : null;
+  };
+
+  app.post('/api/lms/certificates/:certificateId/revoke', isAuthenticated, requirePermission('talent.manage', certificateHolder), async (req: any, res) => {
+    try {
+      const { certificateId } = req.params;
+      const { reason } = certificateRevocationSchema.parse(req.body);
+      const revokedBy = req.user.claims.sub;
+
+      const existing = await storage.getCertificateDetails({ certificateId });
+      if (!existing) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+      if (existing.certificate.revokedAt) {
+        return res.status(409).json({ message: "Certificate is already revoked" });
+      }
+
+      const result = await storage.revokeCertificate(certificateId, reason, revokedBy);
+      console.log(`[AUDIT] Certificate revoked: ${certificateId} (${existing.certificate.certificateNumber}) by ${revokedBy} - ${reason}`);
+
+      res.json(result);
+    } catch (error: any) {
+      return handleValidationError(error, res, "revoke certificate");
+    }
+  });
+
+  app.post('/api/lms/certificates/:certificateId/reissue', isAuthenticated, requirePermission('talent.manage', certificateHolder), async (req: any, res) => {
+    try {
+      const { certificateId } = req.params;
+      const { reason, expiresAt } = certificateReissueSchema.parse(req.body);
+      const reissuedBy = req.user.claims.sub;
+
+      const existing = await storage.getCertificateDetails({ certificateId });
+      if (!existing) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+      if (existing.certificate.revokedAt) {
+        return res.status(409).json({ message: "Revoked certificates cannot be reissued" });
+      }
+
+      const result = await storage.reissueCertificate(
+        certificateId,
+        reason,
+        reissuedBy,
+        expiresAt === undefined ? undefined : expiresAt === null ? null : new Date(expiresAt)
+      );
+      console.log(`[AUDIT] Certificate reissued: ${certificateId} → ${result.reissued.id} (${result.reissued.certificateNumber}) by ${reissuedBy} - ${reason}`);
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      return handleValidationError(error, res, "reissue certificate");
+    }
+  });
+
+  app.get('/api/lms/certificates/:certificateId/audit-log', isAuthenticated, requirePermission('talent.manage', certificateHolder), async (req, res) => {
+    try {
+      const auditLog = await storage.getCertificateAuditLog(req.params.certificateId);
+      res.json(auditLog);
+    } catch (error) {
+      console.error("Error fetching certificate audit log:", error);
+      res.status(500).json({ message: "Failed to fetch certificate audit log" });
+    }
+  });
+
+  // Bulk revoke everything issued against a withdrawn course version
+  app.post('/api/lms/course-versions/:courseVersionId/certificates/revoke', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
+    try {
+      const { courseVersionId } = req.params;
+      const { reason } = certificateRevocationSchema.parse(req.body);
+      const revokedBy = req.user.claims.sub;
+
+      const result = await storage.bulkRevokeCertificatesByCourseVersion(courseVersionId, reason, revokedBy);
+      console.log(`[AUDIT] Bulk certificate revocation ${result.bulkOperationId}: ${result.revoked.length} certificates for course version ${courseVersionId} by ${revokedBy} - ${reason}`);
+
+      res.json({
+        bulkOperationId: result.bulkOperationId,
+        revokedCount: result.revoked.length,
+        trainingMatrixUpdates: result.trainingMatrixUpdates,
+        revokedCertificateIds: result.revoked.map(c => c.id)
+      });
+    } catch (error: any) {
+      return handleValidationError(error, res, "bulk revoke certificates");
+    }
+  });
+
+  // Certificate templates - stored designs assigned to courses and learning paths
+  app.get('/api/certificate-templates', isAuthenticated, requirePermission('talent.manage', organizationWide), async (_req, res) => {
+    try {
+      res.json(await storage.getCertificateTemplates());
+    } catch (error) {
+      console.error("Error fetching certificate templates:", error);
+      res.status(500).json({ message: "Failed to fetch certificate templates" });
+    }
+  });
+
+  app.get('/api/certificate-templates/variables', isAuthenticated, requirePermission('talent.manage', organizationWide), async (_req, res) => {
+    res.json({ variables: CERTIFICATE_LAYOUT_VARIABLES, standardLayout: getStandardCertificateLayout() });
+  });
+
+  // Upload URL for a background, logo or signature image; the returned objectPath goes into the layout
+  app.post('/api/certificate-templates/images', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
+    try {
+      const { filename } = req.body;
+      if (!filename || typeof filename !== "string") {
+        return res.status(400).json({ message: "Filename is required" });
+      }
+      const objectStorageService = new ObjectStorageService();
+      res.json(await objectStorageService.getCertificateTemplateImageUploadURL(filename));
+    } catch (error: any) {
+      console.error("Error getting certificate template image upload URL:", error);
+      res.status(400).json({ message: error.message || "Failed to get image upload URL" });
+    }
+  });
+
+  app.post('/api/certificate-templates', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
+    try {
+      const currentUserId = req.user.claims.sub;
+      const data = certificateTemplateSchema.parse(req.body);
+      const layout = data.layout ?? getStandardCertificateLayout();
+      validateCertificateTemplate({ title: data.title, bodyText: data.bodyText, layout });
+
+      const template = await storage.createCertificateTemplate({ ...data, layout, createdBy: currentUserId });
+      console.log(`[AUDIT] User ${currentUserId} created ${template.certificateType} certificate template ${template.id} (${template.name})`);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof CertificateTemplateError) return sendCertificateTemplateError(error, res);
+      return handleValidationError(error, res, "create certificate template");
+    }
+  });
+
+  app.patch('/api/certificate-templates/:id', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
+    try {
+      const existing = await storage.getCertificateTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Certificate template not found" });
+      }
+      const updates = certificateTemplateSchema.partial().parse(req.body);
+      if (updates.title !== undefined || updates.bodyText !== undefined || updates.layout !== undefined) {
+        validateCertificateTemplate({
+          title: updates.title ?? existing.title,
+          bodyText: updates.bodyText ?? existing.bodyText,
+          layout: updates.layout ?? parseCertificateLayout(existing),
+        });
+      }
+
+      const template = await storage.updateCertificateTemplate(existing.id, updates);
+      console.log(`[AUDIT] User ${req.user.claims.sub} updated certificate template ${existing.id}`);
+      res.json(template);
+    } catch (error) {
+      if (error instanceof CertificateTemplateError) return sendCertificateTemplateError(error, res);
+      return handleValidationError(error, res, "update certificate template");
+    }
+  });
+
+  // Issued certificates keep printing with their template, so a template in use can only be deactivated
+  app.delete('/api/certificate-templates/:id', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
+    try {
+      const existing = await storage.getCertificateTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Certificate template not found" });
+      }
+      if (existing.usage.totalIssued > 0) {
+        return res.status(409).json({ message: `${existing.usage.totalIssued} certificate(s) were issued with this template. Deactivate it instead.` });
+      }
+      await storage.deleteCertificateTemplate(existing.id);
+      console.log(`[AUDIT] User ${req.user.claims.sub} deleted certificate template ${existing.id} (${existing.name})`);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting certificate template:", error);
+      res.status(500).json({ message: "Failed to delete certificate template" });
+    }
+  });
+
+  app.put('/api/certificate-templates/:id/assignments', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
+    try {
+      const existing = await storage.getCertificateTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Certificate template not found" });
+      }
+      const assignments = certificateTemplateAssignmentsSchema.parse(req.body);
+      const saved = await storage.setCertificateTemplateAssignments(existing.id, assignments, req.user.claims.sub);
+      console.log(`[AUDIT] User ${req.user.claims.sub} assigned certificate template ${existing.id} to ${assignments.courseIds.length} course(s) and ${assignments.learningPathIds.length} learning path(s)`);
+      res.json(saved);
+    } catch (error: any) {
+      if (error?.code === '23503') {
+        return res.status(400).json({ message: "One or more courses or learning paths do not exist" });
+      }
+      return handleValidationError(error, res, "assign certificate template");
+    }
+  });
+
+  // Renders a template, saved or not, with sample holder data
+  app.post('/api/certificate-templates/preview', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
+    try {
+      const data = certificateTemplateSchema.parse(req.body);
+      const layout = data.layout ?? getStandardCertificateLayout();
+      validateCertificateTemplate({ title: data.title, bodyText: data.bodyText, layout });
+
+      const now = new Date();
+      const details = getSampleCertificateDetails({ certificateType: data.certificateType, validityPeriod: data.validityPeriod ?? null }, now);
+      const verifyUrl = `${req.protocol}://${req.get('host')}/verify/${encodeURIComponent(details.certificate.verificationHash ?? '')}`;
+      const pdf = await renderCertificatePdf(details, verifyUrl, {
+        ...data,
+        id: "preview",
+        description: data.description ?? null,
+        validityPeriod: data.validityPeriod ?? null,
+        branding: data.branding ?? null,
+        layout,
+        createdBy: req.user.claims.sub,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', 'inline; filename="certificate-preview.pdf"');
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof CertificateTemplateError) return sendCertificateTemplateError(error, res);
+      return handleValidationError(error, res, "preview certificate template");
+    }
+  });
+
+  // Every issued certificate, with holder and template, for certificate administration
+  app.get('/api/certificates', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
+    try {
+      const query = issuedCertificatesQuerySchema.parse(req.query);
+      const certificates = await storage.getIssuedCertificates({
+        search: query.search || undefined,
+        status: query.status,
+        certificateType: query.type || undefined,
+        templateId: query.templateId || undefined,
+        limit: query.limit,
+      });
+      res.json(certificates);
+    } catch (error) {
+      return handleValidationError(error, res, "fetch certificates");
+    }
+  });
+
+  // Issuance by template, course, learning path and month
+  app.get('/api/certificates/analytics', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
+    try {
+      const months = Math.min(Math.max(parseInt(req.query.months as string) || 12, 1), 36);
+      res.json(await storage.getCertificateIssuanceAnalytics(new Date(), months));
+    } catch (error) {
+      console.error("Error fetching certificate analytics:", error);
+      res.status(500).json({ message: "Failed to fetch certificate analytics" });
+    }
+  });
+
   app.get('/api/lms/badges/me', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -5785,7 +7450,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ======================
 
   // Admin Course Management
-  app.get('/api/lms/admin/courses', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.get('/api/lms/admin/courses', isAuthenticated, requirePermission('course.author'), async (req, res) => {
     try {
       const courses = await storage.getAdminCourses();
       res.json(courses);
@@ -5796,7 +7461,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get lessons for a specific course (admin endpoint)
-  app.get('/api/lms/courses/:courseId/lessons', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.get('/api/lms/courses/:courseId/lessons', isAuthenticated, requirePermission('course.author'), async (req, res) => {
     try {
       const { courseId } = req.params;
       const lessons = await storage.getLessonsByCourse(courseId);
@@ -5809,7 +7474,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // Get quizzes for a specific course (admin endpoint)
-  app.get('/api/lms/courses/:courseId/quizzes', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.get('/api/lms/courses/:courseId/quizzes', isAuthenticated, requirePermission('course.author'), async (req, res) => {
     try {
       const { courseId } = req.params;
       const quizzes = await storage.getQuizzesByCourse(courseId);
@@ -5820,7 +7485,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/lms/admin/courses', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/lms/admin/courses', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const courseData = insertCourseSchema.parse({ ...req.body, createdBy: userId });
@@ -5831,7 +7496,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/lms/admin/courses/:id', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.patch('/api/lms/admin/courses/:id', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
     try {
       const { id } = req.params;
       const updateData = insertCourseSchema.partial().parse(req.body);
@@ -5843,7 +7508,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // LMS Data Migration Route
-  app.post('/api/lms/admin/migrate-legacy-courses', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/lms/admin/migrate-legacy-courses', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
     try {
       const result = await storage.migrateLegacyCourses();
       res.json({ 
@@ -5857,7 +7522,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin Lesson Management
-  app.post('/api/lms/admin/courses/:courseId/lessons', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/lms/admin/courses/:courseId/lessons', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
     try {
       const { courseId } = req.params;
       
@@ -5923,7 +7588,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update lesson
-  app.put('/api/lms/admin/lessons/:lessonId', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.put('/api/lms/admin/lessons/:lessonId', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
     try {
       const { lessonId } = req.params;
       
@@ -5987,7 +7652,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Admin Quiz Management
   // Get all quizzes across all courses (for "All Courses" functionality)
-  app.get('/api/lms/admin/quizzes', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.get('/api/lms/admin/quizzes', isAuthenticated, requirePermission('course.author'), async (req, res) => {
     try {
       const quizzes = await storage.getAllQuizzes();
       res.json(quizzes);
@@ -5998,7 +7663,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create quiz for a specific lesson
-  app.post('/api/lms/admin/lessons/:lessonId/quiz', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/lms/admin/lessons/:lessonId/quiz', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
     try {
       const { lessonId } = req.params;
       
@@ -6034,7 +7699,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Legacy route for backward compatibility - creates quiz on default lesson
-  app.post('/api/lms/admin/courses/:courseId/quizzes', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/lms/admin/courses/:courseId/quizzes', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
     try {
       const { courseId } = req.params;
       
@@ -6083,7 +7748,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update quiz
-  app.put('/api/lms/admin/quizzes/:quizId', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.put('/api/lms/admin/quizzes/:quizId', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
     try {
       const { quizId } = req.params;
       
@@ -6099,6 +7764,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.body.description !== undefined) updateData.description = req.body.description;
       if (req.body.passingScore !== undefined) updateData.passingScore = req.body.passingScore;
       if (req.body.timeLimit !== undefined) updateData.timeLimit = req.body.timeLimit;
+      if (req.body.expiryAction !== undefined) updateData.expiryAction = z.enum(QUIZ_EXPIRY_ACTIONS).parse(req.body.expiryAction);
       if (req.body.maxAttempts !== undefined) updateData.maxAttempts = req.body.maxAttempts;
       if (req.body.randomizeQuestions !== undefined) updateData.randomizeQuestions = req.body.randomizeQuestions;
       
@@ -6111,7 +7777,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin Quiz Question Management
-  app.get('/api/lms/admin/quizzes/:quizId/questions', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.get('/api/lms/admin/quizzes/:quizId/questions', isAuthenticated, requirePermission('course.author'), async (req, res) => {
     try {
       const { quizId } = req.params;
       const questions = await storage.getQuizQuestions(quizId);
@@ -6121,7 +7787,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/lms/admin/quizzes/:quizId/questions', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/lms/admin/quizzes/:quizId/questions', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
     try {
       const { quizId } = req.params;
       const { questions } = req.body;
@@ -6130,26 +7796,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Questions must be an array" });
       }
 
-      // First delete existing questions
-      const existingQuestions = await storage.getQuizQuestions(quizId);
-      for (const question of existingQuestions) {
-        await storage.deleteQuizQuestion(question.id);
-      }
-
       // Create new questions with proper validation
       const questionsData = questions.map((q: any, index: number) => {
         const questionData = insertQuizQuestionSchema.parse({
           quizId,
           type: q.type,
           questionText: q.questionText,
-          options: q.options || [],
-          correctAnswers: q.correctAnswers || [],
+          options: q.options ?? [],
+          correctAnswers: q.correctAnswers ?? [],
           explanation: q.explanation || "",
           orderIndex: q.orderIndex || index + 1,
         });
         return questionData;
       });
 
+      // Check answer keys before touching the existing questions
+      const answerKeyIssues = questionsData.map(question => validateAnswerKey(question.type, question.options, question.correctAnswers));
+      const invalidIndex = answerKeyIssues.findIndex(issue => issue !== null);
+      if (invalidIndex !== -1) {
+        return res.status(400).json({ message: `Question ${invalidIndex + 1}: ${answerKeyIssues[invalidIndex]}` });
+      }
+
+      // Then replace the existing questions
+      const existingQuestions = await storage.getQuizQuestions(quizId);
+      for (const question of existingQuestions) {
+        await storage.deleteQuizQuestion(question.id);
+      }
+
       const createdQuestions = await storage.createQuizQuestions(questionsData);
       res.json(createdQuestions);
     } catch (error: any) {
@@ -6157,6 +7830,187 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin Question Bank Management
+  app.get('/api/lms/admin/question-banks', isAuthenticated, requirePermission('course.author'), async (req, res) => {
+    try {
+      const banks = await storage.getQuestionBanks();
+      res.json(banks);
+    } catch (error) {
+      console.error("Error fetching question banks:", error);
+      res.status(500).json({ message: "Failed to fetch question banks" });
+    }
+  });
+
+  app.post('/api/lms/admin/question-banks', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bankData = questionBankBodySchema.parse(req.body);
+      const bank = await storage.createQuestionBank({ ...bankData, createdBy: userId });
+      console.log(`[AUDIT] Question bank ${bank.id} created by ${userId}`);
+      res.status(201).json(bank);
+    } catch (error: any) {
+      return handleValidationError(error, res, "create question bank");
+    }
+  });
+
+  app.put('/api/lms/admin/question-banks/:bankId', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
+    try {
+      const { bankId } = req.params;
+      const existingBank = await storage.getQuestionBank(bankId);
+      if (!existingBank) {
+        return res.status(404).json({ message: "Question bank not found" });
+      }
+
+      const updates = questionBankBodySchema.partial().parse(req.body);
+      const bank = await storage.updateQuestionBank(bankId, updates);
+      res.json(bank);
+    } catch (error: any) {
+      return handleValidationError(error, res, "update question bank");
+    }
+  });
+
+  app.delete('/api/lms/admin/question-banks/:bankId', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { bankId } = req.params;
+      const existingBank = await storage.getQuestionBank(bankId);
+      if (!existingBank) {
+        return res.status(404).json({ message: "Question bank not found" });
+      }
+
+      // Quizzes drawing from the bank would no longer be startable
+      const rules = await storage.getQuizDrawRulesForBank(bankId);
+      if (rules.length > 0) {
+        return res.status(409).json({
+          message: `This question bank is used by ${rules.length} quiz draw rule(s). Remove those rules or deactivate the bank instead.`
+        });
+      }
+
+      await storage.deleteQuestionBank(bankId);
+      console.log(`[AUDIT] Question bank ${bankId} deleted by ${userId}`);
+      res.json({ message: "Question bank deleted successfully" });
+    } catch (error: any) {
+      return handleValidationError(error, res, "delete question bank");
+    }
+  });
+
+  app.get('/api/lms/admin/question-banks/:bankId/questions', isAuthenticated, requirePermission('course.author'), async (req, res) => {
+    try {
+      const { bankId } = req.params;
+      const questions = await storage.getQuestionBankQuestions(bankId);
+      res.json(questions);
+    } catch (error: any) {
+      return handleValidationError(error, res, "get question bank questions");
+    }
+  });
+
+  app.post('/api/lms/admin/question-banks/:bankId/questions', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
+    try {
+      const { bankId } = req.params;
+      const bank = await storage.getQuestionBank(bankId);
+      if (!bank) {
+        return res.status(404).json({ message: "Question bank not found" });
+      }
+
+      // Accepts a single question or { questions: [...] } for bulk entry
+      const questionsInput = Array.isArray(req.body?.questions) ? req.body.questions : [req.body];
+      const questionsData = questionsInput.map((question: unknown) => ({
+        ...questionBankQuestionBodySchema.parse(question),
+        bankId,
+      }));
+      const answerKeyIssues = questionsData.map((question: InsertQuestionBankQuestion) => validateAnswerKey(question.type, question.options, question.correctAnswers));
+      const invalidIndex = answerKeyIssues.findIndex((issue: string | null) => issue !== null);
+      if (invalidIndex !== -1) {
+        const issue = answerKeyIssues[invalidIndex];
+        return res.status(400).json({ message: questionsData.length > 1 ? `Question ${invalidIndex + 1}: ${issue}` : issue });
+      }
+
+      const createdQuestions = await storage.createQuestionBankQuestions(questionsData);
+      res.status(201).json(createdQuestions);
+    } catch (error: any) {
+      return handleValidationError(error, res, "create question bank questions");
+    }
+  });
+
+  // Edits only affect future draws; attempts keep the copy they were given
+  app.put('/api/lms/admin/question-bank-questions/:questionId', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
+    try {
+      const { questionId } = req.params;
+      const existingQuestion = await storage.getQuestionBankQuestion(questionId);
+      if (!existingQuestion) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      const updates = questionBankQuestionBodySchema.partial().parse(req.body);
+      const issue = validateAnswerKey(
+        updates.type ?? existingQuestion.type,
+        updates.options !== undefined ? updates.options : existingQuestion.options,
+        updates.correctAnswers !== undefined ? updates.correctAnswers : existingQuestion.correctAnswers,
+      );
+      if (issue) {
+        return res.status(400).json({ message: issue });
+      }
+
+      const question = await storage.updateQuestionBankQuestion(questionId, updates);
+      res.json(question);
+    } catch (error: any) {
+      return handleValidationError(error, res, "update question bank question");
+    }
+  });
+
+  app.delete('/api/lms/admin/question-bank-questions/:questionId', isAuthenticated, requirePermission('course.author'), async (req, res) => {
+    try {
+      const { questionId } = req.params;
+      const existingQuestion = await storage.getQuestionBankQuestion(questionId);
+      if (!existingQuestion) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      await storage.deleteQuestionBankQuestion(questionId);
+      res.json({ message: "Question deleted successfully" });
+    } catch (error: any) {
+      return handleValidationError(error, res, "delete question bank question");
+    }
+  });
+
+  // Quiz draw rules - returned with the number of bank questions each rule can currently draw from
+  app.get('/api/lms/admin/quizzes/:quizId/draw-rules', isAuthenticated, requirePermission('course.author'), async (req, res) => {
+    try {
+      const { quizId } = req.params;
+      const rules = await storage.getQuizDrawRuleAvailability(quizId);
+      res.json(rules);
+    } catch (error: any) {
+      return handleValidationError(error, res, "get quiz draw rules");
+    }
+  });
+
+  app.put('/api/lms/admin/quizzes/:quizId/draw-rules', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { quizId } = req.params;
+      const quiz = await storage.getQuizById(quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+
+      const { rules } = quizDrawRulesSchema.parse(req.body);
+      for (const rule of rules) {
+        const bank = await storage.getQuestionBank(rule.bankId);
+        if (!bank) {
+          return res.status(400).json({ message: `Question bank ${rule.bankId} not found` });
+        }
+      }
+
+      // Rules may be saved before their banks are filled; the availability counts show any shortfall
+      await storage.replaceQuizDrawRules(quizId, rules.map(rule => ({ ...rule, quizId })));
+      const savedRules = await storage.getQuizDrawRuleAvailability(quizId);
+      console.log(`[AUDIT] Draw rules for quiz ${quizId} replaced (${savedRules.length} rules) by ${userId}`);
+      res.json(savedRules);
+    } catch (error: any) {
+      return handleValidationError(error, res, "save quiz draw rules");
+    }
+  });
+
   app.get('/api/lms/quizzes/:quizId/questions', isAuthenticated, async (req, res) => {
     try {
       const { quizId } = req.params;
@@ -6181,19 +8035,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(questionsForTaking);
     } catch (error: any) {
-      return handleValidationError(error, res, "get quiz questions for taking");
+      return handleValidationError(error, res, "get quiz questions for taking");
+    }
+  });
+
+  // Grading queue - submitted attempts whose essay answers need a supervisor's grade
+  // Graders with a team or department grant only see the attempts of people in it
+  app.get('/api/lms/grading-queue', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const grants = user ? await getPermissionGrants(user) : [];
+      if (!grants.some(grant => grant.permissions.includes('course.author'))) {
+        return res.status(403).json({ message: "Access denied. Required permission: course.author" });
+      }
+
+      const queue = await storage.getPendingGradingAttempts();
+      const visible: typeof queue = [];
+      for (const item of queue) {
+        if (await hasPermission(grants, 'course.author', { userId: item.attempt.userId })) visible.push(item);
+      }
+      res.json(visible);
+    } catch (error) {
+      console.error("Error fetching grading queue:", error);
+      res.status(500).json({ message: "Failed to fetch grading queue" });
+    }
+  });
+
+  app.post('/api/lms/grading-queue/:attemptId/grade', isAuthenticated, requirePermission('course.author', async (req) => {
+    const attempt = await storage.getQuizAttempt(req.params.attemptId);
+    return attempt ? { userId: attempt.userId } : null;
+  }), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { attemptId } = req.params;
+      const { grades } = quizGradeSchema.parse(req.body);
+
+      const existingAttempt = await storage.getQuizAttempt(attemptId);
+      if (!existingAttempt) {
+        return res.status(404).json({ message: "Quiz attempt not found" });
+      }
+      if (existingAttempt.userId === userId) {
+        return res.status(403).json({ message: "You cannot grade your own quiz attempt" });
+      }
+
+      const attempt = await storage.gradeQuizAttempt(attemptId, grades, userId);
+      await applyQuizAttemptOutcome(attempt);
+      console.log(`[AUDIT] Quiz attempt ${attemptId} graded (${attempt.score}%, ${attempt.passed ? "passed" : "failed"}) by ${userId}`);
+      res.json(attempt);
+    } catch (error: any) {
+      if (error instanceof QuizGradingError) {
+        return res.status(409).json({ message: error.message });
+      }
+      return handleValidationError(error, res, "grade quiz attempt");
+    }
+  });
+
+  app.get('/api/lms/quizzes/:quizId/attempts/me', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { quizId } = req.params;
+      
+      const attempts = await storage.getUserQuizAttempts(userId, quizId);
+      res.json(attempts.map(toLearnerQuizAttempt));
+    } catch (error: any) {
+      return handleValidationError(error, res, "get user quiz attempts");
+    }
+  });
+
+  // The learner's resumable attempt, or null. An open attempt past its deadline is closed rather than returned.
+  app.get('/api/lms/quizzes/:quizId/attempts/active', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { quizId } = req.params;
+
+      const attempt = await storage.getOpenQuizAttempt(userId, quizId);
+      if (!attempt) {
+        return res.json(null);
+      }
+      if (isPastSubmissionDeadline(attempt)) {
+        await closeExpiredQuizAttempt(attempt).catch(error => {
+          if (!(error instanceof QuizAttemptClosedError)) throw error;
+        });
+        return res.json(null);
+      }
+      res.json(toTimedLearnerAttempt(attempt));
+    } catch (error: any) {
+      return handleValidationError(error, res, "get active quiz attempt");
     }
   });
 
-  app.get('/api/lms/quizzes/:quizId/attempts/me', isAuthenticated, async (req: any, res) => {
+  // Every attempt on a quiz with its deadline, autosave and overrun details, for auditors
+  app.get('/api/lms/admin/quizzes/:quizId/attempts', isAuthenticated, requirePermission('course.author'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
       const { quizId } = req.params;
-      
-      const attempts = await storage.getUserQuizAttempts(userId, quizId);
-      res.json(attempts);
+      const quiz = await storage.getQuizById(quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      res.json(await storage.getQuizAttemptHistory(quizId));
     } catch (error: any) {
-      return handleValidationError(error, res, "get user quiz attempts");
+      return handleValidationError(error, res, "get quiz attempt history");
     }
   });
 
@@ -6231,7 +8172,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/lms/admin/courses/:id', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.delete('/api/lms/admin/courses/:id', isAuthenticated, requirePermission('course.author'), async (req, res) => {
     try {
       const { id } = req.params;
       await storage.deleteCourse(id);
@@ -6242,7 +8183,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/lms/admin/courses/:id/duplicate', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.post('/api/lms/admin/courses/:id/duplicate', isAuthenticated, requirePermission('course.author'), async (req, res) => {
     try {
       const { id } = req.params;
       const { title } = req.body;
@@ -6369,7 +8310,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/learning-paths', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/learning-paths', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const validatedData = insertLearningPathSchema.parse({
@@ -6384,7 +8325,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/learning-paths/:id', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.put('/api/learning-paths/:id', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req, res) => {
     try {
       const { id } = req.params;
       // Use dedicated update schema that omits immutable fields
@@ -6405,7 +8346,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/learning-paths/:id', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.delete('/api/learning-paths/:id', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req, res) => {
     try {
       const { id } = req.params;
       await storage.deleteLearningPath(id);
@@ -6419,7 +8360,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/learning-paths/:id/publish', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.post('/api/learning-paths/:id/publish', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req, res) => {
     try {
       const { id } = req.params;
       const publishedPath = await storage.publishLearningPath(id);
@@ -6436,7 +8377,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/learning-paths/:id/unpublish', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.post('/api/learning-paths/:id/unpublish', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req, res) => {
     try {
       const { id } = req.params;
       const unpublishedPath = await storage.unpublishLearningPath(id);
@@ -6451,7 +8392,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Non-Linear Learning Paths (Phase 2)
-  app.post('/api/learning-paths/non-linear', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/learning-paths/non-linear', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const { title, description, category, estimatedDuration, relativeDueDays, requiredCompletions, availableChoices } = req.body;
@@ -6488,7 +8429,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/learning-paths/:id/criteria', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.put('/api/learning-paths/:id/criteria', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const { id } = req.params;
       const { requiredCompletions, availableChoices } = req.body;
@@ -6548,7 +8489,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Adaptive Learning Paths (Phase 2)
-  app.post('/api/learning-paths/adaptive', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/learning-paths/adaptive', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const { 
@@ -6602,7 +8543,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/learning-paths/:id/adaptive-criteria', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.put('/api/learning-paths/:id/adaptive-criteria', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const { id } = req.params;
       const { skipThreshold, remedialThreshold, baseStepsRequired, adaptationEnabled } = req.body;
@@ -6718,7 +8659,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/learning-paths/:pathId/steps', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.post('/api/learning-paths/:pathId/steps', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req, res) => {
     try {
       const { pathId } = req.params;
       // Omit pathId from validation to prevent client spoofing, inject from params
@@ -6740,7 +8681,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/learning-paths/:pathId/steps/:stepId', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.put('/api/learning-paths/:pathId/steps/:stepId', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req, res) => {
     try {
       const { stepId, pathId } = req.params;
       
@@ -6768,7 +8709,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/learning-paths/:pathId/steps/:stepId', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.delete('/api/learning-paths/:pathId/steps/:stepId', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req, res) => {
     try {
       const { stepId, pathId } = req.params;
       
@@ -6789,7 +8730,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/learning-paths/:pathId/steps/reorder', isAuthenticated, requireSupervisorOrLeadership(), async (req, res) => {
+  app.put('/api/learning-paths/:pathId/steps/reorder', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req, res) => {
     try {
       const { pathId } = req.params;
       const { stepIds } = req.body;
@@ -6861,7 +8802,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get enrollments for a specific learning path (admin only)
-  app.get('/api/learning-paths/:pathId/enrollments', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.get('/api/learning-paths/:pathId/enrollments', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const { pathId } = req.params;
       const enrollments = await storage.getLearningPathEnrollments(undefined, pathId);
@@ -6905,7 +8846,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Manual assignment of learning path to job role (admin only)
-  app.post('/api/learning-paths/:pathId/assign-to-job-role', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/learning-paths/:pathId/assign-to-job-role', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const { pathId } = req.params;
       const { jobRoleId } = req.body;
@@ -7007,8 +8948,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  const learningPathLearner = async (req: any): Promise<PermissionTarget | null> => {
+    const enrollment = await storage.getLearningPathEnrollment(req.params.enrollmentId);
+    return enrollment ? { userId: enrollment.userId } : null;
+  };
+
   // Update enrollment (admin only)
-  app.put('/api/learning-path-enrollments/:enrollmentId', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.put('/api/learning-path-enrollments/:enrollmentId', isAuthenticated, requirePermission('talent.manage', learningPathLearner), async (req: any, res) => {
     try {
       const { enrollmentId } = req.params;
       const updates = insertLearningPathEnrollmentSchema.partial().parse(req.body);
@@ -7053,7 +8999,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Suspend enrollment (admin only)
-  app.post('/api/learning-path-enrollments/:enrollmentId/suspend', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/learning-path-enrollments/:enrollmentId/suspend', isAuthenticated, requirePermission('talent.manage', learningPathLearner), async (req: any, res) => {
     try {
       const { enrollmentId } = req.params;
       const { reason } = req.body;
@@ -7070,7 +9016,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Resume enrollment (admin only)
-  app.post('/api/learning-path-enrollments/:enrollmentId/resume', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/learning-path-enrollments/:enrollmentId/resume', isAuthenticated, requirePermission('talent.manage', learningPathLearner), async (req: any, res) => {
     try {
       const { enrollmentId } = req.params;
       
@@ -7859,7 +9805,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/learning-paths/:pathId/relative-due-date', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.post('/api/learning-paths/:pathId/relative-due-date', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const { pathId } = req.params;
       const configData = insertRelativeDueDateConfigSchema.parse({
@@ -7882,7 +9828,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/learning-paths/:pathId/relative-due-date', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.put('/api/learning-paths/:pathId/relative-due-date', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const { pathId } = req.params;
       const updates = insertRelativeDueDateConfigSchema.partial().parse(req.body);
@@ -7901,7 +9847,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/learning-paths/:pathId/relative-due-date', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.delete('/api/learning-paths/:pathId/relative-due-date', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const { pathId } = req.params;
       await storage.deleteRelativeDueDateConfig(pathId);
@@ -7941,7 +9887,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/learning-paths/:pathId/recurring-assignments', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+  app.get('/api/learning-paths/:pathId/recurring-assignments', isAuthenticated, requirePermission('talent.manage', organizationWide), async (req: any, res) => {
     try {
       const { pathId } = req.params;
       const assignments = await storage.getRecurringAssignmentsByPath(pathId);
@@ -8035,6 +9981,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Scheduler job status and manual execution
+  app.get('/api/scheduler/jobs', isAuthenticated, requireSupervisorOrLeadership(), async (req: any, res) => {
+    try {
+      const jobs = await jobScheduler.getJobStatuses();
+      res.json({ instanceId: jobScheduler.getInstanceId(), jobs });
+    } catch (error: any) {
+      console.error("Error fetching scheduler jobs:", error);
+      res.status(500).json({ message: "Failed to fetch scheduler jobs" });
+    }
+  });
+
+  app.post('/api/scheduler/jobs/:jobName/run', isAuthenticated, requireLeadership(), async (req: any, res) => {
+    try {
+      const { jobName } = req.params;
+      const result = await jobScheduler.runJob(jobName, "manual", req.user.claims.sub);
+      if (result.status === "skipped") {
+        return res.status(409).json({ message: result.reason, result });
+      }
+      res.json(result);
+
+      // ISO 9001:2015 Audit Trail
+      console.log(`[AUDIT] Scheduler job ${jobName} run manually by ${req.user.claims.sub} - ${result.status}`);
+    } catch (error: any) {
+      if (error instanceof SchedulerJobNotFoundError) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error running scheduler job:", error);
+      res.status(500).json({ message: "Failed to run scheduler job" });
+    }
+  });
+
   // =====================================================================
   // ADVANCED ANALYTICS API ENDPOINTS - Phase 3 Implementation
   // =====================================================================
@@ -8434,74 +10411,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // N8N Webhook Configuration (Admin only)
-  app.get('/api/notifications/webhooks', isAuthenticated, async (req: any, res) => {
+  app.get('/api/notifications/webhooks', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
     try {
       const currentUserId = req.user.claims.sub;
-      const user = await storage.getUser(currentUserId);
-      
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
-      }
 
       const { activeOnly } = req.query;
       const configs = await storage.getN8nWebhookConfigs(activeOnly === 'true');
-      res.json(configs);
+      res.json(configs.map(config => redactWebhookConfig(config)));
     } catch (error) {
       console.error("Error fetching webhook configurations:", error);
       res.status(500).json({ message: "Failed to fetch webhook configurations" });
     }
   });
 
-  app.post('/api/notifications/webhooks', isAuthenticated, async (req: any, res) => {
+  app.post('/api/notifications/webhooks', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
     try {
       const currentUserId = req.user.claims.sub;
-      const user = await storage.getUser(currentUserId);
-      
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
-      }
 
       const validatedConfig = insertN8nWebhookConfigSchema.parse({
         ...req.body,
         createdBy: currentUserId
       });
+      if (validatedConfig.eventType === "domain_event" && !validatedConfig.domainEventTypes?.length) {
+        return res.status(400).json({ message: "Choose at least one domain event for this webhook" });
+      }
       
       const config = await storage.createN8nWebhookConfig(validatedConfig);
-      res.status(201).json(config);
+      // The signing secret is only returned in full on creation and rotation
+      res.status(201).json({ ...redactWebhookConfig(config), signingSecret: config.signingSecret });
     } catch (error) {
-      console.error("Error creating webhook configuration:", error);
-      res.status(500).json({ message: "Failed to create webhook configuration" });
+      return handleValidationError(error, res, "create webhook configuration");
     }
   });
 
-  app.patch('/api/notifications/webhooks/:id', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/notifications/webhooks/:id', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
     try {
       const currentUserId = req.user.claims.sub;
-      const user = await storage.getUser(currentUserId);
-      
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
-      }
 
       const { id } = req.params;
-      const updates = req.body;
+      // Secrets can only change through the rotate-secret endpoint
+      const { signingSecret, previousSigningSecret, previousSecretExpiresAt, secretRotatedAt, ...updates } = req.body;
+      if (updates.domainEventTypes !== undefined) {
+        updates.domainEventTypes = webhookDomainEventTypesSchema.nullable().parse(updates.domainEventTypes);
+      }
       
       const config = await storage.updateN8nWebhookConfig(id, updates);
-      res.json(config);
+      res.json(redactWebhookConfig(config));
     } catch (error) {
-      console.error("Error updating webhook configuration:", error);
-      res.status(500).json({ message: "Failed to update webhook configuration" });
+      return handleValidationError(error, res, "update webhook configuration");
     }
   });
 
-  app.delete('/api/notifications/webhooks/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/notifications/webhooks/:id', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
     try {
       const currentUserId = req.user.claims.sub;
-      const user = await storage.getUser(currentUserId);
-      
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
-      }
 
       const { id } = req.params;
       await storage.deleteN8nWebhookConfig(id);
@@ -8512,36 +10475,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/notifications/webhooks/:id/activate', isAuthenticated, async (req: any, res) => {
+  app.post('/api/notifications/webhooks/:id/activate', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
     try {
       const currentUserId = req.user.claims.sub;
-      const user = await storage.getUser(currentUserId);
-      
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
-      }
 
       const { id } = req.params;
       const config = await storage.activateWebhookConfig(id);
-      res.json(config);
+      res.json(redactWebhookConfig(config));
     } catch (error) {
       console.error("Error activating webhook configuration:", error);
       res.status(500).json({ message: "Failed to activate webhook configuration" });
     }
   });
 
-  app.post('/api/notifications/webhooks/:id/deactivate', isAuthenticated, async (req: any, res) => {
+  app.post('/api/notifications/webhooks/:id/deactivate', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
     try {
       const currentUserId = req.user.claims.sub;
-      const user = await storage.getUser(currentUserId);
-      
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
-      }
 
       const { id } = req.params;
       const config = await storage.deactivateWebhookConfig(id);
-      res.json(config);
+      res.json(redactWebhookConfig(config));
     } catch (error) {
       console.error("Error deactivating webhook configuration:", error);
       res.status(500).json({ message: "Failed to deactivate webhook configuration" });
@@ -8549,36 +10502,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Webhook Testing and Execution
-  app.post('/api/notifications/webhooks/test/:eventType', isAuthenticated, async (req: any, res) => {
+  app.post('/api/notifications/webhooks/test/:eventType', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
     try {
       const currentUserId = req.user.claims.sub;
-      const user = await storage.getUser(currentUserId);
-      
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
-      }
 
       const { eventType } = req.params;
       const { testData } = req.body;
       
       const result = await storage.executeWebhook(eventType, testData || {}, currentUserId);
-      res.json(result);
+      const { webhookConfig, ...outcome } = result;
+
+      // Verify the signature exactly as a receiver would, so admins can compare against their endpoint
+      let signature;
+      if (webhookConfig && result.request) {
+        const signatureHeader = result.request.signatureHeaders[WEBHOOK_SIGNATURE_HEADER];
+        signature = {
+          signed: !!signatureHeader,
+          timestampHeader: WEBHOOK_TIMESTAMP_HEADER,
+          signatureHeader: WEBHOOK_SIGNATURE_HEADER,
+          verification: signatureHeader
+            ? verifyWebhookSignature({
+                secrets: getActiveSigningSecrets(webhookConfig),
+                body: result.request.body,
+                timestamp: result.request.signatureHeaders[WEBHOOK_TIMESTAMP_HEADER],
+                signatureHeader,
+              })
+            : { valid: false, reason: "Webhook has no signing secret" },
+        };
+      }
+
+      res.json({
+        ...outcome,
+        webhookConfig: webhookConfig ? redactWebhookConfig(webhookConfig) : undefined,
+        signature,
+      });
     } catch (error) {
       console.error("Error testing webhook:", error);
       res.status(500).json({ message: "Failed to test webhook" });
     }
   });
 
-  // Webhook Execution Logs
-  app.get('/api/notifications/webhooks/logs', isAuthenticated, async (req: any, res) => {
+  app.post('/api/notifications/webhooks/:id/rotate-secret', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
     try {
       const currentUserId = req.user.claims.sub;
-      const user = await storage.getUser(currentUserId);
-      
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
+
+      const { id } = req.params;
+      const graceHours = req.body?.graceHours === undefined ? 24 : Number(req.body.graceHours);
+      if (!Number.isFinite(graceHours) || graceHours < 0 || graceHours > 168) {
+        return res.status(400).json({ message: "graceHours must be between 0 and 168" });
+      }
+
+      const config = await storage.rotateWebhookSigningSecret(id, graceHours * 60 * 60 * 1000);
+      if (!config) {
+        return res.status(404).json({ message: "Webhook configuration not found" });
       }
 
+      console.log(`[AUDIT] Webhook ${id} signing secret rotated (grace ${graceHours}h) by ${currentUserId}`);
+      res.json({ ...redactWebhookConfig(config), signingSecret: config.signingSecret });
+    } catch (error) {
+      console.error("Error rotating webhook signing secret:", error);
+      res.status(500).json({ message: "Failed to rotate webhook signing secret" });
+    }
+  });
+
+  // Webhook Execution Logs
+  app.get('/api/notifications/webhooks/logs', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
+    try {
+      const currentUserId = req.user.claims.sub;
+
       const { webhookConfigId, eventType, isSuccess, startDate, endDate, limit } = req.query;
       
       const filters = {
@@ -8598,15 +10589,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Webhook Statistics
-  app.get('/api/notifications/webhooks/:id/stats', isAuthenticated, async (req: any, res) => {
+  // Webhook Delivery Queue
+  app.get('/api/notifications/webhooks/deliveries', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
     try {
       const currentUserId = req.user.claims.sub;
-      const user = await storage.getUser(currentUserId);
-      
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
+
+      const { webhookConfigId, status, limit } = req.query;
+      const deliveries = await storage.getWebhookDeliveries({
+        webhookConfigId: webhookConfigId || undefined,
+        status: status || undefined,
+        limit: limit ? parseInt(limit) : undefined
+      });
+      res.json(deliveries);
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  app.post('/api/notifications/webhooks/deliveries/:deliveryId/replay', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
+    try {
+      const currentUserId = req.user.claims.sub;
+
+      const { deliveryId } = req.params;
+      const delivery = await replayWebhookDelivery(deliveryId, currentUserId);
+      res.json(delivery);
+
+      // ISO 9001:2015 Audit Trail
+      console.log(`[AUDIT] Webhook delivery ${deliveryId} replayed by ${currentUserId} - ${delivery.status}`);
+    } catch (error) {
+      if (error instanceof WebhookDeliveryNotFoundError) {
+        return res.status(404).json({ message: error.message });
       }
+      console.error("Error replaying webhook delivery:", error);
+      res.status(500).json({ message: "Failed to replay webhook delivery" });
+    }
+  });
+
+  app.post('/api/notifications/webhooks/:id/deliveries/replay-failed', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
+    try {
+      const currentUserId = req.user.claims.sub;
+
+      const { id } = req.params;
+      const result = await replayDeadLetteredDeliveries(id, currentUserId);
+      res.json(result);
+
+      // ISO 9001:2015 Audit Trail
+      console.log(`[AUDIT] ${result.replayed} failed deliveries replayed for webhook ${id} by ${currentUserId}`);
+    } catch (error) {
+      console.error("Error replaying failed webhook deliveries:", error);
+      res.status(500).json({ message: "Failed to replay failed webhook deliveries" });
+    }
+  });
+
+  // Webhook Statistics
+  app.get('/api/notifications/webhooks/:id/stats', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
+    try {
+      const currentUserId = req.user.claims.sub;
 
       const { id } = req.params;
       const { days } = req.query;
@@ -8619,6 +10658,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Domain event outbox
+  app.get('/api/domain-events/types', isAuthenticated, requirePermission('webhook.manage', organizationWide), async (req: any, res) => {
+    res.json({
+      eventTypes: Object.entries(DOMAIN_EVENT_TYPES).map(([type, description]) => ({ type, description })),
+      subscribers: getDomainEventSubscribers(),
+    });
+  });
+
+  app.get('/api/domain-events', isAuthenticated, requirePermission('settings.manage', organizationWide), async (req: any, res) => {
+    try {
+      const { eventType, status, aggregateType, aggregateId, userId, limit } = req.query;
+      const events = await storage.getDomainEvents({
+        eventType: eventType || undefined,
+        status: ["pending", "processing", "processed", "failed"].includes(status) ? status : undefined,
+        aggregateType: aggregateType || undefined,
+        aggregateId: aggregateId || undefined,
+        userId: userId || undefined,
+        limit: Math.min(Math.max(parseInt(limit) || 100, 1), 500),
+      });
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching domain events:", error);
+      res.status(500).json({ message: "Failed to fetch domain events" });
+    }
+  });
+
+  app.get('/api/domain-events/:id', isAuthenticated, requirePermission('settings.manage', organizationWide), async (req: any, res) => {
+    try {
+      const event = await storage.getDomainEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Domain event not found" });
+      }
+      const subscriberRuns = await storage.getDomainEventSubscriberRuns(event.id);
+      res.json({ ...event, subscriberRuns });
+    } catch (error) {
+      console.error("Error fetching domain event:", error);
+      res.status(500).json({ message: "Failed to fetch domain event" });
+    }
+  });
+
+  app.post('/api/domain-events/:id/retry', isAuthenticated, requirePermission('settings.manage', organizationWide), async (req: any, res) => {
+    try {
+      const currentUserId = req.user.claims.sub;
+      const event = await retryDomainEvent(req.params.id);
+      console.log(`[AUDIT] Domain event ${event.id} (${event.eventType}) queued for retry by ${currentUserId}`);
+      res.json(event);
+    } catch (error) {
+      if (error instanceof DomainEventError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error retrying domain event:", error);
+      res.status(500).json({ message: "Failed to retry domain event" });
+    }
+  });
+
   // Notification Preferences
   app.get('/api/notifications/preferences', isAuthenticated, async (req: any, res) => {
     try {
@@ -8635,11 +10729,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const { notificationType } = req.params;
-      const { inAppEnabled, webhookEnabled } = req.body;
+      const { inAppEnabled, webhookEnabled, emailEnabled, smsEnabled } = req.body;
       
       const preference = await storage.updateNotificationPreference(userId, notificationType, {
         inAppEnabled,
-        webhookEnabled
+        webhookEnabled,
+        emailEnabled,
+        smsEnabled
       });
       
       res.json(preference);
@@ -8649,16 +10745,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Notification Templates (Admin only)
-  app.get('/api/notifications/templates', isAuthenticated, async (req: any, res) => {
+  // Email and SMS channels: quiet hours, timezone and digest settings for the current user
+  app.get('/api/notifications/channels', isAuthenticated, async (req: any, res) => {
     try {
-      const currentUserId = req.user.claims.sub;
-      const user = await storage.getUser(currentUserId);
-      
-      if (user?.role !== 'leadership' && user?.role !== 'supervisor') {
-        return res.status(403).json({ message: "Access denied. Administrative role required." });
+      const userId = req.user.claims.sub;
+      const [user, settings] = await Promise.all([
+        storage.getUser(userId),
+        storage.getNotificationChannelSettings(userId),
+      ]);
+      res.json({
+        available: getChannelAvailability(),
+        email: user?.email ?? null,
+        mobilePhone: user?.mobilePhone ?? null,
+        settings: settings ?? {
+          quietHoursStart: null,
+          quietHoursEnd: null,
+          timezone: "UTC",
+          locale: "en",
+          digestFrequency: "off",
+          digestHour: 7,
+          digestDayOfWeek: 1,
+          includeReportsInDigest: true,
+          lastDigestSentAt: null,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching notification channel settings:", error);
+      res.status(500).json({ message: "Failed to fetch notification channel settings" });
+    }
+  });
+
+  app.put('/api/notifications/channels', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = notificationChannelSettingsSchema.parse(req.body);
+      if (updates.timezone && !isValidTimezone(updates.timezone)) {
+        return res.status(400).json({ message: `Unknown timezone: ${updates.timezone}` });
+      }
+      const settings = await storage.upsertNotificationChannelSettings(userId, updates);
+      res.json(settings);
+    } catch (error) {
+      return handleValidationError(error, res, "update notification channel settings");
+    }
+  });
+
+  app.post('/api/notifications/channels/:channel/test', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { channel } = req.params;
+      if (channel !== "email" && channel !== "sms") {
+        return res.status(400).json({ message: "Channel must be email or sms" });
+      }
+      const delivery = await queueTestDelivery(userId, channel);
+      res.status(202).json(delivery);
+    } catch (error) {
+      if (error instanceof NotificationChannelError) {
+        return res.status(error.statusCode).json({ message: error.message });
       }
+      console.error("Error queueing test notification:", error);
+      res.status(500).json({ message: "Failed to queue test notification" });
+    }
+  });
+
+  app.get('/api/notifications/deliveries', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const channel = req.query.channel === "email" || req.query.channel === "sms" ? req.query.channel : undefined;
+      const deliveries = await storage.getNotificationDeliveries({
+        userId,
+        channel,
+        status: typeof req.query.status === "string" ? req.query.status : undefined,
+        limit: Math.min(parseInt(req.query.limit as string) || 50, 200),
+      });
+      res.json(deliveries);
+    } catch (error) {
+      console.error("Error fetching notification deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch notification deliveries" });
+    }
+  });
 
+  // Notification Templates (Admin only)
+  app.get('/api/notifications/templates', isAuthenticated, requirePermission('settings.manage', organizationWide), async (req: any, res) => {
+    try {
       const { type, activeOnly } = req.query;
       const templates = await storage.getNotificationTemplates(type, activeOnly === 'true');
       res.json(templates);
@@ -8668,25 +10836,160 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/notifications/templates', isAuthenticated, async (req: any, res) => {
+  app.get('/api/notifications/templates/variables', isAuthenticated, requirePermission('settings.manage', organizationWide), async (req: any, res) => {
+    res.json(getNotificationTemplateVariables(typeof req.query.type === "string" ? req.query.type : ""));
+  });
+
+  app.post('/api/notifications/templates', isAuthenticated, requirePermission('settings.manage', organizationWide), async (req: any, res) => {
     try {
       const currentUserId = req.user.claims.sub;
-      const user = await storage.getUser(currentUserId);
-      
-      if (user?.role !== 'leadership') {
-        return res.status(403).json({ message: "Access denied. Leadership role required." });
-      }
-
       const validatedTemplate = insertNotificationTemplateSchema.parse({
         ...req.body,
         createdBy: currentUserId
       });
+      const variables = validateNotificationTemplate(validatedTemplate.type, validatedTemplate);
       
-      const template = await storage.createNotificationTemplate(validatedTemplate);
+      const template = await storage.createNotificationTemplate({ ...validatedTemplate, variables });
+      console.log(`[AUDIT] User ${currentUserId} created ${template.type} notification template ${template.id}`);
       res.status(201).json(template);
     } catch (error) {
-      console.error("Error creating notification template:", error);
-      res.status(500).json({ message: "Failed to create notification template" });
+      if (error instanceof NotificationTemplateError) return sendTemplateError(error, res);
+      return handleValidationError(error, res, "create notification template");
+    }
+  });
+
+  app.patch('/api/notifications/templates/:id', isAuthenticated, requirePermission('settings.manage', organizationWide), async (req: any, res) => {
+    try {
+      const existing = await storage.getNotificationTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Notification template not found" });
+      }
+      const updates = notificationTemplateUpdateSchema.parse(req.body);
+      // Only changed text is validated, so templates written before validation can still be renamed or switched off
+      const textChanged = updates.titleTemplate !== undefined || updates.messageTemplate !== undefined || updates.actionLabel !== undefined;
+      const variables = textChanged
+        ? validateNotificationTemplate(existing.type, {
+            titleTemplate: updates.titleTemplate ?? existing.titleTemplate,
+            messageTemplate: updates.messageTemplate ?? existing.messageTemplate,
+            actionLabel: updates.actionLabel !== undefined ? updates.actionLabel : existing.actionLabel,
+          })
+        : existing.variables;
+      const template = await storage.updateNotificationTemplate(existing.id, { ...updates, variables });
+      console.log(`[AUDIT] User ${req.user.claims.sub} updated notification template ${existing.id}`);
+      res.json(template);
+    } catch (error) {
+      if (error instanceof NotificationTemplateError) return sendTemplateError(error, res);
+      return handleValidationError(error, res, "update notification template");
+    }
+  });
+
+  app.delete('/api/notifications/templates/:id', isAuthenticated, requirePermission('settings.manage', organizationWide), async (req: any, res) => {
+    try {
+      const existing = await storage.getNotificationTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Notification template not found" });
+      }
+      await storage.deleteNotificationTemplate(existing.id);
+      console.log(`[AUDIT] User ${req.user.claims.sub} deleted notification template ${existing.id}`);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting notification template:", error);
+      res.status(500).json({ message: "Failed to delete notification template" });
+    }
+  });
+
+  app.get('/api/notifications/templates/:id/locales', isAuthenticated, requirePermission('settings.manage', organizationWide), async (req: any, res) => {
+    try {
+      const locales = await storage.getNotificationTemplateLocales(req.params.id);
+      res.json(locales);
+    } catch (error) {
+      console.error("Error fetching notification template locales:", error);
+      res.status(500).json({ message: "Failed to fetch notification template locales" });
+    }
+  });
+
+  app.put('/api/notifications/templates/:id/locales/:locale', isAuthenticated, requirePermission('settings.manage', organizationWide), async (req: any, res) => {
+    try {
+      const template = await storage.getNotificationTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Notification template not found" });
+      }
+      const locale = req.params.locale;
+      if (!/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(locale)) {
+        return res.status(400).json({ message: "Use a language tag such as en or fr-CA" });
+      }
+      const values = notificationTemplateLocaleSchema.parse(req.body);
+      validateNotificationTemplate(template.type, values);
+      const variant = await storage.upsertNotificationTemplateLocale(template.id, locale, values, req.user.claims.sub);
+      console.log(`[AUDIT] User ${req.user.claims.sub} saved the ${locale} variant of notification template ${template.id}`);
+      res.json(variant);
+    } catch (error) {
+      if (error instanceof NotificationTemplateError) return sendTemplateError(error, res);
+      return handleValidationError(error, res, "save notification template locale");
+    }
+  });
+
+  app.delete('/api/notifications/templates/:id/locales/:locale', isAuthenticated, requirePermission('settings.manage', organizationWide), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteNotificationTemplateLocale(req.params.id, req.params.locale);
+      if (!deleted) {
+        return res.status(404).json({ message: "Locale variant not found" });
+      }
+      console.log(`[AUDIT] User ${req.user.claims.sub} deleted the ${req.params.locale} variant of notification template ${req.params.id}`);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting notification template locale:", error);
+      res.status(500).json({ message: "Failed to delete notification template locale" });
+    }
+  });
+
+  // Renders a template against a real user's data and one of their events (their latest, or entityId).
+  // Anyone can preview the active template for a type as themselves; other users, drafts and inactive templates need settings.manage.
+  app.post('/api/notifications/templates/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUserId = req.user.claims.sub;
+      const preview = notificationTemplatePreviewSchema.parse(req.body);
+      const userId = preview.userId ?? currentUserId;
+
+      if (userId !== currentUserId || preview.draft || preview.templateId || preview.variables) {
+        const user = await storage.getUser(currentUserId);
+        if (!user || !(await hasPermission(await getPermissionGrants(user), 'settings.manage', null))) {
+          return res.status(403).json({ message: "Access denied. Required permission: settings.manage" });
+        }
+      }
+
+      const template = preview.templateId
+        ? await storage.getNotificationTemplate(preview.templateId)
+        : await storage.getActiveNotificationTemplate(preview.type!);
+      if (preview.templateId && !template) {
+        return res.status(404).json({ message: "Notification template not found" });
+      }
+      const type = template?.type ?? preview.type!;
+      if (!template && !preview.draft) {
+        return res.json({ templateId: null, type, rendered: null, event: null, events: [], sampleVariables: [] });
+      }
+      if (preview.draft) validateNotificationTemplate(type, preview.draft);
+
+      const data = await storage.getNotificationPreviewData(userId, type, preview.entityId);
+      const { context, locale, timezone } = await storage.getNotificationTemplateContext(userId, { ...data.variables, ...preview.variables });
+      const sampleVariables = fillSampleVariables(type, context);
+      const source = preview.draft
+        ? { titleTemplate: preview.draft.titleTemplate, messageTemplate: preview.draft.messageTemplate, actionLabel: preview.draft.actionLabel ?? null }
+        : template!;
+      const locales = preview.draft || !template ? [] : await storage.getNotificationTemplateLocales(template.id);
+      const rendered = renderNotificationTemplate(source, locales, context, { locale: preview.locale || locale, timezone });
+
+      res.json({
+        templateId: template?.id ?? null,
+        type,
+        rendered,
+        event: data.event,
+        events: data.events,
+        sampleVariables,
+      });
+    } catch (error) {
+      if (error instanceof NotificationTemplateError) return sendTemplateError(error, res);
+      return handleValidationError(error, res, "preview notification template");
     }
   });
 
@@ -8760,5 +11063,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer);
   return httpServer;
 }
@@ -0,0 +1,152 @@
+import passport from "passport";
+import type { Express } from "express";
+import { Strategy as SamlStrategy, ValidateInResponseTo, type Profile, type VerifiedCallback } from "@node-saml/passport-saml";
+import {
+  AccountDeactivatedError,
+  AccountLinkRefusedError,
+  buildSessionUser,
+  requireAuthEnv,
+  sessionExpiry,
+  upsertAuthUser,
+  type AuthClaims,
+  type AuthProvider,
+} from "./authProvider";
+
+// SAML 2.0 sign-in, SP-initiated only: responses the SP didn't ask for are rejected.
+
+const STRATEGY_NAME = "saml";
+
+// Attribute names sent by Azure AD / ADFS, then the plain names most other IdPs use
+const DEFAULT_ATTRIBUTES = {
+  email: [
+    "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress",
+    "urn:oid:0.9.2342.19200300.100.1.3",
+    "email",
+    "mail",
+  ],
+  firstName: [
+    "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname",
+    "urn:oid:2.5.4.42",
+    "givenName",
+    "firstName",
+  ],
+  lastName: [
+    "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname",
+    "urn:oid:2.5.4.4",
+    "sn",
+    "surname",
+    "lastName",
+  ],
+  role: ["http://schemas.microsoft.com/ws/2008/06/identity/claims/role", "role"],
+  emailVerified: ["email_verified", "emailVerified"],
+};
+
+// PEM bodies may be pasted with escaped newlines; several IdP certificates are separated by commas during rotation
+function readCertificates(value: string): string[] {
+  return value.split(",").map(cert => cert.replace(/\\n/g, "\n").trim()).filter(Boolean);
+}
+
+function readKey(name: string): string | undefined {
+  return process.env[name]?.replace(/\\n/g, "\n");
+}
+
+function readAttribute(profile: Profile, envName: string, defaults: string[]): string | undefined {
+  const names = process.env[envName] ? [process.env[envName]!] : defaults;
+  for (const name of names) {
+    const value = profile[name];
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === "string" && first) return first;
+  }
+  return undefined;
+}
+
+function toAuthClaims(profile: Profile): AuthClaims {
+  const idAttribute = process.env.SAML_ID_ATTRIBUTE;
+  const subject = idAttribute ? readAttribute(profile, "SAML_ID_ATTRIBUTE", []) : profile.nameID;
+  if (!subject) {
+    throw new Error(`SAML assertion is missing the ${idAttribute ?? "NameID"} used to identify users`);
+  }
+  const emailAttribute = readAttribute(profile, "SAML_EMAIL_ATTRIBUTE", DEFAULT_ATTRIBUTES.email);
+  const email = emailAttribute ?? (profile.nameID?.includes("@") ? profile.nameID : undefined);
+  return {
+    sub: subject,
+    email,
+    // Existing accounts are only linked by email when the IdP asserts it verified the address
+    email_verified: !!emailAttribute
+      && readAttribute(profile, "SAML_EMAIL_VERIFIED_ATTRIBUTE", DEFAULT_ATTRIBUTES.emailVerified)?.toLowerCase() === "true",
+    first_name: readAttribute(profile, "SAML_FIRST_NAME_ATTRIBUTE", DEFAULT_ATTRIBUTES.firstName),
+    last_name: readAttribute(profile, "SAML_LAST_NAME_ATTRIBUTE", DEFAULT_ATTRIBUTES.lastName),
+    role: readAttribute(profile, "SAML_ROLE_ATTRIBUTE", DEFAULT_ATTRIBUTES.role),
+    saml_issuer: profile.issuer,
+    saml_session_index: profile.sessionIndex,
+  };
+}
+
+export function createSamlAuthProvider(): AuthProvider {
+  const callbackUrl = requireAuthEnv("SAML_CALLBACK_URL", "saml");
+  const decryptionCert = process.env.SAML_DECRYPTION_CERT?.replace(/\\n/g, "\n") ?? null;
+  const signingCert = process.env.SAML_SIGNING_CERT?.replace(/\\n/g, "\n") ?? null;
+
+  const signonVerify = async (profile: Profile | null, done: VerifiedCallback) => {
+    try {
+      if (!profile) {
+        return done(new Error("SAML response did not contain a profile"));
+      }
+      const claims = toAuthClaims(profile);
+      const user = await upsertAuthUser(claims);
+      done(null, { ...buildSessionUser("saml", user, sessionExpiry(), { claims }) });
+    } catch (error) {
+      if (error instanceof AccountDeactivatedError || error instanceof AccountLinkRefusedError) {
+        return done(null, undefined, { message: error.message });
+      }
+      done(error as Error);
+    }
+  };
+
+  const strategy = new SamlStrategy(
+    {
+      name: STRATEGY_NAME,
+      entryPoint: requireAuthEnv("SAML_ENTRY_POINT", "saml"),
+      issuer: requireAuthEnv("SAML_ISSUER", "saml"),
+      callbackUrl,
+      idpCert: readCertificates(requireAuthEnv("SAML_IDP_CERT", "saml")),
+      privateKey: readKey("SAML_PRIVATE_KEY"),
+      decryptionPvk: readKey("SAML_DECRYPTION_KEY"),
+      identifierFormat: process.env.SAML_IDENTIFIER_FORMAT ?? null,
+      wantAssertionsSigned: true,
+      validateInResponseTo: ValidateInResponseTo.always,
+      acceptedClockSkewMs: 5000,
+    },
+    signonVerify,
+    // Single logout is not used; sign-out ends the WeGrow session only
+    (_profile: Profile | null, done: VerifiedCallback) => done(null),
+  );
+
+  return {
+    name: "saml",
+
+    async setup(app: Express) {
+      passport.use(STRATEGY_NAME, strategy);
+
+      app.get("/api/login", passport.authenticate(STRATEGY_NAME, { failureRedirect: "/login" }));
+
+      // The IdP posts the assertion here (the Assertion Consumer Service URL)
+      app.post("/api/callback", passport.authenticate(STRATEGY_NAME, {
+        successReturnToOrRedirect: "/",
+        failureRedirect: "/login",
+      }));
+
+      // Service provider metadata for registering WeGrow with the IdP
+      app.get("/api/saml/metadata", (_req, res) => {
+        res.type("application/xml");
+        res.send(strategy.generateServiceProviderMetadata(decryptionCert, signingCert));
+      });
+
+      app.get("/api/logout", (req, res) => {
+        req.logout(() => {
+          res.redirect(process.env.SAML_LOGOUT_REDIRECT_URL ?? "/");
+        });
+      });
+    },
+  };
+}
@@ -0,0 +1,415 @@
+import {
+  type AnalyticsReport,
+  type AnalyticsReportRun,
+  type ReportSchedule,
+  type ScheduledReportDataset,
+  type ScheduledReportFilters,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { ObjectStorageService } from "./objectStorage";
+import { CronError, getNextCronRun, parseCron } from "./cron";
+import { renderReportFile, type ReportCell, type ReportTable } from "./reportExport";
+import { absoluteUrl, escapeHtml, getEmailTransport, isValidTimezone } from "./notificationChannels";
+
+// Runs analytics reports on their cron schedules, storing each file and emailing it to the recipients.
+
+export class ScheduledReportError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "ScheduledReportError";
+    Object.setPrototypeOf(this, ScheduledReportError.prototype);
+  }
+}
+
+const STALE_RUN_MS = 60 * 60 * 1000;
+const PREVIEW_ROWS = 20;
+
+function maxAttachmentBytes(): number {
+  const value = parseInt(process.env.REPORT_EMAIL_ATTACHMENT_MAX_BYTES || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : 5 * 1024 * 1024;
+}
+
+// ---------------------------------------------------------------------------
+// Datasets
+// ---------------------------------------------------------------------------
+
+interface ReportDataset {
+  label: string;
+  filters: Array<keyof ScheduledReportFilters>;
+  build(filters: ScheduledReportFilters): Promise<Pick<ReportTable, "columns" | "rows">>;
+}
+
+function round(value: number | null | undefined): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? Math.round(value * 10) / 10 : null;
+}
+
+function formatDate(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+const DATASETS: Record<ScheduledReportDataset, ReportDataset> = {
+  company_metrics: {
+    label: "Company metrics",
+    filters: [],
+    async build() {
+      const metrics = await storage.getCompanyMetrics();
+      const rows: Array<[string, number]> = [
+        ["Employees", metrics.totalEmployees],
+        ["Average goal completion (%)", metrics.avgGoalCompletion],
+        ["Goals completed", metrics.totalGoalsCompleted],
+        ["Active goals", metrics.totalGoalsActive],
+        ["Average development progress (%)", metrics.avgDevelopmentProgress],
+        ["Recognitions sent", metrics.recognitionsSent],
+      ];
+      return {
+        columns: [{ key: "metric", label: "Metric" }, { key: "value", label: "Value" }],
+        rows: rows.map(([metric, value]) => ({ metric, value: round(value) })),
+      };
+    },
+  },
+  team_performance: {
+    label: "Team performance",
+    filters: ["teamId"],
+    async build(filters) {
+      const teams = await storage.getTeamAnalytics(filters.teamId);
+      return {
+        columns: [
+          { key: "team", label: "Team" },
+          { key: "department", label: "Department" },
+          { key: "members", label: "Members" },
+          { key: "completionRate", label: "Completion rate (%)" },
+          { key: "averageProgress", label: "Average progress (%)" },
+          { key: "activeEnrollments", label: "Active enrollments" },
+          { key: "achievedCompetencies", label: "Competencies achieved" },
+          { key: "totalCompetencies", label: "Competencies required" },
+          { key: "overdueTraining", label: "Overdue training" },
+          { key: "engagementScore", label: "Engagement score" },
+        ],
+        rows: teams.map(team => ({
+          team: team.teamName,
+          department: team.department,
+          members: team.memberCount,
+          completionRate: round(team.completionRate),
+          averageProgress: round(team.averageProgress),
+          activeEnrollments: team.activeEnrollments,
+          achievedCompetencies: team.achievedCompetencies,
+          totalCompetencies: team.totalCompetencies,
+          overdueTraining: team.overdueTraining,
+          engagementScore: round(team.engagementScore),
+        })),
+      };
+    },
+  },
+  department_performance: {
+    label: "Department performance",
+    filters: [],
+    async build() {
+      const departments = await storage.getDepartmentAnalytics();
+      return {
+        columns: [
+          { key: "department", label: "Department" },
+          { key: "teams", label: "Teams" },
+          { key: "members", label: "Members" },
+          { key: "completionRate", label: "Completion rate (%)" },
+          { key: "averageProgress", label: "Average progress (%)" },
+          { key: "activeEnrollments", label: "Active enrollments" },
+          { key: "achievedCompetencies", label: "Competencies achieved" },
+          { key: "totalCompetencies", label: "Competencies required" },
+          { key: "overdueTraining", label: "Overdue training" },
+        ],
+        rows: departments.map(department => ({
+          department: department.department,
+          teams: department.teamCount,
+          members: department.memberCount,
+          completionRate: round(department.completionRate),
+          averageProgress: round(department.averageProgress),
+          activeEnrollments: department.activeEnrollments,
+          achievedCompetencies: department.achievedCompetencies,
+          totalCompetencies: department.totalCompetencies,
+          overdueTraining: department.overdueTraining,
+        })),
+      };
+    },
+  },
+  compliance: {
+    label: "Competency compliance",
+    filters: ["teamId", "role", "status"],
+    async build(filters) {
+      const [report, teams, competencies] = await Promise.all([
+        storage.getComplianceReport({ teamId: filters.teamId, role: filters.role, status: filters.status }),
+        storage.getTeams(),
+        storage.getCompetencyLibrary(),
+      ]);
+      const teamNames = new Map(teams.map(team => [team.id, team.name]));
+      const competencyTitles = new Map(competencies.map(competency => [competency.id, competency.title]));
+      const rows: Array<Record<string, ReportCell>> = [];
+      (report as any[]).forEach(entry => {
+        const name = [entry.user.firstName, entry.user.lastName].filter(Boolean).join(" ") || entry.user.email;
+        (entry.competencies as any[]).forEach(competency => {
+          rows.push({
+            name,
+            email: entry.user.email,
+            role: entry.user.role,
+            team: entry.user.teamId ? teamNames.get(entry.user.teamId) ?? null : null,
+            competency: competencyTitles.get(competency.competencyLibraryId) ?? competency.competencyLibraryId,
+            status: competency.status,
+            lastAssessed: formatDate(competency.lastAssessmentDate),
+            expires: formatDate(competency.expiryDate),
+          });
+        });
+      });
+      return {
+        columns: [
+          { key: "name", label: "Name" },
+          { key: "email", label: "Email" },
+          { key: "role", label: "Role" },
+          { key: "team", label: "Team" },
+          { key: "competency", label: "Competency" },
+          { key: "status", label: "Status" },
+          { key: "lastAssessed", label: "Last assessed" },
+          { key: "expires", label: "Expires" },
+        ],
+        rows,
+      };
+    },
+  },
+};
+
+export function getReportDatasets(): Array<{ id: ScheduledReportDataset; label: string; filters: string[] }> {
+  return (Object.keys(DATASETS) as ScheduledReportDataset[]).map(id => ({ id, label: DATASETS[id].label, filters: DATASETS[id].filters }));
+}
+
+// ---------------------------------------------------------------------------
+// Schedules
+// ---------------------------------------------------------------------------
+
+// Recipients must be active users unless their domain is listed here, so a schedule can't quietly send organization
+// data outside the company
+function allowedRecipientDomains(): string[] {
+  return (process.env.REPORT_RECIPIENT_DOMAINS || "").split(",").map(domain => domain.trim().toLowerCase()).filter(Boolean);
+}
+
+// Throws a ScheduledReportError naming the first problem: a bad cron expression or timezone, or a recipient who
+// isn't an active user outside the allowed domains
+export async function validateReportSchedule(schedule: ReportSchedule): Promise<void> {
+  try {
+    parseCron(schedule.cron);
+  } catch (error) {
+    if (error instanceof CronError) throw new ScheduledReportError(`Invalid cron expression: ${error.message}`);
+    throw error;
+  }
+  if (!isValidTimezone(schedule.timezone)) {
+    throw new ScheduledReportError(`Unknown timezone: ${schedule.timezone}`);
+  }
+
+  const domains = allowedRecipientDomains();
+  for (const recipient of schedule.recipients) {
+    if (domains.includes(recipient.split("@")[1] ?? "")) continue;
+    const user = await storage.getUserByEmail(recipient);
+    if (!user || user.isActive === false) {
+      throw new ScheduledReportError(`${recipient} is not an active user`);
+    }
+  }
+}
+
+export function getNextReportRun(schedule: ReportSchedule, after: Date): Date {
+  try {
+    return getNextCronRun(schedule.cron, schedule.timezone, after);
+  } catch (error) {
+    if (error instanceof CronError) throw new ScheduledReportError(`Invalid cron expression: ${error.message}`);
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Running
+// ---------------------------------------------------------------------------
+
+function describeFilters(filters: ScheduledReportFilters, teamName: string | undefined): string {
+  const parts: string[] = [];
+  if (filters.teamId) parts.push(`Team: ${teamName ?? filters.teamId}`);
+  if (filters.role) parts.push(`Role: ${filters.role}`);
+  if (filters.status) parts.push(`Status: ${filters.status}`);
+  return parts.length > 0 ? parts.join(", ") : "No filters";
+}
+
+function fileNameFor(report: AnalyticsReport, generatedAt: Date, extension: string): string {
+  const slug = report.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "report";
+  return `${slug}-${generatedAt.toISOString().slice(0, 10)}.${extension}`;
+}
+
+async function emailReport(
+  report: AnalyticsReport,
+  run: AnalyticsReportRun,
+  file: { data: Buffer; contentType: string; fileName: string },
+  recipients: string[],
+): Promise<{ sent: number; errors: string[] }> {
+  if (recipients.length === 0) return { sent: 0, errors: [] };
+  const transport = getEmailTransport();
+  if (!transport) return { sent: 0, errors: ["Email is not configured, so the report was not sent"] };
+
+  const attach = file.data.length <= maxAttachmentBytes();
+  const link = absoluteUrl(`/reports?run=${run.id}`);
+  const intro = attach
+    ? `The latest "${report.title}" report (${run.rowCount} rows) is attached.`
+    : `The latest "${report.title}" report (${run.rowCount} rows) is too large to attach.`;
+  const text = `${intro}\n\nPast runs can be downloaded from Reports: ${link}`;
+  const html = `<p>${escapeHtml(intro)}</p>\n<p><a href="${escapeHtml(link)}">Open in WeGrow</a></p>`;
+
+  let sent = 0;
+  const errors: string[] = [];
+  for (const to of recipients) {
+    try {
+      await transport.send({
+        to,
+        subject: `Report: ${report.title}`,
+        text,
+        html,
+        attachments: attach ? [{ filename: file.fileName, content: file.data, contentType: file.contentType }] : undefined,
+      });
+      sent++;
+    } catch (error: any) {
+      errors.push(`${to}: ${error?.message || String(error)}`);
+    }
+  }
+  return { sent, errors };
+}
+
+// Generates the report now. The run is recorded (as failed, with the error) even when generation fails.
+export async function runScheduledReport(report: AnalyticsReport, trigger: "schedule" | "manual", triggeredBy?: string): Promise<AnalyticsReportRun> {
+  const schedule = report.schedule as ReportSchedule | null;
+  if (!schedule) {
+    throw new ScheduledReportError("This report has no schedule");
+  }
+  const filters = (report.filters ?? {}) as ScheduledReportFilters;
+  const dataset = DATASETS[report.reportType as ScheduledReportDataset];
+  if (!dataset) {
+    throw new ScheduledReportError(`Unknown report type: ${report.reportType}`);
+  }
+
+  const startedAt = new Date();
+  const run = await storage.createAnalyticsReportRun({
+    reportId: report.id,
+    status: "running",
+    trigger,
+    triggeredBy: triggeredBy ?? null,
+    format: schedule.format,
+    filters,
+    recipients: schedule.recipients,
+  });
+
+  try {
+    const teamName = filters.teamId ? (await storage.getTeams()).find(team => team.id === filters.teamId)?.name : undefined;
+    const { columns, rows } = await dataset.build(filters);
+    const table: ReportTable = {
+      title: report.title,
+      subtitle: `${dataset.label} · ${describeFilters(filters, teamName)} · Generated ${startedAt.toISOString().replace("T", " ").slice(0, 16)} UTC`,
+      columns,
+      rows,
+    };
+    const file = await renderReportFile(table, schedule.format);
+    const fileName = fileNameFor(report, startedAt, file.extension);
+    const artifactPath = await new ObjectStorageService().writeObjectEntity(`reports/${report.id}/${run.id}.${file.extension}`, file.data, file.contentType);
+
+    const completed = await storage.updateAnalyticsReportRun(run.id, {
+      status: "succeeded",
+      rowCount: rows.length,
+      artifactPath,
+      fileName,
+      contentType: file.contentType,
+      sizeBytes: file.data.length,
+      completedAt: new Date(),
+      expiresAt: new Date(startedAt.getTime() + schedule.retentionDays * 24 * 60 * 60 * 1000),
+    });
+    // The report row keeps a preview of the latest run for the Reports page
+    await storage.updateAnalyticsReport(report.id, {
+      data: { runId: run.id, rowCount: rows.length, columns, rows: rows.slice(0, PREVIEW_ROWS) },
+    });
+
+    const delivery = await emailReport(report, completed ?? run, { data: file.data, contentType: file.contentType, fileName }, schedule.recipients);
+    const finished = await storage.updateAnalyticsReportRun(run.id, {
+      emailedCount: delivery.sent,
+      error: delivery.errors.length > 0 ? delivery.errors.join("; ") : null,
+    });
+    console.log(`[AUDIT] Report ${report.id} (${report.title}) ran by ${trigger} - ${rows.length} rows as ${schedule.format}, emailed to ${delivery.sent}/${schedule.recipients.length}`);
+    return finished ?? run;
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    console.error(`Scheduled report ${report.id} failed:`, error);
+    const failed = await storage.updateAnalyticsReportRun(run.id, { status: "failed", error: message, completedAt: new Date() });
+    return failed ?? run;
+  }
+}
+
+// Runs every report whose nextRunAt has passed. Called by the "scheduled_reports" scheduler job.
+export async function processDueScheduledReports(now: Date, limit: number = 10): Promise<{
+  checked: number;
+  succeeded: number;
+  failed: number;
+  errors: string[];
+}> {
+  const summary = { checked: 0, succeeded: 0, failed: 0, errors: [] as string[] };
+  const due = await storage.getDueScheduledReports(now, limit);
+
+  for (const report of due) {
+    summary.checked++;
+    const schedule = report.schedule as ReportSchedule | null;
+    let nextRunAt: Date | null = null;
+    try {
+      nextRunAt = schedule ? getNextReportRun(schedule, now) : null;
+    } catch (error: any) {
+      summary.errors.push(`${report.title}: ${error?.message || String(error)}`);
+    }
+    // A schedule that can't be read stops (nextRunAt null) rather than failing every minute
+    const claimed = await storage.claimScheduledReport(report.id, report.nextRunAt!, nextRunAt);
+    if (!claimed || !schedule || !nextRunAt) continue;
+
+    const run = await runScheduledReport(claimed, "schedule");
+    if (run.status === "succeeded") {
+      summary.succeeded++;
+    } else {
+      summary.failed++;
+      summary.errors.push(`${report.title}: ${run.error}`);
+    }
+  }
+
+  return summary;
+}
+
+// Deletes files older than their report's retention period, keeping the run rows as history, and closes runs a
+// crashed server left running
+export async function pruneReportArtifacts(now: Date, limit: number = 100): Promise<{ deleted: number; errors: string[] }> {
+  await storage.failStaleAnalyticsReportRuns(new Date(now.getTime() - STALE_RUN_MS));
+
+  const objectStorage = new ObjectStorageService();
+  const expired = await storage.getExpiredAnalyticsReportRuns(now, limit);
+  const errors: string[] = [];
+  let deleted = 0;
+  for (const run of expired) {
+    try {
+      await objectStorage.deleteObjectEntity(run.artifactPath!);
+      await storage.updateAnalyticsReportRun(run.id, { artifactPath: null, artifactDeletedAt: now });
+      deleted++;
+    } catch (error: any) {
+      errors.push(`Run ${run.id}: ${error?.message || String(error)}`);
+    }
+  }
+  return { deleted, errors };
+}
+
+// Deletes the report, its run history and every stored file
+export async function deleteScheduledReport(reportId: string): Promise<void> {
+  const objectStorage = new ObjectStorageService();
+  const runs = await storage.getAnalyticsReportRuns(reportId, 10000);
+  for (const run of runs) {
+    if (!run.artifactPath) continue;
+    try {
+      await objectStorage.deleteObjectEntity(run.artifactPath);
+    } catch (error) {
+      console.error(`Failed to delete report file ${run.artifactPath}:`, error);
+    }
+  }
+  await storage.deleteAnalyticsReport(reportId);
+}
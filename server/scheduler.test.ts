@@ -0,0 +1,77 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+
+// storage.ts connects lazily, so any URL lets it load; the lease calls are replaced below
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+
+const { storage } = await import("./storage");
+const { JobScheduler } = await import("./scheduler");
+
+const emptyOutcome = { entitiesProcessed: 1, assignmentsCreated: 0, notificationsSent: 0, errors: [] };
+
+describe("JobScheduler.runJob", () => {
+  it("runs a job once when a manual run overlaps a scheduled one", async () => {
+    mock.method(storage, "acquireSchedulerJobLock", async () => true);
+    mock.method(storage, "renewSchedulerJobLock", async () => true);
+    const release = mock.method(storage, "releaseSchedulerJobLock", async () => undefined);
+
+    let runs = 0;
+    const scheduler = new JobScheduler();
+    scheduler.registerJob({
+      name: "overlap",
+      description: "Test job",
+      intervalMs: 60 * 1000,
+      run: async () => {
+        runs++;
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return emptyOutcome;
+      },
+    });
+
+    const [scheduled, manual] = await Promise.all([
+      scheduler.runJob("overlap", "schedule"),
+      scheduler.runJob("overlap", "manual", "admin"),
+    ]);
+    assert.equal(runs, 1);
+    assert.equal(scheduled.status, "completed");
+    assert.equal(manual.status, "skipped");
+    assert.equal(release.mock.callCount(), 1);
+
+    // The job can run again once the first run has released its lease
+    assert.equal((await scheduler.runJob("overlap", "manual")).status, "completed");
+    assert.equal(runs, 2);
+  });
+
+  it("renews the lease while a long run is in progress", async () => {
+    mock.method(storage, "acquireSchedulerJobLock", async () => true);
+    mock.method(storage, "releaseSchedulerJobLock", async () => undefined);
+    const renew = mock.method(storage, "renewSchedulerJobLock", async () => true);
+
+    const scheduler = new JobScheduler(3000);
+    scheduler.registerJob({
+      name: "long",
+      description: "Test job",
+      intervalMs: 60 * 1000,
+      run: async () => {
+        await new Promise(resolve => setTimeout(resolve, 2200));
+        return emptyOutcome;
+      },
+    });
+
+    await scheduler.runJob("long", "manual");
+    assert.equal(renew.mock.callCount(), 2);
+  });
+
+  it("skips the run when another instance holds the lease", async () => {
+    mock.method(storage, "acquireSchedulerJobLock", async () => false);
+    const scheduler = new JobScheduler();
+    let runs = 0;
+    scheduler.registerJob({ name: "locked", description: "Test job", intervalMs: 60 * 1000, run: async () => { runs++; return emptyOutcome; } });
+
+    const result = await scheduler.runJob("locked", "schedule");
+    assert.equal(result.status, "skipped");
+    assert.equal(runs, 0);
+    mock.method(storage, "getSchedulerJobLocks", async () => []);
+    assert.equal((await scheduler.getJobStatuses())[0].isRunning, false);
+  });
+});
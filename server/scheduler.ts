@@ -0,0 +1,791 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { storage } from "./storage";
+import { processDueWebhookDeliveries } from "./webhookDelivery";
+import { forwardDueXapiStatements } from "./xapi";
+import { closeOverdueQuizAttempts } from "./quizAttempts";
+import { pruneApiTokenAccessLog } from "./apiTokens";
+import { processDomainEvents, pruneDomainEvents } from "./domainEvents";
+import { processDueNotificationDeliveries, sendNotificationDigests } from "./notificationChannels";
+import { processDueScheduledReports, pruneReportArtifacts } from "./scheduledReports";
+import type {
+  LearningPathEnrollment,
+  RecurringAssignment,
+  RelativeDueDateConfig,
+  User,
+} from "@shared/schema";
+
+// Time-based automation jobs and the scheduler that runs them.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Long runs renew the lease every third of it, so another instance can only take over once the holder has stopped
+const DEFAULT_LEASE_MS = 15 * 60 * 1000;
+
+export type SchedulerJobTrigger = "schedule" | "manual";
+
+export interface SchedulerJobResult {
+  status: "completed" | "failed" | "skipped";
+  reason?: string;
+  entitiesProcessed: number;
+  assignmentsCreated: number;
+  notificationsSent: number;
+  errors: string[];
+  durationMs: number;
+}
+
+export interface SchedulerJobStatus {
+  name: string;
+  description: string;
+  intervalMs: number;
+  isRunning: boolean;
+  lastRunAt: Date | null;
+  lastTrigger: SchedulerJobTrigger | null;
+  lastResult: SchedulerJobResult | null;
+  nextRunAt: Date | null;
+  lock: {
+    lockedBy: string | null;
+    lockedUntil: Date;
+    lastCompletedAt: Date | null;
+    lastStatus: string | null;
+  } | null;
+}
+
+interface SchedulerJobDefinition {
+  name: string;
+  description: string;
+  intervalMs: number;
+  run: (context: SchedulerJobContext) => Promise<Omit<SchedulerJobResult, "status" | "durationMs">>;
+}
+
+interface SchedulerJobContext {
+  trigger: SchedulerJobTrigger;
+  triggeredBy?: string;
+  now: Date;
+}
+
+interface RegisteredJob extends SchedulerJobDefinition {
+  timer: NodeJS.Timeout | null;
+  isRunning: boolean;
+  lastRunAt: Date | null;
+  lastTrigger: SchedulerJobTrigger | null;
+  lastResult: SchedulerJobResult | null;
+  nextRunAt: Date | null;
+}
+
+export class SchedulerJobNotFoundError extends Error {
+  constructor(jobName: string) {
+    super(`Scheduler job "${jobName}" not found`);
+    this.name = "SchedulerJobNotFoundError";
+    Object.setPrototypeOf(this, SchedulerJobNotFoundError.prototype);
+  }
+}
+
+// In-process scheduler for time-based automation. Every run is guarded by a database lease
+// so that only one server instance executes a given job at a time.
+export class JobScheduler {
+  private readonly instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private readonly jobs = new Map<string, RegisteredJob>();
+  private started = false;
+
+  constructor(private readonly leaseMs: number = DEFAULT_LEASE_MS) {}
+
+  getInstanceId(): string {
+    return this.instanceId;
+  }
+
+  registerJob(definition: SchedulerJobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Scheduler job "${definition.name}" is already registered`);
+    }
+    this.jobs.set(definition.name, {
+      ...definition,
+      timer: null,
+      isRunning: false,
+      lastRunAt: null,
+      lastTrigger: null,
+      lastResult: null,
+      nextRunAt: null,
+    });
+    if (this.started) {
+      this.scheduleJob(definition.name);
+    }
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    for (const name of Array.from(this.jobs.keys())) {
+      this.scheduleJob(name);
+    }
+    console.log(`[SCHEDULER] Started ${this.jobs.size} job(s) on instance ${this.instanceId}`);
+  }
+
+  stop(): void {
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.timer) {
+        clearInterval(job.timer);
+        job.timer = null;
+      }
+      job.nextRunAt = null;
+    }
+    this.started = false;
+  }
+
+  async runJob(name: string, trigger: SchedulerJobTrigger, triggeredBy?: string): Promise<SchedulerJobResult> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new SchedulerJobNotFoundError(name);
+    }
+
+    const startedAt = Date.now();
+    const skipped = (reason: string): SchedulerJobResult => ({
+      status: "skipped",
+      reason,
+      entitiesProcessed: 0,
+      assignmentsCreated: 0,
+      notificationsSent: 0,
+      errors: [],
+      durationMs: Date.now() - startedAt,
+    });
+
+    if (job.isRunning) {
+      return skipped("Job is already running on this instance");
+    }
+    // Claimed before the first await so a manual run and a timer tick can't both get past the check
+    job.isRunning = true;
+
+    let acquired: boolean;
+    try {
+      acquired = await storage.acquireSchedulerJobLock(name, this.instanceId, this.leaseMs);
+    } catch (error) {
+      job.isRunning = false;
+      throw error;
+    }
+    if (!acquired) {
+      job.isRunning = false;
+      return skipped("Job is locked by another instance");
+    }
+
+    const renewal = setInterval(() => {
+      storage.renewSchedulerJobLock(name, this.instanceId, this.leaseMs).catch(error => {
+        console.error(`[SCHEDULER] Failed to renew lock for job ${name}:`, error);
+      });
+    }, Math.max(1000, Math.floor(this.leaseMs / 3)));
+    renewal.unref();
+
+    let result: SchedulerJobResult;
+    try {
+      const outcome = await job.run({ trigger, triggeredBy, now: new Date(startedAt) });
+      result = {
+        ...outcome,
+        status: outcome.errors.length > 0 ? "failed" : "completed",
+        durationMs: Date.now() - startedAt,
+      };
+    } catch (error: any) {
+      console.error(`[SCHEDULER] Job ${name} crashed:`, error);
+      result = {
+        status: "failed",
+        entitiesProcessed: 0,
+        assignmentsCreated: 0,
+        notificationsSent: 0,
+        errors: [error?.message || String(error)],
+        durationMs: Date.now() - startedAt,
+      };
+    } finally {
+      clearInterval(renewal);
+    }
+
+    job.lastRunAt = new Date(startedAt);
+    job.lastTrigger = trigger;
+    job.lastResult = result;
+
+    try {
+      await storage.releaseSchedulerJobLock(name, this.instanceId, result.status === "failed" ? "failed" : "completed");
+    } catch (error) {
+      // The lease simply expires if release fails
+      console.error(`[SCHEDULER] Failed to release lock for job ${name}:`, error);
+    } finally {
+      job.isRunning = false;
+    }
+
+    // Idle scheduled runs are frequent for short-interval jobs, so only log runs that did something
+    if (trigger === "manual" || result.status !== "completed" || result.entitiesProcessed > 0) {
+      console.log(`[SCHEDULER] Job ${name} ${result.status} (${trigger}) in ${result.durationMs}ms - ${result.entitiesProcessed} processed, ${result.assignmentsCreated} assigned, ${result.notificationsSent} notified`);
+    }
+    return result;
+  }
+
+  async getJobStatuses(): Promise<SchedulerJobStatus[]> {
+    const locks = await storage.getSchedulerJobLocks();
+    const locksByName = new Map(locks.map((lock) => [lock.jobName, lock]));
+
+    return Array.from(this.jobs.values()).map((job) => {
+      const lock = locksByName.get(job.name);
+      return {
+        name: job.name,
+        description: job.description,
+        intervalMs: job.intervalMs,
+        isRunning: job.isRunning,
+        lastRunAt: job.lastRunAt,
+        lastTrigger: job.lastTrigger,
+        lastResult: job.lastResult,
+        nextRunAt: job.nextRunAt,
+        lock: lock
+          ? {
+              lockedBy: lock.lockedBy,
+              lockedUntil: lock.lockedUntil,
+              lastCompletedAt: lock.lastCompletedAt,
+              lastStatus: lock.lastStatus,
+            }
+          : null,
+      };
+    });
+  }
+
+  private scheduleJob(name: string): void {
+    const job = this.jobs.get(name);
+    if (!job || job.timer) return;
+
+    job.nextRunAt = new Date(Date.now() + job.intervalMs);
+    job.timer = setInterval(() => {
+      job.nextRunAt = new Date(Date.now() + job.intervalMs);
+      this.runJob(name, "schedule").catch((error) => {
+        console.error(`[SCHEDULER] Scheduled run of ${name} failed:`, error);
+      });
+    }, job.intervalMs);
+    // Timers must never keep the process alive on shutdown
+    job.timer.unref();
+  }
+}
+
+// Calculates the next run strictly after `now`, skipping any runs missed while the server was down
+export function calculateNextRecurringRun(assignment: RecurringAssignment, now: Date = new Date()): Date {
+  const interval = Math.max(1, assignment.recurrenceInterval || 1);
+  const weekdays = Array.isArray(assignment.recurrenceWeekdays)
+    ? (assignment.recurrenceWeekdays as number[]).filter((day) => day >= 0 && day <= 6)
+    : [];
+
+  const advance = (from: Date): Date => {
+    const next = new Date(from);
+    switch (assignment.recurrenceType) {
+      case "daily":
+        next.setDate(next.getDate() + interval);
+        break;
+      case "weekly":
+        if (weekdays.length > 0) {
+          // Move to the next configured weekday; the interval applies once the week wraps around
+          next.setDate(next.getDate() + 1);
+          while (!weekdays.includes(next.getDay())) {
+            next.setDate(next.getDate() + 1);
+          }
+          if (interval > 1 && next.getDay() <= from.getDay()) {
+            next.setDate(next.getDate() + (interval - 1) * 7);
+          }
+        } else {
+          next.setDate(next.getDate() + interval * 7);
+        }
+        break;
+      case "monthly":
+        next.setMonth(next.getMonth() + interval);
+        break;
+      case "quarterly":
+        next.setMonth(next.getMonth() + interval * 3);
+        break;
+      case "yearly":
+        next.setFullYear(next.getFullYear() + interval);
+        break;
+      default:
+        // "custom" and unknown types fall back to an interval in days
+        next.setDate(next.getDate() + interval);
+    }
+    return next;
+  };
+
+  let next = advance(assignment.nextRun);
+  while (next.getTime() <= now.getTime()) {
+    next = advance(next);
+  }
+  return next;
+}
+
+function resolveRecurringAssignmentTargets(assignment: RecurringAssignment, allUsers: User[]): User[] {
+  const asList = (value: unknown): string[] => (Array.isArray(value) ? value.map(String) : []);
+
+  switch (assignment.targetAudience) {
+    case "all_users":
+      return allUsers;
+    case "by_role": {
+      // Roles may be access roles ("supervisor") or job roles (by ID or legacy enum value)
+      const roles = asList(assignment.targetRoles);
+      return allUsers.filter((user) =>
+        roles.includes(user.role) ||
+        (user.jobRoleId !== null && roles.includes(user.jobRoleId)) ||
+        (user.jobRole !== null && roles.includes(user.jobRole))
+      );
+    }
+    case "by_team": {
+      const teamIds = asList(assignment.targetTeams);
+      return allUsers.filter((user) => user.teamId !== null && teamIds.includes(user.teamId));
+    }
+    case "specific_users": {
+      const userIds = asList(assignment.targetUsers);
+      return allUsers.filter((user) => userIds.includes(user.id));
+    }
+    default:
+      return [];
+  }
+}
+
+async function executeRecurringAssignment(
+  assignment: RecurringAssignment,
+  context: SchedulerJobContext,
+  allUsers: User[],
+): Promise<{ assignmentsCreated: number; notificationsSent: number; errors: string[] }> {
+  const startedAt = Date.now();
+  const runLog = await storage.createAutomationRunLog({
+    runType: "recurring_assignment",
+    entityId: assignment.id,
+    entityType: "recurring_assignment",
+    status: "started",
+    startedAt: context.now,
+    executionDetails: { trigger: context.trigger, triggeredBy: context.triggeredBy ?? "system" },
+  });
+
+  const errors: string[] = [];
+  const affectedUsers: string[] = [];
+  let assignmentsCreated = 0;
+  let notificationsSent = 0;
+  let skippedUsers = 0;
+
+  try {
+    const path = await storage.getLearningPath(assignment.pathId);
+    if (!path) {
+      throw new Error(`Learning path ${assignment.pathId} not found`);
+    }
+
+    const targets = resolveRecurringAssignmentTargets(assignment, allUsers);
+    const dueDate = new Date(context.now.getTime() + (assignment.relativeDueDays ?? 30) * DAY_MS);
+
+    for (const user of targets) {
+      try {
+        const enrollment = await storage.enrollUserInLearningPath({
+          userId: user.id,
+          pathId: assignment.pathId,
+          startDate: context.now,
+          dueDate,
+          assignedBy: assignment.createdBy,
+          enrollmentSource: "recurring_assignment",
+          metadata: {
+            recurringAssignmentId: assignment.id,
+            automationRunLogId: runLog.id,
+            autoAssigned: true,
+          },
+        });
+        assignmentsCreated++;
+        affectedUsers.push(user.id);
+
+        await storage.notifyEnrollment(user.id, path.title, enrollment.id);
+        notificationsSent++;
+      } catch (error: any) {
+        if (error?.message === "User is already enrolled in this learning path") {
+          skippedUsers++;
+          continue;
+        }
+        errors.push(`Failed to assign path to user ${user.id}: ${error?.message || error}`);
+      }
+    }
+  } catch (error: any) {
+    errors.push(error?.message || String(error));
+  }
+
+  const nextRun = calculateNextRecurringRun(assignment, context.now);
+  await storage.updateRecurringAssignmentNextRun(
+    assignment.id,
+    nextRun,
+    context.now,
+    errors.length > 0 ? errors.join("; ").slice(0, 1000) : undefined,
+  );
+  if (assignment.endDate && nextRun.getTime() > assignment.endDate.getTime()) {
+    await storage.updateRecurringAssignment(assignment.id, { isActive: false });
+  }
+
+  await storage.updateAutomationRunLog(runLog.id, {
+    status: errors.length > 0 ? "failed" : "completed",
+    completedAt: new Date(),
+    affectedUsers,
+    assignmentsCreated,
+    notificationsSent,
+    errors: errors.length > 0 ? errors.map((message) => ({ message })) : null,
+    executionDetails: {
+      trigger: context.trigger,
+      triggeredBy: context.triggeredBy ?? "system",
+      skippedAlreadyEnrolled: skippedUsers,
+      nextRun: nextRun.toISOString(),
+    },
+    duration: Date.now() - startedAt,
+  });
+
+  return { assignmentsCreated, notificationsSent, errors };
+}
+
+async function runRecurringAssignmentsJob(context: SchedulerJobContext) {
+  const dueAssignments = await storage.getDueRecurringAssignments();
+  const result = { entitiesProcessed: 0, assignmentsCreated: 0, notificationsSent: 0, errors: [] as string[] };
+  if (dueAssignments.length === 0) {
+    return result;
+  }
+
+  const allUsers = await storage.getAllUsers();
+  for (const assignment of dueAssignments) {
+    // Not yet started - getDueRecurringAssignments only compares nextRun
+    if (assignment.startDate.getTime() > context.now.getTime()) continue;
+
+    const outcome = await executeRecurringAssignment(assignment, context, allUsers);
+    result.entitiesProcessed++;
+    result.assignmentsCreated += outcome.assignmentsCreated;
+    result.notificationsSent += outcome.notificationsSent;
+    result.errors.push(...outcome.errors.map((error) => `[${assignment.name}] ${error}`));
+  }
+  return result;
+}
+
+async function processDueDateConfig(
+  config: RelativeDueDateConfig,
+  context: SchedulerJobContext,
+): Promise<{ notificationsSent: number; errors: string[] }> {
+  const startedAt = Date.now();
+  const runLog = await storage.createAutomationRunLog({
+    runType: "due_date_reminder",
+    entityId: config.id,
+    entityType: "due_date_config",
+    status: "started",
+    startedAt: context.now,
+    executionDetails: { trigger: context.trigger, pathId: config.pathId },
+  });
+
+  const errors: string[] = [];
+  const affectedUsers: string[] = [];
+  let notificationsSent = 0;
+  let remindersSent = 0;
+  let overdueNoticesSent = 0;
+  let extensionsApplied = 0;
+
+  try {
+    const path = await storage.getLearningPath(config.pathId);
+    if (!path) {
+      throw new Error(`Learning path ${config.pathId} not found`);
+    }
+
+    const reminderDays = Array.isArray(config.reminderDaysBefore)
+      ? (config.reminderDaysBefore as unknown[]).map(Number).filter((day) => Number.isFinite(day))
+      : [];
+    const graceDays = config.enableGracePeriod ? (config.gracePeriodDays ?? 0) : 0;
+    const today = context.now.toISOString().slice(0, 10);
+
+    const enrollments = await storage.getLearningPathEnrollments(undefined, config.pathId);
+    const openEnrollments = enrollments.filter(
+      (enrollment): enrollment is LearningPathEnrollment & { dueDate: Date } =>
+        !!enrollment.dueDate && (enrollment.enrollmentStatus === "active" || enrollment.enrollmentStatus === null)
+    );
+
+    for (const enrollment of openEnrollments) {
+      try {
+        const metadata = (enrollment.metadata as Record<string, any> | null) ?? {};
+        const msUntilDue = enrollment.dueDate.getTime() - context.now.getTime();
+
+        if (msUntilDue >= 0) {
+          if (!config.enableReminders) continue;
+          const daysUntilDue = Math.ceil(msUntilDue / DAY_MS);
+          const alreadySent: number[] = Array.isArray(metadata.remindersSent) ? metadata.remindersSent : [];
+          if (!reminderDays.includes(daysUntilDue) || alreadySent.includes(daysUntilDue)) continue;
+
+          await storage.notifyTrainingDue(enrollment.userId, path.title, enrollment.dueDate, enrollment.id);
+          await storage.updateLearningPathEnrollment(enrollment.id, {
+            metadata: { ...metadata, remindersSent: [...alreadySent, daysUntilDue] },
+          });
+          remindersSent++;
+          notificationsSent++;
+          affectedUsers.push(enrollment.userId);
+          continue;
+        }
+
+        const daysPastDue = Math.floor(-msUntilDue / DAY_MS);
+        if (daysPastDue < graceDays) continue;
+
+        // A single automatic extension is granted before the enrollment is reported as overdue
+        if ((config.autoExtensionDays ?? 0) > 0 && !metadata.autoExtendedAt) {
+          const extendedDueDate = new Date(enrollment.dueDate.getTime() + (config.autoExtensionDays ?? 0) * DAY_MS);
+          await storage.updateLearningPathEnrollment(enrollment.id, {
+            dueDate: extendedDueDate,
+            metadata: {
+              ...metadata,
+              autoExtendedAt: context.now.toISOString(),
+              originalDueDate: enrollment.dueDate.toISOString(),
+              remindersSent: [],
+            },
+          });
+          extensionsApplied++;
+          affectedUsers.push(enrollment.userId);
+          continue;
+        }
+
+        // Overdue notices go out at most once per day
+        if (metadata.lastOverdueNoticeDate === today) continue;
+
+        await storage.notifyTrainingOverdue(enrollment.userId, path.title, daysPastDue, enrollment.id);
+        await storage.updateLearningPathEnrollment(enrollment.id, {
+          metadata: { ...metadata, lastOverdueNoticeDate: today },
+        });
+        overdueNoticesSent++;
+        notificationsSent++;
+        affectedUsers.push(enrollment.userId);
+      } catch (error: any) {
+        errors.push(`Failed to process enrollment ${enrollment.id}: ${error?.message || error}`);
+      }
+    }
+  } catch (error: any) {
+    errors.push(error?.message || String(error));
+  }
+
+  await storage.updateAutomationRunLog(runLog.id, {
+    status: errors.length > 0 ? "failed" : "completed",
+    completedAt: new Date(),
+    affectedUsers,
+    notificationsSent,
+    errors: errors.length > 0 ? errors.map((message) => ({ message })) : null,
+    executionDetails: {
+      trigger: context.trigger,
+      pathId: config.pathId,
+      remindersSent,
+      overdueNoticesSent,
+      extensionsApplied,
+    },
+    duration: Date.now() - startedAt,
+  });
+
+  return { notificationsSent, errors };
+}
+
+async function runDueDateRemindersJob(context: SchedulerJobContext) {
+  const configs = await storage.getAllRelativeDueDateConfigs();
+  const result = { entitiesProcessed: 0, assignmentsCreated: 0, notificationsSent: 0, errors: [] as string[] };
+
+  for (const config of configs) {
+    const outcome = await processDueDateConfig(config, context);
+    result.entitiesProcessed++;
+    result.notificationsSent += outcome.notificationsSent;
+    result.errors.push(...outcome.errors.map((error) => `[path ${config.pathId}] ${error}`));
+  }
+  return result;
+}
+
+async function runWebhookDeliveriesJob(_context: SchedulerJobContext) {
+  const summary = await processDueWebhookDeliveries();
+  // Receiver failures are tracked per delivery, so they don't fail the job itself
+  return {
+    entitiesProcessed: summary.processed,
+    assignmentsCreated: 0,
+    notificationsSent: summary.delivered,
+    errors: [] as string[],
+  };
+}
+
+async function runXapiForwardingJob(_context: SchedulerJobContext) {
+  const summary = await forwardDueXapiStatements();
+  return {
+    entitiesProcessed: summary.processed,
+    assignmentsCreated: 0,
+    notificationsSent: summary.forwarded,
+    errors: summary.failed > 0 ? [`${summary.failed} statement(s) could not be forwarded`] : [],
+  };
+}
+
+async function runQuizAttemptDeadlinesJob(_context: SchedulerJobContext) {
+  const summary = await closeOverdueQuizAttempts();
+  return {
+    entitiesProcessed: summary.processed,
+    assignmentsCreated: 0,
+    notificationsSent: summary.autoSubmitted,
+    errors: summary.errors,
+  };
+}
+
+async function runApiTokenAccessLogRetentionJob(context: SchedulerJobContext) {
+  const deleted = await pruneApiTokenAccessLog(context.now);
+  return {
+    entitiesProcessed: deleted,
+    assignmentsCreated: 0,
+    notificationsSent: 0,
+    errors: [] as string[],
+  };
+}
+
+async function runDomainEventsJob(_context: SchedulerJobContext) {
+  const summary = await processDomainEvents();
+  // Subscriber failures are retried per event, so only events that have run out of attempts are reported
+  return {
+    entitiesProcessed: summary.processed + summary.retrying + summary.failed,
+    assignmentsCreated: 0,
+    notificationsSent: summary.processed,
+    errors: summary.failed > 0 ? [`${summary.failed} domain event(s) failed after their last attempt`] : [],
+  };
+}
+
+async function runDomainEventRetentionJob(context: SchedulerJobContext) {
+  const deleted = await pruneDomainEvents(context.now);
+  return {
+    entitiesProcessed: deleted,
+    assignmentsCreated: 0,
+    notificationsSent: 0,
+    errors: [] as string[],
+  };
+}
+
+async function runNotificationDeliveriesJob(_context: SchedulerJobContext) {
+  const summary = await processDueNotificationDeliveries();
+  return {
+    entitiesProcessed: summary.sent + summary.deferred + summary.retrying + summary.failed,
+    assignmentsCreated: 0,
+    notificationsSent: summary.sent,
+    errors: summary.failed > 0 ? [`${summary.failed} email/SMS notification(s) could not be delivered`] : [],
+  };
+}
+
+async function runNotificationDigestsJob(context: SchedulerJobContext) {
+  const summary = await sendNotificationDigests(context.now);
+  return {
+    entitiesProcessed: summary.checked,
+    assignmentsCreated: 0,
+    notificationsSent: summary.queued,
+    errors: summary.errors,
+  };
+}
+
+async function runScheduledReportsJob(context: SchedulerJobContext) {
+  const summary = await processDueScheduledReports(context.now);
+  return {
+    entitiesProcessed: summary.checked,
+    assignmentsCreated: 0,
+    notificationsSent: summary.succeeded,
+    errors: summary.errors,
+  };
+}
+
+async function runReportRetentionJob(context: SchedulerJobContext) {
+  const summary = await pruneReportArtifacts(context.now);
+  return {
+    entitiesProcessed: summary.deleted,
+    assignmentsCreated: 0,
+    notificationsSent: 0,
+    errors: summary.errors,
+  };
+}
+
+async function runObjectiveDependencyRiskJob(context: SchedulerJobContext) {
+  const summary = await storage.refreshObjectiveDependencyRisk(context.now);
+  return {
+    entitiesProcessed: summary.objectivesChecked,
+    assignmentsCreated: 0,
+    notificationsSent: summary.newlyAtRisk,
+    errors: [] as string[],
+  };
+}
+
+function intervalFromEnv(name: string, fallbackMs: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallbackMs;
+}
+
+export const jobScheduler = new JobScheduler();
+
+jobScheduler.registerJob({
+  name: "recurring_assignments",
+  description: "Assigns learning paths for recurring assignments whose next run is due",
+  intervalMs: intervalFromEnv("SCHEDULER_RECURRING_INTERVAL_MS", 5 * 60 * 1000),
+  run: runRecurringAssignmentsJob,
+});
+
+jobScheduler.registerJob({
+  name: "due_date_reminders",
+  description: "Sends due-date reminders and overdue notices for relative due date configurations",
+  intervalMs: intervalFromEnv("SCHEDULER_REMINDER_INTERVAL_MS", 60 * 60 * 1000),
+  run: runDueDateRemindersJob,
+});
+
+jobScheduler.registerJob({
+  name: "webhook_deliveries",
+  description: "Delivers queued webhook notifications, retrying failures with exponential backoff",
+  intervalMs: intervalFromEnv("SCHEDULER_WEBHOOK_INTERVAL_MS", 15 * 1000),
+  run: runWebhookDeliveriesJob,
+});
+
+jobScheduler.registerJob({
+  name: "xapi_forwarding",
+  description: "Forwards stored xAPI statements to the external LRS configured in XAPI_FORWARD_ENDPOINT",
+  intervalMs: intervalFromEnv("SCHEDULER_XAPI_FORWARD_INTERVAL_MS", 60 * 1000),
+  run: runXapiForwardingJob,
+});
+
+jobScheduler.registerJob({
+  name: "quiz_attempt_deadlines",
+  description: "Auto-submits or voids quiz attempts left open past their time limit",
+  intervalMs: intervalFromEnv("SCHEDULER_QUIZ_DEADLINE_INTERVAL_MS", 60 * 1000),
+  run: runQuizAttemptDeadlinesJob,
+});
+
+jobScheduler.registerJob({
+  name: "api_token_access_log_retention",
+  description: "Deletes API token access log entries older than API_TOKEN_ACCESS_LOG_RETENTION_DAYS (default 90)",
+  intervalMs: intervalFromEnv("SCHEDULER_API_TOKEN_LOG_INTERVAL_MS", 24 * 60 * 60 * 1000),
+  run: runApiTokenAccessLogRetentionJob,
+});
+
+jobScheduler.registerJob({
+  name: "domain_events",
+  description: "Hands new domain events to webhook, notification and automation subscribers, retrying failures with backoff",
+  intervalMs: intervalFromEnv("SCHEDULER_DOMAIN_EVENT_INTERVAL_MS", 5 * 1000),
+  run: runDomainEventsJob,
+});
+
+jobScheduler.registerJob({
+  name: "domain_event_retention",
+  description: "Deletes processed domain events older than DOMAIN_EVENT_RETENTION_DAYS (default 30)",
+  intervalMs: intervalFromEnv("SCHEDULER_DOMAIN_EVENT_RETENTION_INTERVAL_MS", 24 * 60 * 60 * 1000),
+  run: runDomainEventRetentionJob,
+});
+
+jobScheduler.registerJob({
+  name: "notification_deliveries",
+  description: "Sends queued email and SMS notifications, holding non-urgent ones until the recipient's quiet hours end",
+  intervalMs: intervalFromEnv("SCHEDULER_NOTIFICATION_DELIVERY_INTERVAL_MS", 30 * 1000),
+  run: runNotificationDeliveriesJob,
+});
+
+jobScheduler.registerJob({
+  name: "notification_digests",
+  description: "Queues daily and weekly digest emails of due and overdue training and goal deadlines",
+  intervalMs: intervalFromEnv("SCHEDULER_NOTIFICATION_DIGEST_INTERVAL_MS", 15 * 60 * 1000),
+  run: runNotificationDigestsJob,
+});
+
+jobScheduler.registerJob({
+  name: "scheduled_reports",
+  description: "Generates scheduled analytics reports whose cron expression is due and emails them to their recipients",
+  intervalMs: intervalFromEnv("SCHEDULER_REPORT_INTERVAL_MS", 60 * 1000),
+  run: runScheduledReportsJob,
+});
+
+jobScheduler.registerJob({
+  name: "report_retention",
+  description: "Deletes scheduled report files older than their report's retention period",
+  intervalMs: intervalFromEnv("SCHEDULER_REPORT_RETENTION_INTERVAL_MS", 60 * 60 * 1000),
+  run: runReportRetentionJob,
+});
+
+jobScheduler.registerJob({
+  name: "okr_dependency_risk",
+  description: "Flags company objectives whose upstream dependencies have gone red as at risk and notifies their owners",
+  intervalMs: intervalFromEnv("SCHEDULER_OKR_DEPENDENCY_INTERVAL_MS", 60 * 60 * 1000),
+  run: runObjectiveDependencyRiskJob,
+});
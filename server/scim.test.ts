@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+// storage.ts connects lazily, so any URL lets it load; nothing here touches the database
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+
+const { applyPatchOperations, ScimError, SCIM_SCHEMAS } = await import("./scim");
+
+const user = {
+  userName: "jo@example.com",
+  name: { givenName: "Jo", familyName: "Bloggs" },
+  emails: [{ value: "jo@example.com", type: "work", primary: true }],
+  active: true,
+};
+
+describe("applyPatchOperations", () => {
+  it("replaces core and sub-attributes, matching names case-insensitively", () => {
+    const patched = applyPatchOperations(user, [
+      { op: "replace", path: "Active", value: false },
+      { op: "replace", path: "name.givenName", value: "Joanne" },
+    ]);
+    assert.equal(patched.active, false);
+    assert.equal(patched.name.givenName, "Joanne");
+    assert.equal(patched.name.familyName, "Bloggs");
+    assert.equal(user.active, true);
+  });
+
+  it("updates or adds entries picked out by a filter", () => {
+    const patched = applyPatchOperations(user, [
+      { op: "replace", path: 'emails[type eq "work"].value', value: "jo@new.example.com" },
+      { op: "add", path: 'emails[type eq "home"].value', value: "jo@home.example.com" },
+    ]);
+    assert.deepEqual(patched.emails.map((email: any) => email.value), ["jo@new.example.com", "jo@home.example.com"]);
+  });
+
+  it("applies path-less values, including extension attributes", () => {
+    const patched = applyPatchOperations(user, [
+      { op: "replace", value: { "name.familyName": "Smith", [SCIM_SCHEMAS.enterpriseUser]: { department: "Ops" } } },
+    ]);
+    assert.equal(patched.name.familyName, "Smith");
+    assert.equal(patched[SCIM_SCHEMAS.enterpriseUser].department, "Ops");
+  });
+
+  it("removes listed values from a multi-valued attribute", () => {
+    const group = { displayName: "Ops", members: [{ value: "a" }, { value: "b" }] };
+    const patched = applyPatchOperations(group, [{ op: "remove", path: "members", value: [{ value: "a" }] }]);
+    assert.deepEqual(patched.members, [{ value: "b" }]);
+  });
+
+  it("refuses paths and values that would reach Object.prototype", () => {
+    const attempts = [
+      { op: "replace" as const, path: "__proto__.polluted", value: "yes" },
+      { op: "replace" as const, path: "constructor.prototype", value: { polluted: "yes" } },
+      { op: "add" as const, path: 'emails[__proto__ eq "x"].polluted', value: "yes" },
+      { op: "replace" as const, value: JSON.parse('{"__proto__": {"polluted": "yes"}}') },
+      { op: "add" as const, path: "name", value: JSON.parse('{"__proto__": {"polluted": "yes"}}') },
+    ];
+    for (const attempt of attempts) {
+      assert.throws(() => applyPatchOperations(user, [attempt]), ScimError);
+    }
+    assert.equal(({} as any).polluted, undefined);
+  });
+});
@@ -0,0 +1,788 @@
+import { createHash, timingSafeEqual } from "crypto";
+import express, { type Request, type RequestHandler, type Response } from "express";
+import { z } from "zod";
+import type { Department, Team, UpsertUser, User } from "@shared/schema";
+import { storage } from "./storage";
+
+// SCIM 2.0 (RFC 7643/7644) provisioning of users, and of teams as SCIM Groups, from an HR system or identity provider.
+
+export const SCIM_CONTENT_TYPE = "application/scim+json";
+
+export const SCIM_SCHEMAS = {
+  user: "urn:ietf:params:scim:schemas:core:2.0:User",
+  group: "urn:ietf:params:scim:schemas:core:2.0:Group",
+  enterpriseUser: "urn:ietf:params:scim:schemas:extension:enterprise:2.0:User",
+  wegrowUser: "urn:wegrow:params:scim:schemas:extension:2.0:User",
+  wegrowGroup: "urn:wegrow:params:scim:schemas:extension:2.0:Group",
+  listResponse: "urn:ietf:params:scim:api:messages:2.0:ListResponse",
+  patchOp: "urn:ietf:params:scim:api:messages:2.0:PatchOp",
+  error: "urn:ietf:params:scim:api:messages:2.0:Error",
+  serviceProviderConfig: "urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig",
+  resourceType: "urn:ietf:params:scim:schemas:core:2.0:ResourceType",
+} as const;
+
+const EXTENSION_SCHEMAS = [SCIM_SCHEMAS.enterpriseUser, SCIM_SCHEMAS.wegrowUser, SCIM_SCHEMAS.wegrowGroup];
+const MAX_PAGE_SIZE = 200;
+
+// Carries the HTTP status and, for 400/409, the scimType the spec defines
+export class ScimError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400, public readonly scimType?: string) {
+    super(message);
+    this.name = "ScimError";
+    Object.setPrototypeOf(this, ScimError.prototype);
+  }
+}
+
+function scimErrorBody(statusCode: number, detail: string, scimType?: string) {
+  return { schemas: [SCIM_SCHEMAS.error], status: String(statusCode), detail, ...(scimType ? { scimType } : {}) };
+}
+
+export function sendScim(res: Response, statusCode: number, body: unknown) {
+  res.status(statusCode).type(SCIM_CONTENT_TYPE).json(body);
+}
+
+export function handleScimError(error: unknown, res: Response, action: string) {
+  if (error instanceof ScimError) {
+    return sendScim(res, error.statusCode, scimErrorBody(error.statusCode, error.message, error.scimType));
+  }
+  if ((error as any)?.code === "23505") {
+    return sendScim(res, 409, scimErrorBody(409, "A resource with the same unique attribute already exists", "uniqueness"));
+  }
+  console.error(`Error trying to ${action}:`, error);
+  sendScim(res, 500, scimErrorBody(500, `Failed to ${action}`));
+}
+
+// Clients send application/scim+json, which the app-wide JSON parser ignores
+export const parseScimJson = express.json({ type: [SCIM_CONTENT_TYPE, "application/json"] });
+
+// Tokens come from SCIM_BEARER_TOKEN; several can be listed comma-separated while rotating
+function getScimTokens(): string[] {
+  return (process.env.SCIM_BEARER_TOKEN ?? "").split(",").map(token => token.trim()).filter(Boolean);
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+export const requireScimToken: RequestHandler = (req, res, next) => {
+  const tokens = getScimTokens();
+  if (tokens.length === 0) {
+    return sendScim(res, 503, scimErrorBody(503, "SCIM provisioning is not configured"));
+  }
+  const header = req.headers.authorization;
+  const presented = header?.startsWith("Bearer ") ? digest(header.slice(7).trim()) : null;
+  if (!presented || !tokens.some(token => timingSafeEqual(digest(token), presented))) {
+    res.set("WWW-Authenticate", 'Bearer realm="SCIM"');
+    return sendScim(res, 401, scimErrorBody(401, "A valid bearer token is required"));
+  }
+  next();
+};
+
+export function getScimBaseUrl(req: Request): string {
+  return process.env.SCIM_BASE_URL ?? `${req.protocol}://${req.get("host")}/scim/v2`;
+}
+
+// ---------------------------------------------------------------------------
+// Discovery
+// ---------------------------------------------------------------------------
+
+export function getServiceProviderConfig(baseUrl: string) {
+  return {
+    schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [{
+      type: "oauthbearertoken",
+      name: "Bearer token",
+      description: "Static bearer token configured in SCIM_BEARER_TOKEN",
+    }],
+    meta: { resourceType: "ServiceProviderConfig", location: `${baseUrl}/ServiceProviderConfig` },
+  };
+}
+
+export function getResourceTypes(baseUrl: string) {
+  const resources = [
+    { id: "User", name: "User", endpoint: "/Users", schema: SCIM_SCHEMAS.user, extensions: [SCIM_SCHEMAS.enterpriseUser, SCIM_SCHEMAS.wegrowUser] },
+    { id: "Group", name: "Group", endpoint: "/Groups", schema: SCIM_SCHEMAS.group, extensions: [SCIM_SCHEMAS.wegrowGroup] },
+  ];
+  return listResponse(resources.map(({ extensions, ...resource }) => ({
+    schemas: [SCIM_SCHEMAS.resourceType],
+    ...resource,
+    schemaExtensions: extensions.map(schema => ({ schema, required: false })),
+    meta: { resourceType: "ResourceType", location: `${baseUrl}/ResourceTypes/${resource.id}` },
+  })), resources.length, 1);
+}
+
+// ---------------------------------------------------------------------------
+// Listing and filters
+// ---------------------------------------------------------------------------
+
+function listResponse<T>(resources: T[], totalResults: number, startIndex: number) {
+  return {
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults,
+    startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources,
+  };
+}
+
+function readPaging(query: Record<string, unknown>): { startIndex: number; count: number } {
+  const startIndex = Math.max(parseInt(String(query.startIndex ?? "1"), 10) || 1, 1);
+  const requested = parseInt(String(query.count ?? MAX_PAGE_SIZE), 10);
+  const count = Number.isFinite(requested) ? Math.min(Math.max(requested, 0), MAX_PAGE_SIZE) : MAX_PAGE_SIZE;
+  return { startIndex, count };
+}
+
+// Only the equality filters provisioning clients use to look resources up, e.g. userName eq "jo@example.com"
+function parseEqualityFilter(filter: unknown, allowed: Record<string, string>): Record<string, string> {
+  if (filter === undefined || filter === "") return {};
+  const match = /^\s*([\w.:\[\]" ]+?)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i.exec(String(filter));
+  const attribute = match && allowed[match[1].replace(/\s+/g, " ").toLowerCase()];
+  if (!match || !attribute) {
+    throw new ScimError(`Unsupported filter. Supported: ${Object.keys(allowed).map(name => `${name} eq "..."`).join(", ")}`, 400, "invalidFilter");
+  }
+  return { [attribute]: match[2].replace(/\\(.)/g, "$1") };
+}
+
+function listsAttribute(value: unknown, attribute: string): boolean {
+  return typeof value === "string" && value.split(",").some(name => name.trim().toLowerCase() === attribute);
+}
+
+// ---------------------------------------------------------------------------
+// Users
+// ---------------------------------------------------------------------------
+
+interface ScimContext {
+  baseUrl: string;
+  departments: Map<string, Department>;
+}
+
+async function createContext(baseUrl: string): Promise<ScimContext> {
+  const departments = await storage.getAllDepartments();
+  return { baseUrl, departments: new Map(departments.map(department => [department.id, department])) };
+}
+
+function toScimUser(user: User, context: ScimContext) {
+  const location = `${context.baseUrl}/Users/${user.id}`;
+  const displayName = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return {
+    schemas: [SCIM_SCHEMAS.user, SCIM_SCHEMAS.enterpriseUser, SCIM_SCHEMAS.wegrowUser],
+    id: user.id,
+    externalId: user.externalId ?? undefined,
+    userName: user.userName ?? user.email ?? user.id,
+    name: { givenName: user.firstName ?? undefined, familyName: user.lastName ?? undefined, formatted: displayName || undefined },
+    displayName: displayName || undefined,
+    title: user.jobTitle ?? undefined,
+    active: user.isActive,
+    emails: user.email ? [{ value: user.email, type: "work", primary: true }] : [],
+    phoneNumbers: user.mobilePhone ? [{ value: user.mobilePhone, type: "mobile" }] : [],
+    [SCIM_SCHEMAS.enterpriseUser]: {
+      employeeNumber: user.employeeId ?? undefined,
+      department: user.departmentId ? context.departments.get(user.departmentId)?.name : undefined,
+      manager: user.managerId ? { value: user.managerId, $ref: `${context.baseUrl}/Users/${user.managerId}` } : undefined,
+    },
+    [SCIM_SCHEMAS.wegrowUser]: {
+      role: user.role,
+      jobRoleId: user.jobRoleId ?? undefined,
+      teamId: user.teamId ?? undefined,
+    },
+    meta: {
+      resourceType: "User",
+      created: user.createdAt?.toISOString(),
+      lastModified: user.updatedAt?.toISOString(),
+      location,
+    },
+  };
+}
+
+const multiValuedSchema = z.array(z.object({
+  value: z.string().nullish(),
+  type: z.string().nullish(),
+  primary: z.union([z.boolean(), z.string()]).nullish(),
+}).passthrough()).nullish();
+
+const referenceSchema = z.union([z.string(), z.object({ value: z.string().nullish() }).passthrough()]).nullish();
+
+const scimUserSchema = z.object({
+  userName: z.string().trim().min(1, "userName is required"),
+  externalId: z.string().nullish(),
+  name: z.object({ givenName: z.string().nullish(), familyName: z.string().nullish() }).passthrough().nullish(),
+  title: z.string().nullish(),
+  active: z.union([z.boolean(), z.string()]).optional(),
+  emails: multiValuedSchema,
+  phoneNumbers: multiValuedSchema,
+  [SCIM_SCHEMAS.enterpriseUser]: z.object({
+    employeeNumber: z.string().nullish(),
+    department: z.string().nullish(),
+    manager: referenceSchema,
+  }).passthrough().optional(),
+  [SCIM_SCHEMAS.wegrowUser]: z.object({
+    jobRoleId: z.string().nullish(),
+    jobRole: z.string().nullish(), // Job role code or name, for clients that don't know our ids
+    teamId: z.string().nullish(),
+    departmentId: z.string().nullish(),
+  }).passthrough().optional(),
+}).passthrough();
+
+type ScimUserInput = z.infer<typeof scimUserSchema>;
+
+function parseResource<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ScimError(result.error.errors.map(e => `${e.path.join(".") || "resource"}: ${e.message}`).join("; "), 400, "invalidValue");
+  }
+  return result.data;
+}
+
+// Azure AD sends booleans as "True"/"False" strings in PATCH requests
+function toBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "string") return value.toLowerCase() === "true";
+  return undefined;
+}
+
+function pickValue(values: z.infer<typeof multiValuedSchema>, preferredType: string): string | null {
+  if (!values || values.length === 0) return null;
+  const chosen = values.find(entry => toBoolean(entry.primary))
+    ?? values.find(entry => entry.type === preferredType)
+    ?? values[0];
+  return chosen.value ?? null;
+}
+
+function referenceId(reference: z.infer<typeof referenceSchema>): string | null {
+  if (!reference) return null;
+  return (typeof reference === "string" ? reference : reference.value) || null;
+}
+
+async function resolveDepartment(input: ScimUserInput): Promise<string | null | undefined> {
+  const wegrow = input[SCIM_SCHEMAS.wegrowUser];
+  if (wegrow?.departmentId) {
+    if (!(await storage.getDepartment(wegrow.departmentId))) {
+      throw new ScimError(`Unknown departmentId ${wegrow.departmentId}`, 400, "invalidValue");
+    }
+    return wegrow.departmentId;
+  }
+  const enterprise = input[SCIM_SCHEMAS.enterpriseUser];
+  if (!enterprise) return undefined;
+  if (!enterprise.department) return null;
+  const department = await storage.getDepartmentByNameOrCode(enterprise.department);
+  if (!department) {
+    throw new ScimError(`Unknown department '${enterprise.department}'. Create it in WeGrow first.`, 400, "invalidValue");
+  }
+  return department.id;
+}
+
+// An explicit jobRoleId or jobRole wins; otherwise a title that names a job role sets it
+async function resolveJobRole(input: ScimUserInput): Promise<string | null | undefined> {
+  const wegrow = input[SCIM_SCHEMAS.wegrowUser];
+  if (wegrow?.jobRoleId) {
+    if (!(await storage.getJobRole(wegrow.jobRoleId))) {
+      throw new ScimError(`Unknown jobRoleId ${wegrow.jobRoleId}`, 400, "invalidValue");
+    }
+    return wegrow.jobRoleId;
+  }
+  if (wegrow?.jobRole) {
+    const jobRole = await storage.getJobRoleByNameOrCode(wegrow.jobRole);
+    if (!jobRole) {
+      throw new ScimError(`Unknown job role '${wegrow.jobRole}'`, 400, "invalidValue");
+    }
+    return jobRole.id;
+  }
+  const byTitle = input.title ? await storage.getJobRoleByNameOrCode(input.title) : undefined;
+  if (byTitle) return byTitle.id;
+  return wegrow && "jobRoleId" in wegrow ? null : undefined;
+}
+
+async function resolveTeam(input: ScimUserInput): Promise<string | null | undefined> {
+  const wegrow = input[SCIM_SCHEMAS.wegrowUser];
+  if (!wegrow || !("teamId" in wegrow)) return undefined;
+  if (!wegrow.teamId) return null;
+  const team = await storage.getTeam(wegrow.teamId);
+  if (!team || !team.isActive) {
+    throw new ScimError(`Unknown teamId ${wegrow.teamId}`, 400, "invalidValue");
+  }
+  return wegrow.teamId;
+}
+
+// PUT semantics: core attributes missing from the payload are cleared. Extension attributes are only
+// touched when the client sends that extension, so values maintained in WeGrow survive IdPs that don't know them.
+async function toUserChanges(input: ScimUserInput, userId?: string): Promise<Partial<UpsertUser>> {
+  const email = pickValue(input.emails, "work") ?? (input.userName.includes("@") ? input.userName : null);
+  const changes: Partial<UpsertUser> = {
+    userName: input.userName,
+    externalId: input.externalId ?? null,
+    firstName: input.name?.givenName ?? null,
+    lastName: input.name?.familyName ?? null,
+    email,
+    mobilePhone: pickValue(input.phoneNumbers, "mobile"),
+    jobTitle: input.title ?? null,
+  };
+
+  const active = toBoolean(input.active);
+  if (active !== undefined) changes.isActive = active;
+
+  const enterprise = input[SCIM_SCHEMAS.enterpriseUser];
+  if (enterprise) {
+    changes.employeeId = enterprise.employeeNumber ?? null;
+    const managerId = referenceId(enterprise.manager);
+    if (managerId && managerId === userId) {
+      throw new ScimError("A user cannot be their own manager", 400, "invalidValue");
+    }
+    if (managerId && !(await storage.getUser(managerId))) {
+      throw new ScimError(`Unknown manager ${managerId}`, 400, "invalidValue");
+    }
+    changes.managerId = managerId;
+  }
+
+  const departmentId = await resolveDepartment(input);
+  if (departmentId !== undefined) changes.departmentId = departmentId;
+  const jobRoleId = await resolveJobRole(input);
+  if (jobRoleId !== undefined) changes.jobRoleId = jobRoleId;
+  const teamId = await resolveTeam(input);
+  if (teamId !== undefined) changes.teamId = teamId;
+
+  return changes;
+}
+
+async function applyUserChanges(existing: User, changes: Partial<UpsertUser>): Promise<User> {
+  const now = new Date();
+  if (changes.isActive === false && existing.isActive) changes.deactivatedAt = now;
+  if (changes.isActive === true && !existing.isActive) changes.deactivatedAt = null;
+
+  const updated = await storage.updateProvisionedUser(existing.id, changes, "SCIM");
+  if (!updated) {
+    throw new ScimError(`User ${existing.id} not found`, 404);
+  }
+  if (existing.isActive && !updated.isActive) {
+    const sessionsEnded = await storage.deleteUserSessions(updated.id);
+    console.log(`[AUDIT] SCIM deactivated user ${updated.id} (${sessionsEnded} sessions ended)`);
+  } else if (!existing.isActive && updated.isActive) {
+    console.log(`[AUDIT] SCIM reactivated user ${updated.id}`);
+  }
+  return updated;
+}
+
+async function requireUser(userId: string): Promise<User> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new ScimError(`User ${userId} not found`, 404);
+  }
+  return user;
+}
+
+export async function listScimUsers(baseUrl: string, query: Record<string, unknown>) {
+  const filter = parseEqualityFilter(query.filter, {
+    "username": "userName",
+    "externalid": "externalId",
+    "emails.value": "email",
+    "emails[type eq \"work\"].value": "email",
+  });
+  const { startIndex, count } = readPaging(query);
+  const { users, total } = await storage.findProvisionedUsers({ ...filter, offset: startIndex - 1, limit: count });
+  const context = await createContext(baseUrl);
+  return listResponse(users.map(user => toScimUser(user, context)), total, startIndex);
+}
+
+export async function getScimUser(baseUrl: string, userId: string) {
+  return toScimUser(await requireUser(userId), await createContext(baseUrl));
+}
+
+// Users who already signed in through SSO are adopted by email instead of being duplicated
+export async function createScimUser(baseUrl: string, body: unknown) {
+  const input = parseResource(scimUserSchema, body);
+  const { users: sameUserName } = await storage.findProvisionedUsers({ userName: input.userName, offset: 0, limit: 1 });
+  if (sameUserName.length > 0) {
+    throw new ScimError(`A user with userName ${input.userName} already exists`, 409, "uniqueness");
+  }
+
+  const changes = await toUserChanges(input);
+  const existing = changes.email ? await storage.getUserByEmail(changes.email) : undefined;
+  let user: User;
+  if (existing && !existing.userName && !existing.externalId) {
+    user = await applyUserChanges(existing, changes);
+    console.log(`[AUDIT] SCIM linked existing user ${user.id} to userName ${input.userName}`);
+  } else {
+    user = await storage.createProvisionedUser({ ...changes, isActive: changes.isActive ?? true }, "SCIM");
+    console.log(`[AUDIT] SCIM created user ${user.id} (${input.userName})`);
+  }
+  return toScimUser(user, await createContext(baseUrl));
+}
+
+export async function replaceScimUser(baseUrl: string, userId: string, body: unknown) {
+  const existing = await requireUser(userId);
+  const input = parseResource(scimUserSchema, body);
+  const updated = await applyUserChanges(existing, await toUserChanges(input, userId));
+  console.log(`[AUDIT] SCIM replaced user ${userId}`);
+  return toScimUser(updated, await createContext(baseUrl));
+}
+
+// PATCH is applied to the current representation, which then goes through the same path as PUT
+export async function patchScimUser(baseUrl: string, userId: string, body: unknown) {
+  const existing = await requireUser(userId);
+  const context = await createContext(baseUrl);
+  const operations = parsePatch(body);
+  const resource: Record<string, any> = applyPatchOperations(toScimUser(existing, context), operations);
+  // A new title should be able to move the user to the matching job role
+  if (touchesAttribute(operations, "title") && !touchesAttribute(operations, SCIM_SCHEMAS.wegrowUser)) {
+    delete resource[SCIM_SCHEMAS.wegrowUser]?.jobRoleId;
+  }
+  const input = parseResource(scimUserSchema, resource);
+  const updated = await applyUserChanges(existing, await toUserChanges(input, userId));
+  console.log(`[AUDIT] SCIM patched user ${userId}`);
+  return toScimUser(updated, context);
+}
+
+// Users are deactivated rather than deleted so their training records stay in the audit trail
+export async function deactivateScimUser(userId: string) {
+  const existing = await requireUser(userId);
+  if (existing.isActive) {
+    await applyUserChanges(existing, { isActive: false });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Groups (teams)
+// ---------------------------------------------------------------------------
+
+async function toScimGroup(team: Team, context: ScimContext, includeMembers: boolean) {
+  const members = includeMembers ? await storage.getTeamMembersWithUsers(team.id) : [];
+  return {
+    schemas: [SCIM_SCHEMAS.group, SCIM_SCHEMAS.wegrowGroup],
+    id: team.id,
+    externalId: team.externalId ?? undefined,
+    displayName: team.name,
+    ...(includeMembers ? {
+      members: members.map((member: User) => ({
+        value: member.id,
+        display: [member.firstName, member.lastName].filter(Boolean).join(" ") || member.email || member.id,
+        type: "User",
+        $ref: `${context.baseUrl}/Users/${member.id}`,
+      })),
+    } : {}),
+    [SCIM_SCHEMAS.wegrowGroup]: {
+      description: team.description ?? undefined,
+      teamLeadId: team.teamLeadId,
+      parentTeamId: team.parentTeamId ?? undefined,
+      department: team.departmentId ? context.departments.get(team.departmentId)?.name : undefined,
+    },
+    meta: {
+      resourceType: "Group",
+      created: team.createdAt?.toISOString(),
+      lastModified: team.updatedAt?.toISOString(),
+      location: `${context.baseUrl}/Groups/${team.id}`,
+    },
+  };
+}
+
+const scimGroupSchema = z.object({
+  displayName: z.string().trim().min(1, "displayName is required"),
+  externalId: z.string().nullish(),
+  members: z.array(z.object({ value: z.string().min(1) }).passthrough()).nullish(),
+  [SCIM_SCHEMAS.wegrowGroup]: z.object({
+    description: z.string().nullish(),
+    teamLeadId: z.string().nullish(),
+    parentTeamId: z.string().nullish(),
+    department: z.string().nullish(), // Department code or name
+  }).passthrough().optional(),
+}).passthrough();
+
+type ScimGroupInput = z.infer<typeof scimGroupSchema>;
+
+async function requireTeam(teamId: string): Promise<Team> {
+  const team = await storage.getTeam(teamId);
+  if (!team || !team.isActive) {
+    throw new ScimError(`Group ${teamId} not found`, 404);
+  }
+  return team;
+}
+
+async function resolveMemberIds(input: ScimGroupInput): Promise<string[]> {
+  const memberIds = Array.from(new Set((input.members ?? []).map(member => member.value)));
+  for (const memberId of memberIds) {
+    if (!(await storage.getUser(memberId))) {
+      throw new ScimError(`Unknown member ${memberId}`, 400, "invalidValue");
+    }
+  }
+  return memberIds;
+}
+
+// SCIM groups have no owner, but every team needs a lead: the extension's teamLeadId, the current lead,
+// the first member, or SCIM_DEFAULT_TEAM_LEAD_ID, in that order
+async function resolveTeamLead(input: ScimGroupInput, memberIds: string[], existing?: Team): Promise<string> {
+  const requested = input[SCIM_SCHEMAS.wegrowGroup]?.teamLeadId;
+  if (requested) {
+    if (!(await storage.getUser(requested))) {
+      throw new ScimError(`Unknown teamLeadId ${requested}`, 400, "invalidValue");
+    }
+    return requested;
+  }
+  const teamLeadId = existing?.teamLeadId ?? memberIds[0] ?? process.env.SCIM_DEFAULT_TEAM_LEAD_ID;
+  if (!teamLeadId) {
+    throw new ScimError(`Group needs members or ${SCIM_SCHEMAS.wegrowGroup}:teamLeadId`, 400, "invalidValue");
+  }
+  return teamLeadId;
+}
+
+async function toTeamChanges(input: ScimGroupInput, memberIds: string[], existing?: Team) {
+  const extension = input[SCIM_SCHEMAS.wegrowGroup];
+  const changes: Partial<Pick<Team, "name" | "externalId" | "teamLeadId" | "description" | "parentTeamId" | "departmentId">> = {
+    name: input.displayName,
+    externalId: input.externalId ?? null,
+    teamLeadId: await resolveTeamLead(input, memberIds, existing),
+  };
+  if (extension) {
+    changes.description = extension.description ?? null;
+    if (extension.parentTeamId && extension.parentTeamId === existing?.id) {
+      throw new ScimError("A team cannot be its own parent", 400, "invalidValue");
+    }
+    if (extension.parentTeamId) {
+      await requireTeam(extension.parentTeamId);
+    }
+    changes.parentTeamId = extension.parentTeamId ?? null;
+    if (extension.department) {
+      const department = await storage.getDepartmentByNameOrCode(extension.department);
+      if (!department) {
+        throw new ScimError(`Unknown department '${extension.department}'. Create it in WeGrow first.`, 400, "invalidValue");
+      }
+      changes.departmentId = department.id;
+    } else {
+      changes.departmentId = null;
+    }
+  }
+  return changes;
+}
+
+export async function listScimGroups(baseUrl: string, query: Record<string, unknown>) {
+  const filter = parseEqualityFilter(query.filter, { "displayname": "displayName", "externalid": "externalId" });
+  const { startIndex, count } = readPaging(query);
+  const { teams, total } = await storage.findProvisionedTeams({ ...filter, offset: startIndex - 1, limit: count });
+  const context = await createContext(baseUrl);
+  const includeMembers = !listsAttribute(query.excludedAttributes, "members");
+  const resources = [];
+  for (const team of teams) {
+    resources.push(await toScimGroup(team, context, includeMembers));
+  }
+  return listResponse(resources, total, startIndex);
+}
+
+export async function getScimGroup(baseUrl: string, teamId: string, query: Record<string, unknown>) {
+  const team = await requireTeam(teamId);
+  return await toScimGroup(team, await createContext(baseUrl), !listsAttribute(query.excludedAttributes, "members"));
+}
+
+export async function createScimGroup(baseUrl: string, body: unknown) {
+  const input = parseResource(scimGroupSchema, body);
+  const memberIds = await resolveMemberIds(input);
+  const changes = await toTeamChanges(input, memberIds);
+  const team = await storage.createTeam({ ...changes, name: input.displayName, teamLeadId: changes.teamLeadId! });
+  await storage.setTeamMembers(team.id, memberIds, "SCIM");
+  console.log(`[AUDIT] SCIM created team ${team.id} (${team.name}) with ${memberIds.length} members`);
+  return await toScimGroup(team, await createContext(baseUrl), true);
+}
+
+async function replaceGroup(existing: Team, input: ScimGroupInput) {
+  const memberIds = await resolveMemberIds(input);
+  const updated = await storage.updateTeam(existing.id, await toTeamChanges(input, memberIds, existing));
+  await storage.setTeamMembers(existing.id, memberIds, "SCIM");
+  return updated;
+}
+
+export async function replaceScimGroup(baseUrl: string, teamId: string, body: unknown) {
+  const existing = await requireTeam(teamId);
+  const updated = await replaceGroup(existing, parseResource(scimGroupSchema, body));
+  console.log(`[AUDIT] SCIM replaced team ${teamId}`);
+  return await toScimGroup(updated, await createContext(baseUrl), true);
+}
+
+export async function patchScimGroup(baseUrl: string, teamId: string, body: unknown) {
+  const existing = await requireTeam(teamId);
+  const context = await createContext(baseUrl);
+  const operations = parsePatch(body);
+  const resource = applyPatchOperations(await toScimGroup(existing, context, true), operations);
+  const updated = await replaceGroup(existing, parseResource(scimGroupSchema, resource));
+  console.log(`[AUDIT] SCIM patched team ${teamId}`);
+  return await toScimGroup(updated, context, true);
+}
+
+// Members lose the team (and it stops being anyone's primary team) before it is deactivated
+export async function deleteScimGroup(teamId: string) {
+  await requireTeam(teamId);
+  await storage.setTeamMembers(teamId, [], "SCIM");
+  await storage.deleteTeam(teamId);
+  console.log(`[AUDIT] SCIM deactivated team ${teamId}`);
+}
+
+// ---------------------------------------------------------------------------
+// PATCH (RFC 7644 section 3.5.2)
+// ---------------------------------------------------------------------------
+
+const patchSchema = z.object({
+  Operations: z.array(z.object({
+    op: z.string().transform(op => op.toLowerCase()).pipe(z.enum(["add", "replace", "remove"])),
+    path: z.string().optional(),
+    value: z.any().optional(),
+  })).min(1, "At least one operation is required"),
+}).passthrough();
+
+type PatchOperation = z.infer<typeof patchSchema>["Operations"][number];
+
+function parsePatch(body: unknown): PatchOperation[] {
+  return parseResource(patchSchema, body).Operations;
+}
+
+// Names that reach Object.prototype when used as keys; refused anywhere in a path or value
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+function assertSafeValue(value: unknown) {
+  if (!value || typeof value !== "object") return;
+  if (Array.isArray(value)) {
+    value.forEach(assertSafeValue);
+    return;
+  }
+  for (const [key, nested] of Object.entries(value)) {
+    if (UNSAFE_KEYS.has(key.toLowerCase())) {
+      throw new ScimError(`Unsupported attribute ${key}`, 400, "invalidValue");
+    }
+    assertSafeValue(nested);
+  }
+}
+
+interface PatchPath {
+  container: string | null; // Extension schema URN, or null for core attributes
+  attribute: string;
+  filter?: { attribute: string; value: string };
+  subAttribute?: string;
+}
+
+function parsePath(path: string): PatchPath {
+  const extension = EXTENSION_SCHEMAS.find(schema => path.toLowerCase().startsWith(`${schema.toLowerCase()}:`));
+  const remainder = extension ? path.slice(extension.length + 1) : path;
+  const match = /^([\w$]+)(?:\[\s*([\w.]+)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*\])?(?:\.([\w$]+))?$/i.exec(remainder.trim());
+  const names = [match?.[1], ...(match?.[2]?.split(".") ?? []), match?.[4]];
+  if (!match || names.some(name => name && UNSAFE_KEYS.has(name.toLowerCase()))) {
+    throw new ScimError(`Unsupported path ${path}`, 400, "invalidPath");
+  }
+  return {
+    container: extension ?? null,
+    attribute: match[1],
+    filter: match[2] ? { attribute: match[2], value: match[3].replace(/\\(.)/g, "$1") } : undefined,
+    subAttribute: match[4],
+  };
+}
+
+// Attribute names are case-insensitive in SCIM; keep whichever spelling the resource already uses
+function findKey(target: Record<string, any>, name: string): string {
+  return Object.keys(target).find(key => key.toLowerCase() === name.toLowerCase()) ?? name;
+}
+
+function matchesFilter(entry: any, filter: NonNullable<PatchPath["filter"]>): boolean {
+  return !!entry && typeof entry === "object" && String(entry[findKey(entry, filter.attribute)] ?? "").toLowerCase() === filter.value.toLowerCase();
+}
+
+function sameValue(left: any, right: any): boolean {
+  if (left && typeof left === "object" && right && typeof right === "object" && "value" in left && "value" in right) {
+    return left.value === right.value;
+  }
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+function applyAtPath(resource: Record<string, any>, op: PatchOperation["op"], path: string, value: any) {
+  const parsed = parsePath(path);
+  let target: Record<string, any> = resource;
+  if (parsed.container) {
+    const containerKey = findKey(resource, parsed.container);
+    target = resource[containerKey] ??= Object.create(null);
+  }
+  const key = findKey(target, parsed.attribute);
+
+  if (parsed.filter) {
+    const entries: any[] = Array.isArray(target[key]) ? target[key] : [];
+    const matched = entries.filter(entry => matchesFilter(entry, parsed.filter!));
+    if (op === "remove") {
+      target[key] = parsed.subAttribute
+        ? entries.map(entry => matched.includes(entry) ? { ...entry, [findKey(entry, parsed.subAttribute!)]: undefined } : entry)
+        : entries.filter(entry => !matched.includes(entry));
+      return;
+    }
+    if (matched.length === 0) {
+      const created = { [parsed.filter.attribute]: parsed.filter.value };
+      target[key] = [...entries, parsed.subAttribute ? { ...created, [parsed.subAttribute]: value } : { ...created, ...value }];
+      return;
+    }
+    target[key] = entries.map(entry => {
+      if (!matched.includes(entry)) return entry;
+      return parsed.subAttribute ? { ...entry, [findKey(entry, parsed.subAttribute)]: value } : { ...entry, ...value };
+    });
+    return;
+  }
+
+  if (parsed.subAttribute) {
+    const parent = target[key] ??= Object.create(null);
+    const subKey = findKey(parent, parsed.subAttribute);
+    if (op === "remove") delete parent[subKey];
+    else parent[subKey] = value;
+    return;
+  }
+
+  if (op === "remove") {
+    // Removing listed values from a multi-valued attribute, e.g. members [{ value: "id" }]
+    if (Array.isArray(target[key]) && value !== undefined) {
+      const removals = Array.isArray(value) ? value : [value];
+      target[key] = target[key].filter((entry: any) => !removals.some(removal => sameValue(entry, removal)));
+    } else {
+      delete target[key];
+    }
+    return;
+  }
+  if (op === "add" && Array.isArray(target[key])) {
+    const additions = Array.isArray(value) ? value : [value];
+    target[key] = [...target[key], ...additions.filter(addition => !target[key].some((entry: any) => sameValue(entry, addition)))];
+    return;
+  }
+  if (op === "add" && target[key] && typeof target[key] === "object" && value && typeof value === "object" && !Array.isArray(value)) {
+    target[key] = { ...target[key], ...value };
+    return;
+  }
+  target[key] = value;
+}
+
+export function applyPatchOperations<T extends Record<string, any>>(resource: T, operations: PatchOperation[]): Record<string, any> {
+  const result: Record<string, any> = JSON.parse(JSON.stringify(resource));
+  for (const operation of operations) {
+    assertSafeValue(operation.value);
+    if (operation.path) {
+      applyAtPath(result, operation.op, operation.path, operation.value);
+      continue;
+    }
+    if (operation.op === "remove") {
+      throw new ScimError("remove operations require a path", 400, "noTarget");
+    }
+    if (!operation.value || typeof operation.value !== "object" || Array.isArray(operation.value)) {
+      throw new ScimError("Operations without a path need an object value", 400, "invalidValue");
+    }
+    // Each key may itself be a path, e.g. "name.givenName" or an extension attribute URN
+    for (const [path, value] of Object.entries(operation.value)) {
+      if (EXTENSION_SCHEMAS.some(schema => schema.toLowerCase() === path.toLowerCase()) && value && typeof value === "object") {
+        for (const [attribute, attributeValue] of Object.entries(value as Record<string, unknown>)) {
+          applyAtPath(result, operation.op, `${path}:${attribute}`, attributeValue);
+        }
+      } else {
+        applyAtPath(result, operation.op, path, value);
+      }
+    }
+  }
+  return result;
+}
+
+function touchesAttribute(operations: PatchOperation[], attribute: string): boolean {
+  const name = attribute.toLowerCase();
+  const refersTo = (path: string) => path.toLowerCase() === name || path.toLowerCase().startsWith(`${name}:`) || path.toLowerCase().startsWith(`${name}.`);
+  return operations.some(operation => operation.path
+    ? refersTo(operation.path)
+    : Object.keys(operation.value ?? {}).some(refersTo));
+}
@@ -0,0 +1,518 @@
+import JSZip from "jszip";
+import { XMLParser } from "fast-xml-parser";
+import { randomUUID } from "crypto";
+import path from "path";
+import type { ScormPackage, ScormSco } from "@shared/schema";
+import { ObjectStorageService } from "./objectStorage";
+import { storage } from "./storage";
+
+// SCORM package import, manifest parsing and runtime data.
+
+// Zips larger than this are rejected before they are unpacked in memory
+const MAX_SCORM_PACKAGE_BYTES = 200 * 1024 * 1024;
+// Limits on what a package unpacks to, checked against the sizes the zip declares before anything is inflated
+const MAX_SCORM_FILE_COUNT = 10000;
+const MAX_SCORM_UNPACKED_BYTES = 1024 * 1024 * 1024;
+
+export const SCORM_CONTENT_ROUTE_PREFIX = "/api/lms/scorm/packages/";
+
+export type ScormVersion = "1.2" | "2004";
+
+export class ScormPackageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScormPackageError";
+    Object.setPrototypeOf(this, ScormPackageError.prototype);
+  }
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".js": "application/javascript",
+  ".mjs": "application/javascript",
+  ".css": "text/css",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".xsd": "application/xml",
+  ".dtd": "application/xml-dtd",
+  ".txt": "text/plain",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".ogg": "audio/ogg",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".vtt": "text/vtt",
+  ".pdf": "application/pdf",
+  ".swf": "application/x-shockwave-flash",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".ttf": "font/ttf",
+  ".otf": "font/otf",
+  ".eot": "application/vnd.ms-fontobject",
+};
+
+function getContentType(filePath: string): string {
+  return CONTENT_TYPES[path.posix.extname(filePath).toLowerCase()] ?? "application/octet-stream";
+}
+
+const manifestParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  parseTagValue: false,
+  isArray: (name) => ["organization", "item", "resource", "file"].includes(name),
+});
+
+function textOf(node: any): string | undefined {
+  if (node === undefined || node === null) return undefined;
+  if (typeof node === "string" || typeof node === "number") return String(node).trim();
+  if (typeof node === "object" && "#text" in node) return String(node["#text"]).trim();
+  return undefined;
+}
+
+// Joins xml:base segments and the resource href, keeping the result inside the package
+function joinPackagePath(...segments: Array<string | undefined>): string {
+  const joined = path.posix.normalize(segments.filter(Boolean).join("/")).replace(/^\/+/, "");
+  if (joined.startsWith("..")) {
+    throw new ScormPackageError(`Manifest references a file outside the package: ${joined}`);
+  }
+  return joined;
+}
+
+export interface ParsedScormManifest {
+  title: string;
+  scormVersion: ScormVersion;
+  scos: ScormSco[];
+}
+
+// Reads imsmanifest.xml. Only the default organization is used; items pointing at "asset" resources
+// are skipped because they never talk to the runtime API.
+export function parseScormManifest(xml: string): ParsedScormManifest {
+  let document: any;
+  try {
+    document = manifestParser.parse(xml);
+  } catch (error: any) {
+    throw new ScormPackageError(`imsmanifest.xml is not valid XML: ${error?.message || error}`);
+  }
+
+  const manifest = document?.manifest;
+  if (!manifest) {
+    throw new ScormPackageError("imsmanifest.xml has no <manifest> element");
+  }
+
+  const schemaVersion = textOf(manifest.metadata?.schemaversion) ?? "";
+  const scormVersion: ScormVersion = /2004|CAM\s*1\.3/i.test(schemaVersion)
+    ? "2004"
+    : schemaVersion === "1.2"
+      ? "1.2"
+      : /adlcp_v1p3|imscp_v1p1.*adlseq|imsss/.test(xml)
+        ? "2004"
+        : "1.2";
+
+  const resourceRoot = manifest.resources ?? {};
+  const resources = new Map<string, any>();
+  for (const resource of resourceRoot.resource ?? []) {
+    if (resource["@_identifier"]) {
+      resources.set(resource["@_identifier"], resource);
+    }
+  }
+
+  const organizations: any[] = manifest.organizations?.organization ?? [];
+  const defaultId = manifest.organizations?.["@_default"];
+  const organization = organizations.find(org => org["@_identifier"] === defaultId) ?? organizations[0];
+
+  const scos: ScormSco[] = [];
+  const visit = (items: any[] | undefined) => {
+    for (const item of items ?? []) {
+      const resource = item["@_identifierref"] ? resources.get(item["@_identifierref"]) : undefined;
+      const scormType = (resource?.["@_scormtype"] ?? resource?.["@_scormType"] ?? "").toLowerCase();
+      if (resource?.["@_href"] && scormType === "sco") {
+        const href = joinPackagePath(manifest["@_base"], resourceRoot["@_base"], resource["@_base"], resource["@_href"]);
+        const parameters = item["@_parameters"] ? String(item["@_parameters"]) : "";
+        const separator = parameters && !parameters.startsWith("?") && !parameters.startsWith("#")
+          ? (href.includes("?") ? "&" : "?")
+          : "";
+
+        let masteryScore: number | null = null;
+        const scorm12Mastery = textOf(item.masteryscore);
+        const scorm2004Measure = item.sequencing?.objectives?.primaryObjective?.["@_satisfiedByMeasure"] === "true"
+          ? textOf(item.sequencing.objectives.primaryObjective.minNormalizedMeasure)
+          : undefined;
+        if (scorm12Mastery && !isNaN(Number(scorm12Mastery))) {
+          masteryScore = Number(scorm12Mastery);
+        } else if (scorm2004Measure && !isNaN(Number(scorm2004Measure))) {
+          masteryScore = Math.round(Number(scorm2004Measure) * 100);
+        }
+
+        scos.push({
+          identifier: String(item["@_identifier"] ?? resource["@_identifier"]),
+          title: textOf(item.title) || textOf(organization?.title) || "Untitled",
+          href: `${href}${separator}${parameters}`,
+          masteryScore,
+        });
+      }
+      visit(item.item);
+    }
+  };
+  visit(organization?.item);
+
+  // Some authoring tools emit a resource without an organization tree
+  if (scos.length === 0) {
+    for (const resource of Array.from(resources.values())) {
+      const scormType = (resource["@_scormtype"] ?? resource["@_scormType"] ?? "").toLowerCase();
+      if (scormType === "sco" && resource["@_href"]) {
+        scos.push({
+          identifier: String(resource["@_identifier"]),
+          title: textOf(organization?.title) || "Untitled",
+          href: joinPackagePath(manifest["@_base"], resourceRoot["@_base"], resource["@_base"], resource["@_href"]),
+          masteryScore: null,
+        });
+      }
+    }
+  }
+
+  if (scos.length === 0) {
+    throw new ScormPackageError("The package does not contain any SCOs");
+  }
+
+  return {
+    title: textOf(organization?.title) || scos[0].title,
+    scormVersion,
+    scos,
+  };
+}
+
+export function getScormLaunchUrl(pkg: Pick<ScormPackage, "id">, sco: ScormSco): string {
+  return `${SCORM_CONTENT_ROUTE_PREFIX}${pkg.id}/content/${sco.href}`;
+}
+
+// Package files run author-supplied script on the app origin, because SCOs call window.parent.API directly. The policy
+// keeps that script to the package's own files, stops it loading from or sending to anywhere else, and only lets the
+// app frame it.
+export function getScormContentSecurityPolicy(origin: string, packageId: string): string {
+  const packageSource = `${origin}${SCORM_CONTENT_ROUTE_PREFIX}${packageId}/content/`;
+  return [
+    `default-src ${packageSource}`,
+    `script-src ${packageSource} 'unsafe-inline' 'unsafe-eval'`,
+    `style-src ${packageSource} 'unsafe-inline'`,
+    `img-src ${packageSource} data: blob:`,
+    `media-src ${packageSource} data: blob:`,
+    `font-src ${packageSource} data:`,
+    `connect-src ${packageSource}`,
+    "object-src 'none'",
+    "base-uri 'none'",
+    "form-action 'none'",
+    "frame-ancestors 'self'",
+  ].join("; ");
+}
+
+// Lessons store the launch URL of their first SCO in scormPackageUrl
+export function getScormPackageIdFromUrl(url: string | null | undefined): string | undefined {
+  if (!url?.startsWith(SCORM_CONTENT_ROUTE_PREFIX)) return undefined;
+  const packageId = url.slice(SCORM_CONTENT_ROUTE_PREFIX.length).split("/")[0];
+  return packageId || undefined;
+}
+
+// The uncompressed size from the zip's central directory. JSZip keeps it on the entry without typing it.
+function getDeclaredSize(entry: JSZip.JSZipObject): number {
+  const size = (entry as any)._data?.uncompressedSize;
+  if (typeof size !== "number" || size < 0) {
+    throw new ScormPackageError(`The package does not declare a size for ${entry.name}`);
+  }
+  return size;
+}
+
+// Inflates one entry, stopping as soon as it produces more bytes than the zip declared for it
+function readZipEntry(entry: JSZip.JSZipObject): Promise<Buffer> {
+  const declaredSize = getDeclaredSize(entry);
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    const stream = entry.nodeStream("nodebuffer");
+    stream.on("data", (chunk: Buffer) => {
+      bytes += chunk.length;
+      if (bytes > declaredSize) {
+        stream.pause();
+        stream.removeAllListeners("data");
+        reject(new ScormPackageError(`${entry.name} unpacks to more than its declared size`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+// Unzips an uploaded package into object storage under scorm/<packageId>/ and records it.
+// The uploaded zip is kept so a package can be re-imported if the unpacked files are lost.
+export async function importScormPackage(uploadURL: string, uploadedBy: string): Promise<{ scormPackage: ScormPackage; launchUrl: string; manifestUrl: string }> {
+  const objectStorageService = new ObjectStorageService();
+  const sourceObjectPath = objectStorageService.normalizeObjectEntityPath(uploadURL);
+  const archive = await objectStorageService.readObjectEntity(sourceObjectPath, MAX_SCORM_PACKAGE_BYTES);
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    throw new ScormPackageError("The uploaded file is not a valid zip archive");
+  }
+
+  const entries = Object.values(zip.files).filter(entry => !entry.dir);
+  if (entries.length > MAX_SCORM_FILE_COUNT) {
+    throw new ScormPackageError(`The package contains more than ${MAX_SCORM_FILE_COUNT} files`);
+  }
+  let declaredBytes = 0;
+  for (const entry of entries) {
+    const normalized = path.posix.normalize(entry.name);
+    if (normalized.startsWith("..") || normalized.startsWith("/") || /^[a-zA-Z]:/.test(normalized)) {
+      throw new ScormPackageError(`The package contains an unsafe path: ${entry.name}`);
+    }
+    declaredBytes += getDeclaredSize(entry);
+  }
+  if (declaredBytes > MAX_SCORM_UNPACKED_BYTES) {
+    throw new ScormPackageError(`The package unpacks to more than ${MAX_SCORM_UNPACKED_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const manifestEntry = zip.file("imsmanifest.xml");
+  if (!manifestEntry) {
+    throw new ScormPackageError("imsmanifest.xml was not found at the root of the package");
+  }
+  const manifest = parseScormManifest((await readZipEntry(manifestEntry)).toString("utf8"));
+
+  for (const sco of manifest.scos) {
+    const launchFile = sco.href.split(/[?#]/)[0];
+    if (!zip.file(launchFile)) {
+      throw new ScormPackageError(`Launch file ${launchFile} for "${sco.title}" is missing from the package`);
+    }
+  }
+
+  const packageId = randomUUID();
+  const contentPath = `/objects/scorm/${packageId}`;
+  let totalBytes = 0;
+  for (const entry of entries) {
+    const data = await readZipEntry(entry);
+    totalBytes += data.length;
+    await objectStorageService.writeObjectEntity(`scorm/${packageId}/${path.posix.normalize(entry.name)}`, data, getContentType(entry.name));
+  }
+
+  const scormPackage = await storage.createScormPackage({
+    id: packageId,
+    title: manifest.title,
+    scormVersion: manifest.scormVersion,
+    contentPath,
+    manifestPath: `${contentPath}/imsmanifest.xml`,
+    sourceObjectPath,
+    scos: manifest.scos,
+    fileCount: entries.length,
+    totalBytes,
+    uploadedBy,
+  });
+
+  return {
+    scormPackage,
+    launchUrl: getScormLaunchUrl(scormPackage, manifest.scos[0]),
+    manifestUrl: `${SCORM_CONTENT_ROUTE_PREFIX}${packageId}/content/imsmanifest.xml`,
+  };
+}
+
+// What a commit from the runtime means for lesson progress
+export interface ScormCommitSummary {
+  lessonStatus: string | null;
+  score: number | null;
+  suspendData: string | null;
+  lessonLocation: string | null;
+  sessionTimeSeconds: number;
+  completed: boolean;
+}
+
+// "HHHH:MM:SS.SS" (SCORM 1.2 CMITimespan)
+function parseScorm12Timespan(value: string | undefined): number {
+  const match = value?.match(/^(\d{2,4}):(\d{2}):(\d{2}(?:\.\d{1,2})?)$/);
+  if (!match) return 0;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+// ISO 8601 duration, e.g. "PT1H5M30.5S" (SCORM 2004 timeinterval)
+function parseIsoDuration(value: string | undefined): number {
+  const match = value?.match(/^P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return 0;
+  const [, years, months, days, hours, minutes, seconds] = match.map(part => Number(part ?? 0));
+  return years * 31_536_000 + months * 2_592_000 + days * 86_400 + hours * 3600 + minutes * 60 + seconds;
+}
+
+function toPercentage(raw: string | undefined, min: string | undefined, max: string | undefined): number | null {
+  if (raw === undefined || raw === "" || isNaN(Number(raw))) return null;
+  const rawValue = Number(raw);
+  const minValue = min !== undefined && min !== "" && !isNaN(Number(min)) ? Number(min) : 0;
+  const maxValue = max !== undefined && max !== "" && !isNaN(Number(max)) ? Number(max) : 100;
+  if (maxValue <= minValue) return Math.round(rawValue);
+  return Math.max(0, Math.min(100, Math.round(((rawValue - minValue) / (maxValue - minValue)) * 100)));
+}
+
+// Maps the version-specific CMI elements onto the lesson progress columns
+export function summarizeScormCmi(version: ScormVersion, cmi: Record<string, string>, masteryScore: number | null): ScormCommitSummary {
+  if (version === "1.2") {
+    const score = toPercentage(cmi["cmi.core.score.raw"], cmi["cmi.core.score.min"], cmi["cmi.core.score.max"]);
+    let lessonStatus = cmi["cmi.core.lesson_status"] || null;
+    // With a mastery score the LMS, not the SCO, decides pass/fail once a score is reported
+    if (masteryScore !== null && score !== null && lessonStatus && lessonStatus !== "incomplete" && lessonStatus !== "browsed") {
+      lessonStatus = score >= masteryScore ? "passed" : "failed";
+    }
+    return {
+      lessonStatus,
+      score,
+      suspendData: cmi["cmi.suspend_data"] ?? null,
+      lessonLocation: cmi["cmi.core.lesson_location"] ?? null,
+      sessionTimeSeconds: parseScorm12Timespan(cmi["cmi.core.session_time"]),
+      completed: lessonStatus === "passed" || lessonStatus === "completed",
+    };
+  }
+
+  const scaled = cmi["cmi.score.scaled"];
+  const score = scaled !== undefined && scaled !== "" && !isNaN(Number(scaled))
+    ? Math.max(0, Math.min(100, Math.round(Number(scaled) * 100)))
+    : toPercentage(cmi["cmi.score.raw"], cmi["cmi.score.min"], cmi["cmi.score.max"]);
+  const completionStatus = cmi["cmi.completion_status"] || "unknown";
+  let successStatus = cmi["cmi.success_status"] || "unknown";
+  if (masteryScore !== null && score !== null) {
+    successStatus = score >= masteryScore ? "passed" : "failed";
+  }
+
+  return {
+    lessonStatus: successStatus !== "unknown" ? `${completionStatus}/${successStatus}` : completionStatus,
+    score,
+    suspendData: cmi["cmi.suspend_data"] ?? null,
+    lessonLocation: cmi["cmi.location"] ?? null,
+    sessionTimeSeconds: parseIsoDuration(cmi["cmi.session_time"]),
+    completed: successStatus === "passed" || (completionStatus === "completed" && successStatus !== "failed"),
+  };
+}
+
+function formatScorm12Timespan(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(hours).padStart(4, "0")}:${String(minutes).padStart(2, "0")}:${seconds.toFixed(2).padStart(5, "0")}`;
+}
+
+function formatIsoDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.round((totalSeconds % 60) * 100) / 100;
+  return `PT${hours}H${minutes}M${seconds}S`;
+}
+
+// Elements the runtime must not persist: session-only values and the read-only ones the LMS owns
+const TRANSIENT_CMI_ELEMENTS = new Set([
+  "cmi.core.session_time",
+  "cmi.session_time",
+  "cmi.core.exit",
+  "cmi.exit",
+  "cmi.core.entry",
+  "cmi.entry",
+  "cmi.core.total_time",
+  "cmi.total_time",
+  "cmi.core.student_id",
+  "cmi.core.student_name",
+  "cmi.learner_id",
+  "cmi.learner_name",
+]);
+
+export interface ScormRuntimeCommit {
+  scoId: string;
+  values: Record<string, string>;
+  finish: boolean;
+}
+
+// Merges a commit into the stored per-SCO data model and recalculates lesson progress.
+// Session time only counts when the SCO finishes, since SCOs report the whole session each commit.
+export async function commitScormRuntimeData(
+  enrollmentId: string,
+  lessonId: string,
+  scormPackage: ScormPackage,
+  commit: ScormRuntimeCommit,
+) {
+  const scos = scormPackage.scos as ScormSco[];
+  const sco = scos.find(candidate => candidate.identifier === commit.scoId);
+  if (!sco) {
+    throw new ScormPackageError(`SCO ${commit.scoId} is not part of this package`);
+  }
+
+  const version = scormPackage.scormVersion as ScormVersion;
+  const existingProgress = await storage.getLessonProgress(enrollmentId, lessonId);
+  const cmiData = { ...((existingProgress?.scormCmiData as Record<string, Record<string, string>> | null) ?? {}) };
+  const previous = cmiData[sco.identifier] ?? {};
+
+  const merged: Record<string, string> = { ...previous };
+  for (const [element, value] of Object.entries(commit.values)) {
+    if (element.startsWith("cmi.") && !TRANSIENT_CMI_ELEMENTS.has(element)) {
+      merged[element] = String(value);
+    }
+  }
+
+  const summary = summarizeScormCmi(version, { ...merged, ...commit.values }, sco.masteryScore);
+  const sessionTimeSeconds = commit.finish ? Math.round(summary.sessionTimeSeconds) : 0;
+  const totalTimeElement = version === "1.2" ? "cmi.core.total_time" : "cmi.total_time";
+  const previousTotal = version === "1.2" ? parseScorm12Timespan(previous[totalTimeElement]) : parseIsoDuration(previous[totalTimeElement]);
+  const totalTime = previousTotal + sessionTimeSeconds;
+  merged[totalTimeElement] = version === "1.2" ? formatScorm12Timespan(totalTime) : formatIsoDuration(totalTime);
+
+  // "suspend" means the learner expects to resume where they left off next time
+  const exitElement = version === "1.2" ? "cmi.core.exit" : "cmi.exit";
+  if (commit.finish) {
+    merged["lms.resume"] = commit.values[exitElement] === "suspend" ? "true" : "false";
+  }
+  cmiData[sco.identifier] = merged;
+
+  const summaries = scos.map(candidate => candidate.identifier === sco.identifier
+    ? summary
+    : summarizeScormCmi(version, cmiData[candidate.identifier] ?? {}, candidate.masteryScore));
+  const completedCount = summaries.filter(candidate => candidate.completed).length;
+
+  return storage.updateLessonProgressFromScorm(enrollmentId, lessonId, {
+    scormCmiData: cmiData,
+    scormLessonStatus: summary.lessonStatus,
+    scormScore: summary.score,
+    scormSuspendData: summary.suspendData,
+    scormLessonLocation: summary.lessonLocation,
+    progressPercentage: Math.round((completedCount / scos.length) * 100),
+    sessionTimeSeconds,
+    completed: completedCount === scos.length,
+  });
+}
+
+// Everything the browser-side runtime needs to initialise each SCO of a lesson
+export async function getScormRuntimeState(enrollmentId: string, lessonId: string, scormPackage: ScormPackage, userId: string) {
+  const [progress, user] = await Promise.all([
+    storage.getLessonProgress(enrollmentId, lessonId),
+    storage.getUser(userId),
+  ]);
+  const cmiData = (progress?.scormCmiData as Record<string, Record<string, string>> | null) ?? {};
+  const learnerName = [user?.lastName, user?.firstName].filter(Boolean).join(", ") || user?.email || userId;
+
+  return {
+    packageId: scormPackage.id,
+    title: scormPackage.title,
+    scormVersion: scormPackage.scormVersion as ScormVersion,
+    learner: { id: userId, name: learnerName },
+    lessonStatus: progress?.status ?? "not_started",
+    scos: (scormPackage.scos as ScormSco[]).map(sco => {
+      const { "lms.resume": resume, ...cmi } = cmiData[sco.identifier] ?? {};
+      return {
+        ...sco,
+        launchUrl: getScormLaunchUrl(scormPackage, sco),
+        entry: resume === "true" ? "resume" : Object.keys(cmi).length > 0 ? "" : "ab-initio",
+        cmi,
+      };
+    }),
+  };
+}
@@ -0,0 +1,182 @@
+import JSZip from "jszip";
+import { XMLParser } from "fast-xml-parser";
+import path from "path";
+
+// Reads the first sheet of a .csv or .xlsx upload into rows of trimmed strings keyed by normalized header.
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetError";
+    Object.setPrototypeOf(this, SpreadsheetError.prototype);
+  }
+}
+
+export interface SpreadsheetRows {
+  headers: string[];
+  rows: Array<{ rowNumber: number; values: Record<string, string> }>;
+}
+
+export function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+export async function parseSpreadsheet(data: Buffer, fileName: string): Promise<SpreadsheetRows> {
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === ".csv") {
+    return toRows(parseCsv(data.toString("utf8")));
+  }
+  if (extension === ".xlsx") {
+    return toRows(await parseXlsx(data));
+  }
+  throw new SpreadsheetError("Upload a .csv or .xlsx file");
+}
+
+function toRows(grid: string[][]): SpreadsheetRows {
+  const headerIndex = grid.findIndex(cells => cells.some(cell => cell.trim() !== ""));
+  if (headerIndex < 0) {
+    throw new SpreadsheetError("The file is empty");
+  }
+  const headers = grid[headerIndex].map(normalizeHeader);
+  const duplicate = headers.find((header, index) => header && headers.indexOf(header) !== index);
+  if (duplicate) {
+    throw new SpreadsheetError(`Column ${duplicate} appears more than once`);
+  }
+
+  const rows: SpreadsheetRows["rows"] = [];
+  for (let index = headerIndex + 1; index < grid.length; index++) {
+    const cells = grid[index];
+    if (cells.every(cell => cell.trim() === "")) continue;
+    const values: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      if (header) values[header] = (cells[column] ?? "").trim();
+    });
+    rows.push({ rowNumber: index + 1, values });
+  }
+  return { headers: headers.filter(Boolean), rows };
+}
+
+// RFC 4180, plus semicolon-separated files as saved by Excel in European locales
+function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const grid: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      grid.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new SpreadsheetError("The file ends inside a quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    grid.push(row);
+  }
+  return grid;
+}
+
+const xlsxParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: false,
+  isArray: (name) => ["sheet", "Relationship", "si", "r", "row", "c"].includes(name),
+});
+
+function textOf(node: any): string {
+  if (node === undefined || node === null) return "";
+  if (typeof node === "string" || typeof node === "number") return String(node);
+  if (Array.isArray(node)) return node.map(textOf).join("");
+  if (typeof node === "object") {
+    if ("#text" in node) return String(node["#text"]);
+    // Rich text: <si><r><t>..</t></r>...</si>
+    if ("r" in node) return textOf((node.r as any[]).map(run => run.t));
+    if ("t" in node) return textOf(node.t);
+  }
+  return "";
+}
+
+// "AB12" -> 27
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/.exec(reference.toUpperCase())?.[0] ?? "";
+  return letters.split("").reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+async function readXml(zip: JSZip, entryPath: string): Promise<any | undefined> {
+  const entry = zip.file(entryPath);
+  return entry ? xlsxParser.parse(await entry.async("string")) : undefined;
+}
+
+async function parseXlsx(data: Buffer): Promise<string[][]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new SpreadsheetError("The uploaded file is not a valid .xlsx workbook");
+  }
+
+  const workbook = await readXml(zip, "xl/workbook.xml");
+  const firstSheet = workbook?.workbook?.sheets?.sheet?.[0];
+  if (!firstSheet) {
+    throw new SpreadsheetError("The workbook has no sheets");
+  }
+  const relationships = await readXml(zip, "xl/_rels/workbook.xml.rels");
+  const relationship = (relationships?.Relationships?.Relationship ?? [])
+    .find((candidate: any) => candidate["@_Id"] === firstSheet["@_id"]);
+  const target = String(relationship?.["@_Target"] ?? "worksheets/sheet1.xml");
+  const sheetPath = target.startsWith("/") ? target.slice(1) : path.posix.join("xl", target);
+
+  const sharedStringsXml = await readXml(zip, "xl/sharedStrings.xml");
+  const sharedStrings: string[] = (sharedStringsXml?.sst?.si ?? []).map(textOf);
+
+  const sheet = await readXml(zip, sheetPath);
+  if (!sheet) {
+    throw new SpreadsheetError("The first sheet of the workbook could not be read");
+  }
+
+  const grid: string[][] = [];
+  for (const row of sheet.worksheet?.sheetData?.row ?? []) {
+    const rowIndex = parseInt(row["@_r"], 10) - 1;
+    const cells: string[] = [];
+    (row.c ?? []).forEach((cell: any, position: number) => {
+      const index = cell["@_r"] ? columnIndex(cell["@_r"]) : position;
+      const type = cell["@_t"];
+      let value: string;
+      if (type === "s") value = sharedStrings[parseInt(textOf(cell.v), 10)] ?? "";
+      else if (type === "inlineStr") value = textOf(cell.is);
+      else if (type === "b") value = textOf(cell.v) === "1" ? "TRUE" : "FALSE";
+      else value = textOf(cell.v);
+      cells[index] = value;
+    });
+    grid[Number.isFinite(rowIndex) ? rowIndex : grid.length] = Array.from(cells, cell => cell ?? "");
+  }
+  return Array.from(grid, cells => cells ?? []);
+}
@@ -1,5 +1,7 @@
 import {
   users,
+  userCredentials,
+  sessions,
   teams,
   teamMembers,
   departments,
@@ -25,6 +27,7 @@ import {
   nonconformities,
   managementReviews,
   okrSnapshots,
+  okrCycles,
   goals,
   weeklyCheckIns,
   krWeeklyCheckIns,
@@ -41,11 +44,17 @@ import {
   lessons,
   quizzes,
   quizQuestions,
+  questionBanks,
+  questionBankQuestions,
+  quizDrawRules,
   enrollments,
   lessonProgress,
+  scormPackages,
+  xapiStatements,
   quizAttempts,
   trainingRecords,
   certificates,
+  certificateAuditLog,
   badges,
   userBadges,
   trainingRequirements,
@@ -66,6 +75,7 @@ import {
   relativeDueDateConfigs,
   recurringAssignments,
   automationRunLogs,
+  schedulerJobLocks,
   // Advanced Analytics tables
   analyticsMetrics,
   analyticsDashboards,
@@ -76,9 +86,13 @@ import {
   notifications,
   n8nWebhookConfigs,
   webhookExecutionLogs,
+  webhookDeliveries,
   notificationPreferences,
   notificationTemplates,
+  notificationWebhookEventMap,
   type User,
+  type UserCredential,
+  type InsertUserCredential,
   type UpsertUser,
   type Department,
   type InsertDepartment,
@@ -118,6 +132,14 @@ import {
   type InsertNonconformity,
   type InsertManagementReview,
   type InsertOkrSnapshot,
+  type OkrCycle,
+  type InsertOkrCycle,
+  type UpdateOkrCycle,
+  type CloseOkrCycle,
+  type OkrObjectiveKind,
+  type OkrRollupRule,
+  type OkrRollupInput,
+  type OkrRollupBreakdown,
   type Goal,
   type WeeklyCheckIn,
   type KrWeeklyCheckIn,
@@ -135,11 +157,24 @@ import {
   type Lesson,
   type Quiz,
   type QuizQuestion,
+  type QuestionBank,
+  type InsertQuestionBank,
+  type QuestionBankQuestion,
+  type InsertQuestionBankQuestion,
+  type QuizDrawRule,
+  type InsertQuizDrawRule,
+  type AttemptQuestion,
+  type AttemptQuestionResult,
   type Enrollment,
   type LessonProgress,
+  type ScormPackage,
+  type InsertScormPackage,
+  type XapiStatementRecord,
+  type InsertXapiStatementRecord,
   type QuizAttempt,
   type TrainingRecord,
   type Certificate,
+  type CertificateAuditLog,
   type Badge,
   type UserBadge,
   type TrainingRequirement,
@@ -222,6 +257,7 @@ import {
   type InsertRecurringAssignment,
   type AutomationRunLog,
   type InsertAutomationRunLog,
+  type SchedulerJobLock,
   // Advanced Analytics types  
   type AnalyticsMetric,
   type InsertAnalyticsMetric,
@@ -240,6 +276,8 @@ import {
   type InsertN8nWebhookConfig,
   type WebhookExecutionLog,
   type InsertWebhookExecutionLog,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
   type NotificationPreference,
   type InsertNotificationPreference,
   type NotificationTemplate,
@@ -273,9 +311,79 @@ import {
   type InsertTeamMember,
   type CompetencyEvidenceData,
   type AutomationTriggerData,
+  importBatches,
+  importBatchRecords,
+  type ImportBatch,
+  type InsertImportBatch,
+  type ImportBatchRecord,
+  permissionRoles,
+  permissionRoleAssignments,
+  type PermissionRole,
+  type InsertPermissionRole,
+  type PermissionRoleAssignment,
+  type InsertPermissionRoleAssignment,
+  apiTokens,
+  apiTokenAccessLog,
+  apiTokenRateWindows,
+  type ApiToken,
+  type InsertApiToken,
+  type ApiTokenAccessLogEntry,
+  type InsertApiTokenAccessLogEntry,
+  domainEvents,
+  domainEventSubscriberRuns,
+  type DomainEvent,
+  type DomainEventSubscriberRun,
+  type DomainEventType,
+  type NewDomainEvent,
+  notificationChannelSettings,
+  notificationDeliveries,
+  DEFAULT_EMAIL_NOTIFICATION_TYPES,
+  DIGEST_NOTIFICATION_TYPES,
+  type NotificationChannelSettings,
+  type UpdateNotificationChannelSettings,
+  type NotificationDelivery,
+  type InsertNotificationDelivery,
+  notificationTemplateLocales,
+  type NotificationTemplateLocale,
+  type UpsertNotificationTemplateLocale,
+  analyticsReportRuns,
+  type AnalyticsReportRun,
+  type InsertAnalyticsReportRun,
+  certificateTemplates,
+  certificateTemplateAssignments,
+  type CertificateTemplate,
+  type CertificateTemplateAssignment,
+  type InsertCertificateTemplate,
+  type ObjectiveDependencyGraph,
+  type KrForecast,
+  type KrForecastMethod,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc, ne, sql, inArray, isNull, isNotNull, max, gte, lte, or, ilike } from "drizzle-orm";
+import { postWebhook, generateWebhookSigningSecret } from "./webhookClient";
+import {
+  buildLearningStatement,
+  buildXapiActivity,
+  buildXapiActor,
+  buildXapiScore,
+  getXapiLmsAuthority,
+  toXapiDuration,
+  toXapiStatementRecord,
+  type XapiActivity,
+  type XapiAgent,
+  type XapiStatement,
+} from "./xapiStatements";
+import { drawQuestionsForRule, filterDrawCandidates, shuffleQuestionChoices, shuffleQuestions, toLearnerQuizAttempt, QuizDrawError, type DrawCandidate } from "./questionDraw";
+import { gradeQuestion, calculateAttemptScore, hasPendingManualGrading, applyManualGrades, QuizGradingError, type ManualGrade } from "./quizGrading";
+import { getAttemptDeadline, isQuizAttemptOpen, QuizAttemptClosedError } from "./quizTiming";
+import { renderNotificationTemplate, type RenderedNotification } from "./notificationTemplates";
+import { ImportBatchError, type ImportEntityType, type ImportOperation, type ImportReport } from "./importPlan";
+import { scoreKeyResult, scoreGoal, averageScore, getScoreBand, isUnfinished, assertOkrCycleDates, assertOkrCycleStatusChange, OkrCycleError } from "./okrScoring";
+import { computeOkrRollup, type OkrRollupOverride } from "./okrRollup";
+import { buildDependencyGraph, validateObjectiveDependencies } from "./okrDependencies";
+import { buildForecastSeries, forecastKeyResult } from "./okrForecasting";
+import { getLifecycleEvents, toLifecycleDomainEvents } from "./userLifecycle";
+import { eq, and, desc, asc, ne, sql, inArray, isNull, isNotNull, max, gte, gt, lte, or, ilike, getTableColumns, arrayOverlaps } from "drizzle-orm";
+import { randomUUID } from "crypto";
 
 // Org Chart Types
 export interface JobRoleHierarchyNode {
@@ -352,20 +460,581 @@ export interface CompetencyLibraryItemWithRoles {
   }>;
 }
 
+// Lesson progress fields derived from a SCORM runtime commit (see server/scorm.ts)
+export interface ScormProgressUpdate {
+  scormCmiData: Record<string, Record<string, string>>;
+  scormLessonStatus: string | null;
+  scormScore: number | null;
+  scormSuspendData: string | null;
+  scormLessonLocation: string | null;
+  progressPercentage: number;
+  sessionTimeSeconds: number;
+  completed: boolean;
+}
+
+// Filters for GET /xapi/statements, already resolved to indexed columns
+export interface XapiStatementFilters {
+  actorKey?: string;
+  verbId?: string;
+  objectId?: string;
+  registration?: string;
+  since?: Date;
+  until?: Date;
+  ascending?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface QuestionBankSummary extends QuestionBank {
+  questionCount: number;
+}
+
+// Draw rule with the number of bank questions currently matching its filters
+export interface QuizDrawRuleAvailability extends QuizDrawRule {
+  availableCount: number;
+}
+
+// Submitted attempt with essays awaiting a supervisor's grade
+export interface QuizGradingQueueItem {
+  attempt: QuizAttempt;
+  quizTitle: string;
+  lessonId: string;
+  learnerName: string;
+  learnerEmail: string | null;
+}
+
+// Recorded on attempts closed by the time limit, and on on-time submissions that used part of the grace period
+export interface QuizAttemptClosure {
+  closeReason?: "auto_submitted" | null;
+  overrunSeconds?: number | null;
+  lateSubmissionAt?: Date | null;
+}
+
+export interface QuizAttemptHistoryItem {
+  attempt: QuizAttempt;
+  learnerName: string;
+  learnerEmail: string | null;
+}
+
+// SCIM list requests: optional exact-match filters (case-insensitive) plus paging
+export interface ProvisionedUserQuery {
+  userName?: string;
+  externalId?: string;
+  email?: string;
+  offset: number;
+  limit: number;
+}
+
+export interface ProvisionedTeamQuery {
+  displayName?: string;
+  externalId?: string;
+  offset: number;
+  limit: number;
+}
+
+// A permission role held by a user, flattened for permission checks (see permissions.ts)
+export interface UserPermissionGrant {
+  assignmentId: string | null; // null for the implicit grant of the user's base role
+  roleId: string | null;
+  roleName: string;
+  permissions: string[];
+  scopeType: "organization" | "department" | "team";
+  scopeId: string | null;
+}
+
+export interface PermissionRoleAssignmentWithDetails extends PermissionRoleAssignment {
+  roleName: string;
+  userName: string;
+  userEmail: string | null;
+}
+
+export interface ApiTokenAccessLogQuery {
+  tokenId?: string;
+  userId?: string;
+  limit: number;
+}
+
+// Position in commit order of domain_events and notifications rows, read by the realtime relay
+export interface RealtimeRelayCursor {
+  txId: number;
+  seq: number;
+}
+
+export interface DomainEventQuery {
+  eventType?: string;
+  status?: DomainEvent["status"];
+  aggregateType?: string;
+  aggregateId?: string;
+  userId?: string;
+  limit: number;
+}
+
+// An outstanding item rolled into a digest email
+export interface DigestItem {
+  userId: string;
+  type: "training_due" | "training_overdue" | "goal_deadline";
+  title: string;
+  dueDate: Date;
+  entityType: "enrollment" | "learning_path_enrollment" | "goal";
+  entityId: string;
+}
+
+export interface DigestSubscriber {
+  user: User;
+  settings: NotificationChannelSettings;
+}
+
+// What a notification template renders against: the recipient, their overdue courses and the event's own variables
+export interface NotificationTemplateContext {
+  context: Record<string, unknown>;
+  locale: string;
+  timezone: string;
+}
+
+export interface NotificationPreviewEvent {
+  entityType: string;
+  entityId: string;
+  label: string;
+  occurredAt: Date | null;
+}
+
+export interface NotificationPreviewData {
+  variables: Record<string, unknown>;
+  event: NotificationPreviewEvent | null;
+  events: NotificationPreviewEvent[];
+}
+
+export interface NotificationDeliveryQuery {
+  userId?: string;
+  status?: string;
+  channel?: "email" | "sms";
+  limit: number;
+}
+
+export interface ScheduledReportWithLastRun extends AnalyticsReport {
+  lastRun: AnalyticsReportRun | null;
+}
+
+export interface CertificateTemplateWithUsage extends CertificateTemplate {
+  usage: {
+    totalIssued: number;
+    activeCertificates: number;
+    expiredCertificates: number;
+    revokedCertificates: number;
+  };
+  courseIds: string[];
+  learningPathIds: string[];
+}
+
+export type IssuedCertificateStatus = "active" | "expired" | "revoked";
+
+export interface IssuedCertificateQuery {
+  search?: string;
+  status?: IssuedCertificateStatus;
+  certificateType?: string;
+  templateId?: string;
+  limit: number;
+}
+
+export interface IssuedCertificateSummary extends Certificate {
+  status: IssuedCertificateStatus;
+  user: { firstName: string | null; lastName: string | null; email: string | null };
+  template: { id: string; name: string } | null;
+}
+
+export interface CertificateIssuanceCounts {
+  issued: number;
+  active: number;
+  expired: number;
+  revoked: number;
+}
+
+export interface CertificateIssuanceAnalytics extends CertificateIssuanceCounts {
+  issueRate: number; // Average issued per month over the window
+  byTemplate: Array<CertificateIssuanceCounts & { templateId: string | null; templateName: string }>;
+  byCourse: Array<CertificateIssuanceCounts & { courseId: string; courseTitle: string }>;
+  byLearningPath: Array<CertificateIssuanceCounts & { learningPathId: string; learningPathTitle: string }>;
+  byMonth: Array<{ month: string; issued: number }>; // "YYYY-MM", oldest first, months without issues included
+}
+
+export interface OkrCycleSummary extends OkrCycle {
+  companyObjectiveCount: number;
+  teamObjectiveCount: number;
+  goalCount: number;
+}
+
+export type ScoredKeyResult = (KeyResult | TeamKeyResult) & { score: number };
+
+// One line of a cycle scorecard: a company objective, team objective or individual goal
+export interface OkrScorecardEntry {
+  objectiveType: OkrObjectiveKind;
+  objectiveId: string;
+  title: string;
+  ownerId: string | null; // Goals: the goal's user; team objectives fall back to the supervisor
+  teamId: string | null;
+  parentObjectiveId: string | null;
+  score: number | null; // From the key results (goals: their own value); null with nothing to score
+  finalScore: number | null; // Recorded at close-out
+  retrospective: string | null;
+  rolledForwardFromId: string | null;
+  keyResults: ScoredKeyResult[];
+}
+
+export interface OkrCycleScorecard {
+  cycle: OkrCycle;
+  averageScore: number | null; // Final scores once closed, current scores before
+  objectives: OkrScorecardEntry[];
+}
+
+export interface OkrRollForward {
+  objectiveType: OkrObjectiveKind;
+  fromId: string;
+  toId: string;
+}
+
+export interface OkrCycleCloseResult {
+  cycle: OkrCycle;
+  snapshotCount: number;
+  averageScore: number | null;
+  rolledForward: OkrRollForward[];
+}
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Everything graded together when a cycle closes
+interface OkrCycleRows {
+  companyObjectives: CompanyObjective[];
+  teamObjectives: TeamObjective[];
+  goals: Goal[];
+  keyResults: KeyResult[];
+  teamKeyResults: TeamKeyResult[];
+}
+
+// Tables bulk imports write to, by the entity type recorded on import_batch_records
+const IMPORT_TABLES: Record<ImportEntityType, any> = {
+  department: departments,
+  team: teams,
+  user: users,
+  team_member: teamMembers,
+  enrollment: enrollments,
+  training_record: trainingRecords,
+  certificate: certificates,
+  competency_evidence: competencyEvidenceRecords,
+};
+
+// jsonb turns dates into ISO strings; turn them back before writing to timestamp columns
+function reviveImportValues(table: any, values: Record<string, unknown>): Record<string, unknown> {
+  const columns = getTableColumns(table) as Record<string, { dataType: string }>;
+  const revived: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    revived[key] = columns[key]?.dataType === "date" && typeof value === "string" ? new Date(value) : value;
+  }
+  return revived;
+}
+
+function sameImportValue(current: unknown, stored: unknown): boolean {
+  return JSON.stringify(current ?? null) === JSON.stringify(stored ?? null);
+}
+
+// Automation triggers fired when a user is created or moves role or team
+const USER_LIFECYCLE_TRIGGERS = ["user_created", "user_updated", "role_changed", "team_changed"];
+
+// Automation triggers fired by a learner's own activity; rules for these act on that learner like the lifecycle ones
+const LEARNER_ACTIVITY_TRIGGERS = ["course_completed", "quiz_passed", "quiz_failed", "badge_earned"];
+
+// Typed constructor so each event's payload is checked against its event type
+function domainEvent<T extends DomainEventType>(event: NewDomainEvent<T>): NewDomainEvent {
+  return event;
+}
+
+// Only attempts with a final score produce an event; essays awaiting grading wait for gradeQuizAttempt
+function quizOutcomeEvents(attempt: QuizAttempt, gradedBy?: string): NewDomainEvent[] {
+  if (attempt.gradingStatus === "pending_grading" || attempt.score === null) return [];
+  const payload = { attemptId: attempt.id, quizId: attempt.quizId, userId: attempt.userId, enrollmentId: attempt.enrollmentId, score: attempt.score };
+  const base = { aggregateType: "quiz_attempt", aggregateId: attempt.id, userId: attempt.userId, actorId: gradedBy ?? attempt.userId };
+  return [attempt.passed
+    ? domainEvent({ ...base, eventType: "quiz.passed", payload })
+    : domainEvent({ ...base, eventType: "quiz.failed", payload })];
+}
+
+function certificateIssuedEvent(certificate: Certificate, issuedBy?: string): NewDomainEvent {
+  return domainEvent({
+    eventType: "certificate.issued",
+    aggregateType: "certificate",
+    aggregateId: certificate.id,
+    userId: certificate.userId,
+    actorId: issuedBy ?? null,
+    payload: {
+      certificateId: certificate.id,
+      userId: certificate.userId,
+      certificateNumber: certificate.certificateNumber,
+      title: certificate.title,
+      replacesCertificateId: certificate.reissuedFromCertificateId,
+    },
+  });
+}
+
+function badgeAwardedEvent(userBadge: UserBadge): NewDomainEvent {
+  return domainEvent({
+    eventType: "badge.awarded",
+    aggregateType: "user_badge",
+    aggregateId: userBadge.id,
+    userId: userBadge.userId,
+    actorId: userBadge.awardedBy && userBadge.awardedBy !== "system" ? userBadge.awardedBy : null,
+    payload: { userBadgeId: userBadge.id, badgeId: userBadge.badgeId, userId: userBadge.userId },
+  });
+}
+
+function krProgressUpdatedEvent(update: KrProgressUpdate): NewDomainEvent {
+  return domainEvent({
+    eventType: "key_result.progress_updated",
+    aggregateType: "key_result",
+    aggregateId: update.keyResultId,
+    actorId: update.updatedBy,
+    payload: {
+      progressUpdateId: update.id,
+      keyResultId: update.keyResultId,
+      keyResultType: update.keyResultType,
+      previousValue: update.previousValue,
+      newValue: update.newValue,
+      confidenceScore: update.confidenceScore,
+    },
+  });
+}
+
+function okrCycleClosedEvent(cycle: OkrCycle, objectiveCount: number, score: number | null, rolledForward: OkrRollForward[], rolledForwardToCycleId: string | null): NewDomainEvent {
+  return domainEvent({
+    eventType: "okr_cycle.closed",
+    aggregateType: "okr_cycle",
+    aggregateId: cycle.id,
+    actorId: cycle.closedBy,
+    payload: {
+      cycleId: cycle.id,
+      name: cycle.name,
+      objectiveCount,
+      averageScore: score,
+      rolledForwardCount: rolledForward.length,
+      rolledForwardToCycleId,
+    },
+  });
+}
+
+function objectiveAtRiskEvent(objective: CompanyObjective, blockedBy: string[], newlyBlockedBy: string[]): NewDomainEvent {
+  const ownerId = objective.ownerId ?? objective.createdBy;
+  return domainEvent({
+    eventType: "objective.at_risk",
+    aggregateType: "company_objective",
+    aggregateId: objective.id,
+    userId: ownerId,
+    actorId: null,
+    payload: { objectiveId: objective.id, title: objective.title, ownerId, blockedBy, newlyBlockedBy },
+  });
+}
+
+function buildOkrScorecardEntries(rows: OkrCycleRows): OkrScorecardEntry[] {
+  const score = (krs: Array<KeyResult | TeamKeyResult>) => krs.map(kr => ({ ...kr, score: scoreKeyResult(kr) }));
+  const company = rows.companyObjectives.map((objective): OkrScorecardEntry => {
+    const krs = score(rows.keyResults.filter(kr => kr.objectiveId === objective.id));
+    return {
+      objectiveType: "company",
+      objectiveId: objective.id,
+      title: objective.title,
+      ownerId: objective.ownerId,
+      teamId: null,
+      parentObjectiveId: null,
+      score: averageScore(krs.map(kr => kr.score)),
+      finalScore: objective.finalScore,
+      retrospective: objective.retrospective,
+      rolledForwardFromId: objective.rolledForwardFromId,
+      keyResults: krs,
+    };
+  });
+  const team = rows.teamObjectives.map((objective): OkrScorecardEntry => {
+    const krs = score(rows.teamKeyResults.filter(kr => kr.teamObjectiveId === objective.id));
+    return {
+      objectiveType: "team",
+      objectiveId: objective.id,
+      title: objective.title,
+      ownerId: objective.ownerId ?? objective.supervisorId,
+      teamId: objective.teamId,
+      parentObjectiveId: objective.parentCompanyObjectiveId,
+      score: averageScore(krs.map(kr => kr.score)),
+      finalScore: objective.finalScore,
+      retrospective: objective.retrospective,
+      rolledForwardFromId: objective.rolledForwardFromId,
+      keyResults: krs,
+    };
+  });
+  const individual = rows.goals.map((goal): OkrScorecardEntry => ({
+    objectiveType: "goal",
+    objectiveId: goal.id,
+    title: goal.title,
+    ownerId: goal.userId,
+    teamId: null,
+    parentObjectiveId: goal.parentTeamObjectiveId ?? goal.parentObjectiveId,
+    score: scoreGoal(goal),
+    finalScore: goal.finalScore,
+    retrospective: goal.retrospective,
+    rolledForwardFromId: goal.rolledForwardFromId,
+    keyResults: [],
+  }));
+  return [...company, ...team, ...individual];
+}
+
+function keyResultRollupInput(kr: KeyResult | TeamKeyResult, kind: "key_result" | "team_key_result"): OkrRollupInput {
+  return { kind, id: kr.id, title: kr.title, score: scoreKeyResult(kr), weight: kr.rollupWeight };
+}
+
+function goalRollupInput(goal: Goal): OkrRollupInput {
+  return { kind: "goal", id: goal.id, title: goal.title, score: scoreGoal(goal), weight: goal.rollupWeight };
+}
+
+function rollupOverrideOf(objective: CompanyObjective | TeamObjective): OkrRollupOverride | null {
+  if (objective.rollupOverride === null) return null;
+  return {
+    value: objective.rollupOverride,
+    reason: objective.rollupOverrideReason ?? "",
+    by: objective.rollupOverriddenBy,
+    at: objective.rollupOverriddenAt,
+  };
+}
+
+function competencyStatusChangedEvent(history: CompetencyStatusHistory): NewDomainEvent {
+  return domainEvent({
+    eventType: "competency.status_changed",
+    aggregateType: "competency_status",
+    aggregateId: `${history.userId}:${history.competencyLibraryId}`,
+    userId: history.userId,
+    actorId: history.changedBy,
+    payload: {
+      historyId: history.id,
+      userId: history.userId,
+      competencyLibraryId: history.competencyLibraryId,
+      previousStatus: history.previousStatus,
+      newStatus: history.newStatus,
+      reason: history.statusChangeReason,
+    },
+  });
+}
+
+function matchesCondition(values: string[], operator: string, expected: unknown, errors: string[]): boolean {
+  const expectedValues = (Array.isArray(expected) ? expected : [expected]).map(value => String(value).toLowerCase());
+  switch (operator) {
+    case "equals":
+    case "in_list":
+      return values.some(value => expectedValues.includes(value));
+    case "not_equals":
+    case "not_in_list":
+      return !values.some(value => expectedValues.includes(value));
+    case "contains":
+      return values.some(value => expectedValues.some(part => value.includes(part)));
+    case "not_contains":
+      return !values.some(value => expectedValues.some(part => value.includes(part)));
+    case "is_empty":
+      return values.length === 0;
+    case "is_not_empty":
+      return values.length > 0;
+    default:
+      errors.push(`Operator '${operator}' is not supported for user lifecycle triggers`);
+      return false;
+  }
+}
+
+// Certificate joined with the holder and the course or learning path it was issued for
+export interface CertificateDetails {
+  certificate: Certificate;
+  holderName: string;
+  holderFirstName: string | null;
+  holderLastName: string | null;
+  courseTitle: string | null;
+  courseVersion: string | null;
+  learningPathTitle: string | null;
+}
+
 export interface IStorage {
-  // User operations - required for Replit Auth
+  // User operations - required for authentication
   getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
   getAllUsers(): Promise<User[]>;
+
+  // Local username/password credentials
+  getUserCredential(userId: string): Promise<UserCredential | undefined>;
+  getUserCredentialByUsername(username: string): Promise<UserCredential | undefined>;
+  upsertUserCredential(credential: InsertUserCredential): Promise<UserCredential>;
+  recordFailedLogin(userId: string, maxAttempts: number, lockedUntil: Date, now: Date): Promise<UserCredential | undefined>;
+  recordSuccessfulLogin(userId: string): Promise<void>;
+  unlockUserCredential(userId: string): Promise<UserCredential | undefined>;
+
+  // SCIM provisioning
+  findProvisionedUsers(query: ProvisionedUserQuery): Promise<{ users: User[]; total: number }>;
+  createProvisionedUser(user: UpsertUser, source: string): Promise<User>;
+  updateProvisionedUser(userId: string, updates: Partial<UpsertUser>, source: string): Promise<User | undefined>;
+  deleteUserSessions(userId: string): Promise<number>;
+  findProvisionedTeams(query: ProvisionedTeamQuery): Promise<{ teams: Team[]; total: number }>;
+  setTeamMembers(teamId: string, userIds: string[], source: string): Promise<string[]>;
+  getDepartmentByNameOrCode(value: string): Promise<Department | undefined>;
+  getJobRoleByNameOrCode(value: string): Promise<JobRole | undefined>;
+
+  // Bulk imports
+  createImportBatch(batch: InsertImportBatch): Promise<ImportBatch>;
+  updateImportBatch(batchId: string, updates: Partial<InsertImportBatch>): Promise<ImportBatch | undefined>;
+  getImportBatch(batchId: string): Promise<ImportBatch | undefined>;
+  getImportBatches(limit?: number): Promise<ImportBatch[]>;
+  getImportBatchRecords(batchId: string): Promise<ImportBatchRecord[]>;
+  getTeamMembershipsForUsers(userIds: string[]): Promise<TeamMember[]>;
+  commitImportBatch(batchId: string, operations: ImportOperation[], report: ImportReport, committedBy: string): Promise<ImportBatch>;
+  rollbackImportBatch(batchId: string, rolledBackBy: string, reason: string): Promise<ImportBatch>;
+
+  // Permission roles
+  getPermissionRoles(): Promise<PermissionRole[]>;
+  getPermissionRole(roleId: string): Promise<PermissionRole | undefined>;
+  createPermissionRole(role: InsertPermissionRole): Promise<PermissionRole>;
+  updatePermissionRole(roleId: string, updates: Partial<InsertPermissionRole>): Promise<PermissionRole | undefined>;
+  deletePermissionRole(roleId: string): Promise<boolean>;
+  getPermissionRoleAssignments(filters?: { roleId?: string; userId?: string }): Promise<PermissionRoleAssignmentWithDetails[]>;
+  createPermissionRoleAssignment(assignment: InsertPermissionRoleAssignment): Promise<PermissionRoleAssignment>;
+  deletePermissionRoleAssignment(assignmentId: string): Promise<PermissionRoleAssignment | undefined>;
+  getUserPermissionGrants(userId: string): Promise<UserPermissionGrant[]>;
+
+  // API tokens and service accounts
+  getServiceAccounts(): Promise<User[]>;
+  createServiceAccount(account: UpsertUser): Promise<User>;
+  updateServiceAccount(userId: string, updates: Partial<UpsertUser>): Promise<User | undefined>;
+  getApiTokens(userId: string): Promise<ApiToken[]>;
+  getApiToken(tokenId: string): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  revokeApiToken(tokenId: string, revokedBy: string): Promise<ApiToken | undefined>;
+  recordApiTokenUse(entry: InsertApiTokenAccessLogEntry): Promise<void>;
+  countApiTokenRequest(tokenId: string, windowMs: number): Promise<{ windowStartedAt: Date; requestCount: number }>;
+  getApiTokenAccessLog(query: ApiTokenAccessLogQuery): Promise<ApiTokenAccessLogEntry[]>;
+  deleteApiTokenAccessLogBefore(cutoff: Date): Promise<number>;
+
+  // Domain event outbox
+  recordDomainEvents(events: NewDomainEvent[]): Promise<DomainEvent[]>;
+  getDomainEvents(query: DomainEventQuery): Promise<DomainEvent[]>;
+  getDomainEvent(eventId: string): Promise<DomainEvent | undefined>;
+  getDueDomainEvents(limit: number): Promise<DomainEvent[]>;
+  claimDomainEvent(eventId: string, leaseMs: number): Promise<DomainEvent | undefined>;
+  updateDomainEvent(eventId: string, updates: Partial<Pick<DomainEvent, "status" | "attempts" | "nextAttemptAt" | "lastError" | "processedAt">>): Promise<DomainEvent | undefined>;
+  retryDomainEvent(eventId: string): Promise<DomainEvent | undefined>;
+  getDomainEventSubscriberRuns(eventId: string): Promise<DomainEventSubscriberRun[]>;
+  recordDomainEventSubscriberRun(eventId: string, subscriber: string, error: string | null): Promise<void>;
+  getWebhookConfigsForDomainEvent(eventType: string): Promise<N8nWebhookConfig[]>;
+  deleteProcessedDomainEventsBefore(cutoff: Date): Promise<number>;
+  getRealtimeRelayStart(): Promise<RealtimeRelayCursor>;
+  getDomainEventsAfter(eventTypes: DomainEventType[], after: RealtimeRelayCursor, limit: number): Promise<DomainEvent[]>;
   
   // Company objectives
-  getActiveCompanyObjectives(): Promise<CompanyObjective[]>;
+  getActiveCompanyObjectives(cycleId?: string): Promise<CompanyObjective[]>;
+  getCompanyObjectivesByIds(ids: string[]): Promise<CompanyObjective[]>;
   createCompanyObjective(objective: InsertCompanyObjective): Promise<CompanyObjective>;
   updateCompanyObjective(id: string, objective: Partial<InsertCompanyObjective>): Promise<CompanyObjective>;
   deleteCompanyObjective(id: string): Promise<void>;
   
   // Team objectives
-  getTeamObjectives(teamId?: string, supervisorId?: string): Promise<TeamObjective[]>;
+  getTeamObjectives(teamId?: string, supervisorId?: string, cycleId?: string): Promise<TeamObjective[]>;
   getTeamObjectiveById(id: string): Promise<TeamObjective | null>;
   createTeamObjective(objective: InsertTeamObjective): Promise<TeamObjective>;
   updateTeamObjective(id: string, objective: Partial<InsertTeamObjective>): Promise<TeamObjective>;
@@ -387,6 +1056,7 @@ export interface IStorage {
   // Key result progress tracking
   createKrProgressUpdate(update: InsertKrProgressUpdate): Promise<KrProgressUpdate>;
   getKrProgressHistory(keyResultId: string, keyResultType: 'company' | 'team'): Promise<KrProgressUpdate[]>;
+  getKrProgressForecast(keyResultId: string, keyResultType: 'company' | 'team', method: KrForecastMethod, now?: Date): Promise<KrForecast | null>;
   
   // Phase 3: Quality policy management
   getQualityPolicies(category?: string, isActive?: boolean): Promise<QualityPolicy[]>;
@@ -425,6 +1095,17 @@ export interface IStorage {
   getOkrSnapshots(objectiveId?: string, managementReviewId?: string): Promise<OkrSnapshot[]>;
   getOkrSnapshot(id: string): Promise<OkrSnapshot | null>;
   
+  // OKR cycles
+  getOkrCycles(): Promise<OkrCycleSummary[]>;
+  getOkrCycle(id: string): Promise<OkrCycle | null>;
+  createOkrCycle(cycle: InsertOkrCycle, createdBy: string): Promise<OkrCycle>;
+  updateOkrCycle(id: string, updates: UpdateOkrCycle): Promise<OkrCycle | null>;
+  getOkrCycleScorecard(id: string): Promise<OkrCycleScorecard | null>;
+  closeOkrCycle(id: string, closeOut: CloseOkrCycle, closedBy: string): Promise<OkrCycleCloseResult>;
+  updateOkrRollupRule(objectiveType: "company" | "team", objectiveId: string, rule: OkrRollupRule, updatedBy: string): Promise<OkrRollupBreakdown | null>;
+  getObjectiveDependencyGraph(cycleId?: string): Promise<ObjectiveDependencyGraph>;
+  refreshObjectiveDependencyRisk(now?: Date): Promise<{ objectivesChecked: number; newlyAtRisk: number }>;
+  
   // Phase 5: Corrective Actions & Nonconformity
   getCorrectiveActions(status?: string, assignedTo?: string): Promise<CorrectiveAction[]>;
   getCorrectiveAction(id: string): Promise<CorrectiveAction | null>;
@@ -493,6 +1174,7 @@ export interface IStorage {
     relatedEntityType?: string;
     metadata?: any;
     expiresAt?: Date;
+    variables?: Record<string, unknown>; // Values for the type's notification template, if an admin has made one
   }): Promise<void>;
   triggerWebhookNotification(userId: string, type: string, data: any): Promise<void>;
   notifyEnrollment(userId: string, courseTitle: string, enrollmentId: string): Promise<void>;
@@ -500,7 +1182,9 @@ export interface IStorage {
   notifyQuizPassed(userId: string, lessonTitle: string, score: number, quizId: string): Promise<void>;
   notifyQuizFailed(userId: string, lessonTitle: string, score: number, quizId: string): Promise<void>;
   notifyCertificateIssued(userId: string, courseTitle: string, certificateId: string): Promise<void>;
+  notifyCertificateRevoked(userId: string, certificateTitle: string, certificateId: string, reason: string): Promise<void>;
   notifyBadgeAwarded(userId: string, badgeName: string, badgeId: string): Promise<void>;
+  notifyObjectiveAtRisk(userId: string, objectiveId: string, objectiveTitle: string, blockedByTitles: string[], dueDate: Date): Promise<void>;
   notifyTrainingDue(userId: string, courseTitle: string, dueDate: Date, enrollmentId: string): Promise<void>;
   notifyTrainingOverdue(userId: string, courseTitle: string, daysPastDue: number, enrollmentId: string): Promise<void>;
 
@@ -634,6 +1318,7 @@ export interface IStorage {
   // LMS - Course Management
   getCourses(): Promise<Course[]>;
   getCourse(courseId: string): Promise<Course | undefined>;
+  getCourseTitleForVersion(courseVersionId: string): Promise<string | undefined>;
   getCourseDetailsWithProgress(courseId: string, userId?: string): Promise<CourseDetailsWithProgress>;
   createCourse(course: InsertCourse): Promise<Course>;
   updateCourse(courseId: string, updates: Partial<InsertCourse>): Promise<Course>;
@@ -670,10 +1355,33 @@ export interface IStorage {
   updateQuizQuestion(questionId: string, updates: Partial<InsertQuizQuestion>): Promise<QuizQuestion>;
   deleteQuizQuestion(questionId: string): Promise<void>;
   startQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt>;
-  submitQuizAttempt(attemptId: string, answers: QuizAnswers, timeSpent: number): Promise<QuizAttempt>;
+  submitQuizAttempt(attemptId: string, answers: QuizAnswers, timeSpent: number | null, closure?: QuizAttemptClosure): Promise<QuizAttempt>;
+  saveQuizAttemptAnswers(attemptId: string, answers: QuizAnswers): Promise<QuizAttempt | undefined>;
+  voidQuizAttempt(attemptId: string, timeSpent: number | null, closure: Omit<QuizAttemptClosure, "closeReason">): Promise<QuizAttempt>;
   getQuizAttempt(attemptId: string): Promise<QuizAttempt | undefined>;
   getUserQuizAttempts(userId: string, quizId: string): Promise<QuizAttempt[]>;
   getLatestQuizAttempt(userId: string, quizId: string): Promise<QuizAttempt | undefined>;
+  getOpenQuizAttempt(userId: string, quizId: string): Promise<QuizAttempt | undefined>;
+  getOverdueQuizAttempts(cutoff: Date, limit?: number): Promise<QuizAttempt[]>;
+  getQuizAttemptHistory(quizId: string): Promise<QuizAttemptHistoryItem[]>;
+  getPendingGradingAttempts(): Promise<QuizGradingQueueItem[]>;
+  gradeQuizAttempt(attemptId: string, grades: ManualGrade[], gradedBy: string): Promise<QuizAttempt>;
+
+  // LMS - Question Banks and Draw Rules
+  getQuestionBanks(): Promise<QuestionBankSummary[]>;
+  getQuestionBank(bankId: string): Promise<QuestionBank | undefined>;
+  createQuestionBank(bank: InsertQuestionBank): Promise<QuestionBank>;
+  updateQuestionBank(bankId: string, updates: Partial<InsertQuestionBank>): Promise<QuestionBank>;
+  deleteQuestionBank(bankId: string): Promise<void>;
+  getQuestionBankQuestions(bankId: string): Promise<QuestionBankQuestion[]>;
+  getQuestionBankQuestion(questionId: string): Promise<QuestionBankQuestion | undefined>;
+  createQuestionBankQuestions(questions: InsertQuestionBankQuestion[]): Promise<QuestionBankQuestion[]>;
+  updateQuestionBankQuestion(questionId: string, updates: Partial<InsertQuestionBankQuestion>): Promise<QuestionBankQuestion>;
+  deleteQuestionBankQuestion(questionId: string): Promise<void>;
+  getQuizDrawRules(quizId: string): Promise<QuizDrawRule[]>;
+  getQuizDrawRulesForBank(bankId: string): Promise<QuizDrawRule[]>;
+  getQuizDrawRuleAvailability(quizId: string): Promise<QuizDrawRuleAvailability[]>;
+  replaceQuizDrawRules(quizId: string, rules: InsertQuizDrawRule[]): Promise<QuizDrawRule[]>;
 
   // LMS - Enrollments and Progress
   enrollUser(enrollment: InsertEnrollment): Promise<Enrollment>;
@@ -688,10 +1396,43 @@ export interface IStorage {
   updateLessonProgressFromQuiz(enrollmentId: string, quizId: string, userId: string): Promise<void>;
   completeLessonManually(enrollmentId: string, lessonId: string): Promise<{ success: boolean; message: string }>;
 
+  // LMS - SCORM
+  createScormPackage(scormPackage: InsertScormPackage & { id?: string }): Promise<ScormPackage>;
+  getScormPackage(packageId: string): Promise<ScormPackage | undefined>;
+  updateLessonProgressFromScorm(enrollmentId: string, lessonId: string, update: ScormProgressUpdate): Promise<LessonProgress>;
+
+  // LMS - xAPI Learning Record Store
+  createXapiStatements(records: InsertXapiStatementRecord[]): Promise<XapiStatementRecord[]>;
+  getXapiStatement(statementId: string): Promise<XapiStatementRecord | undefined>;
+  getXapiStatements(filters: XapiStatementFilters): Promise<XapiStatementRecord[]>;
+  voidXapiStatement(statementId: string, voidedByStatementId: string): Promise<void>;
+  getDueXapiStatementForwards(limit: number): Promise<XapiStatementRecord[]>;
+  updateXapiStatementForwarding(statementIds: string[], updates: Partial<Pick<XapiStatementRecord, "forwardStatus" | "forwardAttempts" | "nextForwardAt" | "forwardedAt" | "lastForwardError">>): Promise<void>;
+
   // LMS - Certificates and Badges
   issueCertificate(certificate: InsertCertificate): Promise<Certificate>;
   getUserCertificates(userId: string): Promise<Certificate[]>;
   getCertificate(certificateId: string): Promise<Certificate | undefined>;
+  getCertificateByNumber(certificateNumber: string): Promise<Certificate | undefined>;
+  getCertificateDetails(lookup: { certificateId?: string; certificateNumber?: string; verificationHash?: string }): Promise<CertificateDetails | undefined>;
+  revokeCertificate(certificateId: string, reason: string, revokedBy: string): Promise<{ certificate: Certificate; trainingMatrixUpdates: number }>;
+  reissueCertificate(certificateId: string, reason: string, reissuedBy: string, expiresAt?: Date | null): Promise<{ original: Certificate; reissued: Certificate }>;
+  bulkRevokeCertificatesByCourseVersion(courseVersionId: string, reason: string, revokedBy: string): Promise<{
+    bulkOperationId: string;
+    revoked: Certificate[];
+    trainingMatrixUpdates: number;
+  }>;
+  getCertificateAuditLog(certificateId: string): Promise<CertificateAuditLog[]>;
+  getIssuedCertificates(query: IssuedCertificateQuery, now?: Date): Promise<IssuedCertificateSummary[]>;
+  getCertificateIssuanceAnalytics(now: Date, months: number): Promise<CertificateIssuanceAnalytics>;
+
+  // Certificate templates
+  getCertificateTemplates(): Promise<CertificateTemplateWithUsage[]>;
+  getCertificateTemplate(templateId: string): Promise<CertificateTemplateWithUsage | undefined>;
+  createCertificateTemplate(template: InsertCertificateTemplate): Promise<CertificateTemplate>;
+  updateCertificateTemplate(templateId: string, updates: Partial<InsertCertificateTemplate>): Promise<CertificateTemplate | undefined>;
+  deleteCertificateTemplate(templateId: string): Promise<void>;
+  setCertificateTemplateAssignments(templateId: string, assignments: { courseIds: string[]; learningPathIds: string[] }, assignedBy: string): Promise<CertificateTemplateAssignment[]>;
   
   createBadge(badge: InsertBadge, courseIds?: string[]): Promise<Badge>;
   updateBadge(badgeId: string, badge: Partial<InsertBadge>, courseIds?: string[]): Promise<Badge>;
@@ -1018,6 +1759,12 @@ export interface IStorage {
   getAutomationRunLogs(entityId?: string, entityType?: string, limit?: number): Promise<AutomationRunLog[]>;
   getFailedAutomationRuns(limit?: number): Promise<AutomationRunLog[]>;
 
+  // Time-Based Automation - Scheduler Job Leases
+  acquireSchedulerJobLock(jobName: string, ownerId: string, leaseMs: number): Promise<boolean>;
+  renewSchedulerJobLock(jobName: string, ownerId: string, leaseMs: number): Promise<boolean>;
+  releaseSchedulerJobLock(jobName: string, ownerId: string, status: "completed" | "failed"): Promise<void>;
+  getSchedulerJobLocks(): Promise<SchedulerJobLock[]>;
+
   // =====================================================================
   // ADVANCED ANALYTICS INTERFACE - Phase 3 Implementation
   // =====================================================================
@@ -1052,6 +1799,20 @@ export interface IStorage {
   // Analytics Reports
   generateAnalyticsReport(report: InsertAnalyticsReport): Promise<AnalyticsReport>;
 
+  // Scheduled Reports - analytics_reports rows with a schedule, and their runs
+  getScheduledReports(): Promise<ScheduledReportWithLastRun[]>;
+  getAnalyticsReport(reportId: string): Promise<AnalyticsReport | undefined>;
+  updateAnalyticsReport(reportId: string, updates: Partial<InsertAnalyticsReport>): Promise<AnalyticsReport | undefined>;
+  deleteAnalyticsReport(reportId: string): Promise<void>;
+  getDueScheduledReports(now: Date, limit: number): Promise<AnalyticsReport[]>;
+  claimScheduledReport(reportId: string, dueAt: Date, nextRunAt: Date | null): Promise<AnalyticsReport | undefined>;
+  createAnalyticsReportRun(run: InsertAnalyticsReportRun): Promise<AnalyticsReportRun>;
+  updateAnalyticsReportRun(runId: string, updates: Partial<InsertAnalyticsReportRun>): Promise<AnalyticsReportRun | undefined>;
+  getAnalyticsReportRun(runId: string): Promise<AnalyticsReportRun | undefined>;
+  getAnalyticsReportRuns(reportId: string, limit?: number): Promise<AnalyticsReportRun[]>;
+  getExpiredAnalyticsReportRuns(now: Date, limit: number): Promise<AnalyticsReportRun[]>;
+  failStaleAnalyticsReportRuns(startedBefore: Date): Promise<number>;
+
   // Advanced Analytics Aggregations
   getEngagementMetrics(filters: {
     userId?: string;
@@ -1088,6 +1849,7 @@ export interface IStorage {
   }): Promise<Notification[]>;
   getNotification(notificationId: string): Promise<Notification | undefined>;
   createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotificationsAfter(after: RealtimeRelayCursor, limit: number): Promise<Notification[]>;
   markNotificationAsRead(notificationId: string, userId: string): Promise<Notification>;
   markAllNotificationsAsRead(userId: string): Promise<void>;
   archiveNotification(notificationId: string, userId: string): Promise<Notification>;
@@ -1103,12 +1865,15 @@ export interface IStorage {
   deleteN8nWebhookConfig(configId: string): Promise<void>;
   activateWebhookConfig(configId: string): Promise<N8nWebhookConfig>;
   deactivateWebhookConfig(configId: string): Promise<N8nWebhookConfig>;
+  autoDeactivateWebhookConfig(configId: string, reason: string): Promise<N8nWebhookConfig>;
+  rotateWebhookSigningSecret(configId: string, gracePeriodMs: number): Promise<N8nWebhookConfig | undefined>;
 
   // Webhook Execution & Logging
   executeWebhook(eventType: string, eventData: any, triggeredBy?: string): Promise<{
     success: boolean;
     webhookConfig?: N8nWebhookConfig;
     executionLog?: WebhookExecutionLog;
+    request?: { deliveryId: string; body: string; signatureHeaders: Record<string, string> };
     error?: string;
   }>;
   createWebhookExecutionLog(log: InsertWebhookExecutionLog): Promise<WebhookExecutionLog>;
@@ -1128,21 +1893,55 @@ export interface IStorage {
     lastExecution?: Date;
   }>;
 
+  // Webhook Delivery Queue
+  enqueueWebhookDelivery(delivery: Omit<InsertWebhookDelivery, "maxAttempts"> & { maxAttempts?: number }): Promise<WebhookDelivery>;
+  getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(filters?: {
+    webhookConfigId?: string;
+    status?: string;
+    limit?: number;
+  }): Promise<WebhookDelivery[]>;
+  getDueWebhookDeliveries(limit?: number, staleAfterMs?: number): Promise<WebhookDelivery[]>;
+  claimWebhookDelivery(deliveryId: string, staleAfterMs?: number): Promise<WebhookDelivery | undefined>;
+  updateWebhookDelivery(deliveryId: string, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery>;
+  recordWebhookDeliveryOutcome(configId: string, success: boolean): Promise<N8nWebhookConfig | undefined>;
+
   // Notification Preferences
   getUserNotificationPreferences(userId: string): Promise<NotificationPreference[]>;
   getNotificationPreference(userId: string, notificationType: string): Promise<NotificationPreference | undefined>;
   updateNotificationPreference(userId: string, notificationType: string, preferences: {
     inAppEnabled?: boolean;
     webhookEnabled?: boolean;
+    emailEnabled?: boolean;
+    smsEnabled?: boolean;
   }): Promise<NotificationPreference>;
   initializeDefaultNotificationPreferences(userId: string): Promise<NotificationPreference[]>;
 
+  // Email and SMS channels
+  getNotificationChannelSettings(userId: string): Promise<NotificationChannelSettings | undefined>;
+  upsertNotificationChannelSettings(userId: string, updates: UpdateNotificationChannelSettings): Promise<NotificationChannelSettings>;
+  getDigestSubscribers(): Promise<DigestSubscriber[]>;
+  markDigestSent(userId: string, sentAt: Date): Promise<void>;
+  getDigestItems(userIds: string[], horizon: Date, now: Date): Promise<DigestItem[]>;
+  createNotificationDeliveries(deliveries: InsertNotificationDelivery[]): Promise<NotificationDelivery[]>;
+  getNotificationDeliveries(query: NotificationDeliveryQuery): Promise<NotificationDelivery[]>;
+  getDueNotificationDeliveries(limit: number): Promise<NotificationDelivery[]>;
+  claimNotificationDelivery(deliveryId: string, leaseMs: number): Promise<NotificationDelivery | undefined>;
+  updateNotificationDelivery(deliveryId: string, updates: Partial<Pick<NotificationDelivery, "status" | "attempts" | "nextAttemptAt" | "lastError" | "providerMessageId" | "sentAt">>): Promise<NotificationDelivery | undefined>;
+
   // Notification Templates
   getNotificationTemplates(type?: string, activeOnly?: boolean): Promise<NotificationTemplate[]>;
   getNotificationTemplate(templateId: string): Promise<NotificationTemplate | undefined>;
   createNotificationTemplate(template: InsertNotificationTemplate): Promise<NotificationTemplate>;
   updateNotificationTemplate(templateId: string, updates: Partial<InsertNotificationTemplate>): Promise<NotificationTemplate>;
   deleteNotificationTemplate(templateId: string): Promise<void>;
+  getActiveNotificationTemplate(type: string): Promise<NotificationTemplate | undefined>;
+  getNotificationTemplateLocales(templateId: string): Promise<NotificationTemplateLocale[]>;
+  upsertNotificationTemplateLocale(templateId: string, locale: string, values: UpsertNotificationTemplateLocale, updatedBy: string): Promise<NotificationTemplateLocale>;
+  deleteNotificationTemplateLocale(templateId: string, locale: string): Promise<boolean>;
+  getNotificationTemplateContext(userId: string, variables?: Record<string, unknown>): Promise<NotificationTemplateContext>;
+  renderNotificationForUser(userId: string, type: string, variables: Record<string, unknown>): Promise<RenderedNotification | undefined>;
+  getNotificationPreviewData(userId: string, type: string, entityId?: string): Promise<NotificationPreviewData>;
 
   // Event-Based Notification Triggers
   triggerNotificationForEvent(eventType: string, eventData: {
@@ -1163,7 +1962,7 @@ export interface IStorage {
 }
 
 export class DatabaseStorage implements IStorage {
-  // User operations - required for Replit Auth
+  // User operations - required for authentication
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user;
@@ -1232,195 +2031,1065 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // People only; service accounts are listed by getServiceAccounts
   async getAllUsers(): Promise<User[]> {
     return await db
       .select()
       .from(users)
+      .where(eq(users.isServiceAccount, false))
       .orderBy(users.firstName, users.lastName);
   }
 
-  // Company objectives
-  async getActiveCompanyObjectives(): Promise<any[]> {
-    const objectives = await db
-      .select()
-      .from(companyObjectives)
-      .where(eq(companyObjectives.isActive, true))
-      .orderBy(desc(companyObjectives.startDate));
-    
-    // Fetch key results for each objective
-    const objectivesWithKRs = await Promise.all(
-      objectives.map(async (obj) => {
-        const krs = await this.getKeyResults(obj.id);
-        return { ...obj, keyResults: krs };
-      })
-    );
-    
-    return objectivesWithKRs;
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = ${email.trim().toLowerCase()}`);
+    return user;
   }
 
-  async createCompanyObjective(objective: InsertCompanyObjective): Promise<CompanyObjective> {
-    const [created] = await db
-      .insert(companyObjectives)
-      .values(objective)
+  // Local username/password credentials
+  async getUserCredential(userId: string): Promise<UserCredential | undefined> {
+    const [credential] = await db.select().from(userCredentials).where(eq(userCredentials.userId, userId));
+    return credential;
+  }
+
+  async getUserCredentialByUsername(username: string): Promise<UserCredential | undefined> {
+    const [credential] = await db.select().from(userCredentials).where(eq(userCredentials.username, username.trim().toLowerCase()));
+    return credential;
+  }
+
+  // Setting a password clears any lockout
+  async upsertUserCredential(credential: InsertUserCredential): Promise<UserCredential> {
+    const now = new Date();
+    const values = {
+      ...credential,
+      username: credential.username.trim().toLowerCase(),
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      passwordChangedAt: credential.passwordChangedAt ?? now,
+      updatedAt: now,
+    };
+    const [saved] = await db
+      .insert(userCredentials)
+      .values(values)
+      .onConflictDoUpdate({ target: userCredentials.userId, set: values })
       .returning();
-    return created;
+    return saved;
   }
 
-  async updateCompanyObjective(id: string, objective: Partial<InsertCompanyObjective>): Promise<CompanyObjective> {
+  // Counted in SQL so parallel guesses can't slip past the threshold. A lock that has expired starts a fresh count.
+  async recordFailedLogin(userId: string, maxAttempts: number, lockedUntil: Date, now: Date): Promise<UserCredential | undefined> {
+    const attempts = sql`CASE WHEN ${userCredentials.lockedUntil} IS NOT NULL AND ${userCredentials.lockedUntil} <= ${now} THEN 1 ELSE ${userCredentials.failedLoginAttempts} + 1 END`;
     const [updated] = await db
-      .update(companyObjectives)
-      .set({ ...objective, updatedAt: new Date() })
-      .where(eq(companyObjectives.id, id))
+      .update(userCredentials)
+      .set({
+        failedLoginAttempts: attempts,
+        lockedUntil: sql`CASE WHEN ${attempts} >= ${maxAttempts} THEN ${lockedUntil} ELSE NULL END`,
+        updatedAt: now,
+      })
+      .where(eq(userCredentials.userId, userId))
       .returning();
     return updated;
   }
 
-  async deleteCompanyObjective(id: string): Promise<void> {
+  async recordSuccessfulLogin(userId: string): Promise<void> {
     await db
-      .update(companyObjectives)
-      .set({ isActive: false, updatedAt: new Date() })
-      .where(eq(companyObjectives.id, id));
+      .update(userCredentials)
+      .set({ failedLoginAttempts: 0, lockedUntil: null, lastLoginAt: new Date() })
+      .where(eq(userCredentials.userId, userId));
   }
 
-  // Team objectives
-  async getTeamObjectives(teamId?: string, supervisorId?: string): Promise<any[]> {
-    const conditions = [];
-    if (teamId) conditions.push(eq(teamObjectives.teamId, teamId));
-    if (supervisorId) conditions.push(eq(teamObjectives.supervisorId, supervisorId));
-    
-    const objectives = await db
-      .select()
-      .from(teamObjectives)
-      .where(and(eq(teamObjectives.isActive, true), ...conditions))
-      .orderBy(desc(teamObjectives.startDate));
-    
-    // Fetch key results for each objective
-    const objectivesWithKRs = await Promise.all(
-      objectives.map(async (obj) => {
-        const krs = await this.getTeamKeyResults(obj.id);
-        return { ...obj, keyResults: krs };
-      })
-    );
-    
-    return objectivesWithKRs;
+  async unlockUserCredential(userId: string): Promise<UserCredential | undefined> {
+    const [updated] = await db
+      .update(userCredentials)
+      .set({ failedLoginAttempts: 0, lockedUntil: null, updatedAt: new Date() })
+      .where(eq(userCredentials.userId, userId))
+      .returning();
+    return updated;
   }
 
-  async getTeamObjectiveById(id: string): Promise<TeamObjective | null> {
-    const result = await db
+  // SCIM provisioning
+  async findProvisionedUsers(query: ProvisionedUserQuery): Promise<{ users: User[]; total: number }> {
+    // Service accounts are managed in the app, not by the identity provider
+    const conditions = [eq(users.isServiceAccount, false)];
+    if (query.userName) conditions.push(sql`lower(${users.userName}) = ${query.userName.toLowerCase()}`);
+    if (query.externalId) conditions.push(eq(users.externalId, query.externalId));
+    if (query.email) conditions.push(sql`lower(${users.email}) = ${query.email.toLowerCase()}`);
+    const where = and(...conditions);
+
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` }).from(users).where(where);
+    const page = await db
       .select()
-      .from(teamObjectives)
-      .where(and(eq(teamObjectives.id, id), eq(teamObjectives.isActive, true)))
-      .limit(1);
-    
-    return result.length > 0 ? result[0] : null;
+      .from(users)
+      .where(where)
+      .orderBy(users.createdAt, users.id)
+      .limit(query.limit)
+      .offset(query.offset);
+    return { users: page, total };
   }
 
-  async createTeamObjective(objective: InsertTeamObjective): Promise<TeamObjective> {
-    const [created] = await db
-      .insert(teamObjectives)
-      .values(objective)
-      .returning();
-    return created;
+  // teamId is kept in step with the user's primary team membership
+  // source ("SCIM", "Bulk import") is recorded on the lifecycle events written with the change
+  async createProvisionedUser(user: UpsertUser, source: string): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(users).values(user).returning();
+      if (created.teamId) {
+        await this.setPrimaryMembership(tx, created.id, created.teamId);
+      }
+      await this.emitDomainEvents(tx, toLifecycleDomainEvents(created.id, getLifecycleEvents(undefined, created), source));
+      return created;
+    });
   }
 
-  async updateTeamObjective(id: string, objective: Partial<InsertTeamObjective>): Promise<TeamObjective> {
-    const [updated] = await db
-      .update(teamObjectives)
-      .set({ ...objective, updatedAt: new Date() })
-      .where(eq(teamObjectives.id, id))
-      .returning();
-    return updated;
+  async updateProvisionedUser(userId: string, updates: Partial<UpsertUser>, source: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(users).where(eq(users.id, userId));
+      if (!existing) return undefined;
+
+      const [updated] = await tx
+        .update(users)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      if (updated.teamId && updated.teamId !== existing.teamId) {
+        await this.setPrimaryMembership(tx, userId, updated.teamId);
+      }
+      await this.emitDomainEvents(tx, toLifecycleDomainEvents(userId, getLifecycleEvents(existing, updated), source));
+      return updated;
+    });
   }
 
-  async deleteTeamObjective(id: string): Promise<void> {
-    await db
-      .update(teamObjectives)
-      .set({ isActive: false, updatedAt: new Date() })
-      .where(eq(teamObjectives.id, id));
+  private async setPrimaryMembership(tx: DbTransaction, userId: string, teamId: string): Promise<void> {
+    await tx
+      .update(teamMembers)
+      .set({ isPrimary: false, updatedAt: new Date() })
+      .where(and(eq(teamMembers.userId, userId), ne(teamMembers.teamId, teamId)));
+    await tx
+      .insert(teamMembers)
+      .values({ userId, teamId, isPrimary: true })
+      .onConflictDoUpdate({
+        target: [teamMembers.userId, teamMembers.teamId],
+        set: { isPrimary: true, updatedAt: new Date() },
+      });
   }
 
-  // Company key results
-  async getKeyResults(objectiveId: string): Promise<KeyResult[]> {
-    return await db
+  // Signs a deactivated user out everywhere; sessions store the user id as claims.sub
+  async deleteUserSessions(userId: string): Promise<number> {
+    const deleted = await db
+      .delete(sessions)
+      .where(sql`${sessions.sess} -> 'passport' -> 'user' -> 'claims' ->> 'sub' = ${userId}`)
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
+  async findProvisionedTeams(query: ProvisionedTeamQuery): Promise<{ teams: Team[]; total: number }> {
+    const conditions = [eq(teams.isActive, true)];
+    if (query.displayName) conditions.push(sql`lower(${teams.name}) = ${query.displayName.toLowerCase()}`);
+    if (query.externalId) conditions.push(eq(teams.externalId, query.externalId));
+
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` }).from(teams).where(and(...conditions));
+    const page = await db
       .select()
-      .from(keyResults)
-      .where(eq(keyResults.objectiveId, objectiveId))
-      .orderBy(keyResults.createdAt);
+      .from(teams)
+      .where(and(...conditions))
+      .orderBy(teams.createdAt, teams.id)
+      .limit(query.limit)
+      .offset(query.offset);
+    return { teams: page, total };
   }
 
-  async getKeyResult(id: string): Promise<KeyResult | null> {
-    const [result] = await db
+  // Replaces a team's member list. Users left without a primary team fall back to their next
+  // membership; users joining with no other team get this one as primary.
+  // Returns the users whose primary team (users.teamId) changed; each gets a user.team_changed event.
+  async setTeamMembers(teamId: string, userIds: string[], source: string): Promise<string[]> {
+    return await db.transaction(async (tx) => {
+      const wanted = new Set(userIds);
+      const current = await tx.select().from(teamMembers).where(eq(teamMembers.teamId, teamId));
+      const currentIds = new Set(current.map(member => member.userId));
+      const removed = current.filter(member => !wanted.has(member.userId)).map(member => member.userId);
+      const added = userIds.filter(userId => !currentIds.has(userId));
+      const primaryChanged: string[] = [];
+
+      if (removed.length > 0) {
+        await tx.delete(teamMembers).where(and(eq(teamMembers.teamId, teamId), inArray(teamMembers.userId, removed)));
+        const affected = await tx
+          .select()
+          .from(users)
+          .where(and(inArray(users.id, removed), eq(users.teamId, teamId)));
+        for (const user of affected) {
+          const [next] = await tx
+            .select()
+            .from(teamMembers)
+            .where(eq(teamMembers.userId, user.id))
+            .orderBy(desc(teamMembers.isPrimary), teamMembers.createdAt)
+            .limit(1);
+          if (next) {
+            await tx.update(teamMembers).set({ isPrimary: true, updatedAt: new Date() }).where(eq(teamMembers.id, next.id));
+          }
+          await tx.update(users).set({ teamId: next?.teamId ?? null, updatedAt: new Date() }).where(eq(users.id, user.id));
+          primaryChanged.push(user.id);
+        }
+      }
+
+      if (added.length > 0) {
+        const withTeams = await tx
+          .select({ userId: teamMembers.userId })
+          .from(teamMembers)
+          .where(inArray(teamMembers.userId, added));
+        const hasTeam = new Set(withTeams.map(row => row.userId));
+        await tx.insert(teamMembers).values(added.map(userId => ({ userId, teamId, isPrimary: !hasTeam.has(userId) })));
+
+        const newPrimary = added.filter(userId => !hasTeam.has(userId));
+        if (newPrimary.length > 0) {
+          const moved = await tx
+            .update(users)
+            .set({ teamId, updatedAt: new Date() })
+            .where(and(inArray(users.id, newPrimary), or(isNull(users.teamId), ne(users.teamId, teamId))))
+            .returning({ id: users.id });
+          primaryChanged.push(...moved.map(user => user.id));
+        }
+      }
+
+      await this.emitDomainEvents(tx, primaryChanged.flatMap(userId => toLifecycleDomainEvents(userId, ["user.team_changed"], source)));
+      return primaryChanged;
+    });
+  }
+
+  async getDepartmentByNameOrCode(value: string): Promise<Department | undefined> {
+    const normalized = value.trim().toLowerCase();
+    const [department] = await db
       .select()
-      .from(keyResults)
-      .where(eq(keyResults.id, id))
-      .limit(1);
-    return result || null;
+      .from(departments)
+      .where(or(sql`lower(${departments.name}) = ${normalized}`, sql`lower(${departments.code}) = ${normalized}`));
+    return department;
   }
 
-  async createKeyResult(keyResult: InsertKeyResult): Promise<KeyResult> {
-    const [created] = await db
-      .insert(keyResults)
-      .values(keyResult)
-      .returning();
+  async getJobRoleByNameOrCode(value: string): Promise<JobRole | undefined> {
+    const normalized = value.trim().toLowerCase();
+    const [jobRole] = await db
+      .select()
+      .from(jobRoles)
+      .where(or(sql`lower(${jobRoles.name}) = ${normalized}`, sql`lower(${jobRoles.code}) = ${normalized}`));
+    return jobRole;
+  }
+
+  // Bulk imports
+  async createImportBatch(batch: InsertImportBatch): Promise<ImportBatch> {
+    const [created] = await db.insert(importBatches).values(batch).returning();
     return created;
   }
 
-  async updateKeyResult(id: string, updates: Partial<InsertKeyResult>): Promise<KeyResult> {
+  async updateImportBatch(batchId: string, updates: Partial<InsertImportBatch>): Promise<ImportBatch | undefined> {
     const [updated] = await db
-      .update(keyResults)
+      .update(importBatches)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(keyResults.id, id))
+      .where(eq(importBatches.id, batchId))
       .returning();
     return updated;
   }
 
-  async deleteKeyResult(id: string): Promise<void> {
-    await db
-      .delete(keyResults)
-      .where(eq(keyResults.id, id));
+  async getImportBatch(batchId: string): Promise<ImportBatch | undefined> {
+    const [batch] = await db.select().from(importBatches).where(eq(importBatches.id, batchId));
+    return batch;
   }
 
-  // Team key results
-  async getTeamKeyResults(teamObjectiveId: string): Promise<TeamKeyResult[]> {
+  async getImportBatches(limit: number = 50): Promise<ImportBatch[]> {
+    return await db.select().from(importBatches).orderBy(desc(importBatches.createdAt)).limit(limit);
+  }
+
+  async getImportBatchRecords(batchId: string): Promise<ImportBatchRecord[]> {
     return await db
       .select()
-      .from(teamKeyResults)
-      .where(eq(teamKeyResults.teamObjectiveId, teamObjectiveId))
-      .orderBy(teamKeyResults.createdAt);
+      .from(importBatchRecords)
+      .where(eq(importBatchRecords.batchId, batchId))
+      .orderBy(asc(importBatchRecords.sequence));
   }
 
-  async createTeamKeyResult(keyResult: InsertTeamKeyResult): Promise<TeamKeyResult> {
-    const [created] = await db
-      .insert(teamKeyResults)
-      .values(keyResult)
+  async getTeamMembershipsForUsers(userIds: string[]): Promise<TeamMember[]> {
+    if (userIds.length === 0) return [];
+    return await db.select().from(teamMembers).where(inArray(teamMembers.userId, userIds));
+  }
+
+  async commitImportBatch(batchId: string, operations: ImportOperation[], report: ImportReport, committedBy: string): Promise<ImportBatch> {
+    return await db.transaction(async (tx) => {
+      const [batch] = await tx.select().from(importBatches).where(eq(importBatches.id, batchId)).for("update");
+      if (!batch) {
+        throw new ImportBatchError("Import batch not found", 404);
+      }
+      if (batch.status !== "validated") {
+        throw new ImportBatchError(`Import batch is ${batch.status.replace("_", " ")} and cannot be committed`, 409);
+      }
+
+      const records: Array<typeof importBatchRecords.$inferInsert> = [];
+      const usersBefore = new Map<string, User | undefined>();
+      for (const operation of operations) {
+        const table = IMPORT_TABLES[operation.entityType];
+        if (operation.entityType === "user") {
+          const [current] = await tx.select().from(users).where(eq(users.id, operation.id));
+          usersBefore.set(operation.id, current);
+        }
+        if (operation.action === "create") {
+          await tx.insert(table).values({ ...operation.values, id: operation.id });
+          records.push({
+            batchId,
+            sequence: records.length,
+            rowNumber: operation.rowNumber,
+            entityType: operation.entityType,
+            entityId: operation.id,
+            action: "created",
+          });
+          continue;
+        }
+
+        // Capture what the update replaces inside the transaction, so rollback restores what was really there
+        const [current] = await tx.select().from(table).where(eq(table.id, operation.id));
+        if (!current) {
+          throw new ImportBatchError(`A ${operation.entityType.replace("_", " ")} this import updates was deleted after validation; validate the file again`, 409);
+        }
+        const previousValues: Record<string, unknown> = {};
+        for (const key of Object.keys(operation.values)) {
+          previousValues[key] = current[key];
+        }
+        await tx.update(table).set(operation.values).where(eq(table.id, operation.id));
+        records.push({
+          batchId,
+          sequence: records.length,
+          rowNumber: operation.rowNumber,
+          entityType: operation.entityType,
+          entityId: operation.id,
+          action: "updated",
+          previousValues,
+          appliedValues: operation.values,
+        });
+      }
+
+      for (let start = 0; start < records.length; start += 500) {
+        await tx.insert(importBatchRecords).values(records.slice(start, start + 500));
+      }
+
+      if (usersBefore.size > 0) {
+        const usersAfter = await tx.select().from(users).where(inArray(users.id, Array.from(usersBefore.keys())));
+        await this.emitDomainEvents(tx, usersAfter.flatMap(user =>
+          toLifecycleDomainEvents(user.id, getLifecycleEvents(usersBefore.get(user.id), user), "Bulk import")
+        ));
+      }
+
+      const [committed] = await tx
+        .update(importBatches)
+        .set({ status: "committed", report, errorCount: 0, committedBy, committedAt: new Date(), updatedAt: new Date() })
+        .where(eq(importBatches.id, batchId))
+        .returning();
+      return committed;
+    });
+  }
+
+  async rollbackImportBatch(batchId: string, rolledBackBy: string, reason: string): Promise<ImportBatch> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [batch] = await tx.select().from(importBatches).where(eq(importBatches.id, batchId)).for("update");
+        if (!batch) {
+          throw new ImportBatchError("Import batch not found", 404);
+        }
+        if (batch.status !== "committed" || !batch.committedAt) {
+          throw new ImportBatchError("Only committed import batches can be rolled back", 409);
+        }
+
+        // Reversing this batch under a later one would restore values the later batch relied on
+        const [later] = await tx
+          .select({ batchId: importBatches.id, fileName: importBatches.fileName })
+          .from(importBatchRecords)
+          .innerJoin(importBatches, eq(importBatchRecords.batchId, importBatches.id))
+          .where(and(
+            ne(importBatches.id, batchId),
+            eq(importBatches.status, "committed"),
+            gt(importBatches.committedAt, batch.committedAt),
+            sql`(${importBatchRecords.entityType}, ${importBatchRecords.entityId}) IN (
+              SELECT entity_type, entity_id FROM import_batch_records WHERE batch_id = ${batchId}
+            )`
+          ))
+          .limit(1);
+        if (later) {
+          throw new ImportBatchError(`The later import "${later.fileName}" changed the same records; roll it back first`, 409);
+        }
+
+        const records = await tx
+          .select()
+          .from(importBatchRecords)
+          .where(eq(importBatchRecords.batchId, batchId))
+          .orderBy(desc(importBatchRecords.sequence));
+
+        for (const record of records) {
+          const table = IMPORT_TABLES[record.entityType as ImportEntityType];
+          if (!table) continue;
+          if (record.action === "created") {
+            await tx.delete(table).where(eq(table.id, record.entityId));
+            continue;
+          }
+
+          const [current] = await tx.select().from(table).where(eq(table.id, record.entityId));
+          if (!current) continue;
+          const previousValues = (record.previousValues ?? {}) as Record<string, unknown>;
+          const appliedValues = (record.appliedValues ?? {}) as Record<string, unknown>;
+          const restore: Record<string, unknown> = {};
+          for (const key of Object.keys(previousValues)) {
+            // Leave columns someone has edited since the import
+            if (sameImportValue(current[key], appliedValues[key])) {
+              restore[key] = previousValues[key];
+            }
+          }
+          if (Object.keys(restore).length > 0) {
+            await tx.update(table).set(reviveImportValues(table, restore)).where(eq(table.id, record.entityId));
+          }
+        }
+
+        const [rolledBack] = await tx
+          .update(importBatches)
+          .set({ status: "rolled_back", rolledBackBy, rolledBackAt: new Date(), rollbackReason: reason, updatedAt: new Date() })
+          .where(eq(importBatches.id, batchId))
+          .returning();
+        return rolledBack;
+      });
+    } catch (error) {
+      if ((error as any)?.code === "23503") {
+        throw new ImportBatchError("Records created by this import are now referenced elsewhere (for example by goals or assessments) and cannot be removed", 409);
+      }
+      throw error;
+    }
+  }
+
+  // Permission roles
+  async getPermissionRoles(): Promise<PermissionRole[]> {
+    return await db.select().from(permissionRoles).orderBy(asc(permissionRoles.name));
+  }
+
+  async getPermissionRole(roleId: string): Promise<PermissionRole | undefined> {
+    const [role] = await db.select().from(permissionRoles).where(eq(permissionRoles.id, roleId));
+    return role;
+  }
+
+  async createPermissionRole(role: InsertPermissionRole): Promise<PermissionRole> {
+    const [created] = await db.insert(permissionRoles).values(role).returning();
+    return created;
+  }
+
+  async updatePermissionRole(roleId: string, updates: Partial<InsertPermissionRole>): Promise<PermissionRole | undefined> {
+    const [updated] = await db
+      .update(permissionRoles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(permissionRoles.id, roleId))
       .returning();
+    return updated;
+  }
+
+  // Assignments go with the role (FK cascade)
+  async deletePermissionRole(roleId: string): Promise<boolean> {
+    const deleted = await db.delete(permissionRoles).where(eq(permissionRoles.id, roleId)).returning({ id: permissionRoles.id });
+    return deleted.length > 0;
+  }
+
+  async getPermissionRoleAssignments(filters: { roleId?: string; userId?: string } = {}): Promise<PermissionRoleAssignmentWithDetails[]> {
+    const conditions = [];
+    if (filters.roleId) conditions.push(eq(permissionRoleAssignments.roleId, filters.roleId));
+    if (filters.userId) conditions.push(eq(permissionRoleAssignments.userId, filters.userId));
+    const rows = await db
+      .select({
+        assignment: permissionRoleAssignments,
+        roleName: permissionRoles.name,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        userEmail: users.email,
+      })
+      .from(permissionRoleAssignments)
+      .innerJoin(permissionRoles, eq(permissionRoleAssignments.roleId, permissionRoles.id))
+      .innerJoin(users, eq(permissionRoleAssignments.userId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(permissionRoles.name), asc(users.lastName), asc(users.firstName));
+    return rows.map(row => ({
+      ...row.assignment,
+      roleName: row.roleName,
+      userName: [row.firstName, row.lastName].filter(Boolean).join(" ") || row.userEmail || row.assignment.userId,
+      userEmail: row.userEmail,
+    }));
+  }
+
+  async createPermissionRoleAssignment(assignment: InsertPermissionRoleAssignment): Promise<PermissionRoleAssignment> {
+    const [created] = await db.insert(permissionRoleAssignments).values(assignment).returning();
     return created;
   }
 
-  async updateTeamKeyResult(id: string, updates: Partial<InsertTeamKeyResult>): Promise<TeamKeyResult> {
+  async deletePermissionRoleAssignment(assignmentId: string): Promise<PermissionRoleAssignment | undefined> {
+    const [deleted] = await db
+      .delete(permissionRoleAssignments)
+      .where(eq(permissionRoleAssignments.id, assignmentId))
+      .returning();
+    return deleted;
+  }
+
+  async getUserPermissionGrants(userId: string): Promise<UserPermissionGrant[]> {
+    const rows = await db
+      .select({
+        assignmentId: permissionRoleAssignments.id,
+        roleId: permissionRoles.id,
+        roleName: permissionRoles.name,
+        permissions: permissionRoles.permissions,
+        scopeType: permissionRoleAssignments.scopeType,
+        scopeId: permissionRoleAssignments.scopeId,
+      })
+      .from(permissionRoleAssignments)
+      .innerJoin(permissionRoles, eq(permissionRoleAssignments.roleId, permissionRoles.id))
+      .where(eq(permissionRoleAssignments.userId, userId));
+    return rows;
+  }
+
+  // API tokens and service accounts
+  async getServiceAccounts(): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(eq(users.isServiceAccount, true))
+      .orderBy(asc(users.firstName));
+  }
+
+  async createServiceAccount(account: UpsertUser): Promise<User> {
+    const [created] = await db.insert(users).values({ ...account, isServiceAccount: true }).returning();
+    return created;
+  }
+
+  async updateServiceAccount(userId: string, updates: Partial<UpsertUser>): Promise<User | undefined> {
     const [updated] = await db
-      .update(teamKeyResults)
+      .update(users)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(teamKeyResults.id, id))
+      .where(and(eq(users.id, userId), eq(users.isServiceAccount, true)))
       .returning();
     return updated;
   }
 
-  async deleteTeamKeyResult(id: string): Promise<void> {
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiToken(tokenId: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.id, tokenId));
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values(token).returning();
+    return created;
+  }
+
+  // Revoking twice keeps the original revocation
+  async revokeApiToken(tokenId: string, revokedBy: string): Promise<ApiToken | undefined> {
     await db
-      .delete(teamKeyResults)
-      .where(eq(teamKeyResults.id, id));
+      .update(apiTokens)
+      .set({ revokedAt: new Date(), revokedBy })
+      .where(and(eq(apiTokens.id, tokenId), isNull(apiTokens.revokedAt)));
+    return await this.getApiToken(tokenId);
   }
 
-  // Key result progress tracking
-  async createKrProgressUpdate(update: InsertKrProgressUpdate): Promise<KrProgressUpdate> {
+  async recordApiTokenUse(entry: InsertApiTokenAccessLogEntry): Promise<void> {
+    await db.insert(apiTokenAccessLog).values(entry);
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: new Date(), lastUsedIp: entry.ipAddress ?? null })
+      .where(eq(apiTokens.id, entry.tokenId));
+  }
+
+  // Counts a request into the token's current window, starting a new window once the current one is windowMs old.
+  // One atomic upsert on the database clock, so every instance counts into the same window.
+  async countApiTokenRequest(tokenId: string, windowMs: number): Promise<{ windowStartedAt: Date; requestCount: number }> {
+    const expired = sql`${apiTokenRateWindows.windowStartedAt} <= now() - ${windowMs}::integer * interval '1 millisecond'`;
+    const [window] = await db.insert(apiTokenRateWindows)
+      .values({ tokenId, windowStartedAt: sql`now()`, requestCount: 1 })
+      .onConflictDoUpdate({
+        target: apiTokenRateWindows.tokenId,
+        set: {
+          windowStartedAt: sql`case when ${expired} then now() else ${apiTokenRateWindows.windowStartedAt} end`,
+          requestCount: sql`case when ${expired} then 1 else ${apiTokenRateWindows.requestCount} + 1 end`,
+        },
+      })
+      .returning({ windowStartedAt: apiTokenRateWindows.windowStartedAt, requestCount: apiTokenRateWindows.requestCount });
+    return window;
+  }
+
+  async getApiTokenAccessLog(query: ApiTokenAccessLogQuery): Promise<ApiTokenAccessLogEntry[]> {
+    const conditions = [];
+    if (query.tokenId) conditions.push(eq(apiTokenAccessLog.tokenId, query.tokenId));
+    if (query.userId) conditions.push(eq(apiTokenAccessLog.userId, query.userId));
+    return await db
+      .select()
+      .from(apiTokenAccessLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(apiTokenAccessLog.createdAt))
+      .limit(query.limit);
+  }
+
+  async deleteApiTokenAccessLogBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(apiTokenAccessLog)
+      .where(lte(apiTokenAccessLog.createdAt, cutoff))
+      .returning({ id: apiTokenAccessLog.id });
+    return deleted.length;
+  }
+
+  // Domain event outbox
+  // For changes made outside storage, e.g. by SCIM or a bulk import; storage methods write their own events in-transaction
+  async recordDomainEvents(events: NewDomainEvent[]): Promise<DomainEvent[]> {
+    if (events.length === 0) return [];
+    return await db.insert(domainEvents).values(events).returning();
+  }
+
+  async getDomainEvents(query: DomainEventQuery): Promise<DomainEvent[]> {
+    const conditions = [];
+    if (query.eventType) conditions.push(eq(domainEvents.eventType, query.eventType));
+    if (query.status) conditions.push(eq(domainEvents.status, query.status));
+    if (query.aggregateType) conditions.push(eq(domainEvents.aggregateType, query.aggregateType));
+    if (query.aggregateId) conditions.push(eq(domainEvents.aggregateId, query.aggregateId));
+    if (query.userId) conditions.push(eq(domainEvents.userId, query.userId));
+    return await db
+      .select()
+      .from(domainEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(domainEvents.occurredAt))
+      .limit(query.limit);
+  }
+
+  async getDomainEvent(eventId: string): Promise<DomainEvent | undefined> {
+    const [event] = await db.select().from(domainEvents).where(eq(domainEvents.id, eventId));
+    return event;
+  }
+
+  // Pending events, and events left "processing" by a worker whose lease ran out; oldest first so order is kept
+  async getDueDomainEvents(limit: number): Promise<DomainEvent[]> {
+    return await db
+      .select()
+      .from(domainEvents)
+      .where(and(
+        inArray(domainEvents.status, ["pending", "processing"]),
+        lte(domainEvents.nextAttemptAt, new Date())
+      ))
+      .orderBy(asc(domainEvents.occurredAt))
+      .limit(limit);
+  }
+
+  // Conditional update so only one worker holds an event; nextAttemptAt doubles as the lease expiry
+  async claimDomainEvent(eventId: string, leaseMs: number): Promise<DomainEvent | undefined> {
+    const now = new Date();
+    const [claimed] = await db
+      .update(domainEvents)
+      .set({ status: "processing", attempts: sql`${domainEvents.attempts} + 1`, nextAttemptAt: new Date(now.getTime() + leaseMs) })
+      .where(and(
+        eq(domainEvents.id, eventId),
+        inArray(domainEvents.status, ["pending", "processing"]),
+        lte(domainEvents.nextAttemptAt, now)
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async updateDomainEvent(eventId: string, updates: Partial<Pick<DomainEvent, "status" | "attempts" | "nextAttemptAt" | "lastError" | "processedAt">>): Promise<DomainEvent | undefined> {
+    const [updated] = await db
+      .update(domainEvents)
+      .set(updates)
+      .where(eq(domainEvents.id, eventId))
+      .returning();
+    return updated;
+  }
+
+  // Puts a failed event back in the queue with a fresh set of attempts; subscribers that succeeded are not re-run
+  async retryDomainEvent(eventId: string): Promise<DomainEvent | undefined> {
+    const [updated] = await db
+      .update(domainEvents)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), lastError: null })
+      .where(and(eq(domainEvents.id, eventId), eq(domainEvents.status, "failed")))
+      .returning();
+    return updated;
+  }
+
+  async getDomainEventSubscriberRuns(eventId: string): Promise<DomainEventSubscriberRun[]> {
+    return await db
+      .select()
+      .from(domainEventSubscriberRuns)
+      .where(eq(domainEventSubscriberRuns.eventId, eventId))
+      .orderBy(asc(domainEventSubscriberRuns.subscriber));
+  }
+
+  async recordDomainEventSubscriberRun(eventId: string, subscriber: string, error: string | null): Promise<void> {
+    const status = error ? "failed" : "succeeded";
+    await db
+      .insert(domainEventSubscriberRuns)
+      .values({ eventId, subscriber, status, lastError: error })
+      .onConflictDoUpdate({
+        target: [domainEventSubscriberRuns.eventId, domainEventSubscriberRuns.subscriber],
+        set: { status, lastError: error, attempts: sql`${domainEventSubscriberRuns.attempts} + 1`, updatedAt: new Date() },
+      });
+  }
+
+  async getWebhookConfigsForDomainEvent(eventType: string): Promise<N8nWebhookConfig[]> {
+    return await db
+      .select()
+      .from(n8nWebhookConfigs)
+      .where(and(
+        eq(n8nWebhookConfigs.eventType, "domain_event"),
+        eq(n8nWebhookConfigs.isActive, true),
+        arrayOverlaps(n8nWebhookConfigs.domainEventTypes, ["*", eventType])
+      ));
+  }
+
+  async deleteProcessedDomainEventsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(domainEvents)
+      .where(and(eq(domainEvents.status, "processed"), lte(domainEvents.processedAt, cutoff)))
+      .returning({ id: domainEvents.id });
+    return deleted.length;
+  }
+
+  // Transactions below the oldest one still running have all finished, so no row can later appear behind a cursor
+  // that only moves through them
+  async getRealtimeRelayStart(): Promise<RealtimeRelayCursor> {
+    const result = await db.execute<{ tx_id: string }>(sql`select pg_snapshot_xmin(pg_current_snapshot())::text as tx_id`);
+    return { txId: Number(result.rows[0].tx_id), seq: 0 };
+  }
+
+  // Oldest first whatever their status, for the realtime relay that pushes them to browsers on every instance
+  async getDomainEventsAfter(eventTypes: DomainEventType[], after: RealtimeRelayCursor, limit: number): Promise<DomainEvent[]> {
+    return await db
+      .select()
+      .from(domainEvents)
+      .where(and(
+        sql`(${domainEvents.txId}, ${domainEvents.seq}) > (${after.txId}::bigint, ${after.seq}::bigint)`,
+        sql`${domainEvents.txId} < pg_snapshot_xmin(pg_current_snapshot())::text::bigint`,
+        inArray(domainEvents.eventType, eventTypes),
+      ))
+      .orderBy(asc(domainEvents.txId), asc(domainEvents.seq))
+      .limit(limit);
+  }
+
+  // Company objectives
+  async getActiveCompanyObjectives(cycleId?: string): Promise<any[]> {
+    const objectives = await db
+      .select()
+      .from(companyObjectives)
+      .where(and(
+        eq(companyObjectives.isActive, true),
+        cycleId ? eq(companyObjectives.cycleId, cycleId) : undefined
+      ))
+      .orderBy(desc(companyObjectives.startDate));
+    
+    // Fetch key results for each objective, scored 0.0-1.0
+    const objectivesWithKRs = await Promise.all(
+      objectives.map(async (obj) => {
+        const krs = (await this.getKeyResults(obj.id)).map(kr => ({ ...kr, score: scoreKeyResult(kr) }));
+        return { ...obj, keyResults: krs, score: averageScore(krs.map(kr => kr.score)) };
+      })
+    );
+    
+    return objectivesWithKRs;
+  }
+
+  async getCompanyObjectivesByIds(ids: string[]): Promise<CompanyObjective[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(companyObjectives).where(inArray(companyObjectives.id, ids));
+  }
+
+  async createCompanyObjective(objective: InsertCompanyObjective): Promise<CompanyObjective> {
+    return await db.transaction(async (tx) => {
+      if (objective.dependencies?.length) {
+        validateObjectiveDependencies(null, objective.dependencies, await this.lockObjectiveDependencies(tx));
+      }
+      const [created] = await tx
+        .insert(companyObjectives)
+        .values(objective)
+        .returning();
+      if (objective.dependencies?.length) await this.refreshDependencyRisk(tx, new Date());
+      return created;
+    });
+  }
+
+  async updateCompanyObjective(id: string, objective: Partial<InsertCompanyObjective>): Promise<CompanyObjective> {
+    return await db.transaction(async (tx) => {
+      if (objective.dependencies) {
+        validateObjectiveDependencies(id, objective.dependencies, await this.lockObjectiveDependencies(tx));
+      }
+      const [updated] = await tx
+        .update(companyObjectives)
+        .set({ ...objective, updatedAt: new Date() })
+        .where(eq(companyObjectives.id, id))
+        .returning();
+      // Dates, risk level and dependencies all change which objectives are at risk
+      await this.refreshDependencyRisk(tx, new Date());
+      return updated;
+    });
+  }
+
+  async deleteCompanyObjective(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(companyObjectives)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(eq(companyObjectives.id, id));
+      await this.refreshDependencyRisk(tx, new Date());
+    });
+  }
+
+  // Locks every active objective so two edits can't each pass the loop check and then close a loop together
+  private async lockObjectiveDependencies(tx: DbTransaction): Promise<Array<Pick<CompanyObjective, "id" | "title" | "dependencies">>> {
+    return await tx
+      .select({ id: companyObjectives.id, title: companyObjectives.title, dependencies: companyObjectives.dependencies })
+      .from(companyObjectives)
+      .where(eq(companyObjectives.isActive, true))
+      .for("update", { of: companyObjectives });
+  }
+
+  async getObjectiveDependencyGraph(cycleId?: string): Promise<ObjectiveDependencyGraph> {
+    const objectives = await db
+      .select()
+      .from(companyObjectives)
+      .where(and(
+        eq(companyObjectives.isActive, true),
+        cycleId ? eq(companyObjectives.cycleId, cycleId) : undefined
+      ))
+      .orderBy(asc(companyObjectives.startDate), asc(companyObjectives.title));
+    return buildDependencyGraph(objectives, new Date());
+  }
+
+  // Objectives drift into red as time passes without progress, so this also runs on a schedule
+  async refreshObjectiveDependencyRisk(now: Date = new Date()): Promise<{ objectivesChecked: number; newlyAtRisk: number }> {
+    return await db.transaction(async (tx) => await this.refreshDependencyRisk(tx, now));
+  }
+
+  // Flags every objective downstream of a red one as at risk and tells its owner when a new red objective appears
+  // above it. Objectives in closed cycles keep whatever they were graded with.
+  private async refreshDependencyRisk(tx: DbTransaction, now: Date): Promise<{ objectivesChecked: number; newlyAtRisk: number }> {
+    const rows = await tx
+      .select({ objective: companyObjectives })
+      .from(companyObjectives)
+      .leftJoin(okrCycles, eq(okrCycles.id, companyObjectives.cycleId))
+      .where(and(
+        eq(companyObjectives.isActive, true),
+        or(isNull(okrCycles.status), ne(okrCycles.status, "closed"))
+      ));
+    const objectives = rows.map(row => row.objective);
+    const graph = buildDependencyGraph(objectives, now);
+    const blockedByOf = new Map(graph.nodes.map(node => [node.id, node.blockedBy]));
+
+    const events: NewDomainEvent[] = [];
+    for (const objective of objectives) {
+      const previous = objective.blockedBy ?? [];
+      const current = blockedByOf.get(objective.id) ?? [];
+      if (previous.length === current.length && current.every(id => previous.includes(id))) continue;
+
+      await tx
+        .update(companyObjectives)
+        .set({
+          blockedBy: current.length > 0 ? current : null,
+          atRiskSince: current.length === 0 ? null : previous.length === 0 ? now : objective.atRiskSince,
+        })
+        .where(eq(companyObjectives.id, objective.id));
+      const newlyBlockedBy = current.filter(id => !previous.includes(id));
+      if (newlyBlockedBy.length > 0) events.push(objectiveAtRiskEvent(objective, current, newlyBlockedBy));
+    }
+    await this.emitDomainEvents(tx, events);
+    return { objectivesChecked: objectives.length, newlyAtRisk: events.length };
+  }
+
+  // Team objectives
+  async getTeamObjectives(teamId?: string, supervisorId?: string, cycleId?: string): Promise<any[]> {
+    const conditions = [];
+    if (teamId) conditions.push(eq(teamObjectives.teamId, teamId));
+    if (supervisorId) conditions.push(eq(teamObjectives.supervisorId, supervisorId));
+    if (cycleId) conditions.push(eq(teamObjectives.cycleId, cycleId));
+    
+    const objectives = await db
+      .select()
+      .from(teamObjectives)
+      .where(and(eq(teamObjectives.isActive, true), ...conditions))
+      .orderBy(desc(teamObjectives.startDate));
+    
+    // Fetch key results for each objective, scored 0.0-1.0
+    const objectivesWithKRs = await Promise.all(
+      objectives.map(async (obj) => {
+        const krs = (await this.getTeamKeyResults(obj.id)).map(kr => ({ ...kr, score: scoreKeyResult(kr) }));
+        return { ...obj, keyResults: krs, score: averageScore(krs.map(kr => kr.score)) };
+      })
+    );
+    
+    return objectivesWithKRs;
+  }
+
+  async getTeamObjectiveById(id: string): Promise<TeamObjective | null> {
+    const result = await db
+      .select()
+      .from(teamObjectives)
+      .where(and(eq(teamObjectives.id, id), eq(teamObjectives.isActive, true)))
+      .limit(1);
+    
+    return result.length > 0 ? result[0] : null;
+  }
+
+  async createTeamObjective(objective: InsertTeamObjective): Promise<TeamObjective> {
     const [created] = await db
-      .insert(krProgressUpdates)
-      .values(update)
+      .insert(teamObjectives)
+      .values(objective)
       .returning();
     return created;
   }
 
+  async updateTeamObjective(id: string, objective: Partial<InsertTeamObjective>): Promise<TeamObjective> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(teamObjectives)
+        .set({ ...objective, updatedAt: new Date() })
+        .where(eq(teamObjectives.id, id))
+        .returning();
+      if (updated && objective.rollupWeight !== undefined) {
+        await this.recalculateOkrRollups(tx, [], [updated.parentCompanyObjectiveId]);
+      }
+      return updated;
+    });
+  }
+
+  async deleteTeamObjective(id: string): Promise<void> {
+    await db
+      .update(teamObjectives)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(teamObjectives.id, id));
+  }
+
+  // Company key results
+  async getKeyResults(objectiveId: string): Promise<KeyResult[]> {
+    return await db
+      .select()
+      .from(keyResults)
+      .where(eq(keyResults.objectiveId, objectiveId))
+      .orderBy(keyResults.createdAt);
+  }
+
+  async getKeyResult(id: string): Promise<KeyResult | null> {
+    const [result] = await db
+      .select()
+      .from(keyResults)
+      .where(eq(keyResults.id, id))
+      .limit(1);
+    return result || null;
+  }
+
+  async createKeyResult(keyResult: InsertKeyResult): Promise<KeyResult> {
+    // The insert schema lets unit be left out; the column needs a value
+    const values: typeof keyResults.$inferInsert = { ...keyResult, unit: keyResult.unit ?? "" };
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(keyResults)
+        .values(values)
+        .returning();
+      await this.recalculateOkrRollups(tx, [], [created.objectiveId]);
+      return created;
+    });
+  }
+
+  async updateKeyResult(id: string, updates: Partial<InsertKeyResult>): Promise<KeyResult> {
+    return await db.transaction(async (tx) => {
+      if (updates.currentValue !== undefined) {
+        await this.assertKeyResultProgressOpen(tx, id, 'company');
+      }
+      const [updated] = await tx
+        .update(keyResults)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(keyResults.id, id))
+        .returning();
+      if (updated && (updates.currentValue !== undefined || updates.rollupWeight !== undefined)) {
+        await this.recalculateKeyResultRollups(tx, id, 'company');
+      }
+      return updated;
+    });
+  }
+
+  async deleteKeyResult(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(keyResults)
+        .where(eq(keyResults.id, id))
+        .returning({ objectiveId: keyResults.objectiveId });
+      if (deleted) await this.recalculateOkrRollups(tx, [], [deleted.objectiveId]);
+    });
+  }
+
+  // Team key results
+  async getTeamKeyResults(teamObjectiveId: string): Promise<TeamKeyResult[]> {
+    return await db
+      .select()
+      .from(teamKeyResults)
+      .where(eq(teamKeyResults.teamObjectiveId, teamObjectiveId))
+      .orderBy(teamKeyResults.createdAt);
+  }
+
+  async createTeamKeyResult(keyResult: InsertTeamKeyResult): Promise<TeamKeyResult> {
+    // The insert schema lets unit be left out; the column needs a value
+    const values: typeof teamKeyResults.$inferInsert = { ...keyResult, unit: keyResult.unit ?? "" };
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(teamKeyResults)
+        .values(values)
+        .returning();
+      await this.recalculateOkrRollups(tx, [created.teamObjectiveId], []);
+      return created;
+    });
+  }
+
+  async updateTeamKeyResult(id: string, updates: Partial<InsertTeamKeyResult>): Promise<TeamKeyResult> {
+    return await db.transaction(async (tx) => {
+      if (updates.currentValue !== undefined) {
+        await this.assertKeyResultProgressOpen(tx, id, 'team');
+      }
+      const [updated] = await tx
+        .update(teamKeyResults)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(teamKeyResults.id, id))
+        .returning();
+      if (updated && (updates.currentValue !== undefined || updates.rollupWeight !== undefined)) {
+        await this.recalculateKeyResultRollups(tx, id, 'team');
+      }
+      return updated;
+    });
+  }
+
+  async deleteTeamKeyResult(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(teamKeyResults)
+        .where(eq(teamKeyResults.id, id))
+        .returning({ teamObjectiveId: teamKeyResults.teamObjectiveId });
+      if (deleted) await this.recalculateOkrRollups(tx, [deleted.teamObjectiveId], []);
+    });
+  }
+
+  // Key result progress tracking
+  // Moves the key result to the new value and rolls the change up through its objectives
+  async createKrProgressUpdate(update: InsertKrProgressUpdate): Promise<KrProgressUpdate> {
+    return await db.transaction(async (tx) => {
+      await this.assertKeyResultProgressOpen(tx, update.keyResultId, update.keyResultType);
+      const [created] = await tx
+        .insert(krProgressUpdates)
+        .values(update)
+        .returning();
+      const targetTable = update.keyResultType === 'team' ? teamKeyResults : keyResults;
+      await tx
+        .update(targetTable)
+        .set({ currentValue: update.newValue, updatedAt: new Date() })
+        .where(eq(targetTable.id, update.keyResultId));
+      await this.recalculateKeyResultRollups(tx, update.keyResultId, update.keyResultType);
+      await this.emitDomainEvents(tx, [krProgressUpdatedEvent(created)]);
+      return created;
+    });
+  }
+
   async getKrProgressHistory(keyResultId: string, keyResultType: 'company' | 'team'): Promise<KrProgressUpdate[]> {
     return await db
       .select()
@@ -1432,6 +3101,33 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(krProgressUpdates.timestamp));
   }
 
+  // History of a key result with a projection of where it ends up by the end of its objective
+  // The forecast runs to the end of the objective's OKR cycle, or to the objective's own end date outside a cycle
+  async getKrProgressForecast(keyResultId: string, keyResultType: 'company' | 'team', method: KrForecastMethod, now: Date = new Date()): Promise<KrForecast | null> {
+    const [target] = keyResultType === 'company'
+      ? await db
+          .select({ keyResult: keyResults, startDate: companyObjectives.startDate, endDate: companyObjectives.endDate, cycleEndDate: okrCycles.endDate })
+          .from(keyResults)
+          .innerJoin(companyObjectives, eq(companyObjectives.id, keyResults.objectiveId))
+          .leftJoin(okrCycles, eq(okrCycles.id, companyObjectives.cycleId))
+          .where(eq(keyResults.id, keyResultId))
+      : await db
+          .select({ keyResult: teamKeyResults, startDate: teamObjectives.startDate, endDate: teamObjectives.endDate, cycleEndDate: okrCycles.endDate })
+          .from(teamKeyResults)
+          .innerJoin(teamObjectives, eq(teamObjectives.id, teamKeyResults.teamObjectiveId))
+          .leftJoin(okrCycles, eq(okrCycles.id, teamObjectives.cycleId))
+          .where(eq(teamKeyResults.id, keyResultId));
+    if (!target) return null;
+
+    const [updates, checkIns] = await Promise.all([
+      this.getKrProgressHistory(keyResultId, keyResultType),
+      this.getKRCheckIns(keyResultId, keyResultType),
+    ]);
+    const window = { startDate: target.startDate, endDate: target.cycleEndDate ?? target.endDate };
+    const points = buildForecastSeries(target.keyResult, window.startDate, updates, checkIns);
+    return forecastKeyResult(target.keyResult, window, points, method, now);
+  }
+
   // Phase 3: Quality policy management
   async getQualityPolicies(category?: string, isActive?: boolean): Promise<QualityPolicy[]> {
     const conditions = [];
@@ -1681,6 +3377,460 @@ export class DatabaseStorage implements IStorage {
     return snapshot || null;
   }
 
+  // OKR cycles
+  async getOkrCycles(): Promise<OkrCycleSummary[]> {
+    const countPerCycle = async (table: typeof companyObjectives | typeof teamObjectives | typeof goals) => {
+      const rows = await db
+        .select({ cycleId: table.cycleId, count: sql<number>`count(*)::int` })
+        .from(table)
+        .where(and(isNotNull(table.cycleId), eq(table.isActive, true)))
+        .groupBy(table.cycleId);
+      return new Map(rows.map(row => [row.cycleId, row.count]));
+    };
+    const [cycles, companyCounts, teamCounts, goalCounts] = await Promise.all([
+      db.select().from(okrCycles).orderBy(desc(okrCycles.startDate)),
+      countPerCycle(companyObjectives),
+      countPerCycle(teamObjectives),
+      countPerCycle(goals),
+    ]);
+    return cycles.map(cycle => ({
+      ...cycle,
+      companyObjectiveCount: companyCounts.get(cycle.id) ?? 0,
+      teamObjectiveCount: teamCounts.get(cycle.id) ?? 0,
+      goalCount: goalCounts.get(cycle.id) ?? 0,
+    }));
+  }
+
+  async getOkrCycle(id: string): Promise<OkrCycle | null> {
+    const [cycle] = await db.select().from(okrCycles).where(eq(okrCycles.id, id)).limit(1);
+    return cycle || null;
+  }
+
+  async createOkrCycle(cycle: InsertOkrCycle, createdBy: string): Promise<OkrCycle> {
+    assertOkrCycleDates(cycle.startDate, cycle.endDate);
+    const [created] = await db
+      .insert(okrCycles)
+      .values({ ...cycle, createdBy })
+      .returning();
+    return created;
+  }
+
+  async updateOkrCycle(id: string, updates: UpdateOkrCycle): Promise<OkrCycle | null> {
+    return await db.transaction(async (tx) => {
+      const [cycle] = await tx.select().from(okrCycles).where(eq(okrCycles.id, id)).for("update");
+      if (!cycle) return null;
+      if (cycle.status === "closed") {
+        throw new OkrCycleError("This cycle is closed and can no longer be changed", 409);
+      }
+      if (updates.status) {
+        assertOkrCycleStatusChange(cycle.status, updates.status);
+      }
+      assertOkrCycleDates(updates.startDate ?? cycle.startDate, updates.endDate ?? cycle.endDate);
+
+      const [updated] = await tx
+        .update(okrCycles)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(okrCycles.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getOkrCycleScorecard(id: string): Promise<OkrCycleScorecard | null> {
+    const cycle = await this.getOkrCycle(id);
+    if (!cycle) return null;
+
+    const objectives = await db.transaction(async (tx) => buildOkrScorecardEntries(await this.getOkrCycleRows(tx, id)));
+    const graded = cycle.status === "closed";
+    return {
+      cycle,
+      averageScore: averageScore(objectives.map(entry => graded ? entry.finalScore : entry.score)),
+      objectives,
+    };
+  }
+
+  // Grades every objective and goal in the cycle (the computed score unless a grade overrides it), snapshots them,
+  // locks their progress by closing the cycle, and optionally copies unfinished ones into the next cycle
+  async closeOkrCycle(id: string, closeOut: CloseOkrCycle, closedBy: string): Promise<OkrCycleCloseResult> {
+    return await db.transaction(async (tx) => {
+      const [cycle] = await tx.select().from(okrCycles).where(eq(okrCycles.id, id)).for("update");
+      if (!cycle) {
+        throw new OkrCycleError("OKR cycle not found", 404);
+      }
+      if (cycle.status === "closed") {
+        throw new OkrCycleError("This cycle has already been closed", 409);
+      }
+
+      let targetCycle: OkrCycle | null = null;
+      if (closeOut.rollForward) {
+        const [target] = await tx.select().from(okrCycles).where(eq(okrCycles.id, closeOut.rollForward.targetCycleId));
+        if (!target || target.id === cycle.id) {
+          throw new OkrCycleError("Choose another cycle to roll unfinished objectives into");
+        }
+        if (target.status === "closed") {
+          throw new OkrCycleError(`${target.name} is closed; unfinished objectives can only roll into an open cycle`, 409);
+        }
+        targetCycle = target;
+      }
+
+      const rows = await this.getOkrCycleRows(tx, id);
+      const entries = buildOkrScorecardEntries(rows);
+      const grades = new Map(closeOut.grades.map(grade => [`${grade.objectiveType}:${grade.objectiveId}`, grade]));
+      grades.forEach((_, key) => {
+        if (!entries.some(entry => `${entry.objectiveType}:${entry.objectiveId}` === key)) {
+          throw new OkrCycleError(`${key.replace(":", " objective ")} is not part of ${cycle.name}`);
+        }
+      });
+
+      const now = new Date();
+      const graded = entries.map(entry => {
+        const grade = grades.get(`${entry.objectiveType}:${entry.objectiveId}`);
+        return {
+          ...entry,
+          finalScore: grade?.finalScore ?? entry.score,
+          retrospective: grade?.retrospective || entry.retrospective,
+        };
+      });
+
+      const chosen = closeOut.rollForward?.objectiveIds;
+      if (chosen) {
+        const missing = chosen.filter(objectiveId => !graded.some(entry => entry.objectiveId === objectiveId));
+        if (missing.length > 0) {
+          throw new OkrCycleError(`Can't roll forward ${missing.length} objective(s) that are not part of ${cycle.name}`);
+        }
+      }
+      const rollForwardIds = graded
+        .filter(entry => chosen ? chosen.includes(entry.objectiveId) : isUnfinished(entry.finalScore))
+        .map(entry => entry.objectiveId);
+
+      const snapshots: InsertOkrSnapshot[] = [];
+      const auditEntries: InsertObjectiveAuditLog[] = [];
+      for (const entry of graded) {
+        const table = entry.objectiveType === "company" ? companyObjectives : entry.objectiveType === "team" ? teamObjectives : goals;
+        const [row] = await tx
+          .update(table)
+          .set({ finalScore: entry.finalScore, retrospective: entry.retrospective, updatedAt: now })
+          .where(eq(table.id, entry.objectiveId))
+          .returning();
+
+        snapshots.push({
+          snapshotDate: now,
+          objectiveId: entry.objectiveId,
+          objectiveType: entry.objectiveType,
+          objectiveData: row,
+          keyResultsData: entry.keyResults,
+          progressMetrics: {
+            score: entry.score,
+            finalScore: entry.finalScore,
+            band: entry.finalScore === null ? null : getScoreBand(entry.finalScore),
+            keyResultCount: entry.keyResults.length,
+          },
+          createdFor: "cycle_close",
+          cycleId: cycle.id,
+        });
+        if (entry.objectiveType !== "goal") {
+          auditEntries.push({
+            objectiveId: entry.objectiveId,
+            objectiveType: entry.objectiveType,
+            changeType: "status_changed",
+            changedBy: closedBy,
+            fieldChanged: "finalScore",
+            oldValue: null,
+            newValue: entry.finalScore,
+            changeReason: `Graded at the close of ${cycle.name}`,
+          });
+        }
+      }
+      if (snapshots.length > 0) await tx.insert(okrSnapshots).values(snapshots);
+      if (auditEntries.length > 0) await tx.insert(objectiveAuditLog).values(auditEntries);
+
+      const [closed] = await tx
+        .update(okrCycles)
+        .set({ status: "closed", closedAt: now, closedBy, updatedAt: now })
+        .where(eq(okrCycles.id, cycle.id))
+        .returning();
+
+      const rolledForward = targetCycle
+        ? await this.rollForwardOkrObjectives(tx, rows, rollForwardIds, targetCycle)
+        : [];
+
+      const cycleScore = averageScore(graded.map(entry => entry.finalScore));
+      await this.emitDomainEvents(tx, [okrCycleClosedEvent(closed, graded.length, cycleScore, rolledForward, targetCycle?.id ?? null)]);
+
+      return { cycle: closed, snapshotCount: snapshots.length, averageScore: cycleScore, rolledForward };
+    });
+  }
+
+  private async getOkrCycleRows(tx: DbTransaction, cycleId: string): Promise<OkrCycleRows> {
+    const [companyRows, teamRows, goalRows] = await Promise.all([
+      tx.select().from(companyObjectives).where(and(eq(companyObjectives.cycleId, cycleId), eq(companyObjectives.isActive, true))).orderBy(asc(companyObjectives.createdAt)),
+      tx.select().from(teamObjectives).where(and(eq(teamObjectives.cycleId, cycleId), eq(teamObjectives.isActive, true))).orderBy(asc(teamObjectives.createdAt)),
+      tx.select().from(goals).where(and(eq(goals.cycleId, cycleId), eq(goals.isActive, true))).orderBy(asc(goals.createdAt)),
+    ]);
+    const companyIds = companyRows.map(objective => objective.id);
+    const teamIds = teamRows.map(objective => objective.id);
+    const [companyKrs, teamKrs] = await Promise.all([
+      companyIds.length > 0
+        ? tx.select().from(keyResults).where(inArray(keyResults.objectiveId, companyIds)).orderBy(asc(keyResults.createdAt))
+        : Promise.resolve([] as KeyResult[]),
+      teamIds.length > 0
+        ? tx.select().from(teamKeyResults).where(inArray(teamKeyResults.teamObjectiveId, teamIds)).orderBy(asc(teamKeyResults.createdAt))
+        : Promise.resolve([] as TeamKeyResult[]),
+    ]);
+    return { companyObjectives: companyRows, teamObjectives: teamRows, goals: goalRows, keyResults: companyKrs, teamKeyResults: teamKrs };
+  }
+
+  // Copies objectives into the next cycle with their key results, each starting from where it finished. Team
+  // objectives and goals whose parent rolled forward too are re-linked to the parent's copy.
+  private async rollForwardOkrObjectives(tx: DbTransaction, rows: OkrCycleRows, objectiveIds: string[], target: OkrCycle): Promise<OkrRollForward[]> {
+    const rolled: OkrRollForward[] = [];
+    const copiedCompany = new Map<string, string>();
+    const copiedTeam = new Map<string, string>();
+    const planned = { cycleId: target.id, startDate: target.startDate, endDate: target.endDate, finalScore: null, retrospective: null };
+    // Roll-ups are worked out afresh in the new cycle; an override made for the old one doesn't carry over
+    const freshRollup = (objective: CompanyObjective | TeamObjective) => ({
+      rollupMethod: objective.rollupMethod === "manual" ? "weighted_average" as const : objective.rollupMethod,
+      rollupOverride: null,
+      rollupOverrideReason: null,
+      rollupOverriddenBy: null,
+      rollupOverriddenAt: null,
+      rollupProgress: null,
+      rollupBreakdown: null,
+      rollupCalculatedAt: null,
+    });
+    const carryOver = (kr: KeyResult | TeamKeyResult) => ({
+      id: undefined,
+      startValue: kr.currentValue ?? kr.startValue,
+      confidenceScore: null,
+      lastConfidenceUpdate: null,
+      createdAt: undefined,
+      updatedAt: undefined,
+    });
+
+    for (const objective of rows.companyObjectives.filter(row => objectiveIds.includes(row.id))) {
+      const [copy] = await tx
+        .insert(companyObjectives)
+        .values({ ...objective, ...planned, ...freshRollup(objective), blockedBy: null, atRiskSince: null, id: undefined, rolledForwardFromId: objective.id, createdAt: undefined, updatedAt: undefined })
+        .returning();
+      const krs = rows.keyResults.filter(kr => kr.objectiveId === objective.id);
+      if (krs.length > 0) {
+        await tx.insert(keyResults).values(krs.map(kr => ({ ...kr, ...carryOver(kr), objectiveId: copy.id })));
+      }
+      copiedCompany.set(objective.id, copy.id);
+      rolled.push({ objectiveType: "company", fromId: objective.id, toId: copy.id });
+    }
+
+    for (const objective of rows.teamObjectives.filter(row => objectiveIds.includes(row.id))) {
+      const [copy] = await tx
+        .insert(teamObjectives)
+        .values({
+          ...objective,
+          ...planned,
+          ...freshRollup(objective),
+          id: undefined,
+          parentCompanyObjectiveId: copiedCompany.get(objective.parentCompanyObjectiveId) ?? objective.parentCompanyObjectiveId,
+          rolledForwardFromId: objective.id,
+          createdAt: undefined,
+          updatedAt: undefined,
+        })
+        .returning();
+      const krs = rows.teamKeyResults.filter(kr => kr.teamObjectiveId === objective.id);
+      if (krs.length > 0) {
+        await tx.insert(teamKeyResults).values(krs.map(kr => ({ ...kr, ...carryOver(kr), teamObjectiveId: copy.id })));
+      }
+      copiedTeam.set(objective.id, copy.id);
+      rolled.push({ objectiveType: "team", fromId: objective.id, toId: copy.id });
+    }
+
+    for (const goal of rows.goals.filter(row => objectiveIds.includes(row.id))) {
+      const [copy] = await tx
+        .insert(goals)
+        .values({
+          ...goal,
+          ...planned,
+          id: undefined,
+          parentObjectiveId: goal.parentObjectiveId ? copiedCompany.get(goal.parentObjectiveId) ?? goal.parentObjectiveId : null,
+          parentTeamObjectiveId: goal.parentTeamObjectiveId ? copiedTeam.get(goal.parentTeamObjectiveId) ?? goal.parentTeamObjectiveId : null,
+          rolledForwardFromId: goal.id,
+          createdAt: undefined,
+          updatedAt: undefined,
+        })
+        .returning();
+      rolled.push({ objectiveType: "goal", fromId: goal.id, toId: copy.id });
+    }
+
+    await this.recalculateOkrRollups(
+      tx,
+      rolled.filter(copy => copy.objectiveType === "team").map(copy => copy.toId),
+      rolled.filter(copy => copy.objectiveType === "company").map(copy => copy.toId)
+    );
+    return rolled;
+  }
+
+  // Progress on objectives in a closed cycle stays at what was graded. Takes a share lock on the cycle so an
+  // update can't slip in while the cycle is being closed.
+  private async assertKeyResultProgressOpen(tx: DbTransaction, keyResultId: string, keyResultType: string): Promise<void> {
+    const [row] = keyResultType === 'team'
+      ? await tx
+          .select({ status: okrCycles.status })
+          .from(teamKeyResults)
+          .innerJoin(teamObjectives, eq(teamObjectives.id, teamKeyResults.teamObjectiveId))
+          .innerJoin(okrCycles, eq(okrCycles.id, teamObjectives.cycleId))
+          .where(eq(teamKeyResults.id, keyResultId))
+          .for("share", { of: okrCycles })
+      : await tx
+          .select({ status: okrCycles.status })
+          .from(keyResults)
+          .innerJoin(companyObjectives, eq(companyObjectives.id, keyResults.objectiveId))
+          .innerJoin(okrCycles, eq(okrCycles.id, companyObjectives.cycleId))
+          .where(eq(keyResults.id, keyResultId))
+          .for("share", { of: okrCycles });
+    if (row?.status === "closed") {
+      throw new OkrCycleError("This key result's OKR cycle is closed, so its progress is locked", 409);
+    }
+  }
+
+  private async assertGoalProgressOpen(tx: DbTransaction, goalId: string): Promise<void> {
+    const [row] = await tx
+      .select({ status: okrCycles.status })
+      .from(goals)
+      .innerJoin(okrCycles, eq(okrCycles.id, goals.cycleId))
+      .where(eq(goals.id, goalId))
+      .for("share", { of: okrCycles });
+    if (row?.status === "closed") {
+      throw new OkrCycleError("This goal's OKR cycle is closed, so its progress is locked", 409);
+    }
+  }
+
+  // Progress roll-up
+  async updateOkrRollupRule(objectiveType: "company" | "team", objectiveId: string, rule: OkrRollupRule, updatedBy: string): Promise<OkrRollupBreakdown | null> {
+    return await db.transaction(async (tx) => {
+      const table = objectiveType === "company" ? companyObjectives : teamObjectives;
+      const [row] = await tx
+        .select({ objective: table, cycleStatus: okrCycles.status })
+        .from(table)
+        .leftJoin(okrCycles, eq(okrCycles.id, table.cycleId))
+        .where(and(eq(table.id, objectiveId), eq(table.isActive, true)))
+        .for("update", { of: table });
+      if (!row) return null;
+      if (row.cycleStatus === "closed") {
+        throw new OkrCycleError("This objective's OKR cycle is closed, so its progress is locked", 409);
+      }
+
+      const manual = rule.method === "manual";
+      const now = new Date();
+      await tx
+        .update(table)
+        .set({
+          rollupMethod: rule.method,
+          rollupOverride: manual ? rule.overrideValue : null,
+          rollupOverrideReason: manual ? rule.overrideReason : null,
+          rollupOverriddenBy: manual ? updatedBy : null,
+          rollupOverriddenAt: manual ? now : null,
+          updatedAt: now,
+        })
+        .where(eq(table.id, objectiveId));
+      await tx.insert(objectiveAuditLog).values({
+        objectiveId,
+        objectiveType,
+        changeType: "updated",
+        changedBy: updatedBy,
+        fieldChanged: "rollupMethod",
+        oldValue: { method: row.objective.rollupMethod, override: row.objective.rollupOverride },
+        newValue: { method: rule.method, override: manual ? rule.overrideValue : null },
+        changeReason: manual ? rule.overrideReason : `Progress rolled up by ${rule.method.replace("_", " ")}`,
+      });
+
+      await this.recalculateOkrRollups(tx, objectiveType === "team" ? [objectiveId] : [], objectiveType === "company" ? [objectiveId] : []);
+      const [updated] = await tx.select({ breakdown: table.rollupBreakdown }).from(table).where(eq(table.id, objectiveId));
+      return updated.breakdown as OkrRollupBreakdown;
+    });
+  }
+
+  private async recalculateKeyResultRollups(tx: DbTransaction, keyResultId: string, keyResultType: string): Promise<void> {
+    if (keyResultType === 'team') {
+      const [kr] = await tx.select({ teamObjectiveId: teamKeyResults.teamObjectiveId }).from(teamKeyResults).where(eq(teamKeyResults.id, keyResultId));
+      if (kr) await this.recalculateOkrRollups(tx, [kr.teamObjectiveId], []);
+    } else {
+      const [kr] = await tx.select({ objectiveId: keyResults.objectiveId }).from(keyResults).where(eq(keyResults.id, keyResultId));
+      if (kr) await this.recalculateOkrRollups(tx, [], [kr.objectiveId]);
+    }
+  }
+
+  private async recalculateGoalRollups(tx: DbTransaction, goal: Goal): Promise<void> {
+    await this.recalculateOkrRollups(
+      tx,
+      goal.parentTeamObjectiveId ? [goal.parentTeamObjectiveId] : [],
+      goal.parentObjectiveId ? [goal.parentObjectiveId] : []
+    );
+  }
+
+  // Re-derives the team objectives first and then every company objective above them, so a change at the bottom
+  // of the tree reaches the top in the same transaction. Objectives in a closed cycle keep their graded progress.
+  private async recalculateOkrRollups(tx: DbTransaction, teamObjectiveIds: string[], companyObjectiveIds: string[]): Promise<void> {
+    const now = new Date();
+    const companyIds = new Set(companyObjectiveIds);
+
+    if (teamObjectiveIds.length > 0) {
+      const teamRows = await tx
+        .select({ objective: teamObjectives, cycleStatus: okrCycles.status })
+        .from(teamObjectives)
+        .leftJoin(okrCycles, eq(okrCycles.id, teamObjectives.cycleId))
+        .where(and(inArray(teamObjectives.id, teamObjectiveIds), eq(teamObjectives.isActive, true)));
+      for (const { objective, cycleStatus } of teamRows) {
+        companyIds.add(objective.parentCompanyObjectiveId);
+        if (cycleStatus === "closed") continue;
+
+        const [krs, linkedGoals] = await Promise.all([
+          tx.select().from(teamKeyResults).where(eq(teamKeyResults.teamObjectiveId, objective.id)).orderBy(asc(teamKeyResults.createdAt)),
+          tx.select().from(goals).where(and(eq(goals.parentTeamObjectiveId, objective.id), eq(goals.isActive, true))).orderBy(asc(goals.createdAt)),
+        ]);
+        const breakdown = computeOkrRollup(objective.rollupMethod, [
+          ...krs.map(kr => keyResultRollupInput(kr, "team_key_result")),
+          ...linkedGoals.map(goalRollupInput),
+        ], rollupOverrideOf(objective));
+        await tx
+          .update(teamObjectives)
+          .set({ rollupProgress: breakdown.progress, rollupBreakdown: breakdown, rollupCalculatedAt: now })
+          .where(eq(teamObjectives.id, objective.id));
+      }
+    }
+
+    if (companyIds.size === 0) return;
+    const companyRows = await tx
+      .select({ objective: companyObjectives, cycleStatus: okrCycles.status })
+      .from(companyObjectives)
+      .leftJoin(okrCycles, eq(okrCycles.id, companyObjectives.cycleId))
+      .where(and(inArray(companyObjectives.id, Array.from(companyIds)), eq(companyObjectives.isActive, true)));
+    for (const { objective, cycleStatus } of companyRows) {
+      if (cycleStatus === "closed") continue;
+
+      // Goals under a team objective already count through it
+      const [krs, childObjectives, linkedGoals] = await Promise.all([
+        tx.select().from(keyResults).where(eq(keyResults.objectiveId, objective.id)).orderBy(asc(keyResults.createdAt)),
+        tx.select().from(teamObjectives).where(and(eq(teamObjectives.parentCompanyObjectiveId, objective.id), eq(teamObjectives.isActive, true))).orderBy(asc(teamObjectives.createdAt)),
+        tx.select().from(goals).where(and(eq(goals.parentObjectiveId, objective.id), isNull(goals.parentTeamObjectiveId), eq(goals.isActive, true))).orderBy(asc(goals.createdAt)),
+      ]);
+      const breakdown = computeOkrRollup(objective.rollupMethod, [
+        ...krs.map(kr => keyResultRollupInput(kr, "key_result")),
+        ...childObjectives.map((child): OkrRollupInput => ({
+          kind: "team_objective",
+          id: child.id,
+          title: child.title,
+          score: child.finalScore ?? child.rollupProgress,
+          weight: child.rollupWeight,
+        })),
+        ...linkedGoals.map(goalRollupInput),
+      ], rollupOverrideOf(objective));
+      await tx
+        .update(companyObjectives)
+        .set({ rollupProgress: breakdown.progress, rollupBreakdown: breakdown, rollupCalculatedAt: now })
+        .where(eq(companyObjectives.id, objective.id));
+    }
+    // New progress can turn an objective red, or back from red, for everything that depends on it
+    if (companyRows.length > 0) await this.refreshDependencyRisk(tx, now);
+  }
+
   // Phase 5: Corrective Actions & Nonconformity
   async getCorrectiveActions(status?: string, assignedTo?: string): Promise<CorrectiveAction[]> {
     const conditions = [];
@@ -1758,11 +3908,27 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createNonconformity(nonconformity: InsertNonconformity): Promise<Nonconformity> {
-    const [created] = await db
-      .insert(nonconformities)
-      .values(nonconformity)
-      .returning();
-    return created;
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(nonconformities)
+        .values(nonconformity)
+        .returning();
+      await this.emitDomainEvents(tx, [domainEvent({
+        eventType: "nonconformity.raised",
+        aggregateType: "nonconformity",
+        aggregateId: created.id,
+        actorId: created.detectedBy,
+        payload: {
+          nonconformityId: created.id,
+          objectiveId: created.objectiveId,
+          objectiveType: created.objectiveType,
+          nonconformityType: created.nonconformityType,
+          impact: created.impact,
+          description: created.description,
+        },
+      })]);
+      return created;
+    });
   }
 
   async updateNonconformity(id: string, updates: Partial<InsertNonconformity>): Promise<Nonconformity | null> {
@@ -1792,20 +3958,27 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createGoal(goal: InsertGoal): Promise<Goal> {
-    const [created] = await db
-      .insert(goals)
-      .values(goal)
-      .returning();
-    return created;
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(goals)
+        .values(goal)
+        .returning();
+      await this.recalculateGoalRollups(tx, created);
+      return created;
+    });
   }
 
   async updateGoalProgress(goalId: string, currentValue: number): Promise<Goal> {
-    const [updated] = await db
-      .update(goals)
-      .set({ currentValue, updatedAt: new Date() })
-      .where(eq(goals.id, goalId))
-      .returning();
-    return updated;
+    return await db.transaction(async (tx) => {
+      await this.assertGoalProgressOpen(tx, goalId);
+      const [updated] = await tx
+        .update(goals)
+        .set({ currentValue, updatedAt: new Date() })
+        .where(eq(goals.id, goalId))
+        .returning();
+      if (updated) await this.recalculateGoalRollups(tx, updated);
+      return updated;
+    });
   }
 
   async getGoal(goalId: string): Promise<Goal | undefined> {
@@ -1850,6 +4023,8 @@ export class DatabaseStorage implements IStorage {
 
   async createCheckInWithGoalUpdate(checkIn: InsertWeeklyCheckIn, absoluteProgress: number): Promise<WeeklyCheckIn> {
     return await db.transaction(async (tx) => {
+      await this.assertGoalProgressOpen(tx, checkIn.goalId);
+
       // Create the check-in
       const [createdCheckIn] = await tx
         .insert(weeklyCheckIns)
@@ -1857,10 +4032,12 @@ export class DatabaseStorage implements IStorage {
         .returning();
 
       // Update the goal's progress
-      await tx
+      const [goal] = await tx
         .update(goals)
         .set({ currentValue: absoluteProgress, updatedAt: new Date() })
-        .where(eq(goals.id, checkIn.goalId));
+        .where(eq(goals.id, checkIn.goalId))
+        .returning();
+      if (goal) await this.recalculateGoalRollups(tx, goal);
 
       return createdCheckIn;
     });
@@ -1869,6 +4046,8 @@ export class DatabaseStorage implements IStorage {
   // Phase 7: KR Weekly check-ins
   async createKRCheckIn(checkIn: InsertKrWeeklyCheckIn): Promise<KrWeeklyCheckIn> {
     return await db.transaction(async (tx) => {
+      await this.assertKeyResultProgressOpen(tx, checkIn.keyResultId, checkIn.keyResultType);
+
       // Create the check-in
       const [createdCheckIn] = await tx
         .insert(krWeeklyCheckIns)
@@ -1888,7 +4067,7 @@ export class DatabaseStorage implements IStorage {
         .where(eq(targetTable.id, checkIn.keyResultId));
 
       // Create progress update record
-      await tx
+      const [progressUpdate] = await tx
         .insert(krProgressUpdates)
         .values({
           keyResultId: checkIn.keyResultId,
@@ -1898,7 +4077,10 @@ export class DatabaseStorage implements IStorage {
           newValue: checkIn.newValue,
           confidenceScore: checkIn.confidenceScore,
           updateNote: `Weekly check-in: ${checkIn.achievements || 'No achievements noted'}`,
-        });
+        })
+        .returning();
+      await this.recalculateKeyResultRollups(tx, checkIn.keyResultId, checkIn.keyResultType);
+      await this.emitDomainEvents(tx, [krProgressUpdatedEvent(progressUpdate)]);
 
       return createdCheckIn;
     });
@@ -1922,6 +4104,7 @@ export class DatabaseStorage implements IStorage {
       const created: KrWeeklyCheckIn[] = [];
 
       for (const checkIn of checkIns) {
+        await this.assertKeyResultProgressOpen(tx, checkIn.keyResultId, checkIn.keyResultType);
         const [createdCheckIn] = await tx
           .insert(krWeeklyCheckIns)
           .values(checkIn)
@@ -1941,7 +4124,7 @@ export class DatabaseStorage implements IStorage {
           .where(eq(targetTable.id, checkIn.keyResultId));
 
         // Create progress update
-        await tx
+        const [progressUpdate] = await tx
           .insert(krProgressUpdates)
           .values({
             keyResultId: checkIn.keyResultId,
@@ -1951,7 +4134,10 @@ export class DatabaseStorage implements IStorage {
             newValue: checkIn.newValue,
             confidenceScore: checkIn.confidenceScore,
             updateNote: `Bulk check-in: ${checkIn.achievements || ''}`,
-          });
+          })
+          .returning();
+        await this.recalculateKeyResultRollups(tx, checkIn.keyResultId, checkIn.keyResultType);
+        await this.emitDomainEvents(tx, [krProgressUpdatedEvent(progressUpdate)]);
       }
 
       return created;
@@ -2255,9 +4441,30 @@ export class DatabaseStorage implements IStorage {
       relatedEntityType?: string;
       metadata?: any;
       expiresAt?: Date;
+      variables?: Record<string, unknown>;
     } = {}
   ): Promise<void> {
     try {
+      // An active template for the type replaces the built-in wording
+      const { variables, ...deliveryOptions } = options;
+      options = deliveryOptions;
+      if (variables) {
+        try {
+          const rendered = await this.renderNotificationForUser(userId, type, {
+            entityId: options.relatedEntityId,
+            entityType: options.relatedEntityType,
+            ...variables,
+          });
+          if (rendered) {
+            title = rendered.title;
+            message = rendered.message;
+            options = { ...options, actionLabel: rendered.actionLabel ?? options.actionLabel };
+          }
+        } catch (error) {
+          console.error(`Failed to render the ${type} notification template for user ${userId}; using the default wording:`, error);
+        }
+      }
+
       // Check if user has in-app notifications enabled for this type
       const [userPreference] = await db
         .select()
@@ -2270,9 +4477,10 @@ export class DatabaseStorage implements IStorage {
       const inAppEnabled = userPreference?.inAppEnabled !== false; // Default to true if no preference
       const webhookEnabled = userPreference?.webhookEnabled === true; // Default to false
 
+      let notificationId: string | undefined;
       if (inAppEnabled) {
         // Create in-app notification
-        await db.insert(notifications).values({
+        const [created] = await db.insert(notifications).values({
           userId,
           type: type as any,
           priority: options.priority || "medium",
@@ -2286,8 +4494,11 @@ export class DatabaseStorage implements IStorage {
           isRead: false,
           isArchived: false,
           expiresAt: options.expiresAt
-        });
-      }
+        }).returning();
+        notificationId = created?.id;
+          }
+
+      await this.queueChannelDeliveries(userId, type, title, message, options, userPreference, notificationId);
 
       if (webhookEnabled) {
         // Trigger webhook notifications (n8n integration)
@@ -2298,50 +4509,75 @@ export class DatabaseStorage implements IStorage {
         });
       }
     } catch (error) {
+      // Rethrown so the outbox retries the event and scheduler jobs report the failure instead of dropping the notice
       console.error(`Failed to trigger LMS notification for user ${userId}:`, error);
-      // Don't throw - notification failures shouldn't break LMS operations
+      throw error;
     }
   }
 
-  async triggerWebhookNotification(userId: string, type: string, data: any): Promise<void> {
-    try {
-      // Get webhook configurations for this notification type
-      const webhookConfigs = await db
-        .select()
-        .from(n8nWebhookConfigs)
-        .where(and(
-          eq(n8nWebhookConfigs.userId, userId),
-          eq(n8nWebhookConfigs.eventType, type as any),
-          eq(n8nWebhookConfigs.isActive, true)
-        ));
+  // Email and SMS copies of a notification, sent later by the notification_deliveries job. Digest users get
+  // DIGEST_NOTIFICATION_TYPES in their digest rather than one email each.
+  private async queueChannelDeliveries(
+    userId: string,
+    type: string,
+    title: string,
+    message: string,
+    options: { priority?: "low" | "medium" | "high" | "urgent"; actionUrl?: string },
+    preference: NotificationPreference | undefined,
+    notificationId: string | undefined
+  ): Promise<void> {
+    const emailEnabled = preference?.emailEnabled ?? DEFAULT_EMAIL_NOTIFICATION_TYPES.includes(type);
+    const smsEnabled = preference?.smsEnabled === true;
+    if (!emailEnabled && !smsEnabled) return;
 
-      for (const config of webhookConfigs) {
-        try {
-          const payload = {
-            event: type,
-            user_id: userId,
-            timestamp: new Date().toISOString(),
-            data
-          };
+    const user = await this.getUser(userId);
+    if (!user?.isActive || user.isServiceAccount) return;
+    const settings = await this.getNotificationChannelSettings(userId);
+    const inDigest = settings && settings.digestFrequency !== "off" && DIGEST_NOTIFICATION_TYPES.includes(type);
 
-          // Log webhook attempt
-          await db.insert(webhookExecutionLogs).values({
-            webhookConfigId: config.id,
-            eventType: type as any,
-            payload,
-            status: "pending",
-            attemptCount: 1
-          });
+    const base = {
+      userId,
+      notificationId: notificationId ?? null,
+      notificationType: type as NotificationDelivery["notificationType"],
+      priority: options.priority ?? "medium",
+      actionUrl: options.actionUrl ?? null,
+    };
+    const deliveries: InsertNotificationDelivery[] = [];
+    if (emailEnabled && user.email && !inDigest) {
+      deliveries.push({ ...base, channel: "email", recipient: user.email, subject: title, body: message });
+    }
+    if (smsEnabled && user.mobilePhone) {
+      deliveries.push({ ...base, channel: "sms", recipient: user.mobilePhone, body: `${title}: ${message}` });
+    }
+    await this.createNotificationDeliveries(deliveries);
+  }
 
-          // In a real implementation, this would make HTTP request to n8n webhook
-          console.log(`Webhook notification triggered for ${type}:`, payload);
-          
-        } catch (webhookError) {
-          console.error(`Webhook notification failed for config ${config.id}:`, webhookError);
-        }
+  async triggerWebhookNotification(userId: string, type: string, data: any): Promise<void> {
+    try {
+      // Notifications are routed to the n8n config subscribed to the matching webhook event
+      const eventType = notificationWebhookEventMap[type as keyof typeof notificationWebhookEventMap] ?? "system_notification";
+      const config = await this.getN8nWebhookConfigByEventType(eventType);
+      if (!config) {
+        return;
       }
+
+      const payload = {
+        event: eventType,
+        notification_type: type,
+        user_id: userId,
+        timestamp: new Date().toISOString(),
+        data
+      };
+
+      // Delivery happens asynchronously through the webhook delivery queue
+      await this.enqueueWebhookDelivery({
+        webhookConfigId: config.id,
+        eventType,
+        payload,
+        triggeredBy: 'system'
+      });
     } catch (error) {
-      console.error(`Failed to trigger webhook notifications:`, error);
+      console.error(`Failed to queue webhook notification:`, error);
     }
   }
 
@@ -2357,7 +4593,8 @@ export class DatabaseStorage implements IStorage {
         actionUrl: `/learning/courses/${enrollmentId}`,
         actionLabel: "Start Course",
         relatedEntityId: enrollmentId,
-        relatedEntityType: "enrollment"
+        relatedEntityType: "enrollment",
+        variables: { courseTitle }
       }
     );
   }
@@ -2373,7 +4610,8 @@ export class DatabaseStorage implements IStorage {
         actionUrl: `/learning/certificates`,
         actionLabel: "View Certificate",
         relatedEntityId: enrollmentId,
-        relatedEntityType: "enrollment"
+        relatedEntityType: "enrollment",
+        variables: { courseTitle }
       }
     );
   }
@@ -2388,7 +4626,8 @@ export class DatabaseStorage implements IStorage {
         priority: "medium",
         relatedEntityId: quizId,
         relatedEntityType: "quiz",
-        metadata: { score }
+        metadata: { score },
+        variables: { lessonTitle, score }
       }
     );
   }
@@ -2405,7 +4644,26 @@ export class DatabaseStorage implements IStorage {
         actionLabel: "Retry Quiz",
         relatedEntityId: quizId,
         relatedEntityType: "quiz",
-        metadata: { score }
+        metadata: { score },
+        variables: { lessonTitle, score }
+      }
+    );
+  }
+
+  async notifyCertificateRevoked(userId: string, certificateTitle: string, certificateId: string, reason: string): Promise<void> {
+    await this.triggerLMSNotification(
+      userId,
+      "certificate_revoked",
+      "Certificate Revoked",
+      `Your certificate for ${certificateTitle} has been revoked: ${reason}. Please contact your supervisor about retraining.`,
+      {
+        priority: "high",
+        actionUrl: `/learning/certificates`,
+        actionLabel: "View Certificates",
+        relatedEntityId: certificateId,
+        relatedEntityType: "certificate",
+        metadata: { reason },
+        variables: { certificateTitle, reason }
       }
     );
   }
@@ -2421,7 +4679,27 @@ export class DatabaseStorage implements IStorage {
         actionUrl: `/learning/certificates/${certificateId}`,
         actionLabel: "Download Certificate",
         relatedEntityId: certificateId,
-        relatedEntityType: "certificate"
+        relatedEntityType: "certificate",
+        variables: { courseTitle }
+      }
+    );
+  }
+
+  async notifyObjectiveAtRisk(userId: string, objectiveId: string, objectiveTitle: string, blockedByTitles: string[], dueDate: Date): Promise<void> {
+    const blockers = blockedByTitles.join(", ");
+    await this.triggerLMSNotification(
+      userId,
+      "objective_at_risk",
+      "Objective at Risk",
+      `${objectiveTitle} depends on ${blockers}, which ${blockedByTitles.length === 1 ? "is" : "are"} off track. Review the plan before ${dueDate.toLocaleDateString()}.`,
+      {
+        priority: "high",
+        actionUrl: `/company-objectives`,
+        actionLabel: "View Objective",
+        relatedEntityId: objectiveId,
+        relatedEntityType: "company_objective",
+        metadata: { blockedByTitles },
+        variables: { objectiveTitle, blockedByTitles: blockers, dueDate }
       }
     );
   }
@@ -2437,7 +4715,8 @@ export class DatabaseStorage implements IStorage {
         actionUrl: `/profile#badges`,
         actionLabel: "View Badge",
         relatedEntityId: badgeId,
-        relatedEntityType: "badge"
+        relatedEntityType: "badge",
+        variables: { badgeName }
       }
     );
   }
@@ -2455,7 +4734,8 @@ export class DatabaseStorage implements IStorage {
         actionLabel: "Continue Course",
         relatedEntityId: enrollmentId,
         relatedEntityType: "enrollment",
-        metadata: { dueDate: dueDate.toISOString(), daysUntilDue }
+        metadata: { dueDate: dueDate.toISOString(), daysUntilDue },
+        variables: { courseTitle, dueDate, daysUntilDue }
       }
     );
   }
@@ -2472,7 +4752,8 @@ export class DatabaseStorage implements IStorage {
         actionLabel: "Complete Now",
         relatedEntityId: enrollmentId,
         relatedEntityType: "enrollment",
-        metadata: { daysPastDue }
+        metadata: { daysPastDue },
+        variables: { courseTitle, daysPastDue }
       }
     );
   }
@@ -3772,6 +6053,15 @@ export class DatabaseStorage implements IStorage {
     return course;
   }
 
+  async getCourseTitleForVersion(courseVersionId: string): Promise<string | undefined> {
+    const [course] = await db
+      .select({ title: courses.title })
+      .from(courseVersions)
+      .innerJoin(courses, eq(courseVersions.courseId, courses.id))
+      .where(eq(courseVersions.id, courseVersionId));
+    return course?.title;
+  }
+
   async getCourseDetailsWithProgress(courseId: string, userId?: string): Promise<any> {
     // Get basic course information
     const course = await this.getCourse(courseId);
@@ -3870,7 +6160,7 @@ export class DatabaseStorage implements IStorage {
               
             quizData = {
               quiz: quiz[0],
-              latestAttempt: attempt.length > 0 ? attempt[0] : null
+              latestAttempt: attempt.length > 0 ? toLearnerQuizAttempt(attempt[0]) : null
             };
           }
         }
@@ -4068,17 +6358,115 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  // The question set is frozen on the attempt so grading and review don't move when banks or quizzes are edited
   async startQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt> {
-    const [created] = await db.insert(quizAttempts).values(attempt).returning();
+    const quiz = await this.getQuizById(attempt.quizId);
+    if (!quiz) {
+      throw new Error("Quiz not found");
+    }
+
+    const questionSet = await this.buildQuizAttemptQuestionSet(quiz);
+    // The deadline is fixed here by the server clock; the browser's countdown is only a display
+    const startedAt = new Date();
+    const [created] = await db
+      .insert(quizAttempts)
+      .values({ ...attempt, questionSet, startedAt, deadlineAt: getAttemptDeadline(startedAt, quiz.timeLimit) })
+      .returning();
     return created;
   }
 
-  async submitQuizAttempt(attemptId: string, answers: QuizAnswers, timeSpent: number): Promise<QuizAttempt> {
+  // The quiz's own questions followed by a fresh draw from each rule. Drawn questions are always shuffled;
+  // fixed questions keep their order unless the quiz randomizes.
+  private async buildQuizAttemptQuestionSet(quiz: Quiz): Promise<AttemptQuestion[]> {
+    const fixedQuestions = (await this.getQuizQuestions(quiz.id))
+      .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0))
+      .map((question): AttemptQuestion => ({
+        id: question.id,
+        source: "quiz",
+        bankId: null,
+        drawRuleId: null,
+        skillIds: [],
+        difficulty: null,
+        type: question.type,
+        questionText: question.questionText,
+        options: question.options,
+        correctAnswers: question.correctAnswers,
+        explanation: question.explanation,
+      }))
+      .map(question => shuffleQuestionChoices(question));
+
+    const rules = await this.getQuizDrawRules(quiz.id);
+    const candidatesByBank = await this.getDrawCandidatesByBank(rules.map(rule => rule.bankId));
+    const drawnIds = new Set<string>();
+    const drawnQuestions: AttemptQuestion[] = [];
+    for (const rule of rules) {
+      // Rules sharing a bank never draw the same question twice
+      const drawn = drawQuestionsForRule(rule, candidatesByBank.get(rule.bankId) ?? [], drawnIds);
+      drawn.forEach(question => drawnIds.add(question.id));
+      drawnQuestions.push(...drawn.map(question => shuffleQuestionChoices(question)));
+    }
+
+    const questionSet = quiz.randomizeQuestions
+      ? shuffleQuestions([...fixedQuestions, ...drawnQuestions])
+      : [...fixedQuestions, ...shuffleQuestions(drawnQuestions)];
+    if (questionSet.length === 0) {
+      throw new QuizDrawError("This quiz has no questions and cannot be started. Please contact your instructor to add questions first.");
+    }
+    return questionSet;
+  }
+
+  // Active bank questions keyed by bank, with skills from the question's own tag and its lesson's lesson_skills
+  private async getDrawCandidatesByBank(bankIds: string[]): Promise<Map<string, DrawCandidate[]>> {
+    const candidatesByBank = new Map<string, DrawCandidate[]>();
+    if (bankIds.length === 0) return candidatesByBank;
+
+    const questions = await db
+      .select()
+      .from(questionBankQuestions)
+      .where(and(
+        inArray(questionBankQuestions.bankId, Array.from(new Set(bankIds))),
+        eq(questionBankQuestions.isActive, true)
+      ));
+
+    const lessonIds = Array.from(new Set(questions.map(question => question.lessonId).filter((id): id is string => !!id)));
+    const lessonSkillRows = lessonIds.length > 0
+      ? await db.select().from(lessonSkills).where(inArray(lessonSkills.lessonId, lessonIds))
+      : [];
+    const skillsByLesson = new Map<string, string[]>();
+    for (const row of lessonSkillRows) {
+      skillsByLesson.set(row.lessonId, [...(skillsByLesson.get(row.lessonId) ?? []), row.skillId]);
+    }
+
+    for (const question of questions) {
+      const skillIds = Array.from(new Set([
+        ...(question.skillId ? [question.skillId] : []),
+        ...(question.lessonId ? skillsByLesson.get(question.lessonId) ?? [] : []),
+      ]));
+      const candidate: DrawCandidate = {
+        id: question.id,
+        bankId: question.bankId,
+        skillIds,
+        difficulty: question.difficulty,
+        type: question.type,
+        questionText: question.questionText,
+        options: question.options,
+        correctAnswers: question.correctAnswers,
+        explanation: question.explanation,
+      };
+      candidatesByBank.set(question.bankId, [...(candidatesByBank.get(question.bankId) ?? []), candidate]);
+    }
+    return candidatesByBank;
+  }
+
+  async submitQuizAttempt(attemptId: string, answers: QuizAnswers, timeSpent: number | null, closure: QuizAttemptClosure = {}): Promise<QuizAttempt> {
     // Get the quiz attempt and related quiz
     const attempt = await this.getQuizAttempt(attemptId);
     if (!attempt) {
       throw new Error("Quiz attempt not found");
     }
+    if (!isQuizAttemptOpen(attempt)) {
+      throw new QuizAttemptClosedError("This quiz attempt has already been closed");
+    }
 
     // Get quiz details to calculate score
     const [quiz] = await db
@@ -4090,18 +6478,16 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Quiz not found");
     }
 
-    // Get quiz questions to validate answers
-    const questions = await db
-      .select()
-      .from(quizQuestions)
-      .where(eq(quizQuestions.quizId, quiz.id));
+    // Grade against the question set frozen at start; attempts from before question banks use the quiz's questions
+    const questions: Array<Pick<AttemptQuestion, "id" | "type" | "options" | "correctAnswers">> = Array.isArray(attempt.questionSet)
+      ? attempt.questionSet as AttemptQuestion[]
+      : await db
+        .select()
+        .from(quizQuestions)
+        .where(eq(quizQuestions.quizId, quiz.id));
 
-    // Calculate score
-    let correctAnswers = 0;
-    const totalQuestions = questions.length;
-    
     console.log('Quiz scoring debug:', {
-      totalQuestions,
+      totalQuestions: questions.length,
       answers: JSON.stringify(answers),
       questionsData: questions.map(q => ({
         id: q.id,
@@ -4110,40 +6496,156 @@ export class DatabaseStorage implements IStorage {
       }))
     });
     
-    questions.forEach((question, index) => {
-      const userAnswer = answers[question.id];
-      const correctAnswer = question.correctAnswers;
-      
-      console.log(`Question ${question.id} comparison:`, {
-        userAnswer: JSON.stringify(userAnswer),
-        correctAnswer: JSON.stringify(correctAnswer),
-        userAnswerType: typeof userAnswer,
-        correctAnswerType: typeof correctAnswer,
-        matches: JSON.stringify(userAnswer) === JSON.stringify(correctAnswer),
-        answersObject: Object.keys(answers)
-      });
-      
-      // Only count if user provided an answer for this question
-      if (userAnswer !== undefined && JSON.stringify(userAnswer) === JSON.stringify(correctAnswer)) {
-        correctAnswers++;
+    const questionResults = questions.map(question => gradeQuestion(question, answers[question.id]));
+
+    // Essays hold the attempt in pending_grading; score and pass/fail are settled by gradeQuizAttempt
+    const pendingGrading = hasPendingManualGrading(questionResults);
+    const score = pendingGrading ? null : calculateAttemptScore(questionResults);
+    const passed = score !== null && score >= (quiz.passingScore || 70);
+
+    // Update the attempt; the open condition stops a learner submit and the deadline sweep both closing it
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(quizAttempts)
+        .set({
+          answers,
+          score,
+          passed,
+          timeSpent,
+          questionResults,
+          gradingStatus: pendingGrading ? "pending_grading" : "graded",
+          completedAt: new Date(),
+          closeReason: closure.closeReason ?? null,
+          overrunSeconds: closure.overrunSeconds ?? null,
+          lateSubmissionAt: closure.lateSubmissionAt ?? null,
+        })
+        .where(and(eq(quizAttempts.id, attemptId), isNull(quizAttempts.completedAt), isNull(quizAttempts.voidedAt)))
+        .returning();
+      if (row) await this.emitDomainEvents(tx, quizOutcomeEvents(row));
+      return row;
+    });
+    if (!updated) {
+      throw new QuizAttemptClosedError("This quiz attempt has already been closed");
+    }
+
+    await this.emitQuizAttemptStatements(updated, quiz, { includeAttempted: true });
+
+    return updated;
+  }
+
+  // "attempted" is emitted on submit; passed/failed only once the attempt has a final score
+  private async emitQuizAttemptStatements(attempt: QuizAttempt, quiz: Quiz, options: { includeAttempted: boolean }): Promise<void> {
+    await this.emitXapiStatements(attempt.userId, async (actor) => {
+      const lesson = await this.getLesson(quiz.lessonId);
+      const quizActivity = buildXapiActivity("assessment", quiz.id, quiz.title);
+      const parent = [buildXapiActivity("lesson", quiz.lessonId, lesson?.title)];
+      const statements = [];
+      if (options.includeAttempted) {
+        statements.push(buildLearningStatement({ actor, verb: "attempted", object: quizActivity, registration: attempt.enrollmentId, parent, timestamp: attempt.startedAt ?? undefined }));
+      }
+      if (attempt.gradingStatus !== "pending_grading" && attempt.score !== null) {
+        const result = {
+          score: buildXapiScore(attempt.score),
+          success: !!attempt.passed,
+          completion: true,
+          ...(attempt.timeSpent ? { duration: toXapiDuration(attempt.timeSpent) } : {}),
+        };
+        statements.push(buildLearningStatement({ actor, verb: attempt.passed ? "passed" : "failed", object: quizActivity, result, registration: attempt.enrollmentId, parent }));
       }
+      return statements;
     });
+  }
 
-    const score = totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0;
-    const passed = score >= (quiz.passingScore || 70);
+  // Autosave while the attempt is open; undefined once it has been submitted or voided
+  async saveQuizAttemptAnswers(attemptId: string, answers: QuizAnswers): Promise<QuizAttempt | undefined> {
+    const [saved] = await db
+      .update(quizAttempts)
+      .set({ answers, lastSavedAt: new Date() })
+      .where(and(eq(quizAttempts.id, attemptId), isNull(quizAttempts.completedAt), isNull(quizAttempts.voidedAt)))
+      .returning();
+    return saved;
+  }
 
-    // Update the attempt
-    const [updated] = await db
+  // Voided attempts keep their saved answers for the audit trail but carry no score
+  async voidQuizAttempt(attemptId: string, timeSpent: number | null, closure: Omit<QuizAttemptClosure, "closeReason">): Promise<QuizAttempt> {
+    const [voided] = await db
       .update(quizAttempts)
       .set({
-        answers,
-        score,
-        passed,
+        score: 0,
+        passed: false,
         timeSpent,
-        completedAt: new Date()
+        gradingStatus: "graded",
+        closeReason: "voided",
+        voidedAt: new Date(),
+        overrunSeconds: closure.overrunSeconds ?? null,
+        lateSubmissionAt: closure.lateSubmissionAt ?? null,
       })
-      .where(eq(quizAttempts.id, attemptId))
+      .where(and(eq(quizAttempts.id, attemptId), isNull(quizAttempts.completedAt), isNull(quizAttempts.voidedAt)))
       .returning();
+    if (!voided) {
+      throw new QuizAttemptClosedError("This quiz attempt has already been closed");
+    }
+    return voided;
+  }
+
+  async getPendingGradingAttempts(): Promise<QuizGradingQueueItem[]> {
+    const rows = await db
+      .select({
+        attempt: quizAttempts,
+        quizTitle: quizzes.title,
+        lessonId: quizzes.lessonId,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(quizAttempts)
+      .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+      .leftJoin(users, eq(quizAttempts.userId, users.id))
+      .where(eq(quizAttempts.gradingStatus, "pending_grading"))
+      .orderBy(asc(quizAttempts.completedAt));
+
+    return rows.map(row => ({
+      attempt: row.attempt,
+      quizTitle: row.quizTitle,
+      lessonId: row.lessonId,
+      learnerName: [row.firstName, row.lastName].filter(Boolean).join(" ") || row.email || row.attempt.userId,
+      learnerEmail: row.email,
+    }));
+  }
+
+  async gradeQuizAttempt(attemptId: string, grades: ManualGrade[], gradedBy: string): Promise<QuizAttempt> {
+    const attempt = await this.getQuizAttempt(attemptId);
+    if (!attempt) {
+      throw new Error("Quiz attempt not found");
+    }
+    if (attempt.gradingStatus !== "pending_grading") {
+      throw new QuizGradingError("This attempt is not awaiting grading");
+    }
+    const quiz = await this.getQuizById(attempt.quizId);
+    if (!quiz) {
+      throw new Error("Quiz not found");
+    }
+
+    const gradedAt = new Date();
+    const questionResults = applyManualGrades((attempt.questionResults ?? []) as AttemptQuestionResult[], grades, gradedBy, gradedAt);
+    const score = calculateAttemptScore(questionResults);
+    const passed = score >= (quiz.passingScore || 70);
+
+    // The status condition stops two graders finalizing the same attempt
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(quizAttempts)
+        .set({ questionResults, score, passed, gradingStatus: "graded", gradedBy, gradedAt })
+        .where(and(eq(quizAttempts.id, attemptId), eq(quizAttempts.gradingStatus, "pending_grading")))
+        .returning();
+      if (row) await this.emitDomainEvents(tx, quizOutcomeEvents(row, gradedBy));
+      return row;
+    });
+    if (!updated) {
+      throw new QuizGradingError("This attempt has already been graded");
+    }
+
+    await this.emitQuizAttemptStatements(updated, quiz, { includeAttempted: false });
 
     return updated;
   }
@@ -4270,10 +6772,173 @@ export class DatabaseStorage implements IStorage {
     return attempt;
   }
 
+  // The attempt a learner can resume; attempts from before frozen question sets can't be resumed
+  async getOpenQuizAttempt(userId: string, quizId: string): Promise<QuizAttempt | undefined> {
+    const [attempt] = await db
+      .select()
+      .from(quizAttempts)
+      .where(and(
+        eq(quizAttempts.userId, userId),
+        eq(quizAttempts.quizId, quizId),
+        isNull(quizAttempts.completedAt),
+        isNull(quizAttempts.voidedAt),
+        isNotNull(quizAttempts.questionSet)
+      ))
+      .orderBy(desc(quizAttempts.startedAt))
+      .limit(1);
+    return attempt;
+  }
+
+  async getOverdueQuizAttempts(cutoff: Date, limit: number = 100): Promise<QuizAttempt[]> {
+    return await db
+      .select()
+      .from(quizAttempts)
+      .where(and(
+        lte(quizAttempts.deadlineAt, cutoff),
+        isNull(quizAttempts.completedAt),
+        isNull(quizAttempts.voidedAt)
+      ))
+      .orderBy(asc(quizAttempts.deadlineAt))
+      .limit(limit);
+  }
+
+  async getQuizAttemptHistory(quizId: string): Promise<QuizAttemptHistoryItem[]> {
+    const rows = await db
+      .select({
+        attempt: quizAttempts,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(quizAttempts)
+      .leftJoin(users, eq(quizAttempts.userId, users.id))
+      .where(eq(quizAttempts.quizId, quizId))
+      .orderBy(desc(quizAttempts.startedAt));
+
+    return rows.map(row => ({
+      attempt: row.attempt,
+      learnerName: [row.firstName, row.lastName].filter(Boolean).join(" ") || row.email || row.attempt.userId,
+      learnerEmail: row.email,
+    }));
+  }
+
+  // LMS - Question Banks and Draw Rules
+  async getQuestionBanks(): Promise<QuestionBankSummary[]> {
+    const rows = await db
+      .select({
+        bank: questionBanks,
+        questionCount: sql<number>`count(${questionBankQuestions.id})::int`,
+      })
+      .from(questionBanks)
+      .leftJoin(questionBankQuestions, and(
+        eq(questionBankQuestions.bankId, questionBanks.id),
+        eq(questionBankQuestions.isActive, true)
+      ))
+      .groupBy(questionBanks.id)
+      .orderBy(asc(questionBanks.name));
+    return rows.map(row => ({ ...row.bank, questionCount: row.questionCount }));
+  }
+
+  async getQuestionBank(bankId: string): Promise<QuestionBank | undefined> {
+    const [bank] = await db.select().from(questionBanks).where(eq(questionBanks.id, bankId));
+    return bank;
+  }
+
+  async createQuestionBank(bank: InsertQuestionBank): Promise<QuestionBank> {
+    const [created] = await db.insert(questionBanks).values(bank).returning();
+    return created;
+  }
+
+  async updateQuestionBank(bankId: string, updates: Partial<InsertQuestionBank>): Promise<QuestionBank> {
+    const [updated] = await db
+      .update(questionBanks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(questionBanks.id, bankId))
+      .returning();
+    return updated;
+  }
+
+  // Questions cascade with the bank; attempts keep their frozen copies
+  async deleteQuestionBank(bankId: string): Promise<void> {
+    await db.delete(questionBanks).where(eq(questionBanks.id, bankId));
+  }
+
+  async getQuestionBankQuestions(bankId: string): Promise<QuestionBankQuestion[]> {
+    return await db
+      .select()
+      .from(questionBankQuestions)
+      .where(eq(questionBankQuestions.bankId, bankId))
+      .orderBy(asc(questionBankQuestions.createdAt));
+  }
+
+  async getQuestionBankQuestion(questionId: string): Promise<QuestionBankQuestion | undefined> {
+    const [question] = await db.select().from(questionBankQuestions).where(eq(questionBankQuestions.id, questionId));
+    return question;
+  }
+
+  async createQuestionBankQuestions(questions: InsertQuestionBankQuestion[]): Promise<QuestionBankQuestion[]> {
+    if (questions.length === 0) return [];
+    return await db.insert(questionBankQuestions).values(questions).returning();
+  }
+
+  async updateQuestionBankQuestion(questionId: string, updates: Partial<InsertQuestionBankQuestion>): Promise<QuestionBankQuestion> {
+    const [updated] = await db
+      .update(questionBankQuestions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(questionBankQuestions.id, questionId))
+      .returning();
+    return updated;
+  }
+
+  async deleteQuestionBankQuestion(questionId: string): Promise<void> {
+    await db.delete(questionBankQuestions).where(eq(questionBankQuestions.id, questionId));
+  }
+
+  async getQuizDrawRules(quizId: string): Promise<QuizDrawRule[]> {
+    return await db
+      .select()
+      .from(quizDrawRules)
+      .where(eq(quizDrawRules.quizId, quizId))
+      .orderBy(asc(quizDrawRules.orderIndex));
+  }
+
+  async getQuizDrawRulesForBank(bankId: string): Promise<QuizDrawRule[]> {
+    return await db.select().from(quizDrawRules).where(eq(quizDrawRules.bankId, bankId));
+  }
+
+  async getQuizDrawRuleAvailability(quizId: string): Promise<QuizDrawRuleAvailability[]> {
+    const rules = await this.getQuizDrawRules(quizId);
+    const candidatesByBank = await this.getDrawCandidatesByBank(rules.map(rule => rule.bankId));
+    return rules.map(rule => ({
+      ...rule,
+      availableCount: filterDrawCandidates(rule, candidatesByBank.get(rule.bankId) ?? []).length,
+    }));
+  }
+
+  async replaceQuizDrawRules(quizId: string, rules: InsertQuizDrawRule[]): Promise<QuizDrawRule[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(quizDrawRules).where(eq(quizDrawRules.quizId, quizId));
+      if (rules.length === 0) return [];
+      return await tx
+        .insert(quizDrawRules)
+        .values(rules.map((rule, index) => ({ ...rule, quizId, orderIndex: index })))
+        .returning();
+    });
+  }
+
   // LMS - Enrollments and Progress (stub implementations)
   async enrollUser(enrollment: InsertEnrollment): Promise<Enrollment> {
-    const [created] = await db.insert(enrollments).values(enrollment).returning();
-    return created;
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(enrollments).values(enrollment).returning();
+      await this.emitDomainEvents(tx, [domainEvent({
+        eventType: "enrollment.created",
+        aggregateType: "enrollment",
+        aggregateId: created.id,
+        userId: created.userId,
+        payload: { enrollmentId: created.id, userId: created.userId, courseVersionId: created.courseVersionId },
+      })]);
+      return created;
+    });
   }
 
   async getUserEnrollments(userId: string): Promise<Enrollment[]> {
@@ -4325,15 +6990,41 @@ export class DatabaseStorage implements IStorage {
 
   async completeEnrollment(enrollmentId: string): Promise<Enrollment> {
     const now = new Date();
-    const [updated] = await db
-      .update(enrollments)
-      .set({ 
-        status: "completed", 
-        completedAt: now, 
-        progress: 100 
-      })
-      .where(eq(enrollments.id, enrollmentId))
-      .returning();
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(enrollments)
+        .set({ 
+          status: "completed", 
+          completedAt: now, 
+          progress: 100 
+        })
+        .where(eq(enrollments.id, enrollmentId))
+        .returning();
+      if (row) {
+        await this.emitDomainEvents(tx, [domainEvent({
+          eventType: "enrollment.completed",
+          aggregateType: "enrollment",
+          aggregateId: row.id,
+          userId: row.userId,
+          payload: { enrollmentId: row.id, userId: row.userId, courseVersionId: row.courseVersionId, completedAt: now.toISOString() },
+        })]);
+      }
+      return row;
+    });
+
+    if (updated) {
+      await this.emitXapiStatements(updated.userId, async (actor) => [
+        buildLearningStatement({
+          actor,
+          verb: "completed",
+          object: await this.getXapiCourseActivity(updated.courseVersionId),
+          result: { completion: true },
+          registration: enrollmentId,
+          timestamp: now,
+        }),
+      ]);
+    }
+
     return updated;
   }
 
@@ -4533,6 +7224,20 @@ export class DatabaseStorage implements IStorage {
       // Sync Training Matrix for incremental progress (lesson completion)
       await this.syncTrainingMatrixOnLessonCompletion(enrollmentId, lessonId, lesson);
 
+      const enrollment = await this.getEnrollment(enrollmentId);
+      if (enrollment) {
+        await this.emitXapiStatements(enrollment.userId, async (actor) => [
+          buildLearningStatement({
+            actor,
+            verb: "experienced",
+            object: buildXapiActivity("lesson", lessonId, lesson.title),
+            result: { completion: true },
+            registration: enrollmentId,
+            parent: [await this.getXapiCourseActivity(enrollment.courseVersionId)],
+          }),
+        ]);
+      }
+
       return { success: true, message: "Lesson marked as complete!" };
     } catch (error) {
       console.error("Error completing lesson manually:", error);
@@ -4540,6 +7245,151 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // LMS - SCORM
+  async createScormPackage(scormPackage: InsertScormPackage & { id?: string }): Promise<ScormPackage> {
+    const [created] = await db.insert(scormPackages).values(scormPackage).returning();
+    return created;
+  }
+
+  async getScormPackage(packageId: string): Promise<ScormPackage | undefined> {
+    const [scormPackage] = await db.select().from(scormPackages).where(eq(scormPackages.id, packageId));
+    return scormPackage;
+  }
+
+  // Persists a runtime commit. A lesson that is already completed stays completed even if the
+  // SCO is relaunched and reports "incomplete" again.
+  async updateLessonProgressFromScorm(enrollmentId: string, lessonId: string, update: ScormProgressUpdate): Promise<LessonProgress> {
+    const existingProgress = await this.getLessonProgress(enrollmentId, lessonId);
+    const alreadyCompleted = existingProgress?.status === "completed";
+    const completedNow = update.completed && !alreadyCompleted;
+
+    const values = {
+      scormCmiData: update.scormCmiData,
+      scormLessonStatus: update.scormLessonStatus,
+      scormScore: update.scormScore,
+      scormSuspendData: update.scormSuspendData,
+      scormLessonLocation: update.scormLessonLocation,
+      status: alreadyCompleted || update.completed ? "completed" as const : "in_progress" as const,
+      progressPercentage: alreadyCompleted ? 100 : update.progressPercentage,
+      timeSpent: (existingProgress?.timeSpent ?? 0) + update.sessionTimeSeconds,
+      ...(completedNow ? { completionMethod: "scorm" as const, completedAt: new Date() } : {}),
+    };
+
+    let saved: LessonProgress;
+    if (existingProgress) {
+      [saved] = await db
+        .update(lessonProgress)
+        .set({ ...values, updatedAt: new Date() })
+        .where(and(
+          eq(lessonProgress.enrollmentId, enrollmentId),
+          eq(lessonProgress.lessonId, lessonId)
+        ))
+        .returning();
+    } else {
+      [saved] = await db
+        .insert(lessonProgress)
+        .values({ enrollmentId, lessonId, ...values })
+        .returning();
+    }
+
+    if (completedNow) {
+      const lesson = await this.getLesson(lessonId);
+      if (lesson) {
+        await this.syncTrainingMatrixOnLessonCompletion(enrollmentId, lessonId, lesson);
+      }
+    }
+
+    return saved;
+  }
+
+  // LMS - xAPI Learning Record Store
+  async createXapiStatements(records: InsertXapiStatementRecord[]): Promise<XapiStatementRecord[]> {
+    if (records.length === 0) return [];
+    return await db.insert(xapiStatements).values(records).returning();
+  }
+
+  async getXapiStatement(statementId: string): Promise<XapiStatementRecord | undefined> {
+    const [statement] = await db.select().from(xapiStatements).where(eq(xapiStatements.id, statementId));
+    return statement;
+  }
+
+  // Voided statements are never returned by a filtered query, as required by the xAPI spec
+  async getXapiStatements(filters: XapiStatementFilters): Promise<XapiStatementRecord[]> {
+    const conditions = [eq(xapiStatements.voided, false)];
+    if (filters.actorKey) conditions.push(eq(xapiStatements.actorKey, filters.actorKey));
+    if (filters.verbId) conditions.push(eq(xapiStatements.verbId, filters.verbId));
+    if (filters.objectId) conditions.push(eq(xapiStatements.objectId, filters.objectId));
+    if (filters.registration) conditions.push(eq(xapiStatements.registration, filters.registration));
+    if (filters.since) conditions.push(sql`${xapiStatements.stored} > ${filters.since}`);
+    if (filters.until) conditions.push(lte(xapiStatements.stored, filters.until));
+
+    return await db
+      .select()
+      .from(xapiStatements)
+      .where(and(...conditions))
+      .orderBy(filters.ascending ? asc(xapiStatements.stored) : desc(xapiStatements.stored), asc(xapiStatements.id))
+      .limit(filters.limit)
+      .offset(filters.offset);
+  }
+
+  async voidXapiStatement(statementId: string, voidedByStatementId: string): Promise<void> {
+    await db
+      .update(xapiStatements)
+      .set({ voided: true, voidedByStatementId })
+      .where(eq(xapiStatements.id, statementId));
+  }
+
+  async getDueXapiStatementForwards(limit: number): Promise<XapiStatementRecord[]> {
+    return await db
+      .select()
+      .from(xapiStatements)
+      .where(and(
+        eq(xapiStatements.forwardStatus, "pending"),
+        lte(xapiStatements.nextForwardAt, new Date())
+      ))
+      .orderBy(asc(xapiStatements.stored))
+      .limit(limit);
+  }
+
+  async updateXapiStatementForwarding(
+    statementIds: string[],
+    updates: Partial<Pick<XapiStatementRecord, "forwardStatus" | "forwardAttempts" | "nextForwardAt" | "forwardedAt" | "lastForwardError">>,
+  ): Promise<void> {
+    if (statementIds.length === 0) return;
+    await db.update(xapiStatements).set(updates).where(inArray(xapiStatements.id, statementIds));
+  }
+
+  // Outbox rows go in the caller's transaction, so an event is recorded exactly when its change commits
+  private async emitDomainEvents(tx: DbTransaction, events: NewDomainEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    await tx.insert(domainEvents).values(events);
+  }
+
+  // Records statements for a learner's activity. Failures are logged, never surfaced: a missing
+  // statement must not stop a learner from completing a lesson.
+  private async emitXapiStatements(userId: string, build: (actor: XapiAgent) => Promise<XapiStatement[]>): Promise<void> {
+    try {
+      const user = await this.getUser(userId);
+      if (!user) return;
+      const statements = await build(buildXapiActor(user));
+      const authority = getXapiLmsAuthority();
+      await this.createXapiStatements(statements.map(statement =>
+        toXapiStatementRecord(statement, { source: "internal", authority, userId })
+      ));
+    } catch (error) {
+      console.error(`[XAPI] Failed to record statements for user ${userId}:`, error);
+    }
+  }
+
+  private async getXapiCourseActivity(courseVersionId: string): Promise<XapiActivity> {
+    const [course] = await db
+      .select({ id: courses.id, title: courses.title })
+      .from(courseVersions)
+      .innerJoin(courses, eq(courseVersions.courseId, courses.id))
+      .where(eq(courseVersions.id, courseVersionId));
+    return buildXapiActivity("course", course?.id ?? courseVersionId, course?.title);
+  }
+
   // Real-time Training Matrix Sync - updates training matrix for learning progress events
   private async syncTrainingMatrixOnLessonCompletion(
     enrollmentId: string, 
@@ -4668,99 +7518,648 @@ export class DatabaseStorage implements IStorage {
               });
             }
 
-            // Create audit trail entry
-            await this.createCompetencyStatusHistory({
-              userId,
-              competencyLibraryId: competency.id,
-              previousStatus: currentRecord?.currentStatus || "not_started",
-              newStatus,
-              statusChangeReason: `Learning progress sync - ${stepType}`,
-              evidenceType: "learning_path_progress",
-              evidenceData: {
-                learningPathId,
-                stepType,
-                progressData,
-                triggeredBy: "real_time_sync"
-              },
-              changedBy: userId
-            });
+            // Create audit trail entry
+            await this.createCompetencyStatusHistory({
+              userId,
+              competencyLibraryId: competency.id,
+              previousStatus: currentRecord?.currentStatus || "not_started",
+              newStatus,
+              statusChangeReason: `Learning progress sync - ${stepType}`,
+              evidenceType: "learning_path_progress",
+              evidenceData: {
+                learningPathId,
+                stepType,
+                progressData,
+                triggeredBy: "real_time_sync"
+              },
+              changedBy: userId
+            });
+
+            statusUpdates.push(`${competency.competencyName || competency.id}: ${currentRecord?.currentStatus || "not_started"} → ${newStatus}`);
+            syncedCompetencies++;
+
+            // Log audit trail for ISO compliance
+            console.log(`[AUDIT] Training Matrix sync - User ${userId}, Competency ${competency.id} (${competency.competencyName || 'Unknown'}): ${currentRecord?.currentStatus || "not_started"} → ${newStatus} via ${stepType}`);
+          }
+        } catch (error: any) {
+          errors.push(`Failed to sync competency ${competency.id}: ${error.message}`);
+        }
+      }
+
+      return { 
+        syncedCompetencies, 
+        statusUpdates, 
+        errors: errors.length > 0 ? errors : undefined 
+      };
+    } catch (error: any) {
+      errors.push(`Training Matrix sync failed: ${error.message}`);
+      return { syncedCompetencies: 0, statusUpdates: [], errors };
+    }
+  }
+
+  // Enhanced server-side validation for completion eligibility (security critical)
+  async validateCompletionEligibility(enrollmentId: string, lessonId: string, clientData: {
+    progressPercentage: number;
+    timeSpent: number;
+    durationSeconds?: number | null;
+  }): Promise<{ eligible: boolean; reason?: string }> {
+    try {
+      // Get stored lesson progress
+      const progress = await this.getLessonProgress(enrollmentId, lessonId);
+      
+      if (!progress) {
+        return { eligible: false, reason: "No progress found for this lesson" };
+      }
+
+      // Server-side 90% validation using stored progressPercentage (consistent with manual completion)
+      const storedProgress = progress.progressPercentage || 0;
+      if (storedProgress < 90) {
+        return { 
+          eligible: false, 
+          reason: `Insufficient watched coverage: ${storedProgress}% (need 90%+)` 
+        };
+      }
+
+      // Additional validation: check time spent vs duration ratio for reasonableness
+      if (clientData.durationSeconds && clientData.durationSeconds > 0) {
+        const minExpectedTime = Math.floor(clientData.durationSeconds * 0.5); // At least 50% of video duration in time
+        if (clientData.timeSpent < minExpectedTime) {
+          return { 
+            eligible: false, 
+            reason: `Insufficient viewing time: ${clientData.timeSpent}s vs expected ${minExpectedTime}s minimum` 
+          };
+        }
+      }
+
+      return { eligible: true };
+    } catch (error) {
+      console.error("Error validating completion eligibility:", error);
+      return { eligible: false, reason: "Server validation error" };
+    }
+  }
+
+  // The template a new certificate prints with: the one assigned to its course or learning path, else the active
+  // default for its certificate type. Templates with auto-issue switched off are never picked.
+  private async findCertificateTemplateForIssue(tx: DbTransaction, certificate: InsertCertificate): Promise<CertificateTemplate | undefined> {
+    let assignment;
+    if (certificate.learningPathId) {
+      assignment = eq(certificateTemplateAssignments.learningPathId, certificate.learningPathId);
+    } else if (certificate.courseVersionId) {
+      const [version] = await tx.select({ courseId: courseVersions.courseId }).from(courseVersions).where(eq(courseVersions.id, certificate.courseVersionId));
+      if (version) assignment = eq(certificateTemplateAssignments.courseId, version.courseId);
+    }
+    const usable = and(eq(certificateTemplates.isActive, true), eq(certificateTemplates.autoIssue, true));
+
+    if (assignment) {
+      const [assigned] = await tx
+        .select({ template: certificateTemplates })
+        .from(certificateTemplateAssignments)
+        .innerJoin(certificateTemplates, eq(certificateTemplateAssignments.templateId, certificateTemplates.id))
+        .where(and(assignment, usable))
+        .limit(1);
+      if (assigned) return assigned.template;
+    }
+
+    const [fallback] = await tx
+      .select()
+      .from(certificateTemplates)
+      .where(and(eq(certificateTemplates.certificateType, certificate.certificateType ?? "course"), eq(certificateTemplates.isDefault, true), usable))
+      .limit(1);
+    return fallback;
+  }
+
+  // Records the matching template and, unless the caller set an expiry, applies the template's validity period
+  private async applyCertificateTemplate(tx: DbTransaction, certificate: InsertCertificate): Promise<InsertCertificate> {
+    if (certificate.templateId !== undefined) return certificate;
+    const template = await this.findCertificateTemplateForIssue(tx, certificate);
+    if (!template) return certificate;
+    return {
+      ...certificate,
+      templateId: template.id,
+      expiresAt: certificate.expiresAt !== undefined
+        ? certificate.expiresAt
+        : template.validityPeriod ? new Date(Date.now() + template.validityPeriod * 24 * 60 * 60 * 1000) : null,
+    };
+  }
+
+  // LMS - Certificates and Badges (stub implementations)
+  async issueCertificate(certificate: InsertCertificate): Promise<Certificate> {
+    return await db.transaction(async (tx) => {
+      const issued = { ...certificate, verificationHash: certificate.verificationHash ?? randomUUID() };
+      const [created] = await tx.insert(certificates).values(await this.applyCertificateTemplate(tx, issued)).returning();
+      await this.emitDomainEvents(tx, [certificateIssuedEvent(created)]);
+      return created;
+    });
+  }
+
+  async getUserCertificates(userId: string): Promise<Certificate[]> {
+    return await db.select().from(certificates).where(eq(certificates.userId, userId));
+  }
+
+  async getCertificate(certificateId: string): Promise<Certificate | undefined> {
+    const [certificate] = await db.select().from(certificates).where(eq(certificates.id, certificateId));
+    return certificate;
+  }
+
+  async getCertificateByNumber(certificateNumber: string): Promise<Certificate | undefined> {
+    const [certificate] = await db.select().from(certificates).where(eq(certificates.certificateNumber, certificateNumber));
+    return certificate;
+  }
+
+  // Revoking a certificate removes the evidence behind any competency it satisfied, so matching
+  // "competent" training matrix records drop to non_compliant unless another valid certificate
+  // for the same course or learning path still backs them.
+  private async cascadeCertificateRevocation(tx: DbTransaction, certificate: Certificate, reason: string, revokedBy: string): Promise<number> {
+    let pathIds: string[] = [];
+    let courseId: string | undefined;
+
+    if (certificate.learningPathId) {
+      pathIds = [certificate.learningPathId];
+    } else if (certificate.courseVersionId) {
+      const [version] = await tx.select().from(courseVersions).where(eq(courseVersions.id, certificate.courseVersionId));
+      courseId = version?.courseId;
+      if (courseId) {
+        const steps = await tx
+          .select({ pathId: learningPathSteps.pathId })
+          .from(learningPathSteps)
+          .where(and(
+            eq(learningPathSteps.resourceId, courseId),
+            eq(learningPathSteps.stepType, "course"),
+            isNull(learningPathSteps.deletedAt)
+          ));
+        pathIds = Array.from(new Set(steps.map(step => step.pathId)));
+      }
+    }
+    if (pathIds.length === 0) return 0;
+
+    // Another valid certificate for the same course or path keeps the competency backed
+    const now = new Date();
+    const otherValid = await tx
+      .select({ id: certificates.id })
+      .from(certificates)
+      .leftJoin(courseVersions, eq(certificates.courseVersionId, courseVersions.id))
+      .where(and(
+        eq(certificates.userId, certificate.userId),
+        ne(certificates.id, certificate.id),
+        isNull(certificates.revokedAt),
+        or(isNull(certificates.expiresAt), gte(certificates.expiresAt, now)),
+        certificate.learningPathId
+          ? eq(certificates.learningPathId, certificate.learningPathId)
+          : eq(courseVersions.courseId, courseId!)
+      ))
+      .limit(1);
+    if (otherValid.length > 0) return 0;
+
+    const competencies = await tx
+      .select()
+      .from(competencyLibrary)
+      .where(sql`${competencyLibrary.linkedLearningPaths} && ${sql`ARRAY[${sql.join(pathIds.map(id => sql`${id}`), sql`, `)}]::text[]`}`);
+    if (competencies.length === 0) return 0;
+
+    const records = await tx
+      .select()
+      .from(trainingMatrixRecords)
+      .where(and(
+        eq(trainingMatrixRecords.userId, certificate.userId),
+        inArray(trainingMatrixRecords.competencyLibraryId, competencies.map(c => c.id)),
+        eq(trainingMatrixRecords.currentStatus, "competent")
+      ));
+
+    for (const record of records) {
+      const note = `Certificate ${certificate.certificateNumber} revoked: ${reason}`;
+      await tx
+        .update(trainingMatrixRecords)
+        .set({
+          currentStatus: "non_compliant",
+          riskLevel: "high",
+          nextActionRequired: "Retraining required - supporting certificate revoked",
+          complianceNotes: record.complianceNotes ? `${record.complianceNotes}\n${note}` : note,
+          updatedBy: revokedBy,
+          updatedAt: now
+        })
+        .where(eq(trainingMatrixRecords.id, record.id));
+
+      const [history] = await tx.insert(competencyStatusHistory).values({
+        userId: certificate.userId,
+        competencyLibraryId: record.competencyLibraryId,
+        previousStatus: record.currentStatus,
+        newStatus: "non_compliant",
+        statusChangeReason: note,
+        changedBy: revokedBy
+      }).returning();
+      await this.emitDomainEvents(tx, [competencyStatusChangedEvent(history)]);
+
+      console.log(`[AUDIT] Training Matrix cascade - User ${certificate.userId}, Competency ${record.competencyLibraryId}: competent → non_compliant (certificate ${certificate.id} revoked)`);
+    }
+
+    return records.length;
+  }
+
+  private async revokeCertificateInTransaction(
+    tx: DbTransaction,
+    certificateId: string,
+    reason: string,
+    revokedBy: string,
+    audit: { bulkOperationId?: string; relatedCertificateId?: string; cascade: boolean }
+  ): Promise<{ certificate: Certificate; trainingMatrixUpdates: number } | undefined> {
+    const [certificate] = await tx
+      .update(certificates)
+      .set({ revokedAt: new Date(), revocationReason: reason, revokedBy })
+      .where(and(eq(certificates.id, certificateId), isNull(certificates.revokedAt)))
+      .returning();
+    if (!certificate) return undefined;
+
+    const trainingMatrixUpdates = audit.cascade
+      ? await this.cascadeCertificateRevocation(tx, certificate, reason, revokedBy)
+      : 0;
+
+    await tx.insert(certificateAuditLog).values({
+      certificateId,
+      action: "revoked",
+      reason,
+      performedBy: revokedBy,
+      relatedCertificateId: audit.relatedCertificateId,
+      bulkOperationId: audit.bulkOperationId,
+      trainingMatrixUpdates
+    });
+
+    await this.emitDomainEvents(tx, [domainEvent({
+      eventType: "certificate.revoked",
+      aggregateType: "certificate",
+      aggregateId: certificate.id,
+      userId: certificate.userId,
+      actorId: revokedBy,
+      payload: {
+        certificateId: certificate.id,
+        userId: certificate.userId,
+        certificateNumber: certificate.certificateNumber,
+        title: certificate.title,
+        reason,
+        replacedByCertificateId: audit.relatedCertificateId ?? null,
+      },
+    })]);
+
+    return { certificate, trainingMatrixUpdates };
+  }
+
+  async revokeCertificate(certificateId: string, reason: string, revokedBy: string): Promise<{ certificate: Certificate; trainingMatrixUpdates: number }> {
+    const result = await db.transaction(async (tx) => {
+      return await this.revokeCertificateInTransaction(tx, certificateId, reason, revokedBy, { cascade: true });
+    });
+    if (!result) {
+      throw new Error("Certificate not found or already revoked");
+    }
+    return result;
+  }
+
+  // Revokes the original and issues a replacement under a new number; no matrix cascade since the holder stays certified
+  async reissueCertificate(certificateId: string, reason: string, reissuedBy: string, expiresAt?: Date | null): Promise<{ original: Certificate; reissued: Certificate }> {
+    return await db.transaction(async (tx) => {
+      const [source] = await tx.select().from(certificates).where(eq(certificates.id, certificateId));
+      if (!source || source.revokedAt) {
+        throw new Error("Certificate not found or already revoked");
+      }
+
+      const [reissued] = await tx
+        .insert(certificates)
+        .values({
+          userId: source.userId,
+          courseVersionId: source.courseVersionId,
+          trainingRecordId: source.trainingRecordId,
+          learningPathId: source.learningPathId,
+          certificateType: source.certificateType,
+          title: source.title,
+          certificateNumber: `${source.certificateType === "learning_path" ? "LP" : "CERT"}-${Date.now()}-R${Math.random().toString(36).substr(2, 5).toUpperCase()}`,
+          expiresAt: expiresAt === undefined ? source.expiresAt : expiresAt,
+          verificationHash: randomUUID(),
+          reissuedFromCertificateId: source.id,
+          templateId: source.templateId,
+          metadata: { ...(source.metadata as Record<string, any> | null), reissueReason: reason }
+        })
+        .returning();
+
+      // learningPathEnrollmentId is unique, so it moves from the original to the replacement
+      if (source.learningPathEnrollmentId) {
+        await tx.update(certificates).set({ learningPathEnrollmentId: null }).where(eq(certificates.id, source.id));
+        await tx.update(certificates).set({ learningPathEnrollmentId: source.learningPathEnrollmentId }).where(eq(certificates.id, reissued.id));
+      }
+
+      const revoked = await this.revokeCertificateInTransaction(tx, source.id, `Reissued as ${reissued.certificateNumber}: ${reason}`, reissuedBy, {
+        relatedCertificateId: reissued.id,
+        cascade: false
+      });
+
+      await tx.insert(certificateAuditLog).values({
+        certificateId: reissued.id,
+        action: "issued_as_replacement",
+        reason,
+        performedBy: reissuedBy,
+        relatedCertificateId: source.id
+      });
+      await this.emitDomainEvents(tx, [certificateIssuedEvent(reissued, reissuedBy)]);
+
+      return { original: revoked!.certificate, reissued };
+    });
+  }
+
+  async bulkRevokeCertificatesByCourseVersion(courseVersionId: string, reason: string, revokedBy: string): Promise<{
+    bulkOperationId: string;
+    revoked: Certificate[];
+    trainingMatrixUpdates: number;
+  }> {
+    const bulkOperationId = randomUUID();
+
+    return await db.transaction(async (tx) => {
+      const active = await tx
+        .select({ id: certificates.id })
+        .from(certificates)
+        .where(and(eq(certificates.courseVersionId, courseVersionId), isNull(certificates.revokedAt)));
+
+      const revoked: Certificate[] = [];
+      let trainingMatrixUpdates = 0;
+      for (const { id } of active) {
+        const result = await this.revokeCertificateInTransaction(tx, id, reason, revokedBy, { bulkOperationId, cascade: true });
+        if (result) {
+          revoked.push(result.certificate);
+          trainingMatrixUpdates += result.trainingMatrixUpdates;
+        }
+      }
+
+      return { bulkOperationId, revoked, trainingMatrixUpdates };
+    });
+  }
+
+  async getCertificateAuditLog(certificateId: string): Promise<CertificateAuditLog[]> {
+    return await db
+      .select()
+      .from(certificateAuditLog)
+      .where(eq(certificateAuditLog.certificateId, certificateId))
+      .orderBy(desc(certificateAuditLog.createdAt));
+  }
+
+  async getIssuedCertificates(query: IssuedCertificateQuery, now: Date = new Date()): Promise<IssuedCertificateSummary[]> {
+    const status = sql<IssuedCertificateStatus>`CASE WHEN ${certificates.revokedAt} IS NOT NULL THEN 'revoked' WHEN ${certificates.expiresAt} < ${now.toISOString()} THEN 'expired' ELSE 'active' END`;
+    const conditions = [];
+    if (query.search) {
+      const pattern = `%${query.search}%`;
+      conditions.push(or(
+        ilike(users.firstName, pattern),
+        ilike(users.lastName, pattern),
+        ilike(users.email, pattern),
+        ilike(certificates.certificateNumber, pattern),
+        ilike(certificates.title, pattern)
+      ));
+    }
+    if (query.status) conditions.push(sql`${status} = ${query.status}`);
+    if (query.certificateType) conditions.push(eq(certificates.certificateType, query.certificateType));
+    if (query.templateId) conditions.push(eq(certificates.templateId, query.templateId));
+
+    const rows = await db
+      .select({
+        certificate: certificates,
+        status,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        templateName: certificateTemplates.name,
+      })
+      .from(certificates)
+      .leftJoin(users, eq(certificates.userId, users.id))
+      .leftJoin(certificateTemplates, eq(certificates.templateId, certificateTemplates.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(certificates.issuedAt))
+      .limit(query.limit);
+
+    return rows.map(row => ({
+      ...row.certificate,
+      status: row.status,
+      user: { firstName: row.firstName, lastName: row.lastName, email: row.email },
+      template: row.certificate.templateId && row.templateName ? { id: row.certificate.templateId, name: row.templateName } : null,
+    }));
+  }
+
+  async getCertificateIssuanceAnalytics(now: Date, months: number): Promise<CertificateIssuanceAnalytics> {
+    const expiredBefore = now.toISOString();
+    const counts = {
+      issued: sql<number>`count(*)::int`,
+      active: sql<number>`(count(*) FILTER (WHERE ${certificates.revokedAt} IS NULL AND (${certificates.expiresAt} IS NULL OR ${certificates.expiresAt} >= ${expiredBefore})))::int`,
+      expired: sql<number>`(count(*) FILTER (WHERE ${certificates.revokedAt} IS NULL AND ${certificates.expiresAt} < ${expiredBefore}))::int`,
+      revoked: sql<number>`(count(*) FILTER (WHERE ${certificates.revokedAt} IS NOT NULL))::int`,
+    };
 
-            statusUpdates.push(`${competency.competencyName || competency.id}: ${currentRecord?.currentStatus || "not_started"} → ${newStatus}`);
-            syncedCompetencies++;
+    const [totals] = await db.select(counts).from(certificates);
 
-            // Log audit trail for ISO compliance
-            console.log(`[AUDIT] Training Matrix sync - User ${userId}, Competency ${competency.id} (${competency.competencyName || 'Unknown'}): ${currentRecord?.currentStatus || "not_started"} → ${newStatus} via ${stepType}`);
-          }
-        } catch (error: any) {
-          errors.push(`Failed to sync competency ${competency.id}: ${error.message}`);
-        }
-      }
+    const byTemplate = await db
+      .select({ templateId: certificates.templateId, templateName: certificateTemplates.name, ...counts })
+      .from(certificates)
+      .leftJoin(certificateTemplates, eq(certificates.templateId, certificateTemplates.id))
+      .groupBy(certificates.templateId, certificateTemplates.name)
+      .orderBy(desc(sql`count(*)`));
 
-      return { 
-        syncedCompetencies, 
-        statusUpdates, 
-        errors: errors.length > 0 ? errors : undefined 
+    const byCourse = await db
+      .select({ courseId: courses.id, courseTitle: courses.title, ...counts })
+      .from(certificates)
+      .innerJoin(courseVersions, eq(certificates.courseVersionId, courseVersions.id))
+      .innerJoin(courses, eq(courseVersions.courseId, courses.id))
+      .groupBy(courses.id, courses.title)
+      .orderBy(desc(sql`count(*)`))
+      .limit(25);
+
+    const byLearningPath = await db
+      .select({ learningPathId: learningPaths.id, learningPathTitle: learningPaths.title, ...counts })
+      .from(certificates)
+      .innerJoin(learningPaths, eq(certificates.learningPathId, learningPaths.id))
+      .groupBy(learningPaths.id, learningPaths.title)
+      .orderBy(desc(sql`count(*)`))
+      .limit(25);
+
+    // Calendar months in UTC, including the current one
+    const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1));
+    const month = sql<string>`to_char(date_trunc('month', ${certificates.issuedAt}), 'YYYY-MM')`;
+    const monthRows = await db
+      .select({ month, issued: sql<number>`count(*)::int` })
+      .from(certificates)
+      .where(gte(certificates.issuedAt, since))
+      .groupBy(month);
+    const issuedByMonth = new Map(monthRows.map(row => [row.month, row.issued]));
+    const byMonth = Array.from({ length: months }, (_, index) => {
+      const start = new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth() + index, 1));
+      const key = `${start.getUTCFullYear()}-${String(start.getUTCMonth() + 1).padStart(2, "0")}`;
+      return { month: key, issued: issuedByMonth.get(key) ?? 0 };
+    });
+
+    return {
+      ...totals,
+      issueRate: Math.round((byMonth.reduce((sum, entry) => sum + entry.issued, 0) / months) * 10) / 10,
+      byTemplate: byTemplate.map(row => ({ ...row, templateName: row.templateName ?? (row.templateId ? "Deleted template" : "Standard design") })),
+      byCourse,
+      byLearningPath,
+      byMonth,
+    };
+  }
+
+  // Certificate templates
+  private async withCertificateTemplateUsage(templates: CertificateTemplate[]): Promise<CertificateTemplateWithUsage[]> {
+    if (templates.length === 0) return [];
+    const templateIds = templates.map(template => template.id);
+    const expiredBefore = new Date().toISOString();
+
+    const usage = await db
+      .select({
+        templateId: certificates.templateId,
+        totalIssued: sql<number>`count(*)::int`,
+        expiredCertificates: sql<number>`(count(*) FILTER (WHERE ${certificates.revokedAt} IS NULL AND ${certificates.expiresAt} < ${expiredBefore}))::int`,
+        revokedCertificates: sql<number>`(count(*) FILTER (WHERE ${certificates.revokedAt} IS NOT NULL))::int`,
+      })
+      .from(certificates)
+      .where(inArray(certificates.templateId, templateIds))
+      .groupBy(certificates.templateId);
+    const usageByTemplate = new Map(usage.map(row => [row.templateId, row]));
+
+    const assignments = await db
+      .select()
+      .from(certificateTemplateAssignments)
+      .where(inArray(certificateTemplateAssignments.templateId, templateIds));
+
+    return templates.map(template => {
+      const counts = usageByTemplate.get(template.id);
+      const assigned = assignments.filter(assignment => assignment.templateId === template.id);
+      const totalIssued = counts?.totalIssued ?? 0;
+      const expiredCertificates = counts?.expiredCertificates ?? 0;
+      const revokedCertificates = counts?.revokedCertificates ?? 0;
+      return {
+        ...template,
+        usage: {
+          totalIssued,
+          activeCertificates: totalIssued - expiredCertificates - revokedCertificates,
+          expiredCertificates,
+          revokedCertificates,
+        },
+        courseIds: assigned.flatMap(assignment => assignment.courseId ? [assignment.courseId] : []),
+        learningPathIds: assigned.flatMap(assignment => assignment.learningPathId ? [assignment.learningPathId] : []),
       };
-    } catch (error: any) {
-      errors.push(`Training Matrix sync failed: ${error.message}`);
-      return { syncedCompetencies: 0, statusUpdates: [], errors };
-    }
+    });
   }
 
-  // Enhanced server-side validation for completion eligibility (security critical)
-  async validateCompletionEligibility(enrollmentId: string, lessonId: string, clientData: {
-    progressPercentage: number;
-    timeSpent: number;
-    durationSeconds?: number | null;
-  }): Promise<{ eligible: boolean; reason?: string }> {
-    try {
-      // Get stored lesson progress
-      const progress = await this.getLessonProgress(enrollmentId, lessonId);
-      
-      if (!progress) {
-        return { eligible: false, reason: "No progress found for this lesson" };
-      }
+  async getCertificateTemplates(): Promise<CertificateTemplateWithUsage[]> {
+    const templates = await db.select().from(certificateTemplates).orderBy(asc(certificateTemplates.name));
+    return await this.withCertificateTemplateUsage(templates);
+  }
 
-      // Server-side 90% validation using stored progressPercentage (consistent with manual completion)
-      const storedProgress = progress.progressPercentage || 0;
-      if (storedProgress < 90) {
-        return { 
-          eligible: false, 
-          reason: `Insufficient watched coverage: ${storedProgress}% (need 90%+)` 
-        };
-      }
+  async getCertificateTemplate(templateId: string): Promise<CertificateTemplateWithUsage | undefined> {
+    const [template] = await db.select().from(certificateTemplates).where(eq(certificateTemplates.id, templateId));
+    if (!template) return undefined;
+    const [withUsage] = await this.withCertificateTemplateUsage([template]);
+    return withUsage;
+  }
 
-      // Additional validation: check time spent vs duration ratio for reasonableness
-      if (clientData.durationSeconds && clientData.durationSeconds > 0) {
-        const minExpectedTime = Math.floor(clientData.durationSeconds * 0.5); // At least 50% of video duration in time
-        if (clientData.timeSpent < minExpectedTime) {
-          return { 
-            eligible: false, 
-            reason: `Insufficient viewing time: ${clientData.timeSpent}s vs expected ${minExpectedTime}s minimum` 
-          };
-        }
+  // Each certificate type has at most one default, so setting one clears the others
+  private async clearOtherDefaultCertificateTemplates(tx: DbTransaction, certificateType: string, keepTemplateId: string) {
+    await tx
+      .update(certificateTemplates)
+      .set({ isDefault: false, updatedAt: new Date() })
+      .where(and(
+        eq(certificateTemplates.certificateType, certificateType),
+        eq(certificateTemplates.isDefault, true),
+        ne(certificateTemplates.id, keepTemplateId)
+      ));
+  }
+
+  async createCertificateTemplate(template: InsertCertificateTemplate): Promise<CertificateTemplate> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(certificateTemplates).values(template).returning();
+      if (created.isDefault) {
+        await this.clearOtherDefaultCertificateTemplates(tx, created.certificateType, created.id);
       }
+      return created;
+    });
+  }
 
-      return { eligible: true };
-    } catch (error) {
-      console.error("Error validating completion eligibility:", error);
-      return { eligible: false, reason: "Server validation error" };
-    }
+  async updateCertificateTemplate(templateId: string, updates: Partial<InsertCertificateTemplate>): Promise<CertificateTemplate | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(certificateTemplates)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(certificateTemplates.id, templateId))
+        .returning();
+      if (updated?.isDefault) {
+        await this.clearOtherDefaultCertificateTemplates(tx, updated.certificateType, updated.id);
+      }
+      return updated;
+    });
   }
 
-  // LMS - Certificates and Badges (stub implementations)
-  async issueCertificate(certificate: InsertCertificate): Promise<Certificate> {
-    const [created] = await db.insert(certificates).values(certificate).returning();
-    return created;
+  async deleteCertificateTemplate(templateId: string): Promise<void> {
+    await db.delete(certificateTemplates).where(eq(certificateTemplates.id, templateId));
   }
 
-  async getUserCertificates(userId: string): Promise<Certificate[]> {
-    return await db.select().from(certificates).where(eq(certificates.userId, userId));
+  // Replaces the template's courses and learning paths. A course or path assigned elsewhere moves to this template.
+  async setCertificateTemplateAssignments(
+    templateId: string,
+    assignments: { courseIds: string[]; learningPathIds: string[] },
+    assignedBy: string
+  ): Promise<CertificateTemplateAssignment[]> {
+    const courseIds = Array.from(new Set(assignments.courseIds));
+    const learningPathIds = Array.from(new Set(assignments.learningPathIds));
+
+    return await db.transaction(async (tx) => {
+      await tx.delete(certificateTemplateAssignments).where(eq(certificateTemplateAssignments.templateId, templateId));
+      if (courseIds.length > 0) {
+        await tx.delete(certificateTemplateAssignments).where(inArray(certificateTemplateAssignments.courseId, courseIds));
+      }
+      if (learningPathIds.length > 0) {
+        await tx.delete(certificateTemplateAssignments).where(inArray(certificateTemplateAssignments.learningPathId, learningPathIds));
+      }
+
+      const values = [
+        ...courseIds.map(courseId => ({ templateId, courseId, assignedBy })),
+        ...learningPathIds.map(learningPathId => ({ templateId, learningPathId, assignedBy })),
+      ];
+      if (values.length === 0) return [];
+      return await tx.insert(certificateTemplateAssignments).values(values).returning();
+    });
   }
 
-  async getCertificate(certificateId: string): Promise<Certificate | undefined> {
-    const [certificate] = await db.select().from(certificates).where(eq(certificates.id, certificateId));
-    return certificate;
+  async getCertificateDetails(lookup: { certificateId?: string; certificateNumber?: string; verificationHash?: string }): Promise<CertificateDetails | undefined> {
+    const condition = lookup.certificateId
+      ? eq(certificates.id, lookup.certificateId)
+      : lookup.certificateNumber
+        ? eq(certificates.certificateNumber, lookup.certificateNumber)
+        : lookup.verificationHash
+          ? eq(certificates.verificationHash, lookup.verificationHash)
+          : undefined;
+    if (!condition) return undefined;
+
+    const [row] = await db
+      .select({
+        certificate: certificates,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        courseTitle: courses.title,
+        courseVersion: courseVersions.version,
+        learningPathTitle: learningPaths.title,
+      })
+      .from(certificates)
+      .leftJoin(users, eq(certificates.userId, users.id))
+      .leftJoin(courseVersions, eq(certificates.courseVersionId, courseVersions.id))
+      .leftJoin(courses, eq(courseVersions.courseId, courses.id))
+      .leftJoin(learningPaths, eq(certificates.learningPathId, learningPaths.id))
+      .where(condition)
+      .limit(1);
+
+    if (!row) return undefined;
+
+    const holderName = [row.firstName, row.lastName].filter(Boolean).join(' ') || row.email || 'Unknown holder';
+    return {
+      certificate: row.certificate,
+      holderName,
+      holderFirstName: row.firstName,
+      holderLastName: row.lastName,
+      courseTitle: row.courseTitle,
+      courseVersion: row.courseVersion,
+      learningPathTitle: row.learningPathTitle,
+    };
   }
 
   async createBadge(badge: InsertBadge, courseIds?: string[]): Promise<Badge> {
@@ -4863,8 +8262,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async awardUserBadge(userBadge: InsertUserBadge): Promise<UserBadge> {
-    const [created] = await db.insert(userBadges).values(userBadge).returning();
-    return created;
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(userBadges).values(userBadge).returning();
+      await this.emitDomainEvents(tx, [badgeAwardedEvent(created)]);
+      return created;
+    });
   }
 
   async getUserBadges(userId: string): Promise<UserBadge[]> {
@@ -6947,8 +10349,8 @@ export class DatabaseStorage implements IStorage {
         const verificationHash = randomUUID();
         
         // Auto-issue certificate for learning path completion (race-safe with upsert)
-        await tx.insert(certificates)
-          .values({
+        const [pathCertificate] = await tx.insert(certificates)
+          .values(await this.applyCertificateTemplate(tx, {
             userId: completedEnrollment.userId,
             learningPathId: learningPath.id,
             learningPathEnrollmentId: enrollmentId,
@@ -6963,8 +10365,12 @@ export class DatabaseStorage implements IStorage {
               completionDate: completedEnrollment.completionDate,
               autoGenerated: true
             }
-          })
-          .onConflictDoNothing({ target: certificates.learningPathEnrollmentId });
+          }))
+          .onConflictDoNothing({ target: certificates.learningPathEnrollmentId })
+          .returning();
+        if (pathCertificate) {
+          await this.emitDomainEvents(tx, [certificateIssuedEvent(pathCertificate)]);
+        }
       }
       
       // Real-time Training Matrix sync for learning path completion
@@ -7113,6 +10519,25 @@ export class DatabaseStorage implements IStorage {
       console.error("Error syncing training matrix on step completion:", error);
       // Don't throw to avoid breaking step completion
     }
+
+    await this.emitXapiStatements(completedProgress.userId, async (actor) => {
+      const step = await this.getLearningPathStep(stepId);
+      const path = step ? await this.getLearningPath(step.pathId) : undefined;
+      return [
+        buildLearningStatement({
+          actor,
+          verb: "completed",
+          object: buildXapiActivity("step", stepId, step?.title),
+          result: {
+            completion: true,
+            ...(score !== undefined && score !== null ? { score: buildXapiScore(score) } : {}),
+            ...(timeSpent ? { duration: toXapiDuration(timeSpent * 60) } : {}), // step time is tracked in minutes
+          },
+          registration: enrollmentId,
+          grouping: step ? [buildXapiActivity("learningPath", step.pathId, path?.title)] : undefined,
+        }),
+      ];
+    });
     
     return completedProgress;
   }
@@ -7865,6 +11290,50 @@ export class DatabaseStorage implements IStorage {
             }
           }
         }
+      } else if (USER_LIFECYCLE_TRIGGERS.includes(rule.triggerEvent) || LEARNER_ACTIVITY_TRIGGERS.includes(rule.triggerEvent)) {
+        // Onboarding, role/team moves and learner activity: enroll the user in the rule's learning paths if they match its conditions
+        const targetUserId = triggerData?.userId;
+        const targetUser = targetUserId ? await this.getUser(targetUserId) : undefined;
+        if (!targetUser) {
+          errors.push(`User required for ${rule.triggerEvent} trigger`);
+          return { executed: false, enrollments: 0, errors };
+        }
+
+        if (!(await this.userMatchesRuleConditions(targetUser, rule.conditions, errors))) {
+          return { executed: false, enrollments: 0, errors: errors.length > 0 ? errors : undefined };
+        }
+
+        const actions = Array.isArray(rule.actions) ? rule.actions as Array<{ type?: string; config?: Record<string, any> }> : [];
+        for (const action of actions) {
+          if (action.type !== "assign_learning_path") {
+            errors.push(`Action '${action.type}' not yet implemented for ${rule.triggerEvent}`);
+            continue;
+          }
+          const pathId = action.config?.pathId ?? action.config?.learningPathId;
+          if (!pathId) {
+            errors.push("assign_learning_path action has no pathId");
+            continue;
+          }
+          try {
+            const existingEnrollments = await this.getLearningPathEnrollments(targetUser.id, pathId);
+            if (existingEnrollments.length === 0) {
+              await this.enrollUserInLearningPath({
+                userId: targetUser.id,
+                pathId,
+                enrollmentSource: "automation_rule",
+                startDate: new Date(),
+                metadata: {
+                  automationRuleId: ruleId,
+                  triggerEvent: rule.triggerEvent,
+                  autoAssigned: true
+                }
+              });
+              enrollmentCount++;
+            }
+          } catch (error: any) {
+            errors.push(`Failed to enroll user ${targetUser.id} in path ${pathId}: ${error.message}`);
+          }
+        }
       } else {
         // Other trigger events can be implemented here
         errors.push(`Trigger event '${rule.triggerEvent}' not yet implemented`);
@@ -7888,6 +11357,48 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Evaluates role, team and department conditions against the user. Rules with no conditions match everyone;
+  // conditions on other fields can't be decided for a single user and fail the match.
+  private async userMatchesRuleConditions(user: User, conditions: unknown, errors: string[]): Promise<boolean> {
+    const group = (conditions ?? {}) as { logicalOperator?: string; conditions?: any[]; groups?: any[] };
+    const attributes = await this.getUserConditionAttributes(user);
+
+    const evaluateGroup = (current: typeof group): boolean | undefined => {
+      const results: boolean[] = [];
+      for (const condition of current.conditions ?? []) {
+        const values = attributes[condition.field as keyof typeof attributes];
+        if (!values) {
+          errors.push(`Condition on '${condition.field}' is not supported for user triggers`);
+          results.push(false);
+          continue;
+        }
+        results.push(matchesCondition(values, condition.operator, condition.value, errors));
+      }
+      for (const nested of current.groups ?? []) {
+        const result = evaluateGroup(nested);
+        if (result !== undefined) results.push(result);
+      }
+      if (results.length === 0) return undefined;
+      return current.logicalOperator === "OR" ? results.some(Boolean) : results.every(Boolean);
+    };
+
+    return evaluateGroup(group) ?? true;
+  }
+
+  // Each field matches on any of its ids, codes or names, lower-cased
+  private async getUserConditionAttributes(user: User): Promise<Record<"role" | "team" | "department", string[]>> {
+    const jobRole = user.jobRoleId ? await this.getJobRole(user.jobRoleId) : undefined;
+    const team = user.teamId ? await this.getTeam(user.teamId) : undefined;
+    const department = user.departmentId ? await this.getDepartment(user.departmentId) : undefined;
+    const present = (values: Array<string | null | undefined>) =>
+      values.filter((value): value is string => !!value).map(value => value.toLowerCase());
+    return {
+      role: present([user.role, user.jobRoleId, jobRole?.code, jobRole?.name, user.jobRole]),
+      team: present([user.teamId, team?.name]),
+      department: present([user.departmentId, department?.code, department?.name, team?.departmentId]),
+    };
+  }
+
   async executeAutomationRulesForUser(userId: string, triggerEvent: string): Promise<{ totalRules: number; executed: number; enrollments: number }> {
     // Get all active automation rules for this trigger event
     const allRules = await this.getAutomationRules(true);
@@ -8028,10 +11539,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createCompetencyStatusHistory(history: InsertCompetencyStatusHistory): Promise<CompetencyStatusHistory> {
-    const [record] = await db.insert(competencyStatusHistory)
-      .values(history)
-      .returning();
-    return record;
+    return await db.transaction(async (tx) => {
+      const [record] = await tx.insert(competencyStatusHistory)
+        .values(history)
+        .returning();
+      await this.emitDomainEvents(tx, [competencyStatusChangedEvent(record)]);
+      return record;
+    });
   }
 
   async getCompetencyEvidenceRecords(userId: string, competencyLibraryId?: string): Promise<CompetencyEvidenceRecord[]> {
@@ -9387,18 +12901,22 @@ export class DatabaseStorage implements IStorage {
   }
 
   async awardBadge(userId: string, badgeId: string, reason?: string, awardedBy?: string): Promise<UserBadge> {
-    const [userBadge] = await db
-      .insert(userBadges)
-      .values({
-        userId,
-        badgeId,
-        description: reason,
-        awardedBy: awardedBy || 'system'
-      })
-      .onConflictDoNothing({
-        target: [userBadges.userId, userBadges.badgeId]
-      })
-      .returning();
+    const userBadge = await db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(userBadges)
+        .values({
+          userId,
+          badgeId,
+          description: reason,
+          awardedBy: awardedBy || 'system'
+        })
+        .onConflictDoNothing({
+          target: [userBadges.userId, userBadges.badgeId]
+        })
+        .returning();
+      if (inserted) await this.emitDomainEvents(tx, [badgeAwardedEvent(inserted)]);
+      return inserted;
+    });
 
     // If no badge was inserted (already exists), return the existing one
     if (!userBadge) {
@@ -9648,6 +13166,61 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  // Time-Based Automation - Scheduler Job Leases
+  async acquireSchedulerJobLock(jobName: string, ownerId: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + leaseMs);
+
+    // Single atomic upsert: only takes the lease if nobody holds it or the previous lease has expired, even when the
+    // holder is this same instance
+    const acquired = await db.insert(schedulerJobLocks)
+      .values({ jobName, lockedBy: ownerId, lockedUntil, lastStartedAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: schedulerJobLocks.jobName,
+        set: { lockedBy: ownerId, lockedUntil, lastStartedAt: now, updatedAt: now },
+        setWhere: or(
+          lte(schedulerJobLocks.lockedUntil, now),
+          isNull(schedulerJobLocks.lockedBy)
+        ),
+      })
+      .returning();
+
+    return acquired.length > 0;
+  }
+
+  // Extends a lease the owner still holds; false once it has lost the lease
+  async renewSchedulerJobLock(jobName: string, ownerId: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    const renewed = await db.update(schedulerJobLocks)
+      .set({ lockedUntil: new Date(now.getTime() + leaseMs), updatedAt: now })
+      .where(and(
+        eq(schedulerJobLocks.jobName, jobName),
+        eq(schedulerJobLocks.lockedBy, ownerId)
+      ))
+      .returning({ jobName: schedulerJobLocks.jobName });
+    return renewed.length > 0;
+  }
+
+  async releaseSchedulerJobLock(jobName: string, ownerId: string, status: "completed" | "failed"): Promise<void> {
+    const now = new Date();
+    await db.update(schedulerJobLocks)
+      .set({
+        lockedBy: null,
+        lockedUntil: now,
+        lastCompletedAt: now,
+        lastStatus: status,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(schedulerJobLocks.jobName, jobName),
+        eq(schedulerJobLocks.lockedBy, ownerId)
+      ));
+  }
+
+  async getSchedulerJobLocks(): Promise<SchedulerJobLock[]> {
+    return await db.select().from(schedulerJobLocks).orderBy(asc(schedulerJobLocks.jobName));
+  }
+
   // ========================
   // AUTO-ASSIGNMENT ENGINE
   // ========================
@@ -10492,6 +14065,122 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Scheduled Reports
+  async getScheduledReports(): Promise<ScheduledReportWithLastRun[]> {
+    const reports = await db
+      .select()
+      .from(analyticsReports)
+      .where(isNotNull(analyticsReports.schedule))
+      .orderBy(asc(analyticsReports.title));
+    if (reports.length === 0) return [];
+
+    const lastRuns = await db
+      .selectDistinctOn([analyticsReportRuns.reportId])
+      .from(analyticsReportRuns)
+      .where(inArray(analyticsReportRuns.reportId, reports.map(report => report.id)))
+      .orderBy(analyticsReportRuns.reportId, desc(analyticsReportRuns.startedAt));
+    const lastRunByReport = new Map(lastRuns.map(run => [run.reportId, run]));
+    return reports.map(report => ({ ...report, lastRun: lastRunByReport.get(report.id) ?? null }));
+  }
+
+  async getAnalyticsReport(reportId: string): Promise<AnalyticsReport | undefined> {
+    const [report] = await db.select().from(analyticsReports).where(eq(analyticsReports.id, reportId));
+    return report;
+  }
+
+  async updateAnalyticsReport(reportId: string, updates: Partial<InsertAnalyticsReport>): Promise<AnalyticsReport | undefined> {
+    const [report] = await db
+      .update(analyticsReports)
+      .set(updates)
+      .where(eq(analyticsReports.id, reportId))
+      .returning();
+    return report;
+  }
+
+  async deleteAnalyticsReport(reportId: string): Promise<void> {
+    await db.delete(analyticsReports).where(eq(analyticsReports.id, reportId));
+  }
+
+  async getDueScheduledReports(now: Date, limit: number): Promise<AnalyticsReport[]> {
+    return await db
+      .select()
+      .from(analyticsReports)
+      .where(and(
+        eq(analyticsReports.isScheduled, true),
+        isNotNull(analyticsReports.nextRunAt),
+        lte(analyticsReports.nextRunAt, now)
+      ))
+      .orderBy(asc(analyticsReports.nextRunAt))
+      .limit(limit);
+  }
+
+  // Moves nextRunAt on only if nobody else has, so each due run is taken by one server
+  async claimScheduledReport(reportId: string, dueAt: Date, nextRunAt: Date | null): Promise<AnalyticsReport | undefined> {
+    const [claimed] = await db
+      .update(analyticsReports)
+      .set({ nextRunAt, lastRunAt: new Date() })
+      .where(and(
+        eq(analyticsReports.id, reportId),
+        eq(analyticsReports.isScheduled, true),
+        eq(analyticsReports.nextRunAt, dueAt)
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async createAnalyticsReportRun(run: InsertAnalyticsReportRun): Promise<AnalyticsReportRun> {
+    const [created] = await db.insert(analyticsReportRuns).values(run).returning();
+    return created;
+  }
+
+  async updateAnalyticsReportRun(runId: string, updates: Partial<InsertAnalyticsReportRun>): Promise<AnalyticsReportRun | undefined> {
+    const [updated] = await db
+      .update(analyticsReportRuns)
+      .set(updates)
+      .where(eq(analyticsReportRuns.id, runId))
+      .returning();
+    return updated;
+  }
+
+  async getAnalyticsReportRun(runId: string): Promise<AnalyticsReportRun | undefined> {
+    const [run] = await db.select().from(analyticsReportRuns).where(eq(analyticsReportRuns.id, runId));
+    return run;
+  }
+
+  async getAnalyticsReportRuns(reportId: string, limit: number = 50): Promise<AnalyticsReportRun[]> {
+    return await db
+      .select()
+      .from(analyticsReportRuns)
+      .where(eq(analyticsReportRuns.reportId, reportId))
+      .orderBy(desc(analyticsReportRuns.startedAt))
+      .limit(limit);
+  }
+
+  async getExpiredAnalyticsReportRuns(now: Date, limit: number): Promise<AnalyticsReportRun[]> {
+    return await db
+      .select()
+      .from(analyticsReportRuns)
+      .where(and(
+        isNotNull(analyticsReportRuns.artifactPath),
+        lte(analyticsReportRuns.expiresAt, now)
+      ))
+      .orderBy(asc(analyticsReportRuns.expiresAt))
+      .limit(limit);
+  }
+
+  // Runs left "running" by a server that stopped mid-way
+  async failStaleAnalyticsReportRuns(startedBefore: Date): Promise<number> {
+    const failed = await db
+      .update(analyticsReportRuns)
+      .set({ status: "failed", error: "The run was interrupted", completedAt: new Date() })
+      .where(and(
+        eq(analyticsReportRuns.status, "running"),
+        lte(analyticsReportRuns.startedAt, startedBefore)
+      ))
+      .returning({ id: analyticsReportRuns.id });
+    return failed.length;
+  }
+
   // Advanced Analytics Aggregations
   async getEngagementMetrics(filters: {
     userId?: string;
@@ -10597,6 +14286,19 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Oldest first from committed transactions, for the realtime relay (see getRealtimeRelayStart)
+  async getNotificationsAfter(after: RealtimeRelayCursor, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(
+        sql`(${notifications.txId}, ${notifications.seq}) > (${after.txId}::bigint, ${after.seq}::bigint)`,
+        sql`${notifications.txId} < pg_snapshot_xmin(pg_current_snapshot())::text::bigint`,
+      ))
+      .orderBy(asc(notifications.txId), asc(notifications.seq))
+      .limit(limit);
+  }
+
   async markNotificationAsRead(notificationId: string, userId: string): Promise<Notification> {
     const [result] = await db
       .update(notifications)
@@ -10699,14 +14401,21 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createN8nWebhookConfig(config: InsertN8nWebhookConfig): Promise<N8nWebhookConfig> {
-    const [result] = await db.insert(n8nWebhookConfigs).values(config).returning();
+    const [result] = await db
+      .insert(n8nWebhookConfigs)
+      .values({ ...config, signingSecret: generateWebhookSigningSecret() })
+      .returning();
     return result;
   }
 
   async updateN8nWebhookConfig(configId: string, updates: Partial<InsertN8nWebhookConfig>): Promise<N8nWebhookConfig> {
+    // Re-enabling a webhook clears any failure state recorded by the delivery queue
+    const reactivation = updates.isActive === true
+      ? { consecutiveFailures: 0, autoDeactivatedAt: null, deactivationReason: null }
+      : {};
     const [result] = await db
       .update(n8nWebhookConfigs)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...updates, ...reactivation, updatedAt: new Date() })
       .where(eq(n8nWebhookConfigs.id, configId))
       .returning();
     
@@ -10725,11 +14434,49 @@ export class DatabaseStorage implements IStorage {
     return this.updateN8nWebhookConfig(configId, { isActive: false });
   }
 
+  async autoDeactivateWebhookConfig(configId: string, reason: string): Promise<N8nWebhookConfig> {
+    const [result] = await db
+      .update(n8nWebhookConfigs)
+      .set({
+        isActive: false,
+        autoDeactivatedAt: new Date(),
+        deactivationReason: reason,
+        updatedAt: new Date()
+      })
+      .where(eq(n8nWebhookConfigs.id, configId))
+      .returning();
+    
+    return result;
+  }
+
+  async rotateWebhookSigningSecret(configId: string, gracePeriodMs: number): Promise<N8nWebhookConfig | undefined> {
+    const config = await this.getN8nWebhookConfig(configId);
+    if (!config) return undefined;
+
+    const now = new Date();
+    // The outgoing secret keeps signing alongside the new one until the grace window closes
+    const keepPrevious = !!config.signingSecret && gracePeriodMs > 0;
+    const [result] = await db
+      .update(n8nWebhookConfigs)
+      .set({
+        signingSecret: generateWebhookSigningSecret(),
+        previousSigningSecret: keepPrevious ? config.signingSecret : null,
+        previousSecretExpiresAt: keepPrevious ? new Date(now.getTime() + gracePeriodMs) : null,
+        secretRotatedAt: now,
+        updatedAt: now
+      })
+      .where(eq(n8nWebhookConfigs.id, configId))
+      .returning();
+    
+    return result;
+  }
+
   // Webhook Execution & Logging
   async executeWebhook(eventType: string, eventData: any, triggeredBy?: string): Promise<{
     success: boolean;
     webhookConfig?: N8nWebhookConfig;
     executionLog?: WebhookExecutionLog;
+    request?: { deliveryId: string; body: string; signatureHeaders: Record<string, string> };
     error?: string;
   }> {
     const webhookConfig = await this.getN8nWebhookConfigByEventType(eventType);
@@ -10741,68 +14488,40 @@ export class DatabaseStorage implements IStorage {
       };
     }
 
-    const startTime = Date.now();
-    
-    try {
-      const headers = {
-        'Content-Type': 'application/json',
-        ...webhookConfig.headers as Record<string, string>
-      };
-
-      const response = await fetch(webhookConfig.webhookUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(eventData),
-        signal: AbortSignal.timeout(webhookConfig.timeoutSeconds * 1000)
-      });
-
-      const executionTimeMs = Date.now() - startTime;
-      const responseText = await response.text();
-
-      const executionLog = await this.createWebhookExecutionLog({
-        webhookConfigId: webhookConfig.id,
-        eventType,
-        eventData,
-        httpStatusCode: response.status,
-        responseBody: responseText,
-        responseHeaders: Object.fromEntries(response.headers.entries()),
-        executionTimeMs,
-        isSuccess: response.ok,
-        triggeredBy: triggeredBy || 'system'
-      });
+    const result = await postWebhook(webhookConfig, eventData);
+
+    const executionLog = await this.createWebhookExecutionLog({
+      webhookConfigId: webhookConfig.id,
+      eventType: webhookConfig.eventType,
+      eventData,
+      httpStatusCode: result.httpStatusCode,
+      responseBody: result.responseBody,
+      responseHeaders: result.responseHeaders,
+      errorMessage: result.ok ? undefined : result.errorMessage,
+      executionTimeMs: result.executionTimeMs,
+      isSuccess: result.ok,
+      deliveryId: result.deliveryId,
+      triggeredBy: triggeredBy || 'system'
+    });
 
-      // Update last triggered timestamp
+    // Update last triggered timestamp
+    if (result.httpStatusCode !== undefined) {
       await this.updateN8nWebhookConfig(webhookConfig.id, {
         lastTriggeredAt: new Date()
       });
-
-      return {
-        success: response.ok,
-        webhookConfig,
-        executionLog,
-        error: response.ok ? undefined : `HTTP ${response.status}: ${responseText}`
-      };
-
-    } catch (error: any) {
-      const executionTimeMs = Date.now() - startTime;
-      
-      const executionLog = await this.createWebhookExecutionLog({
-        webhookConfigId: webhookConfig.id,
-        eventType,
-        eventData,
-        errorMessage: error.message,
-        executionTimeMs,
-        isSuccess: false,
-        triggeredBy: triggeredBy || 'system'
-      });
-
-      return {
-        success: false,
-        webhookConfig,
-        executionLog,
-        error: error.message
-      };
     }
+
+    return {
+      success: result.ok,
+      webhookConfig,
+      executionLog,
+      request: {
+        deliveryId: result.deliveryId,
+        body: result.requestBody,
+        signatureHeaders: result.signatureHeaders
+      },
+      error: result.ok ? undefined : result.errorMessage
+    };
   }
 
   async createWebhookExecutionLog(log: InsertWebhookExecutionLog): Promise<WebhookExecutionLog> {
@@ -10888,6 +14607,124 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Webhook Delivery Queue
+  async enqueueWebhookDelivery(delivery: Omit<InsertWebhookDelivery, "maxAttempts"> & { maxAttempts?: number }): Promise<WebhookDelivery> {
+    let maxAttempts = delivery.maxAttempts;
+    if (maxAttempts === undefined) {
+      const config = await this.getN8nWebhookConfig(delivery.webhookConfigId);
+      maxAttempts = (config?.retryCount ?? 3) + 1;
+    }
+
+    const [result] = await db.insert(webhookDeliveries).values({
+      ...delivery,
+      maxAttempts,
+      status: "pending",
+      attemptCount: 0,
+      nextAttemptAt: delivery.nextAttemptAt ?? new Date(),
+    }).returning();
+    
+    return result;
+  }
+
+  async getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | undefined> {
+    const [result] = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.id, deliveryId));
+    
+    return result;
+  }
+
+  async getWebhookDeliveries(filters?: {
+    webhookConfigId?: string;
+    status?: string;
+    limit?: number;
+  }): Promise<WebhookDelivery[]> {
+    const conditions = [];
+    
+    if (filters?.webhookConfigId) {
+      conditions.push(eq(webhookDeliveries.webhookConfigId, filters.webhookConfigId));
+    }
+    
+    if (filters?.status) {
+      conditions.push(eq(webhookDeliveries.status, filters.status));
+    }
+    
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(filters?.limit || 100);
+  }
+
+  async getDueWebhookDeliveries(limit: number = 50, staleAfterMs: number = 10 * 60 * 1000): Promise<WebhookDelivery[]> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - staleAfterMs);
+    
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(or(
+        and(
+          inArray(webhookDeliveries.status, ["pending", "retrying"]),
+          lte(webhookDeliveries.nextAttemptAt, now)
+        ),
+        // Deliveries left "delivering" by a crashed worker are picked up again
+        and(
+          eq(webhookDeliveries.status, "delivering"),
+          lte(webhookDeliveries.lastAttemptAt, staleBefore)
+        )
+      ))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async claimWebhookDelivery(deliveryId: string, staleAfterMs: number = 10 * 60 * 1000): Promise<WebhookDelivery | undefined> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - staleAfterMs);
+    
+    // Conditional update so only one worker can move a delivery into "delivering"
+    const [claimed] = await db
+      .update(webhookDeliveries)
+      .set({ status: "delivering", lastAttemptAt: now, updatedAt: now })
+      .where(and(
+        eq(webhookDeliveries.id, deliveryId),
+        or(
+          inArray(webhookDeliveries.status, ["pending", "retrying"]),
+          and(
+            eq(webhookDeliveries.status, "delivering"),
+            lte(webhookDeliveries.lastAttemptAt, staleBefore)
+          )
+        )
+      ))
+      .returning();
+    
+    return claimed;
+  }
+
+  async updateWebhookDelivery(deliveryId: string, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery> {
+    const [result] = await db
+      .update(webhookDeliveries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhookDeliveries.id, deliveryId))
+      .returning();
+    
+    return result;
+  }
+
+  async recordWebhookDeliveryOutcome(configId: string, success: boolean): Promise<N8nWebhookConfig | undefined> {
+    const [result] = await db
+      .update(n8nWebhookConfigs)
+      .set(success
+        ? { consecutiveFailures: 0, lastTriggeredAt: new Date() }
+        : { consecutiveFailures: sql`coalesce(${n8nWebhookConfigs.consecutiveFailures}, 0) + 1` })
+      .where(eq(n8nWebhookConfigs.id, configId))
+      .returning();
+    
+    return result;
+  }
+
   // Notification Preferences
   async getUserNotificationPreferences(userId: string): Promise<NotificationPreference[]> {
     const results = await db
@@ -10915,6 +14752,8 @@ export class DatabaseStorage implements IStorage {
   async updateNotificationPreference(userId: string, notificationType: string, preferences: {
     inAppEnabled?: boolean;
     webhookEnabled?: boolean;
+    emailEnabled?: boolean;
+    smsEnabled?: boolean;
   }): Promise<NotificationPreference> {
     const existingPreference = await this.getNotificationPreference(userId, notificationType);
     
@@ -10939,7 +14778,9 @@ export class DatabaseStorage implements IStorage {
           userId,
           notificationType,
           inAppEnabled: preferences.inAppEnabled ?? true,
-          webhookEnabled: preferences.webhookEnabled ?? false
+          webhookEnabled: preferences.webhookEnabled ?? false,
+          emailEnabled: preferences.emailEnabled ?? null,
+          smsEnabled: preferences.smsEnabled ?? false
         })
         .returning();
       
@@ -10952,7 +14793,8 @@ export class DatabaseStorage implements IStorage {
       'course_completion', 'learning_path_completion', 'quiz_passed', 'quiz_failed',
       'certification_issued', 'certificate_expiring', 'training_due', 'training_overdue',
       'competency_achieved', 'badge_awarded', 'enrollment_reminder', 'meeting_reminder',
-      'goal_deadline', 'development_plan_update', 'recognition_received', 'system_alert'
+      'goal_deadline', 'development_plan_update', 'recognition_received', 'system_alert',
+      'certificate_revoked', 'objective_at_risk'
     ];
     
     const defaultPreferences = notificationTypes.map(type => ({
@@ -10971,6 +14813,150 @@ export class DatabaseStorage implements IStorage {
     return results;
   }
 
+  // Email and SMS channels
+  async getNotificationChannelSettings(userId: string): Promise<NotificationChannelSettings | undefined> {
+    const [settings] = await db.select().from(notificationChannelSettings).where(eq(notificationChannelSettings.userId, userId));
+    return settings;
+  }
+
+  async upsertNotificationChannelSettings(userId: string, updates: UpdateNotificationChannelSettings): Promise<NotificationChannelSettings> {
+    const [settings] = await db
+      .insert(notificationChannelSettings)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({
+        target: notificationChannelSettings.userId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return settings;
+  }
+
+  async getDigestSubscribers(): Promise<DigestSubscriber[]> {
+    const rows = await db
+      .select({ user: users, settings: notificationChannelSettings })
+      .from(notificationChannelSettings)
+      .innerJoin(users, eq(notificationChannelSettings.userId, users.id))
+      .where(and(
+        ne(notificationChannelSettings.digestFrequency, "off"),
+        eq(users.isActive, true),
+        isNotNull(users.email)
+      ));
+    return rows;
+  }
+
+  async markDigestSent(userId: string, sentAt: Date): Promise<void> {
+    await db
+      .update(notificationChannelSettings)
+      .set({ lastDigestSentAt: sentAt })
+      .where(eq(notificationChannelSettings.userId, userId));
+  }
+
+  // Unfinished course and learning path enrollments due before the horizon (overdue ones included), and active
+  // goals short of target whose end date is before it
+  async getDigestItems(userIds: string[], horizon: Date, now: Date): Promise<DigestItem[]> {
+    if (userIds.length === 0) return [];
+    const items: DigestItem[] = [];
+    const itemType = (dueDate: Date) => dueDate < now ? "training_overdue" as const : "training_due" as const;
+
+    const courseRows = await db
+      .select({ id: enrollments.id, userId: enrollments.userId, dueDate: enrollments.dueDate, title: courses.title })
+      .from(enrollments)
+      .innerJoin(courseVersions, eq(enrollments.courseVersionId, courseVersions.id))
+      .innerJoin(courses, eq(courseVersions.courseId, courses.id))
+      .where(and(
+        inArray(enrollments.userId, userIds),
+        inArray(enrollments.status, ["enrolled", "in_progress"]),
+        isNotNull(enrollments.dueDate),
+        lte(enrollments.dueDate, horizon)
+      ));
+    courseRows.forEach(row => items.push({
+      userId: row.userId, type: itemType(row.dueDate!), title: row.title, dueDate: row.dueDate!, entityType: "enrollment", entityId: row.id,
+    }));
+
+    const pathRows = await db
+      .select({ id: learningPathEnrollments.id, userId: learningPathEnrollments.userId, dueDate: learningPathEnrollments.dueDate, title: learningPaths.title })
+      .from(learningPathEnrollments)
+      .innerJoin(learningPaths, eq(learningPathEnrollments.pathId, learningPaths.id))
+      .where(and(
+        inArray(learningPathEnrollments.userId, userIds),
+        eq(learningPathEnrollments.enrollmentStatus, "active"),
+        isNotNull(learningPathEnrollments.dueDate),
+        lte(learningPathEnrollments.dueDate, horizon)
+      ));
+    pathRows.forEach(row => items.push({
+      userId: row.userId, type: itemType(row.dueDate!), title: row.title, dueDate: row.dueDate!, entityType: "learning_path_enrollment", entityId: row.id,
+    }));
+
+    const goalRows = await db
+      .select({ id: goals.id, userId: goals.userId, endDate: goals.endDate, title: goals.title })
+      .from(goals)
+      .where(and(
+        inArray(goals.userId, userIds),
+        eq(goals.isActive, true),
+        sql`coalesce(${goals.currentValue}, 0) < ${goals.targetValue}`,
+        lte(goals.endDate, horizon)
+      ));
+    goalRows.forEach(row => items.push({
+      userId: row.userId, type: "goal_deadline", title: row.title, dueDate: row.endDate, entityType: "goal", entityId: row.id,
+    }));
+
+    return items.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  }
+
+  async createNotificationDeliveries(deliveries: InsertNotificationDelivery[]): Promise<NotificationDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return await db.insert(notificationDeliveries).values(deliveries).returning();
+  }
+
+  async getNotificationDeliveries(query: NotificationDeliveryQuery): Promise<NotificationDelivery[]> {
+    const conditions = [];
+    if (query.userId) conditions.push(eq(notificationDeliveries.userId, query.userId));
+    if (query.status) conditions.push(eq(notificationDeliveries.status, query.status));
+    if (query.channel) conditions.push(eq(notificationDeliveries.channel, query.channel));
+    return await db
+      .select()
+      .from(notificationDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(query.limit);
+  }
+
+  // Pending deliveries, and ones left "sending" by a worker whose lease ran out
+  async getDueNotificationDeliveries(limit: number): Promise<NotificationDelivery[]> {
+    return await db
+      .select()
+      .from(notificationDeliveries)
+      .where(and(
+        inArray(notificationDeliveries.status, ["pending", "sending"]),
+        lte(notificationDeliveries.nextAttemptAt, new Date())
+      ))
+      .orderBy(asc(notificationDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async claimNotificationDelivery(deliveryId: string, leaseMs: number): Promise<NotificationDelivery | undefined> {
+    const now = new Date();
+    const [claimed] = await db
+      .update(notificationDeliveries)
+      .set({ status: "sending", nextAttemptAt: new Date(now.getTime() + leaseMs) })
+      .where(and(
+        eq(notificationDeliveries.id, deliveryId),
+        inArray(notificationDeliveries.status, ["pending", "sending"]),
+        lte(notificationDeliveries.nextAttemptAt, now)
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async updateNotificationDelivery(deliveryId: string, updates: Partial<Pick<NotificationDelivery, "status" | "attempts" | "nextAttemptAt" | "lastError" | "providerMessageId" | "sentAt">>): Promise<NotificationDelivery | undefined> {
+    const [updated] = await db
+      .update(notificationDeliveries)
+      .set(updates)
+      .where(eq(notificationDeliveries.id, deliveryId))
+      .returning();
+    return updated;
+  }
+
   // Notification Templates
   async getNotificationTemplates(type?: string, activeOnly?: boolean): Promise<NotificationTemplate[]> {
     let query = db.select().from(notificationTemplates);
@@ -11022,6 +15008,248 @@ export class DatabaseStorage implements IStorage {
     await db.delete(notificationTemplates).where(eq(notificationTemplates.id, templateId));
   }
 
+  async getActiveNotificationTemplate(type: string): Promise<NotificationTemplate | undefined> {
+    const [template] = await this.getNotificationTemplates(type, true);
+    return template;
+  }
+
+  async getNotificationTemplateLocales(templateId: string): Promise<NotificationTemplateLocale[]> {
+    return await db
+      .select()
+      .from(notificationTemplateLocales)
+      .where(eq(notificationTemplateLocales.templateId, templateId))
+      .orderBy(notificationTemplateLocales.locale);
+  }
+
+  async upsertNotificationTemplateLocale(templateId: string, locale: string, values: UpsertNotificationTemplateLocale, updatedBy: string): Promise<NotificationTemplateLocale> {
+    const row = {
+      titleTemplate: values.titleTemplate,
+      messageTemplate: values.messageTemplate,
+      actionLabel: values.actionLabel ?? null,
+      updatedBy,
+      updatedAt: new Date(),
+    };
+    const [result] = await db
+      .insert(notificationTemplateLocales)
+      .values({ templateId, locale, ...row })
+      .onConflictDoUpdate({
+        target: [notificationTemplateLocales.templateId, notificationTemplateLocales.locale],
+        set: row,
+      })
+      .returning();
+    return result;
+  }
+
+  async deleteNotificationTemplateLocale(templateId: string, locale: string): Promise<boolean> {
+    const deleted = await db
+      .delete(notificationTemplateLocales)
+      .where(and(eq(notificationTemplateLocales.templateId, templateId), eq(notificationTemplateLocales.locale, locale)))
+      .returning({ id: notificationTemplateLocales.id });
+    return deleted.length > 0;
+  }
+
+  async getNotificationTemplateContext(userId: string, variables: Record<string, unknown> = {}): Promise<NotificationTemplateContext> {
+    const now = new Date();
+    const [user, settings, dueItems] = await Promise.all([
+      this.getUser(userId),
+      this.getNotificationChannelSettings(userId),
+      this.getDigestItems([userId], now, now),
+    ]);
+    const name = [user?.firstName, user?.lastName].filter(Boolean).join(" ");
+    const overdueCourses = dueItems
+      .filter(item => item.type === "training_overdue")
+      .map(item => ({
+        title: item.title,
+        dueDate: item.dueDate,
+        daysOverdue: Math.floor((now.getTime() - item.dueDate.getTime()) / (24 * 60 * 60 * 1000)),
+      }));
+
+    return {
+      locale: settings?.locale ?? "en",
+      timezone: settings?.timezone ?? "UTC",
+      context: {
+        user: {
+          firstName: user?.firstName ?? "",
+          lastName: user?.lastName ?? "",
+          name: name || user?.email || "",
+          email: user?.email ?? "",
+          jobTitle: user?.jobTitle ?? "",
+        },
+        today: now,
+        overdueCourses,
+        // Names used by templates written for the old {{variable}} substitution
+        userId,
+        userName: name || "User",
+        ...variables,
+      },
+    };
+  }
+
+  async renderNotificationForUser(userId: string, type: string, variables: Record<string, unknown>): Promise<RenderedNotification | undefined> {
+    const template = await this.getActiveNotificationTemplate(type);
+    if (!template) return undefined;
+    const [locales, { context, locale, timezone }] = await Promise.all([
+      this.getNotificationTemplateLocales(template.id),
+      this.getNotificationTemplateContext(userId, variables),
+    ]);
+    return renderNotificationTemplate(template, locales, context, { locale, timezone });
+  }
+
+  // Real records of the user's that a notification of this type would be about, with the variables each one gives
+  async getNotificationPreviewData(userId: string, type: string, entityId?: string): Promise<NotificationPreviewData> {
+    const now = new Date();
+    const dayMs = 24 * 60 * 60 * 1000;
+    type PreviewRow = { event: NotificationPreviewEvent; variables: Record<string, unknown> };
+    let load: ((id?: string) => Promise<PreviewRow[]>) | undefined;
+
+    switch (type) {
+      case "enrollment_reminder":
+      case "course_completion":
+      case "training_due":
+      case "training_overdue":
+        load = async (id) => {
+          const rows = await db
+            .select({ id: enrollments.id, title: courses.title, dueDate: enrollments.dueDate, enrolledAt: enrollments.enrolledAt, completedAt: enrollments.completedAt })
+            .from(enrollments)
+            .innerJoin(courseVersions, eq(enrollments.courseVersionId, courseVersions.id))
+            .innerJoin(courses, eq(courseVersions.courseId, courses.id))
+            .where(and(eq(enrollments.userId, userId), id ? eq(enrollments.id, id) : undefined))
+            .orderBy(desc(enrollments.enrolledAt))
+            .limit(10);
+          return rows.map(row => ({
+            event: { entityType: "enrollment", entityId: row.id, label: row.title, occurredAt: row.completedAt ?? row.enrolledAt },
+            variables: {
+              courseTitle: row.title,
+              dueDate: row.dueDate,
+              daysUntilDue: row.dueDate ? Math.max(0, Math.ceil((row.dueDate.getTime() - now.getTime()) / dayMs)) : null,
+              daysPastDue: row.dueDate ? Math.max(0, Math.floor((now.getTime() - row.dueDate.getTime()) / dayMs)) : null,
+            },
+          }));
+        };
+        break;
+      case "quiz_passed":
+      case "quiz_failed":
+        load = async (id) => {
+          const rows = await db
+            .select({ id: quizAttempts.id, quizId: quizAttempts.quizId, score: quizAttempts.score, startedAt: quizAttempts.startedAt, lessonTitle: lessons.title })
+            .from(quizAttempts)
+            .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+            .innerJoin(lessons, eq(quizzes.lessonId, lessons.id))
+            .where(and(
+              eq(quizAttempts.userId, userId),
+              eq(quizAttempts.passed, type === "quiz_passed"),
+              id ? eq(quizAttempts.id, id) : undefined
+            ))
+            .orderBy(desc(quizAttempts.startedAt))
+            .limit(10);
+          return rows.map(row => ({
+            event: { entityType: "quiz_attempt", entityId: row.id, label: `${row.lessonTitle} (${row.score ?? 0}%)`, occurredAt: row.startedAt },
+            variables: { lessonTitle: row.lessonTitle, score: row.score ?? 0 },
+          }));
+        };
+        break;
+      case "certification_issued":
+      case "certificate_expiring":
+      case "certificate_revoked":
+        load = async (id) => {
+          const rows = await db
+            .select()
+            .from(certificates)
+            .where(and(
+              eq(certificates.userId, userId),
+              type === "certificate_revoked" ? isNotNull(certificates.revokedAt) : undefined,
+              type === "certificate_expiring" ? isNotNull(certificates.expiresAt) : undefined,
+              id ? eq(certificates.id, id) : undefined
+            ))
+            .orderBy(desc(certificates.issuedAt))
+            .limit(10);
+          return rows.map(row => ({
+            event: { entityType: "certificate", entityId: row.id, label: row.title || row.certificateNumber, occurredAt: row.revokedAt ?? row.issuedAt },
+            variables: {
+              courseTitle: row.title || "your course",
+              certificateTitle: row.title || "your course",
+              expiresAt: row.expiresAt,
+              daysUntilExpiry: row.expiresAt ? Math.ceil((row.expiresAt.getTime() - now.getTime()) / dayMs) : null,
+              reason: row.revocationReason ?? "",
+            },
+          }));
+        };
+        break;
+      case "badge_awarded":
+        load = async (id) => {
+          const rows = await db
+            .select({ badgeId: badges.id, name: badges.name, awardedAt: userBadges.awardedAt })
+            .from(userBadges)
+            .innerJoin(badges, eq(userBadges.badgeId, badges.id))
+            .where(and(eq(userBadges.userId, userId), id ? eq(userBadges.badgeId, id) : undefined))
+            .orderBy(desc(userBadges.awardedAt))
+            .limit(10);
+          return rows.map(row => ({
+            event: { entityType: "badge", entityId: row.badgeId, label: row.name, occurredAt: row.awardedAt },
+            variables: { badgeName: row.name },
+          }));
+        };
+        break;
+      case "goal_deadline":
+        load = async (id) => {
+          const rows = await db
+            .select()
+            .from(goals)
+            .where(and(eq(goals.userId, userId), id ? eq(goals.id, id) : undefined))
+            .orderBy(desc(goals.endDate))
+            .limit(10);
+          return rows.map(row => ({
+            event: { entityType: "goal", entityId: row.id, label: row.title, occurredAt: row.createdAt },
+            variables: {
+              goalTitle: row.title,
+              dueDate: row.endDate,
+              daysUntilDue: Math.ceil((row.endDate.getTime() - now.getTime()) / dayMs),
+              progress: row.targetValue > 0 ? Math.round(((row.currentValue ?? 0) / row.targetValue) * 100) : 0,
+            },
+          }));
+        };
+        break;
+      case "objective_at_risk":
+        load = async (id) => {
+          const rows = await db
+            .select()
+            .from(companyObjectives)
+            .where(and(
+              or(eq(companyObjectives.ownerId, userId), and(isNull(companyObjectives.ownerId), eq(companyObjectives.createdBy, userId))),
+              isNotNull(companyObjectives.atRiskSince),
+              id ? eq(companyObjectives.id, id) : undefined
+            ))
+            .orderBy(desc(companyObjectives.atRiskSince))
+            .limit(10);
+          const blockerIds = Array.from(new Set(rows.flatMap(row => row.blockedBy ?? [])));
+          const blockers = blockerIds.length > 0
+            ? await db.select({ id: companyObjectives.id, title: companyObjectives.title }).from(companyObjectives).where(inArray(companyObjectives.id, blockerIds))
+            : [];
+          const titleOf = new Map(blockers.map(blocker => [blocker.id, blocker.title]));
+          return rows.map(row => ({
+            event: { entityType: "company_objective", entityId: row.id, label: row.title, occurredAt: row.atRiskSince },
+            variables: {
+              objectiveTitle: row.title,
+              blockedByTitles: (row.blockedBy ?? []).map(blockerId => titleOf.get(blockerId) ?? blockerId).join(", "),
+              dueDate: row.endDate,
+            },
+          }));
+        };
+        break;
+    }
+
+    if (!load) return { variables: {}, event: null, events: [] };
+    const recent = await load();
+    const chosen = entityId
+      ? recent.find(row => row.event.entityId === entityId) ?? (await load(entityId))[0]
+      : recent[0];
+    return {
+      variables: chosen ? { entityId: chosen.event.entityId, entityType: chosen.event.entityType, ...chosen.variables } : {},
+      event: chosen?.event ?? null,
+      events: recent.map(row => row.event),
+    };
+  }
+
   // Event-Based Notification Triggers
   async triggerNotificationForEvent(eventType: string, eventData: {
     userId?: string;
@@ -11054,13 +15282,22 @@ export class DatabaseStorage implements IStorage {
           const userPrefs = await this.getNotificationPreference(eventData.userId, eventType);
           
           if (!userPrefs || userPrefs.inAppEnabled) {
+            const [locales, { context, locale, timezone }] = await Promise.all([
+              this.getNotificationTemplateLocales(template.id),
+              this.getNotificationTemplateContext(eventData.userId, {
+                entityId: eventData.relatedEntityId,
+                entityType: eventData.relatedEntityType,
+                ...eventData.customData,
+              }),
+            ]);
+            const rendered = renderNotificationTemplate(template, locales, context, { locale, timezone });
             const notification: InsertNotification = {
               userId: eventData.userId,
               type: eventType,
               priority: template.priority || 'medium',
-              title: this.replaceTemplateVariables(template.titleTemplate, eventData),
-              message: this.replaceTemplateVariables(template.messageTemplate, eventData),
-              actionLabel: template.actionLabel,
+              title: rendered.title,
+              message: rendered.message,
+              actionLabel: rendered.actionLabel,
               relatedEntityId: eventData.relatedEntityId,
               relatedEntityType: eventData.relatedEntityType,
               metadata: eventData.customData
@@ -11074,13 +15311,23 @@ export class DatabaseStorage implements IStorage {
         }
       }
 
-      // Trigger webhook if configured
+      // Queue webhook delivery if configured
       try {
-        const webhookResult = await this.executeWebhook(eventType, eventData);
-        if (webhookResult.success) {
+        const webhookEventType = notificationWebhookEventMap[eventType as keyof typeof notificationWebhookEventMap] ?? "system_notification";
+        const webhookConfig = await this.getN8nWebhookConfigByEventType(webhookEventType);
+        if (webhookConfig) {
+          await this.enqueueWebhookDelivery({
+            webhookConfigId: webhookConfig.id,
+            eventType: webhookEventType,
+            payload: {
+              event: webhookEventType,
+              notification_type: eventType,
+              timestamp: new Date().toISOString(),
+              ...eventData
+            },
+            triggeredBy: eventData.userId || 'system'
+          });
           webhooksTriggered++;
-        } else if (webhookResult.error) {
-          errors.push(`Webhook execution failed: ${webhookResult.error}`);
         }
       } catch (error: any) {
         errors.push(`Webhook trigger failed: ${error.message}`);
@@ -11098,11 +15345,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Bulk Operations
-  async createBulkNotifications(notifications: InsertNotification[]): Promise<Notification[]> {
-    if (notifications.length === 0) return [];
+  async createBulkNotifications(values: InsertNotification[]): Promise<Notification[]> {
+    if (values.length === 0) return [];
     
-    const results = await db.insert(notifications).values(notifications).returning();
-    return results;
+    return await db.insert(notifications).values(values).returning();
   }
 
   async archiveNotificationsByType(userId: string, type: string): Promise<number> {
@@ -11135,28 +15381,6 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount || 0;
   }
 
-  // Helper method for template variable replacement
-  private replaceTemplateVariables(template: string, data: any): string {
-    let result = template;
-    
-    // Replace common variables
-    const replacements: Record<string, any> = {
-      userId: data.userId,
-      userName: data.userName || 'User',
-      entityId: data.relatedEntityId,
-      entityType: data.relatedEntityType,
-      ...data.customData
-    };
-
-    for (const [key, value] of Object.entries(replacements)) {
-      if (value !== undefined) {
-        result = result.replace(new RegExp(`{{${key}}}`, 'g'), String(value));
-      }
-    }
-    
-    return result;
-  }
-
   /**
    * Helper: Determine remediation type based on gap characteristics
    */
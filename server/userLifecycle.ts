@@ -0,0 +1,26 @@
+import type { DomainEventType, NewDomainEvent, User } from "@shared/schema";
+
+// Domain events for users created or changed outside the app's own screens (SCIM, bulk import)
+
+export type LifecycleEventType = Extract<DomainEventType, "user.created" | "user.role_changed" | "user.team_changed">;
+
+export function getLifecycleEvents(before: User | undefined, after: User): LifecycleEventType[] {
+  if (!after.isActive) return [];
+  if (!before) return ["user.created"];
+  const events: LifecycleEventType[] = [];
+  if (before.jobRoleId !== after.jobRoleId) events.push("user.role_changed");
+  if (before.teamId !== after.teamId) events.push("user.team_changed");
+  return events;
+}
+
+// Outbox rows for the events. Storage writes them in the transaction that changes the user, and the automation
+// subscriber runs the matching rules (onboarding paths etc.).
+export function toLifecycleDomainEvents(userId: string, events: LifecycleEventType[], source: string): NewDomainEvent[] {
+  return events.map(eventType => ({
+    eventType,
+    aggregateType: "user",
+    aggregateId: userId,
+    userId,
+    payload: { userId, source },
+  }));
+}
@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { N8nWebhookConfig } from "@shared/schema";
+import {
+  buildWebhookSignatureHeaders,
+  computeWebhookSignature,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "./webhookClient";
+
+const now = new Date("2026-03-01T12:00:00Z");
+const body = JSON.stringify({ event: "course_completed", userId: "user-1" });
+
+function config(overrides: Partial<N8nWebhookConfig>): N8nWebhookConfig {
+  return { signingSecret: "whsec_current", previousSigningSecret: null, previousSecretExpiresAt: null, ...overrides } as N8nWebhookConfig;
+}
+
+function verify(headers: Record<string, string>, secrets: string[], at: Date = now) {
+  return verifyWebhookSignature({
+    secrets,
+    body,
+    timestamp: headers[WEBHOOK_TIMESTAMP_HEADER],
+    signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER] ?? "",
+    now: at,
+  });
+}
+
+describe("webhook signatures", () => {
+  it("signs the timestamp and body so either change breaks verification", () => {
+    const headers = buildWebhookSignatureHeaders(config({}), body, "delivery-1", now);
+    const timestamp = Math.floor(now.getTime() / 1000);
+    assert.equal(headers[WEBHOOK_SIGNATURE_HEADER], `v1=${computeWebhookSignature("whsec_current", timestamp, body)}`);
+    assert.deepEqual(verify(headers, ["whsec_current"]), { valid: true });
+
+    assert.equal(verifyWebhookSignature({
+      secrets: ["whsec_current"], body: body.replace("user-1", "user-2"), timestamp, signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER], now,
+    }).valid, false);
+    assert.equal(verifyWebhookSignature({
+      secrets: ["whsec_current"], body, timestamp: timestamp + 1, signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER], now,
+    }).valid, false);
+  });
+
+  it("rejects timestamps outside the tolerance", () => {
+    const headers = buildWebhookSignatureHeaders(config({}), body, "delivery-1", now);
+    const later = new Date(now.getTime() + 6 * 60 * 1000);
+    assert.match(verify(headers, ["whsec_current"], later).reason ?? "", /tolerance/);
+  });
+
+  it("signs with the previous secret too until its grace window closes", () => {
+    const rotated = config({
+      signingSecret: "whsec_new",
+      previousSigningSecret: "whsec_current",
+      previousSecretExpiresAt: new Date(now.getTime() + 60 * 60 * 1000),
+    });
+    const during = buildWebhookSignatureHeaders(rotated, body, "delivery-1", now);
+    assert.equal(during[WEBHOOK_SIGNATURE_HEADER].split(",").length, 2);
+    assert.equal(verify(during, ["whsec_current"]).valid, true);
+    assert.equal(verify(during, ["whsec_new"]).valid, true);
+
+    const afterGrace = new Date(now.getTime() + 2 * 60 * 60 * 1000);
+    const after = buildWebhookSignatureHeaders(rotated, body, "delivery-2", afterGrace);
+    assert.equal(verify(after, ["whsec_current"], afterGrace).valid, false);
+    assert.equal(verify(after, ["whsec_new"], afterGrace).valid, true);
+  });
+});
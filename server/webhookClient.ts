@@ -0,0 +1,173 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import type { N8nWebhookConfig } from "@shared/schema";
+
+// Outbound HTTP calls for webhook configurations.
+
+// Response bodies are stored in webhook_execution_logs, so keep them bounded
+const MAX_RESPONSE_BODY_LENGTH = 10_000;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-WeGrow-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-WeGrow-Timestamp';
+export const WEBHOOK_DELIVERY_HEADER = 'X-WeGrow-Delivery-Id';
+
+// Receivers should reject requests whose timestamp is further than this from their clock
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface WebhookHttpResult {
+  ok: boolean;
+  httpStatusCode?: number;
+  responseBody?: string;
+  responseHeaders?: Record<string, string>;
+  errorMessage?: string;
+  executionTimeMs: number;
+  deliveryId: string;
+  signatureHeaders: Record<string, string>;
+  requestBody: string;
+}
+
+export function generateWebhookSigningSecret(): string {
+  return `whsec_${randomBytes(32).toString('base64url')}`;
+}
+
+// The signed content is "<timestamp>.<raw body>" so a captured body can't be replayed with a new timestamp
+export function computeWebhookSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// The current secret, plus the previous one while its rotation grace window is open
+export function getActiveSigningSecrets(config: N8nWebhookConfig, now: Date = new Date()): string[] {
+  const secrets: string[] = [];
+  if (config.signingSecret) {
+    secrets.push(config.signingSecret);
+  }
+  if (config.previousSigningSecret && config.previousSecretExpiresAt && config.previousSecretExpiresAt > now) {
+    secrets.push(config.previousSigningSecret);
+  }
+  return secrets;
+}
+
+// Builds the signature headers for a body. During a rotation grace window the signature header carries
+// one "v1=" entry per active secret, so receivers still configured with the old secret keep verifying.
+export function buildWebhookSignatureHeaders(
+  config: N8nWebhookConfig,
+  body: string,
+  deliveryId: string,
+  now: Date = new Date(),
+): Record<string, string> {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const headers: Record<string, string> = {
+    [WEBHOOK_DELIVERY_HEADER]: deliveryId,
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+  };
+
+  const secrets = getActiveSigningSecrets(config, now);
+  if (secrets.length > 0) {
+    headers[WEBHOOK_SIGNATURE_HEADER] = secrets
+      .map(secret => `v1=${computeWebhookSignature(secret, timestamp, body)}`)
+      .join(',');
+  }
+
+  return headers;
+}
+
+// Reference verification, mirroring what a receiver is expected to do
+export function verifyWebhookSignature(params: {
+  secrets: string[];
+  body: string;
+  timestamp: string | number;
+  signatureHeader: string;
+  toleranceSeconds?: number;
+  now?: Date;
+}): { valid: boolean; reason?: string } {
+  const timestamp = typeof params.timestamp === 'number' ? params.timestamp : parseInt(params.timestamp, 10);
+  if (!Number.isFinite(timestamp)) {
+    return { valid: false, reason: 'Missing or malformed timestamp' };
+  }
+
+  const nowSeconds = Math.floor((params.now ?? new Date()).getTime() / 1000);
+  const tolerance = params.toleranceSeconds ?? WEBHOOK_SIGNATURE_TOLERANCE_SECONDS;
+  if (Math.abs(nowSeconds - timestamp) > tolerance) {
+    return { valid: false, reason: `Timestamp is outside the ${tolerance}s tolerance` };
+  }
+
+  const provided = params.signatureHeader
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part.startsWith('v1='))
+    .map(part => Buffer.from(part.slice(3), 'hex'));
+
+  for (const secret of params.secrets) {
+    const expected = Buffer.from(computeWebhookSignature(secret, timestamp, params.body), 'hex');
+    if (provided.some(signature => signature.length === expected.length && timingSafeEqual(signature, expected))) {
+      return { valid: true };
+    }
+  }
+
+  return { valid: false, reason: 'No signature matched an active secret' };
+}
+
+// Strips secrets from a config before it is sent to the browser
+export function redactWebhookConfig(config: N8nWebhookConfig, now: Date = new Date()) {
+  const { signingSecret, previousSigningSecret, ...rest } = config;
+  return {
+    ...rest,
+    hasSigningSecret: !!signingSecret,
+    signingSecretPreview: signingSecret ? `${signingSecret.slice(0, 10)}…${signingSecret.slice(-4)}` : null,
+    previousSecretActive: !!previousSigningSecret && !!config.previousSecretExpiresAt && config.previousSecretExpiresAt > now,
+  };
+}
+
+// Performs a single outbound POST for a webhook configuration. Never throws: network errors
+// and timeouts are reported through the result so callers can log and schedule retries.
+// Retries of a queued delivery reuse its deliveryId so receivers can de-duplicate.
+export async function postWebhook(
+  config: N8nWebhookConfig,
+  payload: unknown,
+  options: { deliveryId?: string } = {},
+): Promise<WebhookHttpResult> {
+  const startTime = Date.now();
+  const deliveryId = options.deliveryId ?? randomUUID();
+  const requestBody = JSON.stringify(payload);
+  const signatureHeaders = buildWebhookSignatureHeaders(config, requestBody, deliveryId);
+
+  try {
+    // Signature headers go last so custom headers can't override them
+    const headers = {
+      'Content-Type': 'application/json',
+      ...(config.headers as Record<string, string> | null),
+      ...signatureHeaders,
+    };
+
+    const response = await fetch(config.webhookUrl, {
+      method: 'POST',
+      headers,
+      body: requestBody,
+      signal: AbortSignal.timeout((config.timeoutSeconds ?? 30) * 1000),
+    });
+
+    const responseText = await response.text();
+
+    return {
+      ok: response.ok,
+      httpStatusCode: response.status,
+      responseBody: responseText.slice(0, MAX_RESPONSE_BODY_LENGTH),
+      responseHeaders: Object.fromEntries(response.headers.entries()),
+      errorMessage: response.ok ? undefined : `HTTP ${response.status}: ${responseText.slice(0, 500)}`,
+      executionTimeMs: Date.now() - startTime,
+      deliveryId,
+      signatureHeaders,
+      requestBody,
+    };
+  } catch (error: any) {
+    return {
+      ok: false,
+      errorMessage: error?.name === 'TimeoutError'
+        ? `Request timed out after ${config.timeoutSeconds ?? 30}s`
+        : error?.message || String(error),
+      executionTimeMs: Date.now() - startTime,
+      deliveryId,
+      signatureHeaders,
+      requestBody,
+    };
+  }
+}
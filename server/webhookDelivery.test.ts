@@ -0,0 +1,62 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { N8nWebhookConfig, WebhookDelivery } from "@shared/schema";
+
+// storage.ts connects lazily, so any URL lets it load; the storage calls are replaced below
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+
+const { storage } = await import("./storage");
+const { calculateWebhookBackoffMs, processDueWebhookDeliveries } = await import("./webhookDelivery");
+
+const config = {
+  id: "config-1",
+  name: "Test hook",
+  webhookUrl: "https://hooks.example.com/in",
+  isActive: true,
+  consecutiveFailures: 1,
+  createdBy: "admin",
+} as N8nWebhookConfig;
+
+function delivery(id: string, attemptCount: number): WebhookDelivery {
+  return { id, webhookConfigId: config.id, eventType: "course_completed", payload: { id }, attemptCount, maxAttempts: 3 } as WebhookDelivery;
+}
+
+describe("calculateWebhookBackoffMs", () => {
+  it("doubles from 30 seconds within 20% jitter and caps at an hour", () => {
+    for (const [attempt, base] of [[1, 30_000], [2, 60_000], [3, 120_000], [20, 3_600_000]]) {
+      const backoff = calculateWebhookBackoffMs(attempt);
+      assert.ok(backoff >= base * 0.8 && backoff <= base * 1.2, `attempt ${attempt}: ${backoff}`);
+    }
+  });
+});
+
+describe("processDueWebhookDeliveries", () => {
+  it("schedules a retry after a failed attempt and dead-letters the last one", async () => {
+    mock.method(storage, "getDueWebhookDeliveries", async () => [delivery("first", 0), delivery("last", 2), delivery("taken", 0)]);
+    mock.method(storage, "claimWebhookDelivery", async (id: string) => (id === "taken" ? undefined : delivery(id, id === "last" ? 2 : 0)));
+    mock.method(storage, "getN8nWebhookConfig", async () => config);
+    mock.method(storage, "createWebhookExecutionLog", async () => undefined);
+    mock.method(storage, "recordWebhookDeliveryOutcome", async () => config);
+    const updates = new Map<string, Partial<WebhookDelivery>>();
+    mock.method(storage, "updateWebhookDelivery", async (id: string, values: Partial<WebhookDelivery>) => {
+      updates.set(id, values);
+      return { ...delivery(id, 0), ...values };
+    });
+    mock.method(globalThis, "fetch", async () => new Response("Unavailable", { status: 503 }));
+
+    const before = Date.now();
+    assert.deepEqual(await processDueWebhookDeliveries(), { processed: 2, delivered: 0, retrying: 1, deadLettered: 1 });
+
+    const retry = updates.get("first")!;
+    assert.equal(retry.status, "retrying");
+    assert.equal(retry.attemptCount, 1);
+    assert.equal(retry.lastHttpStatus, 503);
+    assert.ok(retry.nextAttemptAt!.getTime() >= before + 24_000);
+
+    const deadLettered = updates.get("last")!;
+    assert.equal(deadLettered.status, "dead_lettered");
+    assert.equal(deadLettered.attemptCount, 3);
+    assert.equal(deadLettered.nextAttemptAt, null);
+    assert.equal(updates.has("taken"), false);
+  });
+});
@@ -0,0 +1,190 @@
+import { storage } from "./storage";
+import { postWebhook } from "./webhookClient";
+import type { N8nWebhookConfig, WebhookDelivery } from "@shared/schema";
+
+// Queued webhook deliveries: attempts, retries with backoff, dead-lettering and replay.
+
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+function autoDeactivateThreshold(): number {
+  const value = parseInt(process.env.WEBHOOK_AUTO_DEACTIVATE_AFTER_FAILURES || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : 10;
+}
+
+export class WebhookDeliveryNotFoundError extends Error {
+  constructor(deliveryId: string) {
+    super(`Webhook delivery ${deliveryId} not found`);
+    this.name = "WebhookDeliveryNotFoundError";
+    Object.setPrototypeOf(this, WebhookDeliveryNotFoundError.prototype);
+  }
+}
+
+// Exponential backoff with +/-20% jitter: 30s, 60s, 120s ... capped at one hour
+export function calculateWebhookBackoffMs(attemptNumber: number): number {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, Math.max(0, attemptNumber - 1)));
+  const jitter = exponential * 0.2 * (Math.random() * 2 - 1);
+  return Math.round(exponential + jitter);
+}
+
+async function deadLetter(
+  delivery: WebhookDelivery,
+  reason: string,
+  attemptCount: number,
+  lastHttpStatus?: number,
+): Promise<WebhookDelivery> {
+  return await storage.updateWebhookDelivery(delivery.id, {
+    status: "dead_lettered",
+    attemptCount,
+    lastError: reason,
+    lastHttpStatus: lastHttpStatus ?? delivery.lastHttpStatus,
+    deadLetteredAt: new Date(),
+    nextAttemptAt: null,
+  });
+}
+
+async function autoDeactivateConfig(config: N8nWebhookConfig): Promise<void> {
+  const reason = `Automatically deactivated after ${config.consecutiveFailures} consecutive failed deliveries`;
+  await storage.autoDeactivateWebhookConfig(config.id, reason);
+
+  try {
+    await storage.createNotification({
+      userId: config.createdBy,
+      type: "system_alert",
+      priority: "high",
+      title: "Webhook Deactivated",
+      message: `The webhook "${config.name}" was deactivated because its endpoint kept failing. Fix the endpoint, then re-enable the webhook and replay failed deliveries.`,
+      actionUrl: "/webhooks",
+      actionLabel: "Review Webhook",
+      relatedEntityId: config.id,
+      relatedEntityType: "webhook_config",
+    });
+  } catch (error) {
+    console.error(`[WEBHOOK] Failed to notify owner of deactivated webhook ${config.id}:`, error);
+  }
+
+  console.warn(`[WEBHOOK] ${reason} - config ${config.id} (${config.name})`);
+}
+
+// Attempts one delivery. The delivery must already be claimed (status "delivering").
+async function attemptClaimedDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const attemptNumber = (delivery.attemptCount ?? 0) + 1;
+  const config = await storage.getN8nWebhookConfig(delivery.webhookConfigId);
+
+  if (!config) {
+    return await deadLetter(delivery, "Webhook configuration no longer exists", delivery.attemptCount ?? 0);
+  }
+  if (!config.isActive) {
+    return await deadLetter(delivery, "Webhook configuration is inactive", delivery.attemptCount ?? 0);
+  }
+
+  const result = await postWebhook(config, delivery.payload, { deliveryId: delivery.id });
+
+  await storage.createWebhookExecutionLog({
+    webhookConfigId: config.id,
+    eventType: delivery.eventType,
+    eventData: delivery.payload as Record<string, any>,
+    httpStatusCode: result.httpStatusCode,
+    responseBody: result.responseBody,
+    responseHeaders: result.responseHeaders,
+    errorMessage: result.ok ? undefined : result.errorMessage,
+    executionTimeMs: result.executionTimeMs,
+    isSuccess: result.ok,
+    retryAttempt: attemptNumber - 1,
+    deliveryId: delivery.id,
+    triggeredBy: delivery.triggeredBy || 'system',
+  });
+
+  const updatedConfig = await storage.recordWebhookDeliveryOutcome(config.id, result.ok);
+
+  if (result.ok) {
+    return await storage.updateWebhookDelivery(delivery.id, {
+      status: "delivered",
+      attemptCount: attemptNumber,
+      lastHttpStatus: result.httpStatusCode,
+      lastError: null,
+      deliveredAt: new Date(),
+      nextAttemptAt: null,
+    });
+  }
+
+  if (updatedConfig && (updatedConfig.consecutiveFailures ?? 0) >= autoDeactivateThreshold() && updatedConfig.isActive) {
+    await autoDeactivateConfig(updatedConfig);
+  }
+
+  if (attemptNumber >= delivery.maxAttempts) {
+    return await deadLetter(delivery, result.errorMessage || "Delivery failed", attemptNumber, result.httpStatusCode);
+  }
+
+  return await storage.updateWebhookDelivery(delivery.id, {
+    status: "retrying",
+    attemptCount: attemptNumber,
+    lastHttpStatus: result.httpStatusCode ?? null,
+    lastError: result.errorMessage,
+    nextAttemptAt: new Date(Date.now() + calculateWebhookBackoffMs(attemptNumber)),
+  });
+}
+
+// Processes every delivery whose next attempt is due. Called by the "webhook_deliveries" scheduler job.
+export async function processDueWebhookDeliveries(limit: number = 50): Promise<{
+  processed: number;
+  delivered: number;
+  retrying: number;
+  deadLettered: number;
+}> {
+  const summary = { processed: 0, delivered: 0, retrying: 0, deadLettered: 0 };
+  const due = await storage.getDueWebhookDeliveries(limit);
+
+  for (const candidate of due) {
+    const claimed = await storage.claimWebhookDelivery(candidate.id);
+    if (!claimed) continue;
+
+    const result = await attemptClaimedDelivery(claimed);
+    summary.processed++;
+    if (result.status === "delivered") summary.delivered++;
+    else if (result.status === "retrying") summary.retrying++;
+    else if (result.status === "dead_lettered") summary.deadLettered++;
+  }
+
+  return summary;
+}
+
+// Re-queues a failed or dead-lettered delivery as a new delivery and attempts it immediately
+export async function replayWebhookDelivery(deliveryId: string, triggeredBy: string): Promise<WebhookDelivery> {
+  const original = await storage.getWebhookDelivery(deliveryId);
+  if (!original) {
+    throw new WebhookDeliveryNotFoundError(deliveryId);
+  }
+
+  const replay = await storage.enqueueWebhookDelivery({
+    webhookConfigId: original.webhookConfigId,
+    eventType: original.eventType,
+    payload: original.payload as Record<string, any>,
+    replayOfDeliveryId: original.id,
+    triggeredBy,
+  });
+
+  // Keep the dead-letter queue clean once a replacement delivery exists
+  if (original.status === "dead_lettered") {
+    await storage.updateWebhookDelivery(original.id, { status: "replayed" });
+  }
+
+  const claimed = await storage.claimWebhookDelivery(replay.id);
+  return claimed ? await attemptClaimedDelivery(claimed) : replay;
+}
+
+// Replays every dead-lettered delivery for a webhook configuration
+export async function replayDeadLetteredDeliveries(webhookConfigId: string, triggeredBy: string): Promise<{
+  replayed: number;
+  delivered: number;
+}> {
+  const deadLettered = await storage.getWebhookDeliveries({ webhookConfigId, status: "dead_lettered", limit: 500 });
+  let delivered = 0;
+
+  for (const delivery of deadLettered) {
+    const result = await replayWebhookDelivery(delivery.id, triggeredBy);
+    if (result.status === "delivered") delivered++;
+  }
+
+  return { replayed: deadLettered.length, delivered };
+}
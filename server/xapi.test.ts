@@ -0,0 +1,47 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { XapiStatementRecord } from "@shared/schema";
+
+// storage.ts connects lazily, so any URL lets it load; the storage calls are replaced below
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+process.env.XAPI_FORWARD_ENDPOINT = "https://lrs.example.com/xapi/";
+
+const { storage } = await import("./storage");
+const { forwardDueXapiStatements } = await import("./xapi");
+
+function record(id: string): XapiStatementRecord {
+  return { id, statement: { id, stored: "2026-01-01T00:00:00.000Z" }, forwardAttempts: 0 } as XapiStatementRecord;
+}
+
+describe("forwardDueXapiStatements", () => {
+  it("marks only the statements the LRS already holds as forwarded after a batch conflict", async () => {
+    mock.method(storage, "getDueXapiStatementForwards", async () => [record("held"), record("new"), record("bad")]);
+    const updates: { ids: string[]; forwardStatus: unknown }[] = [];
+    mock.method(storage, "updateXapiStatementForwarding", async (ids: string[], values: { forwardStatus?: unknown }) => {
+      updates.push({ ids, forwardStatus: values.forwardStatus });
+    });
+
+    const requests: string[] = [];
+    mock.method(globalThis, "fetch", async (url: string, init: RequestInit) => {
+      requests.push(`${init.method} ${url}`);
+      if (init.method === "POST") return new Response("Conflict", { status: 409 });
+      if (url.endsWith("statementId=held")) return new Response("Conflict", { status: 409 });
+      if (url.endsWith("statementId=bad")) return new Response("Invalid statement", { status: 400 });
+      assert.deepEqual(JSON.parse(String(init.body)), { id: "new" });
+      return new Response(null, { status: 204 });
+    });
+
+    const summary = await forwardDueXapiStatements();
+    assert.deepEqual(summary, { processed: 3, forwarded: 2, failed: 1 });
+    assert.deepEqual(requests, [
+      "POST https://lrs.example.com/xapi/statements",
+      "PUT https://lrs.example.com/xapi/statements?statementId=held",
+      "PUT https://lrs.example.com/xapi/statements?statementId=new",
+      "PUT https://lrs.example.com/xapi/statements?statementId=bad",
+    ]);
+    assert.deepEqual(updates, [
+      { ids: ["held", "new"], forwardStatus: "forwarded" },
+      { ids: ["bad"], forwardStatus: "failed" },
+    ]);
+  });
+});
@@ -0,0 +1,439 @@
+import { randomUUID, timingSafeEqual } from "crypto";
+import type { RequestHandler } from "express";
+import { z } from "zod";
+import type { XapiStatementRecord } from "@shared/schema";
+import { storage, type XapiStatementFilters } from "./storage";
+import {
+  XAPI_VERBS,
+  XAPI_VERSION,
+  getXapiActivityBaseUrl,
+  getXapiActorKey,
+  isXapiForwardingEnabled,
+  toXapiStatementRecord,
+  type XapiAgent,
+  type XapiStatement,
+} from "./xapiStatements";
+
+// xAPI statement resource for content clients, and forwarding of stored statements to an external LRS.
+
+const MAX_QUERY_LIMIT = 100;
+const MAX_FORWARD_ATTEMPTS = 10;
+const FORWARD_BATCH_SIZE = 50;
+const BASE_FORWARD_BACKOFF_MS = 60 * 1000;
+const MAX_FORWARD_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+// Raised for requests the LRS must reject; carries the HTTP status the spec calls for
+export class XapiRequestError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = "XapiRequestError";
+    Object.setPrototypeOf(this, XapiRequestError.prototype);
+  }
+}
+
+const languageMapSchema = z.record(z.string(), z.string());
+const iriSchema = z.string().min(1).refine(value => /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(value), "Must be an IRI");
+
+const agentSchema = z.object({
+  objectType: z.enum(["Agent", "Group"]).optional(),
+  name: z.string().optional(),
+  mbox: z.string().regex(/^mailto:/, "mbox must be a mailto IRI").optional(),
+  mbox_sha1sum: z.string().regex(/^[0-9a-fA-F]{40}$/).optional(),
+  openid: iriSchema.optional(),
+  account: z.object({ homePage: iriSchema, name: z.string().min(1) }).optional(),
+  member: z.array(z.any()).optional(),
+}).passthrough().refine(agent => {
+  const identifiers = [agent.mbox, agent.mbox_sha1sum, agent.openid, agent.account].filter(Boolean).length;
+  // Anonymous groups are identified by their members instead
+  return agent.objectType === "Group" && identifiers === 0 ? (agent.member?.length ?? 0) > 0 : identifiers === 1;
+}, "An Agent must have exactly one inverse functional identifier");
+
+const activitySchema = z.object({
+  objectType: z.literal("Activity").optional(),
+  id: iriSchema,
+  definition: z.object({
+    name: languageMapSchema.optional(),
+    description: languageMapSchema.optional(),
+    type: iriSchema.optional(),
+    moreInfo: iriSchema.optional(),
+    extensions: z.record(z.string(), z.unknown()).optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+const statementRefSchema = z.object({
+  objectType: z.literal("StatementRef"),
+  id: z.string().uuid(),
+});
+
+const contextSchema = z.object({
+  registration: z.string().uuid().optional(),
+  instructor: agentSchema.optional(),
+  team: agentSchema.optional(),
+  contextActivities: z.record(z.string(), z.union([activitySchema, z.array(activitySchema)])).optional(),
+  revision: z.string().optional(),
+  platform: z.string().optional(),
+  language: z.string().optional(),
+  statement: statementRefSchema.optional(),
+  extensions: z.record(z.string(), z.unknown()).optional(),
+}).passthrough();
+
+const resultSchema = z.object({
+  score: z.object({
+    scaled: z.number().min(-1).max(1).optional(),
+    raw: z.number().optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  }).optional(),
+  success: z.boolean().optional(),
+  completion: z.boolean().optional(),
+  response: z.string().optional(),
+  duration: z.string().regex(/^P/, "duration must be an ISO 8601 duration").optional(),
+  extensions: z.record(z.string(), z.unknown()).optional(),
+}).passthrough();
+
+const statementSchema = z.object({
+  id: z.string().uuid().optional(),
+  actor: agentSchema,
+  verb: z.object({ id: iriSchema, display: languageMapSchema.optional() }),
+  object: z.union([
+    statementRefSchema,
+    activitySchema,
+    agentSchema,
+    z.object({ objectType: z.literal("SubStatement") }).passthrough(),
+  ]),
+  result: resultSchema.optional(),
+  context: contextSchema.optional(),
+  timestamp: z.string().refine(value => !isNaN(new Date(value).getTime()), "timestamp must be an ISO 8601 date").optional(),
+  version: z.string().regex(/^1\.0(\.\d+)?$/, "Only xAPI 1.0.x statements are accepted").optional(),
+  attachments: z.array(z.any()).optional(),
+}).passthrough();
+
+// X-Experience-API-Version is mandatory on every request except /about
+export function isSupportedXapiVersion(header: string | undefined): boolean {
+  return !!header && /^1\.0(\.\d+)?$/.test(header.trim());
+}
+
+// Credentials for LRS clients come from XAPI_LRS_KEY / XAPI_LRS_SECRET. Without them the LRS is disabled.
+export function isXapiLrsConfigured(): boolean {
+  return !!process.env.XAPI_LRS_KEY && !!process.env.XAPI_LRS_SECRET;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Returns the client key when the Authorization header carries valid Basic credentials
+export function authenticateXapiClient(authorizationHeader: string | undefined): string | undefined {
+  if (!isXapiLrsConfigured() || !authorizationHeader?.startsWith("Basic ")) return undefined;
+  const decoded = Buffer.from(authorizationHeader.slice(6).trim(), "base64").toString("utf8");
+  const separator = decoded.indexOf(":");
+  if (separator < 0) return undefined;
+  const key = decoded.slice(0, separator);
+  const secret = decoded.slice(separator + 1);
+  return safeEqual(key, process.env.XAPI_LRS_KEY!) && safeEqual(secret, process.env.XAPI_LRS_SECRET!) ? key : undefined;
+}
+
+// Middleware for /xapi routes: Basic auth plus the mandatory version header
+export const requireXapiClient: RequestHandler = (req: any, res, next) => {
+  res.set("X-Experience-API-Version", XAPI_VERSION);
+  if (!isXapiLrsConfigured()) {
+    return res.status(503).json({ message: "The xAPI Learning Record Store is not configured" });
+  }
+
+  const clientKey = authenticateXapiClient(req.headers.authorization);
+  if (!clientKey) {
+    res.set("WWW-Authenticate", 'Basic realm="xAPI"');
+    return res.status(401).json({ message: "Valid LRS credentials are required" });
+  }
+  if (!isSupportedXapiVersion(req.header("X-Experience-API-Version"))) {
+    return res.status(400).json({ message: "X-Experience-API-Version header must be 1.0.x" });
+  }
+
+  req.xapiClientKey = clientKey;
+  next();
+};
+
+function clientAuthority(clientKey: string): XapiAgent {
+  return {
+    objectType: "Agent",
+    name: `LRS client ${clientKey}`,
+    account: { homePage: getXapiActivityBaseUrl().replace(/\/xapi\/activities$/, ""), name: clientKey },
+  };
+}
+
+// JSON with keys sorted at every level, for comparing statements regardless of property order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Compares statements ignoring the properties the LRS sets itself. A re-sent statement
+// without a timestamp matches the stored one, which had the timestamp filled in.
+function isSameStatement(existing: XapiStatementRecord, incoming: Record<string, unknown>): boolean {
+  const { stored, authority, version, timestamp, ...existingContent } = existing.statement as Record<string, unknown>;
+  const { stored: _stored, authority: _authority, version: _version, timestamp: incomingTimestamp, ...incomingContent } = incoming;
+  if (incomingTimestamp !== undefined && new Date(String(incomingTimestamp)).getTime() !== new Date(String(timestamp)).getTime()) {
+    return false;
+  }
+  return canonicalJson(existingContent) === canonicalJson(incomingContent);
+}
+
+// Validates, de-duplicates and stores statements posted by a client. Returns the statement ids in order.
+export async function storeClientStatements(body: unknown, clientKey: string, statementId?: string): Promise<string[]> {
+  const batch = Array.isArray(body) ? body : [body];
+  if (batch.length === 0) {
+    throw new XapiRequestError("At least one statement is required");
+  }
+  if (statementId && Array.isArray(body)) {
+    throw new XapiRequestError("PUT accepts a single statement");
+  }
+
+  const parsed = batch.map((candidate, index) => {
+    const result = statementSchema.safeParse(candidate);
+    if (!result.success) {
+      throw new XapiRequestError(`Statement ${index}: ${result.error.errors.map(e => `${e.path.join(".") || "statement"} ${e.message}`).join("; ")}`);
+    }
+    if (result.data.attachments?.length) {
+      throw new XapiRequestError("Statements with attachments are not supported by this LRS");
+    }
+    return result.data as Record<string, any>;
+  });
+
+  if (statementId) {
+    if (parsed[0].id && parsed[0].id !== statementId) {
+      throw new XapiRequestError("The statementId parameter does not match the statement id");
+    }
+    parsed[0].id = statementId;
+  }
+
+  const ids = new Set<string>();
+  const stored = new Date();
+  const authority = clientAuthority(clientKey);
+  const toInsert = [];
+  const voids: Array<{ targetId: string; voidingId: string }> = [];
+
+  for (const statement of parsed) {
+    statement.id = (statement.id ?? randomUUID()).toLowerCase();
+    if (ids.has(statement.id)) {
+      throw new XapiRequestError(`Statement id ${statement.id} appears more than once in the batch`);
+    }
+    ids.add(statement.id);
+
+    const existing = await storage.getXapiStatement(statement.id);
+    if (existing) {
+      if (!isSameStatement(existing, statement)) {
+        throw new XapiRequestError(`A different statement with id ${statement.id} already exists`, 409);
+      }
+      continue;
+    }
+
+    if (statement.verb.id === XAPI_VERBS.voided.id) {
+      if (statement.object?.objectType !== "StatementRef") {
+        throw new XapiRequestError("A voiding statement's object must be a StatementRef");
+      }
+      const target = await storage.getXapiStatement(statement.object.id);
+      if (target && (target.statement as XapiStatement).verb.id === XAPI_VERBS.voided.id) {
+        throw new XapiRequestError("Voiding statements cannot be voided");
+      }
+      voids.push({ targetId: statement.object.id, voidingId: statement.id });
+    }
+
+    toInsert.push(toXapiStatementRecord(
+      { ...statement, timestamp: statement.timestamp ?? stored.toISOString() } as XapiStatement,
+      { source: "lrs_client", authority, stored },
+    ));
+  }
+
+  await storage.createXapiStatements(toInsert);
+  for (const { targetId, voidingId } of voids) {
+    await storage.voidXapiStatement(targetId, voidingId);
+  }
+
+  return parsed.map(statement => statement.id);
+}
+
+const singleStatementParams = ["statementId", "voidedStatementId"];
+const allowedWithSingle = ["attachments", "format"];
+
+// Handles GET /xapi/statements. Returns either a single statement or a StatementResult.
+export async function queryStatements(query: Record<string, unknown>, requestPath: string): Promise<
+  | { kind: "single"; statement: XapiStatement }
+  | { kind: "result"; result: { statements: XapiStatement[]; more: string } }
+> {
+  const params = Object.fromEntries(
+    Object.entries(query).filter(([, value]) => typeof value === "string") as Array<[string, string]>,
+  );
+
+  const singleParam = singleStatementParams.find(name => params[name]);
+  if (singleParam) {
+    const extra = Object.keys(params).filter(name => name !== singleParam && !allowedWithSingle.includes(name));
+    if (extra.length > 0) {
+      throw new XapiRequestError(`${singleParam} cannot be combined with ${extra.join(", ")}`);
+    }
+    const record = await storage.getXapiStatement(params[singleParam].toLowerCase());
+    const wantVoided = singleParam === "voidedStatementId";
+    if (!record || !!record.voided !== wantVoided) {
+      throw new XapiRequestError("Statement not found", 404);
+    }
+    return { kind: "single", statement: record.statement as XapiStatement };
+  }
+
+  const filters: XapiStatementFilters = {
+    limit: MAX_QUERY_LIMIT,
+    offset: 0,
+  };
+
+  if (params.agent) {
+    let agent: XapiAgent;
+    try {
+      agent = JSON.parse(params.agent);
+    } catch {
+      throw new XapiRequestError("agent must be a JSON encoded Agent");
+    }
+    const actorKey = getXapiActorKey(agent);
+    if (!actorKey) {
+      throw new XapiRequestError("agent must have an inverse functional identifier");
+    }
+    filters.actorKey = actorKey;
+  }
+  if (params.verb) filters.verbId = params.verb;
+  if (params.activity) filters.objectId = params.activity;
+  if (params.registration) filters.registration = params.registration.toLowerCase();
+  for (const name of ["since", "until"] as const) {
+    if (params[name]) {
+      const value = new Date(params[name]);
+      if (isNaN(value.getTime())) {
+        throw new XapiRequestError(`${name} must be an ISO 8601 timestamp`);
+      }
+      filters[name] = value;
+    }
+  }
+  if (params.limit) {
+    const limit = parseInt(params.limit, 10);
+    if (!Number.isFinite(limit) || limit < 0) {
+      throw new XapiRequestError("limit must be a non-negative integer");
+    }
+    filters.limit = limit === 0 ? MAX_QUERY_LIMIT : Math.min(limit, MAX_QUERY_LIMIT);
+  }
+  filters.ascending = params.ascending === "true";
+  // "more" links carry an opaque offset cursor alongside the original filters
+  if (params.cursor) {
+    const offset = parseInt(params.cursor, 10);
+    filters.offset = Number.isFinite(offset) && offset > 0 ? offset : 0;
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const records = await storage.getXapiStatements({ ...filters, limit: filters.limit + 1 });
+  const page = records.slice(0, filters.limit);
+
+  let more = "";
+  if (records.length > filters.limit) {
+    const next = new URLSearchParams(params);
+    next.set("cursor", String(filters.offset + filters.limit));
+    more = `${requestPath}?${next.toString()}`;
+  }
+
+  return {
+    kind: "result",
+    result: { statements: page.map(record => record.statement as XapiStatement), more },
+  };
+}
+
+export function calculateXapiForwardBackoffMs(attemptNumber: number): number {
+  return Math.min(MAX_FORWARD_BACKOFF_MS, BASE_FORWARD_BACKOFF_MS * Math.pow(2, Math.max(0, attemptNumber - 1)));
+}
+
+// Sends pending statements to XAPI_FORWARD_ENDPOINT in batches. Called by the "xapi_forwarding" scheduler job.
+export async function forwardDueXapiStatements(): Promise<{ processed: number; forwarded: number; failed: number }> {
+  const summary = { processed: 0, forwarded: 0, failed: 0 };
+  if (!isXapiForwardingEnabled()) return summary;
+
+  const due = await storage.getDueXapiStatementForwards(FORWARD_BATCH_SIZE);
+  if (due.length === 0) return summary;
+  summary.processed = due.length;
+
+  const endpoint = process.env.XAPI_FORWARD_ENDPOINT!.replace(/\/+$/, "");
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Experience-API-Version": XAPI_VERSION,
+  };
+  if (process.env.XAPI_FORWARD_USERNAME) {
+    const credentials = `${process.env.XAPI_FORWARD_USERNAME}:${process.env.XAPI_FORWARD_PASSWORD ?? ""}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  // The receiving LRS assigns its own stored timestamp
+  const statements = due.map(record => {
+    const { stored, ...statement } = record.statement as XapiStatement;
+    return statement;
+  });
+
+  const batch = await sendToLrs(`${endpoint}/statements`, "POST", headers, statements);
+  let outcomes: LrsSendOutcome[] = due.map(() => batch);
+  if (batch.conflict) {
+    // A batch 409 doesn't say which ids the LRS already holds, and the LRS stores none of the batch. Sending each
+    // statement with PUT narrows it down: a single-statement 409 means that statement id is already there.
+    outcomes = [];
+    for (let i = 0; i < due.length; i++) {
+      const url = `${endpoint}/statements?statementId=${encodeURIComponent(due[i].id)}`;
+      outcomes.push(await sendToLrs(url, "PUT", headers, statements[i]));
+    }
+  }
+
+  const forwardedIds = due.filter((_, i) => !outcomes[i].error).map(record => record.id);
+  if (forwardedIds.length > 0) {
+    await storage.updateXapiStatementForwarding(forwardedIds, {
+      forwardStatus: "forwarded",
+      forwardedAt: new Date(),
+      nextForwardAt: null,
+      lastForwardError: null,
+    });
+    summary.forwarded = forwardedIds.length;
+  }
+
+  for (let i = 0; i < due.length; i++) {
+    const { error, permanent } = outcomes[i];
+    if (!error) continue;
+    const record = due[i];
+    console.error(`[XAPI] Forwarding statement ${record.id} failed: ${error}`);
+    const attempts = (record.forwardAttempts ?? 0) + 1;
+    const giveUp = permanent || attempts >= MAX_FORWARD_ATTEMPTS;
+    await storage.updateXapiStatementForwarding([record.id], {
+      forwardStatus: giveUp ? "failed" : "pending",
+      forwardAttempts: attempts,
+      nextForwardAt: giveUp ? null : new Date(Date.now() + calculateXapiForwardBackoffMs(attempts)),
+      lastForwardError: error,
+    });
+    if (giveUp) summary.failed++;
+  }
+  return summary;
+}
+
+interface LrsSendOutcome {
+  conflict: boolean; // HTTP 409: the LRS already holds a statement with an id that was sent
+  error?: string;
+  permanent?: boolean; // a client error that retrying won't fix
+}
+
+async function sendToLrs(url: string, method: "POST" | "PUT", headers: Record<string, string>, body: unknown): Promise<LrsSendOutcome> {
+  try {
+    const response = await fetch(url, { method, headers, body: JSON.stringify(body), signal: AbortSignal.timeout(30 * 1000) });
+    if (response.ok) return { conflict: false };
+    if (response.status === 409) return { conflict: true };
+    return {
+      conflict: false,
+      error: `HTTP ${response.status}: ${(await response.text()).slice(0, 500)}`,
+      permanent: response.status >= 400 && response.status < 500 && response.status !== 429,
+    };
+  } catch (fetchError: any) {
+    return { conflict: false, error: fetchError?.message || String(fetchError) };
+  }
+}
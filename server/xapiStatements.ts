@@ -0,0 +1,195 @@
+import { randomUUID } from "crypto";
+import type { InsertXapiStatementRecord, User } from "@shared/schema";
+
+// Statement builders for learning events.
+
+export const XAPI_VERSION = "1.0.3";
+
+export const XAPI_VERBS = {
+  experienced: { id: "http://adlnet.gov/expapi/verbs/experienced", display: { "en-US": "experienced" } },
+  attempted: { id: "http://adlnet.gov/expapi/verbs/attempted", display: { "en-US": "attempted" } },
+  passed: { id: "http://adlnet.gov/expapi/verbs/passed", display: { "en-US": "passed" } },
+  failed: { id: "http://adlnet.gov/expapi/verbs/failed", display: { "en-US": "failed" } },
+  completed: { id: "http://adlnet.gov/expapi/verbs/completed", display: { "en-US": "completed" } },
+  voided: { id: "http://adlnet.gov/expapi/verbs/voided", display: { "en-US": "voided" } },
+} as const;
+
+const ACTIVITY_TYPES = {
+  course: "http://adlnet.gov/expapi/activities/course",
+  lesson: "http://adlnet.gov/expapi/activities/lesson",
+  assessment: "http://adlnet.gov/expapi/activities/assessment",
+  learningPath: "http://adlnet.gov/expapi/activities/module",
+  step: "http://adlnet.gov/expapi/activities/lesson",
+} as const;
+
+export type XapiActivityKind = keyof typeof ACTIVITY_TYPES;
+
+export interface XapiAgent {
+  objectType?: "Agent";
+  name?: string;
+  mbox?: string;
+  mbox_sha1sum?: string;
+  openid?: string;
+  account?: { homePage: string; name: string };
+}
+
+export interface XapiActivity {
+  objectType: "Activity";
+  id: string;
+  definition?: {
+    type?: string;
+    name?: Record<string, string>;
+    description?: Record<string, string>;
+  };
+}
+
+export interface XapiResult {
+  score?: { scaled?: number; raw?: number; min?: number; max?: number };
+  success?: boolean;
+  completion?: boolean;
+  duration?: string;
+  response?: string;
+}
+
+// The subset of the statement shape the LMS emits; statements from LRS clients are stored as posted
+export interface XapiStatement {
+  id: string;
+  actor: XapiAgent;
+  verb: { id: string; display?: Record<string, string> };
+  object: XapiActivity | { objectType: "StatementRef"; id: string } | Record<string, any>;
+  result?: XapiResult;
+  context?: {
+    registration?: string;
+    platform?: string;
+    language?: string;
+    contextActivities?: { parent?: XapiActivity[]; grouping?: XapiActivity[]; category?: XapiActivity[] };
+    extensions?: Record<string, unknown>;
+  };
+  timestamp: string;
+  stored?: string;
+  authority?: XapiAgent;
+  version?: string;
+}
+
+// Activity IRIs must be stable across deployments, so prefer an explicit base over the request host
+export function getXapiActivityBaseUrl(): string {
+  const configured = process.env.XAPI_ACTIVITY_BASE_URL;
+  if (configured) return configured.replace(/\/+$/, "");
+  const domain = process.env.REPLIT_DOMAINS?.split(",")[0];
+  return domain ? `https://${domain}/xapi/activities` : "https://wegrow.local/xapi/activities";
+}
+
+export function buildXapiActivity(kind: XapiActivityKind, id: string, name?: string | null): XapiActivity {
+  return {
+    objectType: "Activity",
+    id: `${getXapiActivityBaseUrl()}/${kind}/${encodeURIComponent(id)}`,
+    definition: {
+      type: ACTIVITY_TYPES[kind],
+      ...(name ? { name: { "en-US": name } } : {}),
+    },
+  };
+}
+
+// Learners are identified by email where we have one so external LRSs can join with other systems
+export function buildXapiActor(user: Pick<User, "id" | "email" | "firstName" | "lastName">): XapiAgent {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ") || undefined;
+  if (user.email) {
+    return { objectType: "Agent", name, mbox: `mailto:${user.email.toLowerCase()}` };
+  }
+  return { objectType: "Agent", name, account: { homePage: getXapiActivityBaseUrl().replace(/\/xapi\/activities$/, ""), name: user.id } };
+}
+
+// The LMS's own authority for statements it emits
+export function getXapiLmsAuthority(): XapiAgent {
+  return {
+    objectType: "Agent",
+    name: "WeGrow LMS",
+    account: { homePage: getXapiActivityBaseUrl().replace(/\/xapi\/activities$/, ""), name: "lms" },
+  };
+}
+
+// Key used for agent filtering: the actor's inverse functional identifier
+export function getXapiActorKey(agent: XapiAgent): string | undefined {
+  if (agent.mbox) return `mbox:${agent.mbox.toLowerCase()}`;
+  if (agent.mbox_sha1sum) return `mbox_sha1sum:${agent.mbox_sha1sum.toLowerCase()}`;
+  if (agent.openid) return `openid:${agent.openid}`;
+  if (agent.account?.homePage && agent.account?.name) return `account:${agent.account.homePage}|${agent.account.name}`;
+  return undefined;
+}
+
+// ISO 8601 duration from seconds, as used by result.duration
+export function toXapiDuration(seconds: number): string {
+  return `PT${Math.max(0, Math.round(seconds))}S`;
+}
+
+export function buildXapiScore(percentage: number): XapiResult["score"] {
+  const raw = Math.max(0, Math.min(100, Math.round(percentage)));
+  return { scaled: raw / 100, raw, min: 0, max: 100 };
+}
+
+export function buildLearningStatement(params: {
+  actor: XapiAgent;
+  verb: keyof typeof XAPI_VERBS;
+  object: XapiActivity;
+  result?: XapiResult;
+  registration?: string;
+  parent?: XapiActivity[];
+  grouping?: XapiActivity[];
+  timestamp?: Date;
+}): XapiStatement {
+  const contextActivities = {
+    ...(params.parent?.length ? { parent: params.parent } : {}),
+    ...(params.grouping?.length ? { grouping: params.grouping } : {}),
+  };
+
+  return {
+    id: randomUUID(),
+    actor: params.actor,
+    verb: XAPI_VERBS[params.verb],
+    object: params.object,
+    ...(params.result ? { result: params.result } : {}),
+    context: {
+      platform: "WeGrow LMS",
+      language: "en-US",
+      ...(params.registration ? { registration: params.registration } : {}),
+      ...(Object.keys(contextActivities).length ? { contextActivities } : {}),
+    },
+    timestamp: (params.timestamp ?? new Date()).toISOString(),
+  };
+}
+
+export function isXapiForwardingEnabled(): boolean {
+  return !!process.env.XAPI_FORWARD_ENDPOINT;
+}
+
+// Stamps stored/authority onto a statement and derives the indexed columns
+export function toXapiStatementRecord(
+  statement: XapiStatement,
+  options: { source: "internal" | "lrs_client"; authority: XapiAgent; userId?: string; stored?: Date },
+): InsertXapiStatementRecord {
+  const stored = options.stored ?? new Date();
+  const complete: XapiStatement = {
+    ...statement,
+    timestamp: statement.timestamp ?? stored.toISOString(),
+    stored: stored.toISOString(),
+    authority: options.authority,
+    version: statement.version ?? XAPI_VERSION,
+  };
+  const forwarding = isXapiForwardingEnabled();
+
+  return {
+    id: complete.id,
+    statement: complete,
+    actorKey: getXapiActorKey(complete.actor) ?? "unknown",
+    verbId: complete.verb.id,
+    objectId: typeof complete.object?.id === "string" ? complete.object.id : null,
+    registration: complete.context?.registration ?? null,
+    userId: options.userId ?? null,
+    source: options.source,
+    voided: false,
+    timestamp: new Date(complete.timestamp),
+    stored,
+    forwardStatus: forwarding ? "pending" : null,
+    nextForwardAt: forwarding ? stored : null,
+  };
+}
@@ -9,6 +9,9 @@ import {
   varchar,
   text,
   integer,
+  bigint,
+  bigserial,
+  real,
   boolean,
   pgEnum,
   unique,
@@ -16,7 +19,7 @@ import {
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-// Session storage table - required for Replit Auth
+// Session storage table - required for authentication
 export const sessions = pgTable(
   "sessions",
   {
@@ -51,6 +54,9 @@ export const companyValueEnum = pgEnum("company_value", ["excellence", "teamwork
 // OKR metric type enum for key results
 export const metricTypeEnum = pgEnum("metric_type", ["percentage", "numeric", "currency", "boolean"]);
 
+// Which way a key result should move; only needed when its target equals its start value ("hold the line")
+export const keyResultDirectionEnum = pgEnum("key_result_direction", ["increase", "decrease"]);
+
 // Objective type enum for strategic classification
 export const objectiveTypeEnum = pgEnum("objective_type", ["committed", "aspirational"]);
 
@@ -139,9 +145,16 @@ export const snapshotCreatedForEnum = pgEnum("snapshot_created_for", [
   "management_review",
   "quarterly_report",
   "audit",
-  "scheduled"
+  "scheduled",
+  "cycle_close"
 ]);
 
+// OKR cycle lifecycle: open for planning, in progress while being worked, closed once graded (progress locked)
+export const okrCycleStatusEnum = pgEnum("okr_cycle_status", ["open", "in_progress", "closed"]);
+
+// How an objective's progress is derived from its key results and the objectives and goals beneath it
+export const okrRollupMethodEnum = pgEnum("okr_rollup_method", ["weighted_average", "min", "max", "manual"]);
+
 // LMS-specific enums
 export const lessonTypeEnum = pgEnum("lesson_type", ["video", "quiz", "document", "link"]);
 export const contentTypeEnum = pgEnum("content_type", [
@@ -158,8 +171,17 @@ export const courseTypeEnum = pgEnum("course_type", ["internal", "external"]);
 export const trainingFormatEnum = pgEnum("training_format", ["online", "in_person", "hybrid"]);
 export const enrollmentStatusEnum = pgEnum("enrollment_status", ["enrolled", "in_progress", "completed", "expired"]);
 export const lessonStatusEnum = pgEnum("lesson_status", ["not_started", "in_progress", "completed"]);
-export const completionMethodEnum = pgEnum("completion_method", ["manual", "quiz", "auto"]);
-export const questionTypeEnum = pgEnum("question_type", ["multiple_choice", "true_false", "multi_select"]);
+export const completionMethodEnum = pgEnum("completion_method", ["manual", "quiz", "auto", "scorm"]);
+export const questionTypeEnum = pgEnum("question_type", [
+  "multiple_choice",
+  "true_false",
+  "multi_select",
+  "short_answer",
+  "numeric",
+  "ordering",
+  "matching",
+  "essay",
+]);
 export const trainingStatusEnum = pgEnum("training_status", ["in_progress", "completed", "on_hold"]);
 
 // Phase 2: Gamification enums
@@ -184,7 +206,8 @@ export const notificationTypeEnum = pgEnum("notification_type", [
   "course_completion", "learning_path_completion", "quiz_passed", "quiz_failed",
   "certification_issued", "certificate_expiring", "training_due", "training_overdue",
   "competency_achieved", "badge_awarded", "enrollment_reminder", "meeting_reminder",
-  "goal_deadline", "development_plan_update", "recognition_received", "system_alert"
+  "goal_deadline", "development_plan_update", "recognition_received", "system_alert",
+  "certificate_revoked", "objective_at_risk"
 ]);
 
 // Skill Category Type enum
@@ -192,12 +215,82 @@ export const skillCategoryTypeEnum = pgEnum("skill_category_type", [
   "technical", "behavioral", "safety", "compliance", "leadership", "operational"
 ]);
 export const notificationPriorityEnum = pgEnum("notification_priority", ["low", "medium", "high", "urgent"]);
-export const notificationChannelEnum = pgEnum("notification_channel", ["in_app", "n8n_webhook", "system"]);
+export const notificationChannelEnum = pgEnum("notification_channel", ["in_app", "n8n_webhook", "system", "email", "sms"]);
 export const webhookEventTypeEnum = pgEnum("webhook_event_type", [
   "training_completed", "deadline_approaching", "compliance_alert", "user_milestone", 
-  "course_enrollment", "system_notification", "custom_event"
+  "course_enrollment", "system_notification", "custom_event", "domain_event"
 ]);
 
+// Routes each in-app notification type to the webhook event its n8n config subscribes to
+export const notificationWebhookEventMap: Record<
+  (typeof notificationTypeEnum.enumValues)[number],
+  (typeof webhookEventTypeEnum.enumValues)[number]
+> = {
+  course_completion: "training_completed",
+  learning_path_completion: "training_completed",
+  quiz_passed: "training_completed",
+  certification_issued: "training_completed",
+  quiz_failed: "compliance_alert",
+  training_overdue: "compliance_alert",
+  certificate_expiring: "deadline_approaching",
+  certificate_revoked: "compliance_alert",
+  objective_at_risk: "compliance_alert",
+  training_due: "deadline_approaching",
+  goal_deadline: "deadline_approaching",
+  meeting_reminder: "deadline_approaching",
+  enrollment_reminder: "course_enrollment",
+  competency_achieved: "user_milestone",
+  badge_awarded: "user_milestone",
+  recognition_received: "user_milestone",
+  development_plan_update: "system_notification",
+  system_alert: "system_notification",
+};
+
+// Domain events written to the domain_events outbox (see server/domainEvents.ts). Webhooks, in-app notifications
+// and automation rules subscribe to these instead of being called from each route.
+export const DOMAIN_EVENT_TYPES = {
+  "enrollment.created": "A learner was enrolled in a course",
+  "enrollment.completed": "A learner completed a course",
+  "quiz.passed": "A quiz attempt was graded as a pass",
+  "quiz.failed": "A quiz attempt was graded as a fail",
+  "certificate.issued": "A certificate was issued or reissued",
+  "certificate.revoked": "A certificate was revoked",
+  "badge.awarded": "A badge was awarded",
+  "key_result.progress_updated": "Progress was recorded against a key result",
+  "nonconformity.raised": "A nonconformity was raised against an objective",
+  "okr_cycle.closed": "An OKR cycle was graded and closed",
+  "objective.at_risk": "An objective was put at risk by an objective it depends on",
+  "competency.status_changed": "A person's competency status changed",
+  "user.created": "A user was created by SCIM provisioning or bulk import",
+  "user.role_changed": "A user's job role changed",
+  "user.team_changed": "A user's team changed",
+} as const;
+
+export type DomainEventType = keyof typeof DOMAIN_EVENT_TYPES;
+export const DOMAIN_EVENT_TYPE_NAMES = Object.keys(DOMAIN_EVENT_TYPES) as [DomainEventType, ...DomainEventType[]];
+
+// Payload stored with each event type; subscribers look up anything else they need
+export interface DomainEventPayloads {
+  "enrollment.created": { enrollmentId: string; userId: string; courseVersionId: string };
+  "enrollment.completed": { enrollmentId: string; userId: string; courseVersionId: string; completedAt: string };
+  "quiz.passed": { attemptId: string; quizId: string; userId: string; enrollmentId: string | null; score: number };
+  "quiz.failed": { attemptId: string; quizId: string; userId: string; enrollmentId: string | null; score: number };
+  "certificate.issued": { certificateId: string; userId: string; certificateNumber: string; title: string | null; replacesCertificateId: string | null };
+  "certificate.revoked": { certificateId: string; userId: string; certificateNumber: string; title: string | null; reason: string; replacedByCertificateId: string | null };
+  "badge.awarded": { userBadgeId: string; badgeId: string; userId: string };
+  "key_result.progress_updated": { progressUpdateId: string; keyResultId: string; keyResultType: string; previousValue: number; newValue: number; confidenceScore: number | null };
+  "nonconformity.raised": { nonconformityId: string; objectiveId: string; objectiveType: string; nonconformityType: string; impact: string; description: string };
+  "okr_cycle.closed": { cycleId: string; name: string; objectiveCount: number; averageScore: number | null; rolledForwardCount: number; rolledForwardToCycleId: string | null };
+  "objective.at_risk": { objectiveId: string; title: string; ownerId: string; blockedBy: string[]; newlyBlockedBy: string[] };
+  "competency.status_changed": { historyId: string | null; userId: string; competencyLibraryId: string; previousStatus: string | null; newStatus: string; reason: string | null };
+  "user.created": { userId: string; source: string };
+  "user.role_changed": { userId: string; source: string };
+  "user.team_changed": { userId: string; source: string };
+}
+
+// A webhook subscribes to event types by name, or to everything with "*"
+export const webhookDomainEventTypesSchema = z.array(z.enum(["*", ...DOMAIN_EVENT_TYPE_NAMES])).max(DOMAIN_EVENT_TYPE_NAMES.length + 1);
+
 // Departments table - normalized organizational departments
 export const departments = pgTable("departments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -224,6 +317,7 @@ export const teams = pgTable("teams", {
   teamLeadId: varchar("team_lead_id").notNull(),
   department: varchar("department"), // DEPRECATED: Keep for migration, use departmentId instead
   departmentId: varchar("department_id"), // FK to departments.id - normalized department reference
+  externalId: varchar("external_id").unique(), // ID of the group this team is provisioned from (SCIM externalId)
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -350,7 +444,7 @@ export const jobRoles = pgTable("job_roles", {
   index("job_roles_department_idx").on(table.departmentId),
 ]);
 
-// Users table - required for Replit Auth
+// Users table - required for authentication
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: varchar("email").unique(),
@@ -367,6 +461,12 @@ export const users = pgTable("users", {
   teamName: varchar("team_name"), // Keep for backward compatibility during transition
   jobTitle: varchar("job_title"),
   startDate: timestamp("start_date"),
+  departmentId: varchar("department_id"), // FK to departments.id - home department as recorded by HR
+  externalId: varchar("external_id").unique(), // ID in the HR/identity system that provisions this user (SCIM externalId)
+  userName: varchar("user_name").unique(), // Sign-in name from the identity provider (SCIM userName)
+  isActive: boolean("is_active").default(true).notNull(), // Deactivated users keep their records but can't sign in
+  deactivatedAt: timestamp("deactivated_at"),
+  isServiceAccount: boolean("is_service_account").default(false).notNull(), // Non-human account that only signs in with API tokens
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -385,9 +485,51 @@ export const users = pgTable("users", {
     foreignColumns: [teams.id],
     name: "users_team_fk"
   }).onDelete("set null"),
+  foreignKey({
+    columns: [table.departmentId],
+    foreignColumns: [departments.id],
+    name: "users_department_fk"
+  }).onDelete("set null"),
   index("users_job_role_idx").on(table.jobRoleId),
   index("users_manager_idx").on(table.managerId),
   index("users_team_idx").on(table.teamId),
+  index("users_department_idx").on(table.departmentId),
+]);
+
+// Local username/password sign-in (AUTH_PROVIDER=local). One credential per user; the hash is never returned by the API.
+export const userCredentials = pgTable("user_credentials", {
+  userId: varchar("user_id").primaryKey(),
+  username: varchar("username").notNull().unique(), // Stored lower-case
+  passwordHash: varchar("password_hash").notNull(), // scrypt$N$r$p$salt$hash
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  lastLoginAt: timestamp("last_login_at"),
+  passwordChangedAt: timestamp("password_changed_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "user_credentials_user_fk"
+  }).onDelete("cascade"),
+]);
+
+// OKR cycles (e.g. "2026 Q4") that company objectives, team objectives and goals are planned and graded in
+export const okrCycles = pgTable("okr_cycles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  status: okrCycleStatusEnum("status").default("open").notNull(),
+  closedAt: timestamp("closed_at"),
+  closedBy: varchar("closed_by"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("okr_cycles_name_idx").on(table.name),
+  index("okr_cycles_status_idx").on(table.status, table.startDate),
 ]);
 
 // Company objectives
@@ -408,10 +550,32 @@ export const companyObjectives = pgTable("company_objectives", {
   riskLevel: riskLevelEnum("risk_level"), // Risk assessment (ISO 6.1)
   riskMitigation: text("risk_mitigation"), // Mitigation strategies (ISO 6.1)
   dependencies: text("dependencies").array(), // Array of objective IDs this depends on
+  blockedBy: text("blocked_by").array(), // Upstream objectives (direct or further up) that are red or critical; set by risk propagation
+  atRiskSince: timestamp("at_risk_since"), // When blockedBy last went from empty to non-empty
+  cycleId: varchar("cycle_id"), // OKR cycle; null for objectives planned outside a cycle
+  finalScore: real("final_score"), // 0.0-1.0 grade recorded when the cycle closed
+  retrospective: text("retrospective"), // What was learned, recorded at close-out
+  rolledForwardFromId: varchar("rolled_forward_from_id"), // Unfinished objective in an earlier cycle this continues
+  // Progress roll-up: recalculated from the children whenever their progress changes
+  rollupMethod: okrRollupMethodEnum("rollup_method").default("weighted_average").notNull(),
+  rollupOverride: real("rollup_override"), // 0.0-1.0, used instead of the children when the method is manual
+  rollupOverrideReason: text("rollup_override_reason"),
+  rollupOverriddenBy: varchar("rollup_overridden_by"),
+  rollupOverriddenAt: timestamp("rollup_overridden_at"),
+  rollupProgress: real("rollup_progress"), // 0.0-1.0; null until something beneath it has been scored
+  rollupBreakdown: jsonb("rollup_breakdown"), // OkrRollupBreakdown: every input and how the progress was worked out
+  rollupCalculatedAt: timestamp("rollup_calculated_at"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  foreignKey({
+    columns: [table.cycleId],
+    foreignColumns: [okrCycles.id],
+    name: "company_objectives_cycle_fk"
+  }),
+  index("company_objectives_cycle_idx").on(table.cycleId),
+]);
 
 // Key results for company objectives
 export const keyResults = pgTable("key_results", {
@@ -423,9 +587,11 @@ export const keyResults = pgTable("key_results", {
   startValue: integer("start_value").default(0), // Baseline measurement
   targetValue: integer("target_value").notNull(),
   currentValue: integer("current_value").default(0),
+  direction: keyResultDirectionEnum("direction").default("increase").notNull(), // Decrease: a hold-the-line target is a ceiling
   unit: varchar("unit").notNull(), // %, count, score, etc.
   confidenceScore: integer("confidence_score"), // 1-10 confidence in achieving target
   lastConfidenceUpdate: timestamp("last_confidence_update"),
+  rollupWeight: real("rollup_weight").default(1).notNull(), // Share of the objective's weighted roll-up
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -450,6 +616,20 @@ export const teamObjectives = pgTable("team_objectives", {
   dependencies: text("dependencies").array(), // Array of objective IDs this depends on
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
+  cycleId: varchar("cycle_id"), // OKR cycle; null for objectives planned outside a cycle
+  finalScore: real("final_score"), // 0.0-1.0 grade recorded when the cycle closed
+  retrospective: text("retrospective"), // What was learned, recorded at close-out
+  rolledForwardFromId: varchar("rolled_forward_from_id"), // Unfinished objective in an earlier cycle this continues
+  // Progress roll-up: recalculated from the children whenever their progress changes
+  rollupMethod: okrRollupMethodEnum("rollup_method").default("weighted_average").notNull(),
+  rollupOverride: real("rollup_override"), // 0.0-1.0, used instead of the children when the method is manual
+  rollupOverrideReason: text("rollup_override_reason"),
+  rollupOverriddenBy: varchar("rollup_overridden_by"),
+  rollupOverriddenAt: timestamp("rollup_overridden_at"),
+  rollupProgress: real("rollup_progress"), // 0.0-1.0; null until something beneath it has been scored
+  rollupBreakdown: jsonb("rollup_breakdown"), // OkrRollupBreakdown: every input and how the progress was worked out
+  rollupCalculatedAt: timestamp("rollup_calculated_at"),
+  rollupWeight: real("rollup_weight").default(1).notNull(), // Share of the company objective's weighted roll-up
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -459,7 +639,13 @@ export const teamObjectives = pgTable("team_objectives", {
     foreignColumns: [teams.id],
     name: "team_objectives_team_fk"
   }).onDelete("cascade"),
+  foreignKey({
+    columns: [table.cycleId],
+    foreignColumns: [okrCycles.id],
+    name: "team_objectives_cycle_fk"
+  }),
   index("team_objectives_team_idx").on(table.teamId),
+  index("team_objectives_cycle_idx").on(table.cycleId),
 ]);
 
 // Key results for team objectives
@@ -472,10 +658,12 @@ export const teamKeyResults = pgTable("team_key_results", {
   startValue: integer("start_value").default(0), // Baseline measurement
   targetValue: integer("target_value").notNull(),
   currentValue: integer("current_value").default(0),
+  direction: keyResultDirectionEnum("direction").default("increase").notNull(), // Decrease: a hold-the-line target is a ceiling
   unit: varchar("unit").notNull(), // %, count, score, etc.
   confidenceScore: integer("confidence_score"), // 1-10 confidence in achieving target
   lastConfidenceUpdate: timestamp("last_confidence_update"),
   isSharedGoal: boolean("is_shared_goal").default(false), // True if whole team contributes
+  rollupWeight: real("rollup_weight").default(1).notNull(), // Share of the objective's weighted roll-up
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -658,16 +846,18 @@ export const okrSnapshots = pgTable("okr_snapshots", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   snapshotDate: timestamp("snapshot_date").defaultNow().notNull(),
   objectiveId: varchar("objective_id").notNull(),
-  objectiveType: varchar("objective_type").notNull(), // 'company' or 'team'
+  objectiveType: varchar("objective_type").notNull(), // 'company', 'team' or 'goal'
   objectiveData: jsonb("objective_data").notNull(), // Complete objective state
   keyResultsData: jsonb("key_results_data").notNull(), // Array of all KRs
   progressMetrics: jsonb("progress_metrics"), // Calculated metrics
   createdFor: snapshotCreatedForEnum("created_for"),
   managementReviewId: varchar("management_review_id"),
+  cycleId: varchar("cycle_id"), // Set on the snapshots taken when a cycle closes
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   index("okr_snapshots_objective_idx").on(table.objectiveId, table.snapshotDate),
   index("okr_snapshots_review_idx").on(table.managementReviewId),
+  index("okr_snapshots_cycle_idx").on(table.cycleId),
 ]);
 
 // Individual goals (OKRs)
@@ -684,10 +874,22 @@ export const goals = pgTable("goals", {
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
   confidenceLevel: confidenceLevelEnum("confidence_level").default("green"),
+  cycleId: varchar("cycle_id"), // OKR cycle; null for goals set outside a cycle
+  finalScore: real("final_score"), // 0.0-1.0 grade recorded when the cycle closed
+  retrospective: text("retrospective"), // What was learned, recorded at close-out
+  rolledForwardFromId: varchar("rolled_forward_from_id"), // Unfinished goal in an earlier cycle this continues
+  rollupWeight: real("rollup_weight").default(1).notNull(), // Share of the parent objective's weighted roll-up
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  foreignKey({
+    columns: [table.cycleId],
+    foreignColumns: [okrCycles.id],
+    name: "goals_cycle_fk"
+  }),
+  index("goals_cycle_idx").on(table.cycleId),
+]);
 
 // Weekly check-ins
 export const weeklyCheckIns = pgTable("weekly_check_ins", {
@@ -1001,6 +1203,7 @@ export const quizzes = pgTable("quizzes", {
   description: text("description"),
   passingScore: integer("passing_score").default(70), // percentage
   timeLimit: integer("time_limit"), // minutes
+  expiryAction: varchar("expiry_action").default("auto_submit"), // auto_submit, void - what happens to an attempt still open when its time runs out
   maxAttempts: integer("max_attempts").default(3),
   randomizeQuestions: boolean("randomize_questions").default(false),
   createdAt: timestamp("created_at").defaultNow(),
@@ -1012,13 +1215,79 @@ export const quizQuestions = pgTable("quiz_questions", {
   quizId: varchar("quiz_id").notNull(),
   type: questionTypeEnum("type").notNull(),
   questionText: text("question_text").notNull(),
-  options: jsonb("options"), // Array of answer options
-  correctAnswers: jsonb("correct_answers"), // Array of correct option indices
+  options: jsonb("options"), // Array of answer options; MatchingOptions for matching, EssayOptions for essay
+  correctAnswers: jsonb("correct_answers"), // Option indices for choice and ordering questions; ShortAnswerKey / NumericAnswerKey / matched right indices otherwise
   explanation: text("explanation"),
   orderIndex: integer("order_index"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Question banks - reusable pools of questions that quizzes draw from per attempt
+export const questionBanks = pgTable("question_banks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").default(true),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Questions held in a bank. Tagged with a skill directly, or with a lesson whose lesson_skills supply the skills.
+export const questionBankQuestions = pgTable("question_bank_questions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bankId: varchar("bank_id").notNull(), // FK to question_banks.id
+  type: questionTypeEnum("type").notNull(),
+  questionText: text("question_text").notNull(),
+  options: jsonb("options"), // Same shapes as quiz_questions.options
+  correctAnswers: jsonb("correct_answers"), // Same shapes as quiz_questions.correct_answers
+  explanation: text("explanation"),
+  difficulty: varchar("difficulty").notNull().default("medium"), // easy, medium, hard
+  skillId: varchar("skill_id"), // FK to skills.id
+  lessonId: varchar("lesson_id"), // FK to lessons.id - skills are inherited through lesson_skills
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  foreignKey({
+    columns: [table.bankId],
+    foreignColumns: [questionBanks.id],
+    name: "question_bank_questions_bank_fk"
+  }).onDelete("cascade"),
+  foreignKey({
+    columns: [table.skillId],
+    foreignColumns: [skills.id],
+    name: "question_bank_questions_skill_fk"
+  }).onDelete("set null"),
+  index("question_bank_questions_bank_idx").on(table.bankId),
+  index("question_bank_questions_skill_idx").on(table.skillId),
+]);
+
+// Draw rules - each attempt draws questionCount questions from a bank, optionally filtered and stratified
+export const quizDrawRules = pgTable("quiz_draw_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quizId: varchar("quiz_id").notNull(), // FK to quizzes.id
+  bankId: varchar("bank_id").notNull(), // FK to question_banks.id
+  questionCount: integer("question_count").notNull(),
+  skillId: varchar("skill_id"), // Only draw questions tagged with this skill
+  difficulty: varchar("difficulty"), // Only draw questions of this difficulty
+  stratifyBy: varchar("stratify_by").notNull().default("none"), // none, skill, difficulty
+  orderIndex: integer("order_index").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  foreignKey({
+    columns: [table.quizId],
+    foreignColumns: [quizzes.id],
+    name: "quiz_draw_rules_quiz_fk"
+  }).onDelete("cascade"),
+  foreignKey({
+    columns: [table.bankId],
+    foreignColumns: [questionBanks.id],
+    name: "quiz_draw_rules_bank_fk"
+  }).onDelete("restrict"),
+  index("quiz_draw_rules_quiz_idx").on(table.quizId),
+]);
+
 // User enrollments in courses
 export const enrollments = pgTable("enrollments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1049,10 +1318,59 @@ export const lessonProgress = pgTable("lesson_progress", {
   timeSpent: integer("time_spent").default(0), // Total time in seconds
   completionMethod: completionMethodEnum("completion_method"), // How the lesson was completed
   completedAt: timestamp("completed_at"),
+  // SCORM runtime state (SCORM lessons only)
+  scormLessonStatus: varchar("scorm_lesson_status"), // cmi.core.lesson_status, or completion/success status for SCORM 2004
+  scormScore: integer("scorm_score"), // Percentage derived from cmi score
+  scormSuspendData: text("scorm_suspend_data"), // cmi.suspend_data, returned to the SCO on resume
+  scormLessonLocation: varchar("scorm_lesson_location"), // cmi.core.lesson_location / cmi.location bookmark
+  scormCmiData: jsonb("scorm_cmi_data"), // Full CMI data model per SCO: { [scoIdentifier]: { "cmi.x": "value" } }
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// SCORM packages - unzipped into object storage and parsed from imsmanifest.xml
+export const scormPackages = pgTable("scorm_packages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: varchar("title").notNull(),
+  scormVersion: varchar("scorm_version").notNull(), // "1.2" or "2004"
+  contentPath: varchar("content_path").notNull(), // Object entity prefix, e.g. /objects/scorm/<id>
+  manifestPath: varchar("manifest_path").notNull(), // Object path of imsmanifest.xml
+  sourceObjectPath: varchar("source_object_path"), // Uploaded zip
+  scos: jsonb("scos").notNull(), // Array of ScormSco: { identifier, title, href, masteryScore }
+  fileCount: integer("file_count").default(0),
+  totalBytes: integer("total_bytes").default(0),
+  uploadedBy: varchar("uploaded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// xAPI statements - the built-in Learning Record Store behind /xapi/statements.
+// Holds statements emitted by the LMS itself and statements posted by external activity providers.
+export const xapiStatements = pgTable("xapi_statements", {
+  id: varchar("id").primaryKey(), // Statement UUID (assigned by the LRS when the client omits it)
+  statement: jsonb("statement").notNull(), // Full statement as returned from the LRS, including stored and authority
+  actorKey: varchar("actor_key").notNull(), // Actor's inverse functional identifier, e.g. "mbox:mailto:a@b.com"
+  verbId: varchar("verb_id").notNull(),
+  objectId: varchar("object_id"), // Activity IRI, or the target id for StatementRef objects
+  registration: varchar("registration"), // context.registration
+  userId: varchar("user_id"), // Set for statements emitted by the LMS
+  source: varchar("source").notNull().default("internal"), // "internal" or "lrs_client"
+  voided: boolean("voided").default(false),
+  voidedByStatementId: varchar("voided_by_statement_id"),
+  timestamp: timestamp("timestamp").notNull(),
+  stored: timestamp("stored").notNull().defaultNow(),
+  forwardStatus: varchar("forward_status"), // null when forwarding is disabled; "pending", "forwarded", "failed"
+  forwardAttempts: integer("forward_attempts").default(0),
+  nextForwardAt: timestamp("next_forward_at"),
+  forwardedAt: timestamp("forwarded_at"),
+  lastForwardError: text("last_forward_error"),
+}, (table) => [
+  index("xapi_statements_actor_idx").on(table.actorKey),
+  index("xapi_statements_verb_idx").on(table.verbId),
+  index("xapi_statements_object_idx").on(table.objectId),
+  index("xapi_statements_stored_idx").on(table.stored),
+  index("xapi_statements_forward_idx").on(table.forwardStatus, table.nextForwardAt),
+]);
+
 // Quiz attempts
 export const quizAttempts = pgTable("quiz_attempts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1060,13 +1378,28 @@ export const quizAttempts = pgTable("quiz_attempts", {
   userId: varchar("user_id").notNull(),
   enrollmentId: varchar("enrollment_id").notNull(),
   attemptNumber: integer("attempt_number").notNull(),
-  score: integer("score").default(0), // percentage
+  score: integer("score").default(0), // percentage; null while essays await grading
   passed: boolean("passed").default(false),
   answers: jsonb("answers"), // User's answers
+  questionSet: jsonb("question_set"), // Array of AttemptQuestion frozen when the attempt starts; null for attempts predating question banks
+  gradingStatus: varchar("grading_status").default("graded"), // graded, pending_grading (essays awaiting a supervisor)
+  questionResults: jsonb("question_results"), // Array of AttemptQuestionResult written on submit and completed by manual grading
+  gradedBy: varchar("graded_by"), // Supervisor who finalized manual grading
+  gradedAt: timestamp("graded_at"),
   startedAt: timestamp("started_at").defaultNow(),
+  deadlineAt: timestamp("deadline_at"), // startedAt plus the quiz time limit; null for untimed quizzes
+  lastSavedAt: timestamp("last_saved_at"), // Latest autosave of in-progress answers
   completedAt: timestamp("completed_at"),
   timeSpent: integer("time_spent"), // seconds
-});
+  // Time-overrun audit trail
+  closeReason: varchar("close_reason"), // null when the learner submitted; auto_submitted, voided when the deadline closed it
+  voidedAt: timestamp("voided_at"),
+  overrunSeconds: integer("overrun_seconds"), // How far past the deadline the attempt was submitted or closed
+  lateSubmissionAt: timestamp("late_submission_at"), // When a submission arriving after the deadline was refused
+}, (table) => [
+  index("quiz_attempts_grading_status_idx").on(table.gradingStatus),
+  index("quiz_attempts_deadline_idx").on(table.deadlineAt),
+]);
 
 // Training records - immutable records for ISO compliance
 export const trainingRecords = pgTable("training_records", {
@@ -1098,6 +1431,11 @@ export const certificates = pgTable("certificates", {
   expiresAt: timestamp("expires_at"),
   verificationHash: varchar("verification_hash"),
   metadata: jsonb("metadata"), // Additional certificate data
+  revokedAt: timestamp("revoked_at"), // Set when the certificate is no longer valid; reported by public verification
+  revocationReason: text("revocation_reason"),
+  revokedBy: varchar("revoked_by"),
+  reissuedFromCertificateId: varchar("reissued_from_certificate_id"), // Original certificate this one replaces
+  templateId: varchar("template_id"), // certificate_templates row it prints with; null uses the built-in design
 }, (table) => ({
   // Unique constraint for learning path certificates to prevent duplicates
   uniqueLearningPathEnrollment: uniqueIndex("ux_cert_lp_enrollment").on(table.learningPathEnrollmentId).where(sql`${table.learningPathEnrollmentId} IS NOT NULL`),
@@ -1106,6 +1444,21 @@ export const certificates = pgTable("certificates", {
 }));
 
 
+// Certificate audit log - immutable history of revocations and reissues
+export const certificateAuditLog = pgTable("certificate_audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  certificateId: varchar("certificate_id").notNull(),
+  action: varchar("action").notNull(), // "revoked", "reissued", "issued_as_replacement"
+  reason: text("reason"),
+  performedBy: varchar("performed_by").notNull(),
+  relatedCertificateId: varchar("related_certificate_id"), // The replacement or original in a reissue
+  bulkOperationId: varchar("bulk_operation_id"), // Groups entries written by one bulk revocation
+  trainingMatrixUpdates: integer("training_matrix_updates").default(0), // Matrix records changed by the cascade
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("certificate_audit_certificate_idx").on(table.certificateId, table.createdAt),
+]);
+
 // Training requirements - maps roles to required courses
 export const trainingRequirements = pgTable("training_requirements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1925,6 +2278,17 @@ export const automationRunLogs = pgTable("automation_run_logs", {
   index("automation_run_logs_status_idx").on(table.status),
 ]);
 
+// Scheduler job leases - prevents two server instances from running the same job concurrently
+export const schedulerJobLocks = pgTable("scheduler_job_locks", {
+  jobName: varchar("job_name").primaryKey(), // "recurring_assignments", "due_date_reminders"
+  lockedBy: varchar("locked_by"), // Instance ID currently holding the lease
+  lockedUntil: timestamp("locked_until").notNull(), // Lease expiry - stale leases can be taken over
+  lastStartedAt: timestamp("last_started_at"),
+  lastCompletedAt: timestamp("last_completed_at"),
+  lastStatus: varchar("last_status"), // "completed", "failed"
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Phase 2: Gamification Tables
 
 // Badges available in the system
@@ -2196,8 +2560,17 @@ export const upsertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const insertUserCredentialSchema = createInsertSchema(userCredentials).omit({
+  failedLoginAttempts: true,
+  lockedUntil: true,
+  lastLoginAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const updateUserProfileSchema = createInsertSchema(users).omit({
   id: true,
+  isServiceAccount: true,
   createdAt: true,
   updatedAt: true,
 }).partial();
@@ -2206,6 +2579,19 @@ export const insertCompanyObjectiveSchema = createInsertSchema(companyObjectives
   id: true,
   createdAt: true,
   updatedAt: true,
+  finalScore: true, // Recorded by closing the cycle
+  retrospective: true,
+  rolledForwardFromId: true,
+  rollupMethod: true, // Set through the roll-up rule, which needs a reason for manual overrides
+  rollupOverride: true,
+  rollupOverrideReason: true,
+  rollupOverriddenBy: true,
+  rollupOverriddenAt: true,
+  rollupProgress: true,
+  rollupBreakdown: true,
+  rollupCalculatedAt: true,
+  blockedBy: true, // Worked out from the dependency graph
+  atRiskSince: true,
 }).extend({
   startDate: z.string()
     .min(1, "Start date is required")
@@ -2221,6 +2607,7 @@ export const insertCompanyObjectiveSchema = createInsertSchema(companyObjectives
       return !isNaN(date.getTime());
     }, "Invalid date format")
     .transform((str) => new Date(str)),
+  dependencies: z.array(z.string().min(1)).max(50).nullable().optional(), // Checked for unknown objectives and cycles on save
 });
 
 export const insertKeyResultSchema = createInsertSchema(keyResults).omit({
@@ -2232,12 +2619,24 @@ export const insertKeyResultSchema = createInsertSchema(keyResults).omit({
   confidenceScore: z.number().min(1).max(10).optional(),
   unit: z.string().optional(),
   currentValue: z.number().optional(),
+  rollupWeight: z.number().min(0).max(100).optional(),
 });
 
 export const insertTeamObjectiveSchema = createInsertSchema(teamObjectives).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  finalScore: true, // Recorded by closing the cycle
+  retrospective: true,
+  rolledForwardFromId: true,
+  rollupMethod: true, // Set through the roll-up rule, which needs a reason for manual overrides
+  rollupOverride: true,
+  rollupOverrideReason: true,
+  rollupOverriddenBy: true,
+  rollupOverriddenAt: true,
+  rollupProgress: true,
+  rollupBreakdown: true,
+  rollupCalculatedAt: true,
 }).extend({
   startDate: z.string()
     .min(1, "Start date is required")
@@ -2253,6 +2652,7 @@ export const insertTeamObjectiveSchema = createInsertSchema(teamObjectives).omit
       return !isNaN(date.getTime());
     }, "Invalid date format")
     .transform((str) => new Date(str)),
+  rollupWeight: z.number().min(0).max(100).optional(),
 });
 
 export const insertTeamKeyResultSchema = createInsertSchema(teamKeyResults).omit({
@@ -2264,6 +2664,7 @@ export const insertTeamKeyResultSchema = createInsertSchema(teamKeyResults).omit
   confidenceScore: z.number().min(1).max(10).optional(),
   unit: z.string().optional(),
   currentValue: z.number().optional(),
+  rollupWeight: z.number().min(0).max(100).optional(),
 });
 
 export const insertKrProgressUpdateSchema = createInsertSchema(krProgressUpdates).omit({
@@ -2334,6 +2735,48 @@ export const insertOkrSnapshotSchema = createInsertSchema(okrSnapshots).omit({
   createdAt: true,
 });
 
+// OKR cycles. Status moves open -> in_progress by update; closing goes through the close-out, which grades everything.
+export const OKR_OBJECTIVE_KINDS = ["company", "team", "goal"] as const;
+
+export const okrCycleSchema = z.object({
+  name: z.string().trim().min(1, "Cycle name is required").max(80),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+});
+
+export const okrCycleUpdateSchema = okrCycleSchema.partial().extend({
+  status: z.enum(["open", "in_progress"] as const).optional(),
+});
+
+export const okrCycleCloseSchema = z.object({
+  grades: z.array(z.object({
+    objectiveType: z.enum(OKR_OBJECTIVE_KINDS),
+    objectiveId: z.string().min(1),
+    finalScore: z.number().min(0).max(1).nullable().optional(), // Overrides the score worked out from the key results
+    retrospective: z.string().trim().max(5000).optional(),
+  })).max(1000).default([]),
+  rollForward: z.object({
+    targetCycleId: z.string().min(1),
+    objectiveIds: z.array(z.string().min(1)).max(1000).optional(), // Default: everything that scored below 1.0
+  }).nullable().optional(),
+});
+
+export const OKR_ROLLUP_METHODS = ["weighted_average", "min", "max", "manual"] as const;
+
+export const okrRollupRuleSchema = z.object({
+  method: z.enum(OKR_ROLLUP_METHODS),
+  overrideValue: z.number().min(0).max(1).nullable().optional(),
+  overrideReason: z.string().trim().max(1000).nullable().optional(),
+}).superRefine((rule, ctx) => {
+  if (rule.method !== "manual") return;
+  if (rule.overrideValue == null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["overrideValue"], message: "A manual override needs a value between 0 and 1" });
+  }
+  if (!rule.overrideReason) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["overrideReason"], message: "Give a reason for overriding the rolled-up progress" });
+  }
+});
+
 // Phase 4: Evidence upload schema
 export const insertOkrEvidenceSchema = createInsertSchema(okrEvidence).omit({
   id: true,
@@ -2348,6 +2791,9 @@ export const insertGoalSchema = createInsertSchema(goals).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  finalScore: true, // Recorded by closing the cycle
+  retrospective: true,
+  rolledForwardFromId: true,
 }).extend({
   startDate: z.string()
     .min(1, "Start date is required")
@@ -2363,6 +2809,7 @@ export const insertGoalSchema = createInsertSchema(goals).omit({
       return !isNaN(date.getTime());
     }, "Invalid date format")
     .transform((str) => new Date(str)),
+  rollupWeight: z.number().min(0).max(100).optional(),
 });
 
 export const insertWeeklyCheckInSchema = createInsertSchema(weeklyCheckIns).omit({
@@ -2461,6 +2908,23 @@ export const insertQuizQuestionSchema = createInsertSchema(quizQuestions).omit({
   createdAt: true,
 });
 
+export const insertQuestionBankSchema = createInsertSchema(questionBanks).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertQuestionBankQuestionSchema = createInsertSchema(questionBankQuestions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertQuizDrawRuleSchema = createInsertSchema(quizDrawRules).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertEnrollmentSchema = createInsertSchema(enrollments).omit({
   id: true,
   enrolledAt: true,
@@ -2472,6 +2936,17 @@ export const insertLessonProgressSchema = createInsertSchema(lessonProgress).omi
   updatedAt: true,
 });
 
+export const insertScormPackageSchema = createInsertSchema(scormPackages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertXapiStatementSchema = createInsertSchema(xapiStatements).omit({
+  forwardAttempts: true,
+  forwardedAt: true,
+  lastForwardError: true,
+});
+
 export const insertQuizAttemptSchema = createInsertSchema(quizAttempts).omit({
   id: true,
   startedAt: true,
@@ -2486,6 +2961,14 @@ export const insertTrainingRecordSchema = createInsertSchema(trainingRecords).om
 export const insertCertificateSchema = createInsertSchema(certificates).omit({
   id: true,
   issuedAt: true,
+  revokedAt: true,
+  revocationReason: true,
+  revokedBy: true,
+});
+
+export const insertCertificateAuditLogSchema = createInsertSchema(certificateAuditLog).omit({
+  id: true,
+  createdAt: true,
 });
 
 
@@ -2709,6 +3192,8 @@ export type CompetencySkill = typeof competencySkills.$inferSelect;
 export type JobRole = typeof jobRoles.$inferSelect;
 export type LearningPathJobRole = typeof learningPathJobRoles.$inferSelect;
 export type User = typeof users.$inferSelect;
+export type UserCredential = typeof userCredentials.$inferSelect;
+export type InsertUserCredential = z.infer<typeof insertUserCredentialSchema>;
 export type CompanyObjective = typeof companyObjectives.$inferSelect;
 export type TeamObjective = typeof teamObjectives.$inferSelect;
 export type KeyResult = typeof keyResults.$inferSelect;
@@ -2723,6 +3208,83 @@ export type CorrectiveAction = typeof correctiveActions.$inferSelect;
 export type Nonconformity = typeof nonconformities.$inferSelect;
 export type ManagementReview = typeof managementReviews.$inferSelect;
 export type OkrSnapshot = typeof okrSnapshots.$inferSelect;
+export type OkrCycle = typeof okrCycles.$inferSelect;
+export type InsertOkrCycle = z.infer<typeof okrCycleSchema>;
+export type UpdateOkrCycle = z.infer<typeof okrCycleUpdateSchema>;
+export type CloseOkrCycle = z.infer<typeof okrCycleCloseSchema>;
+export type OkrObjectiveKind = typeof OKR_OBJECTIVE_KINDS[number];
+export type OkrRollupMethod = typeof OKR_ROLLUP_METHODS[number];
+export type OkrRollupRule = z.infer<typeof okrRollupRuleSchema>;
+
+// One child counted in an objective's roll-up
+export interface OkrRollupInput {
+  kind: "key_result" | "team_key_result" | "team_objective" | "goal";
+  id: string;
+  title: string;
+  score: number | null; // 0.0-1.0; null when it has nothing to score yet and is left out
+  weight: number;
+}
+
+// Stored with the objective so the UI can explain where its progress came from
+export interface OkrRollupBreakdown {
+  method: OkrRollupMethod;
+  inputs: OkrRollupInput[];
+  calculatedProgress: number | null; // From the inputs; for manual overrides, the weighted average it replaces
+  progress: number | null; // What the objective shows
+  override: { value: number; reason: string; by: string | null; at: string | null } | null;
+  explanation: string;
+}
+
+export type ObjectiveHealth = "green" | "amber" | "red";
+
+// A company objective in the dependency graph; edges run from the upstream objective to the one depending on it
+export interface ObjectiveDependencyNode {
+  id: string;
+  title: string;
+  ownerId: string | null;
+  cycleId: string | null;
+  endDate: string;
+  riskLevel: string | null;
+  progress: number | null;
+  health: ObjectiveHealth;
+  healthReason: string;
+  dependsOn: string[];
+  dependents: string[];
+  blockedBy: string[]; // Red upstream objectives, direct or further up the chain
+  depth: number; // Longest chain of dependencies beneath it; 0 for objectives that depend on nothing
+}
+
+export interface ObjectiveDependencyGraph {
+  nodes: ObjectiveDependencyNode[];
+  edges: Array<{ from: string; to: string }>;
+  criticalPath: string[]; // Upstream first: the chain with the most work left to do
+  criticalPathRemaining: number;
+}
+
+export const KR_FORECAST_METHODS = ["linear", "ewma"] as const;
+export type KrForecastMethod = typeof KR_FORECAST_METHODS[number];
+
+// One reading in a key result's history, from a progress update or a weekly check-in
+export interface KrForecastPoint {
+  at: string;
+  value: number;
+  source: "baseline" | "progress_update" | "check_in";
+}
+
+// Where a key result is heading by the end of its objective, projected from its history
+export interface KrForecast {
+  method: KrForecastMethod;
+  asOf: string;
+  endDate: string;
+  points: KrForecastPoint[];
+  projectedValue: number | null; // null until there are two readings far enough apart to show a trend
+  projectedScore: number | null; // 0.0-1.0, scored like the key result itself
+  band: { lowValue: number; highValue: number; lowScore: number; highScore: number } | null; // 80% range
+  confidenceScore: number | null; // The owner's latest 1-10
+  impliedConfidence: { low: number; high: number } | null; // The band on the same 1-10 scale
+  confidenceMismatch: "overconfident" | "underconfident" | null;
+  explanation: string;
+}
 export type Goal = typeof goals.$inferSelect;
 export type WeeklyCheckIn = typeof weeklyCheckIns.$inferSelect;
 export type KrWeeklyCheckIn = typeof krWeeklyCheckIns.$inferSelect;
@@ -2740,11 +3302,71 @@ export type CourseModule = typeof courseModules.$inferSelect;
 export type Lesson = typeof lessons.$inferSelect;
 export type Quiz = typeof quizzes.$inferSelect;
 export type QuizQuestion = typeof quizQuestions.$inferSelect;
+export type QuestionBank = typeof questionBanks.$inferSelect;
+export type InsertQuestionBank = z.infer<typeof insertQuestionBankSchema>;
+export type QuestionBankQuestion = typeof questionBankQuestions.$inferSelect;
+export type InsertQuestionBankQuestion = z.infer<typeof insertQuestionBankQuestionSchema>;
+export type QuizDrawRule = typeof quizDrawRules.$inferSelect;
+export type InsertQuizDrawRule = z.infer<typeof insertQuizDrawRuleSchema>;
+// Shape of each entry in quiz_attempts.question_set. Answers and grading refer to questions by id.
+export interface AttemptQuestion {
+  id: string; // quiz_questions.id or question_bank_questions.id
+  source: "quiz" | "bank";
+  bankId: string | null;
+  drawRuleId: string | null;
+  skillIds: string[];
+  difficulty: string | null;
+  type: string;
+  questionText: string;
+  options: unknown;
+  correctAnswers: unknown;
+  explanation: string | null;
+}
+// Answer key and option shapes for the non-choice question types
+export interface ShortAnswerKey {
+  acceptedAnswers: string[]; // Plain text with * wildcards, or /regex/ patterns
+  caseSensitive?: boolean;
+}
+export interface NumericAnswerKey {
+  value: number;
+  tolerance: number;
+  toleranceType?: "absolute" | "percent";
+}
+export interface MatchingOptions {
+  left: string[]; // Prompts; the answer is the chosen right index for each prompt
+  right: string[];
+}
+export interface EssayOptions {
+  rubric?: string;
+  minWords?: number;
+}
+// Outcome of each question on a submitted attempt, stored in quiz_attempts.question_results
+export interface AttemptQuestionResult {
+  questionId: string;
+  earned: number; // 0-1 share of the question's credit
+  isCorrect: boolean | null; // null until an essay is graded
+  needsManualGrading: boolean;
+  feedback?: string | null;
+  gradedBy?: string | null;
+  gradedAt?: string | null;
+}
 export type Enrollment = typeof enrollments.$inferSelect;
 export type LessonProgress = typeof lessonProgress.$inferSelect;
+export type ScormPackage = typeof scormPackages.$inferSelect;
+export type InsertScormPackage = z.infer<typeof insertScormPackageSchema>;
+export type XapiStatementRecord = typeof xapiStatements.$inferSelect;
+export type InsertXapiStatementRecord = z.infer<typeof insertXapiStatementSchema>;
+// Shape of each entry in scorm_packages.scos
+export interface ScormSco {
+  identifier: string;
+  title: string;
+  href: string; // Launch file relative to the package root, including item parameters
+  masteryScore: number | null; // Percentage required to pass, from adlcp:masteryscore or imsss:minNormalizedMeasure
+}
 export type QuizAttempt = typeof quizAttempts.$inferSelect;
 export type TrainingRecord = typeof trainingRecords.$inferSelect;
 export type Certificate = typeof certificates.$inferSelect;
+export type CertificateAuditLog = typeof certificateAuditLog.$inferSelect;
 export type Badge = typeof badges.$inferSelect;
 export type UserBadge = typeof userBadges.$inferSelect;
 export type TrainingRequirement = typeof trainingRequirements.$inferSelect;
@@ -2804,6 +3426,7 @@ export type InsertLessonProgress = z.infer<typeof insertLessonProgressSchema>;
 export type InsertQuizAttempt = z.infer<typeof insertQuizAttemptSchema>;
 export type InsertTrainingRecord = z.infer<typeof insertTrainingRecordSchema>;
 export type InsertCertificate = z.infer<typeof insertCertificateSchema>;
+export type InsertCertificateAuditLog = z.infer<typeof insertCertificateAuditLogSchema>;
 export type InsertBadge = z.infer<typeof insertBadgeSchema>;
 export type InsertUserBadge = z.infer<typeof insertUserBadgeSchema>;
 export type InsertTrainingRequirement = z.infer<typeof insertTrainingRequirementSchema>;
@@ -3171,7 +3794,8 @@ export const enhancedAuditTrailFilterSchema = auditTrailFilterSchema.extend({
 // Quiz answer types for complete type safety
 export const quizAnswerSchema = z.record(z.string(), z.union([
   z.string(),
-  z.array(z.string())
+  z.number(),
+  z.array(z.union([z.string(), z.number()]))
 ]));
 
 // Export the new types
@@ -3229,6 +3853,7 @@ export type RecurringAssignment = typeof recurringAssignments.$inferSelect;
 export type InsertRecurringAssignment = z.infer<typeof insertRecurringAssignmentSchema>;
 export type AutomationRunLog = typeof automationRunLogs.$inferSelect;
 export type InsertAutomationRunLog = z.infer<typeof insertAutomationRunLogSchema>;
+export type SchedulerJobLock = typeof schedulerJobLocks.$inferSelect;
 
 // =====================================================================
 // ADVANCED ANALYTICS TABLES - Phase 3 Implementation
@@ -3282,7 +3907,9 @@ export const analyticsReports = pgTable("analytics_reports", {
   data: jsonb("data").notNull(), // Report data and visualizations
   insights: jsonb("insights"), // AI-generated insights and recommendations
   isScheduled: boolean("is_scheduled").default(false),
-  schedule: jsonb("schedule"), // Cron-like schedule configuration
+  schedule: jsonb("schedule"), // ReportSchedule: cron expression, recipients, format and retention
+  nextRunAt: timestamp("next_run_at"), // Scheduled reports: when the scheduled_reports job runs it next
+  lastRunAt: timestamp("last_run_at"),
   generatedAt: timestamp("generated_at").defaultNow(),
   validUntil: timestamp("valid_until"), // Report expiry
 }, (table) => [
@@ -3290,6 +3917,7 @@ export const analyticsReports = pgTable("analytics_reports", {
   index("idx_analytics_reports_type").on(table.reportType),
   index("idx_analytics_reports_generated_at").on(table.generatedAt),
   index("idx_analytics_reports_scheduled").on(table.isScheduled),
+  index("idx_analytics_reports_next_run").on(table.isScheduled, table.nextRunAt),
 ]);
 
 // Performance Snapshots - Point-in-time performance captures
@@ -3598,7 +4226,11 @@ export const notifications = pgTable("notifications", {
   archivedAt: timestamp("archived_at"),
   createdAt: timestamp("created_at").defaultNow(),
   expiresAt: timestamp("expires_at"), // Optional expiry date for notifications
-});
+  txId: bigint("tx_id", { mode: "number" }).default(sql`pg_current_xact_id()::text::bigint`).notNull(), // Realtime relay cursor
+  seq: bigserial("seq", { mode: "number" }).notNull(),
+}, (table) => [
+  index("notifications_relay_idx").on(table.txId, table.seq), // Read by the realtime relay on every instance
+]);
 
 // N8N Webhook Configuration table - stores webhook URLs for different event types
 export const n8nWebhookConfigs = pgTable("n8n_webhook_configs", {
@@ -3616,9 +4248,17 @@ export const n8nWebhookConfigs = pgTable("n8n_webhook_configs", {
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   lastTriggeredAt: timestamp("last_triggered_at"),
+  consecutiveFailures: integer("consecutive_failures").default(0), // Failed delivery attempts since the last success
+  autoDeactivatedAt: timestamp("auto_deactivated_at"), // Set when the delivery queue disables a failing webhook
+  deactivationReason: text("deactivation_reason"),
+  signingSecret: varchar("signing_secret"), // HMAC-SHA256 key used for the X-WeGrow-Signature header
+  previousSigningSecret: varchar("previous_signing_secret"), // Still signed with until previousSecretExpiresAt (rotation grace window)
+  previousSecretExpiresAt: timestamp("previous_secret_expires_at"),
+  secretRotatedAt: timestamp("secret_rotated_at"),
+  domainEventTypes: text("domain_event_types").array(), // Domain events this webhook receives, or ["*"]; see DOMAIN_EVENT_TYPES
 }, (table) => ({
-  // Unique constraint on event type to prevent duplicate webhooks for same event
-  uniqueEventType: unique().on(table.eventType),
+  // One webhook per notification event type; any number can take domain events
+  uniqueEventType: uniqueIndex("n8n_webhook_configs_event_type_unique").on(table.eventType).where(sql`${table.eventType} <> 'domain_event'`),
 }));
 
 // Webhook execution logs - track webhook calls for debugging
@@ -3634,10 +4274,40 @@ export const webhookExecutionLogs = pgTable("webhook_execution_logs", {
   executionTimeMs: integer("execution_time_ms"),
   isSuccess: boolean("is_success").default(false),
   retryAttempt: integer("retry_attempt").default(0),
+  deliveryId: varchar("delivery_id"), // X-WeGrow-Delivery-Id sent; matches webhook_deliveries.id for queued deliveries
   triggeredBy: varchar("triggered_by"), // System or user ID that triggered the event
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Webhook deliveries - durable outbound queue with retry/backoff and dead-lettering
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  webhookConfigId: varchar("webhook_config_id").notNull(),
+  eventType: webhookEventTypeEnum("event_type").notNull(),
+  payload: jsonb("payload").notNull(), // Body POSTed to the webhook URL
+  status: varchar("status").notNull().default("pending"), // "pending", "delivering", "retrying", "delivered", "dead_lettered", "replayed"
+  attemptCount: integer("attempt_count").default(0),
+  maxAttempts: integer("max_attempts").notNull(), // First attempt plus the config's retryCount
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  lastHttpStatus: integer("last_http_status"),
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  deadLetteredAt: timestamp("dead_lettered_at"),
+  replayOfDeliveryId: varchar("replay_of_delivery_id"), // Original delivery when an admin replays a failure
+  triggeredBy: varchar("triggered_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  foreignKey({
+    columns: [table.webhookConfigId],
+    foreignColumns: [n8nWebhookConfigs.id],
+    name: "webhook_deliveries_config_fk"
+  }).onDelete("cascade"),
+  index("webhook_deliveries_config_idx").on(table.webhookConfigId),
+  index("webhook_deliveries_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+]);
+
 // Notification preferences - user preferences for notifications
 export const notificationPreferences = pgTable("notification_preferences", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -3645,6 +4315,8 @@ export const notificationPreferences = pgTable("notification_preferences", {
   notificationType: notificationTypeEnum("notification_type").notNull(),
   inAppEnabled: boolean("in_app_enabled").default(true),
   webhookEnabled: boolean("webhook_enabled").default(false), // Whether user wants webhook notifications for this type
+  emailEnabled: boolean("email_enabled"), // Null until the user chooses; DEFAULT_EMAIL_NOTIFICATION_TYPES applies
+  smsEnabled: boolean("sms_enabled").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
@@ -3676,18 +4348,34 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true, 
   createdAt: true, 
   readAt: true, 
-  archivedAt: true 
+  archivedAt: true,
+  txId: true,
+  seq: true,
 });
 export const insertN8nWebhookConfigSchema = createInsertSchema(n8nWebhookConfigs).omit({ 
   id: true, 
   createdAt: true, 
   updatedAt: true, 
-  lastTriggeredAt: true 
+  lastTriggeredAt: true,
+  consecutiveFailures: true,
+  autoDeactivatedAt: true,
+  deactivationReason: true,
+  signingSecret: true,
+  previousSigningSecret: true,
+  previousSecretExpiresAt: true,
+  secretRotatedAt: true
+}).extend({
+  domainEventTypes: webhookDomainEventTypesSchema.nullable().optional(),
 });
 export const insertWebhookExecutionLogSchema = createInsertSchema(webhookExecutionLogs).omit({ 
   id: true, 
   createdAt: true 
 });
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({ 
+  id: true, 
+  createdAt: true, 
+  updatedAt: true 
+});
 export const insertNotificationPreferenceSchema = createInsertSchema(notificationPreferences).omit({ 
   id: true, 
   createdAt: true, 
@@ -3706,7 +4394,700 @@ export type N8nWebhookConfig = typeof n8nWebhookConfigs.$inferSelect;
 export type InsertN8nWebhookConfig = z.infer<typeof insertN8nWebhookConfigSchema>;
 export type WebhookExecutionLog = typeof webhookExecutionLogs.$inferSelect;
 export type InsertWebhookExecutionLog = z.infer<typeof insertWebhookExecutionLogSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
 export type NotificationPreference = typeof notificationPreferences.$inferSelect;
 export type InsertNotificationPreference = z.infer<typeof insertNotificationPreferenceSchema>;
 export type NotificationTemplate = typeof notificationTemplates.$inferSelect;
 export type InsertNotificationTemplate = z.infer<typeof insertNotificationTemplateSchema>;
+
+// =====================================================================
+// BULK IMPORTS
+// =====================================================================
+
+export const importTypeEnum = pgEnum("import_type", ["users", "training_records", "competency_evidence"]);
+export const importBatchStatusEnum = pgEnum("import_batch_status", ["validated", "invalid", "committed", "rolled_back"]);
+
+// One uploaded spreadsheet. A dry run stores the validation report; committing applies every row in one transaction.
+export const importBatches = pgTable("import_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  importType: importTypeEnum("import_type").notNull(),
+  fileName: varchar("file_name").notNull(),
+  sourceObjectPath: varchar("source_object_path").notNull(), // Uploaded file, re-read and re-validated on commit
+  status: importBatchStatusEnum("status").notNull(),
+  totalRows: integer("total_rows").notNull().default(0),
+  errorCount: integer("error_count").notNull().default(0),
+  report: jsonb("report"), // Row-level errors and planned changes from the latest validation
+  createdBy: varchar("created_by").notNull(),
+  committedBy: varchar("committed_by"),
+  committedAt: timestamp("committed_at"),
+  rolledBackBy: varchar("rolled_back_by"),
+  rolledBackAt: timestamp("rolled_back_at"),
+  rollbackReason: text("rollback_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  foreignKey({
+    columns: [table.createdBy],
+    foreignColumns: [users.id],
+    name: "import_batches_created_by_fk"
+  }),
+  index("import_batches_created_at_idx").on(table.createdAt),
+]);
+
+// Every row a committed batch created or changed, with the values it replaced, so the batch can be reversed
+export const importBatchRecords = pgTable("import_batch_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchId: varchar("batch_id").notNull(),
+  sequence: integer("sequence").notNull(), // Order applied; rollback runs in reverse
+  rowNumber: integer("row_number"), // Spreadsheet row, counting the header as row 1
+  entityType: varchar("entity_type").notNull(), // "department", "team", "user", "team_member", "enrollment", "training_record", "certificate", "competency_evidence"
+  entityId: varchar("entity_id").notNull(),
+  action: varchar("action").notNull(), // "created" or "updated"
+  previousValues: jsonb("previous_values"), // Columns an update overwrote
+  appliedValues: jsonb("applied_values"), // What the update wrote; rollback leaves columns edited since then alone
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  foreignKey({
+    columns: [table.batchId],
+    foreignColumns: [importBatches.id],
+    name: "import_batch_records_batch_fk"
+  }).onDelete("cascade"),
+  index("import_batch_records_batch_idx").on(table.batchId, table.sequence),
+  index("import_batch_records_entity_idx").on(table.entityType, table.entityId),
+]);
+
+export const insertImportBatchSchema = createInsertSchema(importBatches).omit({
+  id: true,
+  committedBy: true,
+  committedAt: true,
+  rolledBackBy: true,
+  rolledBackAt: true,
+  rollbackReason: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type ImportBatch = typeof importBatches.$inferSelect;
+export type InsertImportBatch = z.infer<typeof insertImportBatchSchema>;
+export type ImportBatchRecord = typeof importBatchRecords.$inferSelect;
+
+// =====================================================================
+// PERMISSION ROLES
+// =====================================================================
+
+export const permissionScopeTypeEnum = pgEnum("permission_scope_type", ["organization", "department", "team"]);
+
+// Named sets of permissions (see server/permissions.ts) that can be granted on top of a user's base role
+export const permissionRoles = pgTable("permission_roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull().unique(),
+  description: text("description"),
+  permissions: text("permissions").array().notNull().default(sql`'{}'::text[]`),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A permission role granted to a user across the organization, or only for one department or team
+export const permissionRoleAssignments = pgTable("permission_role_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  roleId: varchar("role_id").notNull(),
+  scopeType: permissionScopeTypeEnum("scope_type").notNull().default("organization"),
+  scopeId: varchar("scope_id"), // departments.id or teams.id; null for organization-wide grants
+  grantedBy: varchar("granted_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "permission_role_assignments_user_fk"
+  }).onDelete("cascade"),
+  foreignKey({
+    columns: [table.roleId],
+    foreignColumns: [permissionRoles.id],
+    name: "permission_role_assignments_role_fk"
+  }).onDelete("cascade"),
+  index("permission_role_assignments_user_idx").on(table.userId),
+  index("permission_role_assignments_role_idx").on(table.roleId),
+]);
+
+export const insertPermissionRoleSchema = createInsertSchema(permissionRoles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPermissionRoleAssignmentSchema = createInsertSchema(permissionRoleAssignments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type PermissionRole = typeof permissionRoles.$inferSelect;
+export type InsertPermissionRole = z.infer<typeof insertPermissionRoleSchema>;
+export type PermissionRoleAssignment = typeof permissionRoleAssignments.$inferSelect;
+export type InsertPermissionRoleAssignment = z.infer<typeof insertPermissionRoleAssignmentSchema>;
+
+// =====================================================================
+// API TOKENS
+// =====================================================================
+
+// Bearer tokens for scripts and integrations calling /api/* without a browser session (see server/apiTokens.ts).
+// Only a SHA-256 hash is kept; the token itself is shown once when it is created.
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(), // The person, or service account, the token acts as
+  name: varchar("name").notNull(),
+  tokenPrefix: varchar("token_prefix").notNull(), // First characters of the token, so it can be recognised in lists
+  tokenHash: varchar("token_hash").notNull().unique(),
+  scopes: text("scopes").array().notNull().default(sql`'{}'::text[]`), // "read", "write", or per resource, e.g. "okr:read"
+  rateLimitPerMinute: integer("rate_limit_per_minute").default(60).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: varchar("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: varchar("revoked_by"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "api_tokens_user_fk"
+  }).onDelete("cascade"),
+  index("api_tokens_user_idx").on(table.userId),
+]);
+
+// One row per request made with a token, including rejected ones
+export const apiTokenAccessLog = pgTable("api_token_access_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tokenId: varchar("token_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  method: varchar("method").notNull(),
+  path: varchar("path").notNull(),
+  statusCode: integer("status_code").notNull(),
+  ipAddress: varchar("ip_address"),
+  userAgent: varchar("user_agent"),
+  durationMs: integer("duration_ms"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  foreignKey({
+    columns: [table.tokenId],
+    foreignColumns: [apiTokens.id],
+    name: "api_token_access_log_token_fk"
+  }).onDelete("cascade"),
+  index("api_token_access_log_token_idx").on(table.tokenId, table.createdAt),
+  index("api_token_access_log_created_at_idx").on(table.createdAt),
+]);
+
+// The current one-minute rate-limit window per token, shared by every server instance
+export const apiTokenRateWindows = pgTable("api_token_rate_windows", {
+  tokenId: varchar("token_id").primaryKey(),
+  windowStartedAt: timestamp("window_started_at").notNull(),
+  requestCount: integer("request_count").notNull().default(0),
+}, (table) => [
+  foreignKey({
+    columns: [table.tokenId],
+    foreignColumns: [apiTokens.id],
+    name: "api_token_rate_windows_token_fk"
+  }).onDelete("cascade"),
+]);
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  revokedBy: true,
+  createdAt: true,
+});
+
+export const insertApiTokenAccessLogSchema = createInsertSchema(apiTokenAccessLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiTokenAccessLogEntry = typeof apiTokenAccessLog.$inferSelect;
+export type InsertApiTokenAccessLogEntry = z.infer<typeof insertApiTokenAccessLogSchema>;
+
+// =====================================================================
+// DOMAIN EVENTS
+// =====================================================================
+
+export const domainEventStatusEnum = pgEnum("domain_event_status", ["pending", "processing", "processed", "failed"]);
+
+// Transactional outbox: rows are written in the same transaction as the change they describe, then dispatched to
+// the subscribers in server/domainEvents.ts by the domain_events scheduler job
+export const domainEvents = pgTable("domain_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventType: varchar("event_type").notNull(), // One of DOMAIN_EVENT_TYPES
+  aggregateType: varchar("aggregate_type").notNull(), // "enrollment", "certificate", "key_result" ...
+  aggregateId: varchar("aggregate_id").notNull(),
+  userId: varchar("user_id"), // Person the event is about, when there is one
+  actorId: varchar("actor_id"), // Who caused it; null for the system
+  payload: jsonb("payload").notNull(), // DomainEventPayloads[eventType]
+  status: domainEventStatusEnum("status").default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(), // Also the lease expiry while processing
+  lastError: text("last_error"),
+  processedAt: timestamp("processed_at"),
+  occurredAt: timestamp("occurred_at").defaultNow().notNull(),
+  txId: bigint("tx_id", { mode: "number" }).default(sql`pg_current_xact_id()::text::bigint`).notNull(), // Realtime relay cursor
+  seq: bigserial("seq", { mode: "number" }).notNull(),
+}, (table) => [
+  index("domain_events_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+  index("domain_events_type_occurred_idx").on(table.eventType, table.occurredAt),
+  index("domain_events_aggregate_idx").on(table.aggregateType, table.aggregateId),
+  index("domain_events_relay_idx").on(table.txId, table.seq),
+]);
+
+// What each subscriber did with an event, so a retry only re-runs the subscribers that failed
+export const domainEventSubscriberRuns = pgTable("domain_event_subscriber_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull(),
+  subscriber: varchar("subscriber").notNull(), // "webhooks", "notifications", "automation"
+  status: varchar("status").notNull(), // "succeeded" or "failed"
+  attempts: integer("attempts").default(1).notNull(),
+  lastError: text("last_error"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  foreignKey({
+    columns: [table.eventId],
+    foreignColumns: [domainEvents.id],
+    name: "domain_event_subscriber_runs_event_fk"
+  }).onDelete("cascade"),
+  uniqueIndex("domain_event_subscriber_runs_event_subscriber_idx").on(table.eventId, table.subscriber),
+]);
+
+export type DomainEvent = typeof domainEvents.$inferSelect;
+export type DomainEventSubscriberRun = typeof domainEventSubscriberRuns.$inferSelect;
+
+// What storage writes to the outbox; status and timestamps are filled in by the database
+export interface NewDomainEvent<T extends DomainEventType = DomainEventType> {
+  eventType: T;
+  aggregateType: string;
+  aggregateId: string;
+  userId?: string | null;
+  actorId?: string | null;
+  payload: DomainEventPayloads[T];
+}
+
+// =====================================================================
+// NOTIFICATION CHANNELS
+// =====================================================================
+
+// Emailed unless the user turns email off for the type, so people who rarely open the app still hear about them
+export const DEFAULT_EMAIL_NOTIFICATION_TYPES = ["training_due", "training_overdue", "certificate_expiring", "certificate_revoked"];
+
+// Rolled into the digest email instead of being emailed one at a time when the user has a digest
+export const DIGEST_NOTIFICATION_TYPES = ["training_due", "training_overdue", "goal_deadline"];
+
+export const digestFrequencyEnum = pgEnum("digest_frequency", ["off", "daily", "weekly"]);
+
+// Per-user delivery settings for the email and SMS channels. Quiet hours are local to timezone and may span midnight.
+export const notificationChannelSettings = pgTable("notification_channel_settings", {
+  userId: varchar("user_id").primaryKey(),
+  quietHoursStart: varchar("quiet_hours_start", { length: 5 }), // "22:00"; null for no quiet hours
+  quietHoursEnd: varchar("quiet_hours_end", { length: 5 }), // "07:00"
+  timezone: varchar("timezone").default("UTC").notNull(), // IANA name, e.g. "Europe/London"
+  locale: varchar("locale", { length: 16 }).default("en").notNull(), // Picks the notification template variant, e.g. "de" or "fr-CA"
+  digestFrequency: digestFrequencyEnum("digest_frequency").default("off").notNull(),
+  digestHour: integer("digest_hour").default(7).notNull(), // Local hour the digest is sent, 0-23
+  digestDayOfWeek: integer("digest_day_of_week").default(1).notNull(), // Weekly digests: 0 = Sunday
+  includeReportsInDigest: boolean("include_reports_in_digest").default(true).notNull(), // Managers: add their direct reports' items
+  lastDigestSentAt: timestamp("last_digest_sent_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "notification_channel_settings_user_fk"
+  }).onDelete("cascade"),
+]);
+
+// Outgoing emails and text messages, sent by the notification_deliveries scheduler job
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  notificationId: varchar("notification_id"), // In-app notification this copies, if any
+  channel: notificationChannelEnum("channel").notNull(), // "email" or "sms"
+  kind: varchar("kind").default("notification").notNull(), // "notification" or "digest"
+  notificationType: notificationTypeEnum("notification_type"),
+  priority: notificationPriorityEnum("priority").default("medium").notNull(), // Urgent deliveries ignore quiet hours
+  recipient: varchar("recipient").notNull(), // Email address or E.164 phone number
+  subject: varchar("subject"),
+  body: text("body").notNull(),
+  actionUrl: varchar("action_url"),
+  status: varchar("status").default("pending").notNull(), // "pending", "sending", "sent", "failed"
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(), // Also the lease expiry while sending
+  lastError: text("last_error"),
+  providerMessageId: varchar("provider_message_id"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "notification_deliveries_user_fk"
+  }).onDelete("cascade"),
+  index("notification_deliveries_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+  index("notification_deliveries_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+const quietHoursTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use 24-hour HH:MM");
+
+export const notificationChannelSettingsSchema = z.object({
+  quietHoursStart: quietHoursTimeSchema.nullable(),
+  quietHoursEnd: quietHoursTimeSchema.nullable(),
+  timezone: z.string().min(1).max(64),
+  locale: z.string().regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, "Use a language tag such as en or fr-CA"),
+  digestFrequency: z.enum(["off", "daily", "weekly"]),
+  digestHour: z.number().int().min(0).max(23),
+  digestDayOfWeek: z.number().int().min(0).max(6),
+  includeReportsInDigest: z.boolean(),
+}).partial().refine(
+  (value) => (value.quietHoursStart === undefined) === (value.quietHoursEnd === undefined)
+    && (value.quietHoursStart === null) === (value.quietHoursEnd === null),
+  { message: "Set quiet hours start and end together", path: ["quietHoursEnd"] }
+);
+
+export const insertNotificationDeliverySchema = createInsertSchema(notificationDeliveries).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  providerMessageId: true,
+  sentAt: true,
+  createdAt: true,
+});
+
+export type NotificationChannelSettings = typeof notificationChannelSettings.$inferSelect;
+export type UpdateNotificationChannelSettings = z.infer<typeof notificationChannelSettingsSchema>;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type InsertNotificationDelivery = z.infer<typeof insertNotificationDeliverySchema>;
+
+// =====================================================================
+// NOTIFICATION TEMPLATE LOCALES
+// =====================================================================
+
+// Translations of a notification template. The recipient's locale picks "fr-CA", then "fr", then the template itself.
+export const notificationTemplateLocales = pgTable("notification_template_locales", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").notNull(),
+  locale: varchar("locale", { length: 16 }).notNull(),
+  titleTemplate: varchar("title_template").notNull(),
+  messageTemplate: text("message_template").notNull(),
+  actionLabel: varchar("action_label"),
+  updatedBy: varchar("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  foreignKey({
+    columns: [table.templateId],
+    foreignColumns: [notificationTemplates.id],
+    name: "notification_template_locales_template_fk"
+  }).onDelete("cascade"),
+  unique("notification_template_locales_template_locale_unique").on(table.templateId, table.locale),
+]);
+
+export type NotificationTemplateVariableType = "string" | "number" | "date" | "boolean" | "list";
+
+// Variables a template may use. "list.field" names a field of each item inside {{#each list}}.
+export const COMMON_NOTIFICATION_TEMPLATE_VARIABLES: Record<string, NotificationTemplateVariableType> = {
+  "user.firstName": "string",
+  "user.lastName": "string",
+  "user.name": "string",
+  "user.email": "string",
+  "user.jobTitle": "string",
+  "today": "date",
+  "entityId": "string",
+  "entityType": "string",
+  "overdueCourses": "list",
+  "overdueCourses.title": "string",
+  "overdueCourses.dueDate": "date",
+  "overdueCourses.daysOverdue": "number",
+};
+
+export const NOTIFICATION_TEMPLATE_VARIABLES: Partial<Record<typeof notificationTypeEnum.enumValues[number], Record<string, NotificationTemplateVariableType>>> = {
+  enrollment_reminder: { courseTitle: "string", dueDate: "date" },
+  course_completion: { courseTitle: "string" },
+  quiz_passed: { lessonTitle: "string", score: "number" },
+  quiz_failed: { lessonTitle: "string", score: "number" },
+  certification_issued: { courseTitle: "string" },
+  certificate_expiring: { certificateTitle: "string", expiresAt: "date", daysUntilExpiry: "number" },
+  certificate_revoked: { certificateTitle: "string", reason: "string" },
+  objective_at_risk: { objectiveTitle: "string", blockedByTitles: "string", dueDate: "date" },
+  badge_awarded: { badgeName: "string" },
+  training_due: { courseTitle: "string", dueDate: "date", daysUntilDue: "number" },
+  training_overdue: { courseTitle: "string", dueDate: "date", daysPastDue: "number" },
+  goal_deadline: { goalTitle: "string", dueDate: "date", daysUntilDue: "number", progress: "number" },
+};
+
+export const notificationTemplateLocaleSchema = z.object({
+  titleTemplate: z.string().min(1).max(255),
+  messageTemplate: z.string().min(1).max(5000),
+  actionLabel: z.string().max(100).nullable().optional(),
+});
+
+export type NotificationTemplateLocale = typeof notificationTemplateLocales.$inferSelect;
+export type UpsertNotificationTemplateLocale = z.infer<typeof notificationTemplateLocaleSchema>;
+
+// =====================================================================
+// SCHEDULED REPORTS
+// =====================================================================
+
+export const REPORT_FORMATS = ["csv", "xlsx", "pdf"] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+// What a scheduled report can contain; server/scheduledReports.ts turns each into a table of rows
+export const SCHEDULED_REPORT_DATASETS = ["company_metrics", "team_performance", "department_performance", "compliance"] as const;
+export type ScheduledReportDataset = typeof SCHEDULED_REPORT_DATASETS[number];
+
+export const reportRunStatusEnum = pgEnum("report_run_status", ["running", "succeeded", "failed"]);
+
+// One generation of a scheduled analytics_reports row. The filters are copied at run time so later edits to the
+// report don't change what an old file claims to contain; the file itself lives in object storage until expiresAt.
+export const analyticsReportRuns = pgTable("analytics_report_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").notNull(),
+  status: reportRunStatusEnum("status").default("running").notNull(),
+  trigger: varchar("trigger").notNull(), // "schedule" or "manual"
+  triggeredBy: varchar("triggered_by"), // User who ran it by hand
+  format: varchar("format").notNull(), // One of REPORT_FORMATS
+  filters: jsonb("filters").notNull(), // Snapshot of the report's filters for this run
+  rowCount: integer("row_count"),
+  artifactPath: varchar("artifact_path"), // /objects/... path; null once the retention period has passed
+  fileName: varchar("file_name"),
+  contentType: varchar("content_type"),
+  sizeBytes: integer("size_bytes"),
+  recipients: jsonb("recipients").default([]).notNull(), // Email addresses the file was sent to
+  emailedCount: integer("emailed_count").default(0).notNull(),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+  expiresAt: timestamp("expires_at"),
+  artifactDeletedAt: timestamp("artifact_deleted_at"),
+}, (table) => [
+  foreignKey({
+    columns: [table.reportId],
+    foreignColumns: [analyticsReports.id],
+    name: "analytics_report_runs_report_fk"
+  }).onDelete("cascade"),
+  index("analytics_report_runs_report_started_idx").on(table.reportId, table.startedAt),
+  index("analytics_report_runs_expires_idx").on(table.expiresAt),
+]);
+
+// Stored in analytics_reports.schedule. The cron expression is read in timezone.
+export const reportScheduleSchema = z.object({
+  cron: z.string().trim().min(1).max(100),
+  timezone: z.string().min(1).max(64),
+  format: z.enum(REPORT_FORMATS),
+  recipients: z.array(z.string().trim().toLowerCase().email()).max(50),
+  retentionDays: z.number().int().min(1).max(3650),
+});
+
+export const scheduledReportFiltersSchema = z.object({
+  teamId: z.string().min(1),
+  role: z.string().min(1),
+  status: z.string().min(1),
+}).partial();
+
+export const scheduledReportSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().max(1000).nullable().optional(),
+  reportType: z.enum(SCHEDULED_REPORT_DATASETS),
+  filters: scheduledReportFiltersSchema,
+  isScheduled: z.boolean(), // false pauses the schedule; the report can still be run by hand
+  schedule: reportScheduleSchema,
+});
+
+export const insertAnalyticsReportRunSchema = createInsertSchema(analyticsReportRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
+export type AnalyticsReportRun = typeof analyticsReportRuns.$inferSelect;
+export type InsertAnalyticsReportRun = z.infer<typeof insertAnalyticsReportRunSchema>;
+export type ReportSchedule = z.infer<typeof reportScheduleSchema>;
+export type ScheduledReportFilters = z.infer<typeof scheduledReportFiltersSchema>;
+export type UpsertScheduledReport = z.infer<typeof scheduledReportSchema>;
+
+// =====================================================================
+// CERTIFICATE TEMPLATES
+// =====================================================================
+
+export const CERTIFICATE_TEMPLATE_TYPES = ["course", "learning_path", "competency", "custom"] as const;
+
+// The standard PDF fonts pdfkit ships with, so templates never depend on uploaded font files
+export const CERTIFICATE_FONTS = [
+  "Helvetica", "Helvetica-Bold", "Helvetica-Oblique",
+  "Times-Roman", "Times-Bold", "Times-Italic",
+  "Courier", "Courier-Bold",
+] as const;
+
+// Merge variables for a template's title, body and layout text, written {{holder.name}} as in notification templates.
+// heading and body are the rendered title and body text and only make sense in layout fields.
+export const CERTIFICATE_MERGE_VARIABLES: Record<string, NotificationTemplateVariableType> = {
+  "holder.name": "string",
+  "holder.firstName": "string",
+  "holder.lastName": "string",
+  "title": "string",
+  "course.title": "string",
+  "course.version": "string",
+  "learningPath.title": "string",
+  "issueDate": "date",
+  "expiryDate": "date",
+  "certificateNumber": "string",
+};
+export const CERTIFICATE_LAYOUT_VARIABLES: Record<string, NotificationTemplateVariableType> = {
+  ...CERTIFICATE_MERGE_VARIABLES,
+  "heading": "string",
+  "body": "string",
+};
+
+// Layout positions are percentages of the page, so a layout keeps its shape on A4 and Letter
+const layoutPercent = z.number().min(0).max(100);
+const layoutWidth = z.number().min(1).max(100);
+// Images are uploaded through /api/certificate-templates/images and referenced by their /objects/... path
+const layoutImagePath = z.string().max(500).regex(/^\/objects\/certificate-templates\//, "Upload images through the template designer");
+
+export const certificateLayoutFieldSchema = z.object({
+  id: z.string().min(1).max(50),
+  text: z.string().max(2000),
+  x: layoutPercent,
+  y: layoutPercent,
+  width: layoutWidth,
+  fontSize: z.number().min(4).max(96),
+  font: z.enum(CERTIFICATE_FONTS),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a #rrggbb colour"),
+  align: z.enum(["left", "center", "right"]),
+});
+
+export const certificateLayoutImageSchema = z.object({
+  path: layoutImagePath,
+  x: layoutPercent,
+  y: layoutPercent,
+  width: layoutWidth,
+});
+
+export const certificateLayoutSignatureSchema = z.object({
+  imagePath: layoutImagePath.nullable(),
+  name: z.string().max(100),
+  title: z.string().max(100),
+  x: layoutPercent,
+  y: layoutPercent,
+  width: layoutWidth,
+});
+
+export const certificateLayoutSchema = z.object({
+  pageSize: z.enum(["A4", "LETTER"]),
+  orientation: z.enum(["landscape", "portrait"]),
+  backgroundImage: layoutImagePath.nullable(), // Stretched over the whole page
+  border: z.boolean(),
+  logo: certificateLayoutImageSchema.nullable(),
+  fields: z.array(certificateLayoutFieldSchema).max(30),
+  signatures: z.array(certificateLayoutSignatureSchema).max(4),
+  qrCode: z.object({ x: layoutPercent, y: layoutPercent, size: z.number().min(5).max(40) }).nullable(), // size is % of page width
+});
+
+export const certificateBrandingSchema = z.object({
+  logo: z.string().optional(),
+  colors: z.object({
+    primary: z.string(),
+    secondary: z.string(),
+    accent: z.string(),
+  }).optional(),
+  fontStyle: z.enum(["modern", "classic", "elegant"]).default("modern"),
+});
+
+// A stored certificate design. Certificates record the template they were issued with; the PDF is drawn from the
+// template's current layout each time it is downloaded.
+export const certificateTemplates = pgTable("certificate_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  certificateType: varchar("certificate_type").notNull(), // One of CERTIFICATE_TEMPLATE_TYPES
+  title: varchar("title").notNull(), // Heading, e.g. "Certificate of Completion"; may use merge variables
+  bodyText: text("body_text").notNull(), // May use merge variables
+  validityPeriod: integer("validity_period"), // Days until certificates issued with it expire; null never expires
+  requiresApproval: boolean("requires_approval").default(false).notNull(),
+  autoIssue: boolean("auto_issue").default(true).notNull(), // Only auto-issue templates are picked for completions
+  signatories: jsonb("signatories").default([]).notNull(), // Names shown in the designer's signature list
+  branding: jsonb("branding"), // certificateBrandingSchema
+  layout: jsonb("layout").notNull(), // certificateLayoutSchema
+  isDefault: boolean("is_default").default(false).notNull(), // Used for its certificate type when nothing is assigned
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("certificate_templates_type_idx").on(table.certificateType, table.isActive),
+]);
+
+// Which template prints a course's or learning path's certificates. Each course and path has at most one.
+export const certificateTemplateAssignments = pgTable("certificate_template_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").notNull(),
+  courseId: varchar("course_id"),
+  learningPathId: varchar("learning_path_id"),
+  assignedBy: varchar("assigned_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  foreignKey({
+    columns: [table.templateId],
+    foreignColumns: [certificateTemplates.id],
+    name: "certificate_template_assignments_template_fk"
+  }).onDelete("cascade"),
+  foreignKey({
+    columns: [table.courseId],
+    foreignColumns: [courses.id],
+    name: "certificate_template_assignments_course_fk"
+  }).onDelete("cascade"),
+  foreignKey({
+    columns: [table.learningPathId],
+    foreignColumns: [learningPaths.id],
+    name: "certificate_template_assignments_path_fk"
+  }).onDelete("cascade"),
+  uniqueIndex("ux_certificate_template_course").on(table.courseId).where(sql`${table.courseId} IS NOT NULL`),
+  uniqueIndex("ux_certificate_template_path").on(table.learningPathId).where(sql`${table.learningPathId} IS NOT NULL`),
+  index("certificate_template_assignments_template_idx").on(table.templateId),
+]);
+
+// What the designer sends when creating or editing a template
+export const certificateTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  certificateType: z.enum(CERTIFICATE_TEMPLATE_TYPES),
+  title: z.string().trim().min(1).max(200),
+  bodyText: z.string().min(1).max(5000),
+  validityPeriod: z.number().int().min(1).max(3650).nullable().optional(),
+  requiresApproval: z.boolean().default(false),
+  autoIssue: z.boolean().default(true),
+  signatories: z.array(z.string().trim().min(1).max(100)).max(10).default([]),
+  branding: certificateBrandingSchema.nullable().optional(),
+  layout: certificateLayoutSchema.optional(), // Filled with the standard layout when left out
+  isDefault: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+});
+
+export const insertCertificateTemplateSchema = createInsertSchema(certificateTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const certificateTemplateAssignmentsSchema = z.object({
+  courseIds: z.array(z.string().min(1)).max(500),
+  learningPathIds: z.array(z.string().min(1)).max(500),
+});
+
+export type CertificateTemplate = typeof certificateTemplates.$inferSelect;
+export type CertificateTemplateAssignment = typeof certificateTemplateAssignments.$inferSelect;
+export type InsertCertificateTemplate = z.infer<typeof insertCertificateTemplateSchema>;
+export type UpsertCertificateTemplate = z.infer<typeof certificateTemplateSchema>;
+export type CertificateLayout = z.infer<typeof certificateLayoutSchema>;
+export type CertificateLayoutField = z.infer<typeof certificateLayoutFieldSchema>;
+export type CertificateBranding = z.infer<typeof certificateBrandingSchema>;